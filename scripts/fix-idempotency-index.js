@@ -0,0 +1,60 @@
+/**
+ * Script to move message idempotency keys from per tenant to per sender
+ * This script drops the old tenantId_1_idempotencyKey_1 index and creates the
+ * unique index the application now expects, which includes createdBy
+ *
+ * Usage: node scripts/fix-idempotency-index.js
+ */
+
+const { MongoClient } = require('mongodb');
+
+// MongoDB connection string - update if needed
+const MONGO_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/unicx-test';
+
+async function fixIdempotencyIndex() {
+  const client = new MongoClient(MONGO_URI);
+
+  try {
+    await client.connect();
+    console.log('Connected to MongoDB');
+
+    const db = client.db();
+    const messagesCollection = db.collection('messages');
+
+    // Drop the old per-tenant index if it exists
+    try {
+      console.log('\n🗑️  Dropping old tenantId_1_idempotencyKey_1 index...');
+      await messagesCollection.dropIndex('tenantId_1_idempotencyKey_1');
+      console.log('✅ Old index dropped successfully!');
+    } catch (error) {
+      if (error.code === 27) {
+        console.log('ℹ️  Index tenantId_1_idempotencyKey_1 does not exist (already dropped or never created)');
+      } else {
+        throw error;
+      }
+    }
+
+    // Create the new per-sender unique index
+    console.log('\n🔧 Creating per-sender unique index...');
+    await messagesCollection.createIndex(
+      { tenantId: 1, createdBy: 1, idempotencyKey: 1 },
+      {
+        unique: true,
+        partialFilterExpression: { idempotencyKey: { $type: 'string' } }
+      }
+    );
+    console.log('✅ New unique index created successfully!');
+
+    console.log('\n✨ Index fix completed successfully!');
+    console.log('Idempotency keys are now unique per tenant and sender');
+
+  } catch (error) {
+    console.error('❌ Error:', error.message);
+    process.exit(1);
+  } finally {
+    await client.close();
+    console.log('\n🔌 Disconnected from MongoDB');
+  }
+}
+
+fixIdempotencyIndex();
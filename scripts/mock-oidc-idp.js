@@ -0,0 +1,189 @@
+#!/usr/bin/env node
+
+/**
+ * Mock OpenID Connect Identity Provider for trying tenant single sign-on locally
+ *
+ * Implements discovery, JWKS, an authorization endpoint that signs the user in
+ * without asking anything, and a token endpoint issuing RS256 ID tokens.
+ * Run the backend with ENABLE_EXTERNAL_AUTH_PROVIDERS=true and
+ * SSO_ALLOW_INSECURE_ISSUERS=true, then configure the tenant (PUT /auth/sso/config) with:
+ *   issuer: http://localhost:4000, clientId: unicx, clientSecret: unicx-secret
+ *
+ * The signed-in user is taken from the login_hint parameter or the MOCK_IDP_* variables;
+ * MOCK_IDP_GROUPS and MOCK_IDP_DEPARTMENT are comma separated claim values for role and
+ * entity mapping.
+ *
+ * Usage:
+ *   node scripts/mock-oidc-idp.js
+ *   MOCK_IDP_EMAIL=jane@acme.com MOCK_IDP_GROUPS=unicx-admins node scripts/mock-oidc-idp.js
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = parseInt(process.env.MOCK_IDP_PORT || '4000', 10);
+const ISSUER = process.env.MOCK_IDP_ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_IDP_CLIENT_ID || 'unicx';
+const CLIENT_SECRET = process.env.MOCK_IDP_CLIENT_SECRET || 'unicx-secret';
+
+const USER = {
+  email: process.env.MOCK_IDP_EMAIL || 'jane.doe@example.com',
+  given_name: process.env.MOCK_IDP_FIRST_NAME || 'Jane',
+  family_name: process.env.MOCK_IDP_LAST_NAME || 'Doe',
+  groups: (process.env.MOCK_IDP_GROUPS || '').split(',').filter(Boolean),
+  department: process.env.MOCK_IDP_DEPARTMENT || undefined,
+};
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = crypto.randomBytes(8).toString('hex');
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' };
+
+// Authorization codes issued and not yet redeemed
+const codes = new Map();
+
+function base64url(value) {
+  return Buffer.from(typeof value === 'string' ? value : JSON.stringify(value)).toString('base64url');
+}
+
+function signIdToken(claims) {
+  const header = base64url({ alg: 'RS256', typ: 'JWT', kid: KEY_ID });
+  const payload = base64url(claims);
+  const signature = crypto.sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), privateKey).toString('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => { data += chunk; });
+    req.on('end', () => resolve(new URLSearchParams(data)));
+    req.on('error', reject);
+  });
+}
+
+function clientCredentials(req, body) {
+  const header = req.headers.authorization || '';
+  if (header.startsWith('Basic ')) {
+    const [id, secret] = Buffer.from(header.slice(6), 'base64').toString().split(':').map(decodeURIComponent);
+    return { id, secret };
+  }
+  return { id: body.get('client_id'), secret: body.get('client_secret') };
+}
+
+function authorize(url, res) {
+  const params = url.searchParams;
+  const redirectUri = params.get('redirect_uri');
+
+  if (params.get('client_id') !== CLIENT_ID || !redirectUri) {
+    return sendJson(res, 400, { error: 'invalid_request', error_description: 'Unknown client or missing redirect_uri' });
+  }
+
+  const target = new URL(redirectUri);
+  target.searchParams.set('state', params.get('state') || '');
+
+  if (params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge')) {
+    target.searchParams.set('error', 'invalid_request');
+    target.searchParams.set('error_description', 'PKCE with S256 is required');
+  } else {
+    const email = params.get('login_hint') || USER.email;
+    const code = crypto.randomBytes(24).toString('base64url');
+    codes.set(code, {
+      redirectUri,
+      nonce: params.get('nonce'),
+      codeChallenge: params.get('code_challenge'),
+      user: { ...USER, email },
+      expiresAt: Date.now() + 60000,
+    });
+    target.searchParams.set('code', code);
+    console.log(`Signed in ${email}`);
+  }
+
+  res.writeHead(302, { Location: target.toString() });
+  res.end();
+}
+
+async function token(req, res) {
+  const body = await readBody(req);
+  const client = clientCredentials(req, body);
+  if (client.id !== CLIENT_ID || client.secret !== CLIENT_SECRET) {
+    return sendJson(res, 401, { error: 'invalid_client' });
+  }
+
+  const grant = codes.get(body.get('code'));
+  codes.delete(body.get('code'));
+  if (!grant || grant.expiresAt < Date.now() || grant.redirectUri !== body.get('redirect_uri')) {
+    return sendJson(res, 400, { error: 'invalid_grant' });
+  }
+
+  const challenge = crypto.createHash('sha256').update(body.get('code_verifier') || '').digest('base64url');
+  if (challenge !== grant.codeChallenge) {
+    return sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const { user } = grant;
+  const idToken = signIdToken({
+    iss: ISSUER,
+    aud: CLIENT_ID,
+    sub: crypto.createHash('sha256').update(user.email).digest('hex').slice(0, 24),
+    iat: now,
+    exp: now + 300,
+    nonce: grant.nonce,
+    email: user.email,
+    email_verified: true,
+    given_name: user.given_name,
+    family_name: user.family_name,
+    name: `${user.given_name} ${user.family_name}`,
+    groups: user.groups,
+    department: user.department,
+  });
+
+  sendJson(res, 200, {
+    access_token: crypto.randomBytes(24).toString('base64url'),
+    token_type: 'Bearer',
+    expires_in: 300,
+    id_token: idToken,
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, ISSUER);
+
+  try {
+    if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      return sendJson(res, 200, {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+        code_challenge_methods_supported: ['S256'],
+      });
+    }
+    if (req.method === 'GET' && url.pathname === '/jwks') {
+      return sendJson(res, 200, { keys: [jwk] });
+    }
+    if (req.method === 'GET' && url.pathname === '/authorize') {
+      return authorize(url, res);
+    }
+    if (req.method === 'POST' && url.pathname === '/token') {
+      return await token(req, res);
+    }
+    sendJson(res, 404, { error: 'not_found' });
+  } catch (error) {
+    console.error('❌ Request failed:', error);
+    sendJson(res, 500, { error: 'server_error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`🔐 Mock OIDC IdP listening on ${ISSUER} (client ${CLIENT_ID} / ${CLIENT_SECRET})`);
+});
@@ -19,6 +19,19 @@ import { EmailModule } from './modules/email/email.module';
 import { WhatsAppModule } from './modules/whatsapp/whatsapp.module';
 import { DashboardModule } from './modules/dashboard/dashboard.module';
 import { StorageModule } from './modules/storage/storage.module';
+import { CampaignsModule } from './modules/campaigns/campaigns.module';
+import { ComplianceModule } from './modules/compliance/compliance.module';
+import { AlertsModule } from './modules/alerts/alerts.module';
+import { WebhooksModule } from './modules/webhooks/webhooks.module';
+import { RealtimeModule } from './modules/realtime/realtime.module';
+import { RetentionModule } from './modules/retention/retention.module';
+import { EdiscoveryModule } from './modules/ediscovery/ediscovery.module';
+import { SsoModule } from './modules/sso/sso.module';
+import { RolesModule } from './modules/roles/roles.module';
+import { ApiKeysModule } from './modules/api-keys/api-keys.module';
+import { QuotasModule } from './modules/quotas/quotas.module';
+import { TenantsModule } from './modules/tenants/tenants.module';
+import { MediaProcessingModule } from './modules/media-processing/media-processing.module';
 
 // Common
 import { DatabaseModule } from './common/database/database.module';
@@ -96,6 +109,19 @@ import { MetricsModule } from './common/modules/metrics.module';
     WhatsAppModule,
     DashboardModule,
     StorageModule,
+    CampaignsModule,
+    ComplianceModule,
+    AlertsModule,
+    WebhooksModule,
+    RealtimeModule,
+    RetentionModule,
+    EdiscoveryModule,
+    SsoModule,
+    RolesModule,
+    ApiKeysModule,
+    QuotasModule,
+    TenantsModule,
+    MediaProcessingModule,
   ],
 })
 export class AppModule {}
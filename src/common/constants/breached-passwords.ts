@@ -0,0 +1,48 @@
+/**
+ * Breached Passwords - Bundled list of the most common passwords found in
+ * public breach corpora, lower-cased.
+ *
+ * Matching is case-insensitive, so "Password123!" is rejected along with
+ * "password123!". Short entries are kept so the check still means something
+ * when the configured minimum length is lowered.
+ *
+ * Usage:
+ *   import { isBreachedPassword } from '../common/constants/breached-passwords';
+ */
+export const BREACHED_PASSWORDS: ReadonlySet<string> = new Set([
+  '123456', '123456789', '12345678', '1234567890', '12345', '1234567', '123123', '111111', '000000',
+  '666666', '121212', '112233', '123321', '654321', '555555', '7777777', '888888', '987654321',
+  '1q2w3e4r', '1q2w3e4r5t', '1q2w3e', '1qaz2wsx', '1qaz2wsx3edc', 'zaq12wsx', 'zaq1zaq1', 'qazwsx',
+  'qwerty', 'qwerty123', 'qwerty1', 'qwertyuiop', 'qwerty12345', 'qwerty123456', 'qwerty123!', 'qwe123',
+  'asdfgh', 'asdfghjkl', 'asdf1234', 'zxcvbnm', 'zxcvbn', '1234qwer', 'abc123', 'abcd1234', 'abc12345',
+  'password', 'password1', 'password12', 'password123', 'password1234', 'password12345', 'password123!',
+  'password1!', 'password!', 'passw0rd', 'passw0rd!', 'p@ssword', 'p@ssw0rd', 'p@ssw0rd1', 'p@ssw0rd123',
+  'p@ssw0rd1234', 'p@$$w0rd', 'pa$$word', 'pass1234', 'pass@123', 'password@123', 'password#123',
+  'mypassword', 'newpassword', 'changeme', 'changeme123', 'changeme123!', 'letmein', 'letmein1',
+  'letmein123', 'welcome', 'welcome1', 'welcome123', 'welcome123!', 'welcome@123', 'welcome2024',
+  'welcome2025', 'welcome2026', 'admin', 'admin1', 'admin123', 'admin1234', 'admin12345', 'admin@123',
+  'administrator', 'root', 'toor', 'test', 'test123', 'test1234', 'testing', 'testing123', 'guest',
+  'default', 'secret', 'secret123', 'master', 'master123', 'login', 'access', 'access14', 'trustno1',
+  'iloveyou', 'iloveyou1', 'iloveyou123', 'princess', 'sunshine', 'sunshine1', 'football', 'football1',
+  'baseball', 'basketball', 'soccer', 'hockey', 'dragon', 'monkey', 'shadow', 'superman', 'batman',
+  'michael', 'jennifer', 'jessica', 'charlie', 'daniel', 'ashley', 'thomas', 'jordan', 'hunter', 'killer',
+  'starwars', 'pokemon', 'whatever', 'freedom', 'flower', 'hello', 'hello123', 'hello1234', 'hellohello',
+  'computer', 'internet', 'samsung', 'google', 'apple', 'azerty', 'azerty123', 'aaaaaa', 'abcdef',
+  'abcdefg', 'abcdefgh', 'abcdefghij', 'summer', 'summer2024', 'summer2025', 'summer2026', 'winter',
+  'winter2024', 'winter2025', 'winter2026', 'spring2025', 'autumn2025', 'spring2026', 'autumn2026',
+  'company123', 'company123!', 'whatsapp', 'whatsapp123', 'unicx', 'unicx123', 'tenant123', 'tenant123!',
+  'user1234', 'user12345', 'useruser', 'passpass', 'qwertyqwerty', 'asdfasdf', 'zxczxc', 'q1w2e3r4',
+  'q1w2e3r4t5', 'q1w2e3r4t5y6', '1a2b3c4d', 'a1b2c3d4', 'a1b2c3d4e5', 'aa123456', 'abc123456',
+  'abcd12345', 'abcd@1234', 'abcd!1234', 'qwer1234', 'qwer1234!', 'asdf1234!', 'asdfgh123', 'zxcvbnm123',
+  'password2024', 'password2025', 'password2026', 'password2024!', 'password2025!', 'password2026!',
+  'passwordpassword', 'iloveyouiloveyou', 'administrator1', 'administrator123', 'administrator123!',
+  'welcomewelcome', 'letmeinletmein', 'superadmin', 'superadmin123', 'sysadmin', 'sysadmin123',
+  'helpdesk', 'helpdesk123', 'support123', 'support123!', 'monday123', 'football123', 'baseball123',
+  'princess123', 'sunshine123', 'dragon123', 'monkey123', 'shadow123', 'superman123', 'batman123',
+  '12345678910', '123456789a', '123456789q', '1234567890a', '0987654321', '11111111', '00000000',
+  '12341234', '11223344', '123123123', '159753', '147258369', '789456123', '987654321a',
+]);
+
+export function isBreachedPassword(password: string): boolean {
+  return BREACHED_PASSWORDS.has((password || '').toLowerCase());
+}
@@ -0,0 +1,96 @@
+import { UserRole } from '../schemas/user.schema';
+
+/**
+ * Named permissions checked by PermissionsGuard (see @RequirePermissions).
+ * Built-in roles map to a fixed set below; tenants add custom roles on top.
+ */
+export enum Permission {
+  USERS_READ = 'users:read',
+  USERS_INVITE = 'users:invite',
+  USERS_MANAGE = 'users:manage',
+  ENTITIES_READ = 'entities:read',
+  ENTITIES_MANAGE = 'entities:manage',
+  MESSAGES_READ = 'messages:read',
+  MESSAGES_SEND = 'messages:send',
+  SESSIONS_READ = 'sessions:read',
+  SESSIONS_MANAGE = 'sessions:manage',
+  MEDIA_READ = 'media:read',
+  MEDIA_UPLOAD = 'media:upload',
+  MEDIA_DELETE = 'media:delete',
+  CAMPAIGNS_READ = 'campaigns:read',
+  CAMPAIGNS_MANAGE = 'campaigns:manage',
+  ALERTS_READ = 'alerts:read',
+  ALERTS_MANAGE = 'alerts:manage',
+  COMPLIANCE_READ = 'compliance:read',
+  COMPLIANCE_MANAGE = 'compliance:manage',
+  AUDIT_READ = 'audit:read',
+  DASHBOARD_READ = 'dashboard:read',
+  METRICS_READ = 'metrics:read',
+  MONITORING_READ = 'monitoring:read',
+  WEBHOOKS_MANAGE = 'webhooks:manage',
+  RETENTION_MANAGE = 'retention:manage',
+  EDISCOVERY_EXPORT = 'ediscovery:export',
+  SETTINGS_MANAGE = 'settings:manage',
+  ROLES_MANAGE = 'roles:manage',
+  API_KEYS_MANAGE = 'api-keys:manage',
+  SYSTEM_MANAGE = 'system:manage',
+}
+
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  [Permission.USERS_READ]: 'View users and their WhatsApp health',
+  [Permission.USERS_INVITE]: 'Create and invite users',
+  [Permission.USERS_MANAGE]: 'Edit, deactivate and sign out users',
+  [Permission.ENTITIES_READ]: 'View the entity hierarchy',
+  [Permission.ENTITIES_MANAGE]: 'Create, edit, move and delete entities',
+  [Permission.MESSAGES_READ]: 'Read messages and conversations',
+  [Permission.MESSAGES_SEND]: 'Send messages and retry failed ones',
+  [Permission.SESSIONS_READ]: 'View WhatsApp session status and live events',
+  [Permission.SESSIONS_MANAGE]: 'Connect and disconnect WhatsApp sessions',
+  [Permission.MEDIA_READ]: 'Download media',
+  [Permission.MEDIA_UPLOAD]: 'Upload media',
+  [Permission.MEDIA_DELETE]: 'Delete stored files',
+  [Permission.CAMPAIGNS_READ]: 'View campaigns',
+  [Permission.CAMPAIGNS_MANAGE]: 'Create and run campaigns',
+  [Permission.ALERTS_READ]: 'View alerts',
+  [Permission.ALERTS_MANAGE]: 'Acknowledge, resolve and dismiss alerts',
+  [Permission.COMPLIANCE_READ]: 'View compliance rules and flagged messages',
+  [Permission.COMPLIANCE_MANAGE]: 'Edit compliance rules and review flagged messages',
+  [Permission.AUDIT_READ]: 'Read the audit log',
+  [Permission.DASHBOARD_READ]: 'View dashboards',
+  [Permission.METRICS_READ]: 'View metrics',
+  [Permission.MONITORING_READ]: 'View system health',
+  [Permission.WEBHOOKS_MANAGE]: 'Manage webhook subscriptions',
+  [Permission.RETENTION_MANAGE]: 'Manage retention policies and legal holds',
+  [Permission.EDISCOVERY_EXPORT]: 'Create and download eDiscovery exports',
+  [Permission.SETTINGS_MANAGE]: 'Manage tenant settings (SSO, two-factor policy, email, storage)',
+  [Permission.ROLES_MANAGE]: 'Manage custom roles and role assignments',
+  [Permission.API_KEYS_MANAGE]: 'Create, revoke and monitor tenant API keys',
+  [Permission.SYSTEM_MANAGE]: 'Platform operations (SystemAdmin only)',
+};
+
+// Permissions custom roles may contain
+export const ASSIGNABLE_PERMISSIONS: Permission[] = Object.values(Permission).filter(
+  (permission) => permission !== Permission.SYSTEM_MANAGE,
+);
+
+const USER_PERMISSIONS: Permission[] = [
+  Permission.USERS_READ,
+  Permission.ENTITIES_READ,
+  Permission.MESSAGES_READ,
+  Permission.MEDIA_READ,
+  Permission.MEDIA_UPLOAD,
+  Permission.DASHBOARD_READ,
+  Permission.METRICS_READ,
+];
+
+export const BUILT_IN_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.SYSTEM_ADMIN]: Object.values(Permission),
+  [UserRole.TENANT_ADMIN]: ASSIGNABLE_PERMISSIONS,
+  [UserRole.USER]: USER_PERMISSIONS,
+};
+
+/**
+ * Effective permissions of a request's user: each permission maps to the
+ * entities whose subtrees it applies to (SYSTEM_ENTITY_ID = everywhere)
+ */
+export type PermissionScopes = Partial<Record<Permission, string[]>>;
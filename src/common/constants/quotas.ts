@@ -0,0 +1,8 @@
+/**
+ * Operations metered per tenant and per API key. Values are the keys of the
+ * `quotas` config section and of QuotaLimits overrides.
+ */
+export enum QuotaName {
+  MESSAGES_SEND = 'messagesSend',
+  EXPORTS = 'exports',
+}
@@ -3,14 +3,14 @@ import { Request } from 'express';
 import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiBearerAuth } from '@nestjs/swagger';
 import { AuditService } from '../services/audit.service';
 import { JwtAuthGuard } from '../../modules/auth/jwt-auth.guard';
-import { RolesGuard } from '../../modules/auth/roles.guard';
-import { Roles } from '../../modules/auth/decorators';
-import { UserRole } from '../schemas/user.schema';
+import { PermissionsGuard } from '../../modules/auth/permissions.guard';
+import { RequirePermissions } from '../../modules/auth/decorators';
+import { Permission } from '../constants/permissions';
 import { AuditAction, AuditResource, AuditResult } from '../schemas/audit-log.schema';
 
 @ApiTags('Audit')
 @Controller('audit')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @ApiBearerAuth()
 export class AuditController {
   private readonly logger = new Logger(AuditController.name);
@@ -18,7 +18,7 @@ export class AuditController {
   constructor(private readonly auditService: AuditService) {}
 
   @Get('logs')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @RequirePermissions(Permission.AUDIT_READ)
   @ApiOperation({ summary: 'Get audit logs with filters' })
   @ApiQuery({ name: 'tenantId', required: false, description: 'Filter by tenant ID' })
   @ApiQuery({ name: 'userId', required: false, description: 'Filter by user ID' })
@@ -60,7 +60,7 @@ export class AuditController {
   }
 
   @Get('stats')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @RequirePermissions(Permission.AUDIT_READ)
   @ApiOperation({ summary: 'Get audit statistics' })
   @ApiQuery({ name: 'tenantId', required: false, description: 'Filter by tenant ID' })
   @ApiQuery({ name: 'days', required: false, description: 'Number of days to include in stats' })
@@ -3,13 +3,13 @@ import { Request } from 'express';
 import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiBearerAuth } from '@nestjs/swagger';
 import { MetricsService } from '../services/metrics.service';
 import { JwtAuthGuard } from '../../modules/auth/jwt-auth.guard';
-import { RolesGuard } from '../../modules/auth/roles.guard';
-import { Roles } from '../../modules/auth/decorators';
-import { UserRole } from '../schemas/user.schema';
+import { PermissionsGuard } from '../../modules/auth/permissions.guard';
+import { RequirePermissions } from '../../modules/auth/decorators';
+import { Permission } from '../constants/permissions';
 
 @ApiTags('Metrics')
 @Controller('metrics')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @ApiBearerAuth()
 export class MetricsController {
   private readonly logger = new Logger(MetricsController.name);
@@ -17,7 +17,7 @@ export class MetricsController {
   constructor(private readonly metricsService: MetricsService) {}
 
   @Get('dashboard')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN, UserRole.USER)
+  @RequirePermissions(Permission.METRICS_READ)
   @ApiOperation({ summary: 'Get metrics dashboard data' })
   @ApiQuery({ name: 'hours', required: false, description: 'Number of hours to include in metrics (default: 24)' })
   @ApiResponse({ status: 200, description: 'Dashboard metrics retrieved successfully' })
@@ -57,7 +57,7 @@ export class MetricsController {
   }
 
   @Get('throughput')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN, UserRole.USER)
+  @RequirePermissions(Permission.METRICS_READ)
   @ApiOperation({ summary: 'Get message throughput metrics' })
   @ApiQuery({ name: 'hours', required: false, description: 'Number of hours to include' })
   @ApiResponse({ status: 200, description: 'Throughput metrics retrieved successfully' })
@@ -87,7 +87,7 @@ export class MetricsController {
   }
 
   @Get('error-rate')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN, UserRole.USER)
+  @RequirePermissions(Permission.METRICS_READ)
   @ApiOperation({ summary: 'Get error rate metrics' })
   @ApiQuery({ name: 'hours', required: false, description: 'Number of hours to include' })
   @ApiResponse({ status: 200, description: 'Error rate metrics retrieved successfully' })
@@ -117,7 +117,7 @@ export class MetricsController {
   }
 
   @Get('latency')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN, UserRole.USER)
+  @RequirePermissions(Permission.METRICS_READ)
   @ApiOperation({ summary: 'Get latency metrics (P95)' })
   @ApiQuery({ name: 'hours', required: false, description: 'Number of hours to include' })
   @ApiResponse({ status: 200, description: 'Latency metrics retrieved successfully' })
@@ -147,7 +147,7 @@ export class MetricsController {
   }
 
   @Get('queue-backlog')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN, UserRole.USER)
+  @RequirePermissions(Permission.METRICS_READ)
   @ApiOperation({ summary: 'Get queue backlog metrics' })
   @ApiResponse({ status: 200, description: 'Queue backlog metrics retrieved successfully' })
   async getQueueBacklogMetrics(@Req() req: Request) {
@@ -173,7 +173,7 @@ export class MetricsController {
   }
 
   @Get('session-health')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN, UserRole.USER)
+  @RequirePermissions(Permission.METRICS_READ)
   @ApiOperation({ summary: 'Get session health metrics' })
   @ApiResponse({ status: 200, description: 'Session health metrics retrieved successfully' })
   async getSessionHealthMetrics(@Req() req: Request) {
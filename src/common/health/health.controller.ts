@@ -2,9 +2,9 @@ import { Controller, Get, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { HealthService } from './health.service';
 import { JwtAuthGuard } from '../../modules/auth/jwt-auth.guard';
-import { RolesGuard } from '../../modules/auth/roles.guard';
-import { Roles } from '../../modules/auth/decorators';
-import { UserRole } from '../schemas/user.schema';
+import { PermissionsGuard } from '../../modules/auth/permissions.guard';
+import { RequirePermissions } from '../../modules/auth/decorators';
+import { Permission } from '../constants/permissions';
 
 @ApiTags('Health')
 @Controller('health')
@@ -20,8 +20,8 @@ export class HealthController {
   }
 
   @Get('metrics')
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.SYSTEM_ADMIN)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.SYSTEM_MANAGE)
   @ApiOperation({ summary: 'Get system metrics' })
   @ApiResponse({ status: 200, description: 'Metrics retrieved successfully' })
   @ApiResponse({ status: 403, description: 'Forbidden' })
@@ -13,6 +13,9 @@ import { AuditService } from '../services/audit.service';
 import { AUDIT_KEY, AuditOptions } from '../decorators/audit.decorator';
 import { AuditAction, AuditResource, AuditResult } from '../schemas/audit-log.schema';
 
+// Request body fields that must never end up in the audit log
+const REDACTED_FIELDS = ['password', 'newPassword', 'currentPassword', 'code', 'recoveryCode', 'challenge_token', 'refresh_token'];
+
 @Injectable()
 export class AuditInterceptor implements NestInterceptor {
   private readonly logger = new Logger(AuditInterceptor.name);
@@ -23,18 +26,17 @@ export class AuditInterceptor implements NestInterceptor {
   ) {}
 
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const request = context.switchToHttp().getRequest<Request>();
+    const user = (request as any).user;
     const auditOptions = this.reflector.getAllAndOverride<AuditOptions>(
       AUDIT_KEY,
       [context.getHandler(), context.getClass()],
-    );
+    ) || (user?.impersonator ? this.impersonatedRequestOptions(request, user) : undefined);
 
     if (!auditOptions) {
       return next.handle();
     }
 
-    const request = context.switchToHttp().getRequest<Request>();
-    const user = (request as any).user;
-
     if (!user) {
       this.logger.warn('No user found in request for audit logging');
       return next.handle();
@@ -57,7 +59,7 @@ export class AuditInterceptor implements NestInterceptor {
             resourceName,
             user.sub,
             user.email,
-            `${user.firstName} ${user.lastName}`,
+            this.actorName(user),
             user.tenantId,
             user.tenantName || 'Unknown Tenant',
             request.ip || request.connection.remoteAddress || 'unknown',
@@ -68,6 +70,8 @@ export class AuditInterceptor implements NestInterceptor {
               executionTime: Date.now() - startTime,
               method: request.method,
               url: request.url,
+              ...this.apiKeyAttribution(user),
+              ...this.impersonationAttribution(user),
             },
           );
         } catch (error) {
@@ -88,7 +92,7 @@ export class AuditInterceptor implements NestInterceptor {
             resourceName,
             user.sub,
             user.email,
-            `${user.firstName} ${user.lastName}`,
+            this.actorName(user),
             user.tenantId,
             user.tenantName || 'Unknown Tenant',
             request.ip || request.connection.remoteAddress || 'unknown',
@@ -99,6 +103,8 @@ export class AuditInterceptor implements NestInterceptor {
               method: request.method,
               url: request.url,
               errorCode: error.status || error.code,
+              ...this.apiKeyAttribution(user),
+              ...this.impersonationAttribution(user),
             },
           );
         } catch (auditError) {
@@ -110,6 +116,33 @@ export class AuditInterceptor implements NestInterceptor {
     );
   }
 
+  // Requests made with an API key are recorded against the key, under its creator
+  private actorName(user: any): string {
+    if (user.apiKeyId) return `API key "${user.apiKeyName}"`;
+    if (user.impersonator) return `${user.impersonator.email} as ${user.email}`;
+    return `${user.firstName} ${user.lastName}`;
+  }
+
+  private apiKeyAttribution(user: any): Record<string, any> {
+    return user.apiKeyId ? { apiKeyId: user.apiKeyId, apiKeyName: user.apiKeyName } : {};
+  }
+
+  private impersonationAttribution(user: any): Record<string, any> {
+    return user.impersonator
+      ? { impersonatorId: user.impersonator.sub, impersonatorEmail: user.impersonator.email, sessionId: user.sid }
+      : {};
+  }
+
+  // Every request made while impersonating is recorded, not only the audited ones
+  private impersonatedRequestOptions(request: Request, user: any): AuditOptions {
+    return {
+      action: AuditAction.IMPERSONATE,
+      resource: AuditResource.USER,
+      resourceId: user.sub,
+      resourceName: `${request.method} ${request.route?.path || request.path}`,
+    };
+  }
+
   private extractResourceId(options: AuditOptions, request: Request, response: any): string {
     if (options.resourceId) {
       return options.resourceId;
@@ -156,7 +189,13 @@ export class AuditInterceptor implements NestInterceptor {
 
   private extractNewValues(request: Request, response: any): Record<string, any> | undefined {
     if (request.method === 'POST' || request.method === 'PUT' || request.method === 'PATCH') {
-      return request.body;
+      if (!request.body || typeof request.body !== 'object') return request.body;
+
+      const values = { ...request.body };
+      for (const field of REDACTED_FIELDS) {
+        if (field in values) values[field] = '[REDACTED]';
+      }
+      return values;
     }
     return undefined;
   }
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Tenant, TenantSchema } from '../schemas/tenant.schema';
+import { User, UserSchema } from '../schemas/user.schema';
+import { WhatsAppSession, WhatsAppSessionSchema } from '../schemas/whatsapp-session.schema';
+import { TenantLimitsService } from '../services/tenant-limits.service';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Tenant.name, schema: TenantSchema },
+      { name: User.name, schema: UserSchema },
+      { name: WhatsAppSession.name, schema: WhatsAppSessionSchema },
+    ]),
+  ],
+  providers: [TenantLimitsService],
+  exports: [TenantLimitsService],
+})
+export class TenantLimitsModule {}
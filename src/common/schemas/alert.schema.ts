@@ -8,8 +8,10 @@ export enum AlertType {
   ACCOUNT_SUSPENDED = 'account_suspended',
   CONNECTION_LOST = 'connection_lost',
   MESSAGE_FAILURE = 'message_failure',
+  COMPLIANCE_VIOLATION = 'compliance_violation',
   QUOTA_EXCEEDED = 'quota_exceeded',
   SYSTEM_ERROR = 'system_error',
+  SUSPICIOUS_LOGIN = 'suspicious_login',
 }
 
 export enum AlertSeverity {
@@ -92,6 +94,12 @@ export class Alert {
   @Prop({ type: String })
   resolutionNotes: string;
 
+  @Prop({ type: Date })
+  dismissedAt: Date;
+
+  @Prop({ type: String })
+  dismissedBy: string;
+
   // Additional Details
   @Prop({ type: Object })
   metadata: Record<string, any>;
@@ -133,4 +141,5 @@ AlertSchema.index({ userId: 1, status: 1 });
 AlertSchema.index({ sessionId: 1, status: 1 });
 AlertSchema.index({ createdAt: -1 });
 AlertSchema.index({ lastOccurredAt: -1 });
+AlertSchema.index({ notificationSent: 1, status: 1, createdAt: 1 });
 
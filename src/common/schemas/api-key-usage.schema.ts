@@ -0,0 +1,41 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type ApiKeyUsageDocument = ApiKeyUsage & Document;
+
+/**
+ * Requests authenticated with an API key, bucketed per UTC day
+ */
+@Schema({ timestamps: true })
+export class ApiKeyUsage {
+  @Prop({ type: Types.ObjectId, auto: true })
+  _id: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'ApiKey', required: true })
+  apiKeyId: Types.ObjectId;
+
+  @Prop({ required: true })
+  day: Date; // Midnight UTC
+
+  @Prop({ default: 0 })
+  requestCount: number;
+
+  @Prop({ type: Object, default: {} })
+  ipAddresses: Record<string, number>; // Requests per client address (dots replaced by "_")
+
+  // Entity & Tenant
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  tenantId: Types.ObjectId;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const ApiKeyUsageSchema = SchemaFactory.createForClass(ApiKeyUsage);
+
+// Indexes for performance
+ApiKeyUsageSchema.index({ apiKeyId: 1, day: 1 }, { unique: true });
+ApiKeyUsageSchema.index({ tenantId: 1, day: 1 });
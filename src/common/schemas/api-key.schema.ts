@@ -0,0 +1,90 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { Permission } from '../constants/permissions';
+import { QuotaLimits } from './entity.schema';
+
+export type ApiKeyDocument = ApiKey & Document;
+
+/**
+ * Credential for machine-to-machine access to a tenant. The key is shown
+ * once at creation; only its prefix (to find it) and a hash are stored.
+ * Its permissions apply to the subtree of scopeEntityId.
+ */
+@Schema({ timestamps: true })
+export class ApiKey {
+  @Prop({ type: Types.ObjectId, auto: true })
+  _id: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  description: string;
+
+  @Prop({ required: true, unique: true })
+  prefix: string; // Leading part of the key, e.g. "unicx_3f9a2c1b7d4e"
+
+  @Prop({ required: true, select: false })
+  keyHash: string; // EncryptionService.hash of the full key
+
+  @Prop({ type: [String], enum: Permission, default: [] })
+  permissions: Permission[];
+
+  @Prop({ type: [String], default: [] })
+  ipAllowlist: string[]; // Addresses or CIDR ranges; empty allows any
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop({ type: QuotaLimits })
+  quotas: QuotaLimits; // Per-key quota overrides
+
+  // Usage
+  @Prop()
+  lastUsedAt: Date;
+
+  @Prop()
+  lastUsedIp: string;
+
+  @Prop({ default: 0 })
+  usageCount: number;
+
+  @Prop()
+  revokedAt: Date;
+
+  @Prop()
+  revokedBy: string;
+
+  // Entity & Tenant
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  scopeEntityId: Types.ObjectId;
+
+  @Prop({ type: [Types.ObjectId], ref: 'Entity', default: [] })
+  entityIdPath: Types.ObjectId[]; // entityIdPath of scopeEntityId, for subtree queries
+
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  tenantId: Types.ObjectId;
+
+  // Audit
+  @Prop({ required: true, default: true })
+  isActive: boolean;
+
+  @Prop({ required: true })
+  createdBy: string;
+
+  @Prop()
+  updatedBy: string;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const ApiKeySchema = SchemaFactory.createForClass(ApiKey);
+
+// Indexes for performance
+ApiKeySchema.index({ tenantId: 1, isActive: 1 });
+ApiKeySchema.index({ tenantId: 1, entityIdPath: 1 });
+ApiKeySchema.index({ expiresAt: 1 });
@@ -15,6 +15,13 @@ export enum AuditAction {
   SESSION_DELETE = 'SESSION_DELETE',
   MESSAGE_SEND = 'MESSAGE_SEND',
   MESSAGE_RECEIVE = 'MESSAGE_RECEIVE',
+  PURGE = 'PURGE',
+  EXPORT = 'EXPORT',
+  DOWNLOAD = 'DOWNLOAD',
+  IMPERSONATE = 'IMPERSONATE',
+  SUSPEND = 'SUSPEND',
+  REACTIVATE = 'REACTIVATE',
+  OFFBOARD = 'OFFBOARD',
 }
 
 export enum AuditResource {
@@ -22,10 +29,17 @@ export enum AuditResource {
   ENTITY = 'ENTITY',
   WHATSAPP_SESSION = 'WHATSAPP_SESSION',
   MESSAGE = 'MESSAGE',
+  CAMPAIGN = 'CAMPAIGN',
+  ALERT = 'ALERT',
+  WEBHOOK = 'WEBHOOK',
+  RETENTION_POLICY = 'RETENTION_POLICY',
+  LEGAL_HOLD = 'LEGAL_HOLD',
+  EDISCOVERY_EXPORT = 'EDISCOVERY_EXPORT',
   SPY_CONFIG = 'SPY_CONFIG',
   TENANT = 'TENANT',
   SYSTEM_CONFIG = 'SYSTEM_CONFIG',
   AUDIT_LOG = 'AUDIT_LOG',
+  API_KEY = 'API_KEY',
 }
 
 export enum AuditResult {
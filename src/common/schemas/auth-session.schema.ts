@@ -0,0 +1,93 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type AuthSessionDocument = AuthSession & Document;
+
+export enum SessionRevokeReason {
+  LOGOUT = 'logout',
+  USER_REVOKED = 'user_revoked', // Signed out from the sessions list
+  ADMIN_REVOKED = 'admin_revoked',
+  TOKEN_REUSE = 'token_reuse', // A rotated refresh token was presented again
+  PASSWORD_CHANGED = 'password_changed',
+  USER_DEACTIVATED = 'user_deactivated',
+  IMPERSONATION_ENDED = 'impersonation_ended',
+  TENANT_SUSPENDED = 'tenant_suspended',
+}
+
+/**
+ * One login on one device. Each refresh rotates the refresh token; only the
+ * latest token (refreshTokenId) is accepted, so presenting an older one means
+ * the token family leaked and the whole session is revoked.
+ */
+@Schema({ timestamps: true })
+export class AuthSession {
+  @Prop({ type: Types.ObjectId, auto: true })
+  _id: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  // Refresh token rotation
+  @Prop({ required: true })
+  refreshTokenId: string; // jti of the only refresh token currently valid
+
+  @Prop({ default: 0 })
+  rotationCount: number;
+
+  @Prop({ required: true })
+  expiresAt: Date; // Expiry of the current refresh token
+
+  // Device
+  @Prop()
+  ipAddress: string;
+
+  @Prop()
+  userAgent: string;
+
+  @Prop()
+  lastUsedAt: Date;
+
+  @Prop()
+  lastIpAddress: string;
+
+  // Impersonation: a SystemAdmin acting as userId; such sessions have no refresh token
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  impersonatorId: Types.ObjectId;
+
+  @Prop()
+  impersonatorEmail: string;
+
+  @Prop()
+  impersonationReason: string;
+
+  // Revocation
+  @Prop()
+  revokedAt: Date;
+
+  @Prop({ enum: SessionRevokeReason })
+  revokedReason: SessionRevokeReason;
+
+  @Prop()
+  revokedBy: string;
+
+  // Entity & Tenant
+  @Prop({ type: Types.ObjectId, ref: 'Entity' })
+  entityId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Entity' })
+  tenantId: Types.ObjectId;
+
+  // Audit
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const AuthSessionSchema = SchemaFactory.createForClass(AuthSession);
+
+// Indexes for performance
+AuthSessionSchema.index({ userId: 1, revokedAt: 1, expiresAt: 1 });
+AuthSessionSchema.index({ impersonatorId: 1, createdAt: -1 }, { sparse: true });
+AuthSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 }); // Kept a month past expiry for the sessions history
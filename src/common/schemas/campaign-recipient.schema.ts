@@ -0,0 +1,81 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type CampaignRecipientDocument = CampaignRecipient & Document;
+
+export enum CampaignRecipientStatus {
+  PENDING = 'pending',
+  QUEUED = 'queued', // Handed to the outbound queue
+  SENT = 'sent',
+  DELIVERED = 'delivered',
+  READ = 'read',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+@Schema({ timestamps: true })
+export class CampaignRecipient {
+  @Prop({ type: Types.ObjectId, auto: true })
+  _id: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Campaign', required: true })
+  campaignId: Types.ObjectId;
+
+  @Prop({ required: true })
+  sessionId: string; // Denormalized for per-session throttling
+
+  @Prop({ required: true })
+  phoneNumber: string; // E.164 format
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  userId: Types.ObjectId; // Set for entity audiences
+
+  @Prop({ type: Object, default: {} })
+  variables: Record<string, any>; // Handlebars context for this recipient
+
+  @Prop({ required: true, enum: CampaignRecipientStatus, default: CampaignRecipientStatus.PENDING })
+  status: CampaignRecipientStatus;
+
+  // Delivery
+  @Prop({ type: Types.ObjectId, ref: 'Message' })
+  messageId: Types.ObjectId;
+
+  @Prop()
+  whatsappMessageId: string;
+
+  @Prop()
+  queuedAt: Date;
+
+  @Prop()
+  sentAt: Date;
+
+  @Prop()
+  deliveredAt: Date;
+
+  @Prop()
+  readAt: Date;
+
+  @Prop()
+  failedAt: Date;
+
+  @Prop()
+  failureReason: string;
+
+  // Tenant
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  tenantId: Types.ObjectId;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const CampaignRecipientSchema = SchemaFactory.createForClass(CampaignRecipient);
+
+// Indexes for performance
+CampaignRecipientSchema.index({ campaignId: 1, phoneNumber: 1 }, { unique: true });
+CampaignRecipientSchema.index({ campaignId: 1, status: 1 });
+CampaignRecipientSchema.index({ sessionId: 1, queuedAt: -1 });
+CampaignRecipientSchema.index({ messageId: 1 });
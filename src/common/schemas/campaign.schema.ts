@@ -0,0 +1,158 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type CampaignDocument = Campaign & Document;
+
+export enum CampaignStatus {
+  DRAFT = 'draft',
+  SCHEDULED = 'scheduled',
+  RUNNING = 'running',
+  PAUSED = 'paused',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+}
+
+export enum CampaignAudienceType {
+  ENTITY = 'entity', // Registered users in an entity subtree
+  CSV = 'csv', // Uploaded list of E.164 numbers
+}
+
+@Schema({ _id: false })
+export class CampaignAudience {
+  @Prop({ required: true, enum: CampaignAudienceType })
+  type: CampaignAudienceType;
+
+  @Prop({ type: Types.ObjectId, ref: 'Entity' })
+  entityId: Types.ObjectId; // Root of the subtree for ENTITY audiences
+
+  @Prop({ type: String })
+  csv: string; // Raw CSV for CSV audiences; first column is the phone number
+}
+
+@Schema({ _id: false })
+export class CampaignContent {
+  @Prop({ type: String })
+  body: string; // Handlebars template rendered per recipient
+
+  @Prop({ type: String })
+  templateName: string; // Cloud API template, used instead of body when set
+
+  @Prop({ type: String, default: 'en_US' })
+  languageCode: string;
+
+  @Prop({ type: [String], default: [] })
+  templateParameters: string[]; // Handlebars templates for the template body parameters
+}
+
+@Schema({ _id: false })
+export class CampaignStats {
+  @Prop({ default: 0 })
+  total: number;
+
+  @Prop({ default: 0 })
+  pending: number;
+
+  @Prop({ default: 0 })
+  queued: number;
+
+  // Cumulative: a read message also counts as sent and delivered
+  @Prop({ default: 0 })
+  sent: number;
+
+  @Prop({ default: 0 })
+  delivered: number;
+
+  @Prop({ default: 0 })
+  read: number;
+
+  @Prop({ default: 0 })
+  failed: number;
+
+  @Prop({ default: 0 })
+  cancelled: number;
+}
+
+@Schema({ timestamps: true })
+export class Campaign {
+  @Prop({ type: Types.ObjectId, auto: true })
+  _id: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  description: string;
+
+  @Prop({ required: true, enum: CampaignStatus, default: CampaignStatus.DRAFT })
+  status: CampaignStatus;
+
+  // Audience & Content
+  @Prop({ type: CampaignAudience, required: true })
+  audience: CampaignAudience;
+
+  @Prop({ type: CampaignContent, required: true })
+  content: CampaignContent;
+
+  // Delivery
+  @Prop({ required: true })
+  sessionId: string; // WhatsApp session used to send
+
+  @Prop({ type: Object })
+  sendScope: { tenantId?: string; entityIds?: string[] }; // messages:send scope of whoever chose the session
+
+  @Prop({ default: 20 })
+  throttlePerMinute: number;
+
+  @Prop()
+  scheduledAt: Date;
+
+  @Prop()
+  startedAt: Date;
+
+  @Prop()
+  pausedAt: Date;
+
+  @Prop()
+  completedAt: Date;
+
+  @Prop()
+  cancelledAt: Date;
+
+  @Prop({ type: CampaignStats, default: () => new CampaignStats() })
+  stats: CampaignStats;
+
+  // Entity & Tenant
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  entityId: Types.ObjectId;
+
+  @Prop({ type: [Types.ObjectId], default: [] })
+  entityIdPath: Types.ObjectId[];
+
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  tenantId: Types.ObjectId;
+
+  // Audit
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @Prop()
+  createdBy: string;
+
+  @Prop()
+  updatedBy: string;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const CampaignSchema = SchemaFactory.createForClass(Campaign);
+
+// Indexes for performance
+CampaignSchema.index({ tenantId: 1, status: 1 });
+CampaignSchema.index({ entityIdPath: 1, status: 1 });
+CampaignSchema.index({ status: 1, scheduledAt: 1 });
+CampaignSchema.index({ sessionId: 1, status: 1 });
+CampaignSchema.index({ createdAt: -1 });
@@ -0,0 +1,102 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { AlertSeverity } from './alert.schema';
+import { MessageDirection, MessageType } from './message.schema';
+
+export type ComplianceRuleDocument = ComplianceRule & Document;
+
+export enum ComplianceMatchType {
+  KEYWORD = 'keyword',
+  PATTERN = 'pattern',
+  PHONE_NUMBER = 'phone_number',
+  MEDIA_TYPE = 'media_type',
+  EXTERNAL_CONTACT = 'external_contact',
+}
+
+@Schema({ _id: false })
+export class ComplianceRuleConditions {
+  @Prop({ type: [String], default: [] })
+  keywords: string[]; // Whole-word matches against content and captions
+
+  @Prop({ type: [String], default: [] })
+  patterns: string[]; // Regular expressions against content and captions
+
+  @Prop({ type: [String], default: [] })
+  phoneNumbers: string[]; // Counterparty numbers (E.164)
+
+  @Prop({ type: [String], enum: MessageType, default: [] })
+  mediaTypes: MessageType[];
+
+  @Prop({ default: false })
+  externalContact: boolean; // Any conversation with an unregistered number
+}
+
+/**
+ * Tenant-scoped monitoring rule. A message is flagged when any configured
+ * condition matches.
+ */
+@Schema({ timestamps: true })
+export class ComplianceRule {
+  @Prop({ type: Types.ObjectId, auto: true })
+  _id: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  description: string;
+
+  @Prop({ type: ComplianceRuleConditions, default: () => new ComplianceRuleConditions() })
+  conditions: ComplianceRuleConditions;
+
+  @Prop({ default: false })
+  caseSensitive: boolean;
+
+  @Prop({ type: [String], enum: MessageDirection, default: [] })
+  directions: MessageDirection[]; // Empty means both directions
+
+  @Prop({ required: true, enum: AlertSeverity, default: AlertSeverity.MEDIUM })
+  severity: AlertSeverity;
+
+  @Prop({ default: true })
+  isEnabled: boolean;
+
+  // Entity & Tenant - the rule applies to messages within the entity subtree
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  entityId: Types.ObjectId;
+
+  @Prop({ type: [Types.ObjectId], default: [] })
+  entityIdPath: Types.ObjectId[];
+
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  tenantId: Types.ObjectId;
+
+  // Statistics
+  @Prop({ default: 0 })
+  matchCount: number;
+
+  @Prop()
+  lastMatchedAt: Date;
+
+  // Audit
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @Prop()
+  createdBy: string;
+
+  @Prop()
+  updatedBy: string;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const ComplianceRuleSchema = SchemaFactory.createForClass(ComplianceRule);
+
+// Indexes for performance
+ComplianceRuleSchema.index({ tenantId: 1, isActive: 1, isEnabled: 1 });
+ComplianceRuleSchema.index({ entityIdPath: 1 });
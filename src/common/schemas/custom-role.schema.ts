@@ -0,0 +1,50 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { Permission } from '../constants/permissions';
+
+export type CustomRoleDocument = CustomRole & Document;
+
+/**
+ * A tenant-defined set of permissions, granted to users through
+ * RoleAssignments on top of their built-in role
+ */
+@Schema({ timestamps: true })
+export class CustomRole {
+  @Prop({ type: Types.ObjectId, auto: true })
+  _id: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  description: string;
+
+  @Prop({ type: [String], enum: Permission, default: [] })
+  permissions: Permission[];
+
+  // Entity & Tenant
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  tenantId: Types.ObjectId;
+
+  // Audit
+  @Prop({ required: true, default: true })
+  isActive: boolean;
+
+  @Prop({ required: true })
+  createdBy: string;
+
+  @Prop()
+  updatedBy: string;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const CustomRoleSchema = SchemaFactory.createForClass(CustomRole);
+
+// Indexes for performance
+CustomRoleSchema.index({ tenantId: 1, name: 1 }, { unique: true, partialFilterExpression: { isActive: true } });
+CustomRoleSchema.index({ tenantId: 1, isActive: 1 });
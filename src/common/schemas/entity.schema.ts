@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { UserRole } from './user.schema';
 
 export type EntityDocument = Entity & Document;
 
@@ -10,6 +11,114 @@ export enum EntityType {
   DEPARTMENT = 'department',
 }
 
+export enum SsoProtocol {
+  OIDC = 'oidc',
+}
+
+// Which ID token claims hold the user's details
+@Schema({ _id: false })
+export class SsoClaimMapping {
+  @Prop({ default: 'email' })
+  email: string;
+
+  @Prop({ default: 'given_name' })
+  firstName: string;
+
+  @Prop({ default: 'family_name' })
+  lastName: string;
+
+  @Prop()
+  entity: string; // Claim matched against entityMappings, e.g. "department"
+
+  @Prop({ default: 'groups' })
+  roles: string; // Claim matched against roleMappings
+}
+
+@Schema({ _id: false })
+export class SsoEntityMapping {
+  @Prop({ required: true })
+  value: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  entityId: Types.ObjectId;
+}
+
+@Schema({ _id: false })
+export class SsoRoleMapping {
+  @Prop({ required: true })
+  value: string;
+
+  @Prop({ required: true, enum: [UserRole.TENANT_ADMIN, UserRole.USER] })
+  role: UserRole;
+}
+
+/**
+ * Single sign-on settings, kept on the tenant root entity
+ */
+@Schema({ _id: false })
+export class SsoConfig {
+  @Prop({ default: false })
+  enabled: boolean;
+
+  @Prop({ enum: SsoProtocol, default: SsoProtocol.OIDC })
+  protocol: SsoProtocol;
+
+  @Prop({ required: true })
+  issuer: string; // OIDC issuer; discovery is read from <issuer>/.well-known/openid-configuration
+
+  @Prop({ required: true })
+  clientId: string;
+
+  @Prop({ select: false })
+  clientSecret: string; // Encrypted with EncryptionService
+
+  @Prop({ type: [String], default: ['openid', 'email', 'profile'] })
+  scopes: string[];
+
+  @Prop({ type: [String], default: [] })
+  allowedDomains: string[]; // Email domains routed to this tenant's IdP
+
+  @Prop({ default: true })
+  jitProvisioning: boolean; // Create unknown users on first login
+
+  @Prop({ default: false })
+  syncRoles: boolean; // Re-apply role mappings on every login, not only on creation
+
+  @Prop({ type: Types.ObjectId, ref: 'Entity' })
+  defaultEntityId: Types.ObjectId; // Where users land when no entity mapping matches; the tenant root if unset
+
+  @Prop({ enum: [UserRole.TENANT_ADMIN, UserRole.USER], default: UserRole.USER })
+  defaultRole: UserRole;
+
+  @Prop({ type: SsoClaimMapping, default: () => ({}) })
+  claimMapping: SsoClaimMapping;
+
+  @Prop({ type: [SsoEntityMapping], default: [] })
+  entityMappings: SsoEntityMapping[];
+
+  @Prop({ type: [SsoRoleMapping], default: [] })
+  roleMappings: SsoRoleMapping[]; // First match wins
+
+  @Prop()
+  updatedBy: string;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+/**
+ * Quota limits overriding the configured defaults. Each value is the number
+ * of operations allowed per the quota's configured window; 0 means unlimited.
+ */
+@Schema({ _id: false })
+export class QuotaLimits {
+  @Prop({ min: 0 })
+  messagesSend: number;
+
+  @Prop({ min: 0 })
+  exports: number;
+}
+
 @Schema({ timestamps: true })
 export class Entity {
   @Prop({ type: Types.ObjectId, auto: true })
@@ -39,6 +148,15 @@ export class Entity {
   @Prop({ type: Object, default: {} })
   metadata: Record<string, any>;
 
+  @Prop({ type: [String], default: undefined })
+  twoFactorRequiredRoles: string[]; // Tenant root only: roles that must sign in with 2FA
+
+  @Prop({ type: SsoConfig })
+  sso: SsoConfig; // Tenant root only
+
+  @Prop({ type: QuotaLimits })
+  quotas: QuotaLimits; // Tenant root only: per-tenant quota overrides
+
   @Prop({ required: true, default: true })
   isActive: boolean;
 
@@ -64,6 +182,7 @@ EntitySchema.index({ path: 1 });
 EntitySchema.index({ entityIdPath: 1 });
 EntitySchema.index({ type: 1, tenantId: 1 });
 EntitySchema.index({ level: 1, tenantId: 1 });
+EntitySchema.index({ 'sso.allowedDomains': 1 }, { sparse: true });
 
 // Virtual for children
 EntitySchema.virtual('children', {
@@ -0,0 +1,153 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type ExportJobDocument = ExportJob & Document;
+
+export enum ExportJobStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  EXPIRED = 'expired', // Bundle removed from storage
+}
+
+export enum ExportFormat {
+  PDF = 'pdf',
+  HTML = 'html',
+  EML = 'eml',
+  JSON = 'json',
+}
+
+@Schema({ _id: false })
+export class ExportFilters {
+  // Same semantics as the GET /whatsapp/messages filters
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Entity' })
+  entityId: Types.ObjectId;
+
+  @Prop()
+  conversationId: string;
+
+  @Prop()
+  startDate: Date;
+
+  @Prop()
+  endDate: Date;
+
+  @Prop()
+  isExternal: boolean;
+}
+
+@Schema({ timestamps: true })
+export class ExportJob {
+  @Prop({ type: Types.ObjectId, auto: true })
+  _id: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  matter: string; // Case or investigation reference
+
+  @Prop({ type: ExportFilters, default: {} })
+  filters: ExportFilters;
+
+  @Prop({ type: [String], enum: ExportFormat, required: true })
+  formats: ExportFormat[];
+
+  @Prop({ default: true })
+  includeMedia: boolean;
+
+  @Prop({ required: true, enum: ExportJobStatus, default: ExportJobStatus.PENDING })
+  status: ExportJobStatus;
+
+  // Processing
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop({ type: String })
+  lockedBy: string; // Worker currently building the bundle
+
+  @Prop()
+  lockedAt: Date;
+
+  @Prop()
+  startedAt: Date;
+
+  @Prop()
+  completedAt: Date;
+
+  @Prop()
+  failedAt: Date;
+
+  @Prop({ type: String })
+  lastError: string;
+
+  // Result
+  @Prop({ type: String })
+  storageKey: string;
+
+  @Prop()
+  fileSize: number;
+
+  @Prop({ type: String })
+  sha256: string; // Checksum of the zip itself
+
+  @Prop({ default: 0 })
+  messageCount: number;
+
+  @Prop({ default: 0 })
+  conversationCount: number;
+
+  @Prop({ default: 0 })
+  mediaCount: number;
+
+  @Prop({ default: 0 })
+  mediaErrorCount: number;
+
+  @Prop()
+  expiresAt: Date;
+
+  // Requester
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  requestedBy: Types.ObjectId;
+
+  @Prop()
+  requestedByEmail: string;
+
+  // Entity & Tenant - the subtree inside the requester's scope the export is confined to
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  entityId: Types.ObjectId;
+
+  @Prop({ type: [Types.ObjectId], default: [] })
+  entityIdPath: Types.ObjectId[];
+
+  @Prop({ type: Types.ObjectId, ref: 'Entity' })
+  tenantId: Types.ObjectId;
+
+  // Audit
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @Prop()
+  createdBy: string;
+
+  @Prop()
+  updatedBy: string;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const ExportJobSchema = SchemaFactory.createForClass(ExportJob);
+
+// Indexes for performance
+ExportJobSchema.index({ status: 1, createdAt: 1 });
+ExportJobSchema.index({ tenantId: 1, createdAt: -1 });
+ExportJobSchema.index({ entityIdPath: 1 });
+ExportJobSchema.index({ status: 1, expiresAt: 1 });
@@ -0,0 +1,104 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { AlertSeverity } from './alert.schema';
+import { ComplianceMatchType } from './compliance-rule.schema';
+import { MessageDirection } from './message.schema';
+
+export type FlaggedMessageDocument = FlaggedMessage & Document;
+
+export enum FlaggedMessageStatus {
+  PENDING_REVIEW = 'pending_review',
+  CONFIRMED = 'confirmed',
+  DISMISSED = 'dismissed',
+}
+
+@Schema({ _id: false })
+export class ComplianceMatch {
+  @Prop({ required: true, enum: ComplianceMatchType })
+  type: ComplianceMatchType;
+
+  @Prop({ required: true })
+  value: string; // The keyword, pattern, number or media type that matched
+}
+
+@Schema({ timestamps: true })
+export class FlaggedMessage {
+  @Prop({ type: Types.ObjectId, auto: true })
+  _id: Types.ObjectId;
+
+  // Source
+  @Prop({ type: Types.ObjectId, ref: 'Message', required: true })
+  messageId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'ComplianceRule', required: true })
+  ruleId: Types.ObjectId;
+
+  @Prop({ required: true })
+  ruleName: string;
+
+  @Prop({ type: [ComplianceMatch], default: [] })
+  matches: ComplianceMatch[];
+
+  @Prop({ required: true, enum: AlertSeverity })
+  severity: AlertSeverity;
+
+  @Prop({ type: Types.ObjectId, ref: 'Alert' })
+  alertId: Types.ObjectId;
+
+  // Message snapshot for the review queue
+  @Prop({ enum: MessageDirection })
+  direction: MessageDirection;
+
+  @Prop()
+  from: string;
+
+  @Prop()
+  to: string;
+
+  @Prop({ type: String })
+  contentPreview: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  userId: Types.ObjectId;
+
+  @Prop()
+  messageTimestamp: Date;
+
+  // Review
+  @Prop({ required: true, enum: FlaggedMessageStatus, default: FlaggedMessageStatus.PENDING_REVIEW })
+  status: FlaggedMessageStatus;
+
+  @Prop()
+  reviewedBy: string;
+
+  @Prop()
+  reviewedAt: Date;
+
+  @Prop({ type: String })
+  reviewNotes: string;
+
+  // Entity & Tenant
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  entityId: Types.ObjectId;
+
+  @Prop({ type: [Types.ObjectId], default: [] })
+  entityIdPath: Types.ObjectId[];
+
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  tenantId: Types.ObjectId;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const FlaggedMessageSchema = SchemaFactory.createForClass(FlaggedMessage);
+
+// Indexes for performance
+FlaggedMessageSchema.index({ messageId: 1, ruleId: 1 }, { unique: true });
+FlaggedMessageSchema.index({ tenantId: 1, status: 1, createdAt: -1 });
+FlaggedMessageSchema.index({ entityIdPath: 1, status: 1 });
+FlaggedMessageSchema.index({ ruleId: 1, createdAt: -1 });
+FlaggedMessageSchema.index({ severity: 1, status: 1 });
@@ -0,0 +1,86 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type LegalHoldDocument = LegalHold & Document;
+
+export enum LegalHoldTargetType {
+  USER = 'user', // Everything a custodian sent, received or handled through their sessions
+  CONVERSATION = 'conversation', // One chat (conversationId) within the hold's entity subtree
+  ENTITY = 'entity', // Everything in an entity subtree
+}
+
+export enum LegalHoldStatus {
+  ACTIVE = 'active',
+  RELEASED = 'released',
+}
+
+@Schema({ timestamps: true })
+export class LegalHold {
+  @Prop({ type: Types.ObjectId, auto: true })
+  _id: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  matter: string; // Case or investigation reference
+
+  @Prop()
+  reason: string;
+
+  @Prop({ required: true, enum: LegalHoldStatus, default: LegalHoldStatus.ACTIVE })
+  status: LegalHoldStatus;
+
+  // Target
+  @Prop({ required: true, enum: LegalHoldTargetType })
+  targetType: LegalHoldTargetType;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  userId: Types.ObjectId;
+
+  @Prop()
+  conversationId: string;
+
+  // Release
+  @Prop()
+  releasedAt: Date;
+
+  @Prop()
+  releasedBy: string;
+
+  @Prop()
+  releaseNotes: string;
+
+  // Entity & Tenant - for ENTITY holds this is the held entity
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  entityId: Types.ObjectId;
+
+  @Prop({ type: [Types.ObjectId], default: [] })
+  entityIdPath: Types.ObjectId[];
+
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  tenantId: Types.ObjectId;
+
+  // Audit
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @Prop()
+  createdBy: string;
+
+  @Prop()
+  updatedBy: string;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const LegalHoldSchema = SchemaFactory.createForClass(LegalHold);
+
+// Indexes for performance
+LegalHoldSchema.index({ tenantId: 1, status: 1 });
+LegalHoldSchema.index({ entityIdPath: 1, status: 1 });
+LegalHoldSchema.index({ userId: 1, status: 1 });
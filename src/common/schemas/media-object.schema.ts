@@ -0,0 +1,135 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type MediaObjectDocument = MediaObject & Document;
+
+export enum MediaSource {
+  INBOUND = 'inbound', // Received with a WhatsApp message
+  OUTBOUND = 'outbound', // Sent from the platform
+  UPLOAD = 'upload', // Uploaded through the API, not necessarily used in a message
+}
+
+export enum MediaProcessingStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  SKIPPED = 'skipped', // Derivatives are not processed themselves
+}
+
+export enum MediaUploadStatus {
+  PENDING = 'pending', // Indexed before its blob is written; other registrants wait for it
+  STORED = 'stored',
+}
+
+// What the media processing pipeline learned about a file
+export interface MediaDetails {
+  width?: number;
+  height?: number;
+  durationSeconds?: number;
+  pageCount?: number;
+  preview?: string; // Start of the extracted text
+}
+
+/**
+ * Index of stored media: who a blob belongs to and which messages use it.
+ * Media endpoints authorize against this before serving a key. WhatsApp
+ * media is stored once per tenant under its SHA-256, so one record may be
+ * referenced by several messages and is only deleted with the last of them.
+ */
+@Schema({ timestamps: true })
+export class MediaObject {
+  @Prop({ type: Types.ObjectId, auto: true })
+  _id: Types.ObjectId;
+
+  @Prop({ required: true })
+  key: string; // Storage key, e.g. "whatsapp-media/<tenantId>/sha256/<hash>.jpeg"
+
+  @Prop({ required: true, enum: MediaSource })
+  source: MediaSource;
+
+  @Prop()
+  contentType: string;
+
+  @Prop({ default: 0 })
+  size: number;
+
+  @Prop({ type: [Types.ObjectId], ref: 'Message', default: [] })
+  messageIds: Types.ObjectId[];
+
+  @Prop({ default: 0 })
+  refCount: number; // Messages and uploads holding on to the file
+
+  @Prop({ default: 0 })
+  uploadRefs: number; // The part of refCount held by uploads not carried by a message
+
+  @Prop({ type: String, default: null })
+  derivedFrom: string; // Key of the file a thumbnail or extracted text was made from
+
+  // Upload
+  @Prop({ enum: MediaUploadStatus, default: MediaUploadStatus.STORED })
+  uploadStatus: MediaUploadStatus;
+
+  @Prop()
+  uploadStartedAt: Date; // When the current uploader claimed a pending upload; unset once it gives up
+
+  // Processing
+  @Prop({ enum: MediaProcessingStatus, default: MediaProcessingStatus.PENDING })
+  processingStatus: MediaProcessingStatus;
+
+  @Prop({ default: 0 })
+  processingAttempts: number;
+
+  @Prop({ type: String })
+  lockedBy: string;
+
+  @Prop()
+  lockedAt: Date;
+
+  @Prop()
+  processedAt: Date;
+
+  @Prop({ type: String })
+  processingError: string;
+
+  @Prop({ type: String })
+  sha256: string;
+
+  @Prop({ type: Object })
+  details: MediaDetails;
+
+  @Prop({ type: String })
+  thumbnailKey: string;
+
+  @Prop({ type: String })
+  textKey: string;
+
+  // Entity & Tenant
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  entityId: Types.ObjectId;
+
+  @Prop({ type: [Types.ObjectId], ref: 'Entity', default: [] })
+  entityIdPath: Types.ObjectId[]; // Union of the paths of the messages and uploads referencing the file
+
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  tenantId: Types.ObjectId;
+
+  // Audit
+  @Prop({ required: true })
+  createdBy: string;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const MediaObjectSchema = SchemaFactory.createForClass(MediaObject);
+
+// Indexes for performance
+MediaObjectSchema.index({ key: 1 }, { unique: true });
+MediaObjectSchema.index({ tenantId: 1, entityIdPath: 1 });
+MediaObjectSchema.index({ messageIds: 1 });
+MediaObjectSchema.index({ derivedFrom: 1 });
+MediaObjectSchema.index({ processingStatus: 1, createdAt: 1 });
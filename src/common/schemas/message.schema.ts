@@ -1,5 +1,7 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { MediaDetails } from './media-object.schema';
+import { WhatsAppTemplateComponent } from '../../modules/whatsapp/transports/whatsapp-transport.interface';
 
 export type MessageDocument = Message & Document;
 
@@ -27,13 +29,40 @@ export enum MessageDirection {
   OUTBOUND = 'outbound',
 }
 
+/**
+ * What the outbound queue worker needs to (re)send a message.
+ * Media is stored through StorageService and referenced by key.
+ */
+export interface OutboundMessagePayload {
+  kind: 'text' | 'media' | 'template';
+  text?: string;
+  mediaKey?: string;
+  mimetype?: string;
+  filename?: string;
+  caption?: string;
+  templateName?: string;
+  languageCode?: string;
+  components?: WhatsAppTemplateComponent[];
+}
+
+/**
+ * Media facts filled in by the media processing pipeline once the file has
+ * been analysed
+ */
+export interface MessageMediaInfo extends MediaDetails {
+  sha256: string;
+  size: number;
+  textKey?: string; // Storage key of the extracted document text
+  processedAt: Date;
+}
+
 @Schema({ timestamps: true })
 export class Message {
   @Prop({ type: Types.ObjectId, auto: true })
   _id: Types.ObjectId;
 
-  // WhatsApp Message ID
-  @Prop({ required: true })
+  // WhatsApp Message ID (assigned once a queued outbound message is sent)
+  @Prop()
   whatsappMessageId: string;
 
   // Participant Information
@@ -62,6 +91,12 @@ export class Message {
   @Prop({ type: String })
   thumbnailUrl: string; // Thumbnail for media
 
+  @Prop({ type: Object })
+  mediaInfo: MessageMediaInfo;
+
+  @Prop()
+  mediaPurgedAt: Date; // Set when retention removed the media blobs
+
   @Prop({ type: Object })
   metadata: Record<string, any>; // Additional metadata
 
@@ -98,6 +133,34 @@ export class Message {
   @Prop({ type: String })
   templateName: string; // If sent via template
 
+  // Outbound Queue
+  @Prop({ type: String })
+  sessionId: string; // WhatsApp session that sends the message
+
+  @Prop({ type: Object })
+  outbound: OutboundMessagePayload;
+
+  @Prop({ type: String })
+  idempotencyKey: string; // Client supplied, unique per tenant and sender
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop()
+  nextAttemptAt: Date;
+
+  @Prop({ type: String })
+  lockedBy: string; // Worker currently sending the message
+
+  @Prop()
+  lockedAt: Date;
+
+  @Prop({ type: String })
+  lastError: string;
+
+  @Prop()
+  deadLetteredAt: Date; // Set when retries are exhausted
+
   // Entity & Tenant
   @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
   entityId: Types.ObjectId;
@@ -154,9 +217,17 @@ MessageSchema.index({ conversationId: 1 });
 MessageSchema.index({ campaignId: 1 });
 MessageSchema.index({ status: 1, tenantId: 1 });
 MessageSchema.index({ direction: 1, tenantId: 1 });
+MessageSchema.index({ tenantId: 1, createdAt: 1 }); // For retention jobs
 MessageSchema.index({ type: 1, tenantId: 1 });
 MessageSchema.index({ createdAt: -1 });
 MessageSchema.index({ sentAt: -1 });
 MessageSchema.index({ isExternalNumber: 1, tenantId: 1 });
 MessageSchema.index({ externalSenderPhone: 1 });
+MessageSchema.index({ sessionId: 1, status: 1, nextAttemptAt: 1 });
+MessageSchema.index({ sessionId: 1, sentAt: -1 });
+MessageSchema.index({ deadLetteredAt: -1, tenantId: 1 });
+MessageSchema.index(
+  { tenantId: 1, createdBy: 1, idempotencyKey: 1 },
+  { unique: true, partialFilterExpression: { idempotencyKey: { $type: 'string' } } },
+);
 
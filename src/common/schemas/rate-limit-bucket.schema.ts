@@ -0,0 +1,32 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type RateLimitBucketDocument = RateLimitBucket & Document;
+
+/**
+ * Request count for one rate limit key over one fixed window. The sliding
+ * window estimate is built from the current and the previous bucket.
+ */
+@Schema({ timestamps: false })
+export class RateLimitBucket {
+  @Prop({ type: Types.ObjectId, auto: true })
+  _id: Types.ObjectId;
+
+  @Prop({ required: true })
+  key: string; // e.g. "quota:messagesSend:tenant:<tenantId>"
+
+  @Prop({ required: true })
+  windowStart: Date;
+
+  @Prop({ default: 0 })
+  count: number;
+
+  @Prop({ required: true })
+  expiresAt: Date; // Removed by the TTL index once the next window has passed too
+}
+
+export const RateLimitBucketSchema = SchemaFactory.createForClass(RateLimitBucket);
+
+// Indexes for performance
+RateLimitBucketSchema.index({ key: 1, windowStart: 1 }, { unique: true });
+RateLimitBucketSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
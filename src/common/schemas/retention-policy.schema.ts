@@ -0,0 +1,81 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type RetentionPolicyDocument = RetentionPolicy & Document;
+
+@Schema({ _id: false })
+export class RetentionPeriods {
+  // Days to keep each kind of data; 0 keeps forever, unset inherits from the parent policy or the defaults
+  @Prop({ type: Number })
+  messagesDays: number;
+
+  @Prop({ type: Number })
+  mediaDays: number; // Media blobs can be dropped before the message text
+
+  @Prop({ type: Number })
+  healthChecksDays: number;
+
+  @Prop({ type: Number })
+  auditLogsDays: number; // Tenant-level policies only
+
+  @Prop({ type: Number })
+  metricsDays: number; // Tenant-level policies only
+}
+
+@Schema({ timestamps: true })
+export class RetentionPolicy {
+  @Prop({ type: Types.ObjectId, auto: true })
+  _id: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  description: string;
+
+  @Prop({ type: RetentionPeriods, required: true })
+  periods: RetentionPeriods;
+
+  @Prop({ default: true })
+  isEnabled: boolean;
+
+  // Last enforcement run
+  @Prop()
+  lastRunAt: Date;
+
+  @Prop({ type: Object })
+  lastRunStats: Record<string, number>;
+
+  // Entity & Tenant - the policy covers this entity's subtree unless a deeper policy exists
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  entityId: Types.ObjectId;
+
+  @Prop({ type: [Types.ObjectId], default: [] })
+  entityIdPath: Types.ObjectId[];
+
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  tenantId: Types.ObjectId;
+
+  // Audit
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @Prop()
+  createdBy: string;
+
+  @Prop()
+  updatedBy: string;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const RetentionPolicySchema = SchemaFactory.createForClass(RetentionPolicy);
+
+// Indexes for performance
+RetentionPolicySchema.index({ entityId: 1 }, { unique: true, partialFilterExpression: { isActive: true } });
+RetentionPolicySchema.index({ tenantId: 1, isActive: 1 });
+RetentionPolicySchema.index({ entityIdPath: 1 });
@@ -0,0 +1,57 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type RoleAssignmentDocument = RoleAssignment & Document;
+
+/**
+ * Grants a custom role to a user for one entity subtree: the role's
+ * permissions apply to resources whose entityIdPath contains scopeEntityId
+ */
+@Schema({ timestamps: true })
+export class RoleAssignment {
+  @Prop({ type: Types.ObjectId, auto: true })
+  _id: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'CustomRole', required: true })
+  roleId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  scopeEntityId: Types.ObjectId;
+
+  // Entity & Tenant
+  @Prop({ type: [Types.ObjectId], ref: 'Entity', default: [] })
+  entityIdPath: Types.ObjectId[]; // entityIdPath of scopeEntityId, for subtree queries
+
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  tenantId: Types.ObjectId;
+
+  // Audit
+  @Prop({ required: true, default: true })
+  isActive: boolean;
+
+  @Prop({ required: true })
+  createdBy: string;
+
+  @Prop()
+  updatedBy: string;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const RoleAssignmentSchema = SchemaFactory.createForClass(RoleAssignment);
+
+// Indexes for performance
+RoleAssignmentSchema.index(
+  { userId: 1, roleId: 1, scopeEntityId: 1 },
+  { unique: true, partialFilterExpression: { isActive: true } },
+);
+RoleAssignmentSchema.index({ userId: 1, isActive: 1 });
+RoleAssignmentSchema.index({ roleId: 1, isActive: 1 });
+RoleAssignmentSchema.index({ tenantId: 1, entityIdPath: 1 });
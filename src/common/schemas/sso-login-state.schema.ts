@@ -0,0 +1,57 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type SsoLoginStateDocument = SsoLoginState & Document;
+
+/**
+ * One single sign-on attempt. Created when the user is sent to the IdP and
+ * consumed by the callback; after a successful callback it holds a one-time
+ * exchange code the frontend trades for tokens.
+ */
+@Schema({ timestamps: true })
+export class SsoLoginState {
+  @Prop({ type: Types.ObjectId, auto: true })
+  _id: Types.ObjectId;
+
+  @Prop({ required: true, unique: true })
+  state: string;
+
+  @Prop({ required: true })
+  nonce: string;
+
+  @Prop({ required: true })
+  codeVerifier: string; // PKCE verifier, never leaves the server
+
+  @Prop()
+  callbackAt: Date; // Set when the IdP callback consumes the state
+
+  // Result of the callback
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  userId: Types.ObjectId;
+
+  @Prop()
+  exchangeCodeHash: string; // SHA-256 of the one-time code handed to the frontend
+
+  @Prop()
+  exchangedAt: Date;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  // Entity & Tenant
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  tenantId: Types.ObjectId;
+
+  // Audit
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const SsoLoginStateSchema = SchemaFactory.createForClass(SsoLoginState);
+
+// Indexes for performance
+SsoLoginStateSchema.index({ exchangeCodeHash: 1 }, { sparse: true });
+SsoLoginStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
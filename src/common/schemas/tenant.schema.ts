@@ -0,0 +1,122 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type TenantDocument = Tenant & Document;
+
+export enum TenantStatus {
+  ACTIVE = 'active',
+  SUSPENDED = 'suspended', // Logins blocked and WhatsApp sessions disconnected
+  OFFBOARDING = 'offboarding', // Suspended; data is purged once the offboarding export completes
+  OFFBOARDED = 'offboarded', // Data purged; only this record remains
+}
+
+/**
+ * Plan limits; 0 means unlimited
+ */
+@Schema({ _id: false })
+export class TenantPlan {
+  @Prop({ default: 'standard' })
+  name: string;
+
+  @Prop({ default: 0, min: 0 })
+  maxUsers: number;
+
+  @Prop({ default: 0, min: 0 })
+  maxSessions: number; // WhatsApp sessions
+
+  @Prop({ default: 0, min: 0 })
+  maxStorageBytes: number;
+}
+
+@Schema({ _id: false })
+export class TenantOffboarding {
+  @Prop()
+  requestedAt: Date;
+
+  @Prop()
+  requestedBy: string;
+
+  @Prop()
+  reason: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'ExportJob' })
+  exportJobId: Types.ObjectId; // Kept after the purge so the bundle can still be downloaded
+
+  @Prop()
+  purgeStartedAt: Date;
+
+  @Prop()
+  purgedAt: Date;
+
+  @Prop({ type: Object })
+  purgeStats: Record<string, number>; // Deleted documents per collection
+
+  @Prop()
+  lastError: string;
+}
+
+/**
+ * A customer of the platform. Shares its _id with the tenant's root entity,
+ * which is what every tenantId in the data points at.
+ */
+@Schema({ timestamps: true })
+export class Tenant {
+  @Prop({ type: Types.ObjectId, required: true })
+  _id: Types.ObjectId; // Root entity id
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ required: true, enum: TenantStatus, default: TenantStatus.ACTIVE })
+  status: TenantStatus;
+
+  @Prop({ type: TenantPlan, default: () => ({}) })
+  plan: TenantPlan;
+
+  // WhatsApp
+  @Prop({ type: [String], default: [] })
+  cloudPhoneNumberIds: string[]; // Cloud API numbers the tenant's sessions may use; set by SystemAdmins only
+
+  // Usage
+  @Prop({ default: 0 })
+  storageBytes: number; // Uploaded media and files; not reduced when retention removes media
+
+  // Suspension
+  @Prop()
+  suspendedAt: Date;
+
+  @Prop()
+  suspendedBy: string;
+
+  @Prop()
+  suspensionReason: string;
+
+  @Prop({ type: TenantOffboarding })
+  offboarding: TenantOffboarding;
+
+  // Audit
+  @Prop({ required: true, default: true })
+  isActive: boolean;
+
+  @Prop({ required: true })
+  createdBy: string;
+
+  @Prop()
+  updatedBy: string;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const TenantSchema = SchemaFactory.createForClass(Tenant);
+
+// Indexes for performance
+TenantSchema.index({ status: 1 });
+TenantSchema.index({ name: 1 });
+TenantSchema.index(
+  { cloudPhoneNumberIds: 1 },
+  { unique: true, partialFilterExpression: { 'cloudPhoneNumberIds.0': { $exists: true } } },
+);
@@ -31,6 +31,11 @@ export enum WhatsAppConnectionStatus {
   FAILED = 'failed',
 }
 
+export enum AuthProvider {
+  LOCAL = 'local',
+  OIDC = 'oidc',
+}
+
 @Schema({ timestamps: true })
 export class UserPreferences {
   @Prop({ default: 'en' })
@@ -141,12 +146,84 @@ export class User {
   @Prop({ required: true, default: true })
   isActive: boolean;
 
+  // Identity at the tenant's IdP for single sign-on users
+  @Prop({ enum: AuthProvider, default: AuthProvider.LOCAL })
+  authProvider: AuthProvider;
+
+  @Prop()
+  externalIssuer: string;
+
+  @Prop()
+  externalId: string; // Subject ("sub") at externalIssuer
+
+  @Prop()
+  lastSsoLoginAt: Date;
+
   @Prop({ select: false })
   resetPasswordToken: string;
 
   @Prop()
   resetPasswordExpires: Date;
 
+  // Password policy & login protection
+  @Prop({ type: [String], select: false, default: [] })
+  passwordHistory: string[]; // Hashes of previous passwords, newest first
+
+  @Prop()
+  passwordChangedAt: Date;
+
+  @Prop({ default: false })
+  mustChangePassword: boolean; // Temporary password (e.g. from an invitation) to replace at next login
+
+  @Prop({ default: 0 })
+  failedLoginAttempts: number; // Since the last successful login or lockout
+
+  @Prop({ default: 0 })
+  lockoutCount: number; // Consecutive lockouts; each lasts twice as long as the previous one
+
+  @Prop()
+  lockedUntil: Date;
+
+  @Prop({ default: 0 })
+  twoFactorFailedAttempts: number; // Wrong second-factor codes since the last accepted one or lockout; a correct password does not reset it
+
+  @Prop()
+  lastFailedLoginAt: Date;
+
+  @Prop()
+  lastLoginAt: Date;
+
+  @Prop({ type: [String], select: false, default: [] })
+  knownIpAddresses: string[]; // Recent sign-in addresses, newest first
+
+  // Two-factor authentication
+  @Prop({ default: false })
+  twoFactorEnabled: boolean;
+
+  @Prop()
+  twoFactorEnabledAt: Date;
+
+  @Prop({ select: false })
+  twoFactorSecret: string; // TOTP secret, encrypted with EncryptionService
+
+  @Prop({ select: false })
+  twoFactorPendingSecret: string; // Enrollment secret awaiting its first code, encrypted
+
+  @Prop({ type: [String], select: false, default: [] })
+  twoFactorRecoveryCodes: string[]; // Hashed; each code is removed once used
+
+  @Prop({ select: false })
+  twoFactorLastUsedStep: number; // TOTP time step of the last accepted code, so a code cannot be replayed
+
+  @Prop()
+  twoFactorChallengeId: string; // Login challenge the failures below belong to
+
+  @Prop({ default: 0 })
+  twoFactorChallengeFailures: number; // Wrong codes on that challenge; it is burned once they reach the limit
+
+  @Prop({ type: [String], default: [] })
+  twoFactorUsedChallengeIds: string[]; // Latest login challenges that completed, so none can sign in twice
+
   @Prop()
   createdAt: Date;
 
@@ -174,6 +251,10 @@ UserSchema.index({ entityIdPath: 1 });
 UserSchema.index({ registrationStatus: 1, tenantId: 1 });
 UserSchema.index({ role: 1, tenantId: 1 });
 UserSchema.index({ whatsappConnectionStatus: 1 });
+UserSchema.index(
+  { externalIssuer: 1, externalId: 1 },
+  { unique: true, partialFilterExpression: { externalId: { $type: 'string' } } },
+);
 
 // Virtual for full name
 UserSchema.virtual('fullName').get(function () {
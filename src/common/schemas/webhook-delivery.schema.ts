@@ -0,0 +1,86 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { WebhookEvent } from './webhook-subscription.schema';
+
+export type WebhookDeliveryDocument = WebhookDelivery & Document;
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'pending',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed', // Retries exhausted or subscription no longer active
+}
+
+@Schema({ timestamps: true })
+export class WebhookDelivery {
+  @Prop({ type: Types.ObjectId, auto: true })
+  _id: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'WebhookSubscription', required: true })
+  subscriptionId: Types.ObjectId;
+
+  // Event
+  @Prop({ required: true, enum: WebhookEvent })
+  event: WebhookEvent;
+
+  @Prop({ required: true })
+  eventId: string; // Shared by every delivery of the same event, including replays
+
+  @Prop({ type: Object, required: true })
+  payload: Record<string, any>; // Exact body posted to the subscriber
+
+  @Prop({ type: Types.ObjectId, ref: 'WebhookDelivery' })
+  replayOf: Types.ObjectId;
+
+  // Delivery state
+  @Prop({ required: true, enum: WebhookDeliveryStatus, default: WebhookDeliveryStatus.PENDING })
+  status: WebhookDeliveryStatus;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop({ default: () => new Date() })
+  nextAttemptAt: Date;
+
+  @Prop()
+  lockedBy: string;
+
+  @Prop()
+  lockedAt: Date;
+
+  // Last attempt
+  @Prop()
+  lastAttemptAt: Date;
+
+  @Prop()
+  responseStatus: number;
+
+  @Prop()
+  durationMs: number;
+
+  @Prop()
+  lastError: string;
+
+  @Prop()
+  deliveredAt: Date;
+
+  @Prop()
+  failedAt: Date;
+
+  // Tenant
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  tenantId: Types.ObjectId;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const WebhookDeliverySchema = SchemaFactory.createForClass(WebhookDelivery);
+
+// Indexes for performance
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+WebhookDeliverySchema.index({ subscriptionId: 1, createdAt: -1 });
+WebhookDeliverySchema.index({ tenantId: 1, event: 1, createdAt: -1 });
+WebhookDeliverySchema.index({ eventId: 1 });
@@ -0,0 +1,81 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type WebhookSubscriptionDocument = WebhookSubscription & Document;
+
+export enum WebhookEvent {
+  MESSAGE_RECEIVED = 'message.received',
+  MESSAGE_SENT = 'message.sent',
+  MESSAGE_STATUS_CHANGED = 'message.status_changed',
+  SESSION_STATUS_CHANGED = 'session.status_changed',
+  ALERT_CREATED = 'alert.created',
+  ALERT_ACKNOWLEDGED = 'alert.acknowledged',
+  ALERT_RESOLVED = 'alert.resolved',
+  ALERT_DISMISSED = 'alert.dismissed',
+  USER_REGISTRATION_CHANGED = 'user.registration_changed',
+  USER_DEACTIVATED = 'user.deactivated',
+}
+
+@Schema({ timestamps: true })
+export class WebhookSubscription {
+  @Prop({ type: Types.ObjectId, auto: true })
+  _id: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  description: string;
+
+  // Delivery
+  @Prop({ required: true })
+  url: string;
+
+  @Prop({ required: true, select: false })
+  secret: string; // HMAC-SHA256 signing key, only returned on create and rotation
+
+  @Prop({ type: [String], enum: WebhookEvent, required: true })
+  events: WebhookEvent[];
+
+  @Prop({ default: true })
+  isEnabled: boolean;
+
+  // Delivery health
+  @Prop()
+  lastDeliveryAt: Date;
+
+  @Prop()
+  lastSuccessAt: Date;
+
+  @Prop()
+  lastFailureAt: Date;
+
+  @Prop({ default: 0 })
+  consecutiveFailures: number;
+
+  // Tenant
+  @Prop({ type: Types.ObjectId, ref: 'Entity', required: true })
+  tenantId: Types.ObjectId;
+
+  // Audit
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @Prop()
+  createdBy: string;
+
+  @Prop()
+  updatedBy: string;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const WebhookSubscriptionSchema = SchemaFactory.createForClass(WebhookSubscription);
+
+// Indexes for performance
+WebhookSubscriptionSchema.index({ tenantId: 1, isActive: 1, isEnabled: 1, events: 1 });
+WebhookSubscriptionSchema.index({ createdAt: -1 });
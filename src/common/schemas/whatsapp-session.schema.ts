@@ -12,6 +12,12 @@ export enum SessionStatus {
   FAILED = 'failed',
 }
 
+export enum WhatsAppTransportDriver {
+  WEB = 'web',
+  MEMORY = 'memory',
+  CLOUD = 'cloud',
+}
+
 @Schema({ timestamps: true })
 export class WhatsAppSession {
   @Prop({ type: Types.ObjectId, auto: true })
@@ -43,6 +49,13 @@ export class WhatsAppSession {
   @Prop()
   whatsappId: string; // WhatsApp ID
 
+  // Transport
+  @Prop({ enum: WhatsAppTransportDriver })
+  transport: WhatsAppTransportDriver; // Driver backing this session, falls back to the configured default
+
+  @Prop()
+  cloudPhoneNumberId: string; // WhatsApp Cloud API phone number ID, provisioned on the tenant (official numbers only)
+
   // Session Status
   @Prop({ required: true, enum: SessionStatus, default: SessionStatus.DISCONNECTED })
   status: SessionStatus;
@@ -131,4 +144,9 @@ WhatsAppSessionSchema.index({ entityIdPath: 1 });
 WhatsAppSessionSchema.index({ tenantId: 1, isActive: 1 });
 WhatsAppSessionSchema.index({ status: 1 });
 WhatsAppSessionSchema.index({ phoneNumber: 1 });
+// Inbound Cloud API webhooks are routed by number, so one active session per number
+WhatsAppSessionSchema.index(
+  { cloudPhoneNumberId: 1 },
+  { unique: true, partialFilterExpression: { isActive: true, cloudPhoneNumberId: { $type: 'string' } } },
+);
 
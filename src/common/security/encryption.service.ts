@@ -12,17 +12,20 @@ export class EncryptionService {
 
   constructor(private configService: ConfigService) {}
 
+  /**
+   * AES-256-GCM encryption; the result is `iv:authTag:ciphertext` in hex
+   */
   encrypt(text: string, key?: string): string {
     try {
-      const encryptionKey = key || this.configService.get<string>('encryption.key') || 'default-key';
-      const derivedKey = crypto.scryptSync(encryptionKey, 'salt', this.keyLength);
+      const derivedKey = this.deriveKey(key);
       const iv = crypto.randomBytes(this.ivLength);
-      const cipher = crypto.createCipher(this.algorithm, derivedKey);
+      const cipher = crypto.createCipheriv(this.algorithm, derivedKey, iv, { authTagLength: this.tagLength });
 
       let encrypted = cipher.update(text, 'utf8', 'hex');
       encrypted += cipher.final('hex');
+      const tag = cipher.getAuthTag();
 
-      return iv.toString('hex') + ':' + encrypted;
+      return iv.toString('hex') + ':' + tag.toString('hex') + ':' + encrypted;
     } catch (error) {
       this.logger.error('Encryption failed:', error);
       throw new Error('Encryption failed');
@@ -31,11 +34,11 @@ export class EncryptionService {
 
   decrypt(encryptedText: string, key?: string): string {
     try {
-      const encryptionKey = key || this.configService.get<string>('encryption.key') || 'default-key';
-      const derivedKey = crypto.scryptSync(encryptionKey, 'salt', this.keyLength);
-      const [ivHex, encrypted] = encryptedText.split(':');
+      const derivedKey = this.deriveKey(key);
+      const [ivHex, tagHex, encrypted] = encryptedText.split(':');
       const iv = Buffer.from(ivHex, 'hex');
-      const decipher = crypto.createDecipher(this.algorithm, derivedKey);
+      const decipher = crypto.createDecipheriv(this.algorithm, derivedKey, iv, { authTagLength: this.tagLength });
+      decipher.setAuthTag(Buffer.from(tagHex, 'hex'));
 
       let decrypted = decipher.update(encrypted, 'hex', 'utf8');
       decrypted += decipher.final('utf8');
@@ -75,4 +78,9 @@ export class EncryptionService {
   generateSecureToken(): string {
     return crypto.randomBytes(32).toString('base64url');
   }
+
+  private deriveKey(key?: string): Buffer {
+    const encryptionKey = key || this.configService.get<string>('security.encryptionKey') || 'default-key';
+    return crypto.scryptSync(encryptionKey, 'salt', this.keyLength);
+  }
 }
@@ -1,73 +1,140 @@
-import { Injectable, CanActivate, ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Logger,
+  SetMetadata,
+  UseGuards,
+  applyDecorators,
+} from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
-import { Request } from 'express';
+import { ApiTooManyRequestsResponse } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { RateLimitCheck, RateLimitResult, RateLimitService } from './rate-limit.service';
+import { QuotaName } from '../constants/quotas';
 
 export const RATE_LIMIT_KEY = 'rateLimit';
+export const QUOTA_KEY = 'quota';
 
+/**
+ * Limit how often one user (or, unauthenticated, one address) may call the route
+ */
+export const RateLimit = (ttl: number, limit: number) =>
+  applyDecorators(
+    SetMetadata(RATE_LIMIT_KEY, { ttl, limit }),
+    UseGuards(RateLimitGuard),
+    ApiTooManyRequestsResponse({ description: 'Rate limit exceeded' }),
+  );
+
+/**
+ * Meter the route against the caller's tenant quota and, for API keys, the key's quota
+ */
+export const Quota = (quota: QuotaName) =>
+  applyDecorators(
+    SetMetadata(QUOTA_KEY, quota),
+    UseGuards(RateLimitGuard),
+    ApiTooManyRequestsResponse({ description: 'Quota exceeded' }),
+  );
+
+/**
+ * Enforces @RateLimit and @Quota. Method-level, so it runs after the
+ * controller's auth guards and sees request.user. Sets the RateLimit-*
+ * headers for the most restrictive limit that applies.
+ */
 @Injectable()
 export class RateLimitGuard implements CanActivate {
-  private readonly requestCounts = new Map<string, { count: number; resetTime: number }>();
+  private readonly logger = new Logger(RateLimitGuard.name);
 
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    private rateLimitService: RateLimitService,
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest<Request>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const targets = [context.getHandler(), context.getClass()];
     const rateLimitConfig = this.reflector.getAllAndOverride<{
       ttl: number;
       limit: number;
-    }>(RATE_LIMIT_KEY, [context.getHandler(), context.getClass()]);
+    }>(RATE_LIMIT_KEY, targets);
+    const quota = this.reflector.getAllAndOverride<QuotaName>(QUOTA_KEY, targets);
 
-    if (!rateLimitConfig) {
+    if (!rateLimitConfig && !quota) {
       return true;
     }
 
-    const { ttl, limit } = rateLimitConfig;
-    const key = this.getRateLimitKey(request);
-    const now = Date.now();
-    const windowStart = now - (ttl * 1000);
-
-    // Clean up old entries
-    this.cleanupOldEntries(windowStart);
+    const user = (request as any).user;
+    const checks: RateLimitCheck[] = [];
 
-    const current = this.requestCounts.get(key);
+    if (rateLimitConfig) {
+      checks.push({
+        key: `rate:${context.getClass().name}.${context.getHandler().name}:${this.getRateLimitKey(request)}`,
+        limit: rateLimitConfig.limit,
+        windowSeconds: rateLimitConfig.ttl,
+      });
+    }
 
-    if (!current) {
-      this.requestCounts.set(key, { count: 1, resetTime: now + (ttl * 1000) });
+    let results: RateLimitResult[];
+    try {
+      if (quota) {
+        checks.push(...await this.rateLimitService.quotaChecks(quota, user));
+      }
+      results = await this.rateLimitService.consume(checks);
+    } catch (error) {
+      // Losing the store should not take sending down with it
+      this.logger.error(`Rate limit store unavailable, allowing request: ${error.message}`, error);
       return true;
     }
 
-    if (current.resetTime < now) {
-      this.requestCounts.set(key, { count: 1, resetTime: now + (ttl * 1000) });
+    if (!results.length) {
       return true;
     }
 
-    if (current.count >= limit) {
+    const exceeded = results.find((result) => result.exceeded);
+    this.setHeaders(response, results, exceeded);
+
+    if (exceeded) {
+      if (exceeded.check.quota) {
+        void this.rateLimitService.reportQuotaExceeded(exceeded, user);
+      }
+
       throw new HttpException(
         {
-          message: 'Rate limit exceeded',
-          retryAfter: Math.ceil((current.resetTime - now) / 1000),
+          message: exceeded.check.quota ? 'Quota exceeded' : 'Rate limit exceeded',
+          ...(exceeded.check.quota && { quota: exceeded.check.quota, scope: exceeded.check.subject }),
+          retryAfter: exceeded.reset,
         },
         HttpStatus.TOO_MANY_REQUESTS,
       );
     }
 
-    current.count++;
     return true;
   }
 
   private getRateLimitKey(request: Request): string {
     const user = (request as any).user;
-    const ip = request.ip || request.connection.remoteAddress || 'unknown';
-    
+    const ip = request.ip || request.socket?.remoteAddress || 'unknown';
+
+    // API keys share their creator's sub, so they get their own bucket
+    if (user?.apiKeyId) return `api-key:${user.apiKeyId}`;
+
     // Use user ID if authenticated, otherwise use IP
     return user ? `user:${user.sub}` : `ip:${ip}`;
   }
 
-  private cleanupOldEntries(windowStart: number): void {
-    for (const [key, value] of this.requestCounts.entries()) {
-      if (value.resetTime < windowStart) {
-        this.requestCounts.delete(key);
-      }
+  private setHeaders(response: Response, results: RateLimitResult[], exceeded?: RateLimitResult): void {
+    const reported = exceeded || results.reduce((lowest, result) => (result.remaining < lowest.remaining ? result : lowest));
+
+    response.setHeader('RateLimit-Policy', results.map(({ check }) => `${check.limit};w=${check.windowSeconds}`).join(', '));
+    response.setHeader('RateLimit-Limit', reported.check.limit);
+    response.setHeader('RateLimit-Remaining', reported.remaining);
+    response.setHeader('RateLimit-Reset', reported.reset);
+
+    if (exceeded) {
+      response.setHeader('Retry-After', exceeded.reset);
     }
   }
 }
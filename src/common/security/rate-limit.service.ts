@@ -0,0 +1,234 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { RATE_LIMIT_STORE, RateLimitStore } from './rate-limit.store';
+import { QuotaName } from '../constants/quotas';
+import { Entity, EntityDocument, QuotaLimits } from '../schemas/entity.schema';
+import { ApiKey, ApiKeyDocument } from '../schemas/api-key.schema';
+import { Alert, AlertDocument, AlertSeverity, AlertStatus, AlertType } from '../schemas/alert.schema';
+import { JwtPayload } from '../../modules/auth/auth.service';
+
+export interface RateLimitCheck {
+  key: string;
+  limit: number;
+  windowSeconds: number;
+  quota?: QuotaName;
+  subject?: 'tenant' | 'apiKey'; // Who the quota is metered for
+}
+
+export interface RateLimitResult {
+  check: RateLimitCheck;
+  count: number; // Sliding window estimate, including this request when counted
+  remaining: number;
+  reset: number; // Seconds until the current window ends
+  exceeded: boolean;
+  windowStart: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Sliding window rate limiting over a shared store. Each key keeps one
+ * counter per fixed window; the previous window's count is weighted by how
+ * much of it still overlaps the sliding window.
+ */
+@Injectable()
+export class RateLimitService {
+  private readonly logger = new Logger(RateLimitService.name);
+  private readonly CACHE_TTL_MS = 30000;
+  private readonly overrides = new Map<string, { limits: QuotaLimits | undefined; expiresAt: number }>();
+  private readonly alerted = new Map<string, number>(); // Key -> end of the window an alert was raised for
+
+  constructor(
+    @Inject(RATE_LIMIT_STORE) private store: RateLimitStore,
+    private configService: ConfigService,
+    @InjectModel(Entity.name) private entityModel: Model<EntityDocument>,
+    @InjectModel(ApiKey.name) private apiKeyModel: Model<ApiKeyDocument>,
+    @InjectModel(Alert.name) private alertModel: Model<AlertDocument>,
+  ) {}
+
+  /**
+   * Counts one request against every check. Stops at the first exceeded
+   * check and gives back what the earlier ones took, so a rejected request
+   * costs nothing. The exceeded result, if any, is last.
+   */
+  async consume(checks: RateLimitCheck[]): Promise<RateLimitResult[]> {
+    const results: RateLimitResult[] = [];
+
+    for (const check of checks) {
+      const result = await this.measure(check, true);
+      results.push(result);
+
+      if (result.exceeded) {
+        await Promise.all(results.map((taken) => this.release(taken)));
+        break;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Where each check stands, without counting a request
+   */
+  async usage(checks: RateLimitCheck[]): Promise<RateLimitResult[]> {
+    return Promise.all(checks.map((check) => this.measure(check, false)));
+  }
+
+  /**
+   * Quota checks that apply to a principal: one for its tenant and, when it
+   * authenticated with an API key, one for the key
+   */
+  async quotaChecks(quota: QuotaName, principal: JwtPayload): Promise<RateLimitCheck[]> {
+    const config = this.configService.get<{ windowSeconds: number; tenantLimit: number; apiKeyLimit: number }>(`quotas.${quota}`);
+    if (!config || !principal) return [];
+
+    const checks: RateLimitCheck[] = [];
+
+    if (principal.tenantId) {
+      const override = (await this.overridesFor('tenant', principal.tenantId))?.[quota];
+      checks.push({
+        key: `quota:${quota}:tenant:${principal.tenantId}`,
+        limit: override ?? config.tenantLimit,
+        windowSeconds: config.windowSeconds,
+        quota,
+        subject: 'tenant',
+      });
+    }
+
+    if (principal.apiKeyId) {
+      const override = (await this.overridesFor('apiKey', principal.apiKeyId))?.[quota];
+      checks.push({
+        key: `quota:${quota}:apiKey:${principal.apiKeyId}`,
+        limit: override ?? config.apiKeyLimit,
+        windowSeconds: config.windowSeconds,
+        quota,
+        subject: 'apiKey',
+      });
+    }
+
+    return checks.filter((check) => check.limit > 0);
+  }
+
+  /**
+   * Raise (or bump) the open QUOTA_EXCEEDED alert for the quota's subject.
+   * Rejections within one window count as a single occurrence.
+   */
+  async reportQuotaExceeded(result: RateLimitResult, principal: JwtPayload): Promise<void> {
+    const { check } = result;
+    const windowEnd = result.windowStart.getTime() + check.windowSeconds * 1000;
+    if ((this.alerted.get(check.key) || 0) >= windowEnd) return;
+    this.alerted.set(check.key, windowEnd);
+    this.cleanupAlerted();
+
+    const tenantId = new Types.ObjectId(principal.tenantId);
+    const subjectName = check.subject === 'apiKey' ? `API key "${principal.apiKeyName}"` : 'Tenant';
+    const metadata: Record<string, any> = {
+      quota: check.quota,
+      subject: check.subject,
+      limit: check.limit,
+      windowSeconds: check.windowSeconds,
+      ...(check.subject === 'apiKey' && { apiKeyId: principal.apiKeyId, apiKeyName: principal.apiKeyName }),
+    };
+
+    try {
+      const now = new Date();
+      const existing = await this.alertModel.findOne({
+        type: AlertType.QUOTA_EXCEEDED,
+        tenantId,
+        'metadata.quota': check.quota,
+        'metadata.subject': check.subject,
+        ...(check.subject === 'apiKey' && { 'metadata.apiKeyId': principal.apiKeyId }),
+        status: AlertStatus.OPEN,
+      });
+
+      if (existing) {
+        existing.occurrenceCount += 1;
+        existing.lastOccurredAt = now;
+        existing.metadata = { ...existing.metadata, ...metadata };
+        await existing.save();
+        return;
+      }
+
+      await this.alertModel.create({
+        type: AlertType.QUOTA_EXCEEDED,
+        severity: AlertSeverity.MEDIUM,
+        status: AlertStatus.OPEN,
+        title: `${check.quota} quota exceeded`,
+        description: `${subjectName} reached its ${check.quota} quota of ${check.limit} per ${check.windowSeconds}s; further requests are rejected until the window slides`,
+        entityId: tenantId,
+        entityIdPath: [tenantId],
+        tenantId,
+        firstOccurredAt: now,
+        lastOccurredAt: now,
+        metadata,
+        tags: ['quota', check.quota],
+        createdBy: 'system',
+      });
+    } catch (error) {
+      this.logger.error(`Failed to raise quota alert for ${check.key}: ${error.message}`, error);
+    }
+  }
+
+  /**
+   * Drop cached quota overrides after a tenant or API key changes them.
+   * Other instances pick the change up when their cache entry expires.
+   */
+  invalidate(subject: 'tenant' | 'apiKey', id: string): void {
+    this.overrides.delete(`${subject}:${id}`);
+  }
+
+  private async measure(check: RateLimitCheck, count: boolean): Promise<RateLimitResult> {
+    const windowMs = check.windowSeconds * 1000;
+    const now = Date.now();
+    const currentStart = Math.floor(now / windowMs) * windowMs;
+    const windowStart = new Date(currentStart);
+    const expiresAt = new Date(currentStart + 2 * windowMs); // Still needed as the previous window
+
+    const [current, previous] = await Promise.all([
+      count ? this.store.increment(check.key, windowStart, expiresAt) : this.store.get(check.key, windowStart),
+      this.store.get(check.key, new Date(currentStart - windowMs)),
+    ]);
+
+    const overlap = 1 - (now - currentStart) / windowMs;
+    const estimate = Math.floor(previous * overlap) + current;
+
+    return {
+      check,
+      count: estimate,
+      remaining: Math.max(0, check.limit - estimate),
+      reset: Math.ceil((currentStart + windowMs - now) / 1000),
+      exceeded: estimate > check.limit,
+      windowStart,
+      expiresAt,
+    };
+  }
+
+  private async release(result: RateLimitResult): Promise<void> {
+    await this.store.increment(result.check.key, result.windowStart, result.expiresAt, -1);
+  }
+
+  private async overridesFor(subject: 'tenant' | 'apiKey', id: string): Promise<QuotaLimits | undefined> {
+    const cacheKey = `${subject}:${id}`;
+    const cached = this.overrides.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.limits;
+    }
+
+    const model: Model<any> = subject === 'tenant' ? this.entityModel : this.apiKeyModel;
+    const doc = Types.ObjectId.isValid(id) ? await model.findById(id, { quotas: 1 }).lean<{ quotas?: QuotaLimits }>() : null;
+    const limits = doc?.quotas;
+
+    this.overrides.set(cacheKey, { limits, expiresAt: Date.now() + this.CACHE_TTL_MS });
+    return limits;
+  }
+
+  private cleanupAlerted(): void {
+    const now = Date.now();
+    for (const [key, windowEnd] of this.alerted.entries()) {
+      if (windowEnd < now) {
+        this.alerted.delete(key);
+      }
+    }
+  }
+}
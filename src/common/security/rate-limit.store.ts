@@ -0,0 +1,87 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { RateLimitBucket, RateLimitBucketDocument } from '../schemas/rate-limit-bucket.schema';
+
+export const RATE_LIMIT_STORE = 'RATE_LIMIT_STORE';
+
+/**
+ * Backing store for RateLimitService. Counts are kept per key and fixed
+ * window; implementations must be safe to call concurrently from several
+ * instances sharing the store.
+ */
+export interface RateLimitStore {
+  /**
+   * Adds `by` (may be negative) to the window's count and returns the new count
+   */
+  increment(key: string, windowStart: Date, expiresAt: Date, by?: number): Promise<number>;
+
+  /**
+   * Count of a window, 0 when it has no hits
+   */
+  get(key: string, windowStart: Date): Promise<number>;
+}
+
+/**
+ * Shared store, so limits hold across replicas and restarts
+ */
+@Injectable()
+export class MongoRateLimitStore implements RateLimitStore {
+  constructor(
+    @InjectModel(RateLimitBucket.name) private bucketModel: Model<RateLimitBucketDocument>,
+  ) {}
+
+  async increment(key: string, windowStart: Date, expiresAt: Date, by = 1): Promise<number> {
+    const update = () => this.bucketModel.findOneAndUpdate(
+      { key, windowStart },
+      { $inc: { count: by }, $setOnInsert: { expiresAt } },
+      { upsert: true, new: true, projection: { count: 1 } },
+    ).lean();
+
+    try {
+      return (await update()).count;
+    } catch (error) {
+      // Two instances inserting the same bucket at once; the loser retries as an update
+      if (error?.code === 11000) {
+        return (await update()).count;
+      }
+      throw error;
+    }
+  }
+
+  async get(key: string, windowStart: Date): Promise<number> {
+    const bucket = await this.bucketModel.findOne({ key, windowStart }, { count: 1 }).lean();
+    return bucket?.count || 0;
+  }
+}
+
+/**
+ * Per-process store for single-instance and development setups
+ */
+@Injectable()
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, { count: number; expiresAt: number }>();
+
+  async increment(key: string, windowStart: Date, expiresAt: Date, by = 1): Promise<number> {
+    this.cleanup();
+
+    const id = `${key}@${windowStart.getTime()}`;
+    const bucket = this.buckets.get(id) || { count: 0, expiresAt: expiresAt.getTime() };
+    bucket.count += by;
+    this.buckets.set(id, bucket);
+    return bucket.count;
+  }
+
+  async get(key: string, windowStart: Date): Promise<number> {
+    return this.buckets.get(`${key}@${windowStart.getTime()}`)?.count || 0;
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [id, bucket] of this.buckets.entries()) {
+      if (bucket.expiresAt < now) {
+        this.buckets.delete(id);
+      }
+    }
+  }
+}
@@ -1,19 +1,42 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
 import { RateLimitGuard } from './rate-limit.guard';
+import { RateLimitService } from './rate-limit.service';
+import { RATE_LIMIT_STORE, MemoryRateLimitStore, MongoRateLimitStore } from './rate-limit.store';
 import { ValidationPipe } from '../validation/validation.pipe';
 import { EncryptionService } from './encryption.service';
+import { RateLimitBucket, RateLimitBucketSchema } from '../schemas/rate-limit-bucket.schema';
+import { Entity, EntitySchema } from '../schemas/entity.schema';
+import { ApiKey, ApiKeySchema } from '../schemas/api-key.schema';
+import { Alert, AlertSchema } from '../schemas/alert.schema';
 
 @Module({
   imports: [
     ConfigModule,
+    MongooseModule.forFeature([
+      { name: RateLimitBucket.name, schema: RateLimitBucketSchema },
+      { name: Entity.name, schema: EntitySchema },
+      { name: ApiKey.name, schema: ApiKeySchema },
+      { name: Alert.name, schema: AlertSchema },
+    ]),
   ],
   providers: [
+    MongoRateLimitStore,
+    MemoryRateLimitStore,
+    {
+      provide: RATE_LIMIT_STORE,
+      useFactory: (configService: ConfigService, mongo: MongoRateLimitStore, memory: MemoryRateLimitStore) =>
+        configService.get<string>('rateLimit.store') === 'memory' ? memory : mongo,
+      inject: [ConfigService, MongoRateLimitStore, MemoryRateLimitStore],
+    },
+    RateLimitService,
     RateLimitGuard,
     ValidationPipe,
     EncryptionService,
   ],
   exports: [
+    RateLimitService,
     RateLimitGuard,
     ValidationPipe,
     EncryptionService,
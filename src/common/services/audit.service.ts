@@ -290,10 +290,11 @@ export class AuditService {
   /**
    * Clean up old audit logs (for maintenance)
    */
-  async cleanupOldLogs(daysToKeep: number = 365): Promise<number> {
+  async cleanupOldLogs(daysToKeep: number = 365, filter: Record<string, any> = {}): Promise<number> {
     const cutoffDate = new Date(Date.now() - daysToKeep * 24 * 60 * 60 * 1000);
     
     const result = await this.auditLogModel.deleteMany({
+      ...filter,
       createdAt: { $lt: cutoffDate },
     });
 
@@ -209,23 +209,55 @@ export class MetricsService {
   }
 
   /**
-   * Collect queue backlog metrics (simplified - assumes pending messages are in queue)
+   * Collect outbound queue backlog metrics (depth and age of the oldest queued message)
    */
   async collectQueueBacklogMetrics(tenantId: string, tenantName: string): Promise<void> {
     try {
-      // Count pending messages (simplified queue backlog)
-      const pendingCount = await this.messageModel.countDocuments({
-        tenantId: new Types.ObjectId(tenantId),
-        status: MessageStatus.PENDING,
+      const now = Date.now();
+      const tenantObjectId = new Types.ObjectId(tenantId);
+
+      const [backlog] = await this.messageModel.aggregate([
+        {
+          $match: {
+            tenantId: tenantObjectId,
+            direction: MessageDirection.OUTBOUND,
+            status: MessageStatus.PENDING,
+          },
+        },
+        {
+          $group: {
+            _id: null,
+            depth: { $sum: 1 },
+            oldestQueuedAt: { $min: '$createdAt' },
+            retrying: { $sum: { $cond: [{ $gt: ['$attempts', 0] }, 1, 0] } },
+            sessions: { $addToSet: '$sessionId' },
+          },
+        },
+      ]);
+
+      const deadLettered = await this.messageModel.countDocuments({
+        tenantId: tenantObjectId,
+        deadLetteredAt: { $gte: new Date(now - 24 * 60 * 60 * 1000) },
       });
 
+      const depth = backlog?.depth || 0;
+      const oldestAgeSeconds = backlog?.oldestQueuedAt
+        ? Math.round((now - new Date(backlog.oldestQueuedAt).getTime()) / 1000)
+        : 0;
+
       await this.recordMetric({
         tenantId,
         tenantName,
         type: MetricType.QUEUE_BACKLOG,
         unit: MetricUnit.COUNT,
-        value: pendingCount,
+        value: depth,
         metadata: {
+          depth,
+          oldestAgeSeconds,
+          oldestQueuedAt: backlog?.oldestQueuedAt || null,
+          retrying: backlog?.retrying || 0,
+          sessionsWithBacklog: backlog?.sessions?.length || 0,
+          deadLetteredLast24h: deadLettered,
           timestamp: new Date(),
         },
       });
@@ -363,10 +395,11 @@ export class MetricsService {
   /**
    * Clean up old metrics (for maintenance)
    */
-  async cleanupOldMetrics(daysToKeep: number = 30): Promise<number> {
+  async cleanupOldMetrics(daysToKeep: number = 30, filter: Record<string, any> = {}): Promise<number> {
     const cutoffDate = new Date(Date.now() - daysToKeep * 24 * 60 * 60 * 1000);
     
     const result = await this.metricsModel.deleteMany({
+      ...filter,
       timestamp: { $lt: cutoffDate },
     });
 
@@ -0,0 +1,99 @@
+import { Injectable, ForbiddenException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Tenant, TenantDocument } from '../schemas/tenant.schema';
+import { User } from '../schemas/user.schema';
+import { WhatsAppSession } from '../schemas/whatsapp-session.schema';
+
+export interface TenantUsage {
+  users: number;
+  sessions: number;
+  storageBytes: number;
+}
+
+/**
+ * Enforces the plan limits of a tenant. Tenants without a Tenant record
+ * and limits of 0 are unlimited.
+ */
+@Injectable()
+export class TenantLimitsService {
+  constructor(
+    @InjectModel(Tenant.name)
+    private tenantModel: Model<TenantDocument>,
+    @InjectModel(User.name)
+    private userModel: Model<User>,
+    @InjectModel(WhatsAppSession.name)
+    private sessionModel: Model<WhatsAppSession>,
+  ) {}
+
+  async getUsage(tenantId: string | Types.ObjectId): Promise<TenantUsage> {
+    const id = new Types.ObjectId(tenantId.toString());
+    const [users, sessions, tenant] = await Promise.all([
+      this.userModel.countDocuments({ tenantId: id, isActive: true }),
+      this.sessionModel.countDocuments({ tenantId: id, isActive: true }),
+      this.tenantModel.findById(id).select('storageBytes').lean(),
+    ]);
+
+    return { users, sessions, storageBytes: tenant?.storageBytes || 0 };
+  }
+
+  async assertCanAddUsers(tenantId: string | Types.ObjectId, count = 1): Promise<void> {
+    const plan = await this.planOf(tenantId);
+    if (!plan?.maxUsers) return;
+
+    const users = await this.userModel.countDocuments({ tenantId: new Types.ObjectId(tenantId.toString()), isActive: true });
+    if (users + count > plan.maxUsers) {
+      throw new ForbiddenException(`The tenant's plan allows ${plan.maxUsers} users`);
+    }
+  }
+
+  async assertCanAddSession(tenantId: string | Types.ObjectId): Promise<void> {
+    const plan = await this.planOf(tenantId);
+    if (!plan?.maxSessions) return;
+
+    const sessions = await this.sessionModel.countDocuments({ tenantId: new Types.ObjectId(tenantId.toString()), isActive: true });
+    if (sessions + 1 > plan.maxSessions) {
+      throw new ForbiddenException(`The tenant's plan allows ${plan.maxSessions} WhatsApp sessions`);
+    }
+  }
+
+  async assertStorageAvailable(tenantId: string | Types.ObjectId, bytes: number): Promise<void> {
+    const tenant = await this.tenantModel.findById(tenantId).select('plan storageBytes').lean();
+    if (!tenant?.plan?.maxStorageBytes) return;
+
+    if ((tenant.storageBytes || 0) + bytes > tenant.plan.maxStorageBytes) {
+      throw this.storageLimitError(tenant.plan.maxStorageBytes);
+    }
+  }
+
+  /**
+   * Bytes the tenant may still store (Infinity when unlimited); throws when
+   * nothing is left
+   */
+  async availableStorage(tenantId: string | Types.ObjectId): Promise<number> {
+    const tenant = await this.tenantModel.findById(tenantId).select('plan storageBytes').lean();
+    if (!tenant?.plan?.maxStorageBytes) return Infinity;
+
+    const available = tenant.plan.maxStorageBytes - (tenant.storageBytes || 0);
+    if (available <= 0) {
+      throw this.storageLimitError(tenant.plan.maxStorageBytes);
+    }
+
+    return available;
+  }
+
+  async recordStorage(tenantId: string | Types.ObjectId, bytes: number): Promise<void> {
+    if (!tenantId || !bytes) return;
+    await this.tenantModel.updateOne({ _id: new Types.ObjectId(tenantId.toString()) }, { $inc: { storageBytes: bytes } });
+  }
+
+  private storageLimitError(maxStorageBytes: number): ForbiddenException {
+    return new ForbiddenException(`The tenant's plan allows ${Math.floor(maxStorageBytes / 1024 / 1024)} MB of storage`);
+  }
+
+  private async planOf(tenantId: string | Types.ObjectId) {
+    if (!tenantId) return null;
+    const tenant = await this.tenantModel.findById(tenantId).select('plan').lean();
+    return tenant?.plan;
+  }
+}
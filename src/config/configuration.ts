@@ -50,6 +50,21 @@ export const configuration = () => ({
       ttl: parseInt(process.env.AUTH_RATE_LIMIT_TTL, 10) || 900,
       limit: parseInt(process.env.AUTH_RATE_LIMIT_MAX, 10) || 5,
     },
+    store: process.env.RATE_LIMIT_STORE || 'mongo', // 'mongo' (shared across replicas) or 'memory' (per process)
+  },
+
+  // Per-tenant and per-API-key quotas; a limit of 0 disables that quota
+  quotas: {
+    messagesSend: {
+      windowSeconds: parseInt(process.env.QUOTA_MESSAGES_SEND_WINDOW_SECONDS, 10) || 60,
+      tenantLimit: parseInt(process.env.QUOTA_MESSAGES_SEND_TENANT_LIMIT ?? '600', 10),
+      apiKeyLimit: parseInt(process.env.QUOTA_MESSAGES_SEND_API_KEY_LIMIT ?? '120', 10),
+    },
+    exports: {
+      windowSeconds: parseInt(process.env.QUOTA_EXPORTS_WINDOW_SECONDS, 10) || 3600,
+      tenantLimit: parseInt(process.env.QUOTA_EXPORTS_TENANT_LIMIT ?? '20', 10),
+      apiKeyLimit: parseInt(process.env.QUOTA_EXPORTS_API_KEY_LIMIT ?? '5', 10),
+    },
   },
 
   // QR Code
@@ -65,9 +80,128 @@ export const configuration = () => ({
   whatsapp: {
     apiUrl: process.env.WHATSAPP_API_URL || 'https://graph.facebook.com/v18.0',
     accessToken: process.env.WHATSAPP_ACCESS_TOKEN || '',
-    phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID || '',
     businessId: process.env.WHATSAPP_BUSINESS_ID || '',
     webhookVerifyToken: process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN || '',
+    appSecret: process.env.WHATSAPP_APP_SECRET || '',
+    transport: process.env.WHATSAPP_TRANSPORT || 'web',
+    memory: {
+      autoReady: process.env.WHATSAPP_MEMORY_AUTO_READY === 'true',
+    },
+    queue: {
+      maxAttempts: parseInt(process.env.WHATSAPP_QUEUE_MAX_ATTEMPTS, 10) || 5,
+      retryBaseDelayMs: parseInt(process.env.WHATSAPP_QUEUE_RETRY_BASE_DELAY_MS, 10) || 5000,
+      retryMaxDelayMs: parseInt(process.env.WHATSAPP_QUEUE_RETRY_MAX_DELAY_MS, 10) || 900000, // 15 minutes
+      sessionRatePerMinute: parseInt(process.env.WHATSAPP_QUEUE_SESSION_RATE_PER_MINUTE, 10) || 30,
+      lockTimeoutMs: parseInt(process.env.WHATSAPP_QUEUE_LOCK_TIMEOUT_MS, 10) || 120000,
+    },
+  },
+
+  // Alert Notifications
+  alerts: {
+    notificationMaxAgeHours: parseInt(process.env.ALERT_NOTIFICATION_MAX_AGE_HOURS, 10) || 24,
+  },
+
+  // Outbound Webhooks
+  webhooks: {
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS, 10) || 8,
+    retryBaseDelayMs: parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS, 10) || 30000,
+    retryMaxDelayMs: parseInt(process.env.WEBHOOK_RETRY_MAX_DELAY_MS, 10) || 21600000, // 6 hours
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS, 10) || 10000,
+    allowPrivateTargets: process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === 'true', // Development only: http and internal hosts
+  },
+
+  // Data retention defaults, used where no retention policy applies (0 = keep forever)
+  retention: {
+    messagesDays: parseInt(process.env.RETENTION_MESSAGES_DAYS ?? '0', 10),
+    mediaDays: parseInt(process.env.RETENTION_MEDIA_DAYS ?? '0', 10),
+    healthChecksDays: parseInt(process.env.RETENTION_HEALTH_CHECKS_DAYS ?? '90', 10),
+    auditLogsDays: parseInt(process.env.RETENTION_AUDIT_LOGS_DAYS ?? '365', 10),
+    metricsDays: parseInt(process.env.RETENTION_METRICS_DAYS ?? '30', 10),
+    batchSize: parseInt(process.env.RETENTION_BATCH_SIZE, 10) || 500,
+  },
+
+  // eDiscovery exports
+  ediscovery: {
+    maxMessages: parseInt(process.env.EDISCOVERY_MAX_MESSAGES, 10) || 50000,
+    maxAttempts: parseInt(process.env.EDISCOVERY_MAX_ATTEMPTS, 10) || 3,
+    bundleTtlDays: parseInt(process.env.EDISCOVERY_BUNDLE_TTL_DAYS, 10) || 7,
+    downloadUrlTtlSeconds: parseInt(process.env.EDISCOVERY_DOWNLOAD_URL_TTL_SECONDS, 10) || 900,
+    lockTimeoutMs: parseInt(process.env.EDISCOVERY_LOCK_TIMEOUT_MS, 10) || 1800000, // 30 minutes
+    chromePath: process.env.CHROME_PATH, // Used to render PDF transcripts
+  },
+
+  // Thumbnails, metadata and text extraction for stored media
+  mediaProcessing: {
+    enabled: process.env.MEDIA_PROCESSING_ENABLED !== 'false',
+    batchSize: parseInt(process.env.MEDIA_PROCESSING_BATCH_SIZE, 10) || 20,
+    maxAttempts: parseInt(process.env.MEDIA_PROCESSING_MAX_ATTEMPTS, 10) || 3,
+    lockTimeoutMs: parseInt(process.env.MEDIA_PROCESSING_LOCK_TIMEOUT_MS, 10) || 600000, // 10 minutes
+    maxBytes: (parseInt(process.env.MEDIA_PROCESSING_MAX_MB, 10) || 50) * 1024 * 1024, // Larger files only get a checksum
+    thumbnailSize: parseInt(process.env.MEDIA_THUMBNAIL_SIZE, 10) || 320,
+    maxTextChars: parseInt(process.env.MEDIA_MAX_TEXT_CHARS, 10) || 1000000,
+    previewChars: parseInt(process.env.MEDIA_PREVIEW_CHARS, 10) || 280,
+    chromePath: process.env.CHROME_PATH, // Used to render thumbnails
+  },
+
+  // Two-factor authentication (enabled with features.twoFactorAuth)
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || 'UNICX',
+    challengeExpiresIn: process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN || '5m',
+    recoveryCodeCount: parseInt(process.env.TWO_FACTOR_RECOVERY_CODE_COUNT, 10) || 10,
+    maxChallengeAttempts: parseInt(process.env.TWO_FACTOR_MAX_CHALLENGE_ATTEMPTS, 10) || 3, // Wrong codes before a login challenge is burned
+    requiredForSystemAdmins: process.env.TWO_FACTOR_REQUIRED_FOR_SYSTEM_ADMINS !== 'false',
+  },
+
+  // Password policy for every locally set password
+  passwordPolicy: {
+    minLength: parseInt(process.env.PASSWORD_MIN_LENGTH, 10) || 12,
+    requireUppercase: process.env.PASSWORD_REQUIRE_UPPERCASE !== 'false',
+    requireLowercase: process.env.PASSWORD_REQUIRE_LOWERCASE !== 'false',
+    requireNumber: process.env.PASSWORD_REQUIRE_NUMBER !== 'false',
+    requireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL === 'true',
+    rejectBreached: process.env.PASSWORD_REJECT_BREACHED !== 'false', // Checked against a bundled list
+    historySize: parseInt(process.env.PASSWORD_HISTORY_SIZE ?? '5', 10), // Recent passwords, the current one included, that cannot be reused
+  },
+
+  // Failed login lockout and suspicious login detection
+  loginProtection: {
+    maxFailedAttempts: parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS, 10) || 5,
+    lockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES, 10) || 15, // Doubles with each consecutive lockout
+    maxLockoutMinutes: parseInt(process.env.LOGIN_MAX_LOCKOUT_MINUTES, 10) || 1440,
+    knownIpLimit: parseInt(process.env.LOGIN_KNOWN_IP_LIMIT, 10) || 10, // Recent addresses remembered per user
+  },
+
+  // Single sign-on (enabled with features.externalAuthProviders)
+  sso: {
+    callbackUrl: process.env.SSO_CALLBACK_URL || `${process.env.BASE_URL || 'http://localhost:3000'}/${process.env.API_PREFIX || 'api/v1'}/auth/sso/callback`,
+    frontendCallbackUrl: process.env.SSO_FRONTEND_CALLBACK_URL || `${process.env.FRONTEND_URL || 'http://localhost:3000'}/sso/callback`,
+    stateTtlSeconds: parseInt(process.env.SSO_STATE_TTL_SECONDS, 10) || 600,
+    httpTimeoutMs: parseInt(process.env.SSO_HTTP_TIMEOUT_MS, 10) || 10000,
+    allowInsecureIssuers: process.env.SSO_ALLOW_INSECURE_ISSUERS === 'true', // http:// issuers, for a local mock IdP
+  },
+
+  // Tenant provisioning defaults; plan limits of 0 are unlimited
+  tenants: {
+    defaultPlan: {
+      name: process.env.TENANT_DEFAULT_PLAN || 'standard',
+      maxUsers: parseInt(process.env.TENANT_DEFAULT_MAX_USERS ?? '50', 10),
+      maxSessions: parseInt(process.env.TENANT_DEFAULT_MAX_SESSIONS ?? '50', 10),
+      maxStorageBytes: parseInt(process.env.TENANT_DEFAULT_MAX_STORAGE_MB ?? '10240', 10) * 1024 * 1024,
+    },
+    defaultTwoFactorRequiredRoles: (process.env.TENANT_DEFAULT_2FA_ROLES ?? 'TenantAdmin').split(',').map((role) => role.trim()).filter(Boolean),
+  },
+
+  // SystemAdmin "view as" tokens
+  impersonation: {
+    defaultMinutes: parseInt(process.env.IMPERSONATION_DEFAULT_MINUTES, 10) || 15,
+    maxMinutes: parseInt(process.env.IMPERSONATION_MAX_MINUTES, 10) || 60,
+  },
+
+  // Tenant API keys for machine-to-machine access
+  apiKeys: {
+    defaultExpiresInDays: parseInt(process.env.API_KEY_DEFAULT_EXPIRES_IN_DAYS, 10) || 90,
+    maxExpiresInDays: parseInt(process.env.API_KEY_MAX_EXPIRES_IN_DAYS, 10) || 365,
+    cacheTtlSeconds: parseInt(process.env.API_KEY_CACHE_TTL_SECONDS ?? '30', 10), // Revocations reach other instances within this
   },
 
   // Security
@@ -81,7 +215,9 @@ export const configuration = () => ({
 
   // File Storage
   storage: {
-    provider: process.env.STORAGE_PROVIDER || 'azure',
+    provider: process.env.STORAGE_PROVIDER || 'azure', // azure | aws | local | memory
+    signingSecret: process.env.STORAGE_SIGNING_SECRET, // Signs local/memory download URLs; derived from JWT_SECRET when unset
+    maxUploadBytes: (parseInt(process.env.STORAGE_MAX_UPLOAD_MB, 10) || 100) * 1024 * 1024, // Per uploaded file; WhatsApp documents go up to 100 MB
     azure: {
       connectionString: process.env.AZURE_STORAGE_CONNECTION_STRING || '',
       container: process.env.AZURE_STORAGE_CONTAINER || 'unicx-files',
@@ -92,6 +228,9 @@ export const configuration = () => ({
       accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
       secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
     },
+    local: {
+      directory: process.env.STORAGE_LOCAL_DIR || './storage',
+    },
   },
 
   // Monitoring & Logging
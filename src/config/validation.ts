@@ -23,7 +23,10 @@ export const validationSchema = Joi.object({
   EMAIL_FROM: Joi.string().email().default('noreply@unicx.com'),
 
   // Storage
-  STORAGE_PROVIDER: Joi.string().valid('aws', 'azure').default('azure'),
+  STORAGE_PROVIDER: Joi.string().valid('aws', 'azure', 'local', 'memory').default('azure'),
+  STORAGE_SIGNING_SECRET: Joi.string().min(32).optional(),
+  STORAGE_LOCAL_DIR: Joi.string().default('./storage'),
+  STORAGE_MAX_UPLOAD_MB: Joi.number().min(1).default(100),
   AWS_S3_BUCKET: Joi.string().when('STORAGE_PROVIDER', { is: 'aws', then: Joi.required() }),
   AWS_S3_REGION: Joi.string().default('us-east-1'),
   AWS_ACCESS_KEY_ID: Joi.string().when('STORAGE_PROVIDER', { is: 'aws', then: Joi.required() }),
@@ -31,9 +34,109 @@ export const validationSchema = Joi.object({
   AZURE_STORAGE_CONNECTION_STRING: Joi.string().when('STORAGE_PROVIDER', { is: 'azure', then: Joi.required() }),
   AZURE_STORAGE_CONTAINER: Joi.string().default('unicx-files'),
 
+  // WhatsApp
+  WHATSAPP_TRANSPORT: Joi.string().valid('web', 'memory', 'cloud').default('web'),
+  WHATSAPP_QUEUE_MAX_ATTEMPTS: Joi.number().min(1).default(5),
+  WHATSAPP_QUEUE_RETRY_BASE_DELAY_MS: Joi.number().min(0).default(5000),
+  WHATSAPP_QUEUE_RETRY_MAX_DELAY_MS: Joi.number().min(0).default(900000),
+  WHATSAPP_QUEUE_SESSION_RATE_PER_MINUTE: Joi.number().min(1).default(30),
+  WHATSAPP_QUEUE_LOCK_TIMEOUT_MS: Joi.number().min(1000).default(120000),
+
+  // Alerts
+  ALERT_NOTIFICATION_MAX_AGE_HOURS: Joi.number().min(1).default(24),
+
+  // Outbound Webhooks
+  WEBHOOK_MAX_ATTEMPTS: Joi.number().min(1).default(8),
+  WEBHOOK_RETRY_BASE_DELAY_MS: Joi.number().min(0).default(30000),
+  WEBHOOK_RETRY_MAX_DELAY_MS: Joi.number().min(0).default(21600000),
+  WEBHOOK_TIMEOUT_MS: Joi.number().min(1000).default(10000),
+  WEBHOOK_ALLOW_PRIVATE_TARGETS: Joi.boolean().default(false),
+
+  // Data Retention
+  RETENTION_MESSAGES_DAYS: Joi.number().min(0).default(0),
+  RETENTION_MEDIA_DAYS: Joi.number().min(0).default(0),
+  RETENTION_HEALTH_CHECKS_DAYS: Joi.number().min(0).default(90),
+  RETENTION_AUDIT_LOGS_DAYS: Joi.number().min(0).default(365),
+  RETENTION_METRICS_DAYS: Joi.number().min(0).default(30),
+  RETENTION_BATCH_SIZE: Joi.number().min(1).default(500),
+
+  // eDiscovery Exports
+  EDISCOVERY_MAX_MESSAGES: Joi.number().min(1).default(50000),
+  EDISCOVERY_MAX_ATTEMPTS: Joi.number().min(1).default(3),
+  EDISCOVERY_BUNDLE_TTL_DAYS: Joi.number().min(1).default(7),
+  EDISCOVERY_DOWNLOAD_URL_TTL_SECONDS: Joi.number().min(60).default(900),
+  EDISCOVERY_LOCK_TIMEOUT_MS: Joi.number().min(60000).default(1800000),
+  CHROME_PATH: Joi.string().optional(),
+
+  // Media Processing
+  MEDIA_PROCESSING_ENABLED: Joi.boolean().default(true),
+  MEDIA_PROCESSING_BATCH_SIZE: Joi.number().min(1).default(20),
+  MEDIA_PROCESSING_MAX_ATTEMPTS: Joi.number().min(1).default(3),
+  MEDIA_PROCESSING_LOCK_TIMEOUT_MS: Joi.number().min(60000).default(600000),
+  MEDIA_PROCESSING_MAX_MB: Joi.number().min(1).default(50),
+  MEDIA_THUMBNAIL_SIZE: Joi.number().min(32).max(2048).default(320),
+  MEDIA_MAX_TEXT_CHARS: Joi.number().min(1000).default(1000000),
+  MEDIA_PREVIEW_CHARS: Joi.number().min(0).max(5000).default(280),
+
+  // Two-Factor Authentication
+  ENABLE_TWO_FACTOR_AUTH: Joi.boolean().default(false),
+  TWO_FACTOR_ISSUER: Joi.string().default('UNICX'),
+  TWO_FACTOR_CHALLENGE_EXPIRES_IN: Joi.string().default('5m'),
+  TWO_FACTOR_RECOVERY_CODE_COUNT: Joi.number().min(1).max(20).default(10),
+  TWO_FACTOR_MAX_CHALLENGE_ATTEMPTS: Joi.number().min(1).default(3),
+  TWO_FACTOR_REQUIRED_FOR_SYSTEM_ADMINS: Joi.boolean().default(true),
+
+  // Password Policy
+  PASSWORD_MIN_LENGTH: Joi.number().min(8).max(128).default(12),
+  PASSWORD_REQUIRE_UPPERCASE: Joi.boolean().default(true),
+  PASSWORD_REQUIRE_LOWERCASE: Joi.boolean().default(true),
+  PASSWORD_REQUIRE_NUMBER: Joi.boolean().default(true),
+  PASSWORD_REQUIRE_SYMBOL: Joi.boolean().default(false),
+  PASSWORD_REJECT_BREACHED: Joi.boolean().default(true),
+  PASSWORD_HISTORY_SIZE: Joi.number().min(0).max(24).default(5),
+
+  // Login Protection
+  LOGIN_MAX_FAILED_ATTEMPTS: Joi.number().min(1).default(5),
+  LOGIN_LOCKOUT_MINUTES: Joi.number().min(1).default(15),
+  LOGIN_MAX_LOCKOUT_MINUTES: Joi.number().min(1).default(1440),
+  LOGIN_KNOWN_IP_LIMIT: Joi.number().min(1).default(10),
+
+  // Single Sign-On
+  ENABLE_EXTERNAL_AUTH_PROVIDERS: Joi.boolean().default(false),
+  SSO_CALLBACK_URL: Joi.string().uri().optional(),
+  SSO_FRONTEND_CALLBACK_URL: Joi.string().uri().optional(),
+  SSO_STATE_TTL_SECONDS: Joi.number().min(60).default(600),
+  SSO_HTTP_TIMEOUT_MS: Joi.number().min(1000).default(10000),
+  SSO_ALLOW_INSECURE_ISSUERS: Joi.boolean().default(false),
+
+  // Tenants
+  TENANT_DEFAULT_PLAN: Joi.string().default('standard'),
+  TENANT_DEFAULT_MAX_USERS: Joi.number().min(0).default(50),
+  TENANT_DEFAULT_MAX_SESSIONS: Joi.number().min(0).default(50),
+  TENANT_DEFAULT_MAX_STORAGE_MB: Joi.number().min(0).default(10240),
+  TENANT_DEFAULT_2FA_ROLES: Joi.string().allow('').default('TenantAdmin'),
+
+  // Impersonation
+  IMPERSONATION_DEFAULT_MINUTES: Joi.number().min(1).default(15),
+  IMPERSONATION_MAX_MINUTES: Joi.number().min(1).default(60),
+
+  // API Keys
+  API_KEY_DEFAULT_EXPIRES_IN_DAYS: Joi.number().min(1).default(90),
+  API_KEY_MAX_EXPIRES_IN_DAYS: Joi.number().min(1).default(365),
+  API_KEY_CACHE_TTL_SECONDS: Joi.number().min(0).default(30),
+
   // Rate Limiting
   RATE_LIMIT_TTL: Joi.number().default(60),
   RATE_LIMIT_LIMIT: Joi.number().default(100),
+  RATE_LIMIT_STORE: Joi.string().valid('mongo', 'memory').default('mongo'),
+
+  // Quotas
+  QUOTA_MESSAGES_SEND_WINDOW_SECONDS: Joi.number().min(1).default(60),
+  QUOTA_MESSAGES_SEND_TENANT_LIMIT: Joi.number().min(0).default(600),
+  QUOTA_MESSAGES_SEND_API_KEY_LIMIT: Joi.number().min(0).default(120),
+  QUOTA_EXPORTS_WINDOW_SECONDS: Joi.number().min(1).default(3600),
+  QUOTA_EXPORTS_TENANT_LIMIT: Joi.number().min(0).default(20),
+  QUOTA_EXPORTS_API_KEY_LIMIT: Joi.number().min(0).default(5),
 
   // Security
   BCRYPT_ROUNDS: Joi.number().default(12),
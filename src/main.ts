@@ -7,12 +7,15 @@ const compression = require('compression');
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create(AppModule, { rawBody: true });
   const configService = app.get(ConfigService);
 
   // Security middleware
   app.use(helmet());
-  app.use(compression());
+  app.use(compression({
+    // Compression buffers output, which would hold back server-sent events
+    filter: (req, res) => req.headers.accept !== 'text/event-stream' && compression.filter(req, res),
+  }));
 
   // Global validation pipe
   app.useGlobalPipes(
@@ -29,7 +32,27 @@ async function bootstrap() {
     origin: '*',
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Tenant-ID'],
+    allowedHeaders: [
+      'Content-Type',
+      'Authorization',
+      'X-Tenant-ID',
+      'X-API-Key',
+      'Idempotency-Key',
+      'If-None-Match',
+      'Range',
+      'If-Range',
+    ],
+    exposedHeaders: [
+      'X-Impersonated-By',
+      'RateLimit-Limit',
+      'RateLimit-Remaining',
+      'RateLimit-Reset',
+      'RateLimit-Policy',
+      'Retry-After',
+      'ETag',
+      'Content-Range',
+      'Accept-Ranges',
+    ],
   });
 
   // Global prefix
@@ -41,6 +64,7 @@ async function bootstrap() {
     .setDescription('Backend API for UNICX Integration Platform')
     .setVersion('1.0')
     .addBearerAuth()
+    .addApiKey({ type: 'apiKey', name: 'X-API-Key', in: 'header' }, 'api-key')
     .addTag('Authentication', 'User authentication and authorization')
     .addTag('Entities', 'Entity management with hierarchical structure')
     .addTag('Users', 'User management and registration workflow')
@@ -0,0 +1,156 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ConfigService } from '@nestjs/config';
+import { Alert, AlertDocument, AlertStatus } from '../../common/schemas/alert.schema';
+import { User, UserRole } from '../../common/schemas/user.schema';
+import { WebhookEvent } from '../../common/schemas/webhook-subscription.schema';
+import { EmailService } from '../email/email.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { alertWebhookPayload } from '../webhooks/webhook-payloads';
+
+/**
+ * Fans new alerts out to the people and systems that need to know.
+ *
+ * Open alerts with notificationSent=false are picked up every 30 seconds,
+ * claimed atomically, emailed to the TenantAdmins above the alert's entity
+ * (and the affected user) who have email notifications enabled, and
+ * published to the tenant's webhook subscriptions.
+ */
+@Injectable()
+export class AlertNotificationService {
+  private readonly logger = new Logger(AlertNotificationService.name);
+  private readonly BATCH_SIZE = 50;
+  private processing = false;
+
+  constructor(
+    @InjectModel(Alert.name)
+    private alertModel: Model<AlertDocument>,
+    @InjectModel(User.name)
+    private userModel: Model<User>,
+    private configService: ConfigService,
+    private emailService: EmailService,
+    private webhooksService: WebhooksService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_30_SECONDS)
+  async dispatchPendingNotifications() {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      // Alerts older than the cut-off are marked without notifying so a backlog never floods inboxes
+      const maxAgeHours = this.configService.get<number>('alerts.notificationMaxAgeHours');
+      const cutoff = new Date(Date.now() - maxAgeHours * 60 * 60 * 1000);
+      await this.alertModel.updateMany(
+        { notificationSent: false, createdAt: { $lt: cutoff } },
+        { notificationSent: true },
+      );
+
+      const pending = await this.alertModel
+        .find({ notificationSent: false, status: AlertStatus.OPEN, isActive: true })
+        .sort({ createdAt: 1 })
+        .limit(this.BATCH_SIZE)
+        .select('_id');
+
+      for (const { _id } of pending) {
+        // Claim first so concurrent instances never notify twice
+        const alert = await this.alertModel.findOneAndUpdate(
+          { _id, notificationSent: false },
+          { notificationSent: true },
+          { new: true },
+        );
+        if (!alert) continue;
+
+        try {
+          await this.notify(alert);
+        } catch (error) {
+          this.logger.error(`Failed to dispatch notifications for alert ${alert._id}: ${error.message}`, error);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Failed to dispatch alert notifications: ${error.message}`, error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Let webhook consumers know an alert changed state
+   */
+  async notifyStatusChange(alert: Alert): Promise<void> {
+    const events: Partial<Record<AlertStatus, WebhookEvent>> = {
+      [AlertStatus.ACKNOWLEDGED]: WebhookEvent.ALERT_ACKNOWLEDGED,
+      [AlertStatus.RESOLVED]: WebhookEvent.ALERT_RESOLVED,
+      [AlertStatus.DISMISSED]: WebhookEvent.ALERT_DISMISSED,
+    };
+    const event = events[alert.status];
+    if (!event) return;
+
+    await this.webhooksService.emit(event, alert.tenantId, alertWebhookPayload(alert));
+  }
+
+  private async notify(alert: AlertDocument): Promise<void> {
+    const notifiedUsers = await this.sendEmails(alert);
+
+    if (notifiedUsers.length > 0) {
+      await this.alertModel.updateOne(
+        { _id: alert._id },
+        { $addToSet: { notifiedUsers: { $each: notifiedUsers } } },
+      );
+    }
+
+    await this.webhooksService.emit(WebhookEvent.ALERT_CREATED, alert.tenantId, alertWebhookPayload(alert));
+  }
+
+  private async sendEmails(alert: Alert): Promise<string[]> {
+    const recipients = await this.findRecipients(alert);
+    const notified: string[] = [];
+    const frontendUrl = process.env.FRONTEND_URL || 'https://localhost:3000';
+
+    for (const user of recipients) {
+      try {
+        await this.emailService.sendAlertNotificationEmail(user.email, {
+          firstName: user.firstName,
+          lastName: user.lastName,
+          title: alert.title,
+          description: alert.description,
+          type: alert.type,
+          severity: alert.severity,
+          phoneNumber: alert.phoneNumber,
+          occurrenceCount: alert.occurrenceCount,
+          firstOccurredAt: (alert.firstOccurredAt || alert.createdAt)?.toUTCString(),
+          alertUrl: `${frontendUrl}/alerts/${alert._id}`,
+        });
+        notified.push(user.email);
+      } catch (error) {
+        this.logger.warn(`Could not email alert ${alert._id} to ${user.email}: ${error.message}`);
+      }
+    }
+
+    return notified;
+  }
+
+  /**
+   * TenantAdmins at or above the alert's entity, plus the affected user,
+   * who have not opted out of email notifications
+   */
+  private async findRecipients(alert: Alert): Promise<User[]> {
+    const entityIds = [...(alert.entityIdPath || []), alert.entityId].filter(Boolean);
+    const audience: any[] = [{ role: UserRole.TENANT_ADMIN, entityId: { $in: entityIds } }];
+    if (alert.userId) {
+      audience.push({ _id: alert.userId });
+    }
+
+    return this.userModel
+      .find({
+        tenantId: alert.tenantId,
+        isActive: true,
+        'preferences.emailNotifications': { $ne: false },
+        $or: audience,
+      })
+      .select('email firstName lastName')
+      .lean();
+  }
+}
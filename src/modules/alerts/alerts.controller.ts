@@ -0,0 +1,118 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  Query,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { AlertsService } from './alerts.service';
+import { AlertActionDto } from './dto/alert-action.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions, RequireTenant, EntityScopeFor } from '../auth/decorators';
+import { EntityScope } from '../auth/entity-scope';
+import { Permission } from '../../common/constants/permissions';
+import { AlertSeverity, AlertType } from '../../common/schemas/alert.schema';
+import { Audit } from '../../common/decorators/audit.decorator';
+import { AuditAction, AuditResource } from '../../common/schemas/audit-log.schema';
+
+@ApiTags('Alerts')
+@Controller('alerts')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions(Permission.ALERTS_READ)
+@ApiBearerAuth()
+export class AlertsController {
+  constructor(private readonly alertsService: AlertsService) {}
+
+  @Get()
+  @RequireTenant()
+  @ApiOperation({ summary: 'Get alerts within the caller\'s entity subtree' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
+  @ApiQuery({ name: 'type', required: false, enum: AlertType })
+  @ApiQuery({ name: 'severity', required: false, enum: AlertSeverity })
+  @ApiQuery({ name: 'status', required: false, description: 'Comma-separated statuses (open,acknowledged,resolved,dismissed)' })
+  @ApiQuery({ name: 'entityId', required: false, description: 'Limit to a sub-entity and its descendants' })
+  @ApiQuery({ name: 'sessionId', required: false, description: 'Filter by WhatsApp session' })
+  @ApiQuery({ name: 'phoneNumber', required: false, description: 'Filter by WhatsApp number' })
+  @ApiQuery({ name: 'tag', required: false, description: 'Filter by tag' })
+  @ApiQuery({ name: 'search', required: false, description: 'Search by title' })
+  @ApiQuery({ name: 'startDate', required: false, description: 'Last occurred on or after' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'Last occurred on or before' })
+  @ApiResponse({ status: 200, description: 'Alerts retrieved successfully' })
+  async findAll(@Query() query: any, @EntityScopeFor(Permission.ALERTS_READ) scope: EntityScope) {
+    return this.alertsService.findAll(scope, query);
+  }
+
+  @Get('summary')
+  @RequireTenant()
+  @ApiOperation({ summary: 'Get open and acknowledged alert counts by severity' })
+  @ApiResponse({ status: 200, description: 'Summary retrieved successfully' })
+  async getSummary(@EntityScopeFor(Permission.ALERTS_READ) scope: EntityScope) {
+    return this.alertsService.getSummary(scope);
+  }
+
+  @Get(':id')
+  @RequireTenant()
+  @ApiOperation({ summary: 'Get alert by ID' })
+  @ApiResponse({ status: 200, description: 'Alert retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Alert not found' })
+  async findOne(@Param('id') id: string, @EntityScopeFor(Permission.ALERTS_READ) scope: EntityScope) {
+    return this.alertsService.findOne(id, scope);
+  }
+
+  @Post(':id/acknowledge')
+  @RequirePermissions(Permission.ALERTS_MANAGE)
+  @RequireTenant()
+  @Audit({ action: AuditAction.UPDATE, resource: AuditResource.ALERT })
+  @ApiOperation({ summary: 'Acknowledge an open alert' })
+  @ApiResponse({ status: 200, description: 'Alert acknowledged successfully' })
+  @ApiResponse({ status: 400, description: 'Alert is not open' })
+  @ApiResponse({ status: 404, description: 'Alert not found' })
+  async acknowledge(
+    @Param('id') id: string,
+    @Body() actionDto: AlertActionDto,
+    @EntityScopeFor(Permission.ALERTS_MANAGE) scope: EntityScope,
+    @Request() req,
+  ) {
+    return this.alertsService.acknowledge(id, actionDto, req.user.email, scope);
+  }
+
+  @Post(':id/resolve')
+  @RequirePermissions(Permission.ALERTS_MANAGE)
+  @RequireTenant()
+  @Audit({ action: AuditAction.UPDATE, resource: AuditResource.ALERT })
+  @ApiOperation({ summary: 'Resolve an open or acknowledged alert' })
+  @ApiResponse({ status: 200, description: 'Alert resolved successfully' })
+  @ApiResponse({ status: 400, description: 'Alert is already closed' })
+  @ApiResponse({ status: 404, description: 'Alert not found' })
+  async resolve(
+    @Param('id') id: string,
+    @Body() actionDto: AlertActionDto,
+    @EntityScopeFor(Permission.ALERTS_MANAGE) scope: EntityScope,
+    @Request() req,
+  ) {
+    return this.alertsService.resolve(id, actionDto, req.user.email, scope);
+  }
+
+  @Post(':id/dismiss')
+  @RequirePermissions(Permission.ALERTS_MANAGE)
+  @RequireTenant()
+  @Audit({ action: AuditAction.UPDATE, resource: AuditResource.ALERT })
+  @ApiOperation({ summary: 'Dismiss an open or acknowledged alert as not actionable' })
+  @ApiResponse({ status: 200, description: 'Alert dismissed successfully' })
+  @ApiResponse({ status: 400, description: 'Alert is already closed' })
+  @ApiResponse({ status: 404, description: 'Alert not found' })
+  async dismiss(
+    @Param('id') id: string,
+    @Body() actionDto: AlertActionDto,
+    @EntityScopeFor(Permission.ALERTS_MANAGE) scope: EntityScope,
+    @Request() req,
+  ) {
+    return this.alertsService.dismiss(id, actionDto, req.user.email, scope);
+  }
+}
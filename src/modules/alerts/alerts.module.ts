@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { DatabaseModule } from '../../common/database/database.module';
+import { EmailModule } from '../email/email.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { AlertsService } from './alerts.service';
+import { AlertsController } from './alerts.controller';
+import { AlertNotificationService } from './alert-notification.service';
+import { Alert, AlertSchema } from '../../common/schemas/alert.schema';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    EmailModule,
+    WebhooksModule,
+    MongooseModule.forFeature([
+      { name: Alert.name, schema: AlertSchema },
+    ]),
+  ],
+  controllers: [AlertsController],
+  providers: [AlertsService, AlertNotificationService],
+  exports: [AlertsService],
+})
+export class AlertsModule {}
@@ -0,0 +1,169 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Alert, AlertDocument, AlertStatus } from '../../common/schemas/alert.schema';
+import { EntityScope, entityScopeFilter } from '../auth/entity-scope';
+import { AlertNotificationService } from './alert-notification.service';
+import { AlertActionDto } from './dto/alert-action.dto';
+
+@Injectable()
+export class AlertsService {
+  private readonly logger = new Logger(AlertsService.name);
+
+  constructor(
+    @InjectModel(Alert.name)
+    private alertModel: Model<AlertDocument>,
+    private alertNotificationService: AlertNotificationService,
+  ) {}
+
+  async findAll(scope: EntityScope, query: any = {}) {
+    const {
+      page = 1,
+      limit = 20,
+      type,
+      severity,
+      status,
+      entityId,
+      sessionId,
+      phoneNumber,
+      tag,
+      search,
+      startDate,
+      endDate,
+    } = query;
+    // entityId narrows to a sub-entity without escaping the caller's own subtree
+    const filter: any = { isActive: true, ...entityScopeFilter(scope, entityId) };
+
+    if (type) filter.type = type;
+    if (severity) filter.severity = severity;
+    if (status) filter.status = { $in: String(status).split(',') };
+    if (sessionId) filter.sessionId = new Types.ObjectId(sessionId);
+    if (phoneNumber) filter.phoneNumber = phoneNumber;
+    if (tag) filter.tags = tag;
+    if (search) filter.title = { $regex: search, $options: 'i' };
+    if (startDate || endDate) {
+      filter.lastOccurredAt = {};
+      if (startDate) filter.lastOccurredAt.$gte = new Date(startDate);
+      if (endDate) filter.lastOccurredAt.$lte = new Date(endDate);
+    }
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const [alerts, total] = await Promise.all([
+      this.alertModel.find(filter).sort({ lastOccurredAt: -1, createdAt: -1 }).skip(skip).limit(Number(limit)).exec(),
+      this.alertModel.countDocuments(filter),
+    ]);
+
+    return {
+      alerts,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit)),
+      },
+    };
+  }
+
+  /**
+   * Counts of open and acknowledged alerts by severity for the caller's subtree
+   */
+  async getSummary(scope: EntityScope) {
+    const results = await this.alertModel.aggregate([
+      {
+        $match: {
+          isActive: true,
+          status: { $in: [AlertStatus.OPEN, AlertStatus.ACKNOWLEDGED] },
+          ...entityScopeFilter(scope),
+        },
+      },
+      { $group: { _id: { status: '$status', severity: '$severity' }, count: { $sum: 1 } } },
+    ]);
+
+    const summary: Record<string, Record<string, number>> = {
+      [AlertStatus.OPEN]: {},
+      [AlertStatus.ACKNOWLEDGED]: {},
+    };
+    for (const { _id, count } of results) {
+      summary[_id.status][_id.severity] = count;
+    }
+
+    return summary;
+  }
+
+  async findOne(id: string, scope: EntityScope): Promise<Alert> {
+    const alert = await this.alertModel.findOne({
+      _id: new Types.ObjectId(id),
+      isActive: true,
+      ...entityScopeFilter(scope),
+    });
+
+    if (!alert) {
+      throw new NotFoundException('Alert not found');
+    }
+
+    return alert;
+  }
+
+  async acknowledge(id: string, dto: AlertActionDto, actor: string, scope: EntityScope): Promise<Alert> {
+    return this.transition(id, [AlertStatus.OPEN], scope, {
+      status: AlertStatus.ACKNOWLEDGED,
+      acknowledgedAt: new Date(),
+      acknowledgedBy: actor,
+      ...(dto.notes && { resolutionNotes: dto.notes }),
+      updatedBy: actor,
+    });
+  }
+
+  async resolve(id: string, dto: AlertActionDto, actor: string, scope: EntityScope): Promise<Alert> {
+    return this.transition(id, [AlertStatus.OPEN, AlertStatus.ACKNOWLEDGED], scope, {
+      status: AlertStatus.RESOLVED,
+      resolvedAt: new Date(),
+      resolvedBy: actor,
+      ...(dto.notes && { resolutionNotes: dto.notes }),
+      updatedBy: actor,
+    });
+  }
+
+  async dismiss(id: string, dto: AlertActionDto, actor: string, scope: EntityScope): Promise<Alert> {
+    return this.transition(id, [AlertStatus.OPEN, AlertStatus.ACKNOWLEDGED], scope, {
+      status: AlertStatus.DISMISSED,
+      dismissedAt: new Date(),
+      dismissedBy: actor,
+      ...(dto.notes && { resolutionNotes: dto.notes }),
+      updatedBy: actor,
+    });
+  }
+
+  /**
+   * Apply a status change only if the alert is still in one of the allowed
+   * states, so two people acting at once cannot overwrite each other
+   */
+  private async transition(
+    id: string,
+    from: AlertStatus[],
+    scope: EntityScope,
+    update: Partial<Alert>,
+  ): Promise<Alert> {
+    const alert = await this.findOne(id, scope);
+
+    const updated = await this.alertModel.findOneAndUpdate(
+      { _id: alert._id, status: { $in: from } },
+      update,
+      { new: true },
+    );
+
+    if (!updated) {
+      throw new BadRequestException(`Alert cannot be moved from ${alert.status} to ${update.status}`);
+    }
+
+    this.logger.log(`Alert ${updated._id} ${updated.status} by ${update.updatedBy}`);
+
+    try {
+      await this.alertNotificationService.notifyStatusChange(updated);
+    } catch (error) {
+      this.logger.error(`Failed to notify status change for alert ${updated._id}: ${error.message}`, error);
+    }
+
+    return updated;
+  }
+}
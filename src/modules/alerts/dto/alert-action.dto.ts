@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class AlertActionDto {
+  @ApiProperty({ example: 'Session re-linked by the account owner', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+}
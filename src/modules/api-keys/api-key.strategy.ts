@@ -0,0 +1,47 @@
+import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport';
+import { Request } from 'express';
+import { ApiKeysService, API_KEY_PREFIX } from './api-keys.service';
+import { JwtPayload } from '../auth/auth.service';
+
+type VerifyCallback = (key: string, req: Request, done: (error: any, user?: any) => void) => void;
+
+/**
+ * Reads a tenant API key from the X-API-Key header or from an
+ * `Authorization: Bearer unicx_...` header
+ */
+class HeaderApiKeyStrategy extends Strategy {
+  name = 'api-key';
+
+  constructor(private verify: VerifyCallback) {
+    super();
+  }
+
+  authenticate(req: Request): void {
+    const header = req.get('X-API-Key');
+    const bearer = /^Bearer\s+(\S+)$/i.exec(req.get('Authorization') || '')?.[1];
+    const key = header || (bearer?.startsWith(API_KEY_PREFIX) ? bearer : undefined);
+
+    if (!key) {
+      return this.fail(401);
+    }
+
+    this.verify(key, req, (error, user) => {
+      if (error) return this.error(error);
+      if (!user) return this.fail({ message: 'Invalid API key' }, 401);
+      this.success(user);
+    });
+  }
+}
+
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(HeaderApiKeyStrategy, 'api-key') {
+  constructor(private apiKeysService: ApiKeysService) {
+    super();
+  }
+
+  async validate(key: string, req: Request): Promise<JwtPayload | null> {
+    return this.apiKeysService.authenticate(key, req.ip || req.socket?.remoteAddress);
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { UpdateApiKeyDto } from './dto/update-api-key.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions, DenyDuringImpersonation } from '../auth/decorators';
+import { Permission } from '../../common/constants/permissions';
+import { Audit } from '../../common/decorators/audit.decorator';
+import { AuditAction, AuditResource } from '../../common/schemas/audit-log.schema';
+
+@ApiTags('API Keys')
+@Controller('api-keys')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions(Permission.API_KEYS_MANAGE)
+@DenyDuringImpersonation()
+@ApiBearerAuth()
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Post()
+  @Audit({ action: AuditAction.CREATE, resource: AuditResource.API_KEY })
+  @ApiOperation({ summary: 'Create a tenant API key; the key is only returned in this response' })
+  @ApiResponse({ status: 201, description: 'API key created successfully' })
+  @ApiResponse({ status: 403, description: 'Permissions you do not hold over the scope' })
+  async create(@Body() dto: CreateApiKeyDto, @Request() req) {
+    return this.apiKeysService.create(dto, req.user);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get API keys within your entity hierarchy' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
+  @ApiQuery({ name: 'search', required: false, description: 'Filter by name' })
+  @ApiQuery({ name: 'includeRevoked', required: false, description: 'Include revoked keys (true/false)' })
+  @ApiQuery({ name: 'tenantId', required: false, description: 'Filter by tenant (SystemAdmin only)' })
+  @ApiResponse({ status: 200, description: 'API keys retrieved successfully' })
+  async findAll(@Query() query: any, @Request() req) {
+    return this.apiKeysService.findAll(req.user, query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get API key by ID' })
+  @ApiResponse({ status: 200, description: 'API key retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async findOne(@Param('id') id: string, @Request() req) {
+    return this.apiKeysService.findOne(id, req.user);
+  }
+
+  @Get(':id/usage')
+  @ApiOperation({ summary: 'Daily request counts of an API key' })
+  @ApiQuery({ name: 'days', required: false, description: 'Number of days to include (default 30, max 365)' })
+  @ApiResponse({ status: 200, description: 'Usage retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async getUsage(@Param('id') id: string, @Query('days') days: string, @Request() req) {
+    return this.apiKeysService.getUsage(id, req.user, days ? Number(days) : undefined);
+  }
+
+  @Patch(':id')
+  @Audit({ action: AuditAction.UPDATE, resource: AuditResource.API_KEY })
+  @ApiOperation({ summary: 'Update an API key\'s name, permissions or IP allowlist' })
+  @ApiResponse({ status: 200, description: 'API key updated successfully' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async update(@Param('id') id: string, @Body() dto: UpdateApiKeyDto, @Request() req) {
+    return this.apiKeysService.update(id, dto, req.user);
+  }
+
+  @Delete(':id')
+  @Audit({ action: AuditAction.DELETE, resource: AuditResource.API_KEY, resourceName: 'api_key_revoked' })
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiResponse({ status: 200, description: 'API key revoked successfully' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async revoke(@Param('id') id: string, @Request() req) {
+    await this.apiKeysService.revoke(id, req.user);
+    return {
+      success: true,
+      message: 'API key revoked successfully',
+    };
+  }
+}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { PassportModule } from '@nestjs/passport';
+import { DatabaseModule } from '../../common/database/database.module';
+import { SecurityModule } from '../../common/security/security.module';
+import { AuthModule } from '../auth/auth.module';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKeyStrategy } from './api-key.strategy';
+import { ApiKey, ApiKeySchema } from '../../common/schemas/api-key.schema';
+import { ApiKeyUsage, ApiKeyUsageSchema } from '../../common/schemas/api-key-usage.schema';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    SecurityModule,
+    AuthModule,
+    PassportModule,
+    MongooseModule.forFeature([
+      { name: ApiKey.name, schema: ApiKeySchema },
+      { name: ApiKeyUsage.name, schema: ApiKeyUsageSchema },
+    ]),
+  ],
+  controllers: [ApiKeysController],
+  providers: [ApiKeysService, ApiKeyStrategy],
+  exports: [ApiKeysService],
+})
+export class ApiKeysModule {}
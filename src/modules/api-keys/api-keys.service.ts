@@ -0,0 +1,387 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { ApiKey, ApiKeyDocument } from '../../common/schemas/api-key.schema';
+import { ApiKeyUsage, ApiKeyUsageDocument } from '../../common/schemas/api-key-usage.schema';
+import { Entity } from '../../common/schemas/entity.schema';
+import { UserRole } from '../../common/schemas/user.schema';
+import { Permission, PermissionScopes, ASSIGNABLE_PERMISSIONS } from '../../common/constants/permissions';
+import { EncryptionService } from '../../common/security/encryption.service';
+import { RateLimitService } from '../../common/security/rate-limit.service';
+import { PermissionsService } from '../auth/permissions.service';
+import { AuthService, JwtPayload } from '../auth/auth.service';
+import { entityScopeFilter, resolveEntityScope } from '../auth/entity-scope';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { UpdateApiKeyDto } from './dto/update-api-key.dto';
+import * as crypto from 'crypto';
+import * as net from 'net';
+
+export const API_KEY_PREFIX = 'unicx_';
+
+/**
+ * Tenant API keys. A key looks like `unicx_<id>_<secret>`; the part before
+ * the secret is stored in clear to find the key, the whole key only as a hash.
+ */
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+  // Verified keys by SHA-256 of the presented key, so the slow hash runs once per key and TTL
+  private readonly cache = new Map<string, { apiKey: ApiKey; expiresAt: number }>();
+
+  constructor(
+    @InjectModel(ApiKey.name)
+    private apiKeyModel: Model<ApiKeyDocument>,
+    @InjectModel(ApiKeyUsage.name)
+    private usageModel: Model<ApiKeyUsageDocument>,
+    @InjectModel(Entity.name)
+    private entityModel: Model<Entity>,
+    private encryptionService: EncryptionService,
+    private permissionsService: PermissionsService,
+    private authService: AuthService,
+    private rateLimitService: RateLimitService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Create a key over an entity subtree. Like role assignments, the actor
+   * has to hold every permission of the key there. The key itself is only
+   * returned here.
+   */
+  async create(dto: CreateApiKeyDto, actor: JwtPayload): Promise<{ apiKey: ApiKey; key: string }> {
+    const tenantId = this.resolveTenant(dto.tenantId, actor);
+    const scopeEntityId = dto.scopeEntityId || (actor.role === UserRole.SYSTEM_ADMIN ? tenantId : actor.entityId);
+    const scope = await this.findScopeEntity(scopeEntityId, tenantId, actor);
+    const permissions = this.assertGrantable(dto.permissions, scope.entityIdPath, actor);
+
+    const secret = crypto.randomBytes(24).toString('base64url');
+    const prefix = `${API_KEY_PREFIX}${crypto.randomBytes(6).toString('hex')}`;
+    const key = `${prefix}_${secret}`;
+
+    const apiKey = await this.apiKeyModel.create({
+      name: dto.name,
+      description: dto.description,
+      prefix,
+      keyHash: this.encryptionService.hash(key),
+      permissions,
+      ipAllowlist: this.normalizeAllowlist(dto.ipAllowlist),
+      expiresAt: this.expiryDate(dto.expiresInDays),
+      quotas: dto.quotas,
+      scopeEntityId: scope._id,
+      entityIdPath: scope.entityIdPath,
+      tenantId: new Types.ObjectId(tenantId),
+      createdBy: actor.sub,
+    });
+
+    this.logger.log(`API key ${prefix} created for tenant ${tenantId} by ${actor.sub}`);
+    return { apiKey: await this.findOne(apiKey._id.toString(), actor), key };
+  }
+
+  async findAll(actor: JwtPayload, query: any = {}) {
+    const { page = 1, limit = 20, search, includeRevoked } = query;
+    const filter: any = { ...this.visibleTo(actor) };
+
+    if (includeRevoked !== 'true') {
+      filter.isActive = true;
+      filter.revokedAt = null;
+    }
+    if (query.tenantId && actor.role === UserRole.SYSTEM_ADMIN) {
+      filter.tenantId = new Types.ObjectId(query.tenantId);
+    }
+    if (search) filter.name = { $regex: search, $options: 'i' };
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const [apiKeys, total] = await Promise.all([
+      this.apiKeyModel
+        .find(filter)
+        .populate('scopeEntityId', 'name path')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .exec(),
+      this.apiKeyModel.countDocuments(filter),
+    ]);
+
+    return {
+      apiKeys,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit)),
+      },
+    };
+  }
+
+  async findOne(id: string, actor: JwtPayload): Promise<ApiKeyDocument> {
+    const apiKey = await this.apiKeyModel
+      .findOne({ _id: new Types.ObjectId(id), ...this.visibleTo(actor) })
+      .populate('scopeEntityId', 'name path');
+
+    if (!apiKey) {
+      throw new NotFoundException('API key not found');
+    }
+
+    return apiKey;
+  }
+
+  async update(id: string, dto: UpdateApiKeyDto, actor: JwtPayload): Promise<ApiKey> {
+    const apiKey = await this.findOne(id, actor);
+    if (apiKey.revokedAt) {
+      throw new BadRequestException('API key has been revoked');
+    }
+
+    const update: any = { updatedBy: actor.sub };
+    if (dto.name !== undefined) update.name = dto.name;
+    if (dto.description !== undefined) update.description = dto.description;
+    if (dto.ipAllowlist) update.ipAllowlist = this.normalizeAllowlist(dto.ipAllowlist);
+    if (dto.permissions) update.permissions = this.assertGrantable(dto.permissions, apiKey.entityIdPath, actor);
+    if (dto.quotas) update.quotas = dto.quotas;
+
+    await this.apiKeyModel.updateOne({ _id: apiKey._id }, update);
+    this.invalidate(apiKey._id.toString());
+    this.rateLimitService.invalidate('apiKey', apiKey._id.toString());
+    return this.findOne(id, actor);
+  }
+
+  async revoke(id: string, actor: JwtPayload): Promise<void> {
+    const apiKey = await this.findOne(id, actor);
+
+    await this.apiKeyModel.updateOne(
+      { _id: apiKey._id, revokedAt: null },
+      { revokedAt: new Date(), revokedBy: actor.sub, isActive: false, updatedBy: actor.sub },
+    );
+    this.invalidate(apiKey._id.toString());
+    this.logger.log(`API key ${apiKey.prefix} revoked by ${actor.sub}`);
+  }
+
+  /**
+   * Daily request counts of a key over the last `days` days
+   */
+  async getUsage(id: string, actor: JwtPayload, days = 30) {
+    const apiKey = await this.findOne(id, actor);
+    const since = this.startOfDay(new Date(Date.now() - (Math.min(Math.max(days, 1), 365) - 1) * 86400000));
+
+    const buckets = await this.usageModel
+      .find({ apiKeyId: apiKey._id, day: { $gte: since } })
+      .sort({ day: 1 })
+      .lean();
+
+    return {
+      apiKeyId: apiKey._id,
+      prefix: apiKey.prefix,
+      usageCount: apiKey.usageCount,
+      lastUsedAt: apiKey.lastUsedAt,
+      lastUsedIp: apiKey.lastUsedIp,
+      since,
+      requests: buckets.reduce((sum, bucket) => sum + bucket.requestCount, 0),
+      daily: buckets.map((bucket) => ({
+        day: bucket.day,
+        requestCount: bucket.requestCount,
+        ipAddresses: Object.fromEntries(
+          Object.entries(bucket.ipAddresses || {}).map(([ip, count]) => [ip.replace(/_/g, '.'), count]),
+        ),
+      })),
+    };
+  }
+
+  /**
+   * Check a presented key and build the request principal for it. Returns
+   * null for unknown, revoked or expired keys and disallowed addresses.
+   */
+  async authenticate(key: string, ipAddress?: string): Promise<JwtPayload | null> {
+    const apiKey = await this.verify(key);
+    if (!apiKey) return null;
+
+    await this.authService.assertTenantActive(apiKey.tenantId);
+
+    if (apiKey.ipAllowlist?.length && !this.isAllowedIp(ipAddress, apiKey.ipAllowlist)) {
+      this.logger.warn(`API key ${apiKey.prefix} used from disallowed address ${ipAddress}`);
+      return null;
+    }
+
+    this.recordUsage(apiKey, ipAddress).catch((error) =>
+      this.logger.warn(`Failed to record usage of API key ${apiKey.prefix}: ${error.message}`),
+    );
+
+    const scopeEntityId = apiKey.scopeEntityId.toString();
+    const permissions: PermissionScopes = {};
+    for (const permission of apiKey.permissions) {
+      permissions[permission] = [scopeEntityId];
+    }
+
+    return {
+      // Actions are attributed to the key; its creator is the accountable user
+      sub: apiKey.createdBy,
+      email: `${apiKey.prefix}@api-key`,
+      role: UserRole.USER,
+      tenantId: apiKey.tenantId.toString(),
+      entityId: scopeEntityId,
+      apiKeyId: apiKey._id.toString(),
+      apiKeyName: apiKey.name,
+      permissions,
+    };
+  }
+
+  private async verify(key: string): Promise<ApiKey | null> {
+    const match = /^(unicx_[0-9a-f]{12})_[A-Za-z0-9_-]+$/.exec(key || '');
+    if (!match) return null;
+
+    const cacheKey = crypto.createHash('sha256').update(key).digest('hex');
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return this.isUsable(cached.apiKey) ? cached.apiKey : null;
+    }
+    this.cache.delete(cacheKey);
+
+    const apiKey = await this.apiKeyModel
+      .findOne({ prefix: match[1], isActive: true, revokedAt: null })
+      .select('+keyHash')
+      .lean();
+    if (!apiKey || !this.encryptionService.verifyHash(key, apiKey.keyHash)) {
+      return null;
+    }
+
+    const ttlMs = this.configService.get<number>('apiKeys.cacheTtlSeconds') * 1000;
+    if (ttlMs > 0) {
+      this.cache.set(cacheKey, { apiKey, expiresAt: Date.now() + ttlMs });
+    }
+
+    return this.isUsable(apiKey) ? apiKey : null;
+  }
+
+  private isUsable(apiKey: ApiKey): boolean {
+    return apiKey.isActive && !apiKey.revokedAt && apiKey.expiresAt.getTime() > Date.now();
+  }
+
+  private async recordUsage(apiKey: ApiKey, ipAddress?: string): Promise<void> {
+    const now = new Date();
+    const inc: Record<string, number> = { requestCount: 1 };
+    if (ipAddress) inc[`ipAddresses.${ipAddress.replace(/\./g, '_')}`] = 1;
+
+    await Promise.all([
+      this.apiKeyModel.updateOne(
+        { _id: apiKey._id },
+        { lastUsedAt: now, lastUsedIp: ipAddress, $inc: { usageCount: 1 } },
+      ),
+      this.usageModel.updateOne(
+        { apiKeyId: apiKey._id, day: this.startOfDay(now) },
+        { $inc: inc, $setOnInsert: { tenantId: apiKey.tenantId } },
+        { upsert: true },
+      ),
+    ]);
+  }
+
+  private isAllowedIp(ipAddress: string | undefined, allowlist: string[]): boolean {
+    if (!ipAddress) return false;
+
+    // Express reports IPv4 clients of dual-stack servers as ::ffff:a.b.c.d
+    const address = ipAddress.startsWith('::ffff:') && net.isIPv4(ipAddress.slice(7)) ? ipAddress.slice(7) : ipAddress;
+    const family = net.isIPv6(address) ? 'ipv6' : 'ipv4';
+    const blockList = new net.BlockList();
+
+    for (const entry of allowlist) {
+      const [network, prefixLength] = entry.split('/');
+      const entryFamily = net.isIPv6(network) ? 'ipv6' : 'ipv4';
+      if (prefixLength !== undefined) {
+        blockList.addSubnet(network, Number(prefixLength), entryFamily);
+      } else {
+        blockList.addAddress(network, entryFamily);
+      }
+    }
+
+    return blockList.check(address, family);
+  }
+
+  private normalizeAllowlist(allowlist: string[] = []): string[] {
+    const entries = Array.from(new Set(allowlist.map((entry) => entry.trim()).filter(Boolean)));
+
+    const invalid = entries.filter((entry) => {
+      const [network, prefixLength, ...rest] = entry.split('/');
+      const family = net.isIP(network);
+      if (!family || rest.length) return true;
+      if (prefixLength === undefined) return false;
+
+      const bits = Number(prefixLength);
+      return !/^\d+$/.test(prefixLength) || bits > (family === 6 ? 128 : 32);
+    });
+    if (invalid.length) {
+      throw new BadRequestException(`Invalid IP addresses or CIDR ranges: ${invalid.join(', ')}`);
+    }
+
+    return entries;
+  }
+
+  private expiryDate(expiresInDays?: number): Date {
+    const maxDays = this.configService.get<number>('apiKeys.maxExpiresInDays');
+    const days = expiresInDays ?? this.configService.get<number>('apiKeys.defaultExpiresInDays');
+
+    if (days > maxDays) {
+      throw new BadRequestException(`API keys can be valid for at most ${maxDays} days`);
+    }
+
+    return new Date(Date.now() + days * 86400000);
+  }
+
+  private assertGrantable(
+    permissions: Permission[],
+    entityIdPath: Types.ObjectId[],
+    actor: JwtPayload,
+  ): Permission[] {
+    const unique = Array.from(new Set(permissions));
+
+    const reserved = unique.filter((permission) => !ASSIGNABLE_PERMISSIONS.includes(permission));
+    if (reserved.length) {
+      throw new BadRequestException(`Permissions cannot be granted to API keys: ${reserved.join(', ')}`);
+    }
+
+    const ungranted = unique.filter(
+      (permission) => !this.permissionsService.covers(actor.permissions, permission, entityIdPath),
+    );
+    if (ungranted.length) {
+      throw new ForbiddenException(`You do not hold these permissions over the scope: ${ungranted.join(', ')}`);
+    }
+
+    return unique;
+  }
+
+  private async findScopeEntity(entityId: string, tenantId: string, actor: JwtPayload) {
+    const entity = await this.entityModel.findOne({
+      _id: new Types.ObjectId(entityId),
+      tenantId: new Types.ObjectId(tenantId),
+      isActive: true,
+    });
+
+    if (!entity || !this.permissionsService.covers(actor.permissions, Permission.API_KEYS_MANAGE, entity.entityIdPath)) {
+      throw new NotFoundException('Scope entity not found in your entity hierarchy');
+    }
+
+    return entity;
+  }
+
+  private resolveTenant(requestedTenantId: string | undefined, actor: JwtPayload): string {
+    if (actor.role !== UserRole.SYSTEM_ADMIN) {
+      return actor.tenantId;
+    }
+
+    if (!requestedTenantId) {
+      throw new BadRequestException('tenantId is required for system administrators');
+    }
+
+    return requestedTenantId;
+  }
+
+  private visibleTo(actor: JwtPayload): Record<string, any> {
+    return entityScopeFilter(resolveEntityScope(actor, Permission.API_KEYS_MANAGE));
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+
+  private invalidate(apiKeyId: string): void {
+    for (const [cacheKey, entry] of this.cache) {
+      if (entry.apiKey._id.toString() === apiKeyId) this.cache.delete(cacheKey);
+    }
+  }
+}
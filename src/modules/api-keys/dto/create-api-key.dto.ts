@@ -0,0 +1,87 @@
+import { IsString, IsEnum, IsOptional, IsMongoId, IsArray, IsInt, ArrayMinSize, ArrayMaxSize, MaxLength, Min, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { Permission } from '../../../common/constants/permissions';
+import { QuotaLimitsDto } from '../../quotas/dto/quota-limits.dto';
+
+export class CreateApiKeyDto {
+  @ApiProperty({ example: 'CRM integration' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ example: 'Sends appointment reminders from the CRM', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({ enum: Permission, isArray: true, example: [Permission.MESSAGES_SEND, Permission.MESSAGES_READ] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsEnum(Permission, { each: true })
+  permissions: Permission[];
+
+  @ApiProperty({ description: 'Entity whose subtree the key applies to; defaults to your entity', required: false })
+  @IsOptional()
+  @IsMongoId()
+  scopeEntityId?: string;
+
+  @ApiProperty({ example: ['203.0.113.10', '198.51.100.0/24'], description: 'Addresses or CIDR ranges allowed to use the key; empty allows any', required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  ipAllowlist?: string[];
+
+  @ApiProperty({ example: 90, description: 'Days until the key expires (server default and maximum apply)', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  expiresInDays?: number;
+
+  @ApiProperty({ type: QuotaLimitsDto, description: 'Per-key quota overrides; the tenant quota still applies', required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => QuotaLimitsDto)
+  quotas?: QuotaLimitsDto;
+
+  @ApiProperty({ description: 'Target tenant (SystemAdmin only)', required: false })
+  @IsOptional()
+  @IsMongoId()
+  tenantId?: string;
+}
+
+export class UpdateApiKeyDto {
+  @ApiProperty({ example: 'CRM integration', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({ example: 'Sends appointment reminders from the CRM', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({ enum: Permission, isArray: true, required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsEnum(Permission, { each: true })
+  permissions?: Permission[];
+
+  @ApiProperty({ example: ['203.0.113.10'], required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  ipAllowlist?: string[];
+
+  @ApiProperty({ type: QuotaLimitsDto, description: 'Per-key quota overrides; the tenant quota still applies', required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => QuotaLimitsDto)
+  quotas?: QuotaLimitsDto;
+}
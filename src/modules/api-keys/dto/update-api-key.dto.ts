@@ -0,0 +1 @@
+export { UpdateApiKeyDto } from './create-api-key.dto';
@@ -1,17 +1,27 @@
-import { Controller, Post, Body, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { Controller, Post, Get, Delete, Param, Body, UseGuards, HttpCode, HttpStatus, Request, UnauthorizedException } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
-import { AuthService, LoginResponse } from './auth.service';
+import { AuthService, LoginResponse, SessionContext, LoginChallengeResponse, ImpersonationResponse } from './auth.service';
+import { PasswordPolicyService } from './password-policy.service';
 import { JwtAuthGuard } from './jwt-auth.guard';
+import { AllowDuringImpersonation, DenyDuringImpersonation } from './decorators';
 import { LoginDto } from './dto/login.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
 import { RegisterDto } from './dto/register.dto';
 import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
+import { ChangePasswordDto, CompletePasswordChangeDto } from './dto/change-password.dto';
+import { ImpersonateDto } from './dto/impersonate.dto';
+import { SessionRevokeReason } from '../../common/schemas/auth-session.schema';
+import { Audit } from '../../common/decorators/audit.decorator';
+import { AuditAction, AuditResource } from '../../common/schemas/audit-log.schema';
 
 @ApiTags('Authentication')
 @Controller('auth')
 export class AuthController {
-  constructor(private authService: AuthService) {}
+  constructor(
+    private authService: AuthService,
+    private passwordPolicyService: PasswordPolicyService,
+  ) {}
 
   @Post('register')
   @HttpCode(HttpStatus.CREATED)
@@ -19,43 +29,164 @@ export class AuthController {
   @ApiResponse({ status: 201, description: 'Registration successful' })
   @ApiResponse({ status: 400, description: 'Bad request' })
   @ApiResponse({ status: 409, description: 'User already exists' })
-  async register(@Body() registerDto: RegisterDto): Promise<LoginResponse> {
-    return this.authService.register(registerDto);
+  async register(@Body() registerDto: RegisterDto, @Request() req): Promise<LoginResponse | LoginChallengeResponse> {
+    return this.authService.register(registerDto, this.sessionContext(req));
   }
 
   @Post('login')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'User login' })
-  @ApiResponse({ status: 200, description: 'Login successful' })
+  @ApiOperation({ summary: 'User login; returns a challenge_token instead of tokens when a password change or two-factor authentication is required' })
+  @ApiResponse({ status: 200, description: 'Login successful or another step required' })
   @ApiResponse({ status: 401, description: 'Invalid credentials' })
-  async login(@Body() loginDto: LoginDto): Promise<LoginResponse> {
-    const user = await this.authService.validateUser(loginDto.email, loginDto.password);
+  @ApiResponse({ status: 429, description: 'Account locked after too many failed attempts' })
+  async login(@Body() loginDto: LoginDto, @Request() req): Promise<LoginResponse | LoginChallengeResponse> {
+    const context = this.sessionContext(req);
+    const user = await this.authService.validateUser(loginDto.email, loginDto.password, context);
     if (!user) {
-      throw new Error('Invalid credentials');
+      throw new UnauthorizedException('Invalid credentials');
     }
-    return this.authService.login(user);
+    return this.authService.login(user, context);
+  }
+
+  @Get('password-policy')
+  @ApiOperation({ summary: 'Requirements new passwords have to meet' })
+  @ApiResponse({ status: 200, description: 'Password policy retrieved successfully' })
+  getPasswordPolicy() {
+    return this.passwordPolicyService.getPolicy();
+  }
+
+  @Post('change-password/challenge')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Replace a temporary password from a login challenge and continue the login' })
+  @ApiResponse({ status: 200, description: 'Password changed; login successful or second factor required' })
+  @ApiResponse({ status: 400, description: 'Password does not meet the password policy' })
+  @ApiResponse({ status: 401, description: 'Invalid or expired challenge' })
+  async completePasswordChange(@Body() dto: CompletePasswordChangeDto, @Request() req): Promise<LoginResponse | LoginChallengeResponse> {
+    return this.authService.completePasswordChange(dto.challenge_token, dto.newPassword, this.sessionContext(req));
+  }
+
+  @Post('change-password')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @DenyDuringImpersonation()
+  @HttpCode(HttpStatus.OK)
+  @Audit({ action: AuditAction.UPDATE, resource: AuditResource.USER, resourceName: 'password_changed' })
+  @ApiOperation({ summary: 'Change the current user\'s password; other sessions are signed out' })
+  @ApiResponse({ status: 200, description: 'Password changed successfully' })
+  @ApiResponse({ status: 400, description: 'Password does not meet the password policy' })
+  @ApiResponse({ status: 401, description: 'Current password is incorrect' })
+  async changePassword(@Body() dto: ChangePasswordDto, @Request() req) {
+    await this.authService.changePassword(req.user, dto.currentPassword, dto.newPassword);
+    return {
+      success: true,
+      message: 'Password changed successfully',
+    };
   }
 
   @Post('refresh')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Refresh access token' })
+  @ApiOperation({ summary: 'Refresh access token; the refresh token is rotated and the old one stops working' })
   @ApiResponse({ status: 200, description: 'Token refreshed successfully' })
-  @ApiResponse({ status: 401, description: 'Invalid refresh token' })
-  async refreshToken(@Body() refreshTokenDto: RefreshTokenDto): Promise<{ access_token: string }> {
-    return this.authService.refreshToken(refreshTokenDto.refresh_token);
+  @ApiResponse({ status: 401, description: 'Invalid, reused or revoked refresh token' })
+  async refreshToken(@Body() refreshTokenDto: RefreshTokenDto, @Request() req): Promise<{ access_token: string; refresh_token: string }> {
+    return this.authService.refreshToken(refreshTokenDto.refresh_token, this.sessionContext(req));
   }
 
   @Post('logout')
   @UseGuards(JwtAuthGuard)
+  @AllowDuringImpersonation()
   @ApiBearerAuth()
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'User logout' })
+  @Audit({ action: AuditAction.LOGOUT, resource: AuditResource.USER })
+  @ApiOperation({ summary: 'User logout; revokes the current session and its tokens' })
   @ApiResponse({ status: 200, description: 'Logout successful' })
-  async logout(): Promise<{ message: string }> {
-    // In a real implementation, you might want to blacklist the token
+  async logout(@Request() req): Promise<{ message: string }> {
+    await this.authService.logout(req.user);
     return { message: 'Logout successful' };
   }
 
+  @Get('permissions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Effective permissions of the current user, each with the entities whose subtrees it covers' })
+  @ApiResponse({ status: 200, description: 'Permissions retrieved successfully' })
+  getPermissions(@Request() req) {
+    return {
+      role: req.user.role,
+      permissions: req.user.permissions,
+      ...(req.user.impersonator && { impersonatedBy: req.user.impersonator }),
+    };
+  }
+
+  @Post('impersonate/end')
+  @UseGuards(JwtAuthGuard)
+  @AllowDuringImpersonation()
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @Audit({ action: AuditAction.LOGOUT, resource: AuditResource.USER, resourceName: 'impersonation_ended' })
+  @ApiOperation({ summary: 'End the current impersonation; its token stops working' })
+  @ApiResponse({ status: 200, description: 'Impersonation ended' })
+  @ApiResponse({ status: 400, description: 'Not an impersonation session' })
+  async endImpersonation(@Request() req) {
+    await this.authService.endImpersonation(req.user);
+    return {
+      success: true,
+      message: 'Impersonation ended',
+    };
+  }
+
+  @Post('impersonate/:userId')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @Audit({ action: AuditAction.IMPERSONATE, resource: AuditResource.USER })
+  @ApiOperation({ summary: 'Get a short-lived token that acts as another user (SystemAdmin only); there is no refresh token' })
+  @ApiResponse({ status: 200, description: 'Impersonation started' })
+  @ApiResponse({ status: 403, description: 'Not a SystemAdmin, or the target is a SystemAdmin' })
+  @ApiResponse({ status: 404, description: 'User not found or inactive' })
+  async impersonate(@Param('userId') userId: string, @Body() dto: ImpersonateDto, @Request() req): Promise<ImpersonationResponse> {
+    return this.authService.impersonate(req.user, userId, dto, this.sessionContext(req));
+  }
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List the active logins (devices) of the current user' })
+  @ApiResponse({ status: 200, description: 'Sessions retrieved successfully' })
+  async getSessions(@Request() req) {
+    return { sessions: await this.authService.getSessions(req.user.sub, req.user.sid) };
+  }
+
+  @Delete('sessions/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @Audit({ action: AuditAction.LOGOUT, resource: AuditResource.USER })
+  @ApiOperation({ summary: 'Sign out one of the current user\'s sessions' })
+  @ApiResponse({ status: 200, description: 'Session revoked successfully' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async revokeSession(@Param('id') id: string, @Request() req) {
+    await this.authService.revokeSession(req.user.sub, id, SessionRevokeReason.USER_REVOKED, req.user.sub);
+    return {
+      success: true,
+      message: 'Session revoked successfully',
+    };
+  }
+
+  @Delete('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @Audit({ action: AuditAction.LOGOUT, resource: AuditResource.USER })
+  @ApiOperation({ summary: 'Sign out every other session of the current user' })
+  @ApiResponse({ status: 200, description: 'Sessions revoked successfully' })
+  async revokeOtherSessions(@Request() req) {
+    const revoked = await this.authService.revokeAllSessions(req.user.sub, SessionRevokeReason.USER_REVOKED, req.user.sub, req.user.sid);
+    return {
+      success: true,
+      revoked,
+      message: 'Other sessions revoked successfully',
+    };
+  }
+
   @Post('forgot-password')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Request password reset' })
@@ -72,4 +203,11 @@ export class AuthController {
   async resetPassword(@Body() resetPasswordDto: ResetPasswordDto): Promise<{ message: string }> {
     return this.authService.resetPassword(resetPasswordDto);
   }
+
+  private sessionContext(req): SessionContext {
+    return {
+      ipAddress: req.ip || req.connection?.remoteAddress,
+      userAgent: req.get('User-Agent'),
+    };
+  }
 }
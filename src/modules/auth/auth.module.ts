@@ -2,16 +2,39 @@ import { Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
 import { DatabaseModule } from '../../common/database/database.module';
+import { SecurityModule } from '../../common/security/security.module';
+import { AuditModule } from '../../common/modules/audit.module';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
+import { TwoFactorService } from './two-factor.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { LoginProtectionService } from './login-protection.service';
+import { TwoFactorController } from './two-factor.controller';
 import { JwtStrategy } from './jwt.strategy';
 import { JwtAuthGuard } from './jwt-auth.guard';
 import { RolesGuard } from './roles.guard';
+import { PermissionsService } from './permissions.service';
+import { PermissionsGuard } from './permissions.guard';
+import { AuthSession, AuthSessionSchema } from '../../common/schemas/auth-session.schema';
+import { CustomRole, CustomRoleSchema } from '../../common/schemas/custom-role.schema';
+import { RoleAssignment, RoleAssignmentSchema } from '../../common/schemas/role-assignment.schema';
+import { Alert, AlertSchema } from '../../common/schemas/alert.schema';
+import { Tenant, TenantSchema } from '../../common/schemas/tenant.schema';
 
 @Module({
   imports: [
     DatabaseModule,
+    SecurityModule,
+    AuditModule,
+    MongooseModule.forFeature([
+      { name: AuthSession.name, schema: AuthSessionSchema },
+      { name: CustomRole.name, schema: CustomRoleSchema },
+      { name: RoleAssignment.name, schema: RoleAssignmentSchema },
+      { name: Alert.name, schema: AlertSchema },
+      { name: Tenant.name, schema: TenantSchema },
+    ]),
     PassportModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
@@ -26,11 +49,16 @@ import { RolesGuard } from './roles.guard';
   ],
   providers: [
     AuthService,
+    TwoFactorService,
+    PasswordPolicyService,
+    LoginProtectionService,
     JwtStrategy,
     JwtAuthGuard,
     RolesGuard,
+    PermissionsService,
+    PermissionsGuard,
   ],
-  controllers: [AuthController],
-  exports: [AuthService, JwtAuthGuard, RolesGuard],
+  controllers: [AuthController, TwoFactorController],
+  exports: [AuthService, PasswordPolicyService, PermissionsService, JwtAuthGuard, RolesGuard, PermissionsGuard],
 })
 export class AuthModule {}
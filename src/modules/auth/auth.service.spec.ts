@@ -0,0 +1,78 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { User } from '../../common/schemas/user.schema';
+import { AuthService, LoginChallengePurpose } from './auth.service';
+import { TwoFactorService } from './two-factor.service';
+
+describe('AuthService.verifyTwoFactorLogin', () => {
+  const userId = new Types.ObjectId();
+  const challengeId = 'challenge-1';
+  const jwtService = new JwtService({});
+  const config: Record<string, unknown> = { 'jwt.secret': 'test-secret', 'twoFactor.maxChallengeAttempts': 3 };
+  const challengeToken = jwtService.sign(
+    { sub: userId.toString(), purpose: LoginChallengePurpose.VERIFY },
+    { secret: 'test-secret:two-factor', expiresIn: '5m', jwtid: challengeId },
+  );
+  const tokens = { access_token: 'access', refresh_token: 'refresh' };
+
+  let service: AuthService;
+  let user: Record<string, any>;
+  let userModel: { findOne: jest.Mock; updateOne: jest.Mock };
+  let twoFactorService: { verify: jest.Mock };
+  let issueSession: jest.SpyInstance;
+
+  beforeEach(async () => {
+    user = { _id: userId, isActive: true, twoFactorEnabled: true, twoFactorUsedChallengeIds: [] };
+    userModel = {
+      findOne: jest.fn(async () => ({ toObject: () => ({ ...user }) })),
+      updateOne: jest.fn().mockResolvedValue({ matchedCount: 1, modifiedCount: 1 }),
+    };
+    twoFactorService = { verify: jest.fn().mockResolvedValue(true) };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: JwtService, useValue: jwtService },
+        { provide: ConfigService, useValue: { get: (key: string) => config[key] } },
+        { provide: TwoFactorService, useValue: twoFactorService },
+      ],
+    })
+      .useMocker(() => ({}))
+      .compile();
+
+    service = module.get(AuthService);
+    issueSession = jest.spyOn(service as any, 'issueSession').mockResolvedValue(tokens);
+  });
+
+  it('records the challenge as used when it signs in', async () => {
+    await expect(service.verifyTwoFactorLogin(challengeToken, { code: '123456' })).resolves.toBe(tokens);
+
+    expect(userModel.updateOne).toHaveBeenCalledWith(
+      { _id: userId, twoFactorUsedChallengeIds: { $ne: challengeId } },
+      { $push: { twoFactorUsedChallengeIds: { $each: [challengeId], $slice: -10 } } },
+    );
+  });
+
+  it('rejects a challenge that already signed in without checking the code', async () => {
+    user.twoFactorUsedChallengeIds = [challengeId];
+
+    await expect(service.verifyTwoFactorLogin(challengeToken, { code: '123456' })).rejects.toThrow(UnauthorizedException);
+
+    expect(twoFactorService.verify).not.toHaveBeenCalled();
+    expect(issueSession).not.toHaveBeenCalled();
+  });
+
+  it('signs in only once when the same challenge is verified concurrently', async () => {
+    userModel.updateOne.mockResolvedValue({ matchedCount: 0, modifiedCount: 0 });
+
+    await expect(service.verifyTwoFactorLogin(challengeToken, { code: '123456' })).rejects.toThrow(
+      'This sign-in has already been completed; sign in again',
+    );
+    expect(issueSession).not.toHaveBeenCalled();
+  });
+});
@@ -1,12 +1,20 @@
-import { Injectable, UnauthorizedException, ConflictException, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Injectable, Logger, UnauthorizedException, ConflictException, BadRequestException, NotFoundException, ForbiddenException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
 import { Model, Types } from 'mongoose';
-import { User, UserRole } from '../../common/schemas/user.schema';
+import { User, UserRole, RegistrationStatus } from '../../common/schemas/user.schema';
 import { Entity } from '../../common/schemas/entity.schema';
+import { AuthSession, AuthSessionDocument, SessionRevokeReason } from '../../common/schemas/auth-session.schema';
+import { Tenant, TenantDocument, TenantStatus } from '../../common/schemas/tenant.schema';
 import { RegisterDto } from './dto/register.dto';
 import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
+import { ImpersonateDto } from './dto/impersonate.dto';
+import { PermissionScopes } from '../../common/constants/permissions';
+import { TwoFactorService, TwoFactorCredentials, TwoFactorEnrollment } from './two-factor.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { LoginProtectionService } from './login-protection.service';
 import * as bcrypt from 'bcryptjs';
 import * as crypto from 'crypto';
 
@@ -16,6 +24,22 @@ export interface JwtPayload {
   role: UserRole;
   tenantId: string;
   entityId: string;
+  sid?: string; // AuthSession the token belongs to
+  permissions?: PermissionScopes; // Resolved per request by JwtStrategy, never signed into tokens
+  apiKeyId?: string; // Set instead of sid when the request authenticated with an API key
+  apiKeyName?: string;
+  impersonator?: Impersonator; // Set on "view as" tokens: the SystemAdmin acting as sub
+  exp?: number; // Expiry in seconds, added by the JWT library on signing
+}
+
+export interface Impersonator {
+  sub: string;
+  email: string;
+}
+
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
 }
 
 export interface LoginResponse {
@@ -33,43 +57,257 @@ export interface LoginResponse {
   };
 }
 
+/**
+ * Short-lived access token for acting as another user. There is no refresh
+ * token; when it expires the SystemAdmin is back to their own session.
+ */
+export interface ImpersonationResponse {
+  access_token: string;
+  expiresIn: number; // Seconds
+  expiresAt: Date;
+  user: LoginResponse['user'];
+  impersonator: { id: string; email: string };
+  reason: string;
+}
+
+export enum LoginChallengePurpose {
+  VERIFY = 'two_factor_verify', // User has 2FA and must present a code
+  ENROLL = 'two_factor_enroll', // 2FA is mandatory for the user but not set up yet
+  PASSWORD_CHANGE = 'password_change', // User signed in with a temporary password
+}
+
+/**
+ * Returned by login instead of tokens when another step is needed. The
+ * challenge token is only accepted by the endpoint for that step.
+ */
+export interface LoginChallengeResponse {
+  passwordChangeRequired?: boolean;
+  twoFactorRequired?: boolean;
+  twoFactorSetupRequired?: boolean;
+  challenge_token: string;
+  expiresIn: string;
+}
+
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly TENANT_STATUS_TTL_MS = 30000;
+  private readonly USED_CHALLENGE_HISTORY = 10;
+  private readonly tenantStatus = new Map<string, { status: TenantStatus; expiresAt: number }>();
+
   constructor(
     @InjectModel(User.name)
     private userModel: Model<User>,
     @InjectModel(Entity.name)
     private entityModel: Model<Entity>,
+    @InjectModel(AuthSession.name)
+    private sessionModel: Model<AuthSessionDocument>,
+    @InjectModel(Tenant.name)
+    private tenantModel: Model<TenantDocument>,
     private jwtService: JwtService,
+    private configService: ConfigService,
+    private twoFactorService: TwoFactorService,
+    private passwordPolicyService: PasswordPolicyService,
+    private loginProtectionService: LoginProtectionService,
   ) {}
 
-  async validateUser(email: string, password: string): Promise<any> {
-    const user = await this.userModel.findOne({ 
-      email, 
+  /**
+   * Check a password login. Wrong passwords count towards a lockout, during
+   * which the password is not checked at all. Invited users sign in with the
+   * temporary password from their invitation.
+   */
+  async validateUser(email: string, password: string, context: SessionContext = {}): Promise<any> {
+    const user = await this.userModel.findOne({
+      email,
       isActive: true,
-      registrationStatus: 'registered'
+      registrationStatus: { $in: [RegistrationStatus.REGISTERED, RegistrationStatus.INVITED] },
     }).select('+password');
 
-    if (user && await bcrypt.compare(password, user.password)) {
-      const { password: _, ...result } = user.toObject();
-      return result;
+    if (!user) {
+      return null;
+    }
+
+    this.loginProtectionService.assertNotLocked(user);
+
+    if (!(await bcrypt.compare(password, user.password))) {
+      await this.loginProtectionService.recordFailure(user, context);
+      return null;
+    }
+
+    await this.loginProtectionService.recordSuccess(user);
+    const { password: _, ...result } = user.toObject();
+    return result;
+  }
+
+  /**
+   * First login step. Users still on a temporary password get a challenge
+   * token for auth/change-password/challenge. Users with two-factor
+   * authentication get one to exchange at auth/2fa/verify; users who must
+   * have it but have not enrolled get one for auth/2fa/challenge/setup.
+   */
+  async login(user: any, context: SessionContext = {}): Promise<LoginResponse | LoginChallengeResponse> {
+    await this.assertTenantActive(user.tenantId);
+
+    if (user.mustChangePassword) {
+      return { passwordChangeRequired: true, ...this.signChallengeToken(user, LoginChallengePurpose.PASSWORD_CHANGE) };
+    }
+
+    if (this.twoFactorService.isEnabled()) {
+      if (user.twoFactorEnabled) {
+        return { twoFactorRequired: true, ...this.signChallengeToken(user, LoginChallengePurpose.VERIFY) };
+      }
+
+      if (await this.twoFactorService.isRequired(user)) {
+        return { twoFactorSetupRequired: true, ...this.signChallengeToken(user, LoginChallengePurpose.ENROLL) };
+      }
+    }
+
+    return this.issueSession(user, context);
+  }
+
+  /**
+   * Second login step. Wrong codes count towards the account lockout, and a
+   * challenge is burned after twoFactor.maxChallengeAttempts of them or once
+   * it has signed in.
+   */
+  async verifyTwoFactorLogin(challengeToken: string, credentials: TwoFactorCredentials, context: SessionContext = {}): Promise<LoginResponse> {
+    const user = await this.resolveChallenge(challengeToken, LoginChallengePurpose.VERIFY);
+    const { jti: challengeId } = this.jwtService.decode(challengeToken) as { jti?: string };
+    const maxChallengeAttempts = this.configService.get<number>('twoFactor.maxChallengeAttempts');
+
+    if (!challengeId || (user.twoFactorChallengeId === challengeId && user.twoFactorChallengeFailures >= maxChallengeAttempts)) {
+      throw new UnauthorizedException('Too many invalid codes for this sign-in; sign in again');
+    }
+
+    if (user.twoFactorUsedChallengeIds?.includes(challengeId)) {
+      throw new UnauthorizedException('This sign-in has already been completed; sign in again');
     }
-    return null;
+
+    if (!(await this.twoFactorService.verify(user._id.toString(), credentials, context))) {
+      this.logger.warn(`Failed two-factor verification for user ${user._id}`);
+      await this.recordChallengeFailure(user._id, challengeId);
+      throw new UnauthorizedException('Invalid verification code');
+    }
+
+    if (!(await this.consumeChallenge(user._id, challengeId))) {
+      throw new UnauthorizedException('This sign-in has already been completed; sign in again');
+    }
+
+    return this.issueSession(user, context);
+  }
+
+  async beginChallengeEnrollment(challengeToken: string): Promise<TwoFactorEnrollment> {
+    const user = await this.resolveChallenge(challengeToken, LoginChallengePurpose.ENROLL);
+    return this.twoFactorService.beginEnrollment(user._id.toString());
+  }
+
+  /**
+   * Finish mandatory enrollment started from a login challenge and sign in
+   */
+  async completeChallengeEnrollment(
+    challengeToken: string,
+    code: string,
+    context: SessionContext = {},
+  ): Promise<LoginResponse & { recoveryCodes: string[] }> {
+    const user = await this.resolveChallenge(challengeToken, LoginChallengePurpose.ENROLL);
+    const recoveryCodes = await this.twoFactorService.confirmEnrollment(user._id.toString(), code);
+
+    return { ...(await this.issueSession(user, context)), recoveryCodes };
+  }
+
+  /**
+   * Replace the temporary password from a login challenge, then carry on
+   * with the login (which may still ask for a second factor)
+   */
+  async completePasswordChange(
+    challengeToken: string,
+    newPassword: string,
+    context: SessionContext = {},
+  ): Promise<LoginResponse | LoginChallengeResponse> {
+    const user = await this.resolveChallenge(challengeToken, LoginChallengePurpose.PASSWORD_CHANGE);
+    await this.setPassword(user._id.toString(), newPassword);
+
+    return this.login({ ...user, mustChangePassword: false }, context);
   }
 
-  async login(user: any): Promise<LoginResponse> {
+  /**
+   * Password change by the signed-in user; their other sessions are signed out
+   */
+  async changePassword(user: JwtPayload, currentPassword: string, newPassword: string): Promise<void> {
+    if (!(await this.verifyPassword(user.sub, currentPassword))) {
+      throw new UnauthorizedException('Current password is incorrect');
+    }
+
+    await this.setPassword(user.sub, newPassword, { changedBy: user.sub, exceptSessionId: user.sid });
+  }
+
+  /**
+   * Set a new password that satisfies the password policy and is not one of
+   * the user's recent passwords. Clears any lockout and revokes the user's
+   * sessions, except the one making the change.
+   */
+  async setPassword(
+    userId: string,
+    newPassword: string,
+    options: { changedBy?: string; exceptSessionId?: string; mustChangePassword?: boolean } = {},
+  ): Promise<void> {
+    const user = await this.userModel.findById(userId).select('+password +passwordHistory');
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    await this.passwordPolicyService.assertAcceptable(newPassword, user);
+
+    await this.userModel.updateOne(
+      { _id: user._id },
+      {
+        password: await this.hashPassword(newPassword),
+        passwordHistory: this.passwordPolicyService.nextHistory(user),
+        passwordChangedAt: new Date(),
+        mustChangePassword: !!options.mustChangePassword,
+        failedLoginAttempts: 0,
+        lockoutCount: 0,
+        $unset: { lockedUntil: 1 },
+      },
+    );
+
+    // Whoever knew the old password may still hold a session
+    await this.revokeAllSessions(userId, SessionRevokeReason.PASSWORD_CHANGED, options.changedBy, options.exceptSessionId);
+  }
+
+  async verifyPassword(userId: string, password: string): Promise<boolean> {
+    const user = await this.userModel.findById(userId).select('+password');
+    return !!user && (await bcrypt.compare(password || '', user.password));
+  }
+
+  private async issueSession(user: any, context: SessionContext): Promise<LoginResponse> {
+    await this.assertTenantActive(user.tenantId);
+
+    const sessionId = new Types.ObjectId();
     const payload: JwtPayload = {
       sub: user._id.toString(),
       email: user.email,
       role: user.role,
       tenantId: user?.tenantId?.toString(),
       entityId: user?.entityId?.toString(),
+      sid: sessionId.toString(),
     };
 
     const access_token = this.jwtService.sign(payload);
-    const refresh_token = this.jwtService.sign(payload, {
-      secret: process.env.JWT_REFRESH_SECRET,
-      expiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
+    const { refresh_token, refreshTokenId, expiresAt } = this.signRefreshToken(payload);
+
+    await this.loginProtectionService.recordSignIn(user, context);
+    await this.sessionModel.create({
+      _id: sessionId,
+      userId: user._id,
+      refreshTokenId,
+      expiresAt,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      lastUsedAt: new Date(),
+      lastIpAddress: context.ipAddress,
+      entityId: user?.entityId,
+      tenantId: user?.tenantId,
     });
 
     return {
@@ -88,39 +326,372 @@ export class AuthService {
     };
   }
 
-  async refreshToken(refreshToken: string): Promise<{ access_token: string }> {
-    try {
-      const payload = this.jwtService.verify(refreshToken, {
-        secret: process.env.JWT_REFRESH_SECRET,
-      });
+  /**
+   * Issue a time-boxed token that acts as another user, for SystemAdmins
+   * debugging what a tenant sees. The token carries the SystemAdmin as
+   * impersonator and is backed by a session of the target user, so it shows
+   * in their sessions list and can be revoked like any login.
+   */
+  async impersonate(actor: JwtPayload, userId: string, dto: ImpersonateDto, context: SessionContext = {}): Promise<ImpersonationResponse> {
+    if (actor.role !== UserRole.SYSTEM_ADMIN || actor.impersonator || actor.apiKeyId) {
+      throw new ForbiddenException('Only SystemAdmins can impersonate users');
+    }
 
-      const user = await this.userModel.findById(payload.sub);
-      if (!user || !user.isActive) {
-        throw new UnauthorizedException('User not found or inactive');
-      }
+    const user = Types.ObjectId.isValid(userId)
+      ? await this.userModel.findOne({ _id: new Types.ObjectId(userId), isActive: true }).lean()
+      : null;
+    if (!user) {
+      throw new NotFoundException('User not found or inactive');
+    }
+    if (user.role === UserRole.SYSTEM_ADMIN) {
+      throw new ForbiddenException('SystemAdmins cannot be impersonated');
+    }
+
+    const { defaultMinutes, maxMinutes } = this.configService.get<{ defaultMinutes: number; maxMinutes: number }>('impersonation');
+    const minutes = Math.min(dto.durationMinutes || defaultMinutes, maxMinutes);
+    const expiresAt = new Date(Date.now() + minutes * 60 * 1000);
+    const sessionId = new Types.ObjectId();
+
+    const payload: JwtPayload = {
+      sub: user._id.toString(),
+      email: user.email,
+      role: user.role,
+      tenantId: user.tenantId?.toString(),
+      entityId: user.entityId?.toString(),
+      sid: sessionId.toString(),
+      impersonator: { sub: actor.sub, email: actor.email },
+    };
+
+    await this.sessionModel.create({
+      _id: sessionId,
+      userId: user._id,
+      refreshTokenId: crypto.randomUUID(), // Never issued: impersonation cannot be refreshed
+      expiresAt,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      lastUsedAt: new Date(),
+      lastIpAddress: context.ipAddress,
+      impersonatorId: new Types.ObjectId(actor.sub),
+      impersonatorEmail: actor.email,
+      impersonationReason: dto.reason,
+      entityId: user.entityId,
+      tenantId: user.tenantId,
+    });
 
-      const newPayload: JwtPayload = {
-        sub: user._id.toString(),
+    this.logger.warn(`${actor.email} started impersonating ${user.email} for ${minutes} minute(s): ${dto.reason}`);
+
+    return {
+      access_token: this.jwtService.sign(payload, { expiresIn: minutes * 60 }),
+      expiresIn: minutes * 60,
+      expiresAt,
+      user: {
+        id: user._id.toString(),
         email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
         role: user.role,
         tenantId: user.tenantId?.toString(),
         entityId: user.entityId?.toString(),
-      };
+        entityPath: user.entityPath,
+      },
+      impersonator: { id: actor.sub, email: actor.email },
+      reason: dto.reason,
+    };
+  }
 
-      return {
-        access_token: this.jwtService.sign(newPayload),
-      };
+  /**
+   * End an impersonation before its token expires
+   */
+  async endImpersonation(user: JwtPayload): Promise<void> {
+    if (!user.impersonator) {
+      throw new BadRequestException('Not an impersonation session');
+    }
+
+    await this.sessionModel.updateOne(
+      { _id: new Types.ObjectId(user.sid), revokedAt: null },
+      { revokedAt: new Date(), revokedReason: SessionRevokeReason.IMPERSONATION_ENDED, revokedBy: user.impersonator.sub },
+    );
+  }
+
+  /**
+   * Exchange a refresh token for a new access/refresh token pair.
+   * The presented token is retired; presenting it again revokes the session.
+   */
+  async refreshToken(refreshToken: string, context: SessionContext = {}): Promise<{ access_token: string; refresh_token: string }> {
+    let payload: JwtPayload & { jti?: string };
+    try {
+      payload = this.jwtService.verify(refreshToken, {
+        secret: process.env.JWT_REFRESH_SECRET,
+      });
     } catch (error) {
       throw new UnauthorizedException('Invalid refresh token');
     }
+
+    // Tokens issued before sessions existed cannot be rotated; the user signs in again
+    if (!payload.sid || !payload.jti) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const session = await this.sessionModel.findById(payload.sid);
+    if (!session || session.revokedAt) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    if (session.refreshTokenId !== payload.jti) {
+      await this.revokeReusedSession(session);
+      throw new UnauthorizedException('Refresh token has already been used');
+    }
+
+    const user = await this.userModel.findById(payload.sub);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('User not found or inactive');
+    }
+
+    await this.assertTenantActive(user.tenantId);
+
+    const newPayload: JwtPayload = {
+      sub: user._id.toString(),
+      email: user.email,
+      role: user.role,
+      tenantId: user.tenantId?.toString(),
+      entityId: user.entityId?.toString(),
+      sid: session._id.toString(),
+    };
+    const { refresh_token, refreshTokenId, expiresAt } = this.signRefreshToken(newPayload);
+
+    const rotated = await this.sessionModel.findOneAndUpdate(
+      { _id: session._id, refreshTokenId: payload.jti, revokedAt: null },
+      {
+        refreshTokenId,
+        expiresAt,
+        lastUsedAt: new Date(),
+        lastIpAddress: context.ipAddress,
+        $inc: { rotationCount: 1 },
+      },
+    );
+
+    // Someone else used the same token in the meantime
+    if (!rotated) {
+      await this.revokeReusedSession(session);
+      throw new UnauthorizedException('Refresh token has already been used');
+    }
+
+    return {
+      access_token: this.jwtService.sign(newPayload),
+      refresh_token,
+    };
   }
 
   async validateToken(token: string): Promise<JwtPayload> {
+    let payload: JwtPayload;
     try {
-      return this.jwtService.verify(token);
+      payload = this.jwtService.verify(token);
     } catch (error) {
       throw new UnauthorizedException('Invalid token');
     }
+
+    if (!(await this.isSessionActive(payload))) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Access tokens stay valid only while their session does, so logout and
+   * revocation take effect immediately
+   */
+  async isSessionActive(payload: JwtPayload): Promise<boolean> {
+    if (!payload.sid) return true;
+
+    const session = await this.sessionModel.exists({ _id: new Types.ObjectId(payload.sid), revokedAt: null });
+    return !!session;
+  }
+
+  async logout(user: JwtPayload): Promise<void> {
+    if (!user.sid) return;
+
+    await this.sessionModel.updateOne(
+      { _id: new Types.ObjectId(user.sid), userId: new Types.ObjectId(user.sub), revokedAt: null },
+      { revokedAt: new Date(), revokedReason: SessionRevokeReason.LOGOUT, revokedBy: user.sub },
+    );
+  }
+
+  async getSessions(userId: string, currentSessionId?: string) {
+    const sessions = await this.sessionModel
+      .find({ userId: new Types.ObjectId(userId), revokedAt: null, expiresAt: { $gt: new Date() } })
+      .sort({ lastUsedAt: -1 })
+      .lean();
+
+    return sessions.map((session) => ({
+      id: session._id.toString(),
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      lastIpAddress: session.lastIpAddress,
+      lastUsedAt: session.lastUsedAt,
+      createdAt: session.createdAt,
+      expiresAt: session.expiresAt,
+      impersonatedBy: session.impersonatorEmail,
+      current: session._id.toString() === currentSessionId,
+    }));
+  }
+
+  async revokeSession(userId: string, sessionId: string, reason: SessionRevokeReason, revokedBy: string): Promise<void> {
+    const result = await this.sessionModel.updateOne(
+      { _id: new Types.ObjectId(sessionId), userId: new Types.ObjectId(userId), revokedAt: null },
+      { revokedAt: new Date(), revokedReason: reason, revokedBy },
+    );
+
+    if (result.matchedCount === 0) {
+      throw new NotFoundException('Session not found');
+    }
+  }
+
+  /**
+   * Revoke every active session of a user, optionally keeping one
+   * (e.g. the session that asked to sign out everywhere else)
+   */
+  async revokeAllSessions(userId: string, reason: SessionRevokeReason, revokedBy?: string, exceptSessionId?: string): Promise<number> {
+    const filter: any = { userId: new Types.ObjectId(userId), revokedAt: null };
+    if (exceptSessionId) filter._id = { $ne: new Types.ObjectId(exceptSessionId) };
+
+    const result = await this.sessionModel.updateMany(filter, {
+      revokedAt: new Date(),
+      revokedReason: reason,
+      revokedBy,
+    });
+
+    if (result.modifiedCount > 0) {
+      this.logger.log(`Revoked ${result.modifiedCount} session(s) of user ${userId}: ${reason}`);
+    }
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Revoke every active session in a tenant, e.g. when it is suspended
+   */
+  async revokeTenantSessions(tenantId: string, reason: SessionRevokeReason, revokedBy?: string): Promise<number> {
+    const result = await this.sessionModel.updateMany(
+      { tenantId: new Types.ObjectId(tenantId), revokedAt: null },
+      { revokedAt: new Date(), revokedReason: reason, revokedBy },
+    );
+
+    if (result.modifiedCount > 0) {
+      this.logger.log(`Revoked ${result.modifiedCount} session(s) in tenant ${tenantId}: ${reason}`);
+    }
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Logins, token refreshes and API keys are refused for tenants that are
+   * not active. Tenants without a Tenant record (and the system entity)
+   * count as active. Statuses are cached briefly; call
+   * invalidateTenantStatus when changing one.
+   */
+  async assertTenantActive(tenantId?: string | Types.ObjectId): Promise<void> {
+    if (!tenantId) return;
+
+    const id = tenantId.toString();
+    let cached = this.tenantStatus.get(id);
+    if (!cached || cached.expiresAt <= Date.now()) {
+      const tenant = await this.tenantModel.findById(id).select('status').lean();
+      cached = { status: tenant?.status || TenantStatus.ACTIVE, expiresAt: Date.now() + this.TENANT_STATUS_TTL_MS };
+      this.tenantStatus.set(id, cached);
+    }
+
+    if (cached.status !== TenantStatus.ACTIVE) {
+      throw new ForbiddenException(`Tenant is ${cached.status}`);
+    }
+  }
+
+  invalidateTenantStatus(tenantId: string): void {
+    this.tenantStatus.delete(tenantId);
+  }
+
+  private signChallengeToken(user: any, purpose: LoginChallengePurpose): { challenge_token: string; expiresIn: string } {
+    const expiresIn = this.configService.get<string>('twoFactor.challengeExpiresIn');
+    const challenge_token = this.jwtService.sign(
+      { sub: user._id.toString(), purpose },
+      { secret: this.challengeSecret(), expiresIn, jwtid: crypto.randomUUID() },
+    );
+
+    return { challenge_token, expiresIn };
+  }
+
+  private async resolveChallenge(challengeToken: string, purpose: LoginChallengePurpose) {
+    let payload: { sub: string; purpose: LoginChallengePurpose };
+    try {
+      payload = this.jwtService.verify(challengeToken, { secret: this.challengeSecret() });
+    } catch (error) {
+      throw new UnauthorizedException('Invalid or expired challenge token');
+    }
+
+    if (payload.purpose !== purpose) {
+      throw new UnauthorizedException('Invalid or expired challenge token');
+    }
+
+    const user = await this.userModel.findOne({ _id: new Types.ObjectId(payload.sub), isActive: true });
+    if (!user) {
+      throw new UnauthorizedException('User not found or inactive');
+    }
+
+    return user.toObject();
+  }
+
+  // Failures are kept for the latest challenge only; older ones are covered by the account lockout
+  private async recordChallengeFailure(userId: Types.ObjectId, challengeId: string): Promise<void> {
+    const counted = await this.userModel.updateOne(
+      { _id: userId, twoFactorChallengeId: challengeId },
+      { $inc: { twoFactorChallengeFailures: 1 } },
+    );
+    if (counted.matchedCount > 0) return;
+
+    await this.userModel.updateOne(
+      { _id: userId },
+      { twoFactorChallengeId: challengeId, twoFactorChallengeFailures: 1 },
+    );
+  }
+
+  /**
+   * Record a challenge as used. Like refresh token rotation this is a single
+   * conditional update, so of two concurrent verifications only one wins.
+   * Challenges expire within minutes, so only the latest few are kept.
+   */
+  private async consumeChallenge(userId: Types.ObjectId, challengeId: string): Promise<boolean> {
+    const consumed = await this.userModel.updateOne(
+      { _id: userId, twoFactorUsedChallengeIds: { $ne: challengeId } },
+      { $push: { twoFactorUsedChallengeIds: { $each: [challengeId], $slice: -this.USED_CHALLENGE_HISTORY } } },
+    );
+
+    return consumed.modifiedCount > 0;
+  }
+
+  // Separate from the access token secret so a challenge can never pass as an access token
+  private challengeSecret(): string {
+    return `${this.configService.get<string>('jwt.secret')}:two-factor`;
+  }
+
+  private signRefreshToken(payload: JwtPayload): { refresh_token: string; refreshTokenId: string; expiresAt: Date } {
+    const refreshTokenId = crypto.randomUUID();
+    const refresh_token = this.jwtService.sign(payload, {
+      secret: process.env.JWT_REFRESH_SECRET,
+      expiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
+      jwtid: refreshTokenId,
+    });
+    const { exp } = this.jwtService.decode(refresh_token) as { exp: number };
+
+    return { refresh_token, refreshTokenId, expiresAt: new Date(exp * 1000) };
+  }
+
+  private async revokeReusedSession(session: AuthSessionDocument): Promise<void> {
+    this.logger.warn(`Refresh token reuse detected for session ${session._id} of user ${session.userId}; revoking the session`);
+
+    await this.sessionModel.updateOne(
+      { _id: session._id, revokedAt: null },
+      { revokedAt: new Date(), revokedReason: SessionRevokeReason.TOKEN_REUSE },
+    );
   }
 
   async hashPassword(password: string): Promise<string> {
@@ -132,7 +703,7 @@ export class AuthService {
     return bcrypt.compare(password, hashedPassword);
   }
 
-  async register(registerDto: RegisterDto): Promise<LoginResponse> {
+  async register(registerDto: RegisterDto, context: SessionContext = {}): Promise<LoginResponse | LoginChallengeResponse> {
     // Check if user already exists
     const existingUser = await this.userModel.findOne({
       $or: [{ email: registerDto.email }, { phoneNumber: registerDto.phoneNumber }],
@@ -167,7 +738,7 @@ export class AuthService {
       entityPath = entity.path;
     }
 
-    // Hash password
+    await this.passwordPolicyService.assertAcceptable(registerDto.password);
     const hashedPassword = await this.hashPassword(registerDto.password);
 
     // Create new user
@@ -182,6 +753,7 @@ export class AuthService {
       entityPath,
       role: UserRole.USER,
       registrationStatus: 'registered',
+      passwordChangedAt: new Date(),
       isActive: true,
     });
 
@@ -191,7 +763,7 @@ export class AuthService {
     const userObj = savedUser.toObject();
     const { password: _, ...userWithoutPassword } = userObj;
     
-    return this.login(userWithoutPassword);
+    return this.login(userWithoutPassword, context);
   }
 
   async forgotPassword(forgotPasswordDto: ForgotPasswordDto): Promise<{ message: string }> {
@@ -242,7 +814,7 @@ export class AuthService {
     const users = await this.userModel.find({
       resetPasswordExpires: { $gt: new Date() },
       isActive: true
-    }).select('+resetPasswordToken +password');
+    }).select('+resetPasswordToken');
 
     // Find user by matching token
     let matchedUser = null;
@@ -257,14 +829,13 @@ export class AuthService {
       throw new BadRequestException('Invalid or expired reset token');
     }
 
-    // Hash new password
-    const hashedPassword = await this.hashPassword(newPassword);
+    // The token stays usable if the new password is rejected
+    await this.setPassword(matchedUser._id.toString(), newPassword);
 
-    // Update user password and clear reset token
-    matchedUser.password = hashedPassword;
-    matchedUser.resetPasswordToken = undefined;
-    matchedUser.resetPasswordExpires = undefined;
-    await matchedUser.save();
+    await this.userModel.updateOne(
+      { _id: matchedUser._id },
+      { $unset: { resetPasswordToken: 1, resetPasswordExpires: 1 } },
+    );
 
     return { message: 'Password has been reset successfully' };
   }
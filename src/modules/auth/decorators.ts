@@ -1,5 +1,26 @@
-import { SetMetadata } from '@nestjs/common';
+import { SetMetadata, createParamDecorator, ExecutionContext, applyDecorators } from '@nestjs/common';
+import { ApiSecurity } from '@nestjs/swagger';
 import { UserRole } from '../../common/schemas/user.schema';
+import { Permission } from '../../common/constants/permissions';
+import { resolveEntityScope } from './entity-scope';
 
 export const Roles = (...roles: UserRole[]) => SetMetadata('roles', roles);
 export const RequireTenant = () => SetMetadata('tenant', true);
+export const RequirePermissions = (...permissions: Permission[]) => SetMetadata('permissions', permissions);
+
+// Lets tenant API keys call the endpoint in addition to signed-in users
+export const ALLOW_API_KEY = 'allowApiKey';
+export const AllowApiKey = () => applyDecorators(SetMetadata(ALLOW_API_KEY, true), ApiSecurity('api-key'));
+
+// Refuses the endpoint to impersonation tokens, reads included
+export const DENY_DURING_IMPERSONATION = 'denyDuringImpersonation';
+export const DenyDuringImpersonation = () => SetMetadata(DENY_DURING_IMPERSONATION, true);
+
+// Lets impersonation tokens make a non-GET/HEAD request, which are refused otherwise
+export const ALLOW_DURING_IMPERSONATION = 'allowDuringImpersonation';
+export const AllowDuringImpersonation = () => SetMetadata(ALLOW_DURING_IMPERSONATION, true);
+
+// Injects the EntityScope the authenticated user holds for a permission
+export const EntityScopeFor = createParamDecorator((permission: Permission, context: ExecutionContext) =>
+  resolveEntityScope(context.switchToHttp().getRequest().user, permission),
+);
@@ -0,0 +1,22 @@
+import { IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ChangePasswordDto {
+  @ApiProperty({ example: 'password123', description: 'Current password' })
+  @IsString()
+  currentPassword: string;
+
+  @ApiProperty({ example: 'Correct-Horse-42', description: 'Must satisfy the password policy (GET auth/password-policy)' })
+  @IsString()
+  newPassword: string;
+}
+
+export class CompletePasswordChangeDto {
+  @ApiProperty({ description: 'challenge_token returned by the login endpoint' })
+  @IsString()
+  challenge_token: string;
+
+  @ApiProperty({ example: 'Correct-Horse-42', description: 'Must satisfy the password policy (GET auth/password-policy)' })
+  @IsString()
+  newPassword: string;
+}
@@ -0,0 +1,16 @@
+import { IsString, IsOptional, IsInt, Min, MinLength, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ImpersonateDto {
+  @ApiProperty({ example: 'Ticket #4821: user cannot see their campaigns', description: 'Why access is needed; kept with the session and in the audit log' })
+  @IsString()
+  @MinLength(5)
+  @MaxLength(500)
+  reason: string;
+
+  @ApiProperty({ example: 15, description: 'Token lifetime in minutes (server default and maximum apply)', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  durationMinutes?: number;
+}
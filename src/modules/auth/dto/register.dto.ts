@@ -1,4 +1,4 @@
-import { IsEmail, IsString, MinLength, IsOptional, IsMongoId } from 'class-validator';
+import { IsEmail, IsString, IsOptional, IsMongoId } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class RegisterDto {
@@ -18,9 +18,8 @@ export class RegisterDto {
   @IsString()
   lastName: string;
 
-  @ApiProperty({ example: 'password123' })
+  @ApiProperty({ example: 'Correct-Horse-42', description: 'Must satisfy the password policy (GET auth/password-policy)' })
   @IsString()
-  @MinLength(6)
   password: string;
 
   @ApiProperty({ example: '507f1f77bcf86cd799439011', required: false })
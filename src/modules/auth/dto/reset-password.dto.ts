@@ -1,4 +1,4 @@
-import { IsString, MinLength } from 'class-validator';
+import { IsString } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class ResetPasswordDto {
@@ -6,9 +6,8 @@ export class ResetPasswordDto {
   @IsString()
   token: string;
 
-  @ApiProperty({ example: 'newPassword123' })
+  @ApiProperty({ example: 'Correct-Horse-42', description: 'Must satisfy the password policy (GET auth/password-policy)' })
   @IsString()
-  @MinLength(6)
   newPassword: string;
 }
 
@@ -0,0 +1,59 @@
+import { IsString, IsOptional, IsArray, IsIn, Length, ValidateIf } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UserRole } from '../../../common/schemas/user.schema';
+
+export class TwoFactorCodeDto {
+  @ApiProperty({ example: '123456', description: 'Code from the authenticator app' })
+  @IsString()
+  @Length(6, 6)
+  code: string;
+}
+
+export class TwoFactorCredentialsDto {
+  @ApiPropertyOptional({ example: '123456', description: 'Code from the authenticator app' })
+  @ValidateIf((dto) => !dto.recoveryCode)
+  @IsString()
+  @Length(6, 6)
+  code?: string;
+
+  @ApiPropertyOptional({ example: 'a1b2c-3d4e5', description: 'One of the recovery codes, instead of a code' })
+  @IsOptional()
+  @IsString()
+  recoveryCode?: string;
+}
+
+export class TwoFactorChallengeDto {
+  @ApiProperty({ description: 'challenge_token returned by the login endpoint' })
+  @IsString()
+  challenge_token: string;
+}
+
+export class VerifyTwoFactorDto extends TwoFactorCredentialsDto {
+  @ApiProperty({ description: 'challenge_token returned by the login endpoint' })
+  @IsString()
+  challenge_token: string;
+}
+
+export class ConfirmTwoFactorEnrollmentDto extends TwoFactorCodeDto {
+  @ApiProperty({ description: 'challenge_token returned by the login endpoint' })
+  @IsString()
+  challenge_token: string;
+}
+
+export class DisableTwoFactorDto extends TwoFactorCredentialsDto {
+  @ApiProperty({ example: 'password123', description: 'Current password' })
+  @IsString()
+  password: string;
+}
+
+export class UpdateTwoFactorPolicyDto {
+  @ApiProperty({ enum: [UserRole.TENANT_ADMIN, UserRole.USER], isArray: true, example: [UserRole.TENANT_ADMIN] })
+  @IsArray()
+  @IsIn([UserRole.TENANT_ADMIN, UserRole.USER], { each: true })
+  requiredRoles: UserRole[];
+
+  @ApiPropertyOptional({ description: 'Tenant to update; required for SystemAdmin' })
+  @IsOptional()
+  @IsString()
+  tenantId?: string;
+}
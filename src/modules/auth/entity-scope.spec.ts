@@ -0,0 +1,107 @@
+import { Types } from 'mongoose';
+import { Permission } from '../../common/constants/permissions';
+import { SYSTEM_ENTITY_ID } from '../../common/constants/system-entity';
+import { JwtPayload } from './auth.service';
+import { defaultScopeEntityId, entityScopeFilter, isInEntityScope, isUnrestrictedScope, resolveEntityScope } from './entity-scope';
+
+describe('entity scope', () => {
+  // tenant root -> department A / department B (siblings), team A1 under A
+  const tenantId = new Types.ObjectId().toString();
+  const otherTenantId = new Types.ObjectId().toString();
+  const deptA = new Types.ObjectId().toString();
+  const deptB = new Types.ObjectId().toString();
+  const teamA1 = new Types.ObjectId().toString();
+
+  const pathOf = (...ids: string[]) => ids.map((id) => new Types.ObjectId(id));
+  const scopeA = { tenantId, entityIds: [deptA] };
+
+  describe('resolveEntityScope', () => {
+    const user = (permissions: Record<string, string[]>) => ({ tenantId, permissions }) as unknown as JwtPayload;
+
+    it('limits the scope to the tenant and the entities the permission is held over', () => {
+      expect(resolveEntityScope(user({ [Permission.USERS_READ]: [deptA] }), Permission.USERS_READ)).toEqual(scopeA);
+    });
+
+    it('matches nothing when the permission is not held', () => {
+      expect(resolveEntityScope(user({}), Permission.USERS_READ)).toEqual({ tenantId, entityIds: [] });
+    });
+
+    it('is unrestricted when the permission is held over the system entity', () => {
+      const scope = resolveEntityScope(user({ [Permission.USERS_READ]: [SYSTEM_ENTITY_ID.toString()] }), Permission.USERS_READ);
+
+      expect(scope).toEqual({});
+      expect(isUnrestrictedScope(scope)).toBe(true);
+    });
+  });
+
+  describe('entityScopeFilter', () => {
+    it('restricts documents to the tenant and the scope subtrees', () => {
+      expect(entityScopeFilter(scopeA)).toEqual({
+        tenantId: new Types.ObjectId(tenantId),
+        entityIdPath: { $in: pathOf(deptA) },
+      });
+    });
+
+    it('keeps the scope when narrowing to a sibling department', () => {
+      // $in and $all both apply, so only documents under A and B at once match
+      expect(entityScopeFilter(scopeA, deptB)).toEqual({
+        tenantId: new Types.ObjectId(tenantId),
+        entityIdPath: { $in: pathOf(deptA), $all: pathOf(deptB) },
+      });
+    });
+
+    it('narrows to a subtree inside the scope', () => {
+      expect(entityScopeFilter(scopeA, teamA1).entityIdPath).toEqual({ $in: pathOf(deptA), $all: pathOf(teamA1) });
+    });
+
+    it('ignores narrowing to the system entity', () => {
+      expect(entityScopeFilter(scopeA, SYSTEM_ENTITY_ID.toString())).toEqual(entityScopeFilter(scopeA));
+    });
+
+    it('matches no entity for an empty scope', () => {
+      expect(entityScopeFilter({ tenantId, entityIds: [] }).entityIdPath).toEqual({ $in: [] });
+    });
+
+    it('adds no conditions for an unrestricted scope', () => {
+      expect(entityScopeFilter({})).toEqual({});
+    });
+  });
+
+  describe('isInEntityScope', () => {
+    it('accepts resources in the scope subtree', () => {
+      expect(isInEntityScope(scopeA, { tenantId, entityIdPath: pathOf(tenantId, deptA) })).toBe(true);
+      expect(isInEntityScope(scopeA, { tenantId, entityIdPath: pathOf(tenantId, deptA, teamA1) })).toBe(true);
+    });
+
+    it('rejects resources of a sibling department', () => {
+      expect(isInEntityScope(scopeA, { tenantId, entityIdPath: pathOf(tenantId, deptB) })).toBe(false);
+    });
+
+    it('rejects resources of the parent entity', () => {
+      expect(isInEntityScope(scopeA, { tenantId, entityIdPath: pathOf(tenantId) })).toBe(false);
+    });
+
+    it('rejects resources of another tenant', () => {
+      expect(isInEntityScope(scopeA, { tenantId: otherTenantId, entityIdPath: pathOf(otherTenantId, deptA) })).toBe(false);
+    });
+
+    it('rejects everything for an empty scope', () => {
+      expect(isInEntityScope({ tenantId, entityIds: [] }, { tenantId, entityIdPath: pathOf(tenantId, deptA) })).toBe(false);
+    });
+
+    it('accepts every resource of the tenant for a tenant-wide scope', () => {
+      expect(isInEntityScope({ tenantId }, { tenantId, entityIdPath: pathOf(tenantId, deptB) })).toBe(true);
+    });
+  });
+
+  describe('defaultScopeEntityId', () => {
+    it('picks the only subtree of the scope', () => {
+      expect(defaultScopeEntityId(scopeA)).toBe(deptA);
+    });
+
+    it('picks nothing when the scope has several subtrees or is unrestricted', () => {
+      expect(defaultScopeEntityId({ tenantId, entityIds: [deptA, deptB] })).toBeUndefined();
+      expect(defaultScopeEntityId({})).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { Types } from 'mongoose';
+import { Permission } from '../../common/constants/permissions';
+import { SYSTEM_ENTITY_ID } from '../../common/constants/system-entity';
+import { JwtPayload } from './auth.service';
+
+/**
+ * The part of the entity hierarchy a request may touch with one permission:
+ * the caller's tenant and the subtrees rooted at the permission's scope
+ * entities. Both are left undefined when the permission applies everywhere.
+ */
+export interface EntityScope {
+  tenantId?: string;
+  entityIds?: string[];
+}
+
+/**
+ * Derive the scope of a permission from the authenticated user. Users without
+ * the permission get an empty subtree list, which matches nothing.
+ */
+export function resolveEntityScope(user: JwtPayload, permission: Permission): EntityScope {
+  const scopeIds = user?.permissions?.[permission] || [];
+
+  if (scopeIds.includes(SYSTEM_ENTITY_ID.toString())) {
+    return {};
+  }
+
+  return { tenantId: user?.tenantId, entityIds: scopeIds };
+}
+
+/**
+ * Mongo filter limiting documents with tenantId/entityIdPath to the scope,
+ * optionally narrowed to one entity's subtree inside it
+ */
+export function entityScopeFilter(scope: EntityScope, narrowToEntityId?: string): Record<string, any> {
+  const filter: Record<string, any> = {};
+
+  if (scope.tenantId) {
+    filter.tenantId = new Types.ObjectId(scope.tenantId);
+  }
+
+  const entityIdPath: Record<string, any> = {};
+  if (scope.entityIds) {
+    entityIdPath.$in = scope.entityIds.map((id) => new Types.ObjectId(id));
+  }
+  if (narrowToEntityId && narrowToEntityId !== SYSTEM_ENTITY_ID.toString()) {
+    entityIdPath.$all = [new Types.ObjectId(narrowToEntityId)];
+  }
+  if (Object.keys(entityIdPath).length) {
+    filter.entityIdPath = entityIdPath;
+  }
+
+  return filter;
+}
+
+/**
+ * Whether a loaded document lies inside the scope
+ */
+export function isInEntityScope(
+  scope: EntityScope,
+  resource: { tenantId?: Types.ObjectId | string; entityIdPath?: (Types.ObjectId | string)[] },
+): boolean {
+  if (scope.tenantId && resource.tenantId?.toString() !== scope.tenantId) {
+    return false;
+  }
+
+  if (!scope.entityIds) {
+    return true;
+  }
+
+  return (resource.entityIdPath || []).some((id) => scope.entityIds.includes(id.toString()));
+}
+
+/**
+ * The entity a request acts on when it names none: the scope's subtree,
+ * provided there is exactly one
+ */
+export function defaultScopeEntityId(scope: EntityScope): string | undefined {
+  return scope.entityIds?.length === 1 ? scope.entityIds[0] : undefined;
+}
+
+export function isUnrestrictedScope(scope: EntityScope): boolean {
+  return !scope.tenantId && !scope.entityIds;
+}
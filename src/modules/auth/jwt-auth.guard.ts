@@ -1,5 +1,45 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, ExecutionContext, UnauthorizedException, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
+import { ALLOW_API_KEY, ALLOW_DURING_IMPERSONATION, DENY_DURING_IMPERSONATION } from './decorators';
 
+export const IMPERSONATED_BY_HEADER = 'X-Impersonated-By';
+
+const READ_ONLY_METHODS = ['GET', 'HEAD'];
+
+/**
+ * Accepts access tokens everywhere and tenant API keys on endpoints marked
+ * with @AllowApiKey(). Impersonation tokens are flagged on every response
+ * and can only read, apart from endpoints marked @AllowDuringImpersonation().
+ */
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {}
+export class JwtAuthGuard extends AuthGuard(['jwt', 'api-key']) {
+  constructor(private reflector: Reflector) {
+    super();
+  }
+
+  handleRequest(err: any, user: any, info: any, context: ExecutionContext) {
+    if (err || !user) {
+      throw err || new UnauthorizedException();
+    }
+
+    const targets = [context.getHandler(), context.getClass()];
+    const allowApiKey = this.reflector.getAllAndOverride<boolean>(ALLOW_API_KEY, targets);
+    if (user.apiKeyId && !allowApiKey) {
+      throw new UnauthorizedException('API keys are not accepted for this endpoint');
+    }
+
+    if (user.impersonator) {
+      const request = context.switchToHttp().getRequest();
+      context.switchToHttp().getResponse().setHeader(IMPERSONATED_BY_HEADER, user.impersonator.email);
+
+      const denied = this.reflector.getAllAndOverride<boolean>(DENY_DURING_IMPERSONATION, targets);
+      const allowed = this.reflector.getAllAndOverride<boolean>(ALLOW_DURING_IMPERSONATION, targets);
+      if (denied || (!READ_ONLY_METHODS.includes(request.method) && !allowed)) {
+        throw new ForbiddenException('Not allowed while impersonating a user');
+      }
+    }
+
+    return user;
+  }
+}
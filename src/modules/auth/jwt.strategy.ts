@@ -1,13 +1,15 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { Strategy, ExtractJwt } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
 import { AuthService, JwtPayload } from './auth.service';
+import { PermissionsService } from './permissions.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     private authService: AuthService,
+    private permissionsService: PermissionsService,
     private configService: ConfigService,
   ) {
     super({
@@ -18,6 +20,15 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   }
 
   async validate(payload: JwtPayload): Promise<JwtPayload> {
-    return payload;
+    if (!(await this.authService.isSessionActive(payload))) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    // SystemAdmins may still look into a suspended tenant
+    if (!payload.impersonator) {
+      await this.authService.assertTenantActive(payload.tenantId);
+    }
+
+    return { ...payload, permissions: await this.permissionsService.resolve(payload) };
   }
 }
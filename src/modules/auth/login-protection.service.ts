@@ -0,0 +1,272 @@
+import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import { User } from '../../common/schemas/user.schema';
+import { Alert, AlertDocument, AlertType, AlertSeverity, AlertStatus } from '../../common/schemas/alert.schema';
+import { AuditAction, AuditResource, AuditResult } from '../../common/schemas/audit-log.schema';
+import { AuditService } from '../../common/services/audit.service';
+import { SYSTEM_ENTITY_ID } from '../../common/constants/system-entity';
+import { SessionContext } from './auth.service';
+
+export enum SuspiciousLoginReason {
+  REPEATED_FAILURES = 'repeated_failures',
+  NEW_IP_ADDRESS = 'new_ip_address',
+}
+
+/**
+ * Progressive lockout after failed password or second-factor attempts, and audit entries and
+ * alerts for sign-ins worth a second look. Audit and alert failures are
+ * logged and never block a login.
+ */
+@Injectable()
+export class LoginProtectionService {
+  private readonly logger = new Logger(LoginProtectionService.name);
+
+  constructor(
+    @InjectModel(User.name)
+    private userModel: Model<User>,
+    @InjectModel(Alert.name)
+    private alertModel: Model<AlertDocument>,
+    private auditService: AuditService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Refuse to check passwords while the account is locked out
+   */
+  assertNotLocked(user: any): void {
+    if (!user.lockedUntil || user.lockedUntil.getTime() <= Date.now()) return;
+
+    const retryAfter = Math.ceil((user.lockedUntil.getTime() - Date.now()) / 1000);
+    throw new HttpException(
+      {
+        message: `Account is locked after too many failed login attempts. Try again in ${Math.ceil(retryAfter / 60)} minute(s)`,
+        retryAfter,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  /**
+   * Count a wrong password
+   */
+  async recordFailure(user: any, context: SessionContext): Promise<void> {
+    const updated = await this.userModel.findOneAndUpdate(
+      { _id: user._id },
+      { $inc: { failedLoginAttempts: 1 }, lastFailedLoginAt: new Date() },
+      { new: true },
+    );
+    if (!updated) return;
+
+    await this.audit(updated, context, AuditResult.FAILURE, 'login_failed', {
+      failedLoginAttempts: updated.failedLoginAttempts,
+    });
+
+    await this.lockIfExceeded(updated, 'failedLoginAttempts', 'failed login attempts', context);
+  }
+
+  /**
+   * Count a wrong second-factor code. Kept apart from failedLoginAttempts,
+   * which a correct password resets, and locks the account the same way.
+   */
+  async recordTwoFactorFailure(user: any, context: SessionContext): Promise<void> {
+    const updated = await this.userModel.findOneAndUpdate(
+      { _id: user._id },
+      { $inc: { twoFactorFailedAttempts: 1 } },
+      { new: true },
+    );
+    if (!updated) return;
+
+    await this.audit(updated, context, AuditResult.FAILURE, 'two_factor_failed', {
+      twoFactorFailedAttempts: updated.twoFactorFailedAttempts,
+    });
+
+    await this.lockIfExceeded(updated, 'twoFactorFailedAttempts', 'failed two-factor attempts', context);
+  }
+
+  /**
+   * The password was right: forget earlier failures and lockouts. With a
+   * second factor the sign-in only completes with the code, so consecutive
+   * lockouts keep counting until recordTwoFactorSuccess.
+   */
+  async recordSuccess(user: any): Promise<void> {
+    const resetLockouts = !(user.twoFactorEnabled && this.configService.get<boolean>('features.twoFactorAuth'));
+    if (!user.failedLoginAttempts && !user.lockedUntil && !(resetLockouts && user.lockoutCount)) return;
+
+    const update: any = { failedLoginAttempts: 0, $unset: { lockedUntil: 1 } };
+    if (resetLockouts) update.lockoutCount = 0;
+
+    await this.userModel.updateOne({ _id: user._id }, update);
+  }
+
+  async recordTwoFactorSuccess(user: any): Promise<void> {
+    if (!user.twoFactorFailedAttempts && !user.lockoutCount) return;
+
+    await this.userModel.updateOne({ _id: user._id }, { twoFactorFailedAttempts: 0, lockoutCount: 0 });
+  }
+
+  /**
+   * Remember where a user signs in from and flag addresses not seen before.
+   * The first address on record is trusted.
+   */
+  async recordSignIn(user: any, context: SessionContext): Promise<void> {
+    const current = await this.userModel.findById(user._id).select('+knownIpAddresses');
+    if (!current) return;
+
+    const update: any = { lastLoginAt: new Date() };
+    const ipAddress = context.ipAddress;
+    const knownIpAddresses = current.knownIpAddresses || [];
+    const isNewIp = !!ipAddress && knownIpAddresses.length > 0 && !knownIpAddresses.includes(ipAddress);
+
+    if (ipAddress) {
+      update.knownIpAddresses = [ipAddress, ...knownIpAddresses.filter((ip) => ip !== ipAddress)].slice(
+        0,
+        this.configService.get<number>('loginProtection.knownIpLimit'),
+      );
+    }
+
+    await this.userModel.updateOne({ _id: current._id }, update);
+
+    if (!isNewIp) return;
+
+    const metadata = {
+      reason: SuspiciousLoginReason.NEW_IP_ADDRESS,
+      ipAddress,
+      userAgent: context.userAgent,
+      previousIpAddresses: knownIpAddresses,
+    };
+    await this.audit(current, context, AuditResult.SUCCESS, 'login_new_ip', metadata);
+    await this.raiseAlert(
+      current,
+      AlertSeverity.LOW,
+      'Login from a new IP address',
+      `${current.email} signed in from ${ipAddress}, which has not been used for this account recently`,
+      metadata,
+    );
+  }
+
+  /**
+   * Reaching the limit locks the account, twice as long as the previous
+   * lockout, up to the configured maximum
+   */
+  private async lockIfExceeded(
+    updated: any,
+    counter: 'failedLoginAttempts' | 'twoFactorFailedAttempts',
+    description: string,
+    context: SessionContext,
+  ): Promise<void> {
+    const maxFailedAttempts = this.configService.get<number>('loginProtection.maxFailedAttempts');
+    if (updated[counter] < maxFailedAttempts) return;
+
+    const lockoutMs = Math.min(
+      this.configService.get<number>('loginProtection.lockoutMinutes') * Math.pow(2, updated.lockoutCount || 0),
+      this.configService.get<number>('loginProtection.maxLockoutMinutes'),
+    ) * 60000;
+    const lockedUntil = new Date(Date.now() + lockoutMs);
+
+    // Concurrent failures race to the limit; only one of them locks
+    const locked = await this.userModel.findOneAndUpdate(
+      { _id: updated._id, [counter]: { $gte: maxFailedAttempts } },
+      { [counter]: 0, lockedUntil, $inc: { lockoutCount: 1 } },
+      { new: true },
+    );
+    if (!locked) return;
+
+    this.logger.warn(`User ${locked._id} locked out until ${lockedUntil.toISOString()} after ${maxFailedAttempts} ${description}`);
+
+    const metadata = {
+      reason: SuspiciousLoginReason.REPEATED_FAILURES,
+      failedAttempts: maxFailedAttempts,
+      lockoutCount: locked.lockoutCount,
+      lockedUntil,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    };
+    await this.audit(locked, context, AuditResult.FAILURE, 'account_locked', metadata);
+    await this.raiseAlert(
+      locked,
+      locked.lockoutCount > 1 ? AlertSeverity.HIGH : AlertSeverity.MEDIUM,
+      'Account locked after repeated failed logins',
+      `${locked.email} was locked out until ${lockedUntil.toISOString()} after ${maxFailedAttempts} ${description} (lockout #${locked.lockoutCount})`,
+      metadata,
+    );
+  }
+
+  private async audit(
+    user: any,
+    context: SessionContext,
+    result: AuditResult,
+    resourceName: string,
+    metadata: Record<string, any>,
+  ): Promise<void> {
+    try {
+      await this.auditService.logAuditEvent({
+        action: AuditAction.LOGIN,
+        resource: AuditResource.USER,
+        resourceId: user._id.toString(),
+        resourceName,
+        userId: user._id.toString(),
+        userEmail: user.email,
+        userName: `${user.firstName} ${user.lastName}`,
+        tenantId: (user.tenantId || SYSTEM_ENTITY_ID).toString(),
+        tenantName: '',
+        result,
+        metadata,
+        ipAddress: context.ipAddress || 'unknown',
+        userAgent: context.userAgent || 'unknown',
+      });
+    } catch (error) {
+      this.logger.error(`Failed to record ${resourceName} for user ${user._id}: ${error.message}`, error);
+    }
+  }
+
+  // One open alert per user and reason; repeats bump its occurrence count
+  private async raiseAlert(
+    user: any,
+    severity: AlertSeverity,
+    title: string,
+    description: string,
+    metadata: Record<string, any>,
+  ): Promise<void> {
+    try {
+      const now = new Date();
+      const existing = await this.alertModel.findOne({
+        type: AlertType.SUSPICIOUS_LOGIN,
+        userId: user._id,
+        'metadata.reason': metadata.reason,
+        status: AlertStatus.OPEN,
+      });
+
+      if (existing) {
+        existing.occurrenceCount += 1;
+        existing.lastOccurredAt = now;
+        existing.severity = severity;
+        existing.description = description;
+        existing.metadata = { ...existing.metadata, ...metadata };
+        await existing.save();
+        return;
+      }
+
+      await this.alertModel.create({
+        type: AlertType.SUSPICIOUS_LOGIN,
+        severity,
+        status: AlertStatus.OPEN,
+        title,
+        description,
+        userId: user._id,
+        phoneNumber: user.phoneNumber,
+        entityId: user.entityId || SYSTEM_ENTITY_ID,
+        entityIdPath: user.entityIdPath || [],
+        tenantId: user.tenantId || SYSTEM_ENTITY_ID,
+        firstOccurredAt: now,
+        lastOccurredAt: now,
+        metadata,
+        tags: ['security', 'login'],
+        createdBy: 'system',
+      });
+    } catch (error) {
+      this.logger.error(`Failed to raise suspicious login alert for user ${user._id}: ${error.message}`, error);
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { isBreachedPassword } from '../../common/constants/breached-passwords';
+import * as bcrypt from 'bcryptjs';
+import * as crypto from 'crypto';
+
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  rejectBreached: boolean;
+  historySize: number;
+}
+
+/**
+ * Previous password hashes of a user, newest first: the current password
+ * followed by its history
+ */
+export interface PasswordHistorySubject {
+  password?: string;
+  passwordHistory?: string[];
+}
+
+const UPPERCASE = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+const LOWERCASE = 'abcdefghijkmnopqrstuvwxyz';
+const NUMBERS = '23456789';
+const SYMBOLS = '!@#$%^&*-_=+?';
+
+@Injectable()
+export class PasswordPolicyService {
+  // bcrypt ignores everything after 72 bytes
+  private readonly MAX_LENGTH = 72;
+
+  constructor(private configService: ConfigService) {}
+
+  getPolicy(): PasswordPolicy {
+    return {
+      minLength: this.configService.get<number>('passwordPolicy.minLength'),
+      maxLength: this.MAX_LENGTH,
+      requireUppercase: this.configService.get<boolean>('passwordPolicy.requireUppercase'),
+      requireLowercase: this.configService.get<boolean>('passwordPolicy.requireLowercase'),
+      requireNumber: this.configService.get<boolean>('passwordPolicy.requireNumber'),
+      requireSymbol: this.configService.get<boolean>('passwordPolicy.requireSymbol'),
+      rejectBreached: this.configService.get<boolean>('passwordPolicy.rejectBreached'),
+      historySize: this.configService.get<number>('passwordPolicy.historySize'),
+    };
+  }
+
+  /**
+   * Reject a new password that breaks the policy or reuses one of the user's
+   * recent passwords. Every violation is reported at once.
+   */
+  async assertAcceptable(password: string, user?: PasswordHistorySubject): Promise<void> {
+    const policy = this.getPolicy();
+    const violations: string[] = [];
+
+    if (!password || password.length < policy.minLength) {
+      violations.push(`Password must be at least ${policy.minLength} characters long`);
+    }
+    if (Buffer.byteLength(password || '') > policy.maxLength) {
+      violations.push(`Password must be at most ${policy.maxLength} bytes long`);
+    }
+    if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+      violations.push('Password must contain an uppercase letter');
+    }
+    if (policy.requireLowercase && !/[a-z]/.test(password)) {
+      violations.push('Password must contain a lowercase letter');
+    }
+    if (policy.requireNumber && !/[0-9]/.test(password)) {
+      violations.push('Password must contain a number');
+    }
+    if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+      violations.push('Password must contain a symbol');
+    }
+    if (policy.rejectBreached && isBreachedPassword(password)) {
+      violations.push('Password is too common and appears in known data breaches');
+    }
+
+    if (!violations.length && user && (await this.isReused(password, user, policy.historySize))) {
+      violations.push(`Password must differ from your last ${Math.max(policy.historySize, 1)} password(s)`);
+    }
+
+    if (violations.length) {
+      throw new BadRequestException({ message: violations, error: 'Password policy violation' });
+    }
+  }
+
+  /**
+   * History to store once the user's current password is replaced
+   */
+  nextHistory(user: PasswordHistorySubject): string[] {
+    // The new password is the first of the remembered ones
+    const keep = this.getPolicy().historySize - 1;
+    if (keep <= 0 || !user.password) return [];
+
+    return [user.password, ...(user.passwordHistory || [])].slice(0, keep);
+  }
+
+  /**
+   * Random password satisfying the policy, for accounts whose owner has to
+   * pick their own at first login
+   */
+  generateTemporaryPassword(): string {
+    const length = Math.max(this.getPolicy().minLength, 16);
+    const classes = [UPPERCASE, LOWERCASE, NUMBERS, SYMBOLS];
+    const alphabet = classes.join('');
+
+    const chars = classes.map((set) => set[crypto.randomInt(set.length)]);
+    while (chars.length < length) {
+      chars.push(alphabet[crypto.randomInt(alphabet.length)]);
+    }
+
+    for (let i = chars.length - 1; i > 0; i--) {
+      const j = crypto.randomInt(i + 1);
+      [chars[i], chars[j]] = [chars[j], chars[i]];
+    }
+
+    return chars.join('');
+  }
+
+  // The current password always counts, even with history disabled
+  private async isReused(password: string, user: PasswordHistorySubject, historySize: number): Promise<boolean> {
+    const previous = [user.password, ...(user.passwordHistory || []).slice(0, Math.max(historySize - 1, 0))].filter(Boolean);
+
+    for (const hash of previous) {
+      if (await bcrypt.compare(password, hash)) return true;
+    }
+
+    return false;
+  }
+}
@@ -0,0 +1,39 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Permission } from '../../common/constants/permissions';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Requires every permission listed with @RequirePermissions. The user's
+ * permissions are resolved during authentication (see JwtStrategy).
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredPermissions = this.reflector.getAllAndOverride<Permission[]>(PERMISSIONS_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!requiredPermissions) {
+      return true;
+    }
+
+    const { user } = context.switchToHttp().getRequest();
+
+    if (!user) {
+      throw new ForbiddenException('User not authenticated');
+    }
+
+    const missing = requiredPermissions.filter((permission) => !user.permissions?.[permission]?.length);
+
+    if (missing.length) {
+      throw new ForbiddenException(`Missing permission: ${missing.join(', ')}`);
+    }
+
+    return true;
+  }
+}
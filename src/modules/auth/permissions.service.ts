@@ -0,0 +1,107 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { UserRole } from '../../common/schemas/user.schema';
+import { CustomRole, CustomRoleDocument } from '../../common/schemas/custom-role.schema';
+import { RoleAssignment, RoleAssignmentDocument } from '../../common/schemas/role-assignment.schema';
+import { Permission, PermissionScopes, BUILT_IN_ROLE_PERMISSIONS } from '../../common/constants/permissions';
+import { SYSTEM_ENTITY_ID } from '../../common/constants/system-entity';
+
+export interface PermissionSubject {
+  sub: string;
+  role: UserRole;
+  entityId?: string;
+  tenantId?: string;
+}
+
+/**
+ * Resolves what a user may do: the permissions of their built-in role over
+ * their own entity subtree, plus custom role assignments over theirs.
+ * Results are cached briefly because every authenticated request needs them.
+ */
+@Injectable()
+export class PermissionsService {
+  private readonly CACHE_TTL_MS = 30000;
+  private readonly cache = new Map<string, { scopes: PermissionScopes; expiresAt: number }>();
+
+  constructor(
+    @InjectModel(CustomRole.name)
+    private roleModel: Model<CustomRoleDocument>,
+    @InjectModel(RoleAssignment.name)
+    private assignmentModel: Model<RoleAssignmentDocument>,
+  ) {}
+
+  async resolve(subject: PermissionSubject): Promise<PermissionScopes> {
+    const cacheKey = `${subject.sub}:${subject.role}:${subject.entityId}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.scopes;
+    }
+
+    const scopes: PermissionScopes = {};
+    const grant = (permission: Permission, entityId: string) => {
+      const entities = scopes[permission] || (scopes[permission] = []);
+      if (!entities.includes(entityId)) entities.push(entityId);
+    };
+
+    const isSystemAdmin = subject.role === UserRole.SYSTEM_ADMIN;
+    const ownScope = isSystemAdmin ? SYSTEM_ENTITY_ID.toString() : subject.entityId;
+    for (const permission of BUILT_IN_ROLE_PERMISSIONS[subject.role] || []) {
+      if (ownScope) grant(permission, ownScope);
+    }
+
+    // SystemAdmins already hold everything everywhere
+    if (!isSystemAdmin && subject.tenantId) {
+      const assignments = await this.assignmentModel
+        .find({ userId: new Types.ObjectId(subject.sub), tenantId: new Types.ObjectId(subject.tenantId), isActive: true })
+        .lean();
+
+      if (assignments.length) {
+        const roles = await this.roleModel
+          .find({ _id: { $in: assignments.map((assignment) => assignment.roleId) }, isActive: true })
+          .lean();
+        const rolesById = new Map(roles.map((role) => [role._id.toString(), role]));
+
+        for (const assignment of assignments) {
+          const role = rolesById.get(assignment.roleId.toString());
+          for (const permission of role?.permissions || []) {
+            grant(permission, assignment.scopeEntityId.toString());
+          }
+        }
+      }
+    }
+
+    this.cache.set(cacheKey, { scopes, expiresAt: Date.now() + this.CACHE_TTL_MS });
+    return scopes;
+  }
+
+  hasPermissions(scopes: PermissionScopes | undefined, required: Permission[]): boolean {
+    return required.every((permission) => !!scopes?.[permission]?.length);
+  }
+
+  /**
+   * Whether a permission applies to something at the given entityIdPath,
+   * i.e. one of its scope entities is on the path (or it applies everywhere)
+   */
+  covers(scopes: PermissionScopes | undefined, permission: Permission, entityIdPath: (Types.ObjectId | string)[] = []): boolean {
+    const scopeIds = scopes?.[permission] || [];
+    if (scopeIds.includes(SYSTEM_ENTITY_ID.toString())) return true;
+
+    return entityIdPath.some((id) => scopeIds.includes(id.toString()));
+  }
+
+  /**
+   * Drop cached permissions after roles or assignments change. Other
+   * instances pick the change up when their cache entry expires.
+   */
+  invalidate(userId?: string): void {
+    if (!userId) {
+      this.cache.clear();
+      return;
+    }
+
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(`${userId}:`)) this.cache.delete(key);
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { Controller, Post, Get, Put, Body, Query, UseGuards, HttpCode, HttpStatus, Request, BadRequestException } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { AuthService, LoginResponse, SessionContext } from './auth.service';
+import { TwoFactorService } from './two-factor.service';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { PermissionsGuard } from './permissions.guard';
+import { RequirePermissions, DenyDuringImpersonation } from './decorators';
+import { Permission } from '../../common/constants/permissions';
+import {
+  TwoFactorCodeDto,
+  TwoFactorCredentialsDto,
+  TwoFactorChallengeDto,
+  VerifyTwoFactorDto,
+  ConfirmTwoFactorEnrollmentDto,
+  DisableTwoFactorDto,
+  UpdateTwoFactorPolicyDto,
+} from './dto/two-factor.dto';
+import { isSystemEntity } from '../../common/constants/system-entity';
+import { Audit } from '../../common/decorators/audit.decorator';
+import { AuditAction, AuditResource } from '../../common/schemas/audit-log.schema';
+
+@ApiTags('Authentication')
+@Controller('auth/2fa')
+export class TwoFactorController {
+  constructor(
+    private authService: AuthService,
+    private twoFactorService: TwoFactorService,
+  ) {}
+
+  @Post('verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Second login step: exchange a challenge token and a TOTP or recovery code for tokens' })
+  @ApiResponse({ status: 200, description: 'Login successful' })
+  @ApiResponse({ status: 401, description: 'Invalid code, or expired or burned challenge' })
+  @ApiResponse({ status: 429, description: 'Account locked after too many failed attempts' })
+  async verify(@Body() dto: VerifyTwoFactorDto, @Request() req): Promise<LoginResponse> {
+    return this.authService.verifyTwoFactorLogin(dto.challenge_token, dto, this.sessionContext(req));
+  }
+
+  @Post('challenge/setup')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start mandatory two-factor enrollment from a login challenge' })
+  @ApiResponse({ status: 200, description: 'Secret and QR code generated' })
+  async challengeSetup(@Body() dto: TwoFactorChallengeDto) {
+    return this.authService.beginChallengeEnrollment(dto.challenge_token);
+  }
+
+  @Post('challenge/enable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm mandatory two-factor enrollment and sign in; returns recovery codes once' })
+  @ApiResponse({ status: 200, description: 'Two-factor authentication enabled and login successful' })
+  async challengeEnable(@Body() dto: ConfirmTwoFactorEnrollmentDto, @Request() req) {
+    return this.authService.completeChallengeEnrollment(dto.challenge_token, dto.code, this.sessionContext(req));
+  }
+
+  @Get('status')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Two-factor status of the current user' })
+  @ApiResponse({ status: 200, description: 'Status retrieved successfully' })
+  async getStatus(@Request() req) {
+    return this.twoFactorService.getStatus(req.user.sub);
+  }
+
+  @Post('setup')
+  @UseGuards(JwtAuthGuard)
+  @DenyDuringImpersonation()
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start two-factor enrollment; returns the secret and a QR code for authenticator apps' })
+  @ApiResponse({ status: 200, description: 'Secret and QR code generated' })
+  @ApiResponse({ status: 400, description: 'Already enabled' })
+  async setup(@Request() req) {
+    return this.twoFactorService.beginEnrollment(req.user.sub);
+  }
+
+  @Post('enable')
+  @UseGuards(JwtAuthGuard)
+  @DenyDuringImpersonation()
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @Audit({ action: AuditAction.UPDATE, resource: AuditResource.USER, resourceName: 'two_factor_enabled' })
+  @ApiOperation({ summary: 'Confirm enrollment with a code; returns recovery codes once' })
+  @ApiResponse({ status: 200, description: 'Two-factor authentication enabled' })
+  @ApiResponse({ status: 400, description: 'Invalid code or setup not started' })
+  async enable(@Body() dto: TwoFactorCodeDto, @Request() req) {
+    const recoveryCodes = await this.twoFactorService.confirmEnrollment(req.user.sub, dto.code);
+    return {
+      success: true,
+      recoveryCodes,
+      message: 'Two-factor authentication enabled. Store the recovery codes somewhere safe; they are not shown again.',
+    };
+  }
+
+  @Post('disable')
+  @UseGuards(JwtAuthGuard)
+  @DenyDuringImpersonation()
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @Audit({ action: AuditAction.UPDATE, resource: AuditResource.USER, resourceName: 'two_factor_disabled' })
+  @ApiOperation({ summary: 'Turn off two-factor authentication (password and a code required)' })
+  @ApiResponse({ status: 200, description: 'Two-factor authentication disabled' })
+  @ApiResponse({ status: 403, description: 'Two-factor authentication is mandatory for the user\'s role' })
+  async disable(@Body() dto: DisableTwoFactorDto, @Request() req) {
+    if (!(await this.authService.verifyPassword(req.user.sub, dto.password))) {
+      throw new BadRequestException('Invalid password');
+    }
+
+    await this.twoFactorService.disable(req.user.sub, dto);
+    return {
+      success: true,
+      message: 'Two-factor authentication disabled',
+    };
+  }
+
+  @Post('recovery-codes')
+  @UseGuards(JwtAuthGuard)
+  @DenyDuringImpersonation()
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @Audit({ action: AuditAction.UPDATE, resource: AuditResource.USER, resourceName: 'two_factor_recovery_codes' })
+  @ApiOperation({ summary: 'Replace all recovery codes; the old ones stop working' })
+  @ApiResponse({ status: 200, description: 'Recovery codes regenerated' })
+  async regenerateRecoveryCodes(@Body() dto: TwoFactorCredentialsDto, @Request() req) {
+    return { recoveryCodes: await this.twoFactorService.regenerateRecoveryCodes(req.user.sub, dto) };
+  }
+
+  @Get('policy')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.SETTINGS_MANAGE)
+  @ApiBearerAuth()
+  @ApiQuery({ name: 'tenantId', required: false, description: 'Tenant to read; required for SystemAdmin' })
+  @ApiOperation({ summary: 'Get the tenant\'s two-factor policy' })
+  @ApiResponse({ status: 200, description: 'Policy retrieved successfully' })
+  async getPolicy(@Query('tenantId') tenantId: string, @Request() req) {
+    return this.twoFactorService.getPolicy(this.policyTenantId(tenantId, req));
+  }
+
+  @Put('policy')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @DenyDuringImpersonation()
+  @RequirePermissions(Permission.SETTINGS_MANAGE)
+  @ApiBearerAuth()
+  @Audit({ action: AuditAction.CONFIG_CHANGE, resource: AuditResource.TENANT, resourceName: 'two_factor_policy' })
+  @ApiOperation({ summary: 'Set which roles of the tenant must sign in with two-factor authentication' })
+  @ApiResponse({ status: 200, description: 'Policy updated successfully' })
+  async updatePolicy(@Body() dto: UpdateTwoFactorPolicyDto, @Request() req) {
+    return this.twoFactorService.updatePolicy(this.policyTenantId(dto.tenantId, req), dto.requiredRoles, req.user.sub);
+  }
+
+  // TenantAdmins manage their own tenant; SystemAdmins name one
+  private policyTenantId(tenantId: string, req): string {
+    return isSystemEntity(req.user.entityId) ? tenantId : req.user.tenantId;
+  }
+
+  private sessionContext(req): SessionContext {
+    return {
+      ipAddress: req.ip || req.connection?.remoteAddress,
+      userAgent: req.get('User-Agent'),
+    };
+  }
+}
@@ -0,0 +1,306 @@
+import { Injectable, Logger, BadRequestException, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import * as crypto from 'crypto';
+import * as QRCode from 'qrcode';
+import { User, UserRole } from '../../common/schemas/user.schema';
+import { Entity } from '../../common/schemas/entity.schema';
+import { EncryptionService } from '../../common/security/encryption.service';
+import { isSystemEntity } from '../../common/constants/system-entity';
+import { generateTotpSecret, matchTotp, buildOtpauthUrl } from './totp';
+import { LoginProtectionService } from './login-protection.service';
+import { SessionContext } from './auth.service';
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL
+}
+
+export interface TwoFactorCredentials {
+  code?: string;
+  recoveryCode?: string;
+}
+
+/**
+ * TOTP enrollment and verification, recovery codes and the tenant policy
+ * that decides which roles must use a second factor
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+
+  constructor(
+    @InjectModel(User.name)
+    private userModel: Model<User>,
+    @InjectModel(Entity.name)
+    private entityModel: Model<Entity>,
+    private encryptionService: EncryptionService,
+    private configService: ConfigService,
+    private loginProtectionService: LoginProtectionService,
+  ) {}
+
+  isEnabled(): boolean {
+    return !!this.configService.get<boolean>('features.twoFactorAuth');
+  }
+
+  /**
+   * SystemAdmins follow the deployment setting; everyone else follows the
+   * policy on their tenant root
+   */
+  async isRequired(user: { role: UserRole; tenantId?: Types.ObjectId | string }): Promise<boolean> {
+    if (!this.isEnabled()) return false;
+
+    if (user.role === UserRole.SYSTEM_ADMIN) {
+      return !!this.configService.get<boolean>('twoFactor.requiredForSystemAdmins');
+    }
+
+    if (!user.tenantId) return false;
+
+    const tenant = await this.entityModel.findById(user.tenantId).select('twoFactorRequiredRoles').lean();
+    return !!tenant?.twoFactorRequiredRoles?.includes(user.role);
+  }
+
+  async getStatus(userId: string) {
+    const user = await this.findUser(userId, '+twoFactorRecoveryCodes');
+
+    return {
+      featureEnabled: this.isEnabled(),
+      enabled: !!user.twoFactorEnabled,
+      enabledAt: user.twoFactorEnabledAt,
+      required: await this.isRequired(user),
+      recoveryCodesRemaining: user.twoFactorRecoveryCodes?.length || 0,
+    };
+  }
+
+  /**
+   * Start (or restart) enrollment. The secret only becomes active once a code
+   * generated from it is confirmed.
+   */
+  async beginEnrollment(userId: string): Promise<TwoFactorEnrollment> {
+    this.assertFeatureEnabled();
+
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    const otpauthUrl = buildOtpauthUrl(secret, user.email, this.configService.get<string>('twoFactor.issuer'));
+    const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+    await this.userModel.updateOne(
+      { _id: user._id },
+      { twoFactorPendingSecret: this.encryptionService.encrypt(secret) },
+    );
+
+    return { secret, otpauthUrl, qrCode };
+  }
+
+  /**
+   * Activate the pending secret and issue the first set of recovery codes
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    this.assertFeatureEnabled();
+
+    const user = await this.findUser(userId, '+twoFactorPendingSecret');
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is already enabled');
+    }
+    if (!user.twoFactorPendingSecret) {
+      throw new BadRequestException('Start two-factor setup first');
+    }
+
+    const secret = this.encryptionService.decrypt(user.twoFactorPendingSecret);
+    const step = matchTotp(secret, code);
+    if (step === null) {
+      throw new BadRequestException('Invalid verification code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.userModel.updateOne(
+      { _id: user._id },
+      {
+        twoFactorEnabled: true,
+        twoFactorEnabledAt: new Date(),
+        twoFactorSecret: user.twoFactorPendingSecret,
+        twoFactorRecoveryCodes: recoveryCodes.map((recoveryCode) => this.encryptionService.hash(recoveryCode)),
+        twoFactorLastUsedStep: step,
+        $unset: { twoFactorPendingSecret: '' },
+      },
+    );
+
+    this.logger.log(`Two-factor authentication enabled for user ${userId}`);
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a TOTP code or a recovery code. Accepted codes are consumed: a TOTP
+   * code cannot be used twice and a recovery code is removed. Wrong codes
+   * count towards the account lockout, and a locked account is refused.
+   */
+  async verify(userId: string, credentials: TwoFactorCredentials, context: SessionContext = {}): Promise<boolean> {
+    const user = await this.findUser(userId, '+twoFactorSecret +twoFactorRecoveryCodes');
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      return false;
+    }
+
+    this.loginProtectionService.assertNotLocked(user);
+
+    const accepted = await this.consumeCredentials(user, credentials);
+    if (accepted) {
+      await this.loginProtectionService.recordTwoFactorSuccess(user);
+    } else {
+      await this.loginProtectionService.recordTwoFactorFailure(user, context);
+    }
+
+    return accepted;
+  }
+
+  async regenerateRecoveryCodes(userId: string, credentials: TwoFactorCredentials): Promise<string[]> {
+    if (!(await this.verify(userId, credentials))) {
+      throw new BadRequestException('Invalid verification code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.userModel.updateOne(
+      { _id: new Types.ObjectId(userId) },
+      { twoFactorRecoveryCodes: recoveryCodes.map((recoveryCode) => this.encryptionService.hash(recoveryCode)) },
+    );
+
+    return recoveryCodes;
+  }
+
+  async disable(userId: string, credentials: TwoFactorCredentials): Promise<void> {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+
+    if (await this.isRequired(user)) {
+      throw new ForbiddenException('Two-factor authentication is mandatory for your role');
+    }
+
+    if (!(await this.verify(userId, credentials))) {
+      throw new BadRequestException('Invalid verification code');
+    }
+
+    await this.userModel.updateOne(
+      { _id: user._id },
+      {
+        twoFactorEnabled: false,
+        $unset: {
+          twoFactorEnabledAt: '',
+          twoFactorSecret: '',
+          twoFactorPendingSecret: '',
+          twoFactorRecoveryCodes: '',
+          twoFactorLastUsedStep: '',
+        },
+      },
+    );
+
+    this.logger.log(`Two-factor authentication disabled for user ${userId}`);
+  }
+
+  async getPolicy(tenantId: string) {
+    const tenant = await this.findTenant(tenantId);
+
+    return {
+      tenantId: tenant._id.toString(),
+      requiredRoles: tenant.twoFactorRequiredRoles || [],
+      systemAdminsRequired: !!this.configService.get<boolean>('twoFactor.requiredForSystemAdmins'),
+      featureEnabled: this.isEnabled(),
+    };
+  }
+
+  async updatePolicy(tenantId: string, requiredRoles: UserRole[], updatedBy: string) {
+    const tenant = await this.findTenant(tenantId);
+
+    await this.entityModel.updateOne(
+      { _id: tenant._id },
+      { twoFactorRequiredRoles: Array.from(new Set(requiredRoles)), updatedBy },
+    );
+
+    return this.getPolicy(tenantId);
+  }
+
+  private async findUser(userId: string, select?: string) {
+    const query = this.userModel.findOne({ _id: new Types.ObjectId(userId), isActive: true });
+    if (select) query.select(select);
+
+    const user = await query;
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+
+  private async findTenant(tenantId: string) {
+    if (!tenantId || isSystemEntity(tenantId)) {
+      throw new BadRequestException('A tenant is required');
+    }
+
+    const tenant = await this.entityModel.findOne({ _id: new Types.ObjectId(tenantId), tenantId: new Types.ObjectId(tenantId) });
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    return tenant;
+  }
+
+  private assertFeatureEnabled(): void {
+    if (!this.isEnabled()) {
+      throw new BadRequestException('Two-factor authentication is not enabled on this server');
+    }
+  }
+
+  private async consumeCredentials(user: any, credentials: TwoFactorCredentials): Promise<boolean> {
+    if (credentials.code) {
+      const step = matchTotp(this.encryptionService.decrypt(user.twoFactorSecret), credentials.code);
+      if (step === null) return false;
+
+      const accepted = await this.userModel.updateOne(
+        {
+          _id: user._id,
+          $or: [{ twoFactorLastUsedStep: { $lt: step } }, { twoFactorLastUsedStep: null }],
+        },
+        { twoFactorLastUsedStep: step },
+      );
+      return accepted.modifiedCount > 0;
+    }
+
+    if (credentials.recoveryCode) {
+      const normalized = this.normalizeRecoveryCode(credentials.recoveryCode);
+      const match = (user.twoFactorRecoveryCodes || []).find((hash) => this.encryptionService.verifyHash(normalized, hash));
+      if (!match) return false;
+
+      const consumed = await this.userModel.updateOne(
+        { _id: user._id, twoFactorRecoveryCodes: match },
+        { $pull: { twoFactorRecoveryCodes: match } },
+      );
+      if (consumed.modifiedCount > 0) {
+        this.logger.warn(`Recovery code used by user ${user._id}; ${user.twoFactorRecoveryCodes.length - 1} left`);
+      }
+      return consumed.modifiedCount > 0;
+    }
+
+    return false;
+  }
+
+  // Codes look like "a1b2c-3d4e5" and are shown to the user exactly once
+  private generateRecoveryCodes(): string[] {
+    const count = this.configService.get<number>('twoFactor.recoveryCodeCount');
+
+    return Array.from({ length: count }, () => {
+      const code = crypto.randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  private normalizeRecoveryCode(code: string): string {
+    const clean = code.trim().toLowerCase().replace(/[^a-f0-9]/g, '');
+    return `${clean.slice(0, 5)}-${clean.slice(5)}`;
+  }
+}
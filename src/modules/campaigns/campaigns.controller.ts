@@ -0,0 +1,176 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  UseGuards,
+  Query,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { CampaignsService } from './campaigns.service';
+import { CreateCampaignDto } from './dto/create-campaign.dto';
+import { UpdateCampaignDto } from './dto/update-campaign.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions, RequireTenant, EntityScopeFor } from '../auth/decorators';
+import { EntityScope } from '../auth/entity-scope';
+import { Permission } from '../../common/constants/permissions';
+import { CampaignStatus } from '../../common/schemas/campaign.schema';
+import { CampaignRecipientStatus } from '../../common/schemas/campaign-recipient.schema';
+import { Audit } from '../../common/decorators/audit.decorator';
+import { AuditAction, AuditResource } from '../../common/schemas/audit-log.schema';
+
+@ApiTags('Campaigns')
+@Controller('campaigns')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions(Permission.CAMPAIGNS_READ)
+@ApiBearerAuth()
+export class CampaignsController {
+  constructor(private readonly campaignsService: CampaignsService) {}
+
+  @Post()
+  @RequirePermissions(Permission.CAMPAIGNS_MANAGE)
+  @RequireTenant()
+  @Audit({ action: AuditAction.CREATE, resource: AuditResource.CAMPAIGN })
+  @ApiOperation({ summary: 'Create a draft campaign' })
+  @ApiResponse({ status: 201, description: 'Campaign created successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async create(
+    @Body() createCampaignDto: CreateCampaignDto,
+    @EntityScopeFor(Permission.CAMPAIGNS_MANAGE) scope: EntityScope,
+    @EntityScopeFor(Permission.MESSAGES_SEND) sendScope: EntityScope,
+    @Request() req,
+  ) {
+    return this.campaignsService.create(
+      createCampaignDto,
+      req.user.sub,
+      scope,
+      sendScope,
+    );
+  }
+
+  @Get()
+  @RequireTenant()
+  @ApiOperation({ summary: 'Get campaigns with pagination' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
+  @ApiQuery({ name: 'status', required: false, enum: CampaignStatus })
+  @ApiQuery({ name: 'search', required: false, description: 'Search by campaign name' })
+  @ApiResponse({ status: 200, description: 'Campaigns retrieved successfully' })
+  async findAll(@Query() query: any, @EntityScopeFor(Permission.CAMPAIGNS_READ) scope: EntityScope) {
+    return this.campaignsService.findAll(scope, query);
+  }
+
+  @Get(':id')
+  @RequireTenant()
+  @ApiOperation({ summary: 'Get campaign with delivery statistics' })
+  @ApiResponse({ status: 200, description: 'Campaign retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Campaign not found' })
+  async findOne(@Param('id') id: string, @EntityScopeFor(Permission.CAMPAIGNS_READ) scope: EntityScope) {
+    return this.campaignsService.findOne(id, scope);
+  }
+
+  @Get(':id/recipients')
+  @RequireTenant()
+  @ApiOperation({ summary: 'Get per-recipient delivery status for a campaign' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
+  @ApiQuery({ name: 'status', required: false, enum: CampaignRecipientStatus })
+  @ApiResponse({ status: 200, description: 'Recipients retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Campaign not found' })
+  async getRecipients(
+    @Param('id') id: string,
+    @Query() query: any,
+    @EntityScopeFor(Permission.CAMPAIGNS_READ) scope: EntityScope,
+  ) {
+    return this.campaignsService.getRecipients(id, scope, query);
+  }
+
+  @Patch(':id')
+  @RequirePermissions(Permission.CAMPAIGNS_MANAGE)
+  @RequireTenant()
+  @Audit({ action: AuditAction.UPDATE, resource: AuditResource.CAMPAIGN })
+  @ApiOperation({ summary: 'Update a draft campaign' })
+  @ApiResponse({ status: 200, description: 'Campaign updated successfully' })
+  @ApiResponse({ status: 400, description: 'Campaign is no longer a draft' })
+  @ApiResponse({ status: 404, description: 'Campaign not found' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateCampaignDto: UpdateCampaignDto,
+    @EntityScopeFor(Permission.CAMPAIGNS_MANAGE) scope: EntityScope,
+    @EntityScopeFor(Permission.MESSAGES_SEND) sendScope: EntityScope,
+    @Request() req,
+  ) {
+    return this.campaignsService.update(
+      id,
+      updateCampaignDto,
+      req.user.sub,
+      scope,
+      sendScope,
+    );
+  }
+
+  @Post(':id/start')
+  @RequirePermissions(Permission.CAMPAIGNS_MANAGE)
+  @RequireTenant()
+  @Audit({ action: AuditAction.UPDATE, resource: AuditResource.CAMPAIGN })
+  @ApiOperation({ summary: 'Resolve the audience and start (or schedule) the campaign' })
+  @ApiResponse({ status: 200, description: 'Campaign started or scheduled' })
+  @ApiResponse({ status: 400, description: 'Campaign cannot be started' })
+  async start(
+    @Param('id') id: string,
+    @EntityScopeFor(Permission.CAMPAIGNS_MANAGE) scope: EntityScope,
+    @Request() req,
+  ) {
+    return this.campaignsService.start(id, req.user.sub, scope);
+  }
+
+  @Post(':id/pause')
+  @RequirePermissions(Permission.CAMPAIGNS_MANAGE)
+  @RequireTenant()
+  @Audit({ action: AuditAction.UPDATE, resource: AuditResource.CAMPAIGN })
+  @ApiOperation({ summary: 'Pause a running or scheduled campaign' })
+  @ApiResponse({ status: 200, description: 'Campaign paused' })
+  @ApiResponse({ status: 400, description: 'Campaign cannot be paused' })
+  async pause(
+    @Param('id') id: string,
+    @EntityScopeFor(Permission.CAMPAIGNS_MANAGE) scope: EntityScope,
+    @Request() req,
+  ) {
+    return this.campaignsService.pause(id, req.user.sub, scope);
+  }
+
+  @Post(':id/resume')
+  @RequirePermissions(Permission.CAMPAIGNS_MANAGE)
+  @RequireTenant()
+  @Audit({ action: AuditAction.UPDATE, resource: AuditResource.CAMPAIGN })
+  @ApiOperation({ summary: 'Resume a paused campaign' })
+  @ApiResponse({ status: 200, description: 'Campaign resumed' })
+  @ApiResponse({ status: 400, description: 'Campaign cannot be resumed' })
+  async resume(
+    @Param('id') id: string,
+    @EntityScopeFor(Permission.CAMPAIGNS_MANAGE) scope: EntityScope,
+    @Request() req,
+  ) {
+    return this.campaignsService.resume(id, req.user.sub, scope);
+  }
+
+  @Post(':id/cancel')
+  @RequirePermissions(Permission.CAMPAIGNS_MANAGE)
+  @RequireTenant()
+  @Audit({ action: AuditAction.UPDATE, resource: AuditResource.CAMPAIGN })
+  @ApiOperation({ summary: 'Cancel a campaign; pending recipients are not messaged' })
+  @ApiResponse({ status: 200, description: 'Campaign cancelled' })
+  @ApiResponse({ status: 400, description: 'Campaign cannot be cancelled' })
+  async cancel(
+    @Param('id') id: string,
+    @EntityScopeFor(Permission.CAMPAIGNS_MANAGE) scope: EntityScope,
+    @Request() req,
+  ) {
+    return this.campaignsService.cancel(id, req.user.sub, scope);
+  }
+}
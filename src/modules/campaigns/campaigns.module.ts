@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { DatabaseModule } from '../../common/database/database.module';
+import { CampaignsService } from './campaigns.service';
+import { CampaignsController } from './campaigns.controller';
+import { Campaign, CampaignSchema } from '../../common/schemas/campaign.schema';
+import { CampaignRecipient, CampaignRecipientSchema } from '../../common/schemas/campaign-recipient.schema';
+import { Message, MessageSchema } from '../../common/schemas/message.schema';
+import { WhatsAppModule } from '../whatsapp/whatsapp.module';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    MongooseModule.forFeature([
+      { name: Campaign.name, schema: CampaignSchema },
+      { name: CampaignRecipient.name, schema: CampaignRecipientSchema },
+      { name: Message.name, schema: MessageSchema },
+    ]),
+    WhatsAppModule,
+  ],
+  controllers: [CampaignsController],
+  providers: [CampaignsService],
+  exports: [CampaignsService],
+})
+export class CampaignsModule {}
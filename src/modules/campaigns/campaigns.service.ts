@@ -0,0 +1,663 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import * as Handlebars from 'handlebars';
+import { isValidPhoneNumber, parsePhoneNumber } from 'libphonenumber-js';
+import {
+  Campaign,
+  CampaignAudienceType,
+  CampaignStats,
+  CampaignStatus,
+} from '../../common/schemas/campaign.schema';
+import { CampaignRecipient, CampaignRecipientStatus } from '../../common/schemas/campaign-recipient.schema';
+import { Message, MessageStatus } from '../../common/schemas/message.schema';
+import { Entity } from '../../common/schemas/entity.schema';
+import { User } from '../../common/schemas/user.schema';
+import { WhatsAppSession } from '../../common/schemas/whatsapp-session.schema';
+import { EntityScope, entityScopeFilter, isInEntityScope } from '../auth/entity-scope';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+import { CreateCampaignDto, CampaignAudienceDto, CampaignContentDto } from './dto/create-campaign.dto';
+import { UpdateCampaignDto } from './dto/update-campaign.dto';
+
+interface AudienceMember {
+  phoneNumber: string;
+  userId?: Types.ObjectId;
+  variables: Record<string, any>;
+}
+
+@Injectable()
+export class CampaignsService {
+  private readonly logger = new Logger(CampaignsService.name);
+  private readonly THROTTLE_WINDOW_MS = 60 * 1000;
+  private readonly ACK_TRACKING_DAYS = 7;
+  private processing = false;
+
+  constructor(
+    @InjectModel(Campaign.name)
+    private campaignModel: Model<Campaign>,
+    @InjectModel(CampaignRecipient.name)
+    private recipientModel: Model<CampaignRecipient>,
+    @InjectModel(Message.name)
+    private messageModel: Model<Message>,
+    @InjectModel(Entity.name)
+    private entityModel: Model<Entity>,
+    @InjectModel(User.name)
+    private userModel: Model<User>,
+    @InjectModel(WhatsAppSession.name)
+    private sessionModel: Model<WhatsAppSession>,
+    private whatsappService: WhatsAppService,
+  ) {}
+
+  async create(dto: CreateCampaignDto, userId: string, scope: EntityScope, sendScope: EntityScope): Promise<Campaign> {
+    this.validateContent(dto.content);
+    await this.validateAudience(dto.audience, scope);
+    const session = await this.validateSession(dto.sessionId, scope, sendScope);
+
+    // A campaign belongs to the entity whose number sends it
+    return this.campaignModel.create({
+      name: dto.name,
+      description: dto.description,
+      status: CampaignStatus.DRAFT,
+      audience: {
+        type: dto.audience.type,
+        entityId: dto.audience.entityId ? new Types.ObjectId(dto.audience.entityId) : undefined,
+        csv: dto.audience.csv,
+      },
+      content: dto.content,
+      sessionId: dto.sessionId,
+      sendScope,
+      throttlePerMinute: dto.throttlePerMinute,
+      scheduledAt: dto.scheduledAt ? new Date(dto.scheduledAt) : undefined,
+      entityId: session.entityId,
+      entityIdPath: session.entityIdPath,
+      tenantId: session.tenantId,
+      createdBy: userId,
+    });
+  }
+
+  async findAll(scope: EntityScope, query: any = {}) {
+    const { page = 1, limit = 20, status, search } = query;
+    const filter: any = { isActive: true, ...entityScopeFilter(scope) };
+
+    if (status) filter.status = status;
+    if (search) filter.name = { $regex: search, $options: 'i' };
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const [campaigns, total] = await Promise.all([
+      this.campaignModel
+        .find(filter)
+        .select('-audience.csv')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .exec(),
+      this.campaignModel.countDocuments(filter),
+    ]);
+
+    return {
+      campaigns,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit)),
+      },
+    };
+  }
+
+  async findOne(id: string, scope: EntityScope): Promise<Campaign> {
+    const campaign = await this.campaignModel.findOne({
+      _id: new Types.ObjectId(id),
+      isActive: true,
+      ...entityScopeFilter(scope),
+    });
+
+    if (!campaign) {
+      throw new NotFoundException('Campaign not found');
+    }
+
+    return campaign;
+  }
+
+  async getRecipients(id: string, scope: EntityScope, query: any = {}) {
+    await this.findOne(id, scope);
+
+    const { page = 1, limit = 50, status } = query;
+    const filter: any = { campaignId: new Types.ObjectId(id) };
+    if (status) filter.status = status;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const [recipients, total] = await Promise.all([
+      this.recipientModel.find(filter).sort({ createdAt: 1 }).skip(skip).limit(Number(limit)).exec(),
+      this.recipientModel.countDocuments(filter),
+    ]);
+
+    return {
+      recipients,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit)),
+      },
+    };
+  }
+
+  async update(
+    id: string,
+    dto: UpdateCampaignDto,
+    userId: string,
+    scope: EntityScope,
+    sendScope: EntityScope,
+  ): Promise<Campaign> {
+    const campaign = await this.findOne(id, scope);
+
+    if (campaign.status !== CampaignStatus.DRAFT) {
+      throw new BadRequestException('Only draft campaigns can be edited');
+    }
+
+    if (dto.content) this.validateContent(dto.content);
+    if (dto.audience) await this.validateAudience(dto.audience, scope);
+    const session = dto.sessionId ? await this.validateSession(dto.sessionId, scope, sendScope) : null;
+
+    const update: any = { updatedBy: userId };
+    if (dto.name !== undefined) update.name = dto.name;
+    if (dto.description !== undefined) update.description = dto.description;
+    if (dto.content) update.content = dto.content;
+    if (session) {
+      update.sessionId = session.sessionId;
+      update.sendScope = sendScope;
+      update.entityId = session.entityId;
+      update.entityIdPath = session.entityIdPath;
+      update.tenantId = session.tenantId;
+    }
+    if (dto.throttlePerMinute) update.throttlePerMinute = dto.throttlePerMinute;
+    if (dto.scheduledAt !== undefined) update.scheduledAt = dto.scheduledAt ? new Date(dto.scheduledAt) : null;
+    if (dto.audience) {
+      update.audience = {
+        type: dto.audience.type,
+        entityId: dto.audience.entityId ? new Types.ObjectId(dto.audience.entityId) : undefined,
+        csv: dto.audience.csv,
+      };
+    }
+
+    return this.campaignModel.findByIdAndUpdate(campaign._id, update, { new: true });
+  }
+
+  /**
+   * Resolve the audience into recipients and either schedule or start sending
+   */
+  async start(id: string, userId: string, scope: EntityScope): Promise<Campaign> {
+    const campaign = await this.findOne(id, scope);
+
+    if (campaign.status !== CampaignStatus.DRAFT) {
+      throw new BadRequestException(`Cannot start a campaign in status: ${campaign.status}`);
+    }
+
+    const audience = await this.resolveAudience(campaign);
+    if (audience.length === 0) {
+      throw new BadRequestException('Campaign audience has no reachable recipients');
+    }
+
+    await this.recipientModel.deleteMany({ campaignId: campaign._id });
+    await this.recipientModel.insertMany(
+      audience.map(member => ({
+        campaignId: campaign._id,
+        sessionId: campaign.sessionId,
+        phoneNumber: member.phoneNumber,
+        userId: member.userId,
+        variables: member.variables,
+        status: CampaignRecipientStatus.PENDING,
+        tenantId: campaign.tenantId,
+      })),
+    );
+
+    const isScheduled = campaign.scheduledAt && campaign.scheduledAt > new Date();
+    const updated = await this.campaignModel.findByIdAndUpdate(
+      campaign._id,
+      {
+        status: isScheduled ? CampaignStatus.SCHEDULED : CampaignStatus.RUNNING,
+        startedAt: isScheduled ? undefined : new Date(),
+        stats: { ...new CampaignStats(), total: audience.length, pending: audience.length },
+        updatedBy: userId,
+      },
+      { new: true },
+    );
+
+    this.logger.log(`Campaign ${campaign._id} ${updated.status} with ${audience.length} recipients`);
+    return updated;
+  }
+
+  async pause(id: string, userId: string, scope: EntityScope): Promise<Campaign> {
+    const campaign = await this.findOne(id, scope);
+
+    if (![CampaignStatus.RUNNING, CampaignStatus.SCHEDULED].includes(campaign.status)) {
+      throw new BadRequestException(`Cannot pause a campaign in status: ${campaign.status}`);
+    }
+
+    return this.campaignModel.findByIdAndUpdate(
+      campaign._id,
+      { status: CampaignStatus.PAUSED, pausedAt: new Date(), updatedBy: userId },
+      { new: true },
+    );
+  }
+
+  async resume(id: string, userId: string, scope: EntityScope): Promise<Campaign> {
+    const campaign = await this.findOne(id, scope);
+
+    if (campaign.status !== CampaignStatus.PAUSED) {
+      throw new BadRequestException(`Cannot resume a campaign in status: ${campaign.status}`);
+    }
+
+    const isScheduled = campaign.scheduledAt && campaign.scheduledAt > new Date();
+    return this.campaignModel.findByIdAndUpdate(
+      campaign._id,
+      {
+        status: isScheduled ? CampaignStatus.SCHEDULED : CampaignStatus.RUNNING,
+        startedAt: campaign.startedAt || (isScheduled ? undefined : new Date()),
+        pausedAt: null,
+        updatedBy: userId,
+      },
+      { new: true },
+    );
+  }
+
+  async cancel(id: string, userId: string, scope: EntityScope): Promise<Campaign> {
+    const campaign = await this.findOne(id, scope);
+
+    if ([CampaignStatus.COMPLETED, CampaignStatus.CANCELLED].includes(campaign.status)) {
+      throw new BadRequestException(`Cannot cancel a campaign in status: ${campaign.status}`);
+    }
+
+    await this.recipientModel.updateMany(
+      { campaignId: campaign._id, status: CampaignRecipientStatus.PENDING },
+      { status: CampaignRecipientStatus.CANCELLED },
+    );
+
+    await this.campaignModel.findByIdAndUpdate(campaign._id, {
+      status: CampaignStatus.CANCELLED,
+      cancelledAt: new Date(),
+      updatedBy: userId,
+    });
+
+    return this.refreshStats(campaign._id);
+  }
+
+  /**
+   * Campaign worker - starts due campaigns, sends within each session's
+   * throttle and folds message acks back into recipient status
+   */
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async processCampaigns() {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      await this.startScheduledCampaigns();
+      await this.dispatchPendingRecipients();
+      await this.syncRecipientStatuses();
+    } catch (error) {
+      this.logger.error(`Failed to process campaigns: ${error.message}`, error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async startScheduledCampaigns(): Promise<void> {
+    const result = await this.campaignModel.updateMany(
+      { status: CampaignStatus.SCHEDULED, scheduledAt: { $lte: new Date() }, isActive: true },
+      { status: CampaignStatus.RUNNING, startedAt: new Date() },
+    );
+
+    if (result.modifiedCount > 0) {
+      this.logger.log(`Started ${result.modifiedCount} scheduled campaign(s)`);
+    }
+  }
+
+  private async dispatchPendingRecipients(): Promise<void> {
+    const running = await this.campaignModel
+      .find({ status: CampaignStatus.RUNNING, isActive: true })
+      .sort({ startedAt: 1 });
+
+    // Campaigns sharing a session share its throttle; oldest campaign goes first
+    const bySession = new Map<string, Campaign[]>();
+    for (const campaign of running) {
+      bySession.set(campaign.sessionId, [...(bySession.get(campaign.sessionId) || []), campaign]);
+    }
+
+    for (const [sessionId, campaigns] of bySession) {
+      try {
+        await this.dispatchForSession(sessionId, campaigns);
+      } catch (error) {
+        this.logger.error(`Failed to dispatch campaigns for session ${sessionId}: ${error.message}`, error);
+      }
+    }
+  }
+
+  private async dispatchForSession(sessionId: string, campaigns: Campaign[]): Promise<void> {
+    if (!this.whatsappService.getTransport(sessionId)) {
+      this.logger.warn(`Campaign session ${sessionId} is not connected, skipping dispatch`);
+      return;
+    }
+
+    const limit = Math.min(...campaigns.map(c => c.throttlePerMinute || 20));
+    const queuedInWindow = await this.recipientModel.countDocuments({
+      sessionId,
+      queuedAt: { $gte: new Date(Date.now() - this.THROTTLE_WINDOW_MS) },
+    });
+    let budget = limit - queuedInWindow;
+
+    for (const campaign of campaigns) {
+      if (budget <= 0) break;
+
+      const recipients = await this.recipientModel
+        .find({ campaignId: campaign._id, status: CampaignRecipientStatus.PENDING })
+        .sort({ createdAt: 1 })
+        .limit(budget);
+
+      if (recipients.length === 0) {
+        await this.completeIfDone(campaign._id);
+        continue;
+      }
+
+      for (const recipient of recipients) {
+        // Stop mid-batch if the campaign was paused or cancelled meanwhile
+        const current = await this.campaignModel.findById(campaign._id).select('status');
+        if (current?.status !== CampaignStatus.RUNNING) break;
+
+        // Every replica runs this worker; only the one that claims a recipient sends to it
+        const claimed = await this.recipientModel.findOneAndUpdate(
+          { _id: recipient._id, status: CampaignRecipientStatus.PENDING },
+          { status: CampaignRecipientStatus.QUEUED, queuedAt: new Date() },
+          { new: true },
+        );
+        if (!claimed) continue;
+
+        await this.sendToRecipient(campaign, claimed);
+        budget--;
+      }
+
+      await this.refreshStats(campaign._id);
+      await this.completeIfDone(campaign._id);
+    }
+  }
+
+  private async sendToRecipient(campaign: Campaign, recipient: CampaignRecipient): Promise<void> {
+    const chatId = `${recipient.phoneNumber.replace(/\D/g, '')}@c.us`;
+    const idempotencyKey = `campaign:${recipient._id}`;
+    // Sent as whoever chose the session; campaigns stored without that scope stay in their tenant
+    const scope = campaign.sendScope || { tenantId: campaign.tenantId.toString() };
+
+    try {
+      const message = campaign.content.templateName
+        ? await this.whatsappService.sendTemplateMessage(
+            campaign.sessionId,
+            chatId,
+            campaign.content.templateName,
+            campaign.content.languageCode || 'en_US',
+            this.buildTemplateComponents(campaign, recipient.variables),
+            campaign.createdBy,
+            { campaignId: campaign._id.toString(), idempotencyKey, scope },
+          )
+        : await this.whatsappService.sendMessage(
+            campaign.sessionId,
+            chatId,
+            this.render(campaign.content.body, recipient.variables),
+            campaign.createdBy,
+            { campaignId: campaign._id.toString(), idempotencyKey, scope },
+          );
+
+      await this.recipientModel.findByIdAndUpdate(recipient._id, { messageId: message._id });
+    } catch (error) {
+      this.logger.warn(`Campaign ${campaign._id} failed to queue message for ${recipient.phoneNumber}: ${error.message}`);
+      await this.recipientModel.findByIdAndUpdate(recipient._id, {
+        status: CampaignRecipientStatus.FAILED,
+        failedAt: new Date(),
+        failureReason: error.message,
+      });
+    }
+  }
+
+  /**
+   * Copy delivery/read/failed acks from messages onto their recipients
+   */
+  private async syncRecipientStatuses(): Promise<void> {
+    const since = new Date(Date.now() - this.ACK_TRACKING_DAYS * 24 * 60 * 60 * 1000);
+    const campaigns = await this.campaignModel
+      .find({
+        $or: [
+          { status: { $in: [CampaignStatus.RUNNING, CampaignStatus.PAUSED] } },
+          { status: { $in: [CampaignStatus.COMPLETED, CampaignStatus.CANCELLED] }, updatedAt: { $gte: since } },
+        ],
+      })
+      .select('_id');
+
+    for (const { _id: campaignId } of campaigns) {
+      const open = await this.recipientModel.find({
+        campaignId,
+        status: { $in: [CampaignRecipientStatus.QUEUED, CampaignRecipientStatus.SENT, CampaignRecipientStatus.DELIVERED] },
+        messageId: { $exists: true },
+      });
+      if (open.length === 0) continue;
+
+      const messages = await this.messageModel
+        .find({ _id: { $in: open.map(r => r.messageId) } })
+        .select('status whatsappMessageId sentAt deliveredAt readAt failedAt failureReason');
+      const messagesById = new Map(messages.map(m => [m._id.toString(), m]));
+
+      const updates = [];
+      for (const recipient of open) {
+        const message = messagesById.get(recipient.messageId.toString());
+        const status = message && this.toRecipientStatus(message.status);
+        if (!status || status === recipient.status) continue;
+
+        updates.push({
+          updateOne: {
+            filter: { _id: recipient._id },
+            update: {
+              status,
+              whatsappMessageId: message.whatsappMessageId,
+              sentAt: message.sentAt,
+              deliveredAt: message.deliveredAt,
+              readAt: message.readAt,
+              failedAt: message.failedAt,
+              failureReason: message.failureReason,
+            },
+          },
+        });
+      }
+
+      if (updates.length > 0) {
+        await this.recipientModel.bulkWrite(updates);
+        await this.refreshStats(campaignId);
+      }
+    }
+  }
+
+  private async refreshStats(campaignId: Types.ObjectId): Promise<Campaign> {
+    const counts = await this.recipientModel.aggregate([
+      { $match: { campaignId } },
+      { $group: { _id: '$status', count: { $sum: 1 } } },
+    ]);
+    const byStatus = Object.fromEntries(counts.map(c => [c._id, c.count]));
+    const count = (...statuses: CampaignRecipientStatus[]) => statuses.reduce((sum, s) => sum + (byStatus[s] || 0), 0);
+
+    const stats: CampaignStats = {
+      total: counts.reduce((sum, c) => sum + c.count, 0),
+      pending: count(CampaignRecipientStatus.PENDING),
+      queued: count(CampaignRecipientStatus.QUEUED),
+      sent: count(CampaignRecipientStatus.SENT, CampaignRecipientStatus.DELIVERED, CampaignRecipientStatus.READ),
+      delivered: count(CampaignRecipientStatus.DELIVERED, CampaignRecipientStatus.READ),
+      read: count(CampaignRecipientStatus.READ),
+      failed: count(CampaignRecipientStatus.FAILED),
+      cancelled: count(CampaignRecipientStatus.CANCELLED),
+    };
+
+    return this.campaignModel.findByIdAndUpdate(campaignId, { stats }, { new: true });
+  }
+
+  private async completeIfDone(campaignId: Types.ObjectId): Promise<void> {
+    const pending = await this.recipientModel.countDocuments({ campaignId, status: CampaignRecipientStatus.PENDING });
+    if (pending > 0) return;
+
+    const completed = await this.campaignModel.findOneAndUpdate(
+      { _id: campaignId, status: CampaignStatus.RUNNING },
+      { status: CampaignStatus.COMPLETED, completedAt: new Date() },
+    );
+    if (completed) {
+      this.logger.log(`Campaign ${campaignId} completed`);
+    }
+  }
+
+  private toRecipientStatus(status: MessageStatus): CampaignRecipientStatus | null {
+    const statusMap: Partial<Record<MessageStatus, CampaignRecipientStatus>> = {
+      [MessageStatus.PENDING]: CampaignRecipientStatus.QUEUED,
+      [MessageStatus.SENT]: CampaignRecipientStatus.SENT,
+      [MessageStatus.DELIVERED]: CampaignRecipientStatus.DELIVERED,
+      [MessageStatus.READ]: CampaignRecipientStatus.READ,
+      [MessageStatus.FAILED]: CampaignRecipientStatus.FAILED,
+    };
+    return statusMap[status] || null;
+  }
+
+  private async resolveAudience(campaign: Campaign): Promise<AudienceMember[]> {
+    const members = campaign.audience.type === CampaignAudienceType.ENTITY
+      ? await this.resolveEntityAudience(campaign)
+      : this.parseCsvAudience(campaign.audience.csv);
+
+    // One message per number, first occurrence wins
+    const unique = new Map<string, AudienceMember>();
+    for (const member of members) {
+      if (!unique.has(member.phoneNumber)) unique.set(member.phoneNumber, member);
+    }
+    return Array.from(unique.values());
+  }
+
+  private async resolveEntityAudience(campaign: Campaign): Promise<AudienceMember[]> {
+    const users = await this.userModel
+      .find({
+        tenantId: campaign.tenantId,
+        entityIdPath: campaign.audience.entityId,
+        isActive: true,
+        phoneNumber: { $exists: true, $ne: null },
+      })
+      .select('firstName lastName email phoneNumber');
+
+    return users
+      .filter(user => isValidPhoneNumber(user.phoneNumber))
+      .map(user => ({
+        phoneNumber: parsePhoneNumber(user.phoneNumber).format('E.164'),
+        userId: user._id,
+        variables: {
+          firstName: user.firstName,
+          lastName: user.lastName,
+          email: user.email,
+          phoneNumber: user.phoneNumber,
+        },
+      }));
+  }
+
+  /**
+   * Parse a CSV of E.164 numbers. If the first row is a header, its remaining
+   * columns become template variables for each row.
+   */
+  private parseCsvAudience(csv: string): AudienceMember[] {
+    const rows = (csv || '')
+      .split(/\r?\n/)
+      .map(line => line.split(',').map(cell => cell.trim()))
+      .filter(cells => cells[0]);
+
+    if (rows.length === 0) return [];
+
+    const hasHeader = !isValidPhoneNumber(rows[0][0]);
+    const headers = hasHeader ? rows[0] : ['phoneNumber'];
+    const members: AudienceMember[] = [];
+
+    for (const cells of hasHeader ? rows.slice(1) : rows) {
+      if (!isValidPhoneNumber(cells[0])) {
+        this.logger.warn(`Skipping invalid campaign phone number: ${cells[0]}`);
+        continue;
+      }
+
+      const phoneNumber = parsePhoneNumber(cells[0]).format('E.164');
+      const variables: Record<string, any> = { phoneNumber };
+      headers.slice(1).forEach((header, index) => {
+        if (header) variables[header] = cells[index + 1] ?? '';
+      });
+
+      members.push({ phoneNumber, variables });
+    }
+
+    return members;
+  }
+
+  private buildTemplateComponents(campaign: Campaign, variables: Record<string, any>) {
+    const parameters = campaign.content.templateParameters || [];
+    if (parameters.length === 0) return [];
+
+    return [{
+      type: 'body',
+      parameters: parameters.map(parameter => ({ type: 'text', text: this.render(parameter, variables) })),
+    }];
+  }
+
+  private render(template: string, variables: Record<string, any>): string {
+    return Handlebars.compile(template || '', { noEscape: true })(variables || {});
+  }
+
+  private validateContent(content: CampaignContentDto): void {
+    if (!content.body && !content.templateName) {
+      throw new BadRequestException('Campaign content needs a body or a template name');
+    }
+
+    try {
+      Handlebars.precompile(content.body || '');
+      (content.templateParameters || []).forEach(parameter => Handlebars.precompile(parameter));
+    } catch (error) {
+      throw new BadRequestException(`Invalid campaign template: ${error.message}`);
+    }
+  }
+
+  private async validateAudience(audience: CampaignAudienceDto, scope: EntityScope): Promise<void> {
+    if (audience.type === CampaignAudienceType.CSV) {
+      if (!audience.csv) {
+        throw new BadRequestException('CSV audiences require a csv payload');
+      }
+      return;
+    }
+
+    if (!audience.entityId) {
+      throw new BadRequestException('Entity audiences require an entityId');
+    }
+
+    const entity = await this.entityModel.findOne({ _id: new Types.ObjectId(audience.entityId), isActive: true });
+    if (!entity) {
+      throw new NotFoundException('Audience entity not found');
+    }
+
+    if (!isInEntityScope(scope, entity)) {
+      throw new ForbiddenException('You can only target entities you manage campaigns for');
+    }
+  }
+
+  /**
+   * The session must belong to an entity the caller manages campaigns for
+   * and may send messages from
+   */
+  private async validateSession(sessionId: string, scope: EntityScope, sendScope: EntityScope): Promise<WhatsAppSession> {
+    const session = await this.sessionModel.findOne({ sessionId, isActive: true });
+    if (!session) {
+      throw new NotFoundException('WhatsApp session not found');
+    }
+
+    if (!isInEntityScope(scope, session)) {
+      throw new ForbiddenException('You can only send campaigns from sessions of entities you manage campaigns for');
+    }
+    if (!isInEntityScope(sendScope, session)) {
+      throw new ForbiddenException('You can only send campaigns from sessions you may send messages from');
+    }
+
+    return session;
+  }
+}
@@ -0,0 +1,136 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsMongoId,
+  IsArray,
+  IsInt,
+  IsDateString,
+  Min,
+  Max,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { CampaignAudienceType } from '../../../common/schemas/campaign.schema';
+
+export class CampaignAudienceDto {
+  @ApiProperty({ enum: CampaignAudienceType, example: CampaignAudienceType.ENTITY })
+  @IsEnum(CampaignAudienceType)
+  type: CampaignAudienceType;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439011', required: false, description: 'Root of the entity subtree (entity audiences)' })
+  @IsOptional()
+  @IsMongoId()
+  entityId?: string;
+
+  @ApiProperty({
+    example: 'phoneNumber,firstName\n+14155550101,Ada\n+14155550102,Grace',
+    required: false,
+    description: 'CSV with E.164 numbers in the first column; an optional header row names extra template variables',
+  })
+  @IsOptional()
+  @IsString()
+  csv?: string;
+}
+
+export class CampaignContentDto {
+  @ApiProperty({ example: 'Hi {{firstName}}, your order is ready.', required: false })
+  @IsOptional()
+  @IsString()
+  body?: string;
+
+  @ApiProperty({ example: 'order_ready', required: false, description: 'Cloud API template name (Cloud sessions only)' })
+  @IsOptional()
+  @IsString()
+  templateName?: string;
+
+  @ApiProperty({ example: 'en_US', required: false })
+  @IsOptional()
+  @IsString()
+  languageCode?: string;
+
+  @ApiProperty({ example: ['{{firstName}}'], required: false })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  templateParameters?: string[];
+}
+
+export class CreateCampaignDto {
+  @ApiProperty({ example: 'October order reminders' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ example: 'Reminder for customers with pending orders', required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ type: CampaignAudienceDto })
+  @ValidateNested()
+  @Type(() => CampaignAudienceDto)
+  audience: CampaignAudienceDto;
+
+  @ApiProperty({ type: CampaignContentDto })
+  @ValidateNested()
+  @Type(() => CampaignContentDto)
+  content: CampaignContentDto;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439011_507f1f77bcf86cd799439012_1700000000000' })
+  @IsString()
+  sessionId: string;
+
+  @ApiProperty({ example: 20, required: false, description: 'Maximum messages per minute sent from the session' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  throttlePerMinute?: number;
+
+  @ApiProperty({ example: '2026-01-01T09:00:00.000Z', required: false })
+  @IsOptional()
+  @IsDateString()
+  scheduledAt?: string;
+}
+
+export class UpdateCampaignDto {
+  @ApiProperty({ example: 'October order reminders', required: false })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ type: CampaignAudienceDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CampaignAudienceDto)
+  audience?: CampaignAudienceDto;
+
+  @ApiProperty({ type: CampaignContentDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CampaignContentDto)
+  content?: CampaignContentDto;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  sessionId?: string;
+
+  @ApiProperty({ example: 20, required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  throttlePerMinute?: number;
+
+  @ApiProperty({ example: '2026-01-01T09:00:00.000Z', required: false })
+  @IsOptional()
+  @IsDateString()
+  scheduledAt?: string;
+}
@@ -0,0 +1 @@
+export { UpdateCampaignDto } from './create-campaign.dto';
@@ -0,0 +1,150 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { ComplianceService } from './compliance.service';
+import { CreateComplianceRuleDto } from './dto/create-compliance-rule.dto';
+import { UpdateComplianceRuleDto } from './dto/update-compliance-rule.dto';
+import { ReviewFlaggedMessageDto } from './dto/review-flagged-message.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions, RequireTenant, EntityScopeFor } from '../auth/decorators';
+import { EntityScope } from '../auth/entity-scope';
+import { Permission } from '../../common/constants/permissions';
+import { AlertSeverity } from '../../common/schemas/alert.schema';
+import { FlaggedMessageStatus } from '../../common/schemas/flagged-message.schema';
+import { Audit } from '../../common/decorators/audit.decorator';
+import { AuditAction, AuditResource } from '../../common/schemas/audit-log.schema';
+
+@ApiTags('Compliance')
+@Controller('compliance')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+export class ComplianceController {
+  constructor(private readonly complianceService: ComplianceService) {}
+
+  @Post('rules')
+  @RequirePermissions(Permission.COMPLIANCE_MANAGE)
+  @RequireTenant()
+  @Audit({ action: AuditAction.CONFIG_CHANGE, resource: AuditResource.SPY_CONFIG })
+  @ApiOperation({ summary: 'Create a compliance monitoring rule' })
+  @ApiResponse({ status: 201, description: 'Rule created successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async createRule(
+    @Body() createRuleDto: CreateComplianceRuleDto,
+    @EntityScopeFor(Permission.COMPLIANCE_MANAGE) scope: EntityScope,
+    @Request() req,
+  ) {
+    return this.complianceService.createRule(createRuleDto, req.user.sub, scope);
+  }
+
+  @Get('rules')
+  @RequirePermissions(Permission.COMPLIANCE_READ)
+  @RequireTenant()
+  @ApiOperation({ summary: 'Get compliance monitoring rules' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
+  @ApiQuery({ name: 'isEnabled', required: false, description: 'Filter by enabled state (true/false)' })
+  @ApiQuery({ name: 'search', required: false, description: 'Search by rule name' })
+  @ApiResponse({ status: 200, description: 'Rules retrieved successfully' })
+  async findAllRules(@Query() query: any, @EntityScopeFor(Permission.COMPLIANCE_READ) scope: EntityScope) {
+    return this.complianceService.findAllRules(scope, query);
+  }
+
+  @Get('rules/:id')
+  @RequirePermissions(Permission.COMPLIANCE_READ)
+  @RequireTenant()
+  @ApiOperation({ summary: 'Get compliance rule by ID' })
+  @ApiResponse({ status: 200, description: 'Rule retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Rule not found' })
+  async findOneRule(@Param('id') id: string, @EntityScopeFor(Permission.COMPLIANCE_READ) scope: EntityScope) {
+    return this.complianceService.findOneRule(id, scope);
+  }
+
+  @Patch('rules/:id')
+  @RequirePermissions(Permission.COMPLIANCE_MANAGE)
+  @RequireTenant()
+  @Audit({ action: AuditAction.CONFIG_CHANGE, resource: AuditResource.SPY_CONFIG })
+  @ApiOperation({ summary: 'Update compliance rule' })
+  @ApiResponse({ status: 200, description: 'Rule updated successfully' })
+  @ApiResponse({ status: 404, description: 'Rule not found' })
+  async updateRule(
+    @Param('id') id: string,
+    @Body() updateRuleDto: UpdateComplianceRuleDto,
+    @EntityScopeFor(Permission.COMPLIANCE_MANAGE) scope: EntityScope,
+    @Request() req,
+  ) {
+    return this.complianceService.updateRule(id, updateRuleDto, req.user.sub, scope);
+  }
+
+  @Delete('rules/:id')
+  @RequirePermissions(Permission.COMPLIANCE_MANAGE)
+  @RequireTenant()
+  @Audit({ action: AuditAction.DELETE, resource: AuditResource.SPY_CONFIG })
+  @ApiOperation({ summary: 'Delete compliance rule' })
+  @ApiResponse({ status: 200, description: 'Rule deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Rule not found' })
+  async removeRule(
+    @Param('id') id: string,
+    @EntityScopeFor(Permission.COMPLIANCE_MANAGE) scope: EntityScope,
+    @Request() req,
+  ) {
+    await this.complianceService.removeRule(id, req.user.sub, scope);
+    return {
+      success: true,
+      message: 'Compliance rule deleted successfully',
+    };
+  }
+
+  @Get('flagged')
+  @RequirePermissions(Permission.COMPLIANCE_READ)
+  @RequireTenant()
+  @ApiOperation({ summary: 'Get flagged messages review queue (pending review by default)' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
+  @ApiQuery({ name: 'status', required: false, enum: FlaggedMessageStatus })
+  @ApiQuery({ name: 'severity', required: false, enum: AlertSeverity })
+  @ApiQuery({ name: 'ruleId', required: false, description: 'Filter by rule' })
+  @ApiQuery({ name: 'startDate', required: false, description: 'Start date filter' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'End date filter' })
+  @ApiResponse({ status: 200, description: 'Flagged messages retrieved successfully' })
+  async findFlagged(@Query() query: any, @EntityScopeFor(Permission.COMPLIANCE_READ) scope: EntityScope) {
+    return this.complianceService.findFlagged(scope, query);
+  }
+
+  @Get('flagged/:id')
+  @RequirePermissions(Permission.COMPLIANCE_READ)
+  @RequireTenant()
+  @ApiOperation({ summary: 'Get flagged message with the original message' })
+  @ApiResponse({ status: 200, description: 'Flagged message retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Flagged message not found' })
+  async findOneFlagged(@Param('id') id: string, @EntityScopeFor(Permission.COMPLIANCE_READ) scope: EntityScope) {
+    return this.complianceService.findOneFlagged(id, scope);
+  }
+
+  @Patch('flagged/:id/review')
+  @RequirePermissions(Permission.COMPLIANCE_MANAGE)
+  @RequireTenant()
+  @Audit({ action: AuditAction.UPDATE, resource: AuditResource.MESSAGE })
+  @ApiOperation({ summary: 'Confirm or dismiss a flagged message' })
+  @ApiResponse({ status: 200, description: 'Review recorded successfully' })
+  @ApiResponse({ status: 404, description: 'Flagged message not found' })
+  async reviewFlagged(
+    @Param('id') id: string,
+    @Body() reviewDto: ReviewFlaggedMessageDto,
+    @EntityScopeFor(Permission.COMPLIANCE_MANAGE) scope: EntityScope,
+    @Request() req,
+  ) {
+    return this.complianceService.reviewFlagged(id, reviewDto, req.user.email, scope);
+  }
+}
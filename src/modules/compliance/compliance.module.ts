@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { DatabaseModule } from '../../common/database/database.module';
+import { ComplianceService } from './compliance.service';
+import { ComplianceController } from './compliance.controller';
+import { ComplianceRule, ComplianceRuleSchema } from '../../common/schemas/compliance-rule.schema';
+import { FlaggedMessage, FlaggedMessageSchema } from '../../common/schemas/flagged-message.schema';
+import { Alert, AlertSchema } from '../../common/schemas/alert.schema';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    MongooseModule.forFeature([
+      { name: ComplianceRule.name, schema: ComplianceRuleSchema },
+      { name: FlaggedMessage.name, schema: FlaggedMessageSchema },
+      { name: Alert.name, schema: AlertSchema },
+    ]),
+  ],
+  controllers: [ComplianceController],
+  providers: [ComplianceService],
+  exports: [ComplianceService],
+})
+export class ComplianceModule {}
@@ -0,0 +1,418 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  ComplianceRule,
+  ComplianceMatchType,
+  ComplianceRuleConditions,
+} from '../../common/schemas/compliance-rule.schema';
+import { FlaggedMessage, FlaggedMessageStatus, ComplianceMatch } from '../../common/schemas/flagged-message.schema';
+import { Alert, AlertType, AlertStatus } from '../../common/schemas/alert.schema';
+import { Message, MessageDirection } from '../../common/schemas/message.schema';
+import { Entity } from '../../common/schemas/entity.schema';
+import { User } from '../../common/schemas/user.schema';
+import { isSystemEntity } from '../../common/constants/system-entity';
+import { EntityScope, defaultScopeEntityId, entityScopeFilter, isInEntityScope } from '../auth/entity-scope';
+import { CreateComplianceRuleDto } from './dto/create-compliance-rule.dto';
+import { UpdateComplianceRuleDto } from './dto/update-compliance-rule.dto';
+import { ReviewFlaggedMessageDto } from './dto/review-flagged-message.dto';
+
+interface CompiledRule {
+  rule: ComplianceRule;
+  keywords: RegExp[];
+  patterns: RegExp[];
+  phoneNumbers: Set<string>;
+}
+
+@Injectable()
+export class ComplianceService {
+  private readonly logger = new Logger(ComplianceService.name);
+  private readonly RULE_CACHE_TTL_MS = 60 * 1000;
+  private readonly PREVIEW_LENGTH = 500;
+  private ruleCache: Map<string, { rules: CompiledRule[]; loadedAt: number }> = new Map();
+
+  constructor(
+    @InjectModel(ComplianceRule.name)
+    private ruleModel: Model<ComplianceRule>,
+    @InjectModel(FlaggedMessage.name)
+    private flaggedModel: Model<FlaggedMessage>,
+    @InjectModel(Alert.name)
+    private alertModel: Model<Alert>,
+    @InjectModel(Entity.name)
+    private entityModel: Model<Entity>,
+    @InjectModel(User.name)
+    private userModel: Model<User>,
+  ) {}
+
+  async createRule(dto: CreateComplianceRuleDto, userId: string, scope: EntityScope): Promise<ComplianceRule> {
+    this.validateConditions(dto.conditions);
+
+    const entity = await this.resolveRuleEntity(dto.entityId || defaultScopeEntityId(scope), scope);
+
+    const rule = await this.ruleModel.create({
+      name: dto.name,
+      description: dto.description,
+      conditions: dto.conditions,
+      caseSensitive: dto.caseSensitive ?? false,
+      directions: dto.directions || [],
+      severity: dto.severity,
+      isEnabled: dto.isEnabled ?? true,
+      entityId: entity._id,
+      entityIdPath: entity.entityIdPath,
+      tenantId: entity.tenantId,
+      createdBy: userId,
+    });
+
+    this.invalidateCache(rule.tenantId);
+    return rule;
+  }
+
+  async findAllRules(scope: EntityScope, query: any = {}) {
+    const { page = 1, limit = 20, isEnabled, search } = query;
+    const filter: any = { isActive: true, ...entityScopeFilter(scope) };
+
+    if (isEnabled !== undefined) filter.isEnabled = isEnabled === 'true';
+    if (search) filter.name = { $regex: search, $options: 'i' };
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const [rules, total] = await Promise.all([
+      this.ruleModel.find(filter).sort({ createdAt: -1 }).skip(skip).limit(Number(limit)).exec(),
+      this.ruleModel.countDocuments(filter),
+    ]);
+
+    return {
+      rules,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit)),
+      },
+    };
+  }
+
+  async findOneRule(id: string, scope: EntityScope): Promise<ComplianceRule> {
+    const rule = await this.ruleModel.findOne({
+      _id: new Types.ObjectId(id),
+      isActive: true,
+      ...entityScopeFilter(scope),
+    });
+
+    if (!rule) {
+      throw new NotFoundException('Compliance rule not found');
+    }
+
+    return rule;
+  }
+
+  async updateRule(id: string, dto: UpdateComplianceRuleDto, userId: string, scope: EntityScope): Promise<ComplianceRule> {
+    const rule = await this.findOneRule(id, scope);
+
+    if (dto.conditions) {
+      this.validateConditions(dto.conditions);
+    }
+
+    const updated = await this.ruleModel.findByIdAndUpdate(
+      rule._id,
+      { ...dto, updatedBy: userId },
+      { new: true },
+    );
+
+    this.invalidateCache(rule.tenantId);
+    return updated;
+  }
+
+  async removeRule(id: string, userId: string, scope: EntityScope): Promise<void> {
+    const rule = await this.findOneRule(id, scope);
+
+    await this.ruleModel.findByIdAndUpdate(rule._id, { isActive: false, isEnabled: false, updatedBy: userId });
+    this.invalidateCache(rule.tenantId);
+  }
+
+  async findFlagged(scope: EntityScope, query: any = {}) {
+    const { page = 1, limit = 20, status, severity, ruleId, startDate, endDate } = query;
+    const filter: any = { ...entityScopeFilter(scope) };
+
+    filter.status = status || FlaggedMessageStatus.PENDING_REVIEW;
+    if (severity) filter.severity = severity;
+    if (ruleId) filter.ruleId = new Types.ObjectId(ruleId);
+    if (startDate || endDate) {
+      filter.createdAt = {};
+      if (startDate) filter.createdAt.$gte = new Date(startDate);
+      if (endDate) filter.createdAt.$lte = new Date(endDate);
+    }
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const [flagged, total] = await Promise.all([
+      this.flaggedModel.find(filter).sort({ createdAt: -1 }).skip(skip).limit(Number(limit)).exec(),
+      this.flaggedModel.countDocuments(filter),
+    ]);
+
+    return {
+      flagged,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit)),
+      },
+    };
+  }
+
+  async findOneFlagged(id: string, scope: EntityScope): Promise<FlaggedMessage> {
+    const flagged = await this.flaggedModel
+      .findOne({ _id: new Types.ObjectId(id), ...entityScopeFilter(scope) })
+      .populate('messageId');
+
+    if (!flagged) {
+      throw new NotFoundException('Flagged message not found');
+    }
+
+    return flagged;
+  }
+
+  /**
+   * Record a reviewer's decision and close the linked alert
+   */
+  async reviewFlagged(id: string, dto: ReviewFlaggedMessageDto, reviewer: string, scope: EntityScope): Promise<FlaggedMessage> {
+    if (dto.status === FlaggedMessageStatus.PENDING_REVIEW) {
+      throw new BadRequestException('Review status must be confirmed or dismissed');
+    }
+
+    const flagged = await this.findOneFlagged(id, scope);
+
+    const updated = await this.flaggedModel.findByIdAndUpdate(
+      flagged._id,
+      {
+        status: dto.status,
+        reviewedBy: reviewer,
+        reviewedAt: new Date(),
+        reviewNotes: dto.notes,
+      },
+      { new: true },
+    );
+
+    if (flagged.alertId) {
+      const confirmed = dto.status === FlaggedMessageStatus.CONFIRMED;
+      await this.alertModel.findOneAndUpdate(
+        { _id: flagged.alertId, status: { $in: [AlertStatus.OPEN, AlertStatus.ACKNOWLEDGED] } },
+        {
+          status: confirmed ? AlertStatus.RESOLVED : AlertStatus.DISMISSED,
+          resolvedAt: new Date(),
+          resolvedBy: reviewer,
+          resolutionNotes: dto.notes || (confirmed ? 'Confirmed during compliance review' : 'Dismissed during compliance review'),
+          updatedBy: reviewer,
+        },
+      );
+    }
+
+    return updated;
+  }
+
+  /**
+   * Evaluate a stored message against the tenant's rules.
+   * Never throws - monitoring must not break message ingestion.
+   */
+  async evaluateMessage(message: Message): Promise<FlaggedMessage[]> {
+    try {
+      if (!message?.tenantId) return [];
+
+      const rules = await this.getCompiledRules(message.tenantId);
+      if (rules.length === 0) return [];
+
+      const text = [message.content, message.metadata?.caption].filter(Boolean).join('\n');
+      const counterparty = this.normalizePhone(message.direction === MessageDirection.INBOUND ? message.from : message.to);
+      const messagePath = (message.entityIdPath || []).map(id => id.toString());
+      let isExternal: boolean | undefined;
+
+      const flagged: FlaggedMessage[] = [];
+      for (const compiled of rules) {
+        const { rule } = compiled;
+
+        if (!messagePath.includes(rule.entityId.toString())) continue;
+        if (rule.directions?.length && !rule.directions.includes(message.direction)) continue;
+
+        const matches: ComplianceMatch[] = [];
+
+        compiled.keywords.forEach((regex, index) => {
+          if (regex.test(text)) matches.push({ type: ComplianceMatchType.KEYWORD, value: rule.conditions.keywords[index] });
+        });
+        compiled.patterns.forEach((regex, index) => {
+          if (regex.test(text)) matches.push({ type: ComplianceMatchType.PATTERN, value: rule.conditions.patterns[index] });
+        });
+        if (counterparty && compiled.phoneNumbers.has(counterparty)) {
+          matches.push({ type: ComplianceMatchType.PHONE_NUMBER, value: `+${counterparty}` });
+        }
+        if (rule.conditions.mediaTypes?.includes(message.type)) {
+          matches.push({ type: ComplianceMatchType.MEDIA_TYPE, value: message.type });
+        }
+        if (rule.conditions.externalContact) {
+          isExternal = isExternal ?? (await this.isExternalParty(message, counterparty));
+          if (isExternal) matches.push({ type: ComplianceMatchType.EXTERNAL_CONTACT, value: `+${counterparty}` });
+        }
+
+        if (matches.length > 0) {
+          const record = await this.flag(message, rule, matches);
+          if (record) flagged.push(record);
+        }
+      }
+
+      return flagged;
+    } catch (error) {
+      this.logger.error(`Failed to evaluate compliance rules for message ${message?._id}: ${error.message}`, error);
+      return [];
+    }
+  }
+
+  private async flag(message: Message, rule: ComplianceRule, matches: ComplianceMatch[]): Promise<FlaggedMessage | null> {
+    let flagged: FlaggedMessage;
+    try {
+      flagged = await this.flaggedModel.create({
+        messageId: message._id,
+        ruleId: rule._id,
+        ruleName: rule.name,
+        matches,
+        severity: rule.severity,
+        direction: message.direction,
+        from: message.from,
+        to: message.to,
+        contentPreview: (message.content || '').substring(0, this.PREVIEW_LENGTH),
+        userId: message.userId,
+        messageTimestamp: message.sentAt || message.createdAt || new Date(),
+        entityId: message.entityId,
+        entityIdPath: message.entityIdPath,
+        tenantId: message.tenantId,
+      });
+    } catch (error) {
+      // Already flagged by this rule (message re-processed)
+      if (error.code === 11000) return null;
+      throw error;
+    }
+
+    const now = new Date();
+    const alert = await this.alertModel.create({
+      type: AlertType.COMPLIANCE_VIOLATION,
+      severity: rule.severity,
+      title: `Compliance rule matched: ${rule.name}`,
+      description: `Message ${message.direction === MessageDirection.INBOUND ? 'from' : 'to'} ${
+        message.direction === MessageDirection.INBOUND ? message.from : message.to
+      } matched ${matches.map(m => `${m.type} "${m.value}"`).join(', ')}`,
+      userId: message.userId,
+      phoneNumber: message.direction === MessageDirection.INBOUND ? message.from : message.to,
+      entityId: message.entityId,
+      entityIdPath: message.entityIdPath,
+      tenantId: message.tenantId,
+      firstOccurredAt: now,
+      lastOccurredAt: now,
+      metadata: {
+        messageId: message._id,
+        ruleId: rule._id,
+        flaggedMessageId: flagged._id,
+        matches,
+      },
+      tags: ['compliance'],
+    });
+
+    await this.flaggedModel.updateOne({ _id: flagged._id }, { alertId: alert._id });
+    await this.ruleModel.updateOne({ _id: rule._id }, { $inc: { matchCount: 1 }, lastMatchedAt: now });
+
+    this.logger.warn(`Message ${message._id} flagged by compliance rule "${rule.name}" (${rule.severity})`);
+    return flagged;
+  }
+
+  private async getCompiledRules(tenantId: Types.ObjectId): Promise<CompiledRule[]> {
+    const key = tenantId.toString();
+    const cached = this.ruleCache.get(key);
+    if (cached && Date.now() - cached.loadedAt < this.RULE_CACHE_TTL_MS) {
+      return cached.rules;
+    }
+
+    const rules = await this.ruleModel.find({ tenantId, isActive: true, isEnabled: true });
+    const compiled: CompiledRule[] = [];
+
+    for (const rule of rules) {
+      try {
+        compiled.push(this.compileRule(rule));
+      } catch (error) {
+        this.logger.warn(`Skipping compliance rule ${rule._id} with invalid conditions: ${error.message}`);
+      }
+    }
+
+    this.ruleCache.set(key, { rules: compiled, loadedAt: Date.now() });
+    return compiled;
+  }
+
+  private compileRule(rule: ComplianceRule): CompiledRule {
+    const flags = rule.caseSensitive ? 'u' : 'iu';
+    const conditions = rule.conditions || new ComplianceRuleConditions();
+
+    return {
+      rule,
+      keywords: (conditions.keywords || []).map(keyword => new RegExp(`(^|[^\\p{L}\\p{N}])${this.escapeRegex(keyword)}($|[^\\p{L}\\p{N}])`, flags)),
+      patterns: (conditions.patterns || []).map(pattern => new RegExp(pattern, flags)),
+      phoneNumbers: new Set((conditions.phoneNumbers || []).map(phone => this.normalizePhone(phone)).filter(Boolean)),
+    };
+  }
+
+  private validateConditions(conditions: Partial<ComplianceRuleConditions>): void {
+    const hasCondition = conditions.keywords?.length
+      || conditions.patterns?.length
+      || conditions.phoneNumbers?.length
+      || conditions.mediaTypes?.length
+      || conditions.externalContact;
+
+    if (!hasCondition) {
+      throw new BadRequestException('A compliance rule needs at least one condition');
+    }
+
+    for (const pattern of conditions.patterns || []) {
+      try {
+        new RegExp(pattern, 'u');
+      } catch (error) {
+        throw new BadRequestException(`Invalid pattern "${pattern}": ${error.message}`);
+      }
+    }
+  }
+
+  private async isExternalParty(message: Message, counterparty: string): Promise<boolean> {
+    if (message.direction === MessageDirection.INBOUND) {
+      return !!message.isExternalNumber;
+    }
+    if (!counterparty) return false;
+
+    const user = await this.userModel.exists({
+      tenantId: message.tenantId,
+      phoneNumber: { $in: [`+${counterparty}`, counterparty] },
+    });
+    return !user;
+  }
+
+  private async resolveRuleEntity(entityId: string | undefined, scope: EntityScope): Promise<Entity> {
+    if (!entityId || isSystemEntity(entityId)) {
+      throw new BadRequestException('Compliance rules must be scoped to a tenant entity');
+    }
+
+    const entity = await this.entityModel.findOne({ _id: new Types.ObjectId(entityId), isActive: true });
+    if (!entity) {
+      throw new NotFoundException('Entity not found');
+    }
+
+    if (!isInEntityScope(scope, entity)) {
+      throw new ForbiddenException('You can only create rules within the entities you manage compliance for');
+    }
+
+    return entity;
+  }
+
+  private invalidateCache(tenantId: Types.ObjectId): void {
+    this.ruleCache.delete(tenantId.toString());
+  }
+
+  private normalizePhone(phone: string): string {
+    return (phone || '').split('@')[0].replace(/\D/g, '');
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -0,0 +1,143 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsMongoId,
+  IsArray,
+  IsBoolean,
+  ArrayMaxSize,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { AlertSeverity } from '../../../common/schemas/alert.schema';
+import { MessageDirection, MessageType } from '../../../common/schemas/message.schema';
+import { FlaggedMessageStatus } from '../../../common/schemas/flagged-message.schema';
+
+export class ComplianceRuleConditionsDto {
+  @ApiProperty({ example: ['confidential', 'insider'], required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsString({ each: true })
+  keywords?: string[];
+
+  @ApiProperty({ example: ['\\b\\d{4}[- ]?\\d{4}[- ]?\\d{4}[- ]?\\d{4}\\b'], required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  @MaxLength(500, { each: true })
+  patterns?: string[];
+
+  @ApiProperty({ example: ['+14155550101'], required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(1000)
+  @IsString({ each: true })
+  phoneNumbers?: string[];
+
+  @ApiProperty({ enum: MessageType, isArray: true, example: [MessageType.DOCUMENT], required: false })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(MessageType, { each: true })
+  mediaTypes?: MessageType[];
+
+  @ApiProperty({ example: false, required: false })
+  @IsOptional()
+  @IsBoolean()
+  externalContact?: boolean;
+}
+
+export class CreateComplianceRuleDto {
+  @ApiProperty({ example: 'Insider trading terms' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ example: 'Flags discussion of non-public information', required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ type: ComplianceRuleConditionsDto })
+  @ValidateNested()
+  @Type(() => ComplianceRuleConditionsDto)
+  conditions: ComplianceRuleConditionsDto;
+
+  @ApiProperty({ example: false, required: false })
+  @IsOptional()
+  @IsBoolean()
+  caseSensitive?: boolean;
+
+  @ApiProperty({ enum: MessageDirection, isArray: true, required: false, description: 'Empty applies to both directions' })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(MessageDirection, { each: true })
+  directions?: MessageDirection[];
+
+  @ApiProperty({ enum: AlertSeverity, example: AlertSeverity.HIGH, required: false })
+  @IsOptional()
+  @IsEnum(AlertSeverity)
+  severity?: AlertSeverity;
+
+  @ApiProperty({ example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  isEnabled?: boolean;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439011', required: false, description: 'Limit the rule to an entity subtree (defaults to your entity)' })
+  @IsOptional()
+  @IsMongoId()
+  entityId?: string;
+}
+
+export class UpdateComplianceRuleDto {
+  @ApiProperty({ example: 'Insider trading terms', required: false })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ type: ComplianceRuleConditionsDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ComplianceRuleConditionsDto)
+  conditions?: ComplianceRuleConditionsDto;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsBoolean()
+  caseSensitive?: boolean;
+
+  @ApiProperty({ enum: MessageDirection, isArray: true, required: false })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(MessageDirection, { each: true })
+  directions?: MessageDirection[];
+
+  @ApiProperty({ enum: AlertSeverity, required: false })
+  @IsOptional()
+  @IsEnum(AlertSeverity)
+  severity?: AlertSeverity;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsBoolean()
+  isEnabled?: boolean;
+}
+
+export class ReviewFlaggedMessageDto {
+  @ApiProperty({ enum: [FlaggedMessageStatus.CONFIRMED, FlaggedMessageStatus.DISMISSED], example: FlaggedMessageStatus.CONFIRMED })
+  @IsEnum(FlaggedMessageStatus)
+  status: FlaggedMessageStatus;
+
+  @ApiProperty({ example: 'Escalated to legal', required: false })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
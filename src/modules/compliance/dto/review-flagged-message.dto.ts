@@ -0,0 +1 @@
+export { ReviewFlaggedMessageDto } from './create-compliance-rule.dto';
@@ -0,0 +1 @@
+export { UpdateComplianceRuleDto } from './create-compliance-rule.dto';
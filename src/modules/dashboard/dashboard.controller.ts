@@ -4,13 +4,13 @@ import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiBearerAuth } from '@ne
 import { DashboardService } from './dashboard.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { TenantGuard } from '../auth/tenant.guard';
-import { RolesGuard } from '../auth/roles.guard';
-import { Roles } from '../auth/decorators';
-import { UserRole } from '../../common/schemas/user.schema';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions } from '../auth/decorators';
+import { Permission } from '../../common/constants/permissions';
 
 @ApiTags('Dashboard')
 @Controller('dashboard')
-@UseGuards(JwtAuthGuard, TenantGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, TenantGuard, PermissionsGuard)
 @ApiBearerAuth()
 export class DashboardController {
   private readonly logger = new Logger(DashboardController.name);
@@ -18,7 +18,7 @@ export class DashboardController {
   constructor(private readonly dashboardService: DashboardService) {}
 
   @Get('stats')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN, UserRole.USER)
+  @RequirePermissions(Permission.DASHBOARD_READ)
   @ApiOperation({ summary: 'Get dashboard statistics' })
   @ApiResponse({ status: 200, description: 'Statistics retrieved successfully' })
   async getDashboardStats(@Req() req: Request) {
@@ -38,7 +38,7 @@ export class DashboardController {
   }
 
   @Get('recent-activity')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN, UserRole.USER)
+  @RequirePermissions(Permission.DASHBOARD_READ)
   @ApiOperation({ summary: 'Get recent activity feed' })
   @ApiQuery({ name: 'limit', required: false, description: 'Number of activities to return' })
   @ApiResponse({ status: 200, description: 'Recent activities retrieved successfully' })
@@ -60,7 +60,7 @@ export class DashboardController {
   }
 
   @Get('system-health')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @RequirePermissions(Permission.MONITORING_READ)
   @ApiOperation({ summary: 'Get system health information' })
   @ApiResponse({ status: 200, description: 'System health retrieved successfully' })
   async getSystemHealth(@Req() req: Request) {
@@ -0,0 +1,66 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsMongoId,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  ArrayMinSize,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ExportFormat } from '../../../common/schemas/export-job.schema';
+
+export class CreateExportJobDto {
+  @ApiProperty({ example: 'Custodian export - J. Smith' })
+  @IsString()
+  @MaxLength(200)
+  name: string;
+
+  @ApiProperty({ example: 'CASE-2024-117', required: false })
+  @IsOptional()
+  @IsString()
+  matter?: string;
+
+  @ApiProperty({ enum: ExportFormat, isArray: true, example: [ExportFormat.PDF, ExportFormat.JSON] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsEnum(ExportFormat, { each: true })
+  formats: ExportFormat[];
+
+  @ApiProperty({ example: true, description: 'Include media files in the bundle', required: false })
+  @IsOptional()
+  @IsBoolean()
+  includeMedia?: boolean;
+
+  @ApiProperty({ description: 'Custodian whose messages are exported', required: false })
+  @IsOptional()
+  @IsMongoId()
+  userId?: string;
+
+  @ApiProperty({ description: 'Entity subtree to export; defaults to the caller\'s entity', required: false })
+  @IsOptional()
+  @IsMongoId()
+  entityId?: string;
+
+  @ApiProperty({ example: '1234567890@c.us', required: false })
+  @IsOptional()
+  @IsString()
+  conversationId?: string;
+
+  @ApiProperty({ example: '2024-01-01T00:00:00.000Z', required: false })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiProperty({ example: '2024-12-31T23:59:59.999Z', required: false })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiProperty({ example: true, description: 'Only messages from external (unregistered) numbers', required: false })
+  @IsOptional()
+  @IsBoolean()
+  isExternal?: boolean;
+}
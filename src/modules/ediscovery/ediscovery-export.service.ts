@@ -0,0 +1,457 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model } from 'mongoose';
+import * as crypto from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ExportFormat,
+  ExportJob,
+  ExportJobDocument,
+  ExportJobStatus,
+} from '../../common/schemas/export-job.schema';
+import { Message, MessageDocument, MessageDirection } from '../../common/schemas/message.schema';
+import { AuditAction, AuditResource, AuditResult } from '../../common/schemas/audit-log.schema';
+import { AuditService } from '../../common/services/audit.service';
+import { SYSTEM_ENTITY_ID, isSystemEntity } from '../../common/constants/system-entity';
+import { StorageService } from '../storage/storage.service';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+import {
+  PdfRenderer,
+  TranscriptContext,
+  TranscriptConversation,
+  TranscriptMessage,
+  TranscriptRendererService,
+} from './transcript-renderer.service';
+import { ZipWriter } from './zip-writer';
+
+interface BundleFile {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+interface BundleResult {
+  buffer: Buffer;
+  messageCount: number;
+  conversationCount: number;
+  mediaCount: number;
+  mediaErrorCount: number;
+}
+
+/**
+ * Builds eDiscovery bundles in the background.
+ * A bundle holds one transcript per conversation and requested format, the
+ * conversation media, manifest.json describing the export and SHA256SUMS
+ * covering every file. Jobs are claimed atomically so several instances can
+ * run the worker; expired bundles are removed from storage.
+ */
+@Injectable()
+export class EdiscoveryExportService {
+  private readonly logger = new Logger(EdiscoveryExportService.name);
+  private readonly workerId = `${os.hostname()}:${process.pid}`;
+  private processing = false;
+
+  constructor(
+    @InjectModel(ExportJob.name)
+    private exportJobModel: Model<ExportJobDocument>,
+    @InjectModel(Message.name)
+    private messageModel: Model<MessageDocument>,
+    private whatsappService: WhatsAppService,
+    private storageService: StorageService,
+    private transcriptRenderer: TranscriptRendererService,
+    private auditService: AuditService,
+    private configService: ConfigService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_30_SECONDS)
+  async processQueue() {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      await this.expireBundles();
+
+      const job = await this.claimNext();
+      if (job) await this.processJob(job);
+    } catch (error) {
+      this.logger.error(`Failed to process eDiscovery exports: ${error.message}`, error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  async countMessages(job: ExportJob): Promise<number> {
+    return this.messageModel.countDocuments(this.buildQuery(job));
+  }
+
+  private async claimNext(): Promise<ExportJobDocument | null> {
+    const lockTimeoutMs = this.configService.get<number>('ediscovery.lockTimeoutMs');
+
+    return this.exportJobModel.findOneAndUpdate(
+      {
+        isActive: true,
+        $or: [
+          { status: ExportJobStatus.PENDING },
+          // Worker died while building
+          { status: ExportJobStatus.PROCESSING, lockedAt: { $lt: new Date(Date.now() - lockTimeoutMs) } },
+        ],
+      },
+      {
+        status: ExportJobStatus.PROCESSING,
+        lockedBy: this.workerId,
+        lockedAt: new Date(),
+        startedAt: new Date(),
+        $inc: { attempts: 1 },
+      },
+      { sort: { createdAt: 1 }, new: true },
+    );
+  }
+
+  private async processJob(job: ExportJobDocument): Promise<void> {
+    try {
+      const result = await this.buildBundle(job);
+      const sha256 = crypto.createHash('sha256').update(result.buffer).digest('hex');
+      const folder = `ediscovery/${job.tenantId || 'system'}`;
+      const upload = await this.storageService.uploadFile(result.buffer, `export-${job._id}.zip`, 'application/zip', folder);
+      const ttlDays = this.configService.get<number>('ediscovery.bundleTtlDays');
+
+      await this.exportJobModel.updateOne(
+        { _id: job._id, lockedBy: this.workerId },
+        {
+          status: ExportJobStatus.COMPLETED,
+          completedAt: new Date(),
+          expiresAt: new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000),
+          storageKey: upload.key,
+          fileSize: result.buffer.length,
+          sha256,
+          messageCount: result.messageCount,
+          conversationCount: result.conversationCount,
+          mediaCount: result.mediaCount,
+          mediaErrorCount: result.mediaErrorCount,
+          $unset: { lockedBy: '', lockedAt: '', lastError: '' },
+        },
+      );
+
+      this.logger.log(`eDiscovery export ${job._id} completed (${result.messageCount} messages, ${result.buffer.length} bytes)`);
+      await this.recordAudit(job, AuditAction.EXPORT, AuditResult.SUCCESS, {
+        storageKey: upload.key,
+        fileSize: result.buffer.length,
+        sha256,
+        messageCount: result.messageCount,
+        conversationCount: result.conversationCount,
+        mediaCount: result.mediaCount,
+        mediaErrorCount: result.mediaErrorCount,
+        filters: job.filters,
+        formats: job.formats,
+      });
+    } catch (error) {
+      const maxAttempts = this.configService.get<number>('ediscovery.maxAttempts');
+      const exhausted = job.attempts >= maxAttempts;
+
+      this.logger.error(`Failed to build eDiscovery export ${job._id} (attempt ${job.attempts}): ${error.message}`, error);
+
+      await this.exportJobModel.updateOne(
+        { _id: job._id, lockedBy: this.workerId },
+        {
+          status: exhausted ? ExportJobStatus.FAILED : ExportJobStatus.PENDING,
+          lastError: error.message,
+          ...(exhausted ? { failedAt: new Date() } : {}),
+          $unset: { lockedBy: '', lockedAt: '' },
+        },
+      );
+
+      if (exhausted) {
+        await this.recordAudit(job, AuditAction.EXPORT, AuditResult.FAILURE, { attempts: job.attempts }, error.message);
+      }
+    }
+  }
+
+  private async buildBundle(job: ExportJobDocument): Promise<BundleResult> {
+    const maxMessages = this.configService.get<number>('ediscovery.maxMessages');
+    const query = this.buildQuery(job);
+
+    const messageCount = await this.messageModel.countDocuments(query);
+    if (messageCount > maxMessages) {
+      throw new Error(`The filters match ${messageCount} messages, more than the limit of ${maxMessages}`);
+    }
+
+    const messages = await this.messageModel
+      .find(query)
+      .populate('userId', 'firstName lastName')
+      .sort({ createdAt: 1 })
+      .lean();
+
+    const conversations = new Map<string, any[]>();
+    for (const message of messages) {
+      const conversationId = message.conversationId || `${message.from}_${message.to}`;
+      if (!conversations.has(conversationId)) conversations.set(conversationId, []);
+      conversations.get(conversationId).push(message);
+    }
+
+    const context: TranscriptContext = {
+      exportId: job._id.toString(),
+      exportName: job.name,
+      matter: job.matter,
+      requestedBy: job.requestedByEmail,
+      generatedAt: new Date(),
+    };
+
+    const zip = new ZipWriter();
+    const files: BundleFile[] = [];
+    const addFile = (filePath: string, data: Buffer) => {
+      zip.addFile(filePath, data, context.generatedAt);
+      files.push({ path: filePath, size: data.length, sha256: this.sha256(data) });
+    };
+
+    const manifestConversations = [];
+    const manifestMedia = [];
+    const mediaErrors = [];
+    const pdfRenderer: PdfRenderer | null = job.formats.includes(ExportFormat.PDF)
+      ? await this.transcriptRenderer.createPdfRenderer()
+      : null;
+
+    try {
+      let index = 0;
+      for (const [conversationId, conversationMessages] of conversations) {
+        index++;
+        // Media buffers are only kept for the conversation being rendered
+        const mediaContent = new Map<string, Buffer>();
+        const transcriptMessages: TranscriptMessage[] = [];
+
+        for (const message of conversationMessages) {
+          const transcriptMessage = this.toTranscriptMessage(message);
+
+          if (job.includeMedia) {
+            const media = await this.collectMedia(message);
+            if (media?.error) {
+              transcriptMessage.mediaError = media.error;
+              mediaErrors.push({ messageId: transcriptMessage.id, error: media.error });
+            } else if (media) {
+              addFile(media.path, media.buffer);
+              mediaContent.set(media.path, media.buffer);
+              transcriptMessage.media = {
+                path: media.path,
+                contentType: media.contentType,
+                size: media.buffer.length,
+                sha256: this.sha256(media.buffer),
+              };
+              manifestMedia.push({ messageId: transcriptMessage.id, ...transcriptMessage.media });
+            }
+          }
+
+          transcriptMessages.push(transcriptMessage);
+        }
+
+        const conversation: TranscriptConversation = {
+          conversationId,
+          participants: Array.from(new Set(conversationMessages.flatMap((message) => [message.from, message.to]))),
+          messages: transcriptMessages,
+        };
+
+        const baseName = `transcripts/${String(index).padStart(4, '0')}-${this.safeFileName(conversationId)}`;
+        const transcripts: string[] = [];
+
+        for (const format of job.formats) {
+          const filePath = `${baseName}.${format}`;
+          switch (format) {
+            case ExportFormat.HTML:
+              addFile(filePath, Buffer.from(this.transcriptRenderer.renderHtml(conversation, context)));
+              break;
+            case ExportFormat.PDF:
+              addFile(filePath, await pdfRenderer.render(this.transcriptRenderer.renderHtml(conversation, context)));
+              break;
+            case ExportFormat.EML:
+              addFile(filePath, await this.transcriptRenderer.renderEml(conversation, context, mediaContent));
+              break;
+            case ExportFormat.JSON:
+              addFile(filePath, this.transcriptRenderer.renderJson(conversation, context));
+              break;
+          }
+          transcripts.push(filePath);
+        }
+
+        manifestConversations.push({
+          conversationId,
+          participants: conversation.participants,
+          messageCount: transcriptMessages.length,
+          firstMessageAt: transcriptMessages[0]?.createdAt,
+          lastMessageAt: transcriptMessages[transcriptMessages.length - 1]?.createdAt,
+          transcripts,
+        });
+      }
+    } finally {
+      await pdfRenderer?.close();
+    }
+
+    const manifest = {
+      exportId: context.exportId,
+      name: job.name,
+      matter: job.matter,
+      generatedAt: context.generatedAt.toISOString(),
+      requestedBy: { userId: job.requestedBy.toString(), email: job.requestedByEmail },
+      tenantId: job.tenantId?.toString(),
+      scopeEntityId: job.entityId.toString(),
+      filters: job.filters,
+      formats: job.formats,
+      includeMedia: job.includeMedia,
+      counts: {
+        messages: messages.length,
+        conversations: conversations.size,
+        media: manifestMedia.length,
+        mediaErrors: mediaErrors.length,
+      },
+      conversations: manifestConversations,
+      media: manifestMedia,
+      mediaErrors,
+      files,
+    };
+    addFile('manifest.json', Buffer.from(JSON.stringify(manifest, null, 2)));
+
+    // sha256sum -c compatible
+    const checksums = files.map((file) => `${file.sha256}  ${file.path}`).join('\n') + '\n';
+    zip.addFile('SHA256SUMS', Buffer.from(checksums), context.generatedAt);
+
+    return {
+      buffer: zip.toBuffer(),
+      messageCount: messages.length,
+      conversationCount: conversations.size,
+      mediaCount: manifestMedia.length,
+      mediaErrorCount: mediaErrors.length,
+    };
+  }
+
+  /**
+   * Same filters as GET /whatsapp/messages, always confined to the
+   * export's entity subtree
+   */
+  private buildQuery(job: ExportJob): Record<string, any> {
+    const { filters } = job;
+    const query = this.whatsappService.buildMessageQuery({
+      tenantId: job.tenantId?.toString(),
+      userId: filters.userId?.toString(),
+      conversationId: filters.conversationId,
+      startDate: filters.startDate,
+      endDate: filters.endDate,
+      isExternal: filters.isExternal === undefined || filters.isExternal === null ? undefined : String(filters.isExternal),
+    });
+
+    const entityIds = [filters.entityId, isSystemEntity(job.entityId) ? null : job.entityId].filter(Boolean);
+    if (entityIds.length > 0) {
+      query.entityIdPath = { $all: entityIds };
+    }
+
+    return query;
+  }
+
+  private async collectMedia(message: any): Promise<{ path?: string; buffer?: Buffer; contentType?: string; error?: string } | null> {
+    const mediaUrl: string = message.mediaUrl;
+    const key = mediaUrl && this.storageService.isProxyUrl(mediaUrl)
+      ? this.storageService.extractKeyFromProxyUrl(mediaUrl)
+      : message.outbound?.mediaKey;
+
+    if (!key) {
+      if (message.mediaPurgedAt) {
+        return { error: `Removed by retention on ${new Date(message.mediaPurgedAt).toISOString()}` };
+      }
+      return mediaUrl ? { error: `Not held in platform storage: ${mediaUrl}` } : null;
+    }
+
+    try {
+      const file = await this.storageService.downloadFile(key);
+      return {
+        path: `media/${message._id}-${this.safeFileName(path.basename(key))}`,
+        buffer: file.buffer,
+        contentType: file.contentType || 'application/octet-stream',
+      };
+    } catch (error) {
+      this.logger.warn(`Failed to fetch media ${key} for export: ${error.message}`);
+      return { error: `Download failed: ${error.message}` };
+    }
+  }
+
+  private toTranscriptMessage(message: any): TranscriptMessage {
+    const sender = message.userId && typeof message.userId === 'object' && message.userId.firstName
+      ? `${message.userId.firstName} ${message.userId.lastName || ''}`.trim()
+      : null;
+
+    return {
+      id: message._id.toString(),
+      whatsappMessageId: message.whatsappMessageId,
+      direction: message.direction,
+      type: message.type,
+      status: message.status,
+      from: message.from,
+      to: message.to,
+      senderName: message.direction === MessageDirection.OUTBOUND
+        ? sender || message.from
+        : message.externalSenderName || message.metadata?.senderContactName || sender || message.from,
+      content: message.content,
+      isExternal: !!message.isExternalNumber,
+      createdAt: message.createdAt,
+      sentAt: message.sentAt,
+      deliveredAt: message.deliveredAt,
+      readAt: message.readAt,
+    };
+  }
+
+  private async expireBundles(): Promise<void> {
+    const expired = await this.exportJobModel.find({
+      status: ExportJobStatus.COMPLETED,
+      expiresAt: { $lt: new Date() },
+    });
+
+    for (const job of expired) {
+      try {
+        await this.storageService.deleteFile(job.storageKey);
+      } catch (error) {
+        this.logger.warn(`Failed to delete expired export bundle ${job.storageKey}: ${error.message}`);
+      }
+
+      await this.exportJobModel.updateOne(
+        { _id: job._id, status: ExportJobStatus.COMPLETED },
+        { status: ExportJobStatus.EXPIRED, $unset: { storageKey: '' } },
+      );
+      await this.recordAudit(job, AuditAction.PURGE, AuditResult.SUCCESS, { storageKey: job.storageKey, reason: 'expired' });
+    }
+  }
+
+  private async recordAudit(
+    job: ExportJob,
+    action: AuditAction,
+    result: AuditResult,
+    metadata: Record<string, any>,
+    errorMessage?: string,
+  ): Promise<void> {
+    try {
+      await this.auditService.logAuditEvent({
+        action,
+        resource: AuditResource.EDISCOVERY_EXPORT,
+        resourceId: job._id.toString(),
+        resourceName: job.name,
+        userId: job.requestedBy.toString(),
+        userEmail: job.requestedByEmail,
+        userName: '',
+        tenantId: (job.tenantId || SYSTEM_ENTITY_ID).toString(),
+        tenantName: '',
+        result,
+        metadata,
+        ipAddress: 'system',
+        userAgent: 'ediscovery-export',
+        errorMessage,
+      });
+    } catch (error) {
+      this.logger.error(`Failed to audit eDiscovery export ${job._id}: ${error.message}`, error);
+    }
+  }
+
+  private safeFileName(name: string): string {
+    return name.replace(/[^a-zA-Z0-9._-]/g, '_').slice(0, 100);
+  }
+
+  private sha256(data: Buffer): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+  }
+}
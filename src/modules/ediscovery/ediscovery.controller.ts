@@ -0,0 +1,103 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { EdiscoveryService } from './ediscovery.service';
+import { CreateExportJobDto } from './dto/create-export-job.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions, RequireTenant, AllowApiKey, EntityScopeFor } from '../auth/decorators';
+import { EntityScope } from '../auth/entity-scope';
+import { Permission } from '../../common/constants/permissions';
+import { QuotaName } from '../../common/constants/quotas';
+import { Quota } from '../../common/security/rate-limit.guard';
+import { ExportJobStatus } from '../../common/schemas/export-job.schema';
+import { Audit } from '../../common/decorators/audit.decorator';
+import { AuditAction, AuditResource } from '../../common/schemas/audit-log.schema';
+
+@ApiTags('eDiscovery')
+@Controller('ediscovery/exports')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions(Permission.EDISCOVERY_EXPORT)
+@ApiBearerAuth()
+export class EdiscoveryController {
+  constructor(private readonly ediscoveryService: EdiscoveryService) {}
+
+  @Post()
+  @AllowApiKey()
+  @RequireTenant()
+  @Quota(QuotaName.EXPORTS)
+  @Audit({ action: AuditAction.EXPORT, resource: AuditResource.EDISCOVERY_EXPORT })
+  @ApiOperation({ summary: 'Queue an export of messages matching the filters as a zip bundle of transcripts, media, manifest and checksums' })
+  @ApiResponse({ status: 201, description: 'Export queued successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid filters or too many matching messages' })
+  @ApiResponse({ status: 404, description: 'User or entity not found' })
+  async create(
+    @Body() createDto: CreateExportJobDto,
+    @EntityScopeFor(Permission.EDISCOVERY_EXPORT) scope: EntityScope,
+    @Request() req,
+  ) {
+    return this.ediscoveryService.create(createDto, req.user.sub, req.user.email, scope);
+  }
+
+  @Get()
+  @AllowApiKey()
+  @RequireTenant()
+  @ApiOperation({ summary: 'Get eDiscovery exports' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
+  @ApiQuery({ name: 'status', required: false, enum: ExportJobStatus })
+  @ApiResponse({ status: 200, description: 'Exports retrieved successfully' })
+  async findAll(@Query() query: any, @EntityScopeFor(Permission.EDISCOVERY_EXPORT) scope: EntityScope) {
+    return this.ediscoveryService.findAll(scope, query);
+  }
+
+  @Get(':id')
+  @AllowApiKey()
+  @RequireTenant()
+  @ApiOperation({ summary: 'Get eDiscovery export by ID' })
+  @ApiResponse({ status: 200, description: 'Export retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Export not found' })
+  async findOne(@Param('id') id: string, @EntityScopeFor(Permission.EDISCOVERY_EXPORT) scope: EntityScope) {
+    return this.ediscoveryService.findOne(id, scope);
+  }
+
+  @Get(':id/download')
+  @AllowApiKey()
+  @RequireTenant()
+  @Audit({ action: AuditAction.DOWNLOAD, resource: AuditResource.EDISCOVERY_EXPORT })
+  @ApiOperation({ summary: 'Get a short-lived signed URL for the export bundle' })
+  @ApiResponse({ status: 200, description: 'Signed URL generated successfully' })
+  @ApiResponse({ status: 400, description: 'Export is not completed or has expired' })
+  @ApiResponse({ status: 404, description: 'Export not found' })
+  async getDownloadUrl(@Param('id') id: string, @EntityScopeFor(Permission.EDISCOVERY_EXPORT) scope: EntityScope) {
+    return this.ediscoveryService.getDownloadUrl(id, scope);
+  }
+
+  @Delete(':id')
+  @RequireTenant()
+  @Audit({ action: AuditAction.DELETE, resource: AuditResource.EDISCOVERY_EXPORT })
+  @ApiOperation({ summary: 'Delete an export and its bundle' })
+  @ApiResponse({ status: 200, description: 'Export deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Export is being built' })
+  @ApiResponse({ status: 404, description: 'Export not found' })
+  async remove(
+    @Param('id') id: string,
+    @EntityScopeFor(Permission.EDISCOVERY_EXPORT) scope: EntityScope,
+    @Request() req,
+  ) {
+    await this.ediscoveryService.remove(id, req.user.sub, scope);
+    return {
+      success: true,
+      message: 'Export deleted successfully',
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { DatabaseModule } from '../../common/database/database.module';
+import { AuditModule } from '../../common/modules/audit.module';
+import { SecurityModule } from '../../common/security/security.module';
+import { StorageModule } from '../storage/storage.module';
+import { WhatsAppModule } from '../whatsapp/whatsapp.module';
+import { EdiscoveryService } from './ediscovery.service';
+import { EdiscoveryExportService } from './ediscovery-export.service';
+import { TranscriptRendererService } from './transcript-renderer.service';
+import { EdiscoveryController } from './ediscovery.controller';
+import { ExportJob, ExportJobSchema } from '../../common/schemas/export-job.schema';
+import { Message, MessageSchema } from '../../common/schemas/message.schema';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    AuditModule,
+    SecurityModule,
+    StorageModule,
+    WhatsAppModule,
+    MongooseModule.forFeature([
+      { name: ExportJob.name, schema: ExportJobSchema },
+      { name: Message.name, schema: MessageSchema },
+    ]),
+  ],
+  controllers: [EdiscoveryController],
+  providers: [EdiscoveryService, EdiscoveryExportService, TranscriptRendererService],
+  exports: [EdiscoveryService],
+})
+export class EdiscoveryModule {}
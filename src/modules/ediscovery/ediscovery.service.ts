@@ -0,0 +1,197 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { ExportJob, ExportJobDocument, ExportJobStatus } from '../../common/schemas/export-job.schema';
+import { Entity, EntityDocument } from '../../common/schemas/entity.schema';
+import { User, UserDocument } from '../../common/schemas/user.schema';
+import { SYSTEM_ENTITY_ID } from '../../common/constants/system-entity';
+import { EntityScope, defaultScopeEntityId, entityScopeFilter, isUnrestrictedScope } from '../auth/entity-scope';
+import { StorageService } from '../storage/storage.service';
+import { EdiscoveryExportService } from './ediscovery-export.service';
+import { CreateExportJobDto } from './dto/create-export-job.dto';
+
+@Injectable()
+export class EdiscoveryService {
+  private readonly logger = new Logger(EdiscoveryService.name);
+
+  constructor(
+    @InjectModel(ExportJob.name)
+    private exportJobModel: Model<ExportJobDocument>,
+    @InjectModel(Entity.name)
+    private entityModel: Model<EntityDocument>,
+    @InjectModel(User.name)
+    private userModel: Model<User>,
+    private exportService: EdiscoveryExportService,
+    private storageService: StorageService,
+    private configService: ConfigService,
+  ) {}
+
+  async create(dto: CreateExportJobDto, userId: string, userEmail: string, scope: EntityScope): Promise<ExportJobDocument> {
+    if (dto.startDate && dto.endDate && new Date(dto.startDate) > new Date(dto.endDate)) {
+      throw new BadRequestException('startDate must be before endDate');
+    }
+
+    let custodian: UserDocument;
+    if (dto.userId) {
+      custodian = await this.userModel.findOne({
+        _id: new Types.ObjectId(dto.userId),
+        ...entityScopeFilter(scope),
+      });
+      if (!custodian) {
+        throw new NotFoundException('User not found');
+      }
+    }
+
+    const entity = await this.resolveExportEntity(dto.entityId, custodian, scope);
+
+    const job = new this.exportJobModel({
+      name: dto.name,
+      matter: dto.matter,
+      formats: Array.from(new Set(dto.formats)),
+      includeMedia: dto.includeMedia ?? true,
+      filters: {
+        userId: dto.userId ? new Types.ObjectId(dto.userId) : undefined,
+        entityId: dto.entityId ? new Types.ObjectId(dto.entityId) : undefined,
+        conversationId: dto.conversationId,
+        startDate: dto.startDate ? new Date(dto.startDate) : undefined,
+        endDate: dto.endDate ? new Date(dto.endDate) : undefined,
+        isExternal: dto.isExternal,
+      },
+      status: ExportJobStatus.PENDING,
+      requestedBy: new Types.ObjectId(userId),
+      requestedByEmail: userEmail,
+      entityId: entity?._id || SYSTEM_ENTITY_ID,
+      entityIdPath: entity?.entityIdPath || [],
+      tenantId: entity?.tenantId,
+      createdBy: userId,
+    });
+
+    // Refuse oversized exports up front rather than failing in the worker
+    const maxMessages = this.configService.get<number>('ediscovery.maxMessages');
+    const messageCount = await this.exportService.countMessages(job);
+    if (messageCount > maxMessages) {
+      throw new BadRequestException(`The filters match ${messageCount} messages, more than the limit of ${maxMessages}; narrow them down`);
+    }
+
+    await job.save();
+    this.logger.log(`eDiscovery export ${job._id} queued by ${userEmail} (${messageCount} messages)`);
+
+    return job;
+  }
+
+  async findAll(scope: EntityScope, query: any = {}) {
+    const { page = 1, limit = 20, status } = query;
+    const filter: any = { isActive: true, ...entityScopeFilter(scope) };
+
+    if (status) filter.status = status;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const [exports, total] = await Promise.all([
+      this.exportJobModel.find(filter).sort({ createdAt: -1 }).skip(skip).limit(Number(limit)).exec(),
+      this.exportJobModel.countDocuments(filter),
+    ]);
+
+    return {
+      exports,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit)),
+      },
+    };
+  }
+
+  async findOne(id: string, scope: EntityScope): Promise<ExportJobDocument> {
+    const job = await this.exportJobModel.findOne({
+      _id: new Types.ObjectId(id),
+      isActive: true,
+      ...entityScopeFilter(scope),
+    });
+
+    if (!job) {
+      throw new NotFoundException('Export not found');
+    }
+
+    return job;
+  }
+
+  async getDownloadUrl(id: string, scope: EntityScope) {
+    const job = await this.findOne(id, scope);
+
+    if (job.status !== ExportJobStatus.COMPLETED || !job.storageKey) {
+      throw new BadRequestException(`Export is ${job.status} and cannot be downloaded`);
+    }
+
+    const expiresIn = this.configService.get<number>('ediscovery.downloadUrlTtlSeconds');
+    const url = await this.storageService.getSignedUrl(job.storageKey, expiresIn);
+
+    return {
+      url,
+      expiresIn,
+      expiresAt: new Date(Date.now() + expiresIn * 1000),
+      fileSize: job.fileSize,
+      sha256: job.sha256,
+    };
+  }
+
+  async remove(id: string, userId: string, scope: EntityScope): Promise<void> {
+    const job = await this.findOne(id, scope);
+
+    if (job.status === ExportJobStatus.PROCESSING) {
+      throw new BadRequestException('Export is being built and cannot be deleted yet');
+    }
+
+    if (job.storageKey) {
+      try {
+        await this.storageService.deleteFile(job.storageKey);
+      } catch (error) {
+        this.logger.warn(`Failed to delete export bundle ${job.storageKey}: ${error.message}`);
+      }
+    }
+
+    await this.exportJobModel.findByIdAndUpdate(job._id, {
+      isActive: false,
+      updatedBy: userId,
+      $unset: { storageKey: '' },
+    });
+  }
+
+  /**
+   * The entity an export is confined to and filed under: the requested
+   * entity, else the scope subtree holding the custodian, else the caller's
+   * only subtree. Unrestricted callers may leave it out to export across
+   * tenants.
+   */
+  private async resolveExportEntity(
+    entityId: string | undefined,
+    custodian: UserDocument | undefined,
+    scope: EntityScope,
+  ): Promise<EntityDocument | null> {
+    let targetEntityId = entityId;
+    if (!targetEntityId && custodian) {
+      targetEntityId = isUnrestrictedScope(scope)
+        ? custodian.tenantId?.toString()
+        : custodian.entityIdPath.map((id) => id.toString()).find((id) => scope.entityIds.includes(id));
+    }
+    targetEntityId = targetEntityId || defaultScopeEntityId(scope);
+
+    if (!targetEntityId) {
+      if (isUnrestrictedScope(scope)) {
+        return null;
+      }
+      throw new BadRequestException('entityId is required unless exports are permitted over a single entity');
+    }
+
+    const entity = await this.entityModel.findOne({
+      _id: new Types.ObjectId(targetEntityId),
+      ...entityScopeFilter(scope),
+    });
+    if (!entity) {
+      throw new NotFoundException('Entity not found');
+    }
+
+    return entity;
+  }
+}
@@ -0,0 +1,198 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as handlebars from 'handlebars';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as puppeteer from 'puppeteer';
+import MailComposer = require('nodemailer/lib/mail-composer');
+
+export interface TranscriptMedia {
+  path: string; // Location inside the bundle
+  contentType: string;
+  size: number;
+  sha256: string;
+}
+
+export interface TranscriptMessage {
+  id: string;
+  whatsappMessageId?: string;
+  direction: string;
+  type: string;
+  status: string;
+  from: string;
+  to: string;
+  senderName: string;
+  content?: string;
+  isExternal: boolean;
+  createdAt: Date;
+  sentAt?: Date;
+  deliveredAt?: Date;
+  readAt?: Date;
+  media?: TranscriptMedia;
+  mediaError?: string;
+}
+
+export interface TranscriptConversation {
+  conversationId: string;
+  participants: string[];
+  messages: TranscriptMessage[];
+}
+
+export interface TranscriptContext {
+  exportId: string;
+  exportName: string;
+  matter?: string;
+  requestedBy: string;
+  generatedAt: Date;
+}
+
+export interface PdfRenderer {
+  render(html: string): Promise<Buffer>;
+  close(): Promise<void>;
+}
+
+/**
+ * Renders conversation transcripts for eDiscovery bundles.
+ * Transcripts live in transcripts/ and reference media in media/, so HTML links
+ * are relative to the bundle; EML transcripts carry the media as attachments.
+ */
+@Injectable()
+export class TranscriptRendererService {
+  private readonly logger = new Logger(TranscriptRendererService.name);
+  private template: handlebars.TemplateDelegate;
+
+  constructor(private configService: ConfigService) {}
+
+  renderHtml(conversation: TranscriptConversation, context: TranscriptContext): string {
+    const messages = conversation.messages;
+
+    return this.getTemplate()({
+      companyName: 'UNICX',
+      conversationId: conversation.conversationId,
+      participants: conversation.participants,
+      messageCount: messages.length,
+      firstMessageAt: messages.length ? this.formatDate(messages[0].createdAt) : '',
+      lastMessageAt: messages.length ? this.formatDate(messages[messages.length - 1].createdAt) : '',
+      exportId: context.exportId,
+      exportName: context.exportName,
+      matter: context.matter,
+      requestedBy: context.requestedBy,
+      generatedAt: this.formatDate(context.generatedAt),
+      messages: messages.map((message) => ({
+        ...message,
+        timestamp: this.formatDate(message.sentAt || message.createdAt),
+        media: message.media && {
+          ...message.media,
+          href: `../${message.media.path}`,
+          isImage: message.media.contentType.startsWith('image/'),
+        },
+      })),
+    });
+  }
+
+  renderJson(conversation: TranscriptConversation, context: TranscriptContext): Buffer {
+    return Buffer.from(
+      JSON.stringify(
+        {
+          exportId: context.exportId,
+          generatedAt: context.generatedAt.toISOString(),
+          conversationId: conversation.conversationId,
+          participants: conversation.participants,
+          messageCount: conversation.messages.length,
+          messages: conversation.messages,
+        },
+        null,
+        2,
+      ),
+    );
+  }
+
+  /**
+   * One RFC 822 message per conversation: a plain text and HTML transcript
+   * with the conversation's media attached
+   */
+  async renderEml(
+    conversation: TranscriptConversation,
+    context: TranscriptContext,
+    mediaContent: Map<string, Buffer>,
+  ): Promise<Buffer> {
+    const text = conversation.messages
+      .map((message) => {
+        const attachment = message.media
+          ? ` [attachment: ${path.basename(message.media.path)}]`
+          : message.mediaError ? ' [attachment not available]' : '';
+        return `[${this.formatDate(message.sentAt || message.createdAt)}] ${message.senderName} (${message.from} -> ${message.to}): ${message.content || ''}${attachment}`;
+      })
+      .join('\n');
+
+    const attachments = conversation.messages
+      .filter((message) => message.media && mediaContent.has(message.media.path))
+      .map((message) => ({
+        filename: path.basename(message.media.path),
+        content: mediaContent.get(message.media.path),
+        contentType: message.media.contentType,
+      }));
+
+    const composer = new MailComposer({
+      from: 'UNICX eDiscovery <no-reply@unicx.local>',
+      to: conversation.participants.join(', '),
+      subject: `WhatsApp conversation ${conversation.conversationId} - ${context.exportName}`,
+      date: context.generatedAt,
+      headers: {
+        'X-Unicx-Export-Id': context.exportId,
+        'X-Unicx-Conversation-Id': conversation.conversationId,
+      },
+      text,
+      html: this.renderHtml(conversation, context),
+      attachments,
+    });
+
+    return composer.compile().build();
+  }
+
+  /**
+   * Launch a headless browser for printing HTML transcripts to PDF.
+   * The caller must close it once the bundle is built.
+   */
+  async createPdfRenderer(): Promise<PdfRenderer> {
+    const browser = await puppeteer.launch({
+      executablePath: this.configService.get<string>('ediscovery.chromePath') || undefined,
+      headless: true,
+      args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage', '--disable-gpu'],
+    });
+
+    return {
+      render: async (html: string) => {
+        const page = await browser.newPage();
+        try {
+          // Relative media links cannot resolve here; JavaScript is not needed either
+          await page.setJavaScriptEnabled(false);
+          await page.setContent(html, { waitUntil: 'load' });
+          return await page.pdf({ format: 'A4', printBackground: true, margin: { top: '15mm', bottom: '15mm', left: '12mm', right: '12mm' } });
+        } finally {
+          await page.close();
+        }
+      },
+      close: async () => {
+        try {
+          await browser.close();
+        } catch (error) {
+          this.logger.warn(`Failed to close PDF renderer: ${error.message}`);
+        }
+      },
+    };
+  }
+
+  private getTemplate(): handlebars.TemplateDelegate {
+    if (!this.template) {
+      const templatePath = path.join(__dirname, '..', '..', '..', 'templates', 'ediscovery-transcript.hbs');
+      this.template = handlebars.compile(fs.readFileSync(templatePath, 'utf8'));
+    }
+
+    return this.template;
+  }
+
+  private formatDate(date: Date | string | undefined): string {
+    return date ? new Date(date).toISOString() : '';
+  }
+}
@@ -0,0 +1,138 @@
+import * as zlib from 'zlib';
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date/time as stored in zip headers (2 second resolution, local time)
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+interface ZipEntry {
+  name: Buffer;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_UTF8 = 0x0800;
+const MAX_ENTRIES = 0xffff;
+const MAX_SIZE = 0xffffffff;
+
+/**
+ * Minimal in-memory zip writer for export bundles.
+ * Entries are deflated unless that makes them larger (already compressed media);
+ * ZIP64 is not supported, so bundles are limited to 65535 entries and 4 GB.
+ */
+export class ZipWriter {
+  private readonly entries: ZipEntry[] = [];
+  private readonly chunks: Buffer[] = [];
+  private offset = 0;
+
+  get size(): number {
+    return this.offset;
+  }
+
+  addFile(name: string, data: Buffer, modifiedAt: Date = new Date()): void {
+    if (this.entries.length >= MAX_ENTRIES) {
+      throw new Error('Export bundle exceeds the maximum number of files');
+    }
+
+    const fileName = Buffer.from(name, 'utf8');
+    const deflated = zlib.deflateRawSync(data);
+    const method = deflated.length < data.length ? METHOD_DEFLATE : METHOD_STORE;
+    const body = method === METHOD_DEFLATE ? deflated : data;
+    const { time, date } = dosDateTime(modifiedAt);
+    const crc = crc32(data);
+
+    if (this.offset + 30 + fileName.length + body.length > MAX_SIZE) {
+      throw new Error('Export bundle exceeds the maximum size');
+    }
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4); // Version needed to extract
+    header.writeUInt16LE(FLAG_UTF8, 6);
+    header.writeUInt16LE(method, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(body.length, 18);
+    header.writeUInt32LE(data.length, 22);
+    header.writeUInt16LE(fileName.length, 26);
+    header.writeUInt16LE(0, 28); // Extra field length
+
+    this.entries.push({
+      name: fileName,
+      method,
+      crc,
+      compressedSize: body.length,
+      size: data.length,
+      offset: this.offset,
+      time,
+      date,
+    });
+    this.chunks.push(header, fileName, body);
+    this.offset += header.length + fileName.length + body.length;
+  }
+
+  toBuffer(): Buffer {
+    const centralDirectory: Buffer[] = [];
+    let centralDirectorySize = 0;
+
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4); // Version made by
+      header.writeUInt16LE(20, 6); // Version needed to extract
+      header.writeUInt16LE(FLAG_UTF8, 8);
+      header.writeUInt16LE(entry.method, 10);
+      header.writeUInt16LE(entry.time, 12);
+      header.writeUInt16LE(entry.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      // Extra field, comment, disk number and attributes stay zero
+      header.writeUInt32LE(entry.offset, 42);
+
+      centralDirectory.push(header, entry.name);
+      centralDirectorySize += header.length + entry.name.length;
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(centralDirectorySize, 12);
+    end.writeUInt32LE(this.offset, 16);
+
+    return Buffer.concat([...this.chunks, ...centralDirectory, end]);
+  }
+}
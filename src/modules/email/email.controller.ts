@@ -2,9 +2,9 @@ import { Controller, Post, Get, Body, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiBody } from '@nestjs/swagger';
 import { EmailService } from './email.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
-import { RolesGuard } from '../auth/roles.guard';
-import { Roles } from '../auth/decorators';
-import { UserRole } from '../../common/schemas/user.schema';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions } from '../auth/decorators';
+import { Permission } from '../../common/constants/permissions';
 
 class SendTestEmailDto {
   toEmail: string;
@@ -13,13 +13,13 @@ class SendTestEmailDto {
 
 @ApiTags('Email')
 @Controller('email')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @ApiBearerAuth()
 export class EmailController {
   constructor(private readonly emailService: EmailService) {}
 
   @Get('verify')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @RequirePermissions(Permission.SETTINGS_MANAGE)
   @ApiOperation({ summary: 'Verify email service connection' })
   @ApiResponse({ status: 200, description: 'Connection status' })
   async verifyConnection() {
@@ -34,7 +34,7 @@ export class EmailController {
   }
 
   @Post('test')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @RequirePermissions(Permission.SETTINGS_MANAGE)
   @ApiOperation({ summary: 'Send test email' })
   @ApiBody({ type: SendTestEmailDto })
   @ApiResponse({ status: 200, description: 'Test email sent successfully' })
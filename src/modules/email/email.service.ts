@@ -149,6 +149,36 @@ export class EmailService {
     }
   }
 
+  async sendAlertNotificationEmail(email: string, alertData: Record<string, any>): Promise<void> {
+    try {
+      const template = await this.loadTemplate('alert-notification');
+
+      const templateData = {
+        companyName: 'UNICX',
+        email,
+        ...alertData,
+      };
+
+      const html = template(templateData);
+
+      const fromName = this.configService.get<string>('email.from.name') || 'UNICX';
+      const fromAddress = this.configService.get<string>('email.from.address');
+
+      const mailOptions = {
+        from: `"${fromName}" <${fromAddress}>`,
+        to: email,
+        subject: `[${String(alertData.severity).toUpperCase()}] ${alertData.title} - UNICX`,
+        html,
+      };
+
+      await this.transporter.sendMail(mailOptions);
+      this.logger.log(`Alert notification email sent to ${email}`);
+    } catch (error) {
+      this.logger.error(`Failed to send alert notification email to ${email}:`, error);
+      throw error;
+    }
+  }
+
   private async loadTemplate(templateId: string): Promise<handlebars.TemplateDelegate> {
     try {
       const templatePath = path.join(__dirname, '..', '..', '..', 'templates', `${templateId}.hbs`);
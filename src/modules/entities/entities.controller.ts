@@ -16,19 +16,19 @@ import { CreateEntityDto } from './dto/create-entity.dto';
 import { UpdateEntityDto } from './dto/update-entity.dto';
 import { MoveEntityDto } from './dto/move-entity.dto';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
-import { RolesGuard } from '../auth/roles.guard';
-import { Roles, RequireTenant } from '../auth/decorators';
-import { UserRole } from '../../common/schemas/user.schema';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions, RequireTenant } from '../auth/decorators';
+import { Permission } from '../../common/constants/permissions';
 
 @ApiTags('Entities')
 @Controller('entities')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @ApiBearerAuth()
 export class EntitiesController {
   constructor(private readonly entitiesService: EntitiesService) {}
 
   @Post()
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @RequirePermissions(Permission.ENTITIES_MANAGE)
   @RequireTenant()
   @ApiOperation({ summary: 'Create a new entity' })
   @ApiResponse({ status: 201, description: 'Entity created successfully' })
@@ -44,6 +44,7 @@ export class EntitiesController {
   }
 
   @Get()
+  @RequirePermissions(Permission.ENTITIES_READ)
   @RequireTenant()
   @ApiOperation({ summary: 'Get all entities' })
   @ApiQuery({ name: 'type', required: false, enum: ['entity', 'company', 'department'] })
@@ -56,6 +57,7 @@ export class EntitiesController {
   }
 
   @Get('hierarchy')
+  @RequirePermissions(Permission.ENTITIES_READ)
   @RequireTenant()
   @ApiOperation({ summary: 'Get entity hierarchy' })
   @ApiQuery({ name: 'maxDepth', required: false })
@@ -65,6 +67,7 @@ export class EntitiesController {
   }
 
   @Get('stats')
+  @RequirePermissions(Permission.ENTITIES_READ)
   @RequireTenant()
   @ApiOperation({ summary: 'Get entity statistics' })
   @ApiResponse({ status: 200, description: 'Entity statistics retrieved successfully' })
@@ -73,6 +76,7 @@ export class EntitiesController {
   }
 
   @Get(':id')
+  @RequirePermissions(Permission.ENTITIES_READ)
   @RequireTenant()
   @ApiOperation({ summary: 'Get entity by ID' })
   @ApiResponse({ status: 200, description: 'Entity retrieved successfully' })
@@ -82,7 +86,7 @@ export class EntitiesController {
   }
 
   @Patch(':id')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @RequirePermissions(Permission.ENTITIES_MANAGE)
   @RequireTenant()
   @ApiOperation({ summary: 'Update entity (name, type, and metadata)' })
   @ApiResponse({ status: 200, description: 'Entity updated successfully' })
@@ -104,7 +108,7 @@ export class EntitiesController {
   }
 
   @Patch(':id/move')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @RequirePermissions(Permission.ENTITIES_MANAGE)
   @RequireTenant()
   @ApiOperation({ summary: 'Move entity to different parent' })
   @ApiResponse({ status: 200, description: 'Entity moved successfully' })
@@ -127,7 +131,7 @@ export class EntitiesController {
   }
 
   @Delete(':id')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @RequirePermissions(Permission.ENTITIES_MANAGE)
   @RequireTenant()
   @ApiOperation({ summary: 'Delete entity' })
   @ApiResponse({ status: 200, description: 'Entity deleted successfully' })
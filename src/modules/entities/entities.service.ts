@@ -68,7 +68,7 @@ export class EntitiesService {
       _id: newObjectId,
       name,
       type,
-      parentId: new Types.ObjectId(parentId) || null,
+      parentId: parentId ? new Types.ObjectId(parentId) : null,
       path,
       entityIdPath,
       tenantId: parentId ? new Types.ObjectId(parent.tenantId) : newObjectId,
@@ -0,0 +1,170 @@
+import * as zlib from 'zlib';
+import { ZipReader } from './zip-reader';
+
+export interface DocumentInfo {
+  pageCount?: number;
+  text?: string;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/**
+ * Page count and text of plain text, PDF and Office (docx, pptx, xlsx)
+ * documents. PDF text is read from the content streams' text operators, so
+ * scanned pages and fonts without a simple encoding yield no text. Null when
+ * the format is not recognised.
+ */
+export function readDocument(buffer: Buffer, contentType: string, maxEntrySize: number): DocumentInfo | null {
+  try {
+    if (buffer.toString('latin1', 0, 5) === '%PDF-') {
+      return readPdf(buffer, maxEntrySize);
+    }
+    if (buffer.readUInt32LE(0) === 0x04034b50) {
+      return readOffice(new ZipReader(buffer, maxEntrySize));
+    }
+    if (contentType.startsWith('text/')) {
+      return { text: normalize(buffer.toString('utf8')) };
+    }
+  } catch {
+    // Corrupt or unsupported variant
+  }
+  return null;
+}
+
+function readPdf(buffer: Buffer, maxEntrySize: number): DocumentInfo {
+  const raw = buffer.toString('latin1');
+  const objectText: string[] = [raw];
+  const pages: string[] = [];
+
+  const streamStart = /\bstream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = streamStart.exec(raw))) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end < 0) break;
+    streamStart.lastIndex = end;
+
+    const dict = raw.slice(Math.max(raw.lastIndexOf(' obj', match.index), match.index - 1024), match.index);
+    if (!/\/FlateDecode/.test(dict) || /\/Subtype\s*\/Image/.test(dict)) continue;
+
+    let content: string;
+    try {
+      content = zlib.inflateSync(buffer.subarray(start, end), { maxOutputLength: maxEntrySize }).toString('latin1');
+    } catch {
+      continue;
+    }
+
+    if (/\/Type\s*\/ObjStm/.test(dict)) {
+      objectText.push(content);
+    } else if (/\bBT\b/.test(content)) {
+      pages.push(pdfContentText(content));
+    }
+  }
+
+  // The page tree root carries the total; count leaf pages when it cannot be found
+  let pageCount = 0;
+  for (const text of objectText) {
+    for (const pagesDict of text.match(/<<[^<>]*\/Type\s*\/Pages\b[^<>]*>>/g) || []) {
+      const count = /\/Count\s+(\d+)/.exec(pagesDict);
+      if (count) pageCount = Math.max(pageCount, Number(count[1]));
+    }
+  }
+  if (!pageCount) {
+    pageCount = objectText.reduce((total, text) => total + (text.match(/\/Type\s*\/Page(?![A-Za-z])/g) || []).length, 0);
+  }
+
+  return { pageCount: pageCount || undefined, text: normalize(pages.join('\n\n')) };
+}
+
+function pdfContentText(content: string): string {
+  const operators = /\[((?:\\.|[^\]\\])*)\]\s*TJ|\(((?:\\.|[^)\\])*)\)\s*(Tj|'|")|(-?[\d.]+)\s+(-?[\d.]+)\s+T[dD]|\b(T\*|ET)\b/g;
+  let text = '';
+  let match: RegExpExecArray | null;
+
+  while ((match = operators.exec(content))) {
+    if (match[1] !== undefined) {
+      // Large negative adjustments between strings are word gaps
+      const parts = /\(((?:\\.|[^)\\])*)\)|(-?[\d.]+)/g;
+      let part: RegExpExecArray | null;
+      while ((part = parts.exec(match[1]))) {
+        if (part[1] !== undefined) text += pdfString(part[1]);
+        else if (Number(part[2]) < -200) text += ' ';
+      }
+    } else if (match[2] !== undefined) {
+      if (match[3] !== 'Tj') text += '\n';
+      text += pdfString(match[2]);
+    } else if (match[4] !== undefined) {
+      text += Number(match[5]) !== 0 ? '\n' : ' ';
+    } else {
+      text += '\n';
+    }
+  }
+
+  return text;
+}
+
+function pdfString(value: string): string {
+  return value.replace(/\\([nrtbf()\\]|[0-7]{1,3}|\r?\n)/g, (_, escape: string) => {
+    switch (escape) {
+      case 'n':
+        return '\n';
+      case 'r':
+        return '\r';
+      case 't':
+        return '\t';
+      case 'b':
+        return '\b';
+      case 'f':
+        return '\f';
+      default:
+        if (/^[0-7]+$/.test(escape)) return String.fromCharCode(parseInt(escape, 8));
+        return escape.startsWith('\n') || escape.startsWith('\r') ? '' : escape;
+    }
+  });
+}
+
+function readOffice(zip: ZipReader): DocumentInfo | null {
+  const names = zip.names();
+
+  if (names.includes('word/document.xml')) {
+    const xml = zip.readText('word/document.xml') || '';
+    const pages = /<Pages>(\d+)<\/Pages>/.exec(zip.readText('docProps/app.xml') || '');
+    return {
+      pageCount: pages ? Number(pages[1]) : undefined,
+      text: normalize(xmlText(xml.replace(/<w:tab\/>/g, '\t').replace(/<w:br\/>|<\/w:p>/g, '\n'))),
+    };
+  }
+
+  if (names.includes('ppt/presentation.xml')) {
+    const slides = names
+      .map((name) => /^ppt\/slides\/slide(\d+)\.xml$/.exec(name))
+      .filter(Boolean)
+      .sort((a, b) => Number(a[1]) - Number(b[1]))
+      .map((slide) => xmlText((zip.readText(slide[0]) || '').replace(/<\/a:p>/g, '\n')));
+    return { pageCount: slides.length, text: normalize(slides.join('\n\n')) };
+  }
+
+  if (names.includes('xl/workbook.xml')) {
+    const strings = zip.readText('xl/sharedStrings.xml') || '';
+    return { text: normalize(xmlText(strings.replace(/<\/si>/g, '\n'))) };
+  }
+
+  return null;
+}
+
+function xmlText(xml: string): string {
+  return xml
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(amp|lt|gt|quot|apos|#\d+|#x[0-9a-f]+);/gi, (_, entity: string) => {
+      if (entity[0] !== '#') return XML_ENTITIES[entity.toLowerCase()];
+      return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    });
+}
+
+function normalize(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,92 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as puppeteer from 'puppeteer';
+
+// Raster formats Chromium decodes; SVG is left alone since it can carry scripts
+export const THUMBNAIL_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/bmp'];
+
+export interface ImageThumbnail {
+  thumbnail: Buffer; // JPEG
+  width: number; // Of the original image
+  height: number;
+}
+
+export interface ImageThumbnailer {
+  create(image: Buffer, contentType: string): Promise<ImageThumbnail>;
+  close(): Promise<void>;
+}
+
+/**
+ * Makes JPEG thumbnails of images with the headless Chromium that is already
+ * used for PDF transcripts, so no image library is needed.
+ */
+@Injectable()
+export class ImageThumbnailerService {
+  private readonly logger = new Logger(ImageThumbnailerService.name);
+
+  constructor(private configService: ConfigService) {}
+
+  /**
+   * Launch a headless browser for thumbnails. The caller must close it once
+   * the batch is done.
+   */
+  async open(): Promise<ImageThumbnailer> {
+    const maxSize = this.configService.get<number>('mediaProcessing.thumbnailSize');
+    const browser = await puppeteer.launch({
+      executablePath: this.configService.get<string>('mediaProcessing.chromePath') || undefined,
+      headless: true,
+      args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage', '--disable-gpu'],
+    });
+
+    return {
+      create: async (image: Buffer, contentType: string) => {
+        const page = await browser.newPage();
+        try {
+          await page.setContent(
+            `<html><body style="margin:0"><img id="image" src="data:${contentType};base64,${image.toString('base64')}"></body></html>`,
+            { waitUntil: 'load' },
+          );
+
+          const { width, height } = await page.evaluate(() => {
+            const img = document.getElementById('image') as HTMLImageElement;
+            return { width: img.naturalWidth, height: img.naturalHeight };
+          });
+          if (!width || !height) {
+            throw new Error('Image could not be decoded');
+          }
+
+          const scale = Math.min(1, maxSize / width, maxSize / height);
+          const thumbWidth = Math.max(1, Math.round(width * scale));
+          const thumbHeight = Math.max(1, Math.round(height * scale));
+          await page.evaluate(
+            (w: number, h: number) => {
+              const img = document.getElementById('image') as HTMLImageElement;
+              img.style.width = `${w}px`;
+              img.style.height = `${h}px`;
+              img.style.display = 'block';
+            },
+            thumbWidth,
+            thumbHeight,
+          );
+          await page.setViewport({ width: thumbWidth, height: thumbHeight });
+
+          const thumbnail = await page.screenshot({
+            type: 'jpeg',
+            quality: 80,
+            clip: { x: 0, y: 0, width: thumbWidth, height: thumbHeight },
+          });
+          return { thumbnail: thumbnail as Buffer, width, height };
+        } finally {
+          await page.close();
+        }
+      },
+      close: async () => {
+        try {
+          await browser.close();
+        } catch (error) {
+          this.logger.warn(`Failed to close thumbnail browser: ${error.message}`);
+        }
+      },
+    };
+  }
+}
@@ -0,0 +1,134 @@
+const MP3_BITRATES_V1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MP3_BITRATES_V2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000], // MPEG 2.5
+};
+
+/**
+ * Duration in seconds of the audio and video containers WhatsApp uses, read
+ * from their headers: MP4/3GP/M4A, Ogg (Opus voice notes and Vorbis), WAV
+ * and MP3 (layer III). Null when the format is not recognised.
+ */
+export function readMediaDuration(buffer: Buffer): number | null {
+  if (buffer.length < 12) return null;
+
+  try {
+    let seconds: number | null = null;
+    if (buffer.toString('latin1', 4, 8) === 'ftyp') {
+      seconds = mp4Duration(buffer);
+    } else if (buffer.toString('latin1', 0, 4) === 'OggS') {
+      seconds = oggDuration(buffer);
+    } else if (buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WAVE') {
+      seconds = wavDuration(buffer);
+    } else if (buffer.toString('latin1', 0, 3) === 'ID3' || (buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0)) {
+      seconds = mp3Duration(buffer);
+    }
+
+    return seconds !== null && Number.isFinite(seconds) && seconds >= 0 ? Math.round(seconds * 1000) / 1000 : null;
+  } catch {
+    // Truncated or corrupt headers
+    return null;
+  }
+}
+
+// Box header: 32-bit size (1 = 64-bit size follows, 0 = to the end) and type
+function findBox(buffer: Buffer, type: string, start: number, end: number): { start: number; end: number } | null {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    let header = 8;
+    if (size === 1) {
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) return null;
+
+    if (buffer.toString('latin1', offset + 4, offset + 8) === type) {
+      return { start: offset + header, end: Math.min(offset + size, end) };
+    }
+    offset += size;
+  }
+  return null;
+}
+
+function mp4Duration(buffer: Buffer): number | null {
+  const moov = findBox(buffer, 'moov', 0, buffer.length);
+  const mvhd = moov && findBox(buffer, 'mvhd', moov.start, moov.end);
+  if (!mvhd) return null;
+
+  const version = buffer[mvhd.start];
+  const timescale = version === 1 ? buffer.readUInt32BE(mvhd.start + 20) : buffer.readUInt32BE(mvhd.start + 12);
+  const duration = version === 1 ? Number(buffer.readBigUInt64BE(mvhd.start + 24)) : buffer.readUInt32BE(mvhd.start + 16);
+  return timescale ? duration / timescale : null;
+}
+
+// The granule position of the last page counts samples; Opus always runs at 48 kHz
+function oggDuration(buffer: Buffer): number | null {
+  const segments = buffer[26];
+  const packet = 27 + segments;
+
+  let sampleRate: number;
+  let preSkip = 0;
+  if (buffer.toString('latin1', packet, packet + 8) === 'OpusHead') {
+    sampleRate = 48000;
+    preSkip = buffer.readUInt16LE(packet + 10);
+  } else if (buffer.toString('latin1', packet + 1, packet + 7) === 'vorbis') {
+    sampleRate = buffer.readUInt32LE(packet + 12);
+  } else {
+    return null;
+  }
+
+  const last = buffer.lastIndexOf('OggS');
+  if (last < 0 || last + 14 > buffer.length) return null;
+  const granule = Number(buffer.readBigUInt64LE(last + 6));
+  return sampleRate ? Math.max(0, granule - preSkip) / sampleRate : null;
+}
+
+function wavDuration(buffer: Buffer): number | null {
+  let byteRate = 0;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString('latin1', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    if (id === 'fmt ') byteRate = buffer.readUInt32LE(offset + 16);
+    if (id === 'data') return byteRate ? size / byteRate : null;
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+// Frame count from a Xing/Info header when present, otherwise assumes a constant bitrate
+function mp3Duration(buffer: Buffer): number | null {
+  let offset = 0;
+  if (buffer.toString('latin1', 0, 3) === 'ID3') {
+    const tagSize = (buffer[6] << 21) | (buffer[7] << 14) | (buffer[8] << 7) | buffer[9];
+    offset = 10 + tagSize + (buffer[5] & 0x10 ? 10 : 0);
+  }
+  while (offset + 4 <= buffer.length && !(buffer[offset] === 0xff && (buffer[offset + 1] & 0xe0) === 0xe0)) {
+    offset++;
+  }
+  if (offset + 4 > buffer.length) return null;
+
+  const version = (buffer[offset + 1] >> 3) & 0x03;
+  const layer = (buffer[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = buffer[offset + 2] >> 4;
+  const sampleRate = MP3_SAMPLE_RATES[version]?.[(buffer[offset + 2] >> 2) & 0x03];
+  const mono = buffer[offset + 3] >> 6 === 3;
+  if (layer !== 1 || !sampleRate) return null;
+
+  const mpeg1 = version === 3;
+  const samplesPerFrame = mpeg1 ? 1152 : 576;
+  const xing = offset + 4 + (mpeg1 ? (mono ? 17 : 32) : mono ? 9 : 17);
+  const tag = buffer.toString('latin1', xing, xing + 4);
+  if ((tag === 'Xing' || tag === 'Info') && buffer.readUInt32BE(xing + 4) & 0x01) {
+    return (buffer.readUInt32BE(xing + 8) * samplesPerFrame) / sampleRate;
+  }
+
+  const bitrate = (mpeg1 ? MP3_BITRATES_V1 : MP3_BITRATES_V2)[bitrateIndex] * 1000;
+  return bitrate ? ((buffer.length - offset) * 8) / bitrate : null;
+}
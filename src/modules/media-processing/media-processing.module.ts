@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { StorageModule } from '../storage/storage.module';
+import { TenantLimitsModule } from '../../common/modules/tenant-limits.module';
+import { MediaProcessingService } from './media-processing.service';
+import { ImageThumbnailerService } from './image-thumbnailer.service';
+import { MediaObject, MediaObjectSchema } from '../../common/schemas/media-object.schema';
+
+@Module({
+  imports: [
+    StorageModule,
+    TenantLimitsModule,
+    MongooseModule.forFeature([{ name: MediaObject.name, schema: MediaObjectSchema }]),
+  ],
+  providers: [MediaProcessingService, ImageThumbnailerService],
+})
+export class MediaProcessingModule {}
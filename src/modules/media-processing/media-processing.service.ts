@@ -0,0 +1,207 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model } from 'mongoose';
+import * as crypto from 'crypto';
+import * as os from 'os';
+import {
+  MediaDetails,
+  MediaObject,
+  MediaObjectDocument,
+  MediaProcessingStatus,
+  MediaUploadStatus,
+} from '../../common/schemas/media-object.schema';
+import { TenantLimitsService } from '../../common/services/tenant-limits.service';
+import { StorageService } from '../storage/storage.service';
+import { MediaAccessService } from '../storage/media-access.service';
+import { ImageThumbnailer, ImageThumbnailerService, THUMBNAIL_IMAGE_TYPES } from './image-thumbnailer.service';
+import { readMediaDuration } from './media-duration';
+import { readDocument } from './document-text';
+
+interface ProcessingResult {
+  sha256: string;
+  size: number;
+  details: MediaDetails;
+  thumbnailKey?: string;
+  textKey?: string;
+}
+
+/**
+ * Analyses media after it has been stored: a SHA-256 of every file, plus a
+ * thumbnail and dimensions for images, the duration of audio and video and
+ * the page count and text of documents. Thumbnails and text are stored next
+ * to the original through StorageService, and the results are copied onto
+ * the message carrying the file. Files are claimed atomically so several
+ * instances can run the worker.
+ */
+@Injectable()
+export class MediaProcessingService {
+  private readonly logger = new Logger(MediaProcessingService.name);
+  private readonly workerId = `${os.hostname()}:${process.pid}`;
+  private processing = false;
+
+  constructor(
+    @InjectModel(MediaObject.name)
+    private mediaObjectModel: Model<MediaObjectDocument>,
+    private storageService: StorageService,
+    private mediaAccessService: MediaAccessService,
+    private thumbnailerService: ImageThumbnailerService,
+    private tenantLimitsService: TenantLimitsService,
+    private configService: ConfigService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async processQueue() {
+    if (this.processing || !this.configService.get<boolean>('mediaProcessing.enabled')) return;
+    this.processing = true;
+
+    // Chromium is only started once a batch has an image in it
+    let thumbnailer: ImageThumbnailer = null;
+    const getThumbnailer = async () => (thumbnailer ??= await this.thumbnailerService.open());
+
+    try {
+      const batchSize = this.configService.get<number>('mediaProcessing.batchSize');
+      for (let i = 0; i < batchSize; i++) {
+        const media = await this.claimNext();
+        if (!media) break;
+        await this.processMedia(media, getThumbnailer);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to process media: ${error.message}`, error);
+    } finally {
+      if (thumbnailer) await thumbnailer.close();
+      this.processing = false;
+    }
+  }
+
+  private async claimNext(): Promise<MediaObjectDocument | null> {
+    const lockTimeoutMs = this.configService.get<number>('mediaProcessing.lockTimeoutMs');
+
+    return this.mediaObjectModel.findOneAndUpdate(
+      {
+        derivedFrom: null,
+        uploadStatus: { $ne: MediaUploadStatus.PENDING },
+        $or: [
+          { processingStatus: MediaProcessingStatus.PENDING },
+          // Worker died while processing
+          { processingStatus: MediaProcessingStatus.PROCESSING, lockedAt: { $lt: new Date(Date.now() - lockTimeoutMs) } },
+        ],
+      },
+      {
+        processingStatus: MediaProcessingStatus.PROCESSING,
+        lockedBy: this.workerId,
+        lockedAt: new Date(),
+        $inc: { processingAttempts: 1 },
+      },
+      { sort: { createdAt: 1 }, new: true },
+    );
+  }
+
+  private async processMedia(media: MediaObjectDocument, getThumbnailer: () => Promise<ImageThumbnailer>): Promise<void> {
+    try {
+      const result = await this.analyse(media, getThumbnailer);
+
+      const processed = await this.mediaObjectModel
+        .findOneAndUpdate(
+          { _id: media._id, lockedBy: this.workerId },
+          {
+            processingStatus: MediaProcessingStatus.COMPLETED,
+            processedAt: new Date(),
+            ...result,
+            $unset: { lockedBy: '', lockedAt: '', processingError: '' },
+          },
+          { new: true },
+        )
+        .lean();
+
+      if (processed) await this.mediaAccessService.applyToMessage(processed);
+      this.logger.debug(`Processed media ${media.key}`);
+    } catch (error) {
+      const maxAttempts = this.configService.get<number>('mediaProcessing.maxAttempts');
+      const exhausted = media.processingAttempts >= maxAttempts;
+
+      this.logger.warn(`Failed to process media ${media.key} (attempt ${media.processingAttempts}): ${error.message}`);
+
+      await this.mediaObjectModel.updateOne(
+        { _id: media._id, lockedBy: this.workerId },
+        {
+          processingStatus: exhausted ? MediaProcessingStatus.FAILED : MediaProcessingStatus.PENDING,
+          processingError: error.message,
+          $unset: { lockedBy: '', lockedAt: '' },
+        },
+      );
+    }
+  }
+
+  // Files above mediaProcessing.maxBytes are only hashed, as a stream
+  private async analyse(media: MediaObject, getThumbnailer: () => Promise<ImageThumbnailer>): Promise<ProcessingResult> {
+    const maxBytes = this.configService.get<number>('mediaProcessing.maxBytes');
+    const size = media.size || (await this.storageService.statFile(media.key)).size;
+
+    if (size > maxBytes) {
+      const hash = crypto.createHash('sha256');
+      for await (const chunk of await this.storageService.openDownloadStream(media.key)) {
+        hash.update(chunk);
+      }
+      return { sha256: hash.digest('hex'), size, details: {} };
+    }
+
+    const { buffer } = await this.storageService.downloadFile(media.key);
+    const result: ProcessingResult = {
+      sha256: crypto.createHash('sha256').update(buffer).digest('hex'),
+      size: buffer.length,
+      details: {},
+    };
+    const contentType = (media.contentType || '').split(';')[0].trim().toLowerCase();
+
+    if (THUMBNAIL_IMAGE_TYPES.includes(contentType)) {
+      const thumbnailer = await getThumbnailer();
+      const { thumbnail, width, height } = await thumbnailer.create(buffer, contentType);
+      result.details = { width, height };
+      result.thumbnailKey = await this.storeDerivative(media, thumbnail, 'thumb.jpg', 'image/jpeg');
+    } else if (contentType.startsWith('audio/') || contentType.startsWith('video/')) {
+      const durationSeconds = readMediaDuration(buffer);
+      if (durationSeconds !== null) result.details = { durationSeconds };
+    } else {
+      const document = readDocument(buffer, contentType, maxBytes);
+      if (document?.pageCount) result.details.pageCount = document.pageCount;
+      if (document?.text) {
+        const text = document.text.slice(0, this.configService.get<number>('mediaProcessing.maxTextChars'));
+        result.details.preview = text.slice(0, this.configService.get<number>('mediaProcessing.previewChars'));
+        result.textKey = await this.storeDerivative(media, Buffer.from(text, 'utf8'), 'text.txt', 'text/plain; charset=utf-8');
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Store a file made from the original next to it, as `<key>.<suffix>`,
+   * owned by the same entity and counted towards the tenant's storage
+   */
+  private async storeDerivative(media: MediaObject, data: Buffer, suffix: string, contentType: string): Promise<string> {
+    const slash = media.key.lastIndexOf('/');
+    const upload = await this.storageService.uploadFile(
+      data,
+      `${media.key.slice(slash + 1)}.${suffix}`,
+      contentType,
+      slash >= 0 ? media.key.slice(0, slash) : undefined,
+    );
+
+    await this.mediaAccessService.register({
+      key: upload.key,
+      source: media.source,
+      contentType,
+      size: upload.size,
+      derivedFrom: media.key,
+      entityId: media.entityId,
+      entityIdPath: media.entityIdPath,
+      tenantId: media.tenantId,
+      createdBy: 'system',
+    });
+    await this.tenantLimitsService.recordStorage(media.tenantId, upload.size);
+
+    return upload.key;
+  }
+}
@@ -0,0 +1,84 @@
+import * as zlib from 'zlib';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  offset: number;
+}
+
+/**
+ * Minimal in-memory zip reader for Office documents. Entries are only
+ * inflated when read, and never beyond maxEntrySize so a small archive
+ * cannot expand into gigabytes. ZIP64 archives are not supported.
+ */
+export class ZipReader {
+  private readonly entries = new Map<string, ZipEntry>();
+
+  constructor(private readonly buffer: Buffer, private readonly maxEntrySize: number) {
+    // The end of central directory record sits within the last 64 KB (comment included)
+    const from = Math.max(0, buffer.length - 0xffff - 22);
+    let eocd = -1;
+    for (let i = buffer.length - 22; i >= from; i--) {
+      if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd < 0) {
+      throw new Error('Not a zip archive');
+    }
+
+    const count = buffer.readUInt16LE(eocd + 10);
+    let offset = buffer.readUInt32LE(eocd + 16);
+    for (let i = 0; i < count && offset + 46 <= buffer.length; i++) {
+      if (buffer.readUInt32LE(offset) !== CENTRAL_SIGNATURE) break;
+
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+      this.entries.set(name, {
+        method: buffer.readUInt16LE(offset + 10),
+        compressedSize: buffer.readUInt32LE(offset + 20),
+        offset: buffer.readUInt32LE(offset + 42),
+      });
+
+      offset += 46 + nameLength + buffer.readUInt16LE(offset + 30) + buffer.readUInt16LE(offset + 32);
+    }
+  }
+
+  names(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  read(name: string): Buffer | null {
+    const entry = this.entries.get(name);
+    if (!entry || this.buffer.readUInt32LE(entry.offset) !== LOCAL_SIGNATURE) return null;
+
+    const start = entry.offset + 30 + this.buffer.readUInt16LE(entry.offset + 26) + this.buffer.readUInt16LE(entry.offset + 28);
+    const data = this.buffer.subarray(start, start + entry.compressedSize);
+
+    switch (entry.method) {
+      case METHOD_STORE:
+        return data.length <= this.maxEntrySize ? data : null;
+      case METHOD_DEFLATE:
+        try {
+          return zlib.inflateRawSync(data, { maxOutputLength: this.maxEntrySize });
+        } catch {
+          // Corrupt, or larger than allowed
+          return null;
+        }
+      default:
+        return null;
+    }
+  }
+
+  readText(name: string): string | null {
+    const data = this.read(name);
+    return data ? data.toString('utf8') : null;
+  }
+}
@@ -0,0 +1,20 @@
+import { IsOptional, IsInt, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Overrides of the configured quota limits. Omitted quotas keep the default;
+ * 0 makes a quota unlimited.
+ */
+export class QuotaLimitsDto {
+  @ApiProperty({ example: 1200, description: 'Messages per messages-send window (QUOTA_MESSAGES_SEND_WINDOW_SECONDS)', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  messagesSend?: number;
+
+  @ApiProperty({ example: 10, description: 'eDiscovery exports per exports window (QUOTA_EXPORTS_WINDOW_SECONDS)', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  exports?: number;
+}
@@ -0,0 +1,38 @@
+import { Controller, Get, Put, Body, Param, Query, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { QuotasService } from './quotas.service';
+import { QuotaLimitsDto } from './dto/quota-limits.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions } from '../auth/decorators';
+import { Permission } from '../../common/constants/permissions';
+import { Audit } from '../../common/decorators/audit.decorator';
+import { AuditAction, AuditResource } from '../../common/schemas/audit-log.schema';
+
+@ApiTags('Quotas')
+@Controller('quotas')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions(Permission.SETTINGS_MANAGE)
+@ApiBearerAuth()
+export class QuotasController {
+  constructor(private readonly quotasService: QuotasService) {}
+
+  @Get()
+  @ApiQuery({ name: 'tenantId', required: false, description: 'Tenant to read; required for SystemAdmin' })
+  @ApiOperation({ summary: 'Get the tenant\'s quota limits and current usage' })
+  @ApiResponse({ status: 200, description: 'Quotas retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Tenant not found' })
+  async getQuotas(@Query('tenantId') tenantId: string, @Request() req) {
+    return this.quotasService.getTenantQuotas(req.user, tenantId);
+  }
+
+  @Put('tenants/:tenantId')
+  @Audit({ action: AuditAction.CONFIG_CHANGE, resource: AuditResource.TENANT, resourceName: 'quotas' })
+  @ApiOperation({ summary: 'Replace a tenant\'s quota overrides (SystemAdmin only)' })
+  @ApiResponse({ status: 200, description: 'Quotas updated successfully' })
+  @ApiResponse({ status: 403, description: 'Not a SystemAdmin' })
+  @ApiResponse({ status: 404, description: 'Tenant not found' })
+  async setTenantQuotas(@Param('tenantId') tenantId: string, @Body() dto: QuotaLimitsDto, @Request() req) {
+    return this.quotasService.setTenantQuotas(tenantId, dto, req.user);
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../../common/database/database.module';
+import { SecurityModule } from '../../common/security/security.module';
+import { AuthModule } from '../auth/auth.module';
+import { QuotasService } from './quotas.service';
+import { QuotasController } from './quotas.controller';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    SecurityModule,
+    AuthModule,
+  ],
+  controllers: [QuotasController],
+  providers: [QuotasService],
+  exports: [QuotasService],
+})
+export class QuotasModule {}
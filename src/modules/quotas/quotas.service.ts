@@ -0,0 +1,100 @@
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Entity, EntityDocument } from '../../common/schemas/entity.schema';
+import { UserRole } from '../../common/schemas/user.schema';
+import { QuotaName } from '../../common/constants/quotas';
+import { RateLimitService } from '../../common/security/rate-limit.service';
+import { JwtPayload } from '../auth/auth.service';
+import { QuotaLimitsDto } from './dto/quota-limits.dto';
+
+export interface QuotaStatus {
+  quota: QuotaName;
+  limit: number; // 0 when unlimited
+  windowSeconds: number;
+  used: number;
+  remaining: number;
+  reset: number;
+  overridden: boolean;
+}
+
+@Injectable()
+export class QuotasService {
+  constructor(
+    @InjectModel(Entity.name)
+    private entityModel: Model<EntityDocument>,
+    private rateLimitService: RateLimitService,
+  ) {}
+
+  /**
+   * Limits and current usage of every quota for a tenant
+   */
+  async getTenantQuotas(actor: JwtPayload, tenantId?: string): Promise<{ tenantId: string; quotas: QuotaStatus[] }> {
+    const tenant = await this.findTenant(this.resolveTenant(tenantId, actor));
+    const id = tenant._id.toString();
+
+    const quotas = await Promise.all(
+      Object.values(QuotaName).map(async (quota): Promise<QuotaStatus> => {
+        const [check] = await this.rateLimitService.quotaChecks(quota, { tenantId: id } as JwtPayload);
+        const [usage] = check ? await this.rateLimitService.usage([check]) : [];
+
+        return {
+          quota,
+          limit: check?.limit || 0,
+          windowSeconds: check?.windowSeconds,
+          used: usage?.count || 0,
+          remaining: usage ? usage.remaining : null,
+          reset: usage?.reset,
+          overridden: tenant.quotas?.[quota] !== undefined && tenant.quotas?.[quota] !== null,
+        };
+      }),
+    );
+
+    return { tenantId: id, quotas };
+  }
+
+  /**
+   * Replace a tenant's quota overrides. Tenants cannot raise their own
+   * quotas, so this is reserved to SystemAdmins.
+   */
+  async setTenantQuotas(tenantId: string, dto: QuotaLimitsDto, actor: JwtPayload) {
+    if (actor.role !== UserRole.SYSTEM_ADMIN) {
+      throw new ForbiddenException('Only SystemAdmins can change tenant quotas');
+    }
+
+    const tenant = await this.findTenant(tenantId);
+    const quotas = Object.fromEntries(
+      Object.values(QuotaName)
+        .filter((quota) => dto[quota] !== undefined)
+        .map((quota) => [quota, dto[quota]]),
+    );
+
+    await this.entityModel.updateOne(
+      { _id: tenant._id },
+      Object.keys(quotas).length ? { quotas, updatedBy: actor.sub } : { $unset: { quotas: 1 }, updatedBy: actor.sub },
+    );
+    this.rateLimitService.invalidate('tenant', tenant._id.toString());
+
+    return this.getTenantQuotas(actor, tenant._id.toString());
+  }
+
+  private resolveTenant(tenantId: string | undefined, actor: JwtPayload): string {
+    if (actor.role === UserRole.SYSTEM_ADMIN) {
+      if (!tenantId) {
+        throw new BadRequestException('tenantId is required');
+      }
+      return tenantId;
+    }
+    return actor.tenantId;
+  }
+
+  private async findTenant(tenantId: string): Promise<EntityDocument> {
+    const tenant = Types.ObjectId.isValid(tenantId)
+      ? await this.entityModel.findOne({ _id: tenantId, tenantId, isActive: true })
+      : null;
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+    return tenant;
+  }
+}
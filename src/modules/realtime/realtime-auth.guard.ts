@@ -0,0 +1,35 @@
+import { Injectable, CanActivate, ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { AuthService } from '../auth/auth.service';
+import { PermissionsService } from '../auth/permissions.service';
+
+/**
+ * JWT guard for the event stream.
+ * Browsers cannot set headers on EventSource, so the access token may also be
+ * passed as the `access_token` query parameter on this route only.
+ */
+@Injectable()
+export class RealtimeAuthGuard implements CanActivate {
+  constructor(
+    private authService: AuthService,
+    private permissionsService: PermissionsService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+
+    const [scheme, headerToken] = (request.headers.authorization || '').split(' ');
+    const token = scheme === 'Bearer' && headerToken ? headerToken : request.query.access_token;
+
+    if (!token) {
+      throw new UnauthorizedException('Missing access token');
+    }
+
+    const payload = await this.authService.validateToken(token);
+    if (!payload.impersonator) {
+      await this.authService.assertTenantActive(payload.tenantId);
+    }
+
+    request.user = { ...payload, permissions: await this.permissionsService.resolve(payload) };
+    return true;
+  }
+}
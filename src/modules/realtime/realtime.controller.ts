@@ -0,0 +1,34 @@
+import { Controller, Sse, UseGuards, Request, MessageEvent } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { Observable } from 'rxjs';
+import { RealtimeService } from './realtime.service';
+import { RealtimeAuthGuard } from './realtime-auth.guard';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions, EntityScopeFor } from '../auth/decorators';
+import { EntityScope } from '../auth/entity-scope';
+import { Permission } from '../../common/constants/permissions';
+
+@ApiTags('Realtime')
+@Controller('realtime')
+@UseGuards(RealtimeAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+export class RealtimeController {
+  constructor(private readonly realtimeService: RealtimeService) {}
+
+  @Sse('events')
+  @RequirePermissions(Permission.SESSIONS_READ)
+  @ApiOperation({
+    summary: 'Server-sent event stream of QR refreshes, session status changes, new messages and acks within the caller\'s entity subtree',
+    description: 'Message events need messages:read over the message\'s entity. The stream ends when the token expires or its session is revoked.',
+  })
+  @ApiQuery({ name: 'access_token', required: false, description: 'JWT for clients that cannot send an Authorization header (EventSource)' })
+  @ApiResponse({ status: 200, description: 'text/event-stream' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid token' })
+  events(
+    @EntityScopeFor(Permission.SESSIONS_READ) sessionScope: EntityScope,
+    @EntityScopeFor(Permission.MESSAGES_READ) messageScope: EntityScope,
+    @Request() req,
+  ): Observable<MessageEvent> {
+    return this.realtimeService.stream(req.user, { sessions: sessionScope, messages: messageScope });
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { RealtimeService } from './realtime.service';
+import { RealtimeController } from './realtime.controller';
+import { RealtimeAuthGuard } from './realtime-auth.guard';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [RealtimeController],
+  providers: [RealtimeService, RealtimeAuthGuard],
+  exports: [RealtimeService],
+})
+export class RealtimeModule {}
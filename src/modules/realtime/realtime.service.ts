@@ -0,0 +1,101 @@
+import { Injectable, Logger, MessageEvent } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { NEVER, Observable, Subject, concatMap, filter, interval, map, merge, share, takeUntil, timer } from 'rxjs';
+import { AuthService, JwtPayload } from '../auth/auth.service';
+import { EntityScope, isInEntityScope } from '../auth/entity-scope';
+
+export enum RealtimeEventType {
+  SESSION_QR = 'session.qr',
+  SESSION_STATUS = 'session.status',
+  MESSAGE_CREATED = 'message.created',
+  MESSAGE_STATUS = 'message.status',
+}
+
+export interface RealtimeScope {
+  tenantId: Types.ObjectId | string;
+  entityIdPath?: (Types.ObjectId | string)[];
+}
+
+export interface RealtimeStreamScopes {
+  sessions: EntityScope;
+  messages: EntityScope;
+}
+
+const MESSAGE_EVENT_TYPES = new Set([RealtimeEventType.MESSAGE_CREATED, RealtimeEventType.MESSAGE_STATUS]);
+
+interface RealtimeEvent {
+  type: RealtimeEventType;
+  tenantId: string;
+  entityIdPath: string[];
+  data: Record<string, any>;
+}
+
+/**
+ * In-process event bus behind the SSE stream.
+ *
+ * Producers publish with the tenant and entity path of the resource; each
+ * subscriber only receives events inside its own entity subtree. Events are
+ * not shared between instances, so clients must stay on the instance that
+ * owns the WhatsApp session (sticky sessions when scaled out).
+ */
+@Injectable()
+export class RealtimeService {
+  private readonly logger = new Logger(RealtimeService.name);
+  private readonly HEARTBEAT_INTERVAL_MS = 25000;
+  private readonly events$ = new Subject<RealtimeEvent>();
+
+  constructor(private authService: AuthService) {}
+
+  publish(type: RealtimeEventType, scope: RealtimeScope, data: Record<string, any>): void {
+    if (!scope?.tenantId) return;
+
+    this.events$.next({
+      type,
+      tenantId: scope.tenantId.toString(),
+      entityIdPath: (scope.entityIdPath || []).map((id) => id.toString()),
+      data,
+    });
+  }
+
+  /**
+   * Events inside the user's scope, plus a heartbeat comment so proxies keep the connection open.
+   * Message events are filtered by the messages:read scope, session events by sessions:read.
+   * Each heartbeat checks the session and tenant again, and the stream ends at token expiry.
+   */
+  stream(user: JwtPayload, scopes: RealtimeStreamScopes): Observable<MessageEvent> {
+    this.logger.log(`Realtime stream opened for ${user.email}`);
+
+    const events = this.events$.pipe(
+      filter((event) => isInEntityScope(MESSAGE_EVENT_TYPES.has(event.type) ? scopes.messages : scopes.sessions, event)),
+      map((event): MessageEvent => ({ type: event.type, data: event.data })),
+    );
+    const checks = interval(this.HEARTBEAT_INTERVAL_MS).pipe(
+      concatMap(() => this.isStillAuthorized(user)),
+      share(),
+    );
+    const heartbeat = checks.pipe(
+      filter((authorized) => authorized),
+      map((): MessageEvent => ({ type: 'heartbeat', data: { at: new Date().toISOString() } })),
+    );
+    const closed = merge(
+      checks.pipe(filter((authorized) => !authorized)),
+      user.exp ? timer(new Date(user.exp * 1000)) : NEVER,
+    );
+
+    return merge(events, heartbeat).pipe(takeUntil(closed));
+  }
+
+  // Logout, revocation and tenant suspension end open streams too
+  private async isStillAuthorized(user: JwtPayload): Promise<boolean> {
+    try {
+      if (!(await this.authService.isSessionActive(user))) return false;
+      if (!user.impersonator) {
+        await this.authService.assertTenantActive(user.tenantId);
+      }
+      return true;
+    } catch (error) {
+      this.logger.log(`Realtime stream closed for ${user.email}: ${error.message}`);
+      return false;
+    }
+  }
+}
@@ -0,0 +1 @@
+export { CreateLegalHoldDto } from './create-retention-policy.dto';
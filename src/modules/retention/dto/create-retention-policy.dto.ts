@@ -0,0 +1,144 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsMongoId,
+  IsBoolean,
+  IsInt,
+  Min,
+  MaxLength,
+  ValidateNested,
+  ValidateIf,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { LegalHoldTargetType } from '../../../common/schemas/legal-hold.schema';
+
+export class RetentionPeriodsDto {
+  @ApiProperty({ example: 365, description: 'Days to keep messages (0 = forever, omitted = inherit)', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  messagesDays?: number;
+
+  @ApiProperty({ example: 90, description: 'Days to keep media blobs (0 = forever, omitted = inherit)', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  mediaDays?: number;
+
+  @ApiProperty({ example: 30, description: 'Days to keep session health checks (0 = forever, omitted = inherit)', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  healthChecksDays?: number;
+
+  @ApiProperty({ example: 730, description: 'Days to keep audit logs (tenant-level policies only)', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  auditLogsDays?: number;
+
+  @ApiProperty({ example: 30, description: 'Days to keep metrics (tenant-level policies only)', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  metricsDays?: number;
+}
+
+export class CreateRetentionPolicyDto {
+  @ApiProperty({ example: 'Default tenant retention' })
+  @IsString()
+  @MaxLength(200)
+  name: string;
+
+  @ApiProperty({ example: 'Messages are kept for one year', required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ description: 'Entity whose subtree the policy covers; defaults to the caller\'s entity', required: false })
+  @IsOptional()
+  @IsMongoId()
+  entityId?: string;
+
+  @ApiProperty({ type: RetentionPeriodsDto })
+  @ValidateNested()
+  @Type(() => RetentionPeriodsDto)
+  periods: RetentionPeriodsDto;
+
+  @ApiProperty({ example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  isEnabled?: boolean;
+}
+
+export class UpdateRetentionPolicyDto {
+  @ApiProperty({ example: 'Default tenant retention', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  name?: string;
+
+  @ApiProperty({ example: 'Messages are kept for one year', required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ type: RetentionPeriodsDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RetentionPeriodsDto)
+  periods?: RetentionPeriodsDto;
+
+  @ApiProperty({ example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  isEnabled?: boolean;
+}
+
+export class CreateLegalHoldDto {
+  @ApiProperty({ example: 'Smith v. Acme' })
+  @IsString()
+  @MaxLength(200)
+  name: string;
+
+  @ApiProperty({ example: 'CASE-2024-117', required: false })
+  @IsOptional()
+  @IsString()
+  matter?: string;
+
+  @ApiProperty({ example: 'Litigation hold requested by legal', required: false })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+
+  @ApiProperty({ enum: LegalHoldTargetType })
+  @IsEnum(LegalHoldTargetType)
+  targetType: LegalHoldTargetType;
+
+  @ApiProperty({ description: 'Custodian (required for user holds)', required: false })
+  @ValidateIf((o) => o.targetType === LegalHoldTargetType.USER)
+  @IsMongoId()
+  userId?: string;
+
+  @ApiProperty({ example: '1234567890@c.us', description: 'Conversation (required for conversation holds)', required: false })
+  @ValidateIf((o) => o.targetType === LegalHoldTargetType.CONVERSATION)
+  @IsString()
+  conversationId?: string;
+
+  @ApiProperty({
+    description: 'Held entity for entity holds, or the subtree a conversation hold applies to; defaults to the caller\'s entity',
+    required: false,
+  })
+  @ValidateIf((o) => o.targetType === LegalHoldTargetType.ENTITY || o.entityId !== undefined)
+  @IsMongoId()
+  entityId?: string;
+}
+
+export class ReleaseLegalHoldDto {
+  @ApiProperty({ example: 'Case settled', required: false })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
@@ -0,0 +1 @@
+export { ReleaseLegalHoldDto } from './create-retention-policy.dto';
@@ -0,0 +1 @@
+export { UpdateRetentionPolicyDto } from './create-retention-policy.dto';
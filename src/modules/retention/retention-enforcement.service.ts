@@ -0,0 +1,419 @@
+import { Injectable, Logger, ConflictException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model, Types } from 'mongoose';
+import { RetentionPolicy, RetentionPolicyDocument } from '../../common/schemas/retention-policy.schema';
+import {
+  LegalHold,
+  LegalHoldDocument,
+  LegalHoldStatus,
+  LegalHoldTargetType,
+} from '../../common/schemas/legal-hold.schema';
+import { Message, MessageDocument, MessageStatus } from '../../common/schemas/message.schema';
+import { WhatsAppHealthCheck, WhatsAppHealthCheckDocument } from '../../common/schemas/whatsapp-health-check.schema';
+import { Entity } from '../../common/schemas/entity.schema';
+import { User } from '../../common/schemas/user.schema';
+import { AuditAction, AuditResource, AuditResult } from '../../common/schemas/audit-log.schema';
+import { AuditService } from '../../common/services/audit.service';
+import { MetricsService } from '../../common/services/metrics.service';
+import { StorageService } from '../storage/storage.service';
+import { MediaAccessService } from '../storage/media-access.service';
+import { SYSTEM_ENTITY_ID } from '../../common/constants/system-entity';
+
+type RetentionDays = {
+  messagesDays?: number;
+  mediaDays?: number;
+  healthChecksDays?: number;
+  auditLogsDays?: number;
+  metricsDays?: number;
+};
+
+type PurgeStats = {
+  messages: number;
+  media: number;
+  healthChecks: number;
+  auditLogs: number;
+  metrics: number;
+};
+
+type HoldConditions = {
+  messages: Record<string, any>[];
+  healthChecks: Record<string, any>[];
+  auditLogUserIds: Types.ObjectId[];
+  tenantIds: Types.ObjectId[]; // Tenants with a hold on their root entity
+};
+
+/**
+ * Enforces retention policies once a day.
+ * Entity-scoped data (messages, media, health checks) follows the deepest
+ * policy on the entity path; tenant-scoped data (audit logs, metrics) follows
+ * the tenant-level policy. Anything without a policy uses the configured
+ * defaults. Data covered by an active legal hold is never deleted.
+ */
+@Injectable()
+export class RetentionEnforcementService {
+  private readonly logger = new Logger(RetentionEnforcementService.name);
+  private processing = false;
+
+  constructor(
+    @InjectModel(RetentionPolicy.name)
+    private policyModel: Model<RetentionPolicyDocument>,
+    @InjectModel(LegalHold.name)
+    private holdModel: Model<LegalHoldDocument>,
+    @InjectModel(Message.name)
+    private messageModel: Model<MessageDocument>,
+    @InjectModel(WhatsAppHealthCheck.name)
+    private healthCheckModel: Model<WhatsAppHealthCheckDocument>,
+    @InjectModel(Entity.name)
+    private entityModel: Model<Entity>,
+    @InjectModel(User.name)
+    private userModel: Model<User>,
+    private auditService: AuditService,
+    private metricsService: MetricsService,
+    private storageService: StorageService,
+    private mediaAccessService: MediaAccessService,
+    private configService: ConfigService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_DAY_AT_2AM)
+  async runScheduled() {
+    if (this.processing) return;
+
+    try {
+      await this.run();
+    } catch (error) {
+      this.logger.error(`Failed to enforce retention policies: ${error.message}`, error);
+    }
+  }
+
+  async run(): Promise<PurgeStats> {
+    if (this.processing) {
+      throw new ConflictException('A retention run is already in progress');
+    }
+    this.processing = true;
+
+    try {
+      const defaults = this.configService.get<RetentionDays>('retention');
+      const policies = await this.policyModel.find({ isActive: true, isEnabled: true }).lean();
+      const holds = await this.holdModel.find({ isActive: true, status: LegalHoldStatus.ACTIVE }).lean();
+      const holdConditions = await this.buildHoldConditions(holds);
+      const totals = this.emptyStats();
+
+      // Each policy covers its subtree except where a deeper policy takes over
+      for (const policy of policies) {
+        const deeperEntityIds = policies
+          .filter((other) => !other.entityId.equals(policy.entityId) && other.entityIdPath.some((id) => id.equals(policy.entityId)))
+          .map((other) => other.entityId);
+
+        const scope = {
+          tenantId: policy.tenantId,
+          entityIdPath: { $all: [policy.entityId], $nin: deeperEntityIds },
+        };
+        const stats = await this.purgeEntityData(scope, this.effectiveDays(policy, policies, defaults), holdConditions, policy.tenantId, policy);
+
+        await this.policyModel.updateOne({ _id: policy._id }, { lastRunAt: new Date(), lastRunStats: stats });
+        this.addStats(totals, stats);
+      }
+
+      // Data outside every policy falls back to the defaults
+      const policyEntityIds = policies.map((policy) => policy.entityId);
+      const tenantIds: Types.ObjectId[] = await this.entityModel.distinct('tenantId', { tenantId: { $ne: null } });
+      for (const tenantId of tenantIds) {
+        const scope = { tenantId, entityIdPath: { $nin: policyEntityIds } };
+        this.addStats(totals, await this.purgeEntityData(scope, defaults, holdConditions, tenantId, null));
+      }
+
+      this.addStats(totals, await this.purgeTenantData(policies, defaults, holdConditions));
+
+      this.logger.log(`Retention run finished: ${JSON.stringify(totals)}`);
+      return totals;
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async purgeEntityData(
+    scope: Record<string, any>,
+    days: RetentionDays,
+    holds: HoldConditions,
+    tenantId: Types.ObjectId,
+    policy: RetentionPolicy | null,
+  ): Promise<PurgeStats> {
+    const stats = this.emptyStats();
+
+    if (days.messagesDays > 0) {
+      const cutoff = this.cutoff(days.messagesDays);
+      stats.messages = await this.purgeMessages(scope, cutoff, holds.messages);
+      await this.recordPurge('messages', stats.messages, days.messagesDays, cutoff, tenantId, policy);
+    }
+
+    if (days.mediaDays > 0) {
+      const cutoff = this.cutoff(days.mediaDays);
+      stats.media = await this.purgeMedia(scope, cutoff, holds.messages);
+      await this.recordPurge('media', stats.media, days.mediaDays, cutoff, tenantId, policy);
+    }
+
+    if (days.healthChecksDays > 0) {
+      const cutoff = this.cutoff(days.healthChecksDays);
+      const result = await this.healthCheckModel.deleteMany({
+        ...scope,
+        createdAt: { $lt: cutoff },
+        ...this.excludeHeld(holds.healthChecks),
+      });
+      stats.healthChecks = result.deletedCount;
+      await this.recordPurge('healthChecks', stats.healthChecks, days.healthChecksDays, cutoff, tenantId, policy);
+    }
+
+    return stats;
+  }
+
+  private async purgeTenantData(policies: RetentionPolicy[], defaults: RetentionDays, holds: HoldConditions): Promise<PurgeStats> {
+    const stats = this.emptyStats();
+    const tenantPolicies = policies.filter((policy) => policy.entityId.equals(policy.tenantId));
+    const isHeld = (tenantId: Types.ObjectId) => holds.tenantIds.some((id) => id.equals(tenantId));
+
+    const auditLogPolicies = tenantPolicies.filter((policy) => policy.periods?.auditLogsDays != null);
+    for (const policy of auditLogPolicies) {
+      const days = policy.periods.auditLogsDays;
+      if (!days || isHeld(policy.tenantId)) continue;
+
+      const deleted = await this.auditService.cleanupOldLogs(days, {
+        tenantId: policy.tenantId,
+        userId: { $nin: holds.auditLogUserIds },
+      });
+      stats.auditLogs += deleted;
+      await this.recordPurge('auditLogs', deleted, days, this.cutoff(days), policy.tenantId, policy);
+    }
+
+    if (defaults.auditLogsDays > 0) {
+      const deleted = await this.auditService.cleanupOldLogs(defaults.auditLogsDays, {
+        tenantId: { $nin: [...auditLogPolicies.map((policy) => policy.tenantId), ...holds.tenantIds] },
+        userId: { $nin: holds.auditLogUserIds },
+      });
+      stats.auditLogs += deleted;
+      await this.recordPurge('auditLogs', deleted, defaults.auditLogsDays, this.cutoff(defaults.auditLogsDays), null, null);
+    }
+
+    const metricsPolicies = tenantPolicies.filter((policy) => policy.periods?.metricsDays != null);
+    for (const policy of metricsPolicies) {
+      const days = policy.periods.metricsDays;
+      if (!days || isHeld(policy.tenantId)) continue;
+
+      const deleted = await this.metricsService.cleanupOldMetrics(days, { tenantId: policy.tenantId });
+      stats.metrics += deleted;
+      await this.recordPurge('metrics', deleted, days, this.cutoff(days), policy.tenantId, policy);
+    }
+
+    if (defaults.metricsDays > 0) {
+      const deleted = await this.metricsService.cleanupOldMetrics(defaults.metricsDays, {
+        tenantId: { $nin: [...metricsPolicies.map((policy) => policy.tenantId), ...holds.tenantIds] },
+      });
+      stats.metrics += deleted;
+      await this.recordPurge('metrics', deleted, defaults.metricsDays, this.cutoff(defaults.metricsDays), null, null);
+    }
+
+    return stats;
+  }
+
+  private async purgeMessages(scope: Record<string, any>, cutoff: Date, holds: Record<string, any>[]): Promise<number> {
+    const batchSize = this.configService.get<number>('retention.batchSize');
+    const filter = {
+      ...scope,
+      createdAt: { $lt: cutoff },
+      status: { $ne: MessageStatus.PENDING }, // Still queued for sending
+      ...this.excludeHeld(holds),
+    };
+    let deleted = 0;
+
+    while (true) {
+      const batch = await this.messageModel
+        .find(filter)
+        .select('_id mediaUrl thumbnailUrl outbound.mediaKey mediaInfo.textKey')
+        .limit(batchSize)
+        .lean();
+      if (batch.length === 0) break;
+
+      await this.deleteMediaBlobs(batch);
+      const result = await this.messageModel.deleteMany({ _id: { $in: batch.map((message) => message._id) } });
+      deleted += result.deletedCount;
+
+      if (batch.length < batchSize) break;
+    }
+
+    return deleted;
+  }
+
+  // Drops the media blobs but keeps the message itself
+  private async purgeMedia(scope: Record<string, any>, cutoff: Date, holds: Record<string, any>[]): Promise<number> {
+    const batchSize = this.configService.get<number>('retention.batchSize');
+    const filter = {
+      ...scope,
+      createdAt: { $lt: cutoff },
+      status: { $ne: MessageStatus.PENDING },
+      mediaPurgedAt: { $exists: false },
+      $or: [
+        { mediaUrl: { $nin: [null, ''] } },
+        { thumbnailUrl: { $nin: [null, ''] } },
+        { 'outbound.mediaKey': { $nin: [null, ''] } },
+        { 'mediaInfo.textKey': { $nin: [null, ''] } },
+      ],
+      ...this.excludeHeld(holds),
+    };
+    let purged = 0;
+
+    while (true) {
+      const batch = await this.messageModel
+        .find(filter)
+        .select('_id mediaUrl thumbnailUrl outbound.mediaKey mediaInfo.textKey')
+        .limit(batchSize)
+        .lean();
+      if (batch.length === 0) break;
+
+      await this.deleteMediaBlobs(batch);
+      const result = await this.messageModel.updateMany(
+        { _id: { $in: batch.map((message) => message._id) } },
+        {
+          $set: { mediaPurgedAt: new Date() },
+          $unset: { mediaUrl: '', thumbnailUrl: '', 'outbound.mediaKey': '', 'mediaInfo.textKey': '' },
+        },
+      );
+      purged += result.modifiedCount;
+
+      if (batch.length < batchSize) break;
+    }
+
+    return purged;
+  }
+
+  // Shared blobs lose a reference and are only deleted with the last message using them
+  private async deleteMediaBlobs(messages: Array<Partial<Message>>): Promise<void> {
+    for (const message of messages) {
+      const keys: string[] = [];
+      for (const url of [message.mediaUrl, message.thumbnailUrl]) {
+        if (url && this.storageService.isProxyUrl(url)) {
+          const key = this.storageService.extractKeyFromProxyUrl(url);
+          if (key) keys.push(key);
+        }
+      }
+      if (message.outbound?.mediaKey) keys.push(message.outbound.mediaKey);
+      if (message.mediaInfo?.textKey) keys.push(message.mediaInfo.textKey);
+
+      for (const key of await this.mediaAccessService.release(message._id, keys)) {
+        try {
+          await this.storageService.deleteFile(key);
+        } catch (error) {
+          // A missing blob must not keep the record around forever
+          this.logger.warn(`Failed to delete media ${key}: ${error.message}`);
+        }
+      }
+    }
+  }
+
+  private async buildHoldConditions(holds: LegalHold[]): Promise<HoldConditions> {
+    const conditions: HoldConditions = { messages: [], healthChecks: [], auditLogUserIds: [], tenantIds: [] };
+
+    for (const hold of holds) {
+      switch (hold.targetType) {
+        case LegalHoldTargetType.USER: {
+          const custodian = await this.userModel.findById(hold.userId).select('phoneNumber').lean();
+          const phoneDigits = custodian?.phoneNumber?.replace(/\D/g, '');
+          const matches: Record<string, any>[] = [{ userId: hold.userId }];
+          if (phoneDigits) {
+            matches.push({ from: new RegExp(`^${phoneDigits}@`) }, { to: new RegExp(`^${phoneDigits}@`) });
+          }
+
+          conditions.messages.push({ tenantId: hold.tenantId, $or: matches });
+          conditions.healthChecks.push({ userId: hold.userId });
+          conditions.auditLogUserIds.push(hold.userId);
+          break;
+        }
+        case LegalHoldTargetType.CONVERSATION:
+          conditions.messages.push({
+            tenantId: hold.tenantId,
+            conversationId: hold.conversationId,
+            entityIdPath: hold.entityId,
+          });
+          break;
+        case LegalHoldTargetType.ENTITY:
+          conditions.messages.push({ entityIdPath: hold.entityId });
+          conditions.healthChecks.push({ entityIdPath: hold.entityId });
+          if (hold.entityId.equals(hold.tenantId)) conditions.tenantIds.push(hold.tenantId);
+          break;
+      }
+    }
+
+    return conditions;
+  }
+
+  private excludeHeld(conditions: Record<string, any>[]): Record<string, any> {
+    return conditions.length > 0 ? { $nor: conditions } : {};
+  }
+
+  // Unset periods inherit from the nearest ancestor policy, then the defaults
+  private effectiveDays(policy: RetentionPolicy, policies: RetentionPolicy[], defaults: RetentionDays): RetentionDays {
+    const chain = policies
+      .filter((other) => policy.entityIdPath.some((id) => id.equals(other.entityId)))
+      .sort((a, b) => a.entityIdPath.length - b.entityIdPath.length);
+
+    const days: RetentionDays = { ...defaults };
+    for (const link of chain) {
+      for (const key of ['messagesDays', 'mediaDays', 'healthChecksDays'] as const) {
+        if (link.periods?.[key] != null) days[key] = link.periods[key];
+      }
+    }
+
+    return days;
+  }
+
+  private async recordPurge(
+    dataType: keyof PurgeStats,
+    deleted: number,
+    retentionDays: number,
+    cutoff: Date,
+    tenantId: Types.ObjectId | null,
+    policy: RetentionPolicy | null,
+  ): Promise<void> {
+    if (deleted === 0) return;
+
+    try {
+      await this.auditService.logAuditEvent({
+        action: AuditAction.PURGE,
+        resource: AuditResource.RETENTION_POLICY,
+        resourceId: policy ? policy._id.toString() : 'default',
+        resourceName: policy ? policy.name : 'Default retention',
+        userId: SYSTEM_ENTITY_ID.toString(),
+        userEmail: 'system',
+        userName: 'Retention job',
+        tenantId: (tenantId || SYSTEM_ENTITY_ID).toString(),
+        tenantName: '',
+        result: AuditResult.SUCCESS,
+        metadata: {
+          dataType,
+          deleted,
+          retentionDays,
+          cutoff,
+          entityId: policy?.entityId?.toString(),
+        },
+        ipAddress: 'system',
+        userAgent: 'retention-job',
+      });
+    } catch (error) {
+      this.logger.error(`Failed to record ${dataType} purge: ${error.message}`, error);
+    }
+  }
+
+  private cutoff(days: number): Date {
+    return new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  }
+
+  private emptyStats(): PurgeStats {
+    return { messages: 0, media: 0, healthChecks: 0, auditLogs: 0, metrics: 0 };
+  }
+
+  private addStats(totals: PurgeStats, stats: PurgeStats) {
+    for (const key of Object.keys(stats) as Array<keyof PurgeStats>) {
+      totals[key] += stats[key];
+    }
+  }
+}
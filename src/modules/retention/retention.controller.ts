@@ -0,0 +1,173 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { RetentionService } from './retention.service';
+import { RetentionEnforcementService } from './retention-enforcement.service';
+import { CreateRetentionPolicyDto } from './dto/create-retention-policy.dto';
+import { UpdateRetentionPolicyDto } from './dto/update-retention-policy.dto';
+import { CreateLegalHoldDto } from './dto/create-legal-hold.dto';
+import { ReleaseLegalHoldDto } from './dto/release-legal-hold.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions, RequireTenant, EntityScopeFor, DenyDuringImpersonation } from '../auth/decorators';
+import { EntityScope } from '../auth/entity-scope';
+import { Permission } from '../../common/constants/permissions';
+import { LegalHoldStatus, LegalHoldTargetType } from '../../common/schemas/legal-hold.schema';
+import { Audit } from '../../common/decorators/audit.decorator';
+import { AuditAction, AuditResource } from '../../common/schemas/audit-log.schema';
+
+@ApiTags('Retention')
+@Controller('retention')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions(Permission.RETENTION_MANAGE)
+@ApiBearerAuth()
+export class RetentionController {
+  constructor(
+    private readonly retentionService: RetentionService,
+    private readonly retentionEnforcementService: RetentionEnforcementService,
+  ) {}
+
+  @Post('policies')
+  @RequireTenant()
+  @Audit({ action: AuditAction.CREATE, resource: AuditResource.RETENTION_POLICY })
+  @ApiOperation({ summary: 'Create a retention policy for an entity subtree' })
+  @ApiResponse({ status: 201, description: 'Policy created successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({ status: 409, description: 'The entity already has a policy' })
+  async createPolicy(
+    @Body() createDto: CreateRetentionPolicyDto,
+    @EntityScopeFor(Permission.RETENTION_MANAGE) scope: EntityScope,
+    @Request() req,
+  ) {
+    return this.retentionService.createPolicy(createDto, req.user.sub, scope);
+  }
+
+  @Get('policies')
+  @RequireTenant()
+  @ApiOperation({ summary: 'Get retention policies' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
+  @ApiQuery({ name: 'entityId', required: false, description: 'Filter by entity' })
+  @ApiQuery({ name: 'isEnabled', required: false, description: 'Filter by enabled state (true/false)' })
+  @ApiResponse({ status: 200, description: 'Policies retrieved successfully' })
+  async findAllPolicies(@Query() query: any, @EntityScopeFor(Permission.RETENTION_MANAGE) scope: EntityScope) {
+    return this.retentionService.findAllPolicies(scope, query);
+  }
+
+  @Get('policies/:id')
+  @RequireTenant()
+  @ApiOperation({ summary: 'Get retention policy by ID' })
+  @ApiResponse({ status: 200, description: 'Policy retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Policy not found' })
+  async findOnePolicy(@Param('id') id: string, @EntityScopeFor(Permission.RETENTION_MANAGE) scope: EntityScope) {
+    return this.retentionService.findOnePolicy(id, scope);
+  }
+
+  @Patch('policies/:id')
+  @RequireTenant()
+  @Audit({ action: AuditAction.UPDATE, resource: AuditResource.RETENTION_POLICY })
+  @ApiOperation({ summary: 'Update retention policy (periods are replaced as a whole)' })
+  @ApiResponse({ status: 200, description: 'Policy updated successfully' })
+  @ApiResponse({ status: 404, description: 'Policy not found' })
+  async updatePolicy(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateRetentionPolicyDto,
+    @EntityScopeFor(Permission.RETENTION_MANAGE) scope: EntityScope,
+    @Request() req,
+  ) {
+    return this.retentionService.updatePolicy(id, updateDto, req.user.sub, scope);
+  }
+
+  @Delete('policies/:id')
+  @RequireTenant()
+  @Audit({ action: AuditAction.DELETE, resource: AuditResource.RETENTION_POLICY })
+  @ApiOperation({ summary: 'Delete retention policy' })
+  @ApiResponse({ status: 200, description: 'Policy deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Policy not found' })
+  async removePolicy(
+    @Param('id') id: string,
+    @EntityScopeFor(Permission.RETENTION_MANAGE) scope: EntityScope,
+    @Request() req,
+  ) {
+    await this.retentionService.removePolicy(id, req.user.sub, scope);
+    return {
+      success: true,
+      message: 'Retention policy deleted successfully',
+    };
+  }
+
+  @Post('run')
+  @RequirePermissions(Permission.SYSTEM_MANAGE)
+  @DenyDuringImpersonation()
+  @Audit({ action: AuditAction.PURGE, resource: AuditResource.RETENTION_POLICY })
+  @ApiOperation({ summary: 'Enforce all retention policies now instead of waiting for the nightly run' })
+  @ApiResponse({ status: 201, description: 'Run finished; returns the number of purged records per data type' })
+  @ApiResponse({ status: 409, description: 'A run is already in progress' })
+  async run() {
+    return this.retentionEnforcementService.run();
+  }
+
+  @Post('holds')
+  @RequireTenant()
+  @Audit({ action: AuditAction.CREATE, resource: AuditResource.LEGAL_HOLD })
+  @ApiOperation({ summary: 'Place a legal hold on a user, conversation or entity subtree' })
+  @ApiResponse({ status: 201, description: 'Legal hold created successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({ status: 404, description: 'User or entity not found' })
+  async createHold(
+    @Body() createDto: CreateLegalHoldDto,
+    @EntityScopeFor(Permission.RETENTION_MANAGE) scope: EntityScope,
+    @Request() req,
+  ) {
+    return this.retentionService.createHold(createDto, req.user.sub, scope);
+  }
+
+  @Get('holds')
+  @RequireTenant()
+  @ApiOperation({ summary: 'Get legal holds' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
+  @ApiQuery({ name: 'status', required: false, enum: LegalHoldStatus })
+  @ApiQuery({ name: 'targetType', required: false, enum: LegalHoldTargetType })
+  @ApiQuery({ name: 'userId', required: false, description: 'Filter by custodian' })
+  @ApiQuery({ name: 'conversationId', required: false, description: 'Filter by conversation' })
+  @ApiResponse({ status: 200, description: 'Legal holds retrieved successfully' })
+  async findAllHolds(@Query() query: any, @EntityScopeFor(Permission.RETENTION_MANAGE) scope: EntityScope) {
+    return this.retentionService.findAllHolds(scope, query);
+  }
+
+  @Get('holds/:id')
+  @RequireTenant()
+  @ApiOperation({ summary: 'Get legal hold by ID' })
+  @ApiResponse({ status: 200, description: 'Legal hold retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Legal hold not found' })
+  async findOneHold(@Param('id') id: string, @EntityScopeFor(Permission.RETENTION_MANAGE) scope: EntityScope) {
+    return this.retentionService.findOneHold(id, scope);
+  }
+
+  @Post('holds/:id/release')
+  @RequireTenant()
+  @Audit({ action: AuditAction.UPDATE, resource: AuditResource.LEGAL_HOLD })
+  @ApiOperation({ summary: 'Release a legal hold so retention applies again' })
+  @ApiResponse({ status: 200, description: 'Legal hold released successfully' })
+  @ApiResponse({ status: 400, description: 'Legal hold is already released' })
+  @ApiResponse({ status: 404, description: 'Legal hold not found' })
+  async releaseHold(
+    @Param('id') id: string,
+    @Body() releaseDto: ReleaseLegalHoldDto,
+    @EntityScopeFor(Permission.RETENTION_MANAGE) scope: EntityScope,
+    @Request() req,
+  ) {
+    return this.retentionService.releaseHold(id, releaseDto, req.user.sub, scope);
+  }
+}
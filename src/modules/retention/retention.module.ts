@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { DatabaseModule } from '../../common/database/database.module';
+import { AuditModule } from '../../common/modules/audit.module';
+import { MetricsModule } from '../../common/modules/metrics.module';
+import { StorageModule } from '../storage/storage.module';
+import { RetentionService } from './retention.service';
+import { RetentionEnforcementService } from './retention-enforcement.service';
+import { RetentionController } from './retention.controller';
+import { RetentionPolicy, RetentionPolicySchema } from '../../common/schemas/retention-policy.schema';
+import { LegalHold, LegalHoldSchema } from '../../common/schemas/legal-hold.schema';
+import { Message, MessageSchema } from '../../common/schemas/message.schema';
+import { WhatsAppHealthCheck, WhatsAppHealthCheckSchema } from '../../common/schemas/whatsapp-health-check.schema';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    AuditModule,
+    MetricsModule,
+    StorageModule,
+    MongooseModule.forFeature([
+      { name: RetentionPolicy.name, schema: RetentionPolicySchema },
+      { name: LegalHold.name, schema: LegalHoldSchema },
+      { name: Message.name, schema: MessageSchema },
+      { name: WhatsAppHealthCheck.name, schema: WhatsAppHealthCheckSchema },
+    ]),
+  ],
+  controllers: [RetentionController],
+  providers: [RetentionService, RetentionEnforcementService],
+  exports: [RetentionService],
+})
+export class RetentionModule {}
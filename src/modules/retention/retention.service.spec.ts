@@ -0,0 +1,66 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { Entity } from '../../common/schemas/entity.schema';
+import { RetentionPolicy } from '../../common/schemas/retention-policy.schema';
+import { RetentionService } from './retention.service';
+
+describe('RetentionService scope', () => {
+  // tenant root -> department D -> team T
+  const tenantId = new Types.ObjectId().toString();
+  const deptD = new Types.ObjectId().toString();
+  const teamT = new Types.ObjectId().toString();
+  const scopeT = { tenantId, entityIds: [teamT] };
+  const dto = { name: 'Team retention', periods: { messagesDays: 30 } } as any;
+
+  let service: RetentionService;
+  let entityModel: { findOne: jest.Mock };
+  let policyModel: { exists: jest.Mock; create: jest.Mock };
+
+  beforeEach(async () => {
+    entityModel = { findOne: jest.fn().mockResolvedValue(null) };
+    policyModel = { exists: jest.fn().mockResolvedValue(null), create: jest.fn(async (policy) => policy) };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        RetentionService,
+        { provide: getModelToken(Entity.name), useValue: entityModel },
+        { provide: getModelToken(RetentionPolicy.name), useValue: policyModel },
+      ],
+    })
+      .useMocker(() => ({}))
+      .compile();
+
+    service = module.get(RetentionService);
+  });
+
+  it('looks the target entity up inside the scope the permission is held over', async () => {
+    await expect(service.createPolicy({ ...dto, entityId: deptD }, 'user', scopeT)).rejects.toThrow(NotFoundException);
+
+    expect(entityModel.findOne).toHaveBeenCalledWith({
+      _id: new Types.ObjectId(deptD),
+      isActive: true,
+      tenantId: new Types.ObjectId(tenantId),
+      entityIdPath: { $in: [new Types.ObjectId(teamT)] },
+    });
+    expect(policyModel.create).not.toHaveBeenCalled();
+  });
+
+  it('defaults to the only entity of the scope, not the caller home entity', async () => {
+    const team = { _id: new Types.ObjectId(teamT), tenantId: new Types.ObjectId(tenantId), entityIdPath: [] };
+    entityModel.findOne.mockResolvedValue(team);
+
+    await service.createPolicy(dto, 'user', scopeT);
+
+    expect(entityModel.findOne.mock.calls[0][0]._id).toEqual(new Types.ObjectId(teamT));
+    expect(policyModel.create).toHaveBeenCalledWith(expect.objectContaining({ entityId: team._id }));
+  });
+
+  it('requires an entity when the scope has several', async () => {
+    const scope = { tenantId, entityIds: [teamT, deptD] };
+
+    await expect(service.createPolicy(dto, 'user', scope)).rejects.toThrow(BadRequestException);
+    expect(entityModel.findOne).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,257 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { RetentionPolicy, RetentionPolicyDocument } from '../../common/schemas/retention-policy.schema';
+import {
+  LegalHold,
+  LegalHoldDocument,
+  LegalHoldStatus,
+  LegalHoldTargetType,
+} from '../../common/schemas/legal-hold.schema';
+import { Entity, EntityDocument } from '../../common/schemas/entity.schema';
+import { User } from '../../common/schemas/user.schema';
+import { isSystemEntity } from '../../common/constants/system-entity';
+import { EntityScope, defaultScopeEntityId, entityScopeFilter } from '../auth/entity-scope';
+import { CreateRetentionPolicyDto } from './dto/create-retention-policy.dto';
+import { UpdateRetentionPolicyDto } from './dto/update-retention-policy.dto';
+import { CreateLegalHoldDto } from './dto/create-legal-hold.dto';
+import { ReleaseLegalHoldDto } from './dto/release-legal-hold.dto';
+
+@Injectable()
+export class RetentionService {
+  private readonly logger = new Logger(RetentionService.name);
+
+  constructor(
+    @InjectModel(RetentionPolicy.name)
+    private policyModel: Model<RetentionPolicyDocument>,
+    @InjectModel(LegalHold.name)
+    private holdModel: Model<LegalHoldDocument>,
+    @InjectModel(Entity.name)
+    private entityModel: Model<EntityDocument>,
+    @InjectModel(User.name)
+    private userModel: Model<User>,
+  ) {}
+
+  // Retention policies
+
+  async createPolicy(dto: CreateRetentionPolicyDto, userId: string, scope: EntityScope): Promise<RetentionPolicy> {
+    const entity = await this.resolveEntity(dto.entityId, scope);
+    this.validatePeriods(dto.periods, entity);
+
+    const existing = await this.policyModel.exists({ entityId: entity._id, isActive: true });
+    if (existing) {
+      throw new ConflictException('A retention policy already exists for this entity');
+    }
+
+    const policy = await this.policyModel.create({
+      name: dto.name,
+      description: dto.description,
+      periods: dto.periods,
+      isEnabled: dto.isEnabled ?? true,
+      entityId: entity._id,
+      entityIdPath: entity.entityIdPath,
+      tenantId: entity.tenantId,
+      createdBy: userId,
+    });
+
+    this.logger.log(`Retention policy ${policy._id} created for entity ${entity._id}`);
+    return policy;
+  }
+
+  async findAllPolicies(scope: EntityScope, query: any = {}) {
+    const { page = 1, limit = 20, entityId, isEnabled } = query;
+    const filter: any = { isActive: true, ...entityScopeFilter(scope) };
+
+    if (entityId) filter.entityId = new Types.ObjectId(entityId);
+    if (isEnabled !== undefined) filter.isEnabled = isEnabled === 'true';
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const [policies, total] = await Promise.all([
+      this.policyModel.find(filter).sort({ createdAt: -1 }).skip(skip).limit(Number(limit)).exec(),
+      this.policyModel.countDocuments(filter),
+    ]);
+
+    return {
+      policies,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit)),
+      },
+    };
+  }
+
+  async findOnePolicy(id: string, scope: EntityScope): Promise<RetentionPolicyDocument> {
+    const policy = await this.policyModel.findOne({
+      _id: new Types.ObjectId(id),
+      isActive: true,
+      ...entityScopeFilter(scope),
+    });
+
+    if (!policy) {
+      throw new NotFoundException('Retention policy not found');
+    }
+
+    return policy;
+  }
+
+  async updatePolicy(id: string, dto: UpdateRetentionPolicyDto, userId: string, scope: EntityScope): Promise<RetentionPolicy> {
+    const policy = await this.findOnePolicy(id, scope);
+
+    if (dto.periods) {
+      const entity = await this.entityModel.findById(policy.entityId);
+      this.validatePeriods(dto.periods, entity);
+    }
+
+    return this.policyModel.findByIdAndUpdate(policy._id, { ...dto, updatedBy: userId }, { new: true });
+  }
+
+  async removePolicy(id: string, userId: string, scope: EntityScope): Promise<void> {
+    const policy = await this.findOnePolicy(id, scope);
+
+    await this.policyModel.findByIdAndUpdate(policy._id, {
+      isActive: false,
+      isEnabled: false,
+      updatedBy: userId,
+    });
+  }
+
+  // Legal holds
+
+  async createHold(dto: CreateLegalHoldDto, userId: string, scope: EntityScope): Promise<LegalHold> {
+    let entity: EntityDocument;
+    let custodianId: Types.ObjectId;
+
+    if (dto.targetType === LegalHoldTargetType.USER) {
+      const custodian = await this.userModel.findOne({
+        _id: new Types.ObjectId(dto.userId),
+        ...entityScopeFilter(scope),
+      });
+      if (!custodian) {
+        throw new NotFoundException('User not found');
+      }
+      custodianId = custodian._id as Types.ObjectId;
+      entity = await this.resolveEntity(custodian.entityId.toString(), scope);
+    } else {
+      entity = await this.resolveEntity(dto.entityId, scope);
+    }
+
+    const hold = await this.holdModel.create({
+      name: dto.name,
+      matter: dto.matter,
+      reason: dto.reason,
+      targetType: dto.targetType,
+      userId: custodianId,
+      conversationId: dto.targetType === LegalHoldTargetType.CONVERSATION ? dto.conversationId : undefined,
+      status: LegalHoldStatus.ACTIVE,
+      entityId: entity._id,
+      entityIdPath: entity.entityIdPath,
+      tenantId: entity.tenantId,
+      createdBy: userId,
+    });
+
+    this.logger.log(`Legal hold ${hold._id} (${hold.targetType}) placed in tenant ${hold.tenantId}`);
+    return hold;
+  }
+
+  async findAllHolds(scope: EntityScope, query: any = {}) {
+    const { page = 1, limit = 20, status, targetType, userId, conversationId } = query;
+    const filter: any = { isActive: true, ...entityScopeFilter(scope) };
+
+    if (status) filter.status = status;
+    if (targetType) filter.targetType = targetType;
+    if (userId) filter.userId = new Types.ObjectId(userId);
+    if (conversationId) filter.conversationId = conversationId;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const [holds, total] = await Promise.all([
+      this.holdModel.find(filter).sort({ createdAt: -1 }).skip(skip).limit(Number(limit)).exec(),
+      this.holdModel.countDocuments(filter),
+    ]);
+
+    return {
+      holds,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit)),
+      },
+    };
+  }
+
+  async findOneHold(id: string, scope: EntityScope): Promise<LegalHoldDocument> {
+    const hold = await this.holdModel.findOne({
+      _id: new Types.ObjectId(id),
+      isActive: true,
+      ...entityScopeFilter(scope),
+    });
+
+    if (!hold) {
+      throw new NotFoundException('Legal hold not found');
+    }
+
+    return hold;
+  }
+
+  async releaseHold(id: string, dto: ReleaseLegalHoldDto, userId: string, scope: EntityScope): Promise<LegalHold> {
+    const hold = await this.findOneHold(id, scope);
+
+    const released = await this.holdModel.findOneAndUpdate(
+      { _id: hold._id, status: LegalHoldStatus.ACTIVE },
+      {
+        status: LegalHoldStatus.RELEASED,
+        releasedAt: new Date(),
+        releasedBy: userId,
+        releaseNotes: dto.notes,
+        updatedBy: userId,
+      },
+      { new: true },
+    );
+
+    if (!released) {
+      throw new BadRequestException('Legal hold is already released');
+    }
+
+    this.logger.log(`Legal hold ${hold._id} released by ${userId}`);
+    return released;
+  }
+
+  /**
+   * Resolve the entity a policy or hold is attached to, defaulting to the
+   * subtree the caller manages retention over and making sure it lies inside
+   * the caller's scope
+   */
+  private async resolveEntity(entityId: string | undefined, scope: EntityScope): Promise<EntityDocument> {
+    const targetEntityId = entityId || defaultScopeEntityId(scope);
+
+    if (!targetEntityId) {
+      throw new BadRequestException('entityId is required unless retention is managed over a single entity');
+    }
+    if (isSystemEntity(targetEntityId)) {
+      throw new BadRequestException('Retention must be scoped to a tenant entity');
+    }
+
+    const entity = await this.entityModel.findOne({
+      _id: new Types.ObjectId(targetEntityId),
+      isActive: true,
+      ...entityScopeFilter(scope),
+    });
+
+    if (!entity) {
+      throw new NotFoundException('Entity not found');
+    }
+
+    return entity;
+  }
+
+  // Audit logs and metrics only carry a tenant, so only tenant-level policies may set them
+  private validatePeriods(periods: Record<string, any>, entity: EntityDocument) {
+    const isTenantRoot = entity._id.toString() === entity.tenantId?.toString();
+
+    if (!isTenantRoot && (periods.auditLogsDays !== undefined || periods.metricsDays !== undefined)) {
+      throw new BadRequestException('auditLogsDays and metricsDays can only be set on tenant-level policies');
+    }
+  }
+}
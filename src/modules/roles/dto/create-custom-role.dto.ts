@@ -0,0 +1,63 @@
+import { IsString, IsEnum, IsOptional, IsMongoId, IsArray, ArrayMinSize, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Permission } from '../../../common/constants/permissions';
+
+export class CreateCustomRoleDto {
+  @ApiProperty({ example: 'Branch supervisor' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ example: 'Reads and answers conversations of a branch', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({ enum: Permission, isArray: true, example: [Permission.MESSAGES_READ, Permission.MESSAGES_SEND] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsEnum(Permission, { each: true })
+  permissions: Permission[];
+
+  @ApiProperty({ description: 'Target tenant (SystemAdmin only)', required: false })
+  @IsOptional()
+  @IsMongoId()
+  tenantId?: string;
+}
+
+export class UpdateCustomRoleDto {
+  @ApiProperty({ example: 'Branch supervisor', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({ example: 'Reads and answers conversations of a branch', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({ enum: Permission, isArray: true, required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsEnum(Permission, { each: true })
+  permissions?: Permission[];
+}
+
+export class CreateRoleAssignmentDto {
+  @ApiProperty({ description: 'User receiving the role' })
+  @IsMongoId()
+  userId: string;
+
+  @ApiProperty({ description: 'Custom role to grant' })
+  @IsMongoId()
+  roleId: string;
+
+  @ApiProperty({ description: 'Entity whose subtree the role applies to; defaults to the user\'s entity', required: false })
+  @IsOptional()
+  @IsMongoId()
+  scopeEntityId?: string;
+}
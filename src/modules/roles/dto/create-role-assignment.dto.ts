@@ -0,0 +1 @@
+export { CreateRoleAssignmentDto } from './create-custom-role.dto';
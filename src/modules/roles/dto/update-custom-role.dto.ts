@@ -0,0 +1 @@
+export { UpdateCustomRoleDto } from './create-custom-role.dto';
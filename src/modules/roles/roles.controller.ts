@@ -0,0 +1,145 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { RolesService } from './roles.service';
+import { CreateCustomRoleDto } from './dto/create-custom-role.dto';
+import { UpdateCustomRoleDto } from './dto/update-custom-role.dto';
+import { CreateRoleAssignmentDto } from './dto/create-role-assignment.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions, DenyDuringImpersonation } from '../auth/decorators';
+import { Permission } from '../../common/constants/permissions';
+import { Audit } from '../../common/decorators/audit.decorator';
+import { AuditAction, AuditResource } from '../../common/schemas/audit-log.schema';
+
+@ApiTags('Roles & Permissions')
+@Controller('roles')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+export class RolesController {
+  constructor(private readonly rolesService: RolesService) {}
+
+  @Get('permissions')
+  @ApiOperation({ summary: 'List the named permissions and the permissions of the built-in roles' })
+  @ApiResponse({ status: 200, description: 'Permission catalog retrieved successfully' })
+  getCatalog() {
+    return this.rolesService.getCatalog();
+  }
+
+  @Get('assignments')
+  @RequirePermissions(Permission.ROLES_MANAGE)
+  @ApiOperation({ summary: 'Get role assignments within your entity hierarchy' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
+  @ApiQuery({ name: 'userId', required: false, description: 'Filter by user' })
+  @ApiQuery({ name: 'roleId', required: false, description: 'Filter by role' })
+  @ApiQuery({ name: 'tenantId', required: false, description: 'Filter by tenant (SystemAdmin only)' })
+  @ApiResponse({ status: 200, description: 'Assignments retrieved successfully' })
+  async findAssignments(@Query() query: any, @Request() req) {
+    return this.rolesService.findAssignments(req.user, query);
+  }
+
+  @Post('assignments')
+  @RequirePermissions(Permission.ROLES_MANAGE)
+  @DenyDuringImpersonation()
+  @Audit({ action: AuditAction.PERMISSION_CHANGE, resource: AuditResource.USER, resourceName: 'role_assigned' })
+  @ApiOperation({ summary: 'Grant a custom role to a user over an entity subtree' })
+  @ApiResponse({ status: 201, description: 'Role assigned successfully' })
+  @ApiResponse({ status: 403, description: 'Scope outside your hierarchy or permissions you do not hold' })
+  @ApiResponse({ status: 409, description: 'Already assigned' })
+  async assign(@Body() dto: CreateRoleAssignmentDto, @Request() req) {
+    return this.rolesService.assign(dto, req.user);
+  }
+
+  @Delete('assignments/:id')
+  @RequirePermissions(Permission.ROLES_MANAGE)
+  @Audit({ action: AuditAction.PERMISSION_CHANGE, resource: AuditResource.USER, resourceName: 'role_unassigned' })
+  @ApiOperation({ summary: 'Revoke a role assignment' })
+  @ApiResponse({ status: 200, description: 'Role assignment revoked successfully' })
+  @ApiResponse({ status: 404, description: 'Role assignment not found' })
+  async unassign(@Param('id') id: string, @Request() req) {
+    await this.rolesService.unassign(id, req.user);
+    return {
+      success: true,
+      message: 'Role assignment revoked successfully',
+    };
+  }
+
+  @Get('users/:userId/permissions')
+  @RequirePermissions(Permission.ROLES_MANAGE)
+  @ApiOperation({ summary: 'Get the effective permissions and role assignments of a user' })
+  @ApiResponse({ status: 200, description: 'Permissions retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async getUserPermissions(@Param('userId') userId: string, @Request() req) {
+    return this.rolesService.getUserPermissions(userId, req.user);
+  }
+
+  @Post()
+  @RequirePermissions(Permission.ROLES_MANAGE)
+  @DenyDuringImpersonation()
+  @Audit({ action: AuditAction.PERMISSION_CHANGE, resource: AuditResource.TENANT, resourceName: 'custom_role_created' })
+  @ApiOperation({ summary: 'Create a custom role for the tenant' })
+  @ApiResponse({ status: 201, description: 'Role created successfully' })
+  @ApiResponse({ status: 403, description: 'Permissions you do not hold' })
+  @ApiResponse({ status: 409, description: 'Name already in use' })
+  async create(@Body() dto: CreateCustomRoleDto, @Request() req) {
+    return this.rolesService.create(dto, req.user);
+  }
+
+  @Get()
+  @RequirePermissions(Permission.ROLES_MANAGE)
+  @ApiOperation({ summary: 'Get the tenant\'s custom roles' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
+  @ApiQuery({ name: 'search', required: false, description: 'Filter by name' })
+  @ApiQuery({ name: 'tenantId', required: false, description: 'Filter by tenant (SystemAdmin only)' })
+  @ApiResponse({ status: 200, description: 'Roles retrieved successfully' })
+  async findAll(@Query() query: any, @Request() req) {
+    return this.rolesService.findAll(req.user, query);
+  }
+
+  @Get(':id')
+  @RequirePermissions(Permission.ROLES_MANAGE)
+  @ApiOperation({ summary: 'Get custom role by ID' })
+  @ApiResponse({ status: 200, description: 'Role retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Role not found' })
+  async findOne(@Param('id') id: string, @Request() req) {
+    return this.rolesService.findOne(id, req.user);
+  }
+
+  @Patch(':id')
+  @RequirePermissions(Permission.ROLES_MANAGE)
+  @DenyDuringImpersonation()
+  @Audit({ action: AuditAction.PERMISSION_CHANGE, resource: AuditResource.TENANT, resourceName: 'custom_role_updated' })
+  @ApiOperation({ summary: 'Update custom role; applies to every user holding it' })
+  @ApiResponse({ status: 200, description: 'Role updated successfully' })
+  @ApiResponse({ status: 403, description: 'An added permission is not held over every scope the role is assigned to' })
+  @ApiResponse({ status: 404, description: 'Role not found' })
+  async update(@Param('id') id: string, @Body() dto: UpdateCustomRoleDto, @Request() req) {
+    return this.rolesService.update(id, dto, req.user);
+  }
+
+  @Delete(':id')
+  @RequirePermissions(Permission.ROLES_MANAGE)
+  @Audit({ action: AuditAction.PERMISSION_CHANGE, resource: AuditResource.TENANT, resourceName: 'custom_role_deleted' })
+  @ApiOperation({ summary: 'Delete custom role and revoke its assignments' })
+  @ApiResponse({ status: 200, description: 'Role deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Role not found' })
+  async remove(@Param('id') id: string, @Request() req) {
+    await this.rolesService.remove(id, req.user);
+    return {
+      success: true,
+      message: 'Role deleted successfully',
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { DatabaseModule } from '../../common/database/database.module';
+import { AuthModule } from '../auth/auth.module';
+import { RolesService } from './roles.service';
+import { RolesController } from './roles.controller';
+import { CustomRole, CustomRoleSchema } from '../../common/schemas/custom-role.schema';
+import { RoleAssignment, RoleAssignmentSchema } from '../../common/schemas/role-assignment.schema';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    AuthModule,
+    MongooseModule.forFeature([
+      { name: CustomRole.name, schema: CustomRoleSchema },
+      { name: RoleAssignment.name, schema: RoleAssignmentSchema },
+    ]),
+  ],
+  controllers: [RolesController],
+  providers: [RolesService],
+})
+export class RolesModule {}
@@ -0,0 +1,346 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { CustomRole, CustomRoleDocument } from '../../common/schemas/custom-role.schema';
+import { RoleAssignment, RoleAssignmentDocument } from '../../common/schemas/role-assignment.schema';
+import { Entity } from '../../common/schemas/entity.schema';
+import { User, UserRole } from '../../common/schemas/user.schema';
+import {
+  Permission,
+  PERMISSION_DESCRIPTIONS,
+  ASSIGNABLE_PERMISSIONS,
+  BUILT_IN_ROLE_PERMISSIONS,
+} from '../../common/constants/permissions';
+import { PermissionsService } from '../auth/permissions.service';
+import { JwtPayload } from '../auth/auth.service';
+import { entityScopeFilter, resolveEntityScope } from '../auth/entity-scope';
+import { CreateCustomRoleDto } from './dto/create-custom-role.dto';
+import { UpdateCustomRoleDto } from './dto/update-custom-role.dto';
+import { CreateRoleAssignmentDto } from './dto/create-role-assignment.dto';
+
+@Injectable()
+export class RolesService {
+  private readonly logger = new Logger(RolesService.name);
+
+  constructor(
+    @InjectModel(CustomRole.name)
+    private roleModel: Model<CustomRoleDocument>,
+    @InjectModel(RoleAssignment.name)
+    private assignmentModel: Model<RoleAssignmentDocument>,
+    @InjectModel(Entity.name)
+    private entityModel: Model<Entity>,
+    @InjectModel(User.name)
+    private userModel: Model<User>,
+    private permissionsService: PermissionsService,
+  ) {}
+
+  getCatalog() {
+    return {
+      permissions: Object.values(Permission).map((permission) => ({
+        name: permission,
+        description: PERMISSION_DESCRIPTIONS[permission],
+        assignable: ASSIGNABLE_PERMISSIONS.includes(permission),
+      })),
+      builtInRoles: Object.values(UserRole).map((role) => ({
+        name: role,
+        permissions: BUILT_IN_ROLE_PERMISSIONS[role],
+      })),
+    };
+  }
+
+  async create(dto: CreateCustomRoleDto, actor: JwtPayload) {
+    const tenantId = await this.resolveTenant(dto.tenantId, actor);
+    const permissions = this.assertGrantable(dto.permissions, actor);
+
+    const existing = await this.roleModel.exists({ tenantId, name: dto.name, isActive: true });
+    if (existing) {
+      throw new ConflictException('A role with this name already exists');
+    }
+
+    const role = await this.roleModel.create({
+      name: dto.name,
+      description: dto.description,
+      permissions,
+      tenantId,
+      createdBy: actor.sub,
+    });
+
+    this.logger.log(`Custom role ${role._id} created for tenant ${tenantId}`);
+    return role;
+  }
+
+  async findAll(actor: JwtPayload, query: any = {}) {
+    const { page = 1, limit = 20, search } = query;
+    const filter: any = { isActive: true, ...this.tenantFilter(actor, query.tenantId) };
+
+    if (search) filter.name = { $regex: search, $options: 'i' };
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const [roles, total] = await Promise.all([
+      this.roleModel.find(filter).sort({ name: 1 }).skip(skip).limit(Number(limit)).exec(),
+      this.roleModel.countDocuments(filter),
+    ]);
+
+    return {
+      roles,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit)),
+      },
+    };
+  }
+
+  async findOne(id: string, actor: JwtPayload): Promise<CustomRole> {
+    const role = await this.roleModel.findOne({
+      _id: new Types.ObjectId(id),
+      isActive: true,
+      ...this.tenantFilter(actor),
+    });
+
+    if (!role) {
+      throw new NotFoundException('Role not found');
+    }
+
+    return role;
+  }
+
+  async update(id: string, dto: UpdateCustomRoleDto, actor: JwtPayload): Promise<CustomRole> {
+    const role = await this.findOne(id, actor);
+    const update: any = { ...dto, updatedBy: actor.sub };
+
+    if (dto.name && dto.name !== role.name) {
+      const existing = await this.roleModel.exists({ tenantId: role.tenantId, name: dto.name, isActive: true });
+      if (existing) {
+        throw new ConflictException('A role with this name already exists');
+      }
+    }
+
+    if (dto.permissions) {
+      update.permissions = this.assertGrantable(dto.permissions, actor);
+      await this.assertGrantableToHolders(role, update.permissions, actor);
+    }
+
+    const updated = await this.roleModel.findByIdAndUpdate(role._id, update, { new: true });
+    // Every holder of the role is affected
+    this.permissionsService.invalidate();
+    return updated;
+  }
+
+  async remove(id: string, actor: JwtPayload): Promise<void> {
+    const role = await this.findOne(id, actor);
+
+    await this.roleModel.findByIdAndUpdate(role._id, { isActive: false, updatedBy: actor.sub });
+    const { modifiedCount } = await this.assignmentModel.updateMany(
+      { roleId: role._id, isActive: true },
+      { isActive: false, updatedBy: actor.sub },
+    );
+
+    this.permissionsService.invalidate();
+    this.logger.log(`Custom role ${role._id} deleted with ${modifiedCount} assignment(s)`);
+  }
+
+  async findAssignments(actor: JwtPayload, query: any = {}) {
+    const { page = 1, limit = 20, userId, roleId } = query;
+    const filter: any = {
+      isActive: true,
+      ...this.tenantFilter(actor, query.tenantId),
+      // Assignments are visible where the actor manages roles
+      ...entityScopeFilter(resolveEntityScope(actor, Permission.ROLES_MANAGE)),
+    };
+
+    if (userId) filter.userId = new Types.ObjectId(userId);
+    if (roleId) filter.roleId = new Types.ObjectId(roleId);
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const [assignments, total] = await Promise.all([
+      this.assignmentModel
+        .find(filter)
+        .populate('roleId', 'name permissions')
+        .populate('userId', 'email firstName lastName')
+        .populate('scopeEntityId', 'name path')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .exec(),
+      this.assignmentModel.countDocuments(filter),
+    ]);
+
+    return {
+      assignments,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit)),
+      },
+    };
+  }
+
+  /**
+   * Grant a custom role to a user over an entity subtree. The actor has to
+   * manage roles over both the user and the scope, and hold every permission
+   * of the role there, so nobody can hand out more than they have.
+   */
+  async assign(dto: CreateRoleAssignmentDto, actor: JwtPayload): Promise<RoleAssignment> {
+    const role = await this.findOne(dto.roleId, actor);
+    const user = await this.findManagedUser(dto.userId, actor, role.tenantId);
+
+    const scopeEntityId = dto.scopeEntityId ? new Types.ObjectId(dto.scopeEntityId) : user.entityId;
+    const scope = await this.entityModel.findOne({ _id: scopeEntityId, tenantId: role.tenantId, isActive: true });
+    if (!scope) {
+      throw new NotFoundException('Scope entity not found in the role\'s tenant');
+    }
+
+    if (!this.permissionsService.covers(actor.permissions, Permission.ROLES_MANAGE, scope.entityIdPath)) {
+      throw new ForbiddenException('Scope entity is outside your entity hierarchy');
+    }
+
+    const ungranted = role.permissions.filter(
+      (permission) => !this.permissionsService.covers(actor.permissions, permission, scope.entityIdPath),
+    );
+    if (ungranted.length) {
+      throw new ForbiddenException(`You do not hold these permissions over the scope: ${ungranted.join(', ')}`);
+    }
+
+    const existing = await this.assignmentModel.exists({
+      userId: user._id,
+      roleId: role._id,
+      scopeEntityId: scope._id,
+      isActive: true,
+    });
+    if (existing) {
+      throw new ConflictException('The user already has this role for this scope');
+    }
+
+    const assignment = await this.assignmentModel.create({
+      userId: user._id,
+      roleId: role._id,
+      scopeEntityId: scope._id,
+      entityIdPath: scope.entityIdPath,
+      tenantId: role.tenantId,
+      createdBy: actor.sub,
+    });
+
+    this.permissionsService.invalidate(user._id.toString());
+    return assignment;
+  }
+
+  async unassign(id: string, actor: JwtPayload): Promise<void> {
+    const assignment = await this.assignmentModel.findOne({
+      _id: new Types.ObjectId(id),
+      isActive: true,
+      ...entityScopeFilter(resolveEntityScope(actor, Permission.ROLES_MANAGE)),
+    });
+
+    if (!assignment) {
+      throw new NotFoundException('Role assignment not found');
+    }
+
+    await this.assignmentModel.findByIdAndUpdate(assignment._id, { isActive: false, updatedBy: actor.sub });
+    this.permissionsService.invalidate(assignment.userId.toString());
+  }
+
+  async getUserPermissions(userId: string, actor: JwtPayload) {
+    const user = await this.findManagedUser(userId, actor);
+
+    const [permissions, assignments] = await Promise.all([
+      this.permissionsService.resolve({
+        sub: user._id.toString(),
+        role: user.role,
+        entityId: user.entityId?.toString(),
+        tenantId: user.tenantId?.toString(),
+      }),
+      this.assignmentModel
+        .find({ userId: user._id, isActive: true })
+        .populate('roleId', 'name permissions isActive')
+        .populate('scopeEntityId', 'name path')
+        .exec(),
+    ]);
+
+    return { userId: user._id, role: user.role, permissions, assignments };
+  }
+
+  /**
+   * Permissions added to a role reach every subtree it is assigned over, so
+   * the actor has to hold each of them over every active assignment, just as
+   * when assigning the role
+   */
+  private async assertGrantableToHolders(role: CustomRole, permissions: Permission[], actor: JwtPayload): Promise<void> {
+    const added = permissions.filter((permission) => !role.permissions.includes(permission));
+    if (!added.length) return;
+
+    const assignments = await this.assignmentModel
+      .find({ roleId: role._id, isActive: true })
+      .select('entityIdPath')
+      .lean();
+
+    const ungranted = added.filter((permission) =>
+      assignments.some((assignment) => !this.permissionsService.covers(actor.permissions, permission, assignment.entityIdPath)),
+    );
+    if (ungranted.length) {
+      throw new ForbiddenException(`You do not hold these permissions over every scope the role is assigned to: ${ungranted.join(', ')}`);
+    }
+  }
+
+  private assertGrantable(permissions: Permission[], actor: JwtPayload): Permission[] {
+    const unique = Array.from(new Set(permissions));
+
+    const reserved = unique.filter((permission) => !ASSIGNABLE_PERMISSIONS.includes(permission));
+    if (reserved.length) {
+      throw new BadRequestException(`Permissions cannot be granted through custom roles: ${reserved.join(', ')}`);
+    }
+
+    const missing = unique.filter((permission) => !actor.permissions?.[permission]?.length);
+    if (missing.length) {
+      throw new ForbiddenException(`You cannot grant permissions you do not hold: ${missing.join(', ')}`);
+    }
+
+    return unique;
+  }
+
+  private async findManagedUser(userId: string, actor: JwtPayload, tenantId?: Types.ObjectId) {
+    const user = await this.userModel.findOne({
+      _id: new Types.ObjectId(userId),
+      isActive: true,
+      ...(tenantId ? { tenantId } : this.tenantFilter(actor)),
+    });
+
+    if (!user || !this.permissionsService.covers(actor.permissions, Permission.ROLES_MANAGE, user.entityIdPath)) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (user.role === UserRole.SYSTEM_ADMIN) {
+      throw new BadRequestException('System administrators cannot be given custom roles');
+    }
+
+    return user;
+  }
+
+  private async resolveTenant(requestedTenantId: string | undefined, actor: JwtPayload): Promise<Types.ObjectId> {
+    if (actor.role !== UserRole.SYSTEM_ADMIN) {
+      return new Types.ObjectId(actor.tenantId);
+    }
+
+    if (!requestedTenantId) {
+      throw new BadRequestException('tenantId is required for system administrators');
+    }
+
+    const tenant = await this.entityModel.exists({ _id: new Types.ObjectId(requestedTenantId), isActive: true });
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    return new Types.ObjectId(requestedTenantId);
+  }
+
+  // Roles are tenant-level; SystemAdmins see every tenant unless they pick one
+  private tenantFilter(actor: JwtPayload, requestedTenantId?: string): Record<string, any> {
+    if (actor.role === UserRole.SYSTEM_ADMIN) {
+      return requestedTenantId ? { tenantId: new Types.ObjectId(requestedTenantId) } : {};
+    }
+
+    return { tenantId: new Types.ObjectId(actor.tenantId) };
+  }
+}
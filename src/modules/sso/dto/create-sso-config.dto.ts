@@ -0,0 +1,160 @@
+import {
+  IsString,
+  IsOptional,
+  IsMongoId,
+  IsBoolean,
+  IsArray,
+  IsIn,
+  IsEnum,
+  IsUrl,
+  IsEmail,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { SsoProtocol } from '../../../common/schemas/entity.schema';
+import { UserRole } from '../../../common/schemas/user.schema';
+
+const MAPPABLE_ROLES = [UserRole.TENANT_ADMIN, UserRole.USER];
+
+export class SsoClaimMappingDto {
+  @ApiProperty({ example: 'email', required: false })
+  @IsOptional()
+  @IsString()
+  email?: string;
+
+  @ApiProperty({ example: 'given_name', required: false })
+  @IsOptional()
+  @IsString()
+  firstName?: string;
+
+  @ApiProperty({ example: 'family_name', required: false })
+  @IsOptional()
+  @IsString()
+  lastName?: string;
+
+  @ApiProperty({ example: 'department', description: 'Claim matched against entityMappings', required: false })
+  @IsOptional()
+  @IsString()
+  entity?: string;
+
+  @ApiProperty({ example: 'groups', description: 'Claim matched against roleMappings', required: false })
+  @IsOptional()
+  @IsString()
+  roles?: string;
+}
+
+export class SsoEntityMappingDto {
+  @ApiProperty({ example: 'Sales', description: 'Claim value' })
+  @IsString()
+  value: string;
+
+  @ApiProperty({ description: 'Entity of the tenant new users with this value are placed in' })
+  @IsMongoId()
+  entityId: string;
+}
+
+export class SsoRoleMappingDto {
+  @ApiProperty({ example: 'unicx-admins', description: 'Claim value' })
+  @IsString()
+  value: string;
+
+  @ApiProperty({ enum: MAPPABLE_ROLES })
+  @IsIn(MAPPABLE_ROLES)
+  role: UserRole;
+}
+
+export class UpsertSsoConfigDto {
+  @ApiProperty({ example: true })
+  @IsBoolean()
+  enabled: boolean;
+
+  @ApiProperty({ enum: SsoProtocol, default: SsoProtocol.OIDC, required: false })
+  @IsOptional()
+  @IsEnum(SsoProtocol)
+  protocol?: SsoProtocol;
+
+  @ApiProperty({ example: 'https://login.example.com/realms/acme' })
+  @IsUrl({ require_tld: false, protocols: ['http', 'https'] })
+  issuer: string;
+
+  @ApiProperty({ example: 'unicx' })
+  @IsString()
+  @MaxLength(500)
+  clientId: string;
+
+  @ApiProperty({ description: 'Omit to keep the stored secret', required: false })
+  @IsOptional()
+  @IsString()
+  clientSecret?: string;
+
+  @ApiProperty({ example: ['openid', 'email', 'profile'], required: false })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  scopes?: string[];
+
+  @ApiProperty({ example: ['acme.com'], description: 'Email domains that sign in through this IdP', required: false })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  allowedDomains?: string[];
+
+  @ApiProperty({ example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  jitProvisioning?: boolean;
+
+  @ApiProperty({ example: false, description: 'Re-apply role mappings on every login', required: false })
+  @IsOptional()
+  @IsBoolean()
+  syncRoles?: boolean;
+
+  @ApiProperty({ description: 'Entity for new users when no entity mapping matches; the tenant root if omitted', required: false })
+  @IsOptional()
+  @IsMongoId()
+  defaultEntityId?: string;
+
+  @ApiProperty({ enum: MAPPABLE_ROLES, required: false })
+  @IsOptional()
+  @IsIn(MAPPABLE_ROLES)
+  defaultRole?: UserRole;
+
+  @ApiProperty({ type: SsoClaimMappingDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SsoClaimMappingDto)
+  claimMapping?: SsoClaimMappingDto;
+
+  @ApiProperty({ type: [SsoEntityMappingDto], required: false })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SsoEntityMappingDto)
+  entityMappings?: SsoEntityMappingDto[];
+
+  @ApiProperty({ type: [SsoRoleMappingDto], description: 'Evaluated in order; the first match wins', required: false })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SsoRoleMappingDto)
+  roleMappings?: SsoRoleMappingDto[];
+
+  @ApiProperty({ description: 'Tenant to configure; required for SystemAdmin', required: false })
+  @IsOptional()
+  @IsMongoId()
+  tenantId?: string;
+}
+
+export class SsoExchangeDto {
+  @ApiProperty({ description: 'One-time code passed to the frontend callback' })
+  @IsString()
+  code: string;
+}
+
+export class SsoDiscoverDto {
+  @ApiProperty({ example: 'jane@acme.com' })
+  @IsEmail()
+  email: string;
+}
@@ -0,0 +1 @@
+export { SsoExchangeDto, SsoDiscoverDto } from './create-sso-config.dto';
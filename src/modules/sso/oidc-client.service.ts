@@ -0,0 +1,232 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import * as crypto from 'crypto';
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  token_endpoint_auth_methods_supported?: string[];
+  id_token_signing_alg_values_supported?: string[];
+}
+
+export interface OidcAuthorizationParams {
+  clientId: string;
+  redirectUri: string;
+  scopes: string[];
+  state: string;
+  nonce: string;
+  codeChallenge: string;
+}
+
+export interface OidcTokenResponse {
+  id_token: string;
+  access_token?: string;
+  token_type?: string;
+  expires_in?: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+// Asymmetric algorithms only: "none" and HMAC (signed with the client secret) are refused
+const ALLOWED_ID_TOKEN_ALGORITHMS = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+/**
+ * Minimal OpenID Connect relying party: discovery, authorization code flow
+ * with PKCE, and ID token validation against the provider's JWKS.
+ */
+@Injectable()
+export class OidcClientService {
+  private readonly logger = new Logger(OidcClientService.name);
+  private readonly CACHE_TTL_MS = 60 * 60 * 1000;
+  private readonly metadataCache = new Map<string, CacheEntry<OidcProviderMetadata>>();
+  private readonly jwksCache = new Map<string, CacheEntry<any[]>>();
+
+  constructor(
+    private configService: ConfigService,
+    private jwtService: JwtService,
+  ) {}
+
+  async discover(issuer: string, refresh = false): Promise<OidcProviderMetadata> {
+    const normalizedIssuer = issuer.replace(/\/+$/, '');
+    const cached = this.metadataCache.get(normalizedIssuer);
+    if (!refresh && cached && Date.now() - cached.fetchedAt < this.CACHE_TTL_MS) {
+      return cached.value;
+    }
+
+    const metadata = await this.fetchJson<OidcProviderMetadata>(`${normalizedIssuer}/.well-known/openid-configuration`);
+
+    if (!metadata.issuer || metadata.issuer.replace(/\/+$/, '') !== normalizedIssuer) {
+      throw new Error(`Discovery document issuer "${metadata.issuer}" does not match "${issuer}"`);
+    }
+    for (const field of ['authorization_endpoint', 'token_endpoint', 'jwks_uri']) {
+      if (!metadata[field]) {
+        throw new Error(`Discovery document has no ${field}`);
+      }
+      this.assertAllowedUrl(metadata[field]);
+    }
+
+    this.metadataCache.set(normalizedIssuer, { value: metadata, fetchedAt: Date.now() });
+    return metadata;
+  }
+
+  buildAuthorizationUrl(metadata: OidcProviderMetadata, params: OidcAuthorizationParams): string {
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', params.clientId);
+    url.searchParams.set('redirect_uri', params.redirectUri);
+    url.searchParams.set('scope', Array.from(new Set(['openid', ...params.scopes])).join(' '));
+    url.searchParams.set('state', params.state);
+    url.searchParams.set('nonce', params.nonce);
+    url.searchParams.set('code_challenge', params.codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return url.toString();
+  }
+
+  async exchangeCode(
+    metadata: OidcProviderMetadata,
+    clientId: string,
+    clientSecret: string | undefined,
+    code: string,
+    codeVerifier: string,
+    redirectUri: string,
+  ): Promise<OidcTokenResponse> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      client_id: clientId,
+      code_verifier: codeVerifier,
+    });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+
+    if (clientSecret) {
+      // client_secret_basic is the default when the provider does not say otherwise
+      const methods = metadata.token_endpoint_auth_methods_supported || ['client_secret_basic'];
+      if (methods.includes('client_secret_basic')) {
+        const credentials = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`;
+        headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+      } else {
+        body.set('client_secret', clientSecret);
+      }
+    }
+
+    const tokens = await this.fetchJson<OidcTokenResponse>(metadata.token_endpoint, {
+      method: 'POST',
+      headers,
+      body: body.toString(),
+    });
+
+    if (!tokens.id_token) {
+      throw new Error('Token response has no id_token');
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Verify signature, issuer, audience, expiry and nonce of an ID token and
+   * return its claims
+   */
+  async verifyIdToken(metadata: OidcProviderMetadata, idToken: string, clientId: string, nonce: string): Promise<Record<string, any>> {
+    const decoded = this.jwtService.decode(idToken, { complete: true }) as { header: { alg: string; kid?: string } } | null;
+    if (!decoded?.header) {
+      throw new Error('ID token is malformed');
+    }
+
+    const { alg, kid } = decoded.header;
+    if (!ALLOWED_ID_TOKEN_ALGORITHMS.includes(alg)) {
+      throw new Error(`ID token algorithm ${alg} is not accepted`);
+    }
+
+    const jwk = await this.findSigningKey(metadata, kid, alg);
+    const publicKey = crypto.createPublicKey({ key: jwk, format: 'jwk' }).export({ type: 'spki', format: 'pem' }).toString();
+
+    const claims = this.jwtService.verify<Record<string, any>>(idToken, {
+      publicKey,
+      algorithms: [alg as any],
+      issuer: metadata.issuer,
+      audience: clientId,
+      clockTolerance: 60,
+    });
+
+    if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== clientId) {
+      throw new Error('ID token was issued to another client');
+    }
+    if (claims.nonce !== nonce) {
+      throw new Error('ID token nonce does not match');
+    }
+    if (!claims.sub) {
+      throw new Error('ID token has no subject');
+    }
+
+    return claims;
+  }
+
+  private async findSigningKey(metadata: OidcProviderMetadata, kid: string | undefined, alg: string): Promise<any> {
+    const pick = (keys: any[]) =>
+      keys.find((key) => (kid ? key.kid === kid : true) && (!key.use || key.use === 'sig') && (!key.alg || key.alg === alg));
+
+    let key = pick(await this.getJwks(metadata.jwks_uri));
+    if (!key) {
+      // Keys rotate; fetch once more before giving up
+      key = pick(await this.getJwks(metadata.jwks_uri, true));
+    }
+    if (!key) {
+      throw new Error(`No signing key ${kid || ''} in the provider's JWKS`);
+    }
+
+    return key;
+  }
+
+  private async getJwks(jwksUri: string, refresh = false): Promise<any[]> {
+    const cached = this.jwksCache.get(jwksUri);
+    if (!refresh && cached && Date.now() - cached.fetchedAt < this.CACHE_TTL_MS) {
+      return cached.value;
+    }
+
+    const jwks = await this.fetchJson<{ keys: any[] }>(jwksUri);
+    const keys = Array.isArray(jwks.keys) ? jwks.keys : [];
+    this.jwksCache.set(jwksUri, { value: keys, fetchedAt: Date.now() });
+
+    return keys;
+  }
+
+  private async fetchJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+    this.assertAllowedUrl(url);
+
+    const response = await fetch(url, {
+      ...init,
+      headers: { Accept: 'application/json', ...(init.headers as Record<string, string>) },
+      redirect: 'error',
+      signal: AbortSignal.timeout(this.configService.get<number>('sso.httpTimeoutMs')),
+    });
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const detail = body?.error_description || body?.error || response.statusText;
+      this.logger.warn(`Identity provider request to ${url} failed (${response.status}): ${detail}`);
+      throw new Error(`Identity provider responded with HTTP ${response.status}: ${detail}`);
+    }
+
+    return body as T;
+  }
+
+  private assertAllowedUrl(url: string): void {
+    const { protocol } = new URL(url);
+    if (protocol === 'https:') return;
+    if (protocol === 'http:' && this.configService.get<boolean>('sso.allowInsecureIssuers')) return;
+
+    throw new Error(`Identity provider URL must use https: ${url}`);
+  }
+}
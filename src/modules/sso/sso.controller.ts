@@ -0,0 +1,118 @@
+import { Controller, Get, Post, Put, Delete, Body, Param, Query, UseGuards, HttpCode, HttpStatus, Redirect, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { SsoService, SsoCallbackQuery } from './sso.service';
+import { UpsertSsoConfigDto } from './dto/create-sso-config.dto';
+import { SsoExchangeDto, SsoDiscoverDto } from './dto/sso-exchange.dto';
+import { LoginResponse, SessionContext, LoginChallengeResponse } from '../auth/auth.service';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions, DenyDuringImpersonation } from '../auth/decorators';
+import { Permission } from '../../common/constants/permissions';
+import { isSystemEntity } from '../../common/constants/system-entity';
+import { Audit } from '../../common/decorators/audit.decorator';
+import { AuditAction, AuditResource } from '../../common/schemas/audit-log.schema';
+
+@ApiTags('Single Sign-On')
+@Controller('auth/sso')
+export class SsoController {
+  constructor(private readonly ssoService: SsoService) {}
+
+  @Get('discover')
+  @ApiOperation({ summary: 'Check whether an email address signs in through its tenant\'s identity provider' })
+  @ApiResponse({ status: 200, description: 'Discovery result' })
+  async discover(@Query() query: SsoDiscoverDto) {
+    return this.ssoService.discoverTenant(query.email);
+  }
+
+  @Get('callback')
+  @Redirect()
+  @ApiOperation({ summary: 'Redirect target for the identity provider; forwards to the frontend with a one-time code' })
+  @ApiResponse({ status: 302, description: 'Redirect to the frontend SSO callback' })
+  async callback(@Query() query: SsoCallbackQuery, @Request() req) {
+    return { url: await this.ssoService.handleCallback(query, this.sessionContext(req)) };
+  }
+
+  @Post('exchange')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Exchange the one-time code from the SSO callback for tokens (or a two-factor challenge)' })
+  @ApiResponse({ status: 200, description: 'Login successful or second step required' })
+  @ApiResponse({ status: 401, description: 'Invalid or expired code' })
+  async exchange(@Body() dto: SsoExchangeDto, @Request() req): Promise<LoginResponse | LoginChallengeResponse> {
+    return this.ssoService.exchange(dto.code, this.sessionContext(req));
+  }
+
+  @Get('config')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.SETTINGS_MANAGE)
+  @ApiBearerAuth()
+  @ApiQuery({ name: 'tenantId', required: false, description: 'Tenant to read; required for SystemAdmin' })
+  @ApiOperation({ summary: 'Get the tenant\'s single sign-on configuration' })
+  @ApiResponse({ status: 200, description: 'Configuration retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Not configured' })
+  async getConfig(@Query('tenantId') tenantId: string, @Request() req) {
+    return this.ssoService.getConfig(this.targetTenantId(tenantId, req), req.user);
+  }
+
+  @Put('config')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @DenyDuringImpersonation()
+  @RequirePermissions(Permission.SETTINGS_MANAGE)
+  @ApiBearerAuth()
+  @Audit({ action: AuditAction.CONFIG_CHANGE, resource: AuditResource.TENANT, resourceName: 'sso_config' })
+  @ApiOperation({ summary: 'Create or replace the tenant\'s single sign-on configuration' })
+  @ApiResponse({ status: 200, description: 'Configuration saved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid configuration or unreachable identity provider' })
+  @ApiResponse({ status: 403, description: 'settings:manage does not cover the whole tenant' })
+  async upsertConfig(@Body() dto: UpsertSsoConfigDto, @Request() req) {
+    return this.ssoService.upsertConfig(this.targetTenantId(dto.tenantId, req), dto, req.user);
+  }
+
+  @Post('config/test')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.SETTINGS_MANAGE)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiQuery({ name: 'tenantId', required: false, description: 'Tenant to test; required for SystemAdmin' })
+  @ApiOperation({ summary: 'Check that the identity provider\'s discovery document can be read' })
+  @ApiResponse({ status: 200, description: 'Identity provider reachable' })
+  async testConfig(@Query('tenantId') tenantId: string, @Request() req) {
+    return this.ssoService.testConfig(this.targetTenantId(tenantId, req), req.user);
+  }
+
+  @Delete('config')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.SETTINGS_MANAGE)
+  @ApiBearerAuth()
+  @Audit({ action: AuditAction.CONFIG_CHANGE, resource: AuditResource.TENANT, resourceName: 'sso_config' })
+  @ApiQuery({ name: 'tenantId', required: false, description: 'Tenant to update; required for SystemAdmin' })
+  @ApiOperation({ summary: 'Remove the tenant\'s single sign-on configuration' })
+  @ApiResponse({ status: 200, description: 'Configuration removed successfully' })
+  async removeConfig(@Query('tenantId') tenantId: string, @Request() req) {
+    await this.ssoService.removeConfig(this.targetTenantId(tenantId, req), req.user);
+    return {
+      success: true,
+      message: 'Single sign-on configuration removed successfully',
+    };
+  }
+
+  @Get(':tenantId/login')
+  @Redirect()
+  @ApiOperation({ summary: 'Start single sign-on for a tenant; redirects to its identity provider' })
+  @ApiResponse({ status: 302, description: 'Redirect to the identity provider' })
+  @ApiResponse({ status: 404, description: 'Single sign-on not enabled' })
+  async login(@Param('tenantId') tenantId: string) {
+    return { url: await this.ssoService.startLogin(tenantId) };
+  }
+
+  // TenantAdmins manage their own tenant; SystemAdmins name one
+  private targetTenantId(tenantId: string, req): string {
+    return isSystemEntity(req.user.entityId) ? tenantId : req.user.tenantId;
+  }
+
+  private sessionContext(req): SessionContext {
+    return {
+      ipAddress: req.ip || req.connection?.remoteAddress,
+      userAgent: req.get('User-Agent'),
+    };
+  }
+}
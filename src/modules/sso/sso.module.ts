@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { JwtModule } from '@nestjs/jwt';
+import { DatabaseModule } from '../../common/database/database.module';
+import { AuditModule } from '../../common/modules/audit.module';
+import { SecurityModule } from '../../common/security/security.module';
+import { AuthModule } from '../auth/auth.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { SsoService } from './sso.service';
+import { OidcClientService } from './oidc-client.service';
+import { SsoController } from './sso.controller';
+import { SsoLoginState, SsoLoginStateSchema } from '../../common/schemas/sso-login-state.schema';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    AuditModule,
+    SecurityModule,
+    AuthModule,
+    WebhooksModule,
+    // ID tokens are verified with the IdP's keys, so no secret is configured here
+    JwtModule.register({}),
+    MongooseModule.forFeature([
+      { name: SsoLoginState.name, schema: SsoLoginStateSchema },
+    ]),
+  ],
+  controllers: [SsoController],
+  providers: [SsoService, OidcClientService],
+  exports: [SsoService],
+})
+export class SsoModule {}
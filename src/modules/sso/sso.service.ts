@@ -0,0 +1,517 @@
+import { Injectable, Logger, BadRequestException, NotFoundException, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import * as crypto from 'crypto';
+import { Entity, EntityDocument, SsoConfig, SsoProtocol } from '../../common/schemas/entity.schema';
+import { User, UserDocument, UserRole, RegistrationStatus, AuthProvider } from '../../common/schemas/user.schema';
+import { SsoLoginState, SsoLoginStateDocument } from '../../common/schemas/sso-login-state.schema';
+import { WebhookEvent } from '../../common/schemas/webhook-subscription.schema';
+import { AuditAction, AuditResource, AuditResult } from '../../common/schemas/audit-log.schema';
+import { isSystemEntity } from '../../common/constants/system-entity';
+import { Permission } from '../../common/constants/permissions';
+import { EncryptionService } from '../../common/security/encryption.service';
+import { AuditService } from '../../common/services/audit.service';
+import { AuthService, JwtPayload, LoginResponse, SessionContext, LoginChallengeResponse } from '../auth/auth.service';
+import { PermissionsService } from '../auth/permissions.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { userWebhookPayload } from '../webhooks/webhook-payloads';
+import { OidcClientService } from './oidc-client.service';
+import { UpsertSsoConfigDto } from './dto/create-sso-config.dto';
+
+export interface SsoCallbackQuery {
+  code?: string;
+  state?: string;
+  error?: string;
+  error_description?: string;
+}
+
+@Injectable()
+export class SsoService {
+  private readonly logger = new Logger(SsoService.name);
+
+  constructor(
+    @InjectModel(Entity.name)
+    private entityModel: Model<EntityDocument>,
+    @InjectModel(User.name)
+    private userModel: Model<UserDocument>,
+    @InjectModel(SsoLoginState.name)
+    private stateModel: Model<SsoLoginStateDocument>,
+    private oidcClient: OidcClientService,
+    private authService: AuthService,
+    private permissionsService: PermissionsService,
+    private encryptionService: EncryptionService,
+    private webhooksService: WebhooksService,
+    private auditService: AuditService,
+    private configService: ConfigService,
+  ) {}
+
+  isEnabled(): boolean {
+    return !!this.configService.get<boolean>('features.externalAuthProviders');
+  }
+
+  async getConfig(tenantId: string, actor: JwtPayload) {
+    const tenant = await this.findManagedTenant(tenantId, actor, '+sso.clientSecret');
+    if (!tenant.sso) {
+      throw new NotFoundException('Single sign-on is not configured for this tenant');
+    }
+
+    return this.toResponse(tenant);
+  }
+
+  async upsertConfig(tenantId: string, dto: UpsertSsoConfigDto, actor: JwtPayload) {
+    const userId = actor.sub;
+    const tenant = await this.findManagedTenant(tenantId, actor, '+sso.clientSecret');
+
+    const entityIds = [dto.defaultEntityId, ...(dto.entityMappings || []).map((mapping) => mapping.entityId)].filter(Boolean);
+    if (entityIds.length) {
+      const uniqueIds = Array.from(new Set(entityIds));
+      const found = await this.entityModel.countDocuments({
+        _id: { $in: uniqueIds.map((id) => new Types.ObjectId(id)) },
+        tenantId: tenant._id,
+        isActive: true,
+      });
+      if (found !== uniqueIds.length) {
+        throw new BadRequestException('Entity mappings must point to active entities of this tenant');
+      }
+    }
+
+    const clientSecret = dto.clientSecret
+      ? this.encryptionService.encrypt(dto.clientSecret)
+      : tenant.sso?.clientSecret;
+
+    const sso: Partial<SsoConfig> = {
+      enabled: dto.enabled,
+      protocol: dto.protocol || SsoProtocol.OIDC,
+      issuer: dto.issuer.replace(/\/+$/, ''),
+      clientId: dto.clientId,
+      clientSecret,
+      scopes: dto.scopes?.length ? dto.scopes : ['openid', 'email', 'profile'],
+      allowedDomains: (dto.allowedDomains || []).map((domain) => domain.trim().toLowerCase()).filter(Boolean),
+      jitProvisioning: dto.jitProvisioning ?? true,
+      syncRoles: dto.syncRoles ?? false,
+      defaultEntityId: dto.defaultEntityId ? new Types.ObjectId(dto.defaultEntityId) : undefined,
+      defaultRole: dto.defaultRole || UserRole.USER,
+      claimMapping: {
+        email: dto.claimMapping?.email || 'email',
+        firstName: dto.claimMapping?.firstName || 'given_name',
+        lastName: dto.claimMapping?.lastName || 'family_name',
+        entity: dto.claimMapping?.entity,
+        roles: dto.claimMapping?.roles || 'groups',
+      },
+      entityMappings: (dto.entityMappings || []).map((mapping) => ({
+        value: mapping.value,
+        entityId: new Types.ObjectId(mapping.entityId),
+      })),
+      roleMappings: dto.roleMappings || [],
+      updatedBy: userId,
+      updatedAt: new Date(),
+    };
+
+    // Catch a wrong issuer now rather than at the first login
+    if (sso.enabled) {
+      await this.discover(sso.issuer);
+    }
+
+    const updated = await this.entityModel
+      .findByIdAndUpdate(tenant._id, { sso, updatedBy: userId }, { new: true })
+      .select('+sso.clientSecret');
+
+    this.logger.log(`SSO configuration of tenant ${tenant._id} updated by ${userId}`);
+    return this.toResponse(updated);
+  }
+
+  async removeConfig(tenantId: string, actor: JwtPayload): Promise<void> {
+    const tenant = await this.findManagedTenant(tenantId, actor);
+    if (!tenant.sso) {
+      throw new NotFoundException('Single sign-on is not configured for this tenant');
+    }
+
+    await this.entityModel.updateOne({ _id: tenant._id }, { $unset: { sso: '' }, updatedBy: actor.sub });
+  }
+
+  /**
+   * Fetch the IdP's discovery document to check the configuration
+   */
+  async testConfig(tenantId: string, actor: JwtPayload) {
+    const tenant = await this.findManagedTenant(tenantId, actor);
+    if (!tenant.sso) {
+      throw new NotFoundException('Single sign-on is not configured for this tenant');
+    }
+
+    const metadata = await this.discover(tenant.sso.issuer, true);
+    return {
+      success: true,
+      issuer: metadata.issuer,
+      authorizationEndpoint: metadata.authorization_endpoint,
+      tokenEndpoint: metadata.token_endpoint,
+      jwksUri: metadata.jwks_uri,
+      callbackUrl: this.configService.get<string>('sso.callbackUrl'),
+    };
+  }
+
+  /**
+   * Tell the login page whether an email address signs in through a tenant IdP
+   */
+  async discoverTenant(email: string) {
+    const domain = email.split('@')[1]?.toLowerCase();
+    if (!this.isEnabled() || !domain) {
+      return { sso: false };
+    }
+
+    const tenant = await this.entityModel.findOne({ 'sso.enabled': true, 'sso.allowedDomains': domain, isActive: true });
+    if (!tenant) {
+      return { sso: false };
+    }
+
+    return {
+      sso: true,
+      tenantId: tenant._id.toString(),
+      tenantName: tenant.name,
+      protocol: tenant.sso.protocol,
+    };
+  }
+
+  /**
+   * Start the authorization code flow and return the IdP URL to send the browser to
+   */
+  async startLogin(tenantId: string): Promise<string> {
+    this.assertFeatureEnabled();
+
+    const tenant = await this.findEnabledTenant(tenantId);
+    const metadata = await this.discover(tenant.sso.issuer);
+
+    const state = crypto.randomBytes(32).toString('base64url');
+    const nonce = crypto.randomBytes(32).toString('base64url');
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+    await this.stateModel.create({
+      state,
+      nonce,
+      codeVerifier,
+      tenantId: tenant._id,
+      expiresAt: new Date(Date.now() + this.configService.get<number>('sso.stateTtlSeconds') * 1000),
+    });
+
+    return this.oidcClient.buildAuthorizationUrl(metadata, {
+      clientId: tenant.sso.clientId,
+      redirectUri: this.configService.get<string>('sso.callbackUrl'),
+      scopes: tenant.sso.scopes,
+      state,
+      nonce,
+      codeChallenge,
+    });
+  }
+
+  /**
+   * Handle the IdP redirect. Returns the frontend URL to continue at, carrying
+   * either a one-time exchange code or an error.
+   */
+  async handleCallback(query: SsoCallbackQuery, context: SessionContext = {}): Promise<string> {
+    const frontendUrl = new URL(this.configService.get<string>('sso.frontendCallbackUrl'));
+
+    try {
+      this.assertFeatureEnabled();
+
+      const loginState = query.state
+        ? await this.stateModel.findOneAndUpdate(
+            { state: query.state, callbackAt: null, expiresAt: { $gt: new Date() } },
+            { callbackAt: new Date() },
+            { new: true },
+          )
+        : null;
+      if (!loginState) {
+        throw new UnauthorizedException('The sign-in attempt expired or was already used; please try again');
+      }
+
+      if (query.error) {
+        throw new UnauthorizedException(`The identity provider refused the sign-in: ${query.error_description || query.error}`);
+      }
+      if (!query.code) {
+        throw new BadRequestException('The identity provider did not return an authorization code');
+      }
+
+      const tenant = await this.findEnabledTenant(loginState.tenantId.toString(), '+sso.clientSecret');
+      const metadata = await this.discover(tenant.sso.issuer);
+      const tokens = await this.oidcClient.exchangeCode(
+        metadata,
+        tenant.sso.clientId,
+        tenant.sso.clientSecret ? this.encryptionService.decrypt(tenant.sso.clientSecret) : undefined,
+        query.code,
+        loginState.codeVerifier,
+        this.configService.get<string>('sso.callbackUrl'),
+      );
+      const claims = await this.oidcClient.verifyIdToken(metadata, tokens.id_token, tenant.sso.clientId, loginState.nonce);
+
+      const user = await this.resolveUser(tenant, metadata.issuer, claims, context);
+
+      const exchangeCode = crypto.randomBytes(32).toString('base64url');
+      await this.stateModel.updateOne(
+        { _id: loginState._id },
+        { userId: user._id, exchangeCodeHash: this.hashCode(exchangeCode) },
+      );
+
+      await this.audit(AuditAction.LOGIN, user, context, { provider: SsoProtocol.OIDC, issuer: metadata.issuer });
+
+      frontendUrl.searchParams.set('code', exchangeCode);
+    } catch (error) {
+      this.logger.warn(`SSO callback failed: ${error.message}`);
+      frontendUrl.searchParams.set('error', 'sso_failed');
+      frontendUrl.searchParams.set('error_description', error.message);
+    }
+
+    return frontendUrl.toString();
+  }
+
+  /**
+   * Trade the one-time code from the callback for tokens. Two-factor
+   * authentication still applies, so this may return a challenge instead.
+   */
+  async exchange(code: string, context: SessionContext = {}): Promise<LoginResponse | LoginChallengeResponse> {
+    const loginState = await this.stateModel.findOneAndUpdate(
+      { exchangeCodeHash: this.hashCode(code), exchangedAt: null, expiresAt: { $gt: new Date() } },
+      { exchangedAt: new Date() },
+    );
+    if (!loginState?.userId) {
+      throw new UnauthorizedException('Invalid or expired sign-in code');
+    }
+
+    const user = await this.userModel.findOne({ _id: loginState.userId, isActive: true });
+    if (!user) {
+      throw new UnauthorizedException('User not found or inactive');
+    }
+
+    const { password: _, ...userWithoutPassword } = user.toObject();
+    return this.authService.login(userWithoutPassword, context);
+  }
+
+  /**
+   * Find the account for an ID token: by IdP subject, then by email (linking
+   * the account), and otherwise create it when just-in-time provisioning is on
+   */
+  private async resolveUser(
+    tenant: EntityDocument,
+    issuer: string,
+    claims: Record<string, any>,
+    context: SessionContext,
+  ): Promise<UserDocument> {
+    const sso = tenant.sso;
+    const email = this.claimValues(claims, sso.claimMapping?.email || 'email')[0]?.toLowerCase();
+    if (!email) {
+      throw new ForbiddenException('The identity provider did not return an email address');
+    }
+
+    const domain = email.split('@')[1];
+    if (sso.allowedDomains?.length && !sso.allowedDomains.includes(domain)) {
+      throw new ForbiddenException(`Email domain ${domain} is not allowed for this tenant`);
+    }
+
+    const mappedRole = this.mapRole(sso, claims);
+    let user = await this.userModel.findOne({ externalIssuer: issuer, externalId: claims.sub });
+
+    if (!user) {
+      user = await this.userModel.findOne({ email });
+      if (user) {
+        // Only link to an address the IdP vouches for; a missing claim is not a yes
+        if (claims.email_verified !== true) {
+          throw new ForbiddenException('The identity provider has not verified this email address');
+        }
+        if (user.role === UserRole.SYSTEM_ADMIN) {
+          throw new ForbiddenException('System administrators cannot sign in through a tenant identity provider');
+        }
+        user.externalIssuer = issuer;
+        user.externalId = claims.sub;
+      }
+    }
+
+    if (!user) {
+      if (!sso.jitProvisioning) {
+        throw new ForbiddenException('No account exists for this user; ask an administrator to create one');
+      }
+      return this.provisionUser(tenant, issuer, claims, email, mappedRole || sso.defaultRole || UserRole.USER, context);
+    }
+
+    if (user.tenantId?.toString() !== tenant._id.toString()) {
+      throw new ForbiddenException('This account belongs to another tenant');
+    }
+    if (!user.isActive) {
+      throw new ForbiddenException('This account is deactivated');
+    }
+    if (user.registrationStatus !== RegistrationStatus.REGISTERED) {
+      throw new ForbiddenException('This account has not completed registration');
+    }
+
+    if (sso.syncRoles && user.role !== UserRole.SYSTEM_ADMIN) {
+      user.role = mappedRole || sso.defaultRole || UserRole.USER;
+    }
+    user.lastSsoLoginAt = new Date();
+
+    return user.save();
+  }
+
+  private async provisionUser(
+    tenant: EntityDocument,
+    issuer: string,
+    claims: Record<string, any>,
+    email: string,
+    role: UserRole,
+    context: SessionContext,
+  ): Promise<UserDocument> {
+    const sso = tenant.sso;
+    const entity = await this.mapEntity(tenant, claims);
+
+    const [nameFirst, ...nameRest] = String(claims.name || '').trim().split(/\s+/);
+    const firstName = this.claimValues(claims, sso.claimMapping?.firstName || 'given_name')[0] || nameFirst || email.split('@')[0];
+    const lastName = this.claimValues(claims, sso.claimMapping?.lastName || 'family_name')[0] || nameRest.join(' ') || '-';
+
+    const user = await this.userModel.create({
+      email,
+      firstName,
+      lastName,
+      // Unusable password: these users sign in through the IdP
+      password: await this.authService.hashPassword(crypto.randomBytes(32).toString('hex')),
+      entityId: entity._id,
+      entityIdPath: entity.entityIdPath,
+      entityPath: entity.path,
+      tenantId: entity.tenantId || tenant._id,
+      role,
+      registrationStatus: RegistrationStatus.REGISTERED,
+      authProvider: AuthProvider.OIDC,
+      externalIssuer: issuer,
+      externalId: claims.sub,
+      lastSsoLoginAt: new Date(),
+    });
+
+    this.logger.log(`Provisioned ${email} as ${role} in entity ${entity._id} from ${issuer}`);
+
+    await this.webhooksService.emit(WebhookEvent.USER_REGISTRATION_CHANGED, user.tenantId, {
+      ...userWebhookPayload(user),
+      previousRegistrationStatus: null,
+    });
+    await this.audit(AuditAction.CREATE, user, context, { provider: SsoProtocol.OIDC, issuer, jitProvisioning: true });
+
+    return user;
+  }
+
+  private async mapEntity(tenant: EntityDocument, claims: Record<string, any>): Promise<EntityDocument> {
+    const sso = tenant.sso;
+    const candidates: Types.ObjectId[] = [];
+
+    if (sso.claimMapping?.entity) {
+      const values = this.claimValues(claims, sso.claimMapping.entity);
+      const mapping = (sso.entityMappings || []).find((entry) => values.includes(entry.value));
+      if (mapping) candidates.push(mapping.entityId);
+    }
+    if (sso.defaultEntityId) candidates.push(sso.defaultEntityId);
+
+    for (const entityId of candidates) {
+      const entity = await this.entityModel.findOne({ _id: entityId, tenantId: tenant._id, isActive: true });
+      if (entity) return entity;
+    }
+
+    return tenant;
+  }
+
+  private mapRole(sso: SsoConfig, claims: Record<string, any>): UserRole | undefined {
+    const values = this.claimValues(claims, sso.claimMapping?.roles || 'groups');
+    return (sso.roleMappings || []).find((mapping) => values.includes(mapping.value))?.role;
+  }
+
+  // Claims may be strings or arrays, and nested claims use dot paths (e.g. "realm_access.roles")
+  private claimValues(claims: Record<string, any>, path: string): string[] {
+    const value = path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), claims);
+    if (value == null) return [];
+
+    return (Array.isArray(value) ? value : [value]).map((item) => String(item));
+  }
+
+  private async discover(issuer: string, refresh = false) {
+    try {
+      return await this.oidcClient.discover(issuer, refresh);
+    } catch (error) {
+      throw new BadRequestException(`Could not read the identity provider configuration: ${error.message}`);
+    }
+  }
+
+  private async findTenant(tenantId: string, select?: string): Promise<EntityDocument> {
+    if (!tenantId || !Types.ObjectId.isValid(tenantId) || isSystemEntity(tenantId)) {
+      throw new BadRequestException('A tenant is required');
+    }
+
+    const query = this.entityModel.findOne({ _id: new Types.ObjectId(tenantId), tenantId: new Types.ObjectId(tenantId), isActive: true });
+    if (select) query.select(select);
+
+    const tenant = await query;
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    return tenant;
+  }
+
+  /**
+   * The identity provider decides who signs in to the whole tenant, so its
+   * configuration needs settings:manage over the tenant root
+   */
+  private async findManagedTenant(tenantId: string, actor: JwtPayload, select?: string): Promise<EntityDocument> {
+    const tenant = await this.findTenant(tenantId, select);
+    if (!this.permissionsService.covers(actor.permissions, Permission.SETTINGS_MANAGE, tenant.entityIdPath)) {
+      throw new ForbiddenException('Managing single sign-on requires settings:manage over the whole tenant');
+    }
+
+    return tenant;
+  }
+
+  private async findEnabledTenant(tenantId: string, select?: string): Promise<EntityDocument> {
+    const tenant = await this.findTenant(tenantId, select);
+    if (!tenant.sso?.enabled) {
+      throw new NotFoundException('Single sign-on is not enabled for this tenant');
+    }
+
+    return tenant;
+  }
+
+  private assertFeatureEnabled(): void {
+    if (!this.isEnabled()) {
+      throw new NotFoundException('Single sign-on is not enabled on this server');
+    }
+  }
+
+  private hashCode(code: string): string {
+    return crypto.createHash('sha256').update(code).digest('hex');
+  }
+
+  private toResponse(tenant: EntityDocument) {
+    const { clientSecret, ...sso } = (tenant.toObject().sso || {}) as SsoConfig;
+
+    return {
+      tenantId: tenant._id.toString(),
+      ...sso,
+      hasClientSecret: !!clientSecret,
+      callbackUrl: this.configService.get<string>('sso.callbackUrl'),
+    };
+  }
+
+  private async audit(action: AuditAction, user: UserDocument, context: SessionContext, metadata: Record<string, any>): Promise<void> {
+    try {
+      await this.auditService.logAuditEvent({
+        action,
+        resource: AuditResource.USER,
+        resourceId: user._id.toString(),
+        resourceName: user.email,
+        userId: user._id.toString(),
+        userEmail: user.email,
+        userName: `${user.firstName} ${user.lastName}`,
+        tenantId: user.tenantId.toString(),
+        tenantName: '',
+        result: AuditResult.SUCCESS,
+        metadata,
+        ipAddress: context.ipAddress || 'unknown',
+        userAgent: context.userAgent || 'unknown',
+      });
+    } catch (error) {
+      this.logger.error(`Failed to record SSO ${action}: ${error.message}`, error);
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { MediaObject } from '../../common/schemas/media-object.schema';
+import { Message } from '../../common/schemas/message.schema';
+import { MediaAccessService } from './media-access.service';
+import { StorageService } from './storage.service';
+
+// Stand-in for findOne(...).select(...).lean() resolving to result
+function mockLeanQuery<T>(result: T) {
+  const query: any = { lean: jest.fn().mockResolvedValue(result) };
+  query.select = jest.fn(() => query);
+  return query;
+}
+
+describe('MediaAccessService.canAccess', () => {
+  const tenantId = new Types.ObjectId().toString();
+  const deptA = new Types.ObjectId().toString();
+  const deptB = new Types.ObjectId().toString();
+  const scopeA = { tenantId, entityIds: [deptA] };
+  const pathOf = (...ids: string[]) => ids.map((id) => new Types.ObjectId(id));
+
+  let service: MediaAccessService;
+  let mediaObjectModel: { findOne: jest.Mock };
+  let messageModel: { exists: jest.Mock };
+
+  const indexMedia = (...records: Record<string, any>[]) => {
+    mediaObjectModel.findOne.mockImplementation(({ key }) =>
+      mockLeanQuery(records.find((record) => record.key === key) || null),
+    );
+  };
+
+  beforeEach(async () => {
+    mediaObjectModel = { findOne: jest.fn() };
+    messageModel = { exists: jest.fn().mockResolvedValue(null) };
+    indexMedia();
+
+    const module = await Test.createTestingModule({
+      providers: [
+        MediaAccessService,
+        { provide: getModelToken(MediaObject.name), useValue: mediaObjectModel },
+        { provide: getModelToken(Message.name), useValue: messageModel },
+        { provide: StorageService, useValue: { getProxyUrl: (key: string) => `/api/storage/files/${key}` } },
+      ],
+    })
+      .useMocker(() => ({}))
+      .compile();
+
+    service = module.get(MediaAccessService);
+  });
+
+  it('allows media of the caller department', async () => {
+    indexMedia({ key: 'a.jpg', tenantId, entityIdPath: pathOf(tenantId, deptA) });
+
+    await expect(service.canAccess('a.jpg', scopeA)).resolves.toBe(true);
+  });
+
+  it('denies media of a sibling department', async () => {
+    indexMedia({ key: 'b.jpg', tenantId, entityIdPath: pathOf(tenantId, deptB) });
+
+    await expect(service.canAccess('b.jpg', scopeA)).resolves.toBe(false);
+    await expect(service.assertAccess('b.jpg', scopeA)).rejects.toThrow('Media file not found');
+  });
+
+  it('denies derived files of media in a sibling department', async () => {
+    indexMedia(
+      { key: 'b.jpg', tenantId, entityIdPath: pathOf(tenantId, deptB) },
+      { key: 'b.thumb.jpg', tenantId, entityIdPath: [], derivedFrom: 'b.jpg' },
+    );
+
+    await expect(service.canAccess('b.thumb.jpg', scopeA)).resolves.toBe(false);
+  });
+
+  it('checks unindexed files against the messages inside the caller scope', async () => {
+    await expect(service.canAccess('legacy/b.jpg', scopeA)).resolves.toBe(false);
+
+    expect(messageModel.exists).toHaveBeenCalledWith({
+      tenantId: new Types.ObjectId(tenantId),
+      entityIdPath: { $in: pathOf(deptA) },
+      $or: [{ mediaUrl: '/api/storage/files/legacy/b.jpg' }, { 'outbound.mediaKey': 'legacy/b.jpg' }],
+    });
+  });
+
+  it('allows everything for system-wide callers', async () => {
+    await expect(service.canAccess('b.jpg', {})).resolves.toBe(true);
+    expect(mediaObjectModel.findOne).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,315 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Message, MessageDocument } from '../../common/schemas/message.schema';
+import {
+  MediaObject,
+  MediaObjectDocument,
+  MediaProcessingStatus,
+  MediaSource,
+  MediaUploadStatus,
+} from '../../common/schemas/media-object.schema';
+import { Entity } from '../../common/schemas/entity.schema';
+import { EntityScope, entityScopeFilter, isInEntityScope, isUnrestrictedScope } from '../auth/entity-scope';
+import { StorageService } from './storage.service';
+
+// Folders holding uploads that belong to a tenant before any message uses them
+const TENANT_UPLOAD_FOLDERS = ['whatsapp-media'];
+
+// A pending upload whose uploader has been at it this long is taken over
+const UPLOAD_TAKEOVER_MS = 120000;
+const UPLOAD_POLL_MS = 500;
+
+export interface MediaRegistration {
+  key: string;
+  source: MediaSource;
+  contentType?: string;
+  size?: number;
+  messageId?: Types.ObjectId;
+  derivedFrom?: string;
+  sha256?: string;
+  uploadStatus?: MediaUploadStatus; // PENDING when the blob is written after registering
+  uploadStartedAt?: Date;
+  entityId: Types.ObjectId | string;
+  entityIdPath?: (Types.ObjectId | string)[];
+  tenantId: Types.ObjectId | string;
+  createdBy: string;
+}
+
+/**
+ * Keeps the media index: who may read a stored file and how many messages
+ * still reference it. A file is readable wherever a message or upload that
+ * still references it is. Files stored before the index existed are readable where a message
+ * that references them is readable, or within the uploading tenant for
+ * uploads not attached to a message yet.
+ */
+@Injectable()
+export class MediaAccessService {
+  constructor(
+    @InjectModel(Message.name)
+    private messageModel: Model<MessageDocument>,
+    @InjectModel(MediaObject.name)
+    private mediaObjectModel: Model<MediaObjectDocument>,
+    @InjectModel(Entity.name)
+    private entityModel: Model<Entity>,
+    private storageService: StorageService,
+  ) {}
+
+  /**
+   * Record who a stored file belongs to and add a reference to it, held by
+   * the message or, without a messageId, by an upload. Registering a key that
+   * is already indexed only adds the reference, and the entity's path to the
+   * ones that may read it. Without an entityIdPath the entity's own path is
+   * used. Returns whether the file is new to the index.
+   */
+  async register(media: MediaRegistration): Promise<boolean> {
+    const { key, messageId, entityIdPath: registeredPath, ...fields } = media;
+    const entityId = new Types.ObjectId(fields.entityId.toString());
+
+    let entityIdPath = registeredPath;
+    if (!entityIdPath?.length) {
+      const entity = await this.entityModel.findById(entityId).select('entityIdPath').lean();
+      entityIdPath = entity?.entityIdPath?.length ? entity.entityIdPath : [entityId];
+    }
+
+    const result = await this.mediaObjectModel.findOneAndUpdate(
+      { key },
+      {
+        $setOnInsert: {
+          ...fields,
+          entityId,
+          tenantId: new Types.ObjectId(fields.tenantId.toString()),
+          ...(fields.derivedFrom ? { processingStatus: MediaProcessingStatus.SKIPPED } : {}),
+        },
+        $inc: { refCount: 1, ...(messageId || fields.derivedFrom ? {} : { uploadRefs: 1 }) },
+        $addToSet: {
+          entityIdPath: { $each: entityIdPath.map((id) => new Types.ObjectId(id.toString())) },
+          ...(messageId ? { messageIds: messageId } : {}),
+        },
+      },
+      { upsert: true, new: true, includeResultMetadata: true },
+    );
+
+    const created = !result.lastErrorObject?.updatedExisting;
+    if (!created && messageId && result.value?.processingStatus === MediaProcessingStatus.COMPLETED) {
+      await this.applyToMessage({ ...result.value.toObject(), messageIds: [messageId] });
+    }
+    return created;
+  }
+
+  /**
+   * Wait for a pending upload of a file the caller registered too. Returns
+   * null once the blob is stored. When the uploader gave up or has been at
+   * it for too long, the caller takes the upload over and gets its claim
+   * time back; it then writes the blob and calls markStored or abandonUpload.
+   */
+  async awaitUpload(key: string): Promise<Date | null> {
+    for (;;) {
+      const media = await this.mediaObjectModel.findOne({ key }).select('uploadStatus uploadStartedAt').lean();
+      if (media?.uploadStatus !== MediaUploadStatus.PENDING) return null;
+
+      if (!media.uploadStartedAt || media.uploadStartedAt.getTime() <= Date.now() - UPLOAD_TAKEOVER_MS) {
+        const claimedAt = new Date();
+        const claimed = await this.mediaObjectModel.updateOne(
+          { _id: media._id, uploadStatus: MediaUploadStatus.PENDING, uploadStartedAt: media.uploadStartedAt ?? null },
+          { uploadStartedAt: claimedAt },
+        );
+        if (claimed.modifiedCount) return claimedAt;
+        continue;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, UPLOAD_POLL_MS));
+    }
+  }
+
+  /**
+   * The blob of a pending upload has been written. Returns false when
+   * another uploader got there first.
+   */
+  async markStored(key: string): Promise<boolean> {
+    const stored = await this.mediaObjectModel.updateOne(
+      { key, uploadStatus: MediaUploadStatus.PENDING },
+      { uploadStatus: MediaUploadStatus.STORED, $unset: { uploadStartedAt: '' } },
+    );
+    return stored.modifiedCount > 0;
+  }
+
+  // Lets a waiting registrant take the upload over right away
+  async abandonUpload(key: string, claimedAt: Date): Promise<void> {
+    await this.mediaObjectModel.updateOne(
+      { key, uploadStatus: MediaUploadStatus.PENDING, uploadStartedAt: claimedAt },
+      { $unset: { uploadStartedAt: '' } },
+    );
+  }
+
+  /**
+   * Link a registered file to the message that carries it. The upload
+   * reference taken when the file was stored for the message becomes the
+   * message's. A file processed before the link existed hands its results
+   * over right away.
+   */
+  async attachToMessage(key: string, messageId: Types.ObjectId): Promise<void> {
+    let media = await this.mediaObjectModel
+      .findOneAndUpdate(
+        { key, uploadRefs: { $gt: 0 } },
+        { $inc: { uploadRefs: -1 }, $addToSet: { messageIds: messageId } },
+        { new: true },
+      )
+      .lean();
+    if (!media) {
+      media = await this.mediaObjectModel
+        .findOneAndUpdate({ key }, { $inc: { refCount: 1 }, $addToSet: { messageIds: messageId } }, { new: true })
+        .lean();
+    }
+    if (media?.processingStatus === MediaProcessingStatus.COMPLETED) {
+      await this.applyToMessage({ ...media, messageIds: [messageId] });
+    }
+  }
+
+  /**
+   * Copy the processing results of a file onto the messages that carry it
+   */
+  async applyToMessage(media: MediaObject): Promise<void> {
+    if (!media.messageIds?.length) return;
+
+    await this.messageModel.updateMany(
+      { _id: { $in: media.messageIds } },
+      {
+        ...(media.thumbnailKey ? { thumbnailUrl: this.storageService.getProxyUrl(media.thumbnailKey) } : {}),
+        mediaInfo: {
+          ...media.details,
+          sha256: media.sha256,
+          size: media.size,
+          textKey: media.textKey || undefined,
+          processedAt: media.processedAt,
+        },
+      },
+    );
+  }
+
+  /**
+   * Drop one reference to each of the given files, held by a message or by
+   * an upload when messageId is null, and return the keys nothing refers to
+   * any more. The caller deletes those from storage; shared files stay.
+   * References that do not exist are not dropped. Thumbnails and text are
+   * released together with the file they were made from, and keys missing
+   * from the index are returned as they are.
+   */
+  async release(messageId: Types.ObjectId | null, keys: string[]): Promise<string[]> {
+    const unique = [...new Set(keys.filter(Boolean))];
+    if (!unique.length) return [];
+
+    const indexed = await this.mediaObjectModel.find({ key: { $in: unique } }).select('key derivedFrom').lean();
+    const byKey = new Map(indexed.map((media) => [media.key, media]));
+    const released: string[] = [];
+
+    for (const key of unique) {
+      const media = byKey.get(key);
+      if (!media) {
+        released.push(key);
+        continue;
+      }
+      // Goes with its original, which may be referenced by another message
+      if (media.derivedFrom) continue;
+
+      const dropped = messageId
+        ? await this.mediaObjectModel.updateOne(
+            { _id: media._id, messageIds: messageId },
+            { $inc: { refCount: -1 }, $pull: { messageIds: messageId } },
+          )
+        : await this.mediaObjectModel.updateOne(
+            { _id: media._id, uploadRefs: { $gt: 0 } },
+            { $inc: { refCount: -1, uploadRefs: -1 } },
+          );
+      if (!dropped.modifiedCount) continue;
+
+      // Whoever registers the key again in the meantime keeps the file
+      const removed = await this.mediaObjectModel.deleteOne({ _id: media._id, refCount: { $lte: 0 } });
+      if (!removed.deletedCount) {
+        await this.recomputeAccess(media._id);
+        continue;
+      }
+
+      const derivatives = await this.mediaObjectModel.find({ derivedFrom: key }).select('key').lean();
+      await this.mediaObjectModel.deleteMany({ derivedFrom: key });
+      released.push(key, ...derivatives.map((derivative) => derivative.key));
+    }
+
+    return released;
+  }
+
+  /**
+   * Whether an upload still holds a reference to the file, i.e. whether
+   * deleting it through the storage API would drop anything. Files missing
+   * from the index predate it and count as uploads.
+   */
+  async hasUploadReference(key: string): Promise<boolean> {
+    const media = await this.mediaObjectModel.findOne({ key }).select('uploadRefs').lean();
+    return !media || media.uploadRefs > 0;
+  }
+
+  async canAccess(key: string, scope: EntityScope): Promise<boolean> {
+    if (isUnrestrictedScope(scope)) {
+      return true;
+    }
+
+    let media = await this.mediaObjectModel.findOne({ key }).select('tenantId entityIdPath derivedFrom').lean();
+    if (media?.derivedFrom) {
+      // Thumbnails and text are readable wherever their original is
+      media = (await this.mediaObjectModel.findOne({ key: media.derivedFrom }).select('tenantId entityIdPath').lean()) || media;
+    }
+    if (media) {
+      return isInEntityScope(scope, media);
+    }
+
+    if (scope.tenantId && TENANT_UPLOAD_FOLDERS.some((folder) => key.startsWith(`${folder}/${scope.tenantId}/`))) {
+      return true;
+    }
+
+    const referenced = await this.messageModel.exists({
+      ...entityScopeFilter(scope),
+      $or: [{ mediaUrl: this.storageService.getProxyUrl(key) }, { 'outbound.mediaKey': key }],
+    });
+
+    return !!referenced;
+  }
+
+  // Out-of-scope files are reported as missing so keys cannot be probed
+  async assertAccess(key: string, scope: EntityScope): Promise<void> {
+    if (!key || !(await this.canAccess(key, scope))) {
+      throw new NotFoundException('Media file not found');
+    }
+  }
+
+  /**
+   * Narrow who may read a file to the entities of the messages still
+   * referencing it, plus the uploading entity while an upload holds it.
+   * Messages not stored yet keep the current access. The write only applies
+   * if no reference changed meanwhile; otherwise it is computed again.
+   */
+  private async recomputeAccess(mediaId: Types.ObjectId, attempts = 3): Promise<void> {
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      const media = await this.mediaObjectModel.findById(mediaId).select('messageIds uploadRefs entityId').lean();
+      if (!media) return;
+
+      const messages = await this.messageModel
+        .find({ _id: { $in: media.messageIds } })
+        .select('entityIdPath')
+        .lean();
+      if (messages.length < media.messageIds.length) return;
+
+      const paths = messages.map((message) => message.entityIdPath || []);
+      if (media.uploadRefs > 0 || !messages.length) {
+        const entity = await this.entityModel.findById(media.entityId).select('entityIdPath').lean();
+        paths.push(entity?.entityIdPath?.length ? entity.entityIdPath : [media.entityId]);
+      }
+      const entityIdPath = [...new Set(paths.flat().map((id) => id.toString()))].map((id) => new Types.ObjectId(id));
+
+      const updated = await this.mediaObjectModel.updateOne(
+        { _id: media._id, messageIds: media.messageIds, uploadRefs: media.uploadRefs },
+        { entityIdPath },
+      );
+      if (updated.matchedCount) return;
+    }
+  }
+}
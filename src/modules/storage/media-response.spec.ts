@@ -0,0 +1,70 @@
+import { Request, Response } from 'express';
+import { PassThrough, Readable } from 'stream';
+import { sendMedia } from './media-response';
+import { StorageService } from './storage.service';
+
+// Writable stand-in for an express response, recording what sendMedia sets
+function mockResponse() {
+  const res: any = new PassThrough();
+  res.statusCode = 200;
+  res.headers = {};
+  res.set = jest.fn((headers: Record<string, string>) => {
+    Object.assign(res.headers, headers);
+    return res;
+  });
+  res.status = jest.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.removeHeader = jest.fn((name: string) => delete res.headers[name]);
+  res.resume();
+  return res;
+}
+
+describe('sendMedia', () => {
+  const size = 1000;
+  let storageService: { statFile: jest.Mock; openDownloadStream: jest.Mock };
+
+  const send = async (etag: string, headers: Record<string, string>) => {
+    storageService.statFile.mockResolvedValue({ etag, size, contentType: 'video/mp4' });
+    const res = mockResponse();
+    await sendMedia(storageService as unknown as StorageService, 'a.mp4', { headers } as Request, res as Response);
+    return res;
+  };
+
+  beforeEach(() => {
+    storageService = {
+      statFile: jest.fn(),
+      openDownloadStream: jest.fn(async () => Readable.from([])),
+    };
+  });
+
+  it('answers a range whose If-Range matches the strong validator', async () => {
+    const res = await send('"v1"', { 'range': 'bytes=0-99', 'if-range': '"v1"' });
+
+    expect(res.statusCode).toBe(206);
+    expect(res.headers['Content-Range']).toBe('bytes 0-99/1000');
+    expect(storageService.openDownloadStream).toHaveBeenCalledWith('a.mp4', { start: 0, end: 99 });
+  });
+
+  it('sends the whole file when If-Range carries a weak validator', async () => {
+    const res = await send('"v1"', { 'range': 'bytes=0-99', 'if-range': 'W/"v1"' });
+
+    expect(res.statusCode).toBe(200);
+    expect(storageService.openDownloadStream).toHaveBeenCalledWith('a.mp4', undefined);
+  });
+
+  it('sends the whole file when the stored validator is weak', async () => {
+    const res = await send('W/"v1"', { 'range': 'bytes=0-99', 'if-range': 'W/"v1"' });
+
+    expect(res.statusCode).toBe(200);
+    expect(storageService.openDownloadStream).toHaveBeenCalledWith('a.mp4', undefined);
+  });
+
+  it('keeps weak matching for If-None-Match', async () => {
+    const res = await send('"v1"', { 'if-none-match': 'W/"v1"' });
+
+    expect(res.statusCode).toBe(304);
+    expect(storageService.openDownloadStream).not.toHaveBeenCalled();
+  });
+});
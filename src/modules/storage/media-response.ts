@@ -0,0 +1,102 @@
+import { Logger } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { pipeline } from 'stream';
+import { ByteRange } from './providers/storage-provider.interface';
+import { StorageService } from './storage.service';
+
+const logger = new Logger('MediaResponse');
+
+/**
+ * Media is only readable with the caller's credentials, so shared caches
+ * must not keep it; browsers may for a while.
+ */
+export function privateMediaHeaders(contentType: string, size: number): Record<string, string> {
+  return {
+    'Content-Type': contentType,
+    'Content-Length': size.toString(),
+    'Cache-Control': 'private, max-age=3600',
+    'Vary': 'Authorization',
+    'X-Content-Type-Options': 'nosniff',
+  };
+}
+
+/**
+ * The range asked for by a `Range: bytes=...` header, null to send the
+ * whole file or 'unsatisfiable' when it lies outside the file. Multiple
+ * ranges are answered with the whole file, which HTTP allows.
+ */
+export function parseRange(header: string | undefined, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec((header || '').trim());
+  if (!match || (!match[1] && !match[2])) return null;
+
+  if (!match[1]) {
+    const suffix = Number(match[2]);
+    if (suffix === 0 || size === 0) return 'unsatisfiable';
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] ? Number(match[2]) : Infinity;
+  if (end < start) return null;
+  if (start >= size) return 'unsatisfiable';
+  return { start, end: Math.min(end, size - 1) };
+}
+
+// Weak comparison, as If-None-Match uses
+function matchesEtag(header: string, etag: string): boolean {
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  return header.split(',').some((tag) => tag.trim() === '*' || opaque(tag) === opaque(etag));
+}
+
+// Strong comparison, as If-Range uses: a weak validator never matches
+function matchesEtagStrongly(header: string, etag: string): boolean {
+  const tag = header.trim();
+  return !tag.startsWith('W/') && !etag.startsWith('W/') && tag === etag;
+}
+
+/**
+ * Stream a stored file as the response. Answers If-None-Match with 304 and a
+ * single Range with 206 (unless an If-Range validator is stale), so browsers
+ * can revalidate cached media and seek in audio and video. Extra headers
+ * override the defaults.
+ */
+export async function sendMedia(
+  storageService: StorageService,
+  key: string,
+  req: Request,
+  res: Response,
+  headers: Record<string, string> = {},
+): Promise<void> {
+  const info = await storageService.statFile(key);
+  const etag = /^(W\/)?"/.test(info.etag) ? info.etag : `"${info.etag}"`;
+  res.set({ ...privateMediaHeaders(info.contentType, info.size), 'ETag': etag, 'Accept-Ranges': 'bytes', ...headers });
+
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (ifNoneMatch && matchesEtag(ifNoneMatch, etag)) {
+    res.removeHeader('Content-Length');
+    res.status(304).end();
+    return;
+  }
+
+  const ifRange = req.headers['if-range'] as string;
+  const range = !ifRange || matchesEtagStrongly(ifRange, etag) ? parseRange(req.headers.range, info.size) : null;
+  if (range === 'unsatisfiable') {
+    res.status(416).set({ 'Content-Range': `bytes */${info.size}`, 'Content-Length': '0' }).end();
+    return;
+  }
+
+  const stream = await storageService.openDownloadStream(key, range || undefined);
+  if (range) {
+    res.status(206).set({
+      'Content-Range': `bytes ${range.start}-${range.end}/${info.size}`,
+      'Content-Length': (range.end - range.start + 1).toString(),
+    });
+  }
+
+  // Headers are gone by the time a transfer fails; all that is left is to drop the connection
+  pipeline(stream, res, (error) => {
+    if (error && error.code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+      logger.warn(`Failed to stream media ${key}: ${error.message}`);
+    }
+  });
+}
@@ -0,0 +1,112 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  NestInterceptor,
+  PayloadTooLargeException,
+  Type,
+  mixin,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request, RequestHandler } from 'express';
+import * as multer from 'multer';
+import { Observable } from 'rxjs';
+import { TenantLimitsService } from '../../common/services/tenant-limits.service';
+import { StorageService } from './storage.service';
+import { ByteCounter } from './providers/byte-counter';
+
+/**
+ * Multer storage that pipes each file straight into StorageService instead
+ * of collecting it in memory. The stored file's key, URLs and size are
+ * merged into the uploaded file object. The upload fails as soon as more
+ * bytes arrive than availableBytesFor allows.
+ */
+class StorageUploadEngine implements multer.StorageEngine {
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly folderFor: (req: Request) => string,
+    private readonly availableBytesFor: (req: Request) => Promise<number>,
+  ) {}
+
+  _handleFile(req: Request, file: Express.Multer.File, callback: (error?: any, info?: Partial<Express.Multer.File>) => void) {
+    const fileName = `${Date.now()}-${file.originalname.replace(/[\\/]/g, '_')}`;
+
+    this.availableBytesFor(req)
+      .then((availableBytes) => {
+        const counter = new ByteCounter(availableBytes);
+        file.stream.on('error', (error) => counter.destroy(error));
+        return this.storageService
+          .uploadStream(file.stream.pipe(counter), fileName, file.mimetype, this.folderFor(req))
+          .catch((error) => {
+            throw counter.limitExceeded
+              ? new ForbiddenException('The file does not fit in the storage left on the tenant\'s plan')
+              : error;
+          });
+      })
+      .then((result) => callback(null, result))
+      .catch(callback);
+  }
+
+  _removeFile(_req: Request, file: Express.Multer.File & { key?: string }, callback: (error: Error | null) => void) {
+    if (!file.key) return callback(null);
+    this.storageService.deleteFile(file.key).then(() => callback(null), callback);
+  }
+}
+
+/**
+ * Like FileInterceptor, but the file is streamed into storage under
+ * `<area>/<tenantId>/<entityId>`. A `folder` field sent before the file
+ * names a subfolder. Files are capped at storage.maxUploadBytes, and the
+ * plan's storage limit is checked against the bytes actually streamed.
+ */
+export function MediaUploadInterceptor(fieldName: string, area: string): Type<NestInterceptor> {
+  @Injectable()
+  class MixinInterceptor implements NestInterceptor {
+    private readonly upload: RequestHandler;
+
+    constructor(
+      private readonly storageService: StorageService,
+      private readonly tenantLimitsService: TenantLimitsService,
+      private readonly configService: ConfigService,
+    ) {
+      const engine = new StorageUploadEngine(
+        storageService,
+        (req: any) => {
+          const subfolder = String(req.body?.folder || '').split('/').filter((part) => part && part !== '.' && part !== '..');
+          return [storageService.entityFolder(area, req.user.tenantId, req.user.entityId), ...subfolder].join('/');
+        },
+        (req: any) => tenantLimitsService.availableStorage(req.user.tenantId),
+      );
+      this.upload = multer({
+        storage: engine,
+        limits: { fileSize: configService.get<number>('storage.maxUploadBytes'), files: 1 },
+      }).single(fieldName);
+    }
+
+    async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<any>> {
+      const ctx = context.switchToHttp();
+      const req = ctx.getRequest();
+
+      // Fail before reading the body when nothing is left
+      await this.tenantLimitsService.availableStorage(req.user.tenantId);
+
+      await new Promise<void>((resolve, reject) =>
+        this.upload(req, ctx.getResponse(), (error) => {
+          if (error?.code === 'LIMIT_FILE_SIZE') {
+            return reject(new PayloadTooLargeException(`Files are limited to ${Math.floor(this.configService.get<number>('storage.maxUploadBytes') / 1024 / 1024)} MB`));
+          }
+          if (error) {
+            return reject(error instanceof multer.MulterError ? new BadRequestException(error.message) : error);
+          }
+          resolve();
+        }),
+      );
+
+      return next.handle();
+    }
+  }
+
+  return mixin(MixinInterceptor);
+}
@@ -0,0 +1,242 @@
+import { Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Readable } from 'stream';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  CompletedPart,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { ByteRange, StorageObject, StorageObjectInfo, StorageProvider, StorageProviderName } from './storage-provider.interface';
+
+// Streamed uploads go up as multipart uploads in parts of this size (S3 minimum is 5 MB)
+const UPLOAD_PART_SIZE = 8 * 1024 * 1024;
+
+export interface AwsStorageOptions {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export class AwsStorageProvider implements StorageProvider {
+  readonly name = StorageProviderName.AWS;
+  private readonly logger = new Logger(AwsStorageProvider.name);
+  private readonly client: S3Client;
+  private readonly bucket: string;
+
+  constructor(options: AwsStorageOptions) {
+    if (!options.accessKeyId || !options.secretAccessKey || !options.bucket) {
+      throw new BadRequestException('AWS credentials and bucket name are required');
+    }
+    this.bucket = options.bucket;
+
+    try {
+      this.client = new S3Client({
+        region: options.region,
+        credentials: {
+          accessKeyId: options.accessKeyId,
+          secretAccessKey: options.secretAccessKey,
+        },
+      });
+      this.logger.log(`AWS S3 initialized with bucket: ${this.bucket} in region: ${options.region}`);
+    } catch (error) {
+      this.logger.error('Failed to initialize AWS S3:', error);
+      throw new BadRequestException('Failed to initialize AWS S3');
+    }
+  }
+
+  async upload(key: string, file: Buffer, contentType: string): Promise<string> {
+    try {
+      await this.client.send(new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: file,
+        ContentType: contentType,
+      }));
+
+      const url = `https://${this.bucket}.s3.amazonaws.com/${key}`;
+      this.logger.log(`File uploaded to AWS S3: ${url}`);
+      return url;
+    } catch (error) {
+      this.logger.error(`Failed to upload file to AWS S3: ${error.message}`);
+      throw new BadRequestException('Failed to upload file to AWS S3');
+    }
+  }
+
+  /**
+   * Files smaller than one part are sent with a single PutObject, larger ones
+   * as a multipart upload that is aborted if the stream fails
+   */
+  async uploadStream(key: string, stream: Readable, contentType: string): Promise<{ url: string; size: number }> {
+    const parts: CompletedPart[] = [];
+    let uploadId: string = null;
+    let pending: Buffer[] = [];
+    let pendingBytes = 0;
+    let size = 0;
+
+    const sendPart = async () => {
+      if (!uploadId) {
+        const created = await this.client.send(new CreateMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: key,
+          ContentType: contentType,
+        }));
+        uploadId = created.UploadId;
+      }
+
+      const partNumber = parts.length + 1;
+      const { ETag } = await this.client.send(new UploadPartCommand({
+        Bucket: this.bucket,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+        Body: Buffer.concat(pending),
+      }));
+      parts.push({ ETag, PartNumber: partNumber });
+      pending = [];
+      pendingBytes = 0;
+    };
+
+    try {
+      for await (const chunk of stream) {
+        pending.push(chunk);
+        pendingBytes += chunk.length;
+        size += chunk.length;
+        if (pendingBytes >= UPLOAD_PART_SIZE) await sendPart();
+      }
+
+      if (!uploadId) {
+        await this.client.send(new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+          Body: Buffer.concat(pending),
+          ContentType: contentType,
+        }));
+      } else {
+        if (pendingBytes > 0) await sendPart();
+        await this.client.send(new CompleteMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: key,
+          UploadId: uploadId,
+          MultipartUpload: { Parts: parts },
+        }));
+      }
+
+      const url = `https://${this.bucket}.s3.amazonaws.com/${key}`;
+      this.logger.log(`File streamed to AWS S3: ${url}`);
+      return { url, size };
+    } catch (error) {
+      if (uploadId) {
+        await this.client
+          .send(new AbortMultipartUploadCommand({ Bucket: this.bucket, Key: key, UploadId: uploadId }))
+          .catch((abortError) => this.logger.warn(`Failed to abort multipart upload of ${key}: ${abortError.message}`));
+      }
+      this.logger.error(`Failed to stream file to AWS S3: ${error.message}`);
+      throw new BadRequestException('Failed to upload file to AWS S3');
+    }
+  }
+
+  async download(key: string): Promise<StorageObject> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      }));
+
+      if (!response.Body) {
+        throw new BadRequestException('File not found');
+      }
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of response.Body as any) {
+        chunks.push(chunk);
+      }
+      const buffer = Buffer.concat(chunks);
+
+      return {
+        buffer,
+        contentType: response.ContentType || 'application/octet-stream',
+        size: buffer.length,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to download file from AWS S3: ${error.message}`);
+      throw new BadRequestException('Failed to download file from AWS S3');
+    }
+  }
+
+  async stat(key: string): Promise<StorageObjectInfo> {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      }));
+
+      return {
+        contentType: response.ContentType || 'application/octet-stream',
+        size: response.ContentLength,
+        etag: response.ETag,
+      };
+    } catch (error) {
+      if (error.$metadata?.httpStatusCode === 404) {
+        throw new NotFoundException('File not found');
+      }
+      this.logger.error(`Failed to read AWS S3 object metadata: ${error.message}`);
+      throw new BadRequestException('Failed to read file from AWS S3');
+    }
+  }
+
+  async openStream(key: string, range?: ByteRange): Promise<Readable> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+      }));
+
+      if (!response.Body) {
+        throw new NotFoundException('File not found');
+      }
+      return response.Body as Readable;
+    } catch (error) {
+      if (error instanceof NotFoundException || error.$metadata?.httpStatusCode === 404) {
+        throw new NotFoundException('File not found');
+      }
+      this.logger.error(`Failed to stream file from AWS S3: ${error.message}`);
+      throw new BadRequestException('Failed to download file from AWS S3');
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.client.send(new DeleteObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      }));
+      this.logger.log(`File deleted from AWS S3: ${key}`);
+    } catch (error) {
+      this.logger.error(`Failed to delete file from AWS S3: ${error.message}`);
+      throw new BadRequestException('Failed to delete file from AWS S3');
+    }
+  }
+
+  async getSignedUrl(key: string, expiresIn: number): Promise<string> {
+    try {
+      const command = new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      });
+
+      return await getSignedUrl(this.client, command, { expiresIn });
+    } catch (error) {
+      this.logger.error(`Failed to generate AWS signed URL: ${error.message}`);
+      throw new BadRequestException('Failed to generate AWS signed URL');
+    }
+  }
+}
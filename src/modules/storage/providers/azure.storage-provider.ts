@@ -0,0 +1,162 @@
+import { Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Readable } from 'stream';
+import { BlobServiceClient, ContainerClient, BlockBlobClient, BlobSASPermissions } from '@azure/storage-blob';
+import { ByteRange, StorageObject, StorageObjectInfo, StorageProvider, StorageProviderName } from './storage-provider.interface';
+import { ByteCounter } from './byte-counter';
+
+// Streamed uploads are sent as blocks of this size, a few at a time
+const UPLOAD_BLOCK_SIZE = 4 * 1024 * 1024;
+const UPLOAD_CONCURRENCY = 4;
+
+export interface AzureStorageOptions {
+  connectionString: string;
+  container: string;
+}
+
+export class AzureStorageProvider implements StorageProvider {
+  readonly name = StorageProviderName.AZURE;
+  private readonly logger = new Logger(AzureStorageProvider.name);
+  private readonly container: ContainerClient;
+
+  constructor(options: AzureStorageOptions) {
+    if (!options.connectionString) {
+      throw new BadRequestException('Azure storage connection string is required');
+    }
+
+    try {
+      this.container = BlobServiceClient.fromConnectionString(options.connectionString).getContainerClient(options.container);
+      this.logger.log(`Azure Blob Storage initialized with container: ${options.container}`);
+    } catch (error) {
+      this.logger.error('Failed to initialize Azure Blob Storage:', error);
+      throw new BadRequestException('Failed to initialize Azure Blob Storage');
+    }
+  }
+
+  async upload(key: string, file: Buffer, contentType: string): Promise<string> {
+    try {
+      const blockBlobClient: BlockBlobClient = this.container.getBlockBlobClient(key);
+
+      await blockBlobClient.upload(file, file.length, {
+        blobHTTPHeaders: {
+          blobContentType: contentType,
+        },
+      });
+
+      this.logger.log(`File uploaded to Azure: ${blockBlobClient.url}`);
+      return blockBlobClient.url;
+    } catch (error) {
+      this.logger.error(`Failed to upload file to Azure: ${error.message}`);
+      throw new BadRequestException('Failed to upload file to Azure');
+    }
+  }
+
+  async uploadStream(key: string, stream: Readable, contentType: string): Promise<{ url: string; size: number }> {
+    try {
+      const blockBlobClient = this.container.getBlockBlobClient(key);
+      const counter = new ByteCounter();
+      stream.once('error', (error) => counter.destroy(error));
+
+      await blockBlobClient.uploadStream(stream.pipe(counter), UPLOAD_BLOCK_SIZE, UPLOAD_CONCURRENCY, {
+        blobHTTPHeaders: {
+          blobContentType: contentType,
+        },
+      });
+
+      this.logger.log(`File streamed to Azure: ${blockBlobClient.url}`);
+      return { url: blockBlobClient.url, size: counter.bytes };
+    } catch (error) {
+      this.logger.error(`Failed to stream file to Azure: ${error.message}`);
+      throw new BadRequestException('Failed to upload file to Azure');
+    }
+  }
+
+  async download(key: string): Promise<StorageObject> {
+    try {
+      const blockBlobClient = this.container.getBlockBlobClient(key);
+      const downloadResponse = await blockBlobClient.download();
+
+      if (!downloadResponse.readableStreamBody) {
+        throw new BadRequestException('File not found');
+      }
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of downloadResponse.readableStreamBody) {
+        chunks.push(Buffer.from(chunk));
+      }
+      const buffer = Buffer.concat(chunks);
+
+      return {
+        buffer,
+        contentType: downloadResponse.contentType || 'application/octet-stream',
+        size: buffer.length,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to download file from Azure: ${error.message}`);
+      throw new BadRequestException('Failed to download file from Azure');
+    }
+  }
+
+  async stat(key: string): Promise<StorageObjectInfo> {
+    try {
+      const properties = await this.container.getBlockBlobClient(key).getProperties();
+
+      return {
+        contentType: properties.contentType || 'application/octet-stream',
+        size: properties.contentLength,
+        etag: properties.etag,
+      };
+    } catch (error) {
+      if (error.statusCode === 404) {
+        throw new NotFoundException('File not found');
+      }
+      this.logger.error(`Failed to read Azure blob properties: ${error.message}`);
+      throw new BadRequestException('Failed to read file from Azure');
+    }
+  }
+
+  async openStream(key: string, range?: ByteRange): Promise<Readable> {
+    try {
+      const blockBlobClient = this.container.getBlockBlobClient(key);
+      const downloadResponse = range
+        ? await blockBlobClient.download(range.start, range.end - range.start + 1)
+        : await blockBlobClient.download();
+
+      if (!downloadResponse.readableStreamBody) {
+        throw new NotFoundException('File not found');
+      }
+      return downloadResponse.readableStreamBody as Readable;
+    } catch (error) {
+      if (error instanceof NotFoundException || error.statusCode === 404) {
+        throw new NotFoundException('File not found');
+      }
+      this.logger.error(`Failed to stream file from Azure: ${error.message}`);
+      throw new BadRequestException('Failed to download file from Azure');
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      const blockBlobClient = this.container.getBlockBlobClient(key);
+      await blockBlobClient.delete();
+      this.logger.log(`File deleted from Azure: ${key}`);
+    } catch (error) {
+      this.logger.error(`Failed to delete file from Azure: ${error.message}`);
+      throw new BadRequestException('Failed to delete file from Azure');
+    }
+  }
+
+  async getSignedUrl(key: string, expiresIn: number): Promise<string> {
+    try {
+      const blockBlobClient = this.container.getBlockBlobClient(key);
+      const expiresOn = new Date(Date.now() + expiresIn * 1000);
+
+      return await blockBlobClient.generateSasUrl({
+        permissions: BlobSASPermissions.parse('r'),
+        expiresOn,
+      });
+    } catch (error) {
+      this.logger.error(`Failed to generate Azure signed URL: ${error.message}`);
+      throw new BadRequestException('Failed to generate Azure signed URL');
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { Transform, TransformCallback } from 'stream';
+
+/**
+ * Pass-through that counts the bytes of a stream whose length is not known
+ * up front. With a limit, the stream fails as soon as it is exceeded.
+ */
+export class ByteCounter extends Transform {
+  bytes = 0;
+  limitExceeded = false;
+
+  constructor(private readonly limit = Infinity) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+    this.bytes += chunk.length;
+    if (this.bytes > this.limit) {
+      this.limitExceeded = true;
+      return callback(new Error(`Stream is larger than ${this.limit} bytes`));
+    }
+    callback(null, chunk);
+  }
+}
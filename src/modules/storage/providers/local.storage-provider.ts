@@ -0,0 +1,140 @@
+import { Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { promises as fs, createWriteStream } from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import * as path from 'path';
+import { ByteRange, StorageObject, StorageObjectInfo, StorageProvider, StorageProviderName } from './storage-provider.interface';
+import { SignedUrlSigner } from './signed-url';
+import { ByteCounter } from './byte-counter';
+
+/**
+ * Stores files under a directory on this host: contents in `files/<key>`,
+ * content types in `meta/<key>.json`. Meant for development; every replica
+ * needs the same directory.
+ */
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = StorageProviderName.LOCAL;
+  private readonly logger = new Logger(LocalStorageProvider.name);
+  private readonly root: string;
+
+  constructor(directory: string, private readonly signer: SignedUrlSigner) {
+    this.root = path.resolve(directory);
+    this.logger.log(`Local storage initialized in: ${this.root}`);
+  }
+
+  async upload(key: string, file: Buffer, contentType: string): Promise<string> {
+    const filePath = this.resolve('files', key);
+    const metaPath = this.resolve('meta', `${key}.json`);
+
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.mkdir(path.dirname(metaPath), { recursive: true });
+      await fs.writeFile(filePath, file);
+      await fs.writeFile(metaPath, JSON.stringify({ contentType }));
+
+      this.logger.log(`File stored locally: ${key}`);
+      return `file://${filePath}`;
+    } catch (error) {
+      this.logger.error(`Failed to store file locally: ${error.message}`);
+      throw new BadRequestException('Failed to upload file to local storage');
+    }
+  }
+
+  async uploadStream(key: string, stream: Readable, contentType: string): Promise<{ url: string; size: number }> {
+    const filePath = this.resolve('files', key);
+    const metaPath = this.resolve('meta', `${key}.json`);
+    const counter = new ByteCounter();
+
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.mkdir(path.dirname(metaPath), { recursive: true });
+      await pipeline(stream, counter, createWriteStream(filePath));
+      await fs.writeFile(metaPath, JSON.stringify({ contentType }));
+
+      this.logger.log(`File streamed to local storage: ${key}`);
+      return { url: `file://${filePath}`, size: counter.bytes };
+    } catch (error) {
+      await fs.rm(filePath, { force: true }).catch(() => undefined);
+      this.logger.error(`Failed to stream file to local storage: ${error.message}`);
+      throw new BadRequestException('Failed to upload file to local storage');
+    }
+  }
+
+  async download(key: string): Promise<StorageObject> {
+    try {
+      const buffer = await fs.readFile(this.resolve('files', key));
+      const meta = await fs.readFile(this.resolve('meta', `${key}.json`), 'utf8').then(JSON.parse).catch(() => ({}));
+
+      return {
+        buffer,
+        contentType: meta.contentType || 'application/octet-stream',
+        size: buffer.length,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to read local file: ${error.message}`);
+      throw new BadRequestException('Failed to download file from local storage');
+    }
+  }
+
+  // The ETag changes whenever the file is rewritten, like serve-static's
+  async stat(key: string): Promise<StorageObjectInfo> {
+    const filePath = this.resolve('files', key);
+
+    try {
+      const stats = await fs.stat(filePath);
+      const meta = await fs.readFile(this.resolve('meta', `${key}.json`), 'utf8').then(JSON.parse).catch(() => ({}));
+
+      return {
+        contentType: meta.contentType || 'application/octet-stream',
+        size: stats.size,
+        etag: `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`,
+      };
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new NotFoundException('File not found');
+      }
+      this.logger.error(`Failed to stat local file: ${error.message}`);
+      throw new BadRequestException('Failed to read file from local storage');
+    }
+  }
+
+  async openStream(key: string, range?: ByteRange): Promise<Readable> {
+    const filePath = this.resolve('files', key);
+
+    try {
+      const handle = await fs.open(filePath, 'r');
+      return handle.createReadStream(range ? { start: range.start, end: range.end } : {});
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new NotFoundException('File not found');
+      }
+      this.logger.error(`Failed to open local file: ${error.message}`);
+      throw new BadRequestException('Failed to download file from local storage');
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolve('files', key));
+      await fs.rm(this.resolve('meta', `${key}.json`), { force: true });
+      this.logger.log(`File deleted from local storage: ${key}`);
+    } catch (error) {
+      this.logger.error(`Failed to delete local file: ${error.message}`);
+      throw new BadRequestException('Failed to delete file from local storage');
+    }
+  }
+
+  async getSignedUrl(key: string, expiresIn: number): Promise<string> {
+    return this.signer.sign(key, expiresIn);
+  }
+
+  // Keys come from requests; never let one point outside the storage directory
+  private resolve(area: 'files' | 'meta', key: string): string {
+    const base = path.join(this.root, area);
+    const resolved = path.resolve(base, key);
+    if (!resolved.startsWith(base + path.sep)) {
+      throw new BadRequestException('Invalid storage key');
+    }
+    return resolved;
+  }
+}
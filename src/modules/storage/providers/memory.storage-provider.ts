@@ -0,0 +1,65 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { ByteRange, StorageObject, StorageObjectInfo, StorageProvider, StorageProviderName } from './storage-provider.interface';
+import { SignedUrlSigner } from './signed-url';
+
+/**
+ * Keeps files in process memory, for tests. Everything is lost on restart.
+ */
+export class MemoryStorageProvider implements StorageProvider {
+  readonly name = StorageProviderName.MEMORY;
+  private readonly files = new Map<string, { buffer: Buffer; contentType: string; etag: string }>();
+
+  constructor(private readonly signer: SignedUrlSigner) {}
+
+  async upload(key: string, file: Buffer, contentType: string): Promise<string> {
+    const etag = `"${createHash('md5').update(file).digest('hex')}"`;
+    this.files.set(key, { buffer: Buffer.from(file), contentType, etag });
+    return `memory://${key}`;
+  }
+
+  async uploadStream(key: string, stream: Readable, contentType: string): Promise<{ url: string; size: number }> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    const buffer = Buffer.concat(chunks);
+
+    return { url: await this.upload(key, buffer, contentType), size: buffer.length };
+  }
+
+  async download(key: string): Promise<StorageObject> {
+    const file = this.files.get(key);
+    if (!file) {
+      throw new BadRequestException('File not found');
+    }
+    return { buffer: file.buffer, contentType: file.contentType, size: file.buffer.length };
+  }
+
+  async stat(key: string): Promise<StorageObjectInfo> {
+    const file = this.files.get(key);
+    if (!file) {
+      throw new NotFoundException('File not found');
+    }
+    return { contentType: file.contentType, size: file.buffer.length, etag: file.etag };
+  }
+
+  async openStream(key: string, range?: ByteRange): Promise<Readable> {
+    const file = this.files.get(key);
+    if (!file) {
+      throw new NotFoundException('File not found');
+    }
+    return Readable.from([range ? file.buffer.subarray(range.start, range.end + 1) : file.buffer]);
+  }
+
+  async delete(key: string): Promise<void> {
+    if (!this.files.delete(key)) {
+      throw new BadRequestException('File not found');
+    }
+  }
+
+  async getSignedUrl(key: string, expiresIn: number): Promise<string> {
+    return this.signer.sign(key, expiresIn);
+  }
+}
@@ -0,0 +1,33 @@
+import * as crypto from 'crypto';
+
+/**
+ * HMAC-signed, expiring download URLs for providers that have no signing of
+ * their own. The URLs point at MediaController, which checks them with
+ * verify() before serving the file.
+ */
+export class SignedUrlSigner {
+  constructor(
+    private readonly secret: string,
+    private readonly baseUrl: string, // Up to and including the API prefix
+  ) {}
+
+  sign(key: string, expiresIn: number): string {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const signature = this.signature(key, expires);
+    return `${this.baseUrl}/media/signed/${encodeURIComponent(key)}?expires=${expires}&signature=${signature}`;
+  }
+
+  verify(key: string, expires: number, signature: string): boolean {
+    if (!key || !expires || !signature || expires < Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.signature(key, expires), 'hex');
+    const given = Buffer.from(signature, 'hex');
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  }
+
+  private signature(key: string, expires: number): string {
+    return crypto.createHmac('sha256', this.secret).update(`${key}\n${expires}`).digest('hex');
+  }
+}
@@ -0,0 +1,43 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StorageProvider, StorageProviderName } from './storage-provider.interface';
+import { AzureStorageProvider } from './azure.storage-provider';
+import { AwsStorageProvider } from './aws.storage-provider';
+import { LocalStorageProvider } from './local.storage-provider';
+import { MemoryStorageProvider } from './memory.storage-provider';
+import { SignedUrlSigner } from './signed-url';
+
+@Injectable()
+export class StorageProviderFactory {
+  constructor(private configService: ConfigService) {}
+
+  create(name: string = this.configService.get<string>('storage.provider') || StorageProviderName.AZURE): StorageProvider {
+    switch (name) {
+      case StorageProviderName.AZURE:
+        return new AzureStorageProvider({
+          connectionString: this.configService.get<string>('storage.azure.connectionString'),
+          container: this.configService.get<string>('storage.azure.container') || 'unicx-files',
+        });
+      case StorageProviderName.AWS:
+        return new AwsStorageProvider({
+          bucket: this.configService.get<string>('storage.aws.bucket'),
+          region: this.configService.get<string>('storage.aws.region') || 'us-east-1',
+          accessKeyId: this.configService.get<string>('storage.aws.accessKeyId'),
+          secretAccessKey: this.configService.get<string>('storage.aws.secretAccessKey'),
+        });
+      case StorageProviderName.LOCAL:
+        return new LocalStorageProvider(this.configService.get<string>('storage.local.directory'), this.createSigner());
+      case StorageProviderName.MEMORY:
+        return new MemoryStorageProvider(this.createSigner());
+      default:
+        throw new BadRequestException(`Unsupported storage provider: ${name}`);
+    }
+  }
+
+  createSigner(): SignedUrlSigner {
+    const baseUrl = this.configService.get<string>('app.baseUrl') || 'http://localhost:3000';
+    const apiPrefix = this.configService.get<string>('app.apiPrefix') || 'api/v1';
+    const secret = this.configService.get<string>('storage.signingSecret') || `${this.configService.get<string>('jwt.secret')}:storage`;
+    return new SignedUrlSigner(secret, `${baseUrl.replace(/\/+$/, '')}/${apiPrefix}`);
+  }
+}
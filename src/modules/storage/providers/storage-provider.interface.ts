@@ -0,0 +1,64 @@
+import { Readable } from 'stream';
+
+export enum StorageProviderName {
+  AZURE = 'azure',
+  AWS = 'aws',
+  LOCAL = 'local', // Files under a directory on this host, for development
+  MEMORY = 'memory', // Process memory, for tests
+}
+
+export interface StorageObject {
+  buffer: Buffer;
+  contentType: string;
+  size: number;
+}
+
+export interface StorageObjectInfo {
+  contentType: string;
+  size: number;
+  etag: string; // Quoted, as sent in an ETag header
+}
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Blob store behind StorageService. Keys are paths like
+ * `whatsapp-media/<tenantId>/<file>`; implementations only store and fetch
+ * bytes, StorageService builds keys and proxy URLs.
+ */
+export interface StorageProvider {
+  readonly name: StorageProviderName;
+
+  /**
+   * Store a file and return its direct URL
+   */
+  upload(key: string, file: Buffer, contentType: string): Promise<string>;
+
+  /**
+   * Store a file of unknown length without holding it in memory
+   */
+  uploadStream(key: string, stream: Readable, contentType: string): Promise<{ url: string; size: number }>;
+
+  download(key: string): Promise<StorageObject>;
+
+  /**
+   * Size, type and ETag of a file; NotFoundException when it does not exist
+   */
+  stat(key: string): Promise<StorageObjectInfo>;
+
+  /**
+   * Read a file, or the given part of it, as a stream
+   */
+  openStream(key: string, range?: ByteRange): Promise<Readable>;
+
+  delete(key: string): Promise<void>;
+
+  /**
+   * URL that grants read access to the file without other credentials until it expires
+   */
+  getSignedUrl(key: string, expiresIn: number): Promise<string>;
+}
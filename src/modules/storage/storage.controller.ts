@@ -1,15 +1,16 @@
-import { Controller, Post, Get, Delete, Param, Body, UseGuards, UseInterceptors, UploadedFile, BadRequestException, Res, StreamableFile } from '@nestjs/common';
-import { FileInterceptor } from '@nestjs/platform-express';
-import { ApiTags, ApiOperation, ApiResponse, ApiConsumes, ApiBearerAuth } from '@nestjs/swagger';
+import { Controller, Post, Get, Delete, Param, Body, Query, UseGuards, UseInterceptors, UploadedFile, BadRequestException, NotFoundException, Res, StreamableFile, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiConsumes, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { StorageService, StorageUploadResult } from './storage.service';
+import { MediaAccessService } from './media-access.service';
+import { MediaUploadInterceptor } from './media-upload.interceptor';
+import { sendMedia } from './media-response';
+import { TenantLimitsService } from '../../common/services/tenant-limits.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
-import { RolesGuard } from '../auth/roles.guard';
-import { Roles } from '../auth/decorators';
-import { UserRole } from '../../common/schemas/user.schema';
-
-export class UploadFileDto {
-  folder?: string;
-}
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions, EntityScopeFor } from '../auth/decorators';
+import { EntityScope } from '../auth/entity-scope';
+import { Permission } from '../../common/constants/permissions';
+import { MediaSource } from '../../common/schemas/media-object.schema';
 
 export class SignedUrlDto {
   key: string;
@@ -18,78 +19,112 @@ export class SignedUrlDto {
 
 @ApiTags('Storage')
 @Controller('storage')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @ApiBearerAuth()
 export class StorageController {
-  constructor(private readonly storageService: StorageService) {}
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly mediaAccessService: MediaAccessService,
+    private readonly tenantLimitsService: TenantLimitsService,
+  ) {}
 
   @Post('upload')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN, UserRole.USER)
-  @UseInterceptors(FileInterceptor('file'))
-  @ApiOperation({ summary: 'Upload a file to cloud storage' })
+  @RequirePermissions(Permission.MEDIA_UPLOAD)
+  @UseInterceptors(MediaUploadInterceptor('file', 'uploads'))
+  @ApiOperation({ summary: 'Upload a file to cloud storage', description: 'A `folder` field sent before the file names a subfolder' })
   @ApiConsumes('multipart/form-data')
   @ApiResponse({ status: 201, description: 'File uploaded successfully' })
   @ApiResponse({ status: 400, description: 'Bad request' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 413, description: 'File larger than the upload limit' })
   async uploadFile(
     @UploadedFile() file: any,
-    @Body() uploadDto: UploadFileDto,
+    @Request() req,
   ): Promise<StorageUploadResult> {
     if (!file) {
       throw new BadRequestException('No file provided');
     }
 
-    const fileName = `${Date.now()}-${file.originalname}`;
-    const folder = uploadDto.folder || 'uploads';
+    // The interceptor has already streamed the file into storage
+    const result: StorageUploadResult = {
+      url: file.url,
+      proxyUrl: file.proxyUrl,
+      key: file.key,
+      size: file.size,
+      contentType: file.contentType,
+    };
+    await this.mediaAccessService.register({
+      key: result.key,
+      source: MediaSource.UPLOAD,
+      contentType: result.contentType,
+      size: result.size,
+      entityId: req.user.entityId,
+      tenantId: req.user.tenantId,
+      createdBy: req.user.sub,
+    });
+    await this.tenantLimitsService.recordStorage(req.user.tenantId, result.size);
 
-    return this.storageService.uploadFile(
-      file.buffer,
-      fileName,
-      file.mimetype,
-      folder,
-    );
+    return result;
   }
 
   @Get('download/:key(*)')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN, UserRole.USER)
+  @RequirePermissions(Permission.MEDIA_READ)
   @ApiOperation({ summary: 'Download a file from cloud storage' })
   @ApiResponse({ status: 200, description: 'File downloaded successfully' })
+  @ApiResponse({ status: 206, description: 'Requested range of the file' })
+  @ApiResponse({ status: 304, description: 'Not modified since the ETag in If-None-Match' })
   @ApiResponse({ status: 400, description: 'Bad request' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Forbidden' })
   @ApiResponse({ status: 404, description: 'File not found' })
-  async downloadFile(@Param('key') key: string) {
-    const result = await this.storageService.downloadFile(key);
-    
-    return {
-      buffer: result.buffer,
-      contentType: result.contentType,
-      size: result.size,
-    };
+  async downloadFile(
+    @Param('key') key: string,
+    @EntityScopeFor(Permission.MEDIA_READ) scope: EntityScope,
+    @Request() req,
+    @Res() res: any,
+  ) {
+    await this.mediaAccessService.assertAccess(key, scope);
+
+    await sendMedia(this.storageService, key, req, res, {
+      'Content-Disposition': `attachment; filename="${key.split('/').pop().replace(/"/g, '')}"`,
+    });
   }
 
   @Delete(':key(*)')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
-  @ApiOperation({ summary: 'Delete a file from cloud storage' })
+  @RequirePermissions(Permission.MEDIA_DELETE)
+  @ApiOperation({
+    summary: 'Delete a file from cloud storage',
+    description: 'Drops the reference held by an upload. Media carried by messages is deleted together with its messages.',
+  })
   @ApiResponse({ status: 200, description: 'File deleted successfully' })
   @ApiResponse({ status: 400, description: 'Bad request' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Forbidden' })
-  @ApiResponse({ status: 404, description: 'File not found' })
-  async deleteFile(@Param('key') key: string) {
-    await this.storageService.deleteFile(key);
+  @ApiResponse({ status: 404, description: 'File not found, or not held by an upload' })
+  async deleteFile(@Param('key') key: string, @EntityScopeFor(Permission.MEDIA_DELETE) scope: EntityScope) {
+    await this.mediaAccessService.assertAccess(key, scope);
+    // Media carried by messages goes with its messages
+    if (!(await this.mediaAccessService.hasUploadReference(key))) {
+      throw new NotFoundException('No uploaded file with this key');
+    }
+
+    // A file shared by other messages only loses this reference
+    for (const released of await this.mediaAccessService.release(null, [key])) {
+      await this.storageService.deleteFile(released);
+    }
     return { message: 'File deleted successfully' };
   }
 
   @Post('signed-url')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN, UserRole.USER)
+  @RequirePermissions(Permission.MEDIA_READ)
   @ApiOperation({ summary: 'Generate a signed URL for file access' })
   @ApiResponse({ status: 200, description: 'Signed URL generated successfully' })
   @ApiResponse({ status: 400, description: 'Bad request' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Forbidden' })
-  async getSignedUrl(@Body() signedUrlDto: SignedUrlDto) {
+  async getSignedUrl(@Body() signedUrlDto: SignedUrlDto, @EntityScopeFor(Permission.MEDIA_READ) scope: EntityScope) {
+    await this.mediaAccessService.assertAccess(signedUrlDto.key, scope);
     const url = await this.storageService.getSignedUrl(
       signedUrlDto.key,
       signedUrlDto.expiresIn || 3600,
@@ -99,7 +134,7 @@ export class StorageController {
   }
 
   @Get('provider')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @RequirePermissions(Permission.SETTINGS_MANAGE)
   @ApiOperation({ summary: 'Get current storage provider' })
   @ApiResponse({ status: 200, description: 'Storage provider retrieved successfully' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
@@ -111,32 +146,71 @@ export class StorageController {
 
 @ApiTags('Media')
 @Controller('media')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @ApiBearerAuth()
 export class MediaController {
-  constructor(private readonly storageService: StorageService) {}
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly mediaAccessService: MediaAccessService,
+  ) {}
 
   @Get('proxy/:key(*)')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN, UserRole.USER)
+  @RequirePermissions(Permission.MEDIA_READ)
   @ApiOperation({ summary: 'Proxy media file from cloud storage' })
   @ApiResponse({ status: 200, description: 'Media file served successfully' })
+  @ApiResponse({ status: 206, description: 'Requested range of the file' })
+  @ApiResponse({ status: 304, description: 'Not modified since the ETag in If-None-Match' })
   @ApiResponse({ status: 400, description: 'Bad request' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Forbidden' })
   @ApiResponse({ status: 404, description: 'File not found' })
-  async proxyMedia(@Param('key') key: string, @Res() res: any) {
+  async proxyMedia(
+    @Param('key') key: string,
+    @EntityScopeFor(Permission.MEDIA_READ) scope: EntityScope,
+    @Request() req,
+    @Res() res: any,
+  ) {
+    await this.mediaAccessService.assertAccess(key, scope);
+
     try {
-      const result = await this.storageService.downloadFile(key);
-      
-      res.set({
-        'Content-Type': result.contentType,
-        'Content-Length': result.size.toString(),
-        'Cache-Control': 'public, max-age=31536000', // Cache for 1 year
-      });
-      
-      return res.send(result.buffer);
+      await sendMedia(this.storageService, key, req, res);
     } catch (error) {
+      if (error instanceof NotFoundException) throw error;
       throw new BadRequestException('Failed to retrieve media file');
     }
   }
 }
+
+/**
+ * Serves signed URLs of the local and memory storage providers. The
+ * signature is the credential, so there is no authentication guard.
+ */
+@ApiTags('Media')
+@Controller('media')
+export class SignedMediaController {
+  constructor(private readonly storageService: StorageService) {}
+
+  @Get('signed/:key(*)')
+  @ApiQuery({ name: 'expires', description: 'Expiry as a Unix timestamp' })
+  @ApiQuery({ name: 'signature', description: 'HMAC of key and expiry' })
+  @ApiOperation({ summary: 'Download a file through a signed URL' })
+  @ApiResponse({ status: 200, description: 'File served successfully' })
+  @ApiResponse({ status: 404, description: 'File not found or URL expired' })
+  async signedMedia(
+    @Param('key') key: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+    @Request() req,
+    @Res() res: any,
+  ) {
+    if (!this.storageService.verifySignedUrl(key, Number(expires), signature)) {
+      throw new NotFoundException('Media file not found');
+    }
+
+    await sendMedia(this.storageService, key, req, res, {
+      'Cache-Control': `private, max-age=${Math.max(0, Number(expires) - Math.floor(Date.now() / 1000))}`,
+    }).catch(() => {
+      throw new NotFoundException('Media file not found');
+    });
+  }
+}
@@ -1,12 +1,27 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
+import { DatabaseModule } from '../../common/database/database.module';
 import { StorageService } from './storage.service';
-import { StorageController, MediaController } from './storage.controller';
+import { MediaAccessService } from './media-access.service';
+import { StorageProviderFactory } from './providers/storage-provider.factory';
+import { StorageController, MediaController, SignedMediaController } from './storage.controller';
+import { Message, MessageSchema } from '../../common/schemas/message.schema';
+import { MediaObject, MediaObjectSchema } from '../../common/schemas/media-object.schema';
+import { TenantLimitsModule } from '../../common/modules/tenant-limits.module';
 
 @Module({
-  imports: [ConfigModule],
-  providers: [StorageService],
-  controllers: [StorageController, MediaController],
-  exports: [StorageService],
+  imports: [
+    ConfigModule,
+    DatabaseModule,
+    MongooseModule.forFeature([
+      { name: Message.name, schema: MessageSchema },
+      { name: MediaObject.name, schema: MediaObjectSchema },
+    ]),
+    TenantLimitsModule,
+  ],
+  providers: [StorageProviderFactory, StorageService, MediaAccessService],
+  controllers: [StorageController, MediaController, SignedMediaController],
+  exports: [StorageService, MediaAccessService],
 })
 export class StorageModule {}
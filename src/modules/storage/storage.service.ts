@@ -1,8 +1,8 @@
-import { Injectable, Logger, BadRequestException } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import { BlobServiceClient, ContainerClient, BlockBlobClient, BlobSASPermissions } from '@azure/storage-blob';
-import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { Injectable, Logger } from '@nestjs/common';
+import { Readable } from 'stream';
+import { ByteRange, StorageObjectInfo, StorageProvider } from './providers/storage-provider.interface';
+import { StorageProviderFactory } from './providers/storage-provider.factory';
+import { SignedUrlSigner } from './providers/signed-url';
 
 export interface StorageUploadResult {
   url: string;
@@ -18,69 +18,20 @@ export interface StorageDownloadResult {
   size: number;
 }
 
+/**
+ * Files of the application, kept by the configured StorageProvider
+ * (azure, aws, local or memory). Clients reach them through proxy URLs.
+ */
 @Injectable()
 export class StorageService {
   private readonly logger = new Logger(StorageService.name);
-  private readonly provider: string;
-  private readonly baseUrl: string;
-  private azureClient?: BlobServiceClient;
-  private azureContainer?: ContainerClient;
-  private awsClient?: S3Client;
-  private awsBucket?: string;
+  private readonly provider: StorageProvider;
+  private readonly signer: SignedUrlSigner;
 
-  constructor(private configService: ConfigService) {
-    this.provider = this.configService.get<string>('storage.provider') || 'azure';
-    this.baseUrl = this.configService.get<string>('app.baseUrl') || 'http://localhost:5000';
-    if (this.provider === 'azure') {
-      this.initializeAzure();
-    } else if (this.provider === 'aws') {
-      this.initializeAWS();
-    } else {
-      throw new BadRequestException(`Unsupported storage provider: ${this.provider}`);
-    }
-  }
-
-  private initializeAzure(): void {
-    const connectionString = this.configService.get<string>('storage.azure.connectionString');
-    const containerName = this.configService.get<string>('storage.azure.container') || 'unicx-files';
-
-    if (!connectionString) {
-      throw new BadRequestException('Azure storage connection string is required');
-    }
-
-    try {
-      this.azureClient = BlobServiceClient.fromConnectionString(connectionString);
-      this.azureContainer = this.azureClient.getContainerClient(containerName);
-      this.logger.log(`Azure Blob Storage initialized with container: ${containerName}`);
-    } catch (error) {
-      this.logger.error('Failed to initialize Azure Blob Storage:', error);
-      throw new BadRequestException('Failed to initialize Azure Blob Storage');
-    }
-  }
-
-  private initializeAWS(): void {
-    const region = this.configService.get<string>('storage.aws.region') || 'us-east-1';
-    const accessKeyId = this.configService.get<string>('storage.aws.accessKeyId');
-    const secretAccessKey = this.configService.get<string>('storage.aws.secretAccessKey');
-    this.awsBucket = this.configService.get<string>('storage.aws.bucket');
-
-    if (!accessKeyId || !secretAccessKey || !this.awsBucket) {
-      throw new BadRequestException('AWS credentials and bucket name are required');
-    }
-
-    try {
-      this.awsClient = new S3Client({
-        region,
-        credentials: {
-          accessKeyId,
-          secretAccessKey,
-        },
-      });
-      this.logger.log(`AWS S3 initialized with bucket: ${this.awsBucket} in region: ${region}`);
-    } catch (error) {
-      this.logger.error('Failed to initialize AWS S3:', error);
-      throw new BadRequestException('Failed to initialize AWS S3');
-    }
+  constructor(providerFactory: StorageProviderFactory) {
+    this.provider = providerFactory.create();
+    this.signer = providerFactory.createSigner();
+    this.logger.log(`Using ${this.provider.name} storage`);
   }
 
   async uploadFile(
@@ -90,257 +41,84 @@ export class StorageService {
     folder?: string,
   ): Promise<StorageUploadResult> {
     const key = folder ? `${folder}/${fileName}` : fileName;
+    const url = await this.provider.upload(key, file, contentType);
 
-    if (this.provider === 'azure') {
-      return this.uploadToAzure(file, key, contentType);
-    } else if (this.provider === 'aws') {
-      return this.uploadToAWS(file, key, contentType);
-    }
-
-    throw new BadRequestException(`Unsupported storage provider: ${this.provider}`);
+    return {
+      url,
+      proxyUrl: this.getProxyUrl(key),
+      key,
+      size: file.length,
+      contentType,
+    };
   }
 
-  private async uploadToAzure(
-    file: Buffer,
-    key: string,
-    contentType: string,
-  ): Promise<StorageUploadResult> {
-    if (!this.azureContainer) {
-      throw new BadRequestException('Azure container not initialized');
-    }
-
-    try {
-      const blockBlobClient: BlockBlobClient = this.azureContainer.getBlockBlobClient(key);
-      
-      await blockBlobClient.upload(file, file.length, {
-        blobHTTPHeaders: {
-          blobContentType: contentType,
-        },
-      });
-
-      const url = blockBlobClient.url;
-      const proxyUrl = `/api/v1/media/proxy/${encodeURIComponent(key)}`;
-      this.logger.log(`File uploaded to Azure: ${url}`);
-
-      return {
-        url,
-        proxyUrl,
-        key,
-        size: file.length,
-        contentType,
-      };
-    } catch (error) {
-      this.logger.error(`Failed to upload file to Azure: ${error.message}`);
-      throw new BadRequestException('Failed to upload file to Azure');
-    }
-  }
-
-  private async uploadToAWS(
-    file: Buffer,
-    key: string,
+  /**
+   * Store a file straight from a stream, such as a multipart upload, without
+   * buffering it
+   */
+  async uploadStream(
+    stream: Readable,
+    fileName: string,
     contentType: string,
+    folder?: string,
   ): Promise<StorageUploadResult> {
-    if (!this.awsClient || !this.awsBucket) {
-      throw new BadRequestException('AWS S3 client not initialized');
-    }
-
-    try {
-      const command = new PutObjectCommand({
-        Bucket: this.awsBucket,
-        Key: key,
-        Body: file,
-        ContentType: contentType,
-      });
-
-      await this.awsClient.send(command);
-
-      const url = `https://${this.awsBucket}.s3.amazonaws.com/${key}`;
-      const proxyUrl = `/api/v1/media/proxy/${encodeURIComponent(key)}`;
-      this.logger.log(`File uploaded to AWS S3: ${url}`);
+    const key = folder ? `${folder}/${fileName}` : fileName;
+    const { url, size } = await this.provider.uploadStream(key, stream, contentType);
 
-      return {
-        url,
-        proxyUrl,
-        key,
-        size: file.length,
-        contentType,
-      };
-    } catch (error) {
-      this.logger.error(`Failed to upload file to AWS S3: ${error.message}`);
-      throw new BadRequestException('Failed to upload file to AWS S3');
-    }
+    return {
+      url,
+      proxyUrl: this.getProxyUrl(key),
+      key,
+      size,
+      contentType,
+    };
   }
 
   async downloadFile(key: string): Promise<StorageDownloadResult> {
-    if (this.provider === 'azure') {
-      return this.downloadFromAzure(key);
-    } else if (this.provider === 'aws') {
-      return this.downloadFromAWS(key);
-    }
-
-    throw new BadRequestException(`Unsupported storage provider: ${this.provider}`);
+    return this.provider.download(key);
   }
 
-  private async downloadFromAzure(key: string): Promise<StorageDownloadResult> {
-    if (!this.azureContainer) {
-      throw new BadRequestException('Azure container not initialized');
-    }
-
-    try {
-      const blockBlobClient = this.azureContainer.getBlockBlobClient(key);
-      const downloadResponse = await blockBlobClient.download();
-
-      if (!downloadResponse.readableStreamBody) {
-        throw new BadRequestException('File not found');
-      }
-
-      const chunks: Buffer[] = [];
-      for await (const chunk of downloadResponse.readableStreamBody) {
-        chunks.push(Buffer.from(chunk));
-      }
-      const buffer = Buffer.concat(chunks);
-
-      return {
-        buffer,
-        contentType: downloadResponse.contentType || 'application/octet-stream',
-        size: buffer.length,
-      };
-    } catch (error) {
-      this.logger.error(`Failed to download file from Azure: ${error.message}`);
-      throw new BadRequestException('Failed to download file from Azure');
-    }
+  async statFile(key: string): Promise<StorageObjectInfo> {
+    return this.provider.stat(key);
   }
 
-  private async downloadFromAWS(key: string): Promise<StorageDownloadResult> {
-    if (!this.awsClient || !this.awsBucket) {
-      throw new BadRequestException('AWS S3 client not initialized');
-    }
-
-    try {
-      const command = new GetObjectCommand({
-        Bucket: this.awsBucket,
-        Key: key,
-      });
-
-      const response = await this.awsClient.send(command);
-
-      if (!response.Body) {
-        throw new BadRequestException('File not found');
-      }
-
-      const chunks: Buffer[] = [];
-      for await (const chunk of response.Body as any) {
-        chunks.push(chunk);
-      }
-      const buffer = Buffer.concat(chunks);
-
-      return {
-        buffer,
-        contentType: response.ContentType || 'application/octet-stream',
-        size: buffer.length,
-      };
-    } catch (error) {
-      this.logger.error(`Failed to download file from AWS S3: ${error.message}`);
-      throw new BadRequestException('Failed to download file from AWS S3');
-    }
+  async openDownloadStream(key: string, range?: ByteRange): Promise<Readable> {
+    return this.provider.openStream(key, range);
   }
 
   async deleteFile(key: string): Promise<void> {
-    if (this.provider === 'azure') {
-      await this.deleteFromAzure(key);
-    } else if (this.provider === 'aws') {
-      await this.deleteFromAWS(key);
-    } else {
-      throw new BadRequestException(`Unsupported storage provider: ${this.provider}`);
-    }
-  }
-
-  private async deleteFromAzure(key: string): Promise<void> {
-    if (!this.azureContainer) {
-      throw new BadRequestException('Azure container not initialized');
-    }
-
-    try {
-      const blockBlobClient = this.azureContainer.getBlockBlobClient(key);
-      await blockBlobClient.delete();
-      this.logger.log(`File deleted from Azure: ${key}`);
-    } catch (error) {
-      this.logger.error(`Failed to delete file from Azure: ${error.message}`);
-      throw new BadRequestException('Failed to delete file from Azure');
-    }
-  }
-
-  private async deleteFromAWS(key: string): Promise<void> {
-    if (!this.awsClient || !this.awsBucket) {
-      throw new BadRequestException('AWS S3 client not initialized');
-    }
-
-    try {
-      const command = new DeleteObjectCommand({
-        Bucket: this.awsBucket,
-        Key: key,
-      });
-
-      await this.awsClient.send(command);
-      this.logger.log(`File deleted from AWS S3: ${key}`);
-    } catch (error) {
-      this.logger.error(`Failed to delete file from AWS S3: ${error.message}`);
-      throw new BadRequestException('Failed to delete file from AWS S3');
-    }
+    await this.provider.delete(key);
   }
 
   async getSignedUrl(key: string, expiresIn: number = 3600): Promise<string> {
-    if (this.provider === 'azure') {
-      return this.getAzureSignedUrl(key, expiresIn);
-    } else if (this.provider === 'aws') {
-      return this.getAWSSignedUrl(key, expiresIn);
-    }
-
-    throw new BadRequestException(`Unsupported storage provider: ${this.provider}`);
+    return this.provider.getSignedUrl(key, expiresIn);
   }
 
-  private async getAzureSignedUrl(key: string, expiresIn: number): Promise<string> {
-    if (!this.azureContainer) {
-      throw new BadRequestException('Azure container not initialized');
-    }
-
-    try {
-      const blockBlobClient = this.azureContainer.getBlockBlobClient(key);
-      const expiresOn = new Date(Date.now() + expiresIn * 1000);
-      
-      const url = await blockBlobClient.generateSasUrl({
-        permissions: BlobSASPermissions.parse('r'),
-        expiresOn,
-      });
-
-      return url;
-    } catch (error) {
-      this.logger.error(`Failed to generate Azure signed URL: ${error.message}`);
-      throw new BadRequestException('Failed to generate Azure signed URL');
-    }
+  /**
+   * Check a URL signed by the local or memory provider
+   */
+  verifySignedUrl(key: string, expires: number, signature: string): boolean {
+    return this.signer.verify(key, expires, signature);
   }
 
-  private async getAWSSignedUrl(key: string, expiresIn: number): Promise<string> {
-    if (!this.awsClient || !this.awsBucket) {
-      throw new BadRequestException('AWS S3 client not initialized');
-    }
-
-    try {
-      const command = new GetObjectCommand({
-        Bucket: this.awsBucket,
-        Key: key,
-      });
+  /**
+   * Folder for files of one entity, `<area>/<tenantId>/<entityId>`, so keys
+   * never collide across tenants and show who they belong to
+   */
+  entityFolder(area: string, tenantId: { toString(): string }, entityId: { toString(): string }): string {
+    return `${area}/${tenantId}/${entityId}`;
+  }
 
-      const url = await getSignedUrl(this.awsClient, command, { expiresIn });
-      return url;
-    } catch (error) {
-      this.logger.error(`Failed to generate AWS signed URL: ${error.message}`);
-      throw new BadRequestException('Failed to generate AWS signed URL');
-    }
+  /**
+   * Folder for files of a tenant stored under the hash of their content,
+   * `<area>/<tenantId>/sha256`, shared by all of the tenant's entities
+   */
+  contentFolder(area: string, tenantId: { toString(): string }): string {
+    return `${area}/${tenantId}/sha256`;
   }
 
   getProvider(): string {
-    return this.provider;
+    return this.provider.name;
   }
 
   /**
@@ -0,0 +1,126 @@
+import {
+  IsString,
+  IsEmail,
+  IsOptional,
+  IsInt,
+  Min,
+  MinLength,
+  MaxLength,
+  ValidateNested,
+  IsObject,
+  IsArray,
+  ArrayUnique,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TenantPlanDto {
+  @ApiProperty({ example: 'standard', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  name?: string;
+
+  @ApiProperty({ example: 50, description: 'Active users (0 = unlimited)', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxUsers?: number;
+
+  @ApiProperty({ example: 50, description: 'WhatsApp sessions (0 = unlimited)', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxSessions?: number;
+
+  @ApiProperty({ example: 10737418240, description: 'Media and file storage in bytes (0 = unlimited)', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxStorageBytes?: number;
+}
+
+export class TenantAdminDto {
+  @ApiProperty({ example: 'admin@acme.com' })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({ example: 'Jane' })
+  @IsString()
+  firstName: string;
+
+  @ApiProperty({ example: 'Doe' })
+  @IsString()
+  lastName: string;
+
+  @ApiProperty({ example: '+1234567890', required: false })
+  @IsOptional()
+  @IsString()
+  phoneNumber?: string;
+}
+
+export class ProvisionTenantDto {
+  @ApiProperty({ example: 'Acme Corp' })
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ type: TenantAdminDto, description: 'First TenantAdmin; receives an invitation email' })
+  @ValidateNested()
+  @Type(() => TenantAdminDto)
+  admin: TenantAdminDto;
+
+  @ApiProperty({ type: TenantPlanDto, description: 'Overrides of the default plan', required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TenantPlanDto)
+  plan?: TenantPlanDto;
+
+  @ApiProperty({ example: ['109876543210'], description: 'WhatsApp Cloud API phone number IDs', required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  cloudPhoneNumberIds?: string[];
+
+  @ApiProperty({ example: { industry: 'Finance' }, required: false })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
+
+export class UpdateTenantDto {
+  @ApiProperty({ type: TenantPlanDto, description: 'Only the given limits change', required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TenantPlanDto)
+  plan?: TenantPlanDto;
+
+  @ApiProperty({ example: ['109876543210'], description: 'Replaces the tenant\'s Cloud API phone number IDs', required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  cloudPhoneNumberIds?: string[];
+}
+
+export class SuspendTenantDto {
+  @ApiProperty({ example: 'Invoice overdue by 60 days' })
+  @IsString()
+  @MinLength(5)
+  @MaxLength(500)
+  reason: string;
+}
+
+export class OffboardTenantDto {
+  @ApiProperty({ example: 'Acme Corp', description: 'Exact tenant name, to confirm' })
+  @IsString()
+  confirmName: string;
+
+  @ApiProperty({ example: 'Contract ended' })
+  @IsString()
+  @MinLength(5)
+  @MaxLength(500)
+  reason: string;
+}
@@ -0,0 +1 @@
+export { OffboardTenantDto } from './create-tenant.dto';
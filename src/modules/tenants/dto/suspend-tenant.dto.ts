@@ -0,0 +1 @@
+export { SuspendTenantDto } from './create-tenant.dto';
@@ -0,0 +1 @@
+export { UpdateTenantDto } from './create-tenant.dto';
@@ -0,0 +1,218 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel, InjectConnection } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Connection, Model, Types } from 'mongoose';
+import { Tenant, TenantDocument, TenantStatus } from '../../common/schemas/tenant.schema';
+import { ExportJob, ExportJobDocument, ExportJobStatus } from '../../common/schemas/export-job.schema';
+import { Message, MessageDocument } from '../../common/schemas/message.schema';
+import { LegalHold, LegalHoldDocument, LegalHoldStatus } from '../../common/schemas/legal-hold.schema';
+import { AuditLog, AuditAction, AuditResource, AuditResult } from '../../common/schemas/audit-log.schema';
+import { AuditService } from '../../common/services/audit.service';
+import { StorageService } from '../storage/storage.service';
+import { SYSTEM_ENTITY_ID } from '../../common/constants/system-entity';
+
+/**
+ * Purges the data of offboarded tenants once their offboarding export has
+ * completed. Every collection with a tenantId is emptied for the tenant,
+ * together with the media and export bundles in storage. What remains is
+ * the Tenant record, the offboarding export (until it expires) and the
+ * tenant's lifecycle entries in the audit log.
+ */
+@Injectable()
+export class TenantOffboardingService {
+  private readonly logger = new Logger(TenantOffboardingService.name);
+  private processing = false;
+
+  constructor(
+    @InjectModel(Tenant.name)
+    private tenantModel: Model<TenantDocument>,
+    @InjectModel(ExportJob.name)
+    private exportJobModel: Model<ExportJobDocument>,
+    @InjectModel(Message.name)
+    private messageModel: Model<MessageDocument>,
+    @InjectModel(LegalHold.name)
+    private holdModel: Model<LegalHoldDocument>,
+    @InjectConnection()
+    private connection: Connection,
+    private auditService: AuditService,
+    private storageService: StorageService,
+    private configService: ConfigService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async processOffboarding() {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      const tenants = await this.tenantModel.find({
+        status: TenantStatus.OFFBOARDING,
+        'offboarding.lastError': null,
+      });
+
+      for (const tenant of tenants) {
+        try {
+          await this.advance(tenant);
+        } catch (error) {
+          this.logger.error(`Failed to offboard tenant ${tenant._id}: ${error.message}`, error);
+          await this.fail(tenant, error.message);
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async advance(tenant: TenantDocument): Promise<void> {
+    const job = await this.exportJobModel.findById(tenant.offboarding?.exportJobId).lean();
+    if (!job) {
+      await this.fail(tenant, 'Offboarding export not found');
+      return;
+    }
+
+    if (job.status === ExportJobStatus.PENDING || job.status === ExportJobStatus.PROCESSING) {
+      return;
+    }
+    if (job.status !== ExportJobStatus.COMPLETED) {
+      await this.fail(tenant, `Offboarding export ${job.status}${job.lastError ? `: ${job.lastError}` : ''}`);
+      return;
+    }
+
+    // A hold placed after offboarding started still wins
+    if (await this.holdModel.exists({ tenantId: tenant._id, isActive: true, status: LegalHoldStatus.ACTIVE })) {
+      await this.fail(tenant, 'Tenant has an active legal hold');
+      return;
+    }
+
+    await this.purge(tenant, job._id);
+  }
+
+  private async purge(tenant: TenantDocument, exportJobId: Types.ObjectId): Promise<void> {
+    const tenantId = tenant._id;
+    await this.tenantModel.updateOne({ _id: tenantId }, { 'offboarding.purgeStartedAt': new Date() });
+    this.logger.log(`Purging data of tenant ${tenant.name} (${tenantId})`);
+
+    const stats: Record<string, number> = {};
+    stats.mediaBlobs = await this.deleteMediaBlobs(tenantId);
+    stats.exportBundles = await this.deleteExportBundles(tenantId, exportJobId);
+
+    for (const model of Object.values(this.connection.models)) {
+      if (model.modelName === Tenant.name || !model.schema.path('tenantId')) continue;
+
+      const filter: Record<string, any> = { tenantId };
+      if (model.modelName === ExportJob.name) filter._id = { $ne: exportJobId };
+      if (model.modelName === AuditLog.name) filter.resource = { $ne: AuditResource.TENANT };
+
+      const result = await model.deleteMany(filter);
+      if (result.deletedCount > 0) stats[model.collection.collectionName] = result.deletedCount;
+    }
+
+    await this.tenantModel.updateOne(
+      { _id: tenantId },
+      { status: TenantStatus.OFFBOARDED, 'offboarding.purgedAt': new Date(), 'offboarding.purgeStats': stats },
+    );
+
+    this.logger.log(`Tenant ${tenant.name} (${tenantId}) offboarded: ${JSON.stringify(stats)}`);
+    await this.recordAudit(tenant, AuditResult.SUCCESS, { exportJobId: exportJobId.toString(), purgeStats: stats });
+  }
+
+  private async deleteMediaBlobs(tenantId: Types.ObjectId): Promise<number> {
+    const batchSize = this.configService.get<number>('retention.batchSize');
+    let lastId: Types.ObjectId = null;
+    let deleted = 0;
+
+    while (true) {
+      const batch = await this.messageModel
+        .find({
+          tenantId,
+          ...(lastId ? { _id: { $gt: lastId } } : {}),
+          $or: [
+            { mediaUrl: { $nin: [null, ''] } },
+            { thumbnailUrl: { $nin: [null, ''] } },
+            { 'outbound.mediaKey': { $nin: [null, ''] } },
+            { 'mediaInfo.textKey': { $nin: [null, ''] } },
+          ],
+        })
+        .sort({ _id: 1 })
+        .select('_id mediaUrl thumbnailUrl outbound.mediaKey mediaInfo.textKey')
+        .limit(batchSize)
+        .lean();
+      if (batch.length === 0) break;
+
+      const keys = new Set<string>();
+      for (const message of batch) {
+        for (const url of [message.mediaUrl, message.thumbnailUrl]) {
+          if (url && this.storageService.isProxyUrl(url)) {
+            const key = this.storageService.extractKeyFromProxyUrl(url);
+            if (key) keys.add(key);
+          }
+        }
+        if (message.outbound?.mediaKey) keys.add(message.outbound.mediaKey);
+        if (message.mediaInfo?.textKey) keys.add(message.mediaInfo.textKey);
+      }
+
+      for (const key of keys) {
+        try {
+          await this.storageService.deleteFile(key);
+          deleted++;
+        } catch (error) {
+          this.logger.warn(`Failed to delete media ${key}: ${error.message}`);
+        }
+      }
+
+      lastId = batch[batch.length - 1]._id;
+      if (batch.length < batchSize) break;
+    }
+
+    return deleted;
+  }
+
+  private async deleteExportBundles(tenantId: Types.ObjectId, keepJobId: Types.ObjectId): Promise<number> {
+    const jobs = await this.exportJobModel
+      .find({ tenantId, _id: { $ne: keepJobId }, storageKey: { $nin: [null, ''] } })
+      .select('storageKey')
+      .lean();
+    let deleted = 0;
+
+    for (const job of jobs) {
+      try {
+        await this.storageService.deleteFile(job.storageKey);
+        deleted++;
+      } catch (error) {
+        this.logger.warn(`Failed to delete export bundle ${job.storageKey}: ${error.message}`);
+      }
+    }
+
+    return deleted;
+  }
+
+  // Leaves the tenant offboarding; offboarding it again retries with a new export
+  private async fail(tenant: TenantDocument, reason: string): Promise<void> {
+    await this.tenantModel.updateOne({ _id: tenant._id }, { 'offboarding.lastError': reason });
+    this.logger.warn(`Offboarding of tenant ${tenant._id} stopped: ${reason}`);
+    await this.recordAudit(tenant, AuditResult.FAILURE, { error: reason });
+  }
+
+  private async recordAudit(tenant: TenantDocument, result: AuditResult, metadata: Record<string, any>): Promise<void> {
+    try {
+      await this.auditService.logAuditEvent({
+        action: AuditAction.PURGE,
+        resource: AuditResource.TENANT,
+        resourceId: tenant._id.toString(),
+        resourceName: tenant.name,
+        userId: SYSTEM_ENTITY_ID.toString(),
+        userEmail: 'system',
+        userName: 'Tenant offboarding job',
+        tenantId: tenant._id.toString(),
+        tenantName: tenant.name,
+        result,
+        metadata,
+        ipAddress: 'system',
+        userAgent: 'tenant-offboarding-job',
+      });
+    } catch (error) {
+      this.logger.error(`Failed to record offboarding of tenant ${tenant._id}: ${error.message}`, error);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { Controller, Get, Post, Patch, Body, Param, Query, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { TenantsService } from './tenants.service';
+import { ProvisionTenantDto } from './dto/create-tenant.dto';
+import { UpdateTenantDto } from './dto/update-tenant.dto';
+import { SuspendTenantDto } from './dto/suspend-tenant.dto';
+import { OffboardTenantDto } from './dto/offboard-tenant.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions, DenyDuringImpersonation } from '../auth/decorators';
+import { Permission } from '../../common/constants/permissions';
+import { TenantStatus } from '../../common/schemas/tenant.schema';
+import { Audit } from '../../common/decorators/audit.decorator';
+import { AuditAction, AuditResource } from '../../common/schemas/audit-log.schema';
+
+@ApiTags('Tenants')
+@Controller('tenants')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions(Permission.SYSTEM_MANAGE)
+@DenyDuringImpersonation()
+@ApiBearerAuth()
+export class TenantsController {
+  constructor(private readonly tenantsService: TenantsService) {}
+
+  @Post()
+  @Audit({ action: AuditAction.CREATE, resource: AuditResource.TENANT })
+  @ApiOperation({ summary: 'Provision a tenant with its root entity and first TenantAdmin' })
+  @ApiResponse({ status: 201, description: 'Tenant provisioned successfully' })
+  @ApiResponse({ status: 409, description: 'Tenant name already in use' })
+  async provision(@Body() dto: ProvisionTenantDto, @Request() req) {
+    return this.tenantsService.provision(dto, req.user);
+  }
+
+  @Get()
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({ name: 'status', required: false, enum: TenantStatus })
+  @ApiQuery({ name: 'search', required: false, description: 'Part of the tenant name' })
+  @ApiOperation({ summary: 'List tenants' })
+  @ApiResponse({ status: 200, description: 'Tenants retrieved successfully' })
+  async findAll(@Query() query: any) {
+    return this.tenantsService.findAll(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a tenant with its plan and current usage' })
+  @ApiResponse({ status: 200, description: 'Tenant retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Tenant not found' })
+  async findOne(@Param('id') id: string) {
+    return this.tenantsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @Audit({ action: AuditAction.CONFIG_CHANGE, resource: AuditResource.TENANT, resourceName: 'plan' })
+  @ApiOperation({ summary: 'Change a tenant\'s plan limits or WhatsApp Cloud API numbers' })
+  @ApiResponse({ status: 200, description: 'Tenant updated successfully' })
+  @ApiResponse({ status: 404, description: 'Tenant not found' })
+  @ApiResponse({ status: 409, description: 'Cloud API number provisioned for another tenant' })
+  async update(@Param('id') id: string, @Body() dto: UpdateTenantDto, @Request() req) {
+    return this.tenantsService.update(id, dto, req.user);
+  }
+
+  @Post(':id/suspend')
+  @Audit({ action: AuditAction.SUSPEND, resource: AuditResource.TENANT })
+  @ApiOperation({ summary: 'Suspend a tenant: block logins and disconnect its WhatsApp sessions' })
+  @ApiResponse({ status: 201, description: 'Tenant suspended successfully' })
+  @ApiResponse({ status: 409, description: 'Tenant is not active' })
+  async suspend(@Param('id') id: string, @Body() dto: SuspendTenantDto, @Request() req) {
+    return this.tenantsService.suspend(id, dto, req.user);
+  }
+
+  @Post(':id/reactivate')
+  @Audit({ action: AuditAction.REACTIVATE, resource: AuditResource.TENANT })
+  @ApiOperation({ summary: 'Lift a tenant\'s suspension' })
+  @ApiResponse({ status: 201, description: 'Tenant reactivated successfully' })
+  @ApiResponse({ status: 409, description: 'Tenant is not suspended' })
+  async reactivate(@Param('id') id: string, @Request() req) {
+    return this.tenantsService.reactivate(id, req.user);
+  }
+
+  @Post(':id/offboard')
+  @Audit({ action: AuditAction.OFFBOARD, resource: AuditResource.TENANT })
+  @ApiOperation({ summary: 'Offboard a tenant: export all of its data, then purge it' })
+  @ApiResponse({ status: 201, description: 'Offboarding started; the data is purged once the export completes' })
+  @ApiResponse({ status: 400, description: 'confirmName does not match' })
+  @ApiResponse({ status: 409, description: 'Already offboarded, or under legal hold' })
+  async offboard(@Param('id') id: string, @Body() dto: OffboardTenantDto, @Request() req) {
+    return this.tenantsService.offboard(id, dto, req.user);
+  }
+}
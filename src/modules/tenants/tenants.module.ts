@@ -0,0 +1,42 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { DatabaseModule } from '../../common/database/database.module';
+import { AuditModule } from '../../common/modules/audit.module';
+import { TenantLimitsModule } from '../../common/modules/tenant-limits.module';
+import { AuthModule } from '../auth/auth.module';
+import { EntitiesModule } from '../entities/entities.module';
+import { UsersModule } from '../users/users.module';
+import { WhatsAppModule } from '../whatsapp/whatsapp.module';
+import { EdiscoveryModule } from '../ediscovery/ediscovery.module';
+import { StorageModule } from '../storage/storage.module';
+import { TenantsService } from './tenants.service';
+import { TenantOffboardingService } from './tenant-offboarding.service';
+import { TenantsController } from './tenants.controller';
+import { Tenant, TenantSchema } from '../../common/schemas/tenant.schema';
+import { ExportJob, ExportJobSchema } from '../../common/schemas/export-job.schema';
+import { Message, MessageSchema } from '../../common/schemas/message.schema';
+import { LegalHold, LegalHoldSchema } from '../../common/schemas/legal-hold.schema';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    AuditModule,
+    TenantLimitsModule,
+    AuthModule,
+    EntitiesModule,
+    UsersModule,
+    WhatsAppModule,
+    EdiscoveryModule,
+    StorageModule,
+    MongooseModule.forFeature([
+      { name: Tenant.name, schema: TenantSchema },
+      { name: ExportJob.name, schema: ExportJobSchema },
+      { name: Message.name, schema: MessageSchema },
+      { name: LegalHold.name, schema: LegalHoldSchema },
+    ]),
+  ],
+  controllers: [TenantsController],
+  providers: [TenantsService, TenantOffboardingService],
+  exports: [TenantsService],
+})
+export class TenantsModule {}
@@ -0,0 +1,335 @@
+import { Injectable, Logger, NotFoundException, ConflictException, BadRequestException, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { Tenant, TenantDocument, TenantPlan, TenantStatus } from '../../common/schemas/tenant.schema';
+import { Entity, EntityDocument, EntityType } from '../../common/schemas/entity.schema';
+import { WhatsAppSession } from '../../common/schemas/whatsapp-session.schema';
+import { UserRole } from '../../common/schemas/user.schema';
+import { SessionRevokeReason } from '../../common/schemas/auth-session.schema';
+import { LegalHold, LegalHoldDocument, LegalHoldStatus } from '../../common/schemas/legal-hold.schema';
+import { ExportFormat } from '../../common/schemas/export-job.schema';
+import { TenantLimitsService, TenantUsage } from '../../common/services/tenant-limits.service';
+import { AuthService, JwtPayload } from '../auth/auth.service';
+import { EntitiesService } from '../entities/entities.service';
+import { EntityType as CreatableEntityType } from '../entities/dto/create-entity.dto';
+import { UsersService } from '../users/users.service';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+import { EdiscoveryService } from '../ediscovery/ediscovery.service';
+import { ProvisionTenantDto, UpdateTenantDto, SuspendTenantDto, OffboardTenantDto } from './dto/create-tenant.dto';
+
+/**
+ * Tenant lifecycle: provisioning, plan limits, suspension and offboarding.
+ * A tenant is a Tenant record next to its root entity, sharing its _id.
+ * The data purge after offboarding is done by TenantOffboardingService.
+ */
+@Injectable()
+export class TenantsService implements OnModuleInit {
+  private readonly logger = new Logger(TenantsService.name);
+
+  constructor(
+    @InjectModel(Tenant.name)
+    private tenantModel: Model<TenantDocument>,
+    @InjectModel(Entity.name)
+    private entityModel: Model<EntityDocument>,
+    @InjectModel(WhatsAppSession.name)
+    private sessionModel: Model<WhatsAppSession>,
+    @InjectModel(LegalHold.name)
+    private holdModel: Model<LegalHoldDocument>,
+    private tenantLimitsService: TenantLimitsService,
+    private authService: AuthService,
+    private entitiesService: EntitiesService,
+    private usersService: UsersService,
+    private whatsappService: WhatsAppService,
+    private ediscoveryService: EdiscoveryService,
+    private configService: ConfigService,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.backfillTenants();
+    } catch (error) {
+      this.logger.error(`Failed to backfill tenant records: ${error.message}`, error);
+    }
+  }
+
+  /**
+   * Create a tenant: its root entity with default settings, the Tenant
+   * record on the default plan and an invitation for the first TenantAdmin.
+   * Nothing is left behind if the invitation fails.
+   */
+  async provision(dto: ProvisionTenantDto, actor: JwtPayload) {
+    if (await this.tenantModel.exists({ name: dto.name, status: { $ne: TenantStatus.OFFBOARDED } })) {
+      throw new ConflictException('A tenant with this name already exists');
+    }
+    await this.assertCloudPhoneNumbersFree(dto.cloudPhoneNumberIds);
+
+    const entity = await this.entitiesService.create(
+      { name: dto.name, type: CreatableEntityType.COMPANY, metadata: dto.metadata },
+      actor.sub,
+      actor.role,
+      actor.entityId,
+    );
+    const tenantId = entity._id;
+
+    try {
+      await this.entityModel.updateOne(
+        { _id: tenantId },
+        { twoFactorRequiredRoles: this.configService.get<string[]>('tenants.defaultTwoFactorRequiredRoles') },
+      );
+
+      const defaultPlan = this.configService.get<TenantPlan>('tenants.defaultPlan');
+      await this.tenantModel.create({
+        _id: tenantId,
+        name: dto.name,
+        plan: { ...defaultPlan, ...this.definedLimits(dto.plan) },
+        cloudPhoneNumberIds: dto.cloudPhoneNumberIds || [],
+        createdBy: actor.sub,
+      });
+
+      const admin = await this.usersService.inviteUser(
+        { ...dto.admin, entityId: tenantId.toString(), tenantId: tenantId.toString(), role: UserRole.TENANT_ADMIN },
+        actor.sub,
+      );
+
+      this.logger.log(`Tenant ${dto.name} (${tenantId}) provisioned by ${actor.email}`);
+      return { ...(await this.findOne(tenantId.toString())), adminUserId: admin._id.toString() };
+    } catch (error) {
+      await this.tenantModel.deleteOne({ _id: tenantId });
+      await this.entityModel.deleteOne({ _id: tenantId });
+      throw error;
+    }
+  }
+
+  async findAll(query: any = {}) {
+    const { page = 1, limit = 20, status, search } = query;
+    const filter: any = { isActive: true };
+
+    if (status) filter.status = status;
+    if (search) filter.name = { $regex: search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const [tenants, total] = await Promise.all([
+      this.tenantModel.find(filter).sort({ name: 1 }).skip(skip).limit(Number(limit)).lean(),
+      this.tenantModel.countDocuments(filter),
+    ]);
+
+    return {
+      tenants,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit)),
+      },
+    };
+  }
+
+  async findOne(id: string): Promise<Tenant & { usage: TenantUsage }> {
+    const tenant = await this.findTenant(id);
+    return { ...tenant.toObject(), usage: await this.tenantLimitsService.getUsage(tenant._id) };
+  }
+
+  /**
+   * Change plan limits and the tenant's Cloud API numbers. Lowering a limit
+   * below current usage only blocks new users, sessions and uploads; nothing
+   * is removed. Sessions on a number the tenant no longer has are
+   * disconnected and lose it.
+   */
+  async update(id: string, dto: UpdateTenantDto, actor: JwtPayload) {
+    const tenant = await this.findTenant(id);
+    const limits = this.definedLimits(dto.plan);
+    const update: Record<string, any> = {
+      ...Object.fromEntries(Object.entries(limits).map(([key, value]) => [`plan.${key}`, value])),
+      updatedBy: actor.sub,
+    };
+
+    if (dto.cloudPhoneNumberIds) {
+      await this.assertCloudPhoneNumbersFree(dto.cloudPhoneNumberIds, tenant._id);
+      update.cloudPhoneNumberIds = dto.cloudPhoneNumberIds;
+    }
+
+    await this.tenantModel.updateOne({ _id: tenant._id }, update);
+
+    if (dto.cloudPhoneNumberIds) {
+      const orphaned = await this.sessionModel
+        .find({ tenantId: tenant._id, cloudPhoneNumberId: { $exists: true, $nin: dto.cloudPhoneNumberIds } })
+        .select('sessionId')
+        .lean();
+      for (const session of orphaned) {
+        await this.whatsappService.disconnectSession(session.sessionId);
+        await this.sessionModel.updateOne({ _id: session._id }, { $unset: { cloudPhoneNumberId: '' } });
+      }
+    }
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Block the tenant: logins, refreshes and API keys are refused, current
+   * logins are revoked and every WhatsApp session is disconnected.
+   */
+  async suspend(id: string, dto: SuspendTenantDto, actor: JwtPayload) {
+    const tenant = await this.findTenant(id);
+    if (tenant.status !== TenantStatus.ACTIVE) {
+      throw new ConflictException(`Tenant is ${tenant.status}`);
+    }
+
+    await this.tenantModel.updateOne(
+      { _id: tenant._id },
+      { status: TenantStatus.SUSPENDED, suspendedAt: new Date(), suspendedBy: actor.sub, suspensionReason: dto.reason, updatedBy: actor.sub },
+    );
+    const stats = await this.shutDown(tenant._id, actor.sub);
+
+    this.logger.log(`Tenant ${tenant.name} (${tenant._id}) suspended by ${actor.email}: ${dto.reason}`);
+    return { ...(await this.findOne(id)), ...stats };
+  }
+
+  /**
+   * Lift a suspension. WhatsApp sessions stay disconnected until their users
+   * reconnect them.
+   */
+  async reactivate(id: string, actor: JwtPayload) {
+    const tenant = await this.findTenant(id);
+    if (tenant.status !== TenantStatus.SUSPENDED) {
+      throw new ConflictException(`Tenant is ${tenant.status}`);
+    }
+
+    await this.tenantModel.updateOne(
+      { _id: tenant._id },
+      { status: TenantStatus.ACTIVE, $unset: { suspendedAt: 1, suspendedBy: 1, suspensionReason: 1 }, updatedBy: actor.sub },
+    );
+    this.authService.invalidateTenantStatus(tenant._id.toString());
+
+    this.logger.log(`Tenant ${tenant.name} (${tenant._id}) reactivated by ${actor.email}`);
+    return this.findOne(id);
+  }
+
+  /**
+   * Start offboarding: the tenant is shut down like a suspension and a full
+   * eDiscovery export is queued. Once the export completes, the tenant's data
+   * is purged. A failed export can be retried by offboarding again.
+   */
+  async offboard(id: string, dto: OffboardTenantDto, actor: JwtPayload) {
+    const tenant = await this.findTenant(id);
+    if (dto.confirmName !== tenant.name) {
+      throw new BadRequestException('confirmName does not match the tenant name');
+    }
+    if (tenant.status === TenantStatus.OFFBOARDED) {
+      throw new ConflictException('Tenant has already been offboarded');
+    }
+    if (tenant.status === TenantStatus.OFFBOARDING && !tenant.offboarding?.lastError) {
+      throw new ConflictException('Tenant is already being offboarded');
+    }
+
+    const holds = await this.holdModel.countDocuments({ tenantId: tenant._id, isActive: true, status: LegalHoldStatus.ACTIVE });
+    if (holds > 0) {
+      throw new ConflictException(`Tenant has ${holds} active legal hold(s); release them before offboarding`);
+    }
+
+    // Offboarding is a platform operation, so the export is not limited to an entity scope
+    const job = await this.ediscoveryService.create(
+      {
+        name: `Offboarding export: ${tenant.name}`,
+        matter: dto.reason,
+        formats: [ExportFormat.JSON, ExportFormat.HTML],
+        includeMedia: true,
+        entityId: tenant._id.toString(),
+      },
+      actor.sub,
+      actor.email,
+      {},
+    );
+
+    await this.tenantModel.updateOne(
+      { _id: tenant._id },
+      {
+        status: TenantStatus.OFFBOARDING,
+        offboarding: {
+          requestedAt: new Date(),
+          requestedBy: actor.sub,
+          reason: dto.reason,
+          exportJobId: job._id,
+        },
+        updatedBy: actor.sub,
+      },
+    );
+    const stats = await this.shutDown(tenant._id, actor.sub);
+
+    this.logger.log(`Tenant ${tenant.name} (${tenant._id}) offboarding started by ${actor.email}, export ${job._id}`);
+    return { ...(await this.findOne(id)), ...stats };
+  }
+
+  private async shutDown(tenantId: Types.ObjectId, actorId: string): Promise<{ revokedLogins: number; disconnectedSessions: number }> {
+    this.authService.invalidateTenantStatus(tenantId.toString());
+    const revokedLogins = await this.authService.revokeTenantSessions(tenantId.toString(), SessionRevokeReason.TENANT_SUSPENDED, actorId);
+
+    let disconnectedSessions = 0;
+    const sessions = await this.sessionModel.find({ tenantId, isActive: true }).select('sessionId').lean();
+    for (const session of sessions) {
+      try {
+        await this.whatsappService.disconnectSession(session.sessionId);
+        disconnectedSessions++;
+      } catch (error) {
+        this.logger.warn(`Failed to disconnect session ${session.sessionId} of tenant ${tenantId}: ${error.message}`);
+      }
+    }
+
+    return { revokedLogins, disconnectedSessions };
+  }
+
+  // Root entities created before tenants had records; kept on unlimited plans
+  private async backfillTenants(): Promise<void> {
+    const roots = await this.entityModel
+      .find({ $expr: { $eq: ['$_id', '$tenantId'] }, type: { $ne: EntityType.SYSTEM } })
+      .select('_id name isActive createdBy')
+      .lean();
+    if (roots.length === 0) return;
+
+    const result = await this.tenantModel.bulkWrite(
+      roots.map((root) => ({
+        updateOne: {
+          filter: { _id: root._id },
+          update: {
+            $setOnInsert: {
+              name: root.name,
+              status: root.isActive ? TenantStatus.ACTIVE : TenantStatus.SUSPENDED,
+              plan: { name: 'legacy', maxUsers: 0, maxSessions: 0, maxStorageBytes: 0 },
+              createdBy: root.createdBy || 'system',
+            },
+          },
+          upsert: true,
+        },
+      })),
+    );
+
+    if (result.upsertedCount > 0) {
+      this.logger.log(`Created tenant records for ${result.upsertedCount} existing root entities`);
+    }
+  }
+
+  // A Cloud API number routes inbound messages, so it belongs to one tenant only
+  private async assertCloudPhoneNumbersFree(phoneNumberIds: string[] = [], tenantId?: Types.ObjectId): Promise<void> {
+    if (!phoneNumberIds.length) return;
+
+    const taken = await this.tenantModel.exists({
+      ...(tenantId ? { _id: { $ne: tenantId } } : {}),
+      cloudPhoneNumberIds: { $in: phoneNumberIds },
+    });
+    if (taken) {
+      throw new ConflictException('A Cloud API phone number is already provisioned for another tenant');
+    }
+  }
+
+  private definedLimits(plan?: Partial<TenantPlan>): Partial<TenantPlan> {
+    return Object.fromEntries(Object.entries(plan || {}).filter(([, value]) => value !== undefined));
+  }
+
+  private async findTenant(id: string): Promise<TenantDocument> {
+    const tenant = Types.ObjectId.isValid(id) ? await this.tenantModel.findById(id) : null;
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+    return tenant;
+  }
+}
@@ -1,4 +1,4 @@
-import { IsString, IsEmail, IsEnum, IsOptional, IsMongoId, MinLength, IsArray, ValidateNested } from 'class-validator';
+import { IsString, IsEmail, IsEnum, IsOptional, IsMongoId, IsArray, ValidateNested } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
 
@@ -33,9 +33,8 @@ export class CreateUserDto {
   @IsString()
   lastName: string;
 
-  @ApiProperty({ example: 'password123' })
+  @ApiProperty({ example: 'Correct-Horse-42', description: 'Must satisfy the password policy; the user replaces it at first login' })
   @IsString()
-  @MinLength(6)
   password: string;
 
   @ApiProperty({ example: '507f1f77bcf86cd799439011' })
@@ -73,10 +72,9 @@ export class UpdateUserDto {
   @IsString()
   lastName?: string;
 
-  @ApiProperty({ example: 'password123', required: false })
+  @ApiProperty({ example: 'Correct-Horse-42', required: false, description: 'Must satisfy the password policy; the user replaces it at next login' })
   @IsOptional()
   @IsString()
-  @MinLength(6)
   password?: string;
 
   @ApiProperty({ example: '507f1f77bcf86cd799439011', required: false })
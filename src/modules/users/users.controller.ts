@@ -19,13 +19,17 @@ import { InviteUserDto } from './dto/create-user.dto';
 import { BulkInviteUserDto } from './dto/create-user.dto';
 import { UpdateRegistrationStatusDto } from './dto/create-user.dto';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
-import { RolesGuard } from '../auth/roles.guard';
-import { Roles, RequireTenant } from '../auth/decorators';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions, RequireTenant, EntityScopeFor, DenyDuringImpersonation } from '../auth/decorators';
+import { EntityScope } from '../auth/entity-scope';
+import { Permission } from '../../common/constants/permissions';
 import { UserRole, RegistrationStatus, WhatsAppConnectionStatus } from '../../common/schemas/user.schema';
+import { Audit } from '../../common/decorators/audit.decorator';
+import { AuditAction, AuditResource } from '../../common/schemas/audit-log.schema';
 
 @ApiTags('Users')
 @Controller('users')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @ApiBearerAuth()
 export class UsersController {
   constructor(
@@ -34,7 +38,7 @@ export class UsersController {
   ) {}
 
   @Post()
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @RequirePermissions(Permission.USERS_INVITE)
   @RequireTenant()
   @ApiOperation({ summary: 'Create a new user' })
   @ApiResponse({ status: 201, description: 'User created successfully' })
@@ -45,7 +49,7 @@ export class UsersController {
   }
 
   @Post('invite')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @RequirePermissions(Permission.USERS_INVITE)
   @RequireTenant()
   @ApiOperation({ summary: 'Invite a new user' })
   @ApiResponse({ status: 201, description: 'User invited successfully' })
@@ -56,7 +60,7 @@ export class UsersController {
   }
 
   @Post('bulk-invite')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @RequirePermissions(Permission.USERS_INVITE)
   @RequireTenant()
   @ApiOperation({ summary: 'Bulk invite users' })
   @ApiResponse({ status: 201, description: 'Users invited successfully' })
@@ -67,6 +71,7 @@ export class UsersController {
   }
 
   @Get()
+  @RequirePermissions(Permission.USERS_READ)
   @RequireTenant()
   @ApiOperation({ summary: 'Get all users with pagination' })
   @ApiQuery({ name: 'registrationStatus', required: false, enum: RegistrationStatus })
@@ -77,52 +82,57 @@ export class UsersController {
   @ApiQuery({ name: 'page', required: false, description: 'Page number (default: 1)' })
   @ApiQuery({ name: 'limit', required: false, description: 'Items per page (default: 10)' })
   @ApiResponse({ status: 200, description: 'Users retrieved successfully with pagination' })
-  async findAll(@Query() query: any, @Request() req) {
-    return this.usersService.findAll(req.user.tenantId, query);
+  async findAll(@Query() query: any, @EntityScopeFor(Permission.USERS_READ) scope: EntityScope) {
+    return this.usersService.findAll(scope, query);
   }
 
   @Get('stats')
+  @RequirePermissions(Permission.USERS_READ)
   @RequireTenant()
   @ApiOperation({ summary: 'Get user statistics' })
   @ApiResponse({ status: 200, description: 'User statistics retrieved successfully' })
-  async getStats(@Request() req) {
-    return this.usersService.getUserStats(req.user.tenantId);
+  async getStats(@EntityScopeFor(Permission.USERS_READ) scope: EntityScope) {
+    return this.usersService.getUserStats(scope);
   }
 
   @Get('search')
+  @RequirePermissions(Permission.USERS_READ)
   @RequireTenant()
   @ApiOperation({ summary: 'Search users' })
   @ApiQuery({ name: 'q', required: true })
   @ApiResponse({ status: 200, description: 'Users found successfully' })
-  async search(@Query('q') query: string, @Request() req) {
-    return this.usersService.searchUsers(query, req.user.tenantId);
+  async search(@Query('q') query: string, @EntityScopeFor(Permission.USERS_READ) scope: EntityScope) {
+    return this.usersService.searchUsers(query, scope);
   }
 
   @Get(':id')
+  @RequirePermissions(Permission.USERS_READ)
   @RequireTenant()
   @ApiOperation({ summary: 'Get user by ID' })
   @ApiResponse({ status: 200, description: 'User retrieved successfully' })
   @ApiResponse({ status: 404, description: 'User not found' })
-  async findOne(@Param('id') id: string, @Request() req) {
-    return this.usersService.findOne(id, req.user.tenantId);
+  async findOne(@Param('id') id: string, @EntityScopeFor(Permission.USERS_READ) scope: EntityScope) {
+    return this.usersService.findOne(id, scope);
   }
 
   @Patch(':id')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @RequirePermissions(Permission.USERS_MANAGE)
   @RequireTenant()
+  @DenyDuringImpersonation()
   @ApiOperation({ summary: 'Update user' })
   @ApiResponse({ status: 200, description: 'User updated successfully' })
   @ApiResponse({ status: 404, description: 'User not found' })
   async update(
     @Param('id') id: string,
     @Body() updateUserDto: UpdateUserDto,
+    @EntityScopeFor(Permission.USERS_MANAGE) scope: EntityScope,
     @Request() req,
   ) {
-    return this.usersService.update(id, updateUserDto, req.user.sub, req.user.tenantId);
+    return this.usersService.update(id, updateUserDto, req.user.sub, scope);
   }
 
   @Patch(':id/registration-status')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @RequirePermissions(Permission.USERS_MANAGE)
   @RequireTenant()
   @ApiOperation({ summary: 'Update user registration status' })
   @ApiResponse({ status: 200, description: 'Registration status updated successfully' })
@@ -130,17 +140,19 @@ export class UsersController {
   async updateRegistrationStatus(
     @Param('id') id: string,
     @Body() updateStatusDto: UpdateRegistrationStatusDto,
+    @EntityScopeFor(Permission.USERS_MANAGE) scope: EntityScope,
     @Request() req,
   ) {
     return this.usersService.updateRegistrationStatus(
       id,
       updateStatusDto.status,
       req.user.sub,
-      req.user.tenantId,
+      scope,
     );
   }
 
   @Patch(':id/whatsapp-status')
+  @RequirePermissions(Permission.USERS_MANAGE)
   @RequireTenant()
   @ApiOperation({ summary: 'Update WhatsApp connection status' })
   @ApiResponse({ status: 200, description: 'WhatsApp status updated successfully' })
@@ -148,39 +160,81 @@ export class UsersController {
   async updateWhatsAppStatus(
     @Param('id') id: string,
     @Body('status') status: WhatsAppConnectionStatus,
-    @Request() req,
+    @EntityScopeFor(Permission.USERS_MANAGE) scope: EntityScope,
   ) {
-    return this.usersService.updateWhatsAppConnectionStatus(id, status, req.user.tenantId);
+    return this.usersService.updateWhatsAppConnectionStatus(id, status, scope);
   }
 
   @Delete(':id')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @RequirePermissions(Permission.USERS_MANAGE)
   @RequireTenant()
   @ApiOperation({ summary: 'Delete user' })
   @ApiResponse({ status: 200, description: 'User deleted successfully' })
   @ApiResponse({ status: 404, description: 'User not found' })
-  async remove(@Param('id') id: string, @Request() req) {
-    await this.usersService.remove(id, req.user.sub, req.user.tenantId);
+  async remove(@Param('id') id: string, @EntityScopeFor(Permission.USERS_MANAGE) scope: EntityScope, @Request() req) {
+    await this.usersService.remove(id, req.user.sub, scope);
     return { message: 'User deleted successfully' };
   }
 
+  @Get(':id/sessions')
+  @RequirePermissions(Permission.USERS_MANAGE)
+  @RequireTenant()
+  @ApiOperation({ summary: 'List the active logins (devices) of a user' })
+  @ApiResponse({ status: 200, description: 'Sessions retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async getSessions(@Param('id') id: string, @EntityScopeFor(Permission.USERS_MANAGE) scope: EntityScope) {
+    return { sessions: await this.usersService.getSessions(id, scope) };
+  }
+
+  @Delete(':id/sessions')
+  @RequirePermissions(Permission.USERS_MANAGE)
+  @RequireTenant()
+  @Audit({ action: AuditAction.LOGOUT, resource: AuditResource.USER })
+  @ApiOperation({ summary: 'Sign a user out of every session' })
+  @ApiResponse({ status: 200, description: 'Sessions revoked successfully' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async revokeSessions(@Param('id') id: string, @EntityScopeFor(Permission.USERS_MANAGE) scope: EntityScope, @Request() req) {
+    const revoked = await this.usersService.revokeSessions(id, req.user.sub, scope);
+    return {
+      success: true,
+      revoked,
+      message: 'Sessions revoked successfully',
+    };
+  }
+
+  @Post(':id/unlock')
+  @RequirePermissions(Permission.USERS_MANAGE)
+  @RequireTenant()
+  @Audit({ action: AuditAction.UPDATE, resource: AuditResource.USER, resourceName: 'account_unlocked' })
+  @ApiOperation({ summary: 'Unlock a user locked out after failed login attempts' })
+  @ApiResponse({ status: 200, description: 'User unlocked successfully' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async unlock(@Param('id') id: string, @EntityScopeFor(Permission.USERS_MANAGE) scope: EntityScope, @Request() req) {
+    await this.usersService.unlock(id, req.user.sub, scope);
+    return {
+      success: true,
+      message: 'User unlocked successfully',
+    };
+  }
+
   @Post(':id/regenerate-qr')
+  @RequirePermissions(Permission.USERS_MANAGE)
   @RequireTenant()
   @ApiOperation({ summary: 'Regenerate WhatsApp QR code for user' })
   @ApiResponse({ status: 200, description: 'QR code regenerated successfully' })
   @ApiResponse({ status: 400, description: 'Bad request - User has no phone number or QR generation failed' })
   @ApiResponse({ status: 404, description: 'User not found' })
-  async regenerateQRCode(@Param('id') id: string, @Request() req) {
-    return this.usersService.regenerateQRCode(id, req.user.tenantId);
+  async regenerateQRCode(@Param('id') id: string, @EntityScopeFor(Permission.USERS_MANAGE) scope: EntityScope) {
+    return this.usersService.regenerateQRCode(id, scope);
   }
 
   @Get(':id/health-status')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN, UserRole.USER)
+  @RequirePermissions(Permission.USERS_READ)
   @ApiOperation({ summary: 'Get WhatsApp health check status for user' })
   @ApiResponse({ status: 200, description: 'Health check status retrieved successfully' })
   @ApiResponse({ status: 404, description: 'User not found' })
-  async getUserHealthStatus(@Param('id') id: string) {
-    const stats = await this.healthCheckService.getUserHealthStats(id);
+  async getUserHealthStatus(@Param('id') id: string, @EntityScopeFor(Permission.USERS_READ) scope: EntityScope) {
+    const stats = await this.healthCheckService.getUserHealthStats(id, scope);
     return {
       success: true,
       data: stats,
@@ -188,13 +242,13 @@ export class UsersController {
   }
 
   @Post(':id/trigger-health-check')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @RequirePermissions(Permission.USERS_MANAGE)
   @ApiOperation({ summary: 'Manually trigger health check for user\'s WhatsApp session' })
   @ApiResponse({ status: 200, description: 'Health check triggered successfully' })
   @ApiResponse({ status: 404, description: 'Session not found' })
-  async triggerHealthCheck(@Param('id') id: string, @Request() req) {
+  async triggerHealthCheck(@Param('id') id: string, @EntityScopeFor(Permission.USERS_MANAGE) scope: EntityScope) {
     try {
-      const healthCheck = await this.healthCheckService.triggerManualHealthCheckByUserId(id);
+      const healthCheck = await this.healthCheckService.triggerManualHealthCheckByUserId(id, scope);
       
       return {
         success: true,
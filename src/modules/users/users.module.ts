@@ -1,8 +1,10 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { DatabaseModule } from '../../common/database/database.module';
+import { TenantLimitsModule } from '../../common/modules/tenant-limits.module';
 import { AuthModule } from '../auth/auth.module';
 import { EmailModule } from '../email/email.module';
 import { WhatsAppModule } from '../whatsapp/whatsapp.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
 import { UsersService } from './users.service';
 import { UsersController } from './users.controller';
 
@@ -11,6 +13,8 @@ import { UsersController } from './users.controller';
     DatabaseModule, 
     AuthModule, 
     EmailModule,
+    WebhooksModule,
+    TenantLimitsModule,
     forwardRef(() => WhatsAppModule),
   ],
   controllers: [UsersController],
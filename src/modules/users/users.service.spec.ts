@@ -0,0 +1,89 @@
+import { NotFoundException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { User } from '../../common/schemas/user.schema';
+import { UsersService } from './users.service';
+
+// Chainable stand-in for a mongoose query resolving to result
+function mockQuery<T>(result: T) {
+  const query: any = {
+    then: (resolve: (value: T) => unknown, reject: (reason: unknown) => unknown) =>
+      Promise.resolve(result).then(resolve, reject),
+  };
+  for (const method of ['populate', 'sort', 'skip', 'limit']) {
+    query[method] = jest.fn(() => query);
+  }
+  return query;
+}
+
+describe('UsersService scoped reads', () => {
+  const tenantId = new Types.ObjectId().toString();
+  const deptA = new Types.ObjectId().toString();
+  const deptB = new Types.ObjectId().toString();
+  const scopeA = { tenantId, entityIds: [deptA] };
+  const scopeAFilter = {
+    tenantId: new Types.ObjectId(tenantId),
+    entityIdPath: { $in: [new Types.ObjectId(deptA)] },
+  };
+
+  let service: UsersService;
+  let userModel: { countDocuments: jest.Mock; find: jest.Mock; findOne: jest.Mock };
+
+  beforeEach(async () => {
+    userModel = {
+      countDocuments: jest.fn().mockResolvedValue(0),
+      find: jest.fn(() => mockQuery([])),
+      findOne: jest.fn(() => mockQuery(null)),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [UsersService, { provide: getModelToken(User.name), useValue: userModel }],
+    })
+      .useMocker(() => ({}))
+      .compile();
+
+    service = module.get(UsersService);
+  });
+
+  it('lists only users inside the caller scope', async () => {
+    await service.findAll(scopeA, {});
+
+    expect(userModel.countDocuments).toHaveBeenCalledWith({ isActive: true, ...scopeAFilter });
+    expect(userModel.find).toHaveBeenCalledWith({ isActive: true, ...scopeAFilter });
+  });
+
+  it('keeps the caller scope when listing a sibling department', async () => {
+    await service.findAll(scopeA, { entityId: deptB });
+
+    const [query] = userModel.find.mock.calls[0];
+    expect(query.tenantId).toEqual(new Types.ObjectId(tenantId));
+    expect(query.entityIdPath).toEqual({
+      $in: [new Types.ObjectId(deptA)],
+      $all: [new Types.ObjectId(deptB)],
+    });
+  });
+
+  it('reports a user outside the caller scope as missing', async () => {
+    const siblingUserId = new Types.ObjectId().toString();
+
+    await expect(service.findOne(siblingUserId, scopeA)).rejects.toThrow(NotFoundException);
+    expect(userModel.findOne).toHaveBeenCalledWith({
+      _id: new Types.ObjectId(siblingUserId),
+      isActive: true,
+      ...scopeAFilter,
+    });
+  });
+
+  it('searches only users inside the caller scope', async () => {
+    await service.searchUsers('smith', scopeA);
+
+    expect(userModel.find).toHaveBeenCalledWith(expect.objectContaining({ isActive: true, ...scopeAFilter }));
+  });
+
+  it('does not restrict system-wide callers', async () => {
+    await service.findAll({}, {});
+
+    expect(userModel.find).toHaveBeenCalledWith({ isActive: true });
+  });
+});
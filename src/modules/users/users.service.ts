@@ -1,18 +1,24 @@
 import { Injectable, NotFoundException, BadRequestException, Inject, forwardRef, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
-import { User, RegistrationStatus, UserRole, WhatsAppConnectionStatus } from '../../common/schemas/user.schema';
+import { User, UserDocument, RegistrationStatus, UserRole, WhatsAppConnectionStatus } from '../../common/schemas/user.schema';
 import { Entity } from '../../common/schemas/entity.schema';
+import { WebhookEvent } from '../../common/schemas/webhook-subscription.schema';
+import { SessionRevokeReason } from '../../common/schemas/auth-session.schema';
+import { TenantLimitsService } from '../../common/services/tenant-limits.service';
 import { AuthService } from '../auth/auth.service';
+import { PasswordPolicyService } from '../auth/password-policy.service';
 import { EmailService } from '../email/email.service';
 import { WhatsAppService } from '../whatsapp/whatsapp.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { userWebhookPayload } from '../webhooks/webhook-payloads';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { InviteUserDto } from './dto/invite-user.dto';
 import { SYSTEM_ENTITY_ID, isSystemAdmin } from '../../common/constants/system-entity';
+import { EntityScope, entityScopeFilter, isInEntityScope } from '../auth/entity-scope';
 import { BulkInviteUserDto } from './dto/bulk-invite-user.dto';
 import { parsePhoneNumber, isValidPhoneNumber } from 'libphonenumber-js';
-const bcrypt = require('bcryptjs');
 
 @Injectable()
 export class UsersService {
@@ -24,9 +30,12 @@ export class UsersService {
     @InjectModel(Entity.name)
     private entityModel: Model<Entity>,
     private authService: AuthService,
+    private passwordPolicyService: PasswordPolicyService,
     private emailService: EmailService,
     @Inject(forwardRef(() => WhatsAppService))
     private whatsappService: WhatsAppService,
+    private webhooksService: WebhooksService,
+    private tenantLimitsService: TenantLimitsService,
   ) {}
 
   async create(createUserDto: CreateUserDto, createdBy: string): Promise<User> {
@@ -69,9 +78,9 @@ export class UsersService {
       throw new NotFoundException('Entity not found');
     }
 
-    // Generate password hash
-    // const password = await this.authService.hashPassword("tenant123");
-    const password = bcrypt.hashSync('tenant123', 12);
+    await this.tenantLimitsService.assertCanAddUsers(entity.tenantId);
+    await this.passwordPolicyService.assertAcceptable(createUserDto.password);
+    const password = await this.authService.hashPassword(createUserDto.password);
 
     // Build user data - only include phoneNumber if provided
     const userData: any = {
@@ -84,6 +93,9 @@ export class UsersService {
       tenantId: entity.tenantId,
       role: role || UserRole.USER,
       registrationStatus: RegistrationStatus.REGISTERED,
+      passwordChangedAt: new Date(),
+      // The password was chosen by whoever created the account
+      mustChangePassword: true,
       createdBy,
     };
     
@@ -93,17 +105,19 @@ export class UsersService {
     }
 
     const user = new this.userModel(userData);
+    const savedUser = await user.save();
 
-    return user.save();
-  }
+    await this.webhooksService.emit(WebhookEvent.USER_REGISTRATION_CHANGED, savedUser.tenantId, {
+      ...userWebhookPayload(savedUser),
+      previousRegistrationStatus: null,
+    });
 
-  async findAll(tenantId: string, filters?: any): Promise<{ users: User[], total: number, page: number, limit: number, totalPages: number }> {
-    const query: any = { isActive: true };
+    return savedUser;
+  }
 
-    // Only filter by tenantId if provided (SystemAdmin has no tenantId)
-    if (tenantId && tenantId !== '') {
-      query.tenantId = new Types.ObjectId(tenantId);
-    }
+  async findAll(scope: EntityScope, filters?: any): Promise<{ users: User[], total: number, page: number, limit: number, totalPages: number }> {
+    // entityId narrows the listing without leaving the caller's subtree
+    const query: any = { isActive: true, ...entityScopeFilter(scope, filters?.entityId) };
 
     if (filters?.registrationStatus) {
       query.registrationStatus = filters.registrationStatus;
@@ -113,11 +127,6 @@ export class UsersService {
       query.role = filters.role;
     }
 
-    if (filters?.entityId) {
-      if (filters?.entityId !== SYSTEM_ENTITY_ID.toString())
-        query.entityIdPath = new Types.ObjectId(filters.entityId);
-    }
-
     if (filters?.whatsappConnectionStatus) {
       query.whatsappConnectionStatus = filters.whatsappConnectionStatus;
     }
@@ -183,10 +192,11 @@ export class UsersService {
     };
   }
 
-  async findOne(id: string, tenantId: string): Promise<User> {
+  async findOne(id: string, scope: EntityScope): Promise<User> {
     const user = await this.userModel.findOne({
       _id: new Types.ObjectId(id),
       isActive: true,
+      ...entityScopeFilter(scope),
     }).populate('entity', 'name path type');
 
     if (!user) {
@@ -216,11 +226,12 @@ export class UsersService {
     return user;
   }
 
-  async update(id: string, updateUserDto: UpdateUserDto, updatedBy: string, tenantId: string): Promise<User> {
-    const user = await this.findOne(id, tenantId);
+  async update(id: string, updateUserDto: UpdateUserDto, updatedBy: string, scope: EntityScope): Promise<User> {
+    const user = await this.findOne(id, scope);
 
+    const { password, ...changes } = updateUserDto;
     const updateData: any = {
-      ...updateUserDto,
+      ...changes,
       updatedBy,
     };
 
@@ -237,26 +248,28 @@ export class UsersService {
     if (updateUserDto.entityId) {
       const entity = await this.entityModel.findOne({
         _id: updateUserDto.entityId,
-        tenantId,
+        tenantId: user.tenantId,
         isActive: true,
       });
 
-      if (!entity) {
+      // Users can only be moved to entities the caller manages
+      if (!entity || !isInEntityScope(scope, entity)) {
         throw new NotFoundException('Entity not found');
       }
 
       updateData.entityPath = entity.path;
+      updateData.entityIdPath = entity.entityIdPath;
     }
 
-    // If password is being updated, hash it
-    if (updateUserDto.password) {
-      updateData.password = await this.authService.hashPassword(updateUserDto.password);
+    // Signs the user out everywhere; a password set by someone else is only temporary
+    if (password) {
+      await this.authService.setPassword(id, password, { changedBy: updatedBy, mustChangePassword: updatedBy !== id });
     }
 
     return this.userModel.findByIdAndUpdate(id, updateData, { new: true });
   }
 
-  async inviteUser(inviteUserDto: InviteUserDto, invitedBy: string): Promise<User> {
+  async inviteUser(inviteUserDto: InviteUserDto, invitedBy: string): Promise<UserDocument> {
     const { phoneNumber, email, firstName, lastName, entityId, tenantId, role } = inviteUserDto;
 
     // Validate E164 phone number only if provided (required for User, optional for TenantAdmin)
@@ -296,8 +309,10 @@ export class UsersService {
       throw new NotFoundException('Entity not found');
     }
 
-    // Generate temporary password
-    const tempPassword = Math.random().toString(36).slice(-8);
+    await this.tenantLimitsService.assertCanAddUsers(entity.tenantId);
+
+    // Replaced by the user at first login
+    const tempPassword = this.passwordPolicyService.generateTemporaryPassword();
     const hashedPassword = await this.authService.hashPassword(tempPassword);
 
     const newUserId:Types.ObjectId = new Types.ObjectId();
@@ -315,6 +330,7 @@ export class UsersService {
       tenantId: entity.tenantId,
       role: role || UserRole.USER,
       registrationStatus: RegistrationStatus.INVITED,
+      mustChangePassword: true,
       createdBy: invitedBy,
     };
     
@@ -327,6 +343,11 @@ export class UsersService {
 
     const savedUser = await user.save();
 
+    await this.webhooksService.emit(WebhookEvent.USER_REGISTRATION_CHANGED, savedUser.tenantId, {
+      ...userWebhookPayload(savedUser),
+      previousRegistrationStatus: null,
+    });
+
     // Declare qrCodeData at method level
     let qrCodeData = null;
 
@@ -387,7 +408,7 @@ export class UsersService {
             await this.updateWhatsAppConnectionStatus(
               newUserId.toString(),
               WhatsAppConnectionStatus.FAILED,
-              entity.tenantId.toString()
+              { tenantId: entity.tenantId.toString() },
             );
             await this.emailService.sendInvitationEmail(email, 'invitation', {
               firstName,
@@ -481,9 +502,9 @@ export class UsersService {
     id: string,
     status: RegistrationStatus,
     updatedBy: string,
-    tenantId: string,
+    scope: EntityScope,
   ): Promise<User> {
-    const user = await this.findOne(id, tenantId);
+    const user = await this.findOne(id, scope);
 
     const updateData: any = {
       registrationStatus: status,
@@ -494,15 +515,24 @@ export class UsersService {
       updateData.registeredAt = new Date();
     }
 
-    return this.userModel.findByIdAndUpdate(id, updateData, { new: true });
+    const updated = await this.userModel.findByIdAndUpdate(id, updateData, { new: true });
+
+    if (user.registrationStatus !== status) {
+      await this.webhooksService.emit(WebhookEvent.USER_REGISTRATION_CHANGED, updated.tenantId, {
+        ...userWebhookPayload(updated),
+        previousRegistrationStatus: user.registrationStatus,
+      });
+    }
+
+    return updated;
   }
 
   async updateWhatsAppConnectionStatus(
     id: string,
     status: WhatsAppConnectionStatus,
-    tenantId: string,
+    scope: EntityScope,
   ): Promise<User> {
-    const user = await this.findOne(id, tenantId);
+    const user = await this.findOne(id, scope);
 
     const updateData: any = {
       whatsappConnectionStatus: status,
@@ -515,22 +545,46 @@ export class UsersService {
     return this.userModel.findByIdAndUpdate(id, updateData, { new: true });
   }
 
-  async remove(id: string, deletedBy: string, tenantId: string): Promise<void> {
-    await this.findOne(id, tenantId);
+  async remove(id: string, deletedBy: string, scope: EntityScope): Promise<void> {
+    await this.findOne(id, scope);
 
     // Soft delete
-    await this.userModel.findByIdAndUpdate(new Types.ObjectId(id), {
-      isActive: false,
-      updatedBy: deletedBy,
-    });
+    const removed = await this.userModel.findByIdAndUpdate(
+      new Types.ObjectId(id),
+      {
+        isActive: false,
+        updatedBy: deletedBy,
+      },
+      { new: true },
+    );
+
+    await this.authService.revokeAllSessions(id, SessionRevokeReason.USER_DEACTIVATED, deletedBy);
+    await this.webhooksService.emit(WebhookEvent.USER_DEACTIVATED, removed.tenantId, userWebhookPayload(removed));
   }
 
-  async getUserStats(tenantId: string): Promise<any> {
-    // Build match query - only include tenantId if provided (SystemAdmin has no tenantId)
-    const matchQuery: any = { isActive: true };
-    if (tenantId && tenantId !== '') {
-      matchQuery.tenantId = new Types.ObjectId(tenantId);
-    }
+  async getSessions(id: string, scope: EntityScope) {
+    await this.findOne(id, scope);
+    return this.authService.getSessions(id);
+  }
+
+  async revokeSessions(id: string, revokedBy: string, scope: EntityScope): Promise<number> {
+    await this.findOne(id, scope);
+    return this.authService.revokeAllSessions(id, SessionRevokeReason.ADMIN_REVOKED, revokedBy);
+  }
+
+  /**
+   * Lift a lockout from failed login attempts before it runs out
+   */
+  async unlock(id: string, updatedBy: string, scope: EntityScope): Promise<void> {
+    await this.findOne(id, scope);
+    await this.userModel.updateOne(
+      { _id: new Types.ObjectId(id) },
+      { failedLoginAttempts: 0, lockoutCount: 0, updatedBy, $unset: { lockedUntil: 1 } },
+    );
+  }
+
+  async getUserStats(scope: EntityScope): Promise<any> {
+    const matchQuery: any = { isActive: true, ...entityScopeFilter(scope) };
 
     const stats = await this.userModel.aggregate([
       { $match: matchQuery },
@@ -592,9 +646,10 @@ export class UsersService {
     return SYSTEM_ENTITY_ID;
   }
 
-  async searchUsers(query: string, tenantId: string): Promise<User[]> {
+  async searchUsers(query: string, scope: EntityScope): Promise<User[]> {
     const searchQuery: any = {
       isActive: true,
+      ...entityScopeFilter(scope),
       $or: [
         { firstName: { $regex: query, $options: 'i' } },
         { lastName: { $regex: query, $options: 'i' } },
@@ -602,24 +657,19 @@ export class UsersService {
         { phoneNumber: { $regex: query, $options: 'i' } },
       ],
     };
-    
-    // Only filter by tenantId if provided (SystemAdmin has no tenantId)
-    if (tenantId && tenantId !== '') {
-      searchQuery.tenantId = new Types.ObjectId(tenantId);
-    }
-    
+
     return this.userModel.find(searchQuery).limit(20);
   }
 
   /**
    * Regenerate WhatsApp QR code for a user
    * @param userId - The ID of the user
-   * @param tenantId - The tenant ID
+   * @param scope - Where the caller may manage users
    * @returns Object containing the new QR code data
    */
-  async regenerateQRCode(userId: string, tenantId: string): Promise<{ qrCode: string; expiresAt: Date; sessionId: string }> {
+  async regenerateQRCode(userId: string, scope: EntityScope): Promise<{ qrCode: string; expiresAt: Date; sessionId: string }> {
     // Find the user and verify they have a phone number
-    const user = await this.findOne(userId, tenantId);
+    const user = await this.findOne(userId, scope);
     if (!user.phoneNumber) {
       throw new BadRequestException('User does not have a phone number configured');
     }
@@ -643,7 +693,7 @@ export class UsersService {
       await this.updateWhatsAppConnectionStatus(
         userId,
         WhatsAppConnectionStatus.CONNECTING,
-        tenantId
+        scope
       );
 
       console.log('Created Session')
@@ -673,7 +723,7 @@ export class UsersService {
             await this.updateWhatsAppConnectionStatus(
               userId,
               WhatsAppConnectionStatus.FAILED,
-              tenantId
+              scope
             );
             throw error; // Rethrow on last attempt
           }
@@ -685,7 +735,7 @@ export class UsersService {
         await this.updateWhatsAppConnectionStatus(
           userId,
           WhatsAppConnectionStatus.FAILED,
-          tenantId
+          scope
         );
         throw new Error('Failed to generate QR code after multiple attempts');
       }
@@ -694,7 +744,7 @@ export class UsersService {
       await this.updateWhatsAppConnectionStatus(
         userId,
         WhatsAppConnectionStatus.CONNECTING,
-        tenantId
+        scope
       );
 
       console.log({
@@ -713,7 +763,7 @@ export class UsersService {
       await this.updateWhatsAppConnectionStatus(
         userId,
         WhatsAppConnectionStatus.FAILED,
-        tenantId
+        scope
       );
       throw new BadRequestException(`Failed to regenerate QR code: ${error.message}`);
     }
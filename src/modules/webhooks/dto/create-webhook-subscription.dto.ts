@@ -0,0 +1,82 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsMongoId,
+  IsArray,
+  IsBoolean,
+  IsUrl,
+  ArrayMinSize,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { WebhookEvent } from '../../../common/schemas/webhook-subscription.schema';
+
+export class CreateWebhookSubscriptionDto {
+  @ApiProperty({ example: 'CRM sync' })
+  @IsString()
+  @MaxLength(200)
+  name: string;
+
+  @ApiProperty({ example: 'Pushes inbound messages to the CRM', required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ example: 'https://crm.example.com/hooks/unicx' })
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+  url: string;
+
+  @ApiProperty({ enum: WebhookEvent, isArray: true, example: [WebhookEvent.MESSAGE_RECEIVED, WebhookEvent.SESSION_STATUS_CHANGED] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsEnum(WebhookEvent, { each: true })
+  events: WebhookEvent[];
+
+  @ApiProperty({ description: 'Signing secret; generated when omitted', required: false })
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  secret?: string;
+
+  @ApiProperty({ example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  isEnabled?: boolean;
+
+  @ApiProperty({ description: 'Target tenant (SystemAdmin only)', required: false })
+  @IsOptional()
+  @IsMongoId()
+  tenantId?: string;
+}
+
+export class UpdateWebhookSubscriptionDto {
+  @ApiProperty({ example: 'CRM sync', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  name?: string;
+
+  @ApiProperty({ example: 'Pushes inbound messages to the CRM', required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ example: 'https://crm.example.com/hooks/unicx', required: false })
+  @IsOptional()
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+  url?: string;
+
+  @ApiProperty({ enum: WebhookEvent, isArray: true, required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsEnum(WebhookEvent, { each: true })
+  events?: WebhookEvent[];
+
+  @ApiProperty({ example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  isEnabled?: boolean;
+}
@@ -0,0 +1 @@
+export { UpdateWebhookSubscriptionDto } from './create-webhook-subscription.dto';
@@ -0,0 +1,202 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import * as os from 'os';
+import {
+  WebhookSubscription,
+  WebhookSubscriptionDocument,
+} from '../../common/schemas/webhook-subscription.schema';
+import {
+  WebhookDelivery,
+  WebhookDeliveryDocument,
+  WebhookDeliveryStatus,
+} from '../../common/schemas/webhook-delivery.schema';
+import { postToWebhookTarget, resolveWebhookTarget } from './webhook-target';
+
+/**
+ * Worker that posts pending webhook deliveries.
+ *
+ * Each request carries X-Unicx-Signature: sha256=HMAC(secret, `${timestamp}.${body}`)
+ * with the timestamp in X-Unicx-Timestamp, so subscribers can verify the sender
+ * and reject stale replays. Non-2xx responses and network errors are retried
+ * with exponential backoff until maxAttempts, then marked failed. The target
+ * is checked again on every attempt, and only its response status is kept.
+ */
+@Injectable()
+export class WebhookDeliveryService {
+  private readonly logger = new Logger(WebhookDeliveryService.name);
+  private readonly workerId = `${os.hostname()}:${process.pid}`;
+  private readonly BATCH_SIZE = 50;
+  private processing = false;
+
+  constructor(
+    @InjectModel(WebhookSubscription.name)
+    private subscriptionModel: Model<WebhookSubscriptionDocument>,
+    @InjectModel(WebhookDelivery.name)
+    private deliveryModel: Model<WebhookDeliveryDocument>,
+    private configService: ConfigService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async processDeliveries() {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      for (let i = 0; i < this.BATCH_SIZE; i++) {
+        const delivery = await this.claimNext();
+        if (!delivery) break;
+
+        await this.deliver(delivery);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to process webhook deliveries: ${error.message}`, error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async claimNext(): Promise<WebhookDeliveryDocument | null> {
+    const now = new Date();
+    const lockTimeoutMs = this.configService.get<number>('webhooks.timeoutMs') * 2;
+
+    return this.deliveryModel.findOneAndUpdate(
+      {
+        status: WebhookDeliveryStatus.PENDING,
+        nextAttemptAt: { $lte: now },
+        $or: [
+          { lockedAt: null },
+          { lockedAt: { $lt: new Date(now.getTime() - lockTimeoutMs) } },
+        ],
+      },
+      { lockedBy: this.workerId, lockedAt: now },
+      { sort: { nextAttemptAt: 1 }, new: true },
+    );
+  }
+
+  private async deliver(delivery: WebhookDeliveryDocument): Promise<void> {
+    const subscription = await this.subscriptionModel
+      .findById(delivery.subscriptionId)
+      .select('+secret');
+
+    if (!subscription || !subscription.isActive || !subscription.isEnabled) {
+      await this.deliveryModel.updateOne(
+        { _id: delivery._id },
+        {
+          status: WebhookDeliveryStatus.FAILED,
+          failedAt: new Date(),
+          lastError: 'Subscription is disabled or deleted',
+          lockedBy: null,
+          lockedAt: null,
+        },
+      );
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = crypto
+      .createHmac('sha256', subscription.secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    const startedAt = Date.now();
+    let responseStatus: number | undefined;
+
+    try {
+      const target = await resolveWebhookTarget(
+        subscription.url,
+        this.configService.get<boolean>('webhooks.allowPrivateTargets'),
+      );
+      responseStatus = await postToWebhookTarget(
+        target,
+        body,
+        {
+          'Content-Type': 'application/json',
+          'User-Agent': 'UNICX-Webhooks/1.0',
+          'X-Unicx-Event': delivery.event,
+          'X-Unicx-Event-Id': delivery.eventId,
+          'X-Unicx-Delivery': delivery._id.toString(),
+          'X-Unicx-Timestamp': timestamp,
+          'X-Unicx-Signature': `sha256=${signature}`,
+        },
+        this.configService.get<number>('webhooks.timeoutMs'),
+      );
+
+      // Redirects count as failures; following them would leave the checked host
+      if (responseStatus < 200 || responseStatus >= 300) {
+        throw new Error(`Subscriber responded with HTTP ${responseStatus}`);
+      }
+
+      await this.deliveryModel.updateOne(
+        { _id: delivery._id },
+        {
+          status: WebhookDeliveryStatus.SUCCEEDED,
+          $inc: { attempts: 1 },
+          lastAttemptAt: new Date(),
+          deliveredAt: new Date(),
+          responseStatus,
+          durationMs: Date.now() - startedAt,
+          lastError: null,
+          lockedBy: null,
+          lockedAt: null,
+        },
+      );
+
+      await this.subscriptionModel.updateOne(
+        { _id: subscription._id },
+        { lastDeliveryAt: new Date(), lastSuccessAt: new Date(), consecutiveFailures: 0 },
+      );
+    } catch (error) {
+      await this.handleFailure(delivery, subscription, error, {
+        responseStatus,
+        durationMs: Date.now() - startedAt,
+      });
+    }
+  }
+
+  private async handleFailure(
+    delivery: WebhookDeliveryDocument,
+    subscription: WebhookSubscriptionDocument,
+    error: Error,
+    attempt: { responseStatus?: number; durationMs: number },
+  ): Promise<void> {
+    const attempts = (delivery.attempts || 0) + 1;
+    const maxAttempts = this.configService.get<number>('webhooks.maxAttempts');
+    const exhausted = attempts >= maxAttempts;
+
+    const update: any = {
+      attempts,
+      lastAttemptAt: new Date(),
+      responseStatus: attempt.responseStatus ?? null,
+      durationMs: attempt.durationMs,
+      lastError: error.message,
+      lockedBy: null,
+      lockedAt: null,
+    };
+
+    if (exhausted) {
+      update.status = WebhookDeliveryStatus.FAILED;
+      update.failedAt = new Date();
+    } else {
+      const baseDelay = this.configService.get<number>('webhooks.retryBaseDelayMs');
+      const maxDelay = this.configService.get<number>('webhooks.retryMaxDelayMs');
+      update.nextAttemptAt = new Date(Date.now() + Math.min(baseDelay * Math.pow(2, attempts - 1), maxDelay));
+    }
+
+    await this.deliveryModel.updateOne({ _id: delivery._id }, update);
+    await this.subscriptionModel.updateOne(
+      { _id: subscription._id },
+      { lastDeliveryAt: new Date(), lastFailureAt: new Date(), $inc: { consecutiveFailures: 1 } },
+    );
+
+    if (exhausted) {
+      this.logger.error(`Webhook delivery ${delivery._id} to ${subscription.url} failed after ${attempts} attempts: ${error.message}`);
+    } else {
+      this.logger.warn(`Webhook delivery ${delivery._id} failed (attempt ${attempts}/${maxAttempts}): ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { Alert } from '../../common/schemas/alert.schema';
+import { Message } from '../../common/schemas/message.schema';
+import { User } from '../../common/schemas/user.schema';
+import { WhatsAppSession } from '../../common/schemas/whatsapp-session.schema';
+
+/**
+ * Stable public shapes for webhook event data.
+ * Documents are never posted as-is so internal fields (queue locks, QR codes,
+ * password hashes) cannot leak to subscribers.
+ */
+
+export function messageWebhookPayload(message: Message) {
+  return {
+    id: message._id.toString(),
+    whatsappMessageId: message.whatsappMessageId,
+    sessionId: message.sessionId,
+    direction: message.direction,
+    type: message.type,
+    from: message.from,
+    to: message.to,
+    content: message.content,
+    mediaUrl: message.mediaUrl,
+    status: message.status,
+    conversationId: message.conversationId,
+    isExternalNumber: message.isExternalNumber,
+    userId: message.userId?.toString(),
+    campaignId: message.campaignId?.toString(),
+    entityId: message.entityId?.toString(),
+    sentAt: message.sentAt,
+    deliveredAt: message.deliveredAt,
+    readAt: message.readAt,
+    failedAt: message.failedAt,
+    failureReason: message.failureReason,
+  };
+}
+
+export function sessionWebhookPayload(session: WhatsAppSession) {
+  return {
+    sessionId: session.sessionId,
+    phoneNumber: session.phoneNumber,
+    whatsappName: session.whatsappName,
+    transport: session.transport,
+    status: session.status,
+    userId: session.userId?.toString(),
+    entityId: session.entityId?.toString(),
+    connectedAt: session.connectedAt,
+    disconnectedAt: session.disconnectedAt,
+    lastError: session.lastError,
+  };
+}
+
+export function alertWebhookPayload(alert: Alert) {
+  return {
+    id: alert._id.toString(),
+    type: alert.type,
+    severity: alert.severity,
+    status: alert.status,
+    title: alert.title,
+    description: alert.description,
+    phoneNumber: alert.phoneNumber,
+    sessionId: alert.sessionId?.toString(),
+    userId: alert.userId?.toString(),
+    entityId: alert.entityId?.toString(),
+    occurrenceCount: alert.occurrenceCount,
+    firstOccurredAt: alert.firstOccurredAt,
+    lastOccurredAt: alert.lastOccurredAt,
+    acknowledgedAt: alert.acknowledgedAt,
+    acknowledgedBy: alert.acknowledgedBy,
+    resolvedAt: alert.resolvedAt,
+    resolvedBy: alert.resolvedBy,
+    dismissedAt: alert.dismissedAt,
+    dismissedBy: alert.dismissedBy,
+    resolutionNotes: alert.resolutionNotes,
+    tags: alert.tags,
+  };
+}
+
+export function userWebhookPayload(user: User) {
+  return {
+    id: user._id.toString(),
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    phoneNumber: user.phoneNumber,
+    role: user.role,
+    registrationStatus: user.registrationStatus,
+    isActive: user.isActive,
+    entityId: user.entityId?.toString(),
+  };
+}
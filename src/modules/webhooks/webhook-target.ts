@@ -0,0 +1,128 @@
+import { BadRequestException } from '@nestjs/common';
+import * as dns from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+
+// Loopback, private, link-local (cloud metadata), carrier-grade NAT, multicast and reserved ranges
+const PRIVATE_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+export interface WebhookTarget {
+  url: URL;
+  address: string; // Checked address the request connects to
+  family: number;
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+
+  // BlockList matches IPv4-mapped IPv6 addresses against the IPv4 ranges
+  return PRIVATE_RANGES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Check that a subscriber URL points at the public internet and pick the
+ * address to connect to. Only https is accepted and every address the host
+ * resolves to must be public; allowPrivate lifts both for development.
+ */
+export async function resolveWebhookTarget(rawUrl: string, allowPrivate: boolean): Promise<WebhookTarget> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new BadRequestException('Webhook URL is not valid');
+  }
+
+  if (url.protocol !== 'https:' && !(allowPrivate && url.protocol === 'http:')) {
+    throw new BadRequestException('Webhook URL must use https');
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: dns.LookupAddress[];
+  if (net.isIP(host)) {
+    addresses = [{ address: host, family: net.isIP(host) }];
+  } else {
+    try {
+      addresses = await dns.promises.lookup(host, { all: true, verbatim: true });
+    } catch {
+      throw new BadRequestException(`Webhook host ${host} cannot be resolved`);
+    }
+  }
+
+  if (!addresses.length) {
+    throw new BadRequestException(`Webhook host ${host} cannot be resolved`);
+  }
+  if (!allowPrivate && addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new BadRequestException('Webhook URL must not point at a private, loopback or link-local address');
+  }
+
+  return { url, address: addresses[0].address, family: addresses[0].family };
+}
+
+/**
+ * POST to a resolved target and return the response status. The connection
+ * goes to the checked address, so the host cannot be re-pointed between the
+ * check and the request. Redirects are not followed and the response body
+ * is discarded.
+ */
+export function postToWebhookTarget(
+  target: WebhookTarget,
+  body: string,
+  headers: Record<string, string>,
+  timeoutMs: number,
+): Promise<number> {
+  const lookup = (_hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+    if (options?.all) {
+      callback(null, [{ address: target.address, family: target.family }]);
+    } else {
+      callback(null, target.address, target.family);
+    }
+  };
+
+  return new Promise((resolve, reject) => {
+    const client = target.url.protocol === 'https:' ? https : http;
+    const request = client.request(
+      target.url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+        lookup: lookup as net.LookupFunction,
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      (response) => {
+        response.on('error', reject);
+        response.on('end', () => resolve(response.statusCode));
+        response.resume();
+      },
+    );
+
+    request.on('error', reject);
+    request.end(body);
+  });
+}
@@ -0,0 +1,133 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { WebhooksService } from './webhooks.service';
+import { CreateWebhookSubscriptionDto } from './dto/create-webhook-subscription.dto';
+import { UpdateWebhookSubscriptionDto } from './dto/update-webhook-subscription.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions, RequireTenant } from '../auth/decorators';
+import { Permission } from '../../common/constants/permissions';
+import { WebhookEvent } from '../../common/schemas/webhook-subscription.schema';
+import { WebhookDeliveryStatus } from '../../common/schemas/webhook-delivery.schema';
+import { Audit } from '../../common/decorators/audit.decorator';
+import { AuditAction, AuditResource } from '../../common/schemas/audit-log.schema';
+
+@ApiTags('Webhooks')
+@Controller('webhooks')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions(Permission.WEBHOOKS_MANAGE)
+@ApiBearerAuth()
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Post()
+  @RequireTenant()
+  @Audit({ action: AuditAction.CREATE, resource: AuditResource.WEBHOOK })
+  @ApiOperation({ summary: 'Create a webhook subscription (the signing secret is only returned once)' })
+  @ApiResponse({ status: 201, description: 'Subscription created successfully' })
+  @ApiResponse({ status: 403, description: 'webhooks:manage does not cover the whole tenant' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  async create(@Body() createDto: CreateWebhookSubscriptionDto, @Request() req) {
+    return this.webhooksService.create(createDto, req.user);
+  }
+
+  @Get()
+  @RequireTenant()
+  @ApiOperation({ summary: 'Get webhook subscriptions' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
+  @ApiQuery({ name: 'event', required: false, enum: WebhookEvent })
+  @ApiQuery({ name: 'isEnabled', required: false, description: 'Filter by enabled state (true/false)' })
+  @ApiResponse({ status: 200, description: 'Subscriptions retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'webhooks:manage does not cover the whole tenant' })
+  async findAll(@Query() query: any, @Request() req) {
+    return this.webhooksService.findAll(req.user, query);
+  }
+
+  @Get('events')
+  @ApiOperation({ summary: 'List the event types that can be subscribed to' })
+  @ApiResponse({ status: 200, description: 'Event types retrieved successfully' })
+  getEvents() {
+    return { events: Object.values(WebhookEvent) };
+  }
+
+  @Get(':id')
+  @RequireTenant()
+  @ApiOperation({ summary: 'Get webhook subscription by ID' })
+  @ApiResponse({ status: 200, description: 'Subscription retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Subscription not found' })
+  async findOne(@Param('id') id: string, @Request() req) {
+    return this.webhooksService.findOne(id, req.user);
+  }
+
+  @Patch(':id')
+  @RequireTenant()
+  @Audit({ action: AuditAction.UPDATE, resource: AuditResource.WEBHOOK })
+  @ApiOperation({ summary: 'Update webhook subscription' })
+  @ApiResponse({ status: 200, description: 'Subscription updated successfully' })
+  @ApiResponse({ status: 404, description: 'Subscription not found' })
+  async update(@Param('id') id: string, @Body() updateDto: UpdateWebhookSubscriptionDto, @Request() req) {
+    return this.webhooksService.update(id, updateDto, req.user);
+  }
+
+  @Delete(':id')
+  @RequireTenant()
+  @Audit({ action: AuditAction.DELETE, resource: AuditResource.WEBHOOK })
+  @ApiOperation({ summary: 'Delete webhook subscription' })
+  @ApiResponse({ status: 200, description: 'Subscription deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Subscription not found' })
+  async remove(@Param('id') id: string, @Request() req) {
+    await this.webhooksService.remove(id, req.user);
+    return {
+      success: true,
+      message: 'Webhook subscription deleted successfully',
+    };
+  }
+
+  @Post(':id/rotate-secret')
+  @RequireTenant()
+  @Audit({ action: AuditAction.CONFIG_CHANGE, resource: AuditResource.WEBHOOK })
+  @ApiOperation({ summary: 'Generate a new signing secret for the subscription' })
+  @ApiResponse({ status: 200, description: 'Secret rotated successfully' })
+  @ApiResponse({ status: 404, description: 'Subscription not found' })
+  async rotateSecret(@Param('id') id: string, @Request() req) {
+    return this.webhooksService.rotateSecret(id, req.user);
+  }
+
+  @Get(':id/deliveries')
+  @RequireTenant()
+  @ApiOperation({ summary: 'Get the delivery log of a subscription' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
+  @ApiQuery({ name: 'status', required: false, enum: WebhookDeliveryStatus })
+  @ApiQuery({ name: 'event', required: false, enum: WebhookEvent })
+  @ApiQuery({ name: 'startDate', required: false, description: 'Start date filter' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'End date filter' })
+  @ApiResponse({ status: 200, description: 'Deliveries retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Subscription not found' })
+  async findDeliveries(@Param('id') id: string, @Query() query: any, @Request() req) {
+    return this.webhooksService.findDeliveries(id, req.user, query);
+  }
+
+  @Post('deliveries/:deliveryId/replay')
+  @RequireTenant()
+  @Audit({ action: AuditAction.UPDATE, resource: AuditResource.WEBHOOK })
+  @ApiOperation({ summary: 'Send a past delivery again with the same event ID and payload' })
+  @ApiResponse({ status: 201, description: 'Replay queued successfully' })
+  @ApiResponse({ status: 400, description: 'Subscription is disabled' })
+  @ApiResponse({ status: 404, description: 'Delivery not found' })
+  async replay(@Param('deliveryId') deliveryId: string, @Request() req) {
+    return this.webhooksService.replay(deliveryId, req.user);
+  }
+}
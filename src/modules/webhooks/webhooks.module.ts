@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { DatabaseModule } from '../../common/database/database.module';
+import { AuthModule } from '../auth/auth.module';
+import { WebhooksService } from './webhooks.service';
+import { WebhooksController } from './webhooks.controller';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+import { WebhookSubscription, WebhookSubscriptionSchema } from '../../common/schemas/webhook-subscription.schema';
+import { WebhookDelivery, WebhookDeliverySchema } from '../../common/schemas/webhook-delivery.schema';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    AuthModule,
+    MongooseModule.forFeature([
+      { name: WebhookSubscription.name, schema: WebhookSubscriptionSchema },
+      { name: WebhookDelivery.name, schema: WebhookDeliverySchema },
+    ]),
+  ],
+  controllers: [WebhooksController],
+  providers: [WebhooksService, WebhookDeliveryService],
+  exports: [WebhooksService],
+})
+export class WebhooksModule {}
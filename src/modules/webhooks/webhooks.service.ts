@@ -0,0 +1,289 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import * as crypto from 'crypto';
+import {
+  WebhookEvent,
+  WebhookSubscription,
+  WebhookSubscriptionDocument,
+} from '../../common/schemas/webhook-subscription.schema';
+import {
+  WebhookDelivery,
+  WebhookDeliveryDocument,
+  WebhookDeliveryStatus,
+} from '../../common/schemas/webhook-delivery.schema';
+import { Entity } from '../../common/schemas/entity.schema';
+import { UserRole } from '../../common/schemas/user.schema';
+import { isSystemEntity } from '../../common/constants/system-entity';
+import { Permission } from '../../common/constants/permissions';
+import { JwtPayload } from '../auth/auth.service';
+import { PermissionsService } from '../auth/permissions.service';
+import { CreateWebhookSubscriptionDto } from './dto/create-webhook-subscription.dto';
+import { UpdateWebhookSubscriptionDto } from './dto/update-webhook-subscription.dto';
+import { resolveWebhookTarget } from './webhook-target';
+
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name);
+
+  constructor(
+    @InjectModel(WebhookSubscription.name)
+    private subscriptionModel: Model<WebhookSubscriptionDocument>,
+    @InjectModel(WebhookDelivery.name)
+    private deliveryModel: Model<WebhookDeliveryDocument>,
+    @InjectModel(Entity.name)
+    private entityModel: Model<Entity>,
+    private configService: ConfigService,
+    private permissionsService: PermissionsService,
+  ) {}
+
+  /**
+   * Record an event for every subscription of the tenant that listens to it.
+   * Deliveries are sent by WebhookDeliveryService; this never throws so event
+   * sources are not affected by webhook problems.
+   */
+  async emit(event: WebhookEvent, tenantId: Types.ObjectId | string | null | undefined, data: Record<string, any>): Promise<void> {
+    if (!tenantId) return;
+
+    try {
+      const tenantObjectId = new Types.ObjectId(tenantId.toString());
+      const subscriptions = await this.subscriptionModel
+        .find({ tenantId: tenantObjectId, isActive: true, isEnabled: true, events: event })
+        .select('_id')
+        .lean();
+
+      if (subscriptions.length === 0) return;
+
+      const eventId = crypto.randomUUID();
+      const payload = {
+        id: eventId,
+        event,
+        createdAt: new Date().toISOString(),
+        tenantId: tenantObjectId.toString(),
+        data,
+      };
+
+      await this.deliveryModel.insertMany(
+        subscriptions.map((subscription) => ({
+          subscriptionId: subscription._id,
+          event,
+          eventId,
+          payload,
+          status: WebhookDeliveryStatus.PENDING,
+          nextAttemptAt: new Date(),
+          tenantId: tenantObjectId,
+        })),
+      );
+    } catch (error) {
+      this.logger.error(`Failed to record webhook event ${event}: ${error.message}`, error);
+    }
+  }
+
+  async create(dto: CreateWebhookSubscriptionDto, actor: JwtPayload) {
+    const targetTenantId = await this.resolveTenant(dto.tenantId, actor);
+    await this.assertPublicUrl(dto.url);
+    const secret = dto.secret || this.generateSecret();
+
+    const subscription = await this.subscriptionModel.create({
+      name: dto.name,
+      description: dto.description,
+      url: dto.url,
+      secret,
+      events: Array.from(new Set(dto.events)),
+      isEnabled: dto.isEnabled ?? true,
+      tenantId: targetTenantId,
+      createdBy: actor.sub,
+    });
+
+    this.logger.log(`Webhook subscription ${subscription._id} created for tenant ${targetTenantId}`);
+
+    // The secret is only ever returned here and on rotation
+    return { ...subscription.toObject(), secret };
+  }
+
+  async findAll(actor: JwtPayload, query: any = {}) {
+    const { page = 1, limit = 20, event, isEnabled } = query;
+    const filter: any = { isActive: true, ...this.scopeFilter(actor) };
+
+    if (event) filter.events = event;
+    if (isEnabled !== undefined) filter.isEnabled = isEnabled === 'true';
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const [subscriptions, total] = await Promise.all([
+      this.subscriptionModel.find(filter).sort({ createdAt: -1 }).skip(skip).limit(Number(limit)).exec(),
+      this.subscriptionModel.countDocuments(filter),
+    ]);
+
+    return {
+      subscriptions,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit)),
+      },
+    };
+  }
+
+  async findOne(id: string, actor: JwtPayload): Promise<WebhookSubscription> {
+    const subscription = await this.subscriptionModel.findOne({
+      _id: new Types.ObjectId(id),
+      isActive: true,
+      ...this.scopeFilter(actor),
+    });
+
+    if (!subscription) {
+      throw new NotFoundException('Webhook subscription not found');
+    }
+
+    return subscription;
+  }
+
+  async update(id: string, dto: UpdateWebhookSubscriptionDto, actor: JwtPayload): Promise<WebhookSubscription> {
+    const subscription = await this.findOne(id, actor);
+    if (dto.url) await this.assertPublicUrl(dto.url);
+
+    const update: any = { ...dto, updatedBy: actor.sub };
+    if (dto.events) update.events = Array.from(new Set(dto.events));
+    // Re-enabling starts a fresh failure streak
+    if (dto.isEnabled) update.consecutiveFailures = 0;
+
+    return this.subscriptionModel.findByIdAndUpdate(subscription._id, update, { new: true });
+  }
+
+  async remove(id: string, actor: JwtPayload): Promise<void> {
+    const subscription = await this.findOne(id, actor);
+
+    await this.subscriptionModel.findByIdAndUpdate(subscription._id, {
+      isActive: false,
+      isEnabled: false,
+      updatedBy: actor.sub,
+    });
+
+    // Nothing left to deliver to
+    await this.deliveryModel.updateMany(
+      { subscriptionId: subscription._id, status: WebhookDeliveryStatus.PENDING },
+      { status: WebhookDeliveryStatus.FAILED, failedAt: new Date(), lastError: 'Subscription deleted' },
+    );
+  }
+
+  async rotateSecret(id: string, actor: JwtPayload) {
+    const subscription = await this.findOne(id, actor);
+    const secret = this.generateSecret();
+
+    await this.subscriptionModel.findByIdAndUpdate(subscription._id, { secret, updatedBy: actor.sub });
+
+    return { id: subscription._id, secret };
+  }
+
+  async findDeliveries(subscriptionId: string, actor: JwtPayload, query: any = {}) {
+    const subscription = await this.findOne(subscriptionId, actor);
+    const { page = 1, limit = 20, status, event, startDate, endDate } = query;
+    const filter: any = { subscriptionId: subscription._id };
+
+    if (status) filter.status = status;
+    if (event) filter.event = event;
+    if (startDate || endDate) {
+      filter.createdAt = {};
+      if (startDate) filter.createdAt.$gte = new Date(startDate);
+      if (endDate) filter.createdAt.$lte = new Date(endDate);
+    }
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const [deliveries, total] = await Promise.all([
+      this.deliveryModel.find(filter).sort({ createdAt: -1 }).skip(skip).limit(Number(limit)).exec(),
+      this.deliveryModel.countDocuments(filter),
+    ]);
+
+    return {
+      deliveries,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit)),
+      },
+    };
+  }
+
+  /**
+   * Send a past delivery again with the same event ID and payload,
+   * recorded as a new delivery linked to the original
+   */
+  async replay(deliveryId: string, actor: JwtPayload): Promise<WebhookDelivery> {
+    const original = await this.deliveryModel.findOne({
+      _id: new Types.ObjectId(deliveryId),
+      ...this.scopeFilter(actor),
+    });
+
+    if (!original) {
+      throw new NotFoundException('Webhook delivery not found');
+    }
+
+    const subscription = await this.findOne(original.subscriptionId.toString(), actor);
+    if (!subscription.isEnabled) {
+      throw new BadRequestException('Webhook subscription is disabled');
+    }
+
+    const replay = await this.deliveryModel.create({
+      subscriptionId: original.subscriptionId,
+      event: original.event,
+      eventId: original.eventId,
+      payload: original.payload,
+      replayOf: original._id,
+      status: WebhookDeliveryStatus.PENDING,
+      nextAttemptAt: new Date(),
+      tenantId: original.tenantId,
+    });
+
+    this.logger.log(`Webhook delivery ${original._id} replayed as ${replay._id}`);
+    return replay;
+  }
+
+  private async resolveTenant(requestedTenantId: string | undefined, actor: JwtPayload): Promise<Types.ObjectId> {
+    if (actor.role !== UserRole.SYSTEM_ADMIN) {
+      this.assertTenantWide(actor);
+      return new Types.ObjectId(actor.tenantId);
+    }
+
+    if (!requestedTenantId) {
+      throw new BadRequestException('tenantId is required for system administrators');
+    }
+
+    const tenant = await this.entityModel.exists({ _id: new Types.ObjectId(requestedTenantId), isActive: true });
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    return new Types.ObjectId(requestedTenantId);
+  }
+
+  // Deliveries check the target again, in case the host is re-pointed later
+  private async assertPublicUrl(url: string): Promise<void> {
+    await resolveWebhookTarget(url, this.configService.get<boolean>('webhooks.allowPrivateTargets'));
+  }
+
+  private generateSecret(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  private scopeFilter(actor: JwtPayload): Record<string, any> {
+    if (isSystemEntity(actor.entityId)) {
+      return {};
+    }
+
+    this.assertTenantWide(actor);
+    return { tenantId: new Types.ObjectId(actor.tenantId) };
+  }
+
+  /**
+   * Subscriptions receive tenant-wide events, so managing them needs
+   * webhooks:manage over the tenant root rather than over any subtree
+   */
+  private assertTenantWide(actor: JwtPayload): void {
+    if (!this.permissionsService.covers(actor.permissions, Permission.WEBHOOKS_MANAGE, [actor.tenantId])) {
+      throw new ForbiddenException('Managing webhooks requires webhooks:manage over the whole tenant');
+    }
+  }
+}
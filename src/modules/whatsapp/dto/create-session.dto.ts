@@ -0,0 +1,19 @@
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { WhatsAppTransportDriver } from '../../../common/schemas/whatsapp-session.schema';
+
+export class CreateSessionDto {
+  @ApiProperty({
+    enum: WhatsAppTransportDriver,
+    description: 'Transport driver; defaults to WHATSAPP_TRANSPORT. The memory driver is for tests only',
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(WhatsAppTransportDriver)
+  transport?: WhatsAppTransportDriver;
+
+  @ApiProperty({ example: '106540352242922', description: 'Provisioned Cloud API phone number ID (cloud transport only)', required: false })
+  @IsOptional()
+  @IsString()
+  cloudPhoneNumberId?: string;
+}
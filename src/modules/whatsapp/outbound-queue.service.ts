@@ -0,0 +1,337 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ConfigService } from '@nestjs/config';
+import * as os from 'os';
+import {
+  Message,
+  MessageDirection,
+  MessageStatus,
+  OutboundMessagePayload,
+} from '../../common/schemas/message.schema';
+import { WhatsAppSession } from '../../common/schemas/whatsapp-session.schema';
+import { WebhookEvent } from '../../common/schemas/webhook-subscription.schema';
+import { StorageService } from '../storage/storage.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { messageWebhookPayload } from '../webhooks/webhook-payloads';
+import { RealtimeEventType, RealtimeService } from '../realtime/realtime.service';
+import { EntityScope, entityScopeFilter } from '../auth/entity-scope';
+import { WhatsAppService } from './whatsapp.service';
+import { CloudApiTransport } from './transports/cloud-api.transport';
+import { WhatsAppTransport, WhatsAppTransportMessage } from './transports/whatsapp-transport.interface';
+
+/**
+ * Worker for the Mongo-backed outbound queue.
+ *
+ * Outbound messages are stored as PENDING by WhatsAppService. Each tick the
+ * worker claims due messages per connected session (atomic lock with a
+ * timeout so crashed workers release them), sends within the session's rate
+ * limit, retries with exponential backoff and dead-letters after maxAttempts.
+ */
+@Injectable()
+export class OutboundQueueService {
+  private readonly logger = new Logger(OutboundQueueService.name);
+  private readonly workerId = `${os.hostname()}:${process.pid}`;
+  private readonly RATE_WINDOW_MS = 60 * 1000;
+  private processing = false;
+
+  constructor(
+    @InjectModel(Message.name)
+    private messageModel: Model<Message>,
+    @InjectModel(WhatsAppSession.name)
+    private sessionModel: Model<WhatsAppSession>,
+    private configService: ConfigService,
+    private whatsappService: WhatsAppService,
+    private storageService: StorageService,
+    private webhooksService: WebhooksService,
+    private realtimeService: RealtimeService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_5_SECONDS)
+  async processQueue() {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      const sessionIds: string[] = await this.messageModel.distinct('sessionId', {
+        direction: MessageDirection.OUTBOUND,
+        status: MessageStatus.PENDING,
+        nextAttemptAt: { $lte: new Date() },
+      });
+
+      const liveSessionIds: string[] = await this.sessionModel.distinct('sessionId', {
+        sessionId: { $in: sessionIds },
+        isActive: true,
+      });
+
+      for (const sessionId of sessionIds) {
+        if (!liveSessionIds.includes(sessionId)) {
+          await this.deadLetterOrphaned(sessionId);
+          continue;
+        }
+
+        // Messages wait in the queue until their session is connected again
+        if (!this.whatsappService.getTransport(sessionId)) continue;
+
+        try {
+          await this.drainSession(sessionId);
+        } catch (error) {
+          this.logger.error(`Failed to process queue for session ${sessionId}: ${error.message}`, error);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Failed to process outbound queue: ${error.message}`, error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * List dead-lettered messages, optionally scoped to an entity subtree
+   */
+  async getDeadLetters(scope: EntityScope, filters: { sessionId?: string; page?: number; limit?: number } = {}) {
+    const { page = 1, limit = 20 } = filters;
+    const query: any = {
+      direction: MessageDirection.OUTBOUND,
+      deadLetteredAt: { $ne: null },
+      status: MessageStatus.FAILED,
+      ...entityScopeFilter(scope),
+    };
+
+    if (filters.sessionId) query.sessionId = filters.sessionId;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const [messages, total] = await Promise.all([
+      this.messageModel.find(query).select('-outbound').sort({ deadLetteredAt: -1 }).skip(skip).limit(Number(limit)).exec(),
+      this.messageModel.countDocuments(query),
+    ]);
+
+    return {
+      messages,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit)),
+      },
+    };
+  }
+
+  /**
+   * Put a dead-lettered message back on the queue with a fresh retry budget
+   */
+  async requeue(messageId: string, scope: EntityScope): Promise<Message> {
+    const query: any = {
+      _id: new Types.ObjectId(messageId),
+      direction: MessageDirection.OUTBOUND,
+      deadLetteredAt: { $ne: null },
+      ...entityScopeFilter(scope),
+    };
+
+    const message = await this.messageModel.findOneAndUpdate(
+      query,
+      {
+        status: MessageStatus.PENDING,
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        deadLetteredAt: null,
+        failedAt: null,
+        failureReason: null,
+        lastError: null,
+      },
+      { new: true },
+    );
+
+    if (!message) {
+      throw new NotFoundException('Dead-lettered message not found');
+    }
+
+    this.logger.log(`Requeued dead-lettered message ${messageId}`);
+    return message;
+  }
+
+  private async drainSession(sessionId: string): Promise<void> {
+    let budget = await this.getRemainingBudget(sessionId);
+
+    while (budget > 0) {
+      const message = await this.claimNext(sessionId);
+      if (!message) break;
+
+      await this.deliver(message);
+      budget--;
+    }
+  }
+
+  private async getRemainingBudget(sessionId: string): Promise<number> {
+    const limit = this.configService.get<number>('whatsapp.queue.sessionRatePerMinute');
+    const sentInWindow = await this.messageModel.countDocuments({
+      sessionId,
+      direction: MessageDirection.OUTBOUND,
+      sentAt: { $gte: new Date(Date.now() - this.RATE_WINDOW_MS) },
+    });
+
+    return limit - sentInWindow;
+  }
+
+  private async claimNext(sessionId: string): Promise<Message | null> {
+    const now = new Date();
+    const lockTimeoutMs = this.configService.get<number>('whatsapp.queue.lockTimeoutMs');
+
+    return this.messageModel.findOneAndUpdate(
+      {
+        sessionId,
+        direction: MessageDirection.OUTBOUND,
+        status: MessageStatus.PENDING,
+        nextAttemptAt: { $lte: now },
+        $or: [
+          { lockedAt: null },
+          { lockedAt: { $lt: new Date(now.getTime() - lockTimeoutMs) } },
+        ],
+      },
+      { lockedBy: this.workerId, lockedAt: now },
+      { sort: { nextAttemptAt: 1, createdAt: 1 }, new: true },
+    );
+  }
+
+  private async deliver(message: Message): Promise<void> {
+    const untrack = this.whatsappService.trackQueuedSend(message.sessionId, message.to, message.outbound);
+
+    try {
+      const transport = this.whatsappService.getTransport(message.sessionId);
+      if (!transport) {
+        throw new Error(`No active client for session: ${message.sessionId}`);
+      }
+
+      const sent = await this.send(transport, message.to, message.outbound);
+      const whatsappMessageId = sent.id._serialized;
+
+      const sentMessage = await this.messageModel.findOneAndUpdate(
+        { _id: message._id },
+        {
+          whatsappMessageId,
+          status: MessageStatus.SENT,
+          sentAt: new Date(),
+          $inc: { attempts: 1 },
+          lockedBy: null,
+          lockedAt: null,
+          lastError: null,
+        },
+        { new: true },
+      );
+
+      await this.sessionModel.findOneAndUpdate(
+        { sessionId: message.sessionId },
+        {
+          $inc: { messagesSent: 1 },
+          lastActivityAt: new Date(),
+        },
+      );
+
+      await this.webhooksService.emit(WebhookEvent.MESSAGE_SENT, sentMessage.tenantId, messageWebhookPayload(sentMessage));
+      this.realtimeService.publish(RealtimeEventType.MESSAGE_STATUS, sentMessage, messageWebhookPayload(sentMessage));
+
+      this.logger.log(`Message sent successfully: ${whatsappMessageId}`);
+    } catch (error) {
+      await this.handleFailure(message, error);
+    } finally {
+      untrack();
+    }
+  }
+
+  private async send(
+    transport: WhatsAppTransport,
+    to: string,
+    payload: OutboundMessagePayload,
+  ): Promise<WhatsAppTransportMessage> {
+    switch (payload?.kind) {
+      case 'text':
+        return transport.sendMessage(to, payload.text);
+      case 'media': {
+        const file = await this.storageService.downloadFile(payload.mediaKey);
+        return transport.sendMessage(
+          to,
+          { mimetype: payload.mimetype, data: file.buffer.toString('base64'), filename: payload.filename },
+          { caption: payload.caption },
+        );
+      }
+      case 'template':
+        if (!(transport instanceof CloudApiTransport)) {
+          throw new Error('Templates can only be sent through the Cloud API transport');
+        }
+        return transport.sendTemplate(to, payload.templateName, payload.languageCode, payload.components);
+      default:
+        throw new Error(`Unsupported outbound payload: ${payload?.kind}`);
+    }
+  }
+
+  private async handleFailure(message: Message, error: Error): Promise<void> {
+    const attempts = (message.attempts || 0) + 1;
+    const maxAttempts = this.configService.get<number>('whatsapp.queue.maxAttempts');
+
+    if (attempts >= maxAttempts) {
+      await this.deadLetter(message, attempts, error.message);
+      this.logger.error(`Message ${message._id} dead-lettered after ${attempts} attempts: ${error.message}`);
+      return;
+    }
+
+    const baseDelay = this.configService.get<number>('whatsapp.queue.retryBaseDelayMs');
+    const maxDelay = this.configService.get<number>('whatsapp.queue.retryMaxDelayMs');
+    const delay = Math.min(baseDelay * Math.pow(2, attempts - 1), maxDelay);
+
+    await this.messageModel.updateOne(
+      { _id: message._id },
+      {
+        attempts,
+        nextAttemptAt: new Date(Date.now() + delay),
+        lastError: error.message,
+        lockedBy: null,
+        lockedAt: null,
+      },
+    );
+
+    this.logger.warn(`Message ${message._id} failed (attempt ${attempts}/${maxAttempts}), retrying in ${delay}ms: ${error.message}`);
+  }
+
+  // Nothing can send for a session that was removed, so its queue is dead-lettered right away
+  private async deadLetterOrphaned(sessionId: string): Promise<void> {
+    const reason = `Session ${sessionId} no longer exists`;
+    const messages = await this.messageModel.find({
+      sessionId,
+      direction: MessageDirection.OUTBOUND,
+      status: MessageStatus.PENDING,
+    });
+
+    for (const message of messages) {
+      await this.deadLetter(message, message.attempts || 0, reason);
+    }
+    if (messages.length) {
+      this.logger.warn(`Dead-lettered ${messages.length} queued messages: ${reason}`);
+    }
+  }
+
+  private async deadLetter(message: Message, attempts: number, reason: string): Promise<void> {
+    const deadLettered = await this.messageModel.findOneAndUpdate(
+      { _id: message._id },
+      {
+        status: MessageStatus.FAILED,
+        attempts,
+        failedAt: new Date(),
+        failureReason: reason,
+        lastError: reason,
+        deadLetteredAt: new Date(),
+        lockedBy: null,
+        lockedAt: null,
+      },
+      { new: true },
+    );
+
+    await this.sessionModel.findOneAndUpdate(
+      { sessionId: message.sessionId },
+      { $inc: { messagesFailed: 1 } },
+    );
+
+    await this.webhooksService.emit(WebhookEvent.MESSAGE_STATUS_CHANGED, deadLettered.tenantId, messageWebhookPayload(deadLettered));
+    this.realtimeService.publish(RealtimeEventType.MESSAGE_STATUS, deadLettered, messageWebhookPayload(deadLettered));
+  }
+}
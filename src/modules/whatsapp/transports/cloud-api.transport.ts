@@ -0,0 +1,329 @@
+import { EventEmitter } from 'events';
+import {
+  WhatsAppTemplateComponent,
+  WhatsAppTransport,
+  WhatsAppTransportDriver,
+  WhatsAppTransportInfo,
+  WhatsAppTransportMedia,
+  WhatsAppTransportMessage,
+  WhatsAppTransportSendOptions,
+} from './whatsapp-transport.interface';
+
+export interface CloudApiTransportOptions {
+  apiUrl: string;
+  accessToken: string;
+  phoneNumberId: string;
+}
+
+export interface CloudWebhookMedia {
+  id: string;
+  mime_type: string;
+  caption?: string;
+  filename?: string;
+}
+
+export interface CloudWebhookMessage {
+  id: string;
+  from: string;
+  timestamp: string;
+  type: string;
+  text?: { body: string };
+  image?: CloudWebhookMedia;
+  video?: CloudWebhookMedia;
+  audio?: CloudWebhookMedia;
+  document?: CloudWebhookMedia;
+  sticker?: CloudWebhookMedia;
+  location?: { latitude: number; longitude: number; name?: string; address?: string };
+  button?: { text: string; payload: string };
+  interactive?: Record<string, any>;
+  context?: { id: string; from: string; forwarded?: boolean; frequently_forwarded?: boolean };
+}
+
+export interface CloudWebhookStatus {
+  id: string;
+  status: 'sent' | 'delivered' | 'read' | 'failed';
+  timestamp: string;
+  recipient_id: string;
+  errors?: { code: number; title: string; message?: string }[];
+}
+
+export interface CloudWebhookValue {
+  messaging_product: string;
+  metadata: { display_phone_number: string; phone_number_id: string };
+  contacts?: { wa_id: string; profile?: { name?: string } }[];
+  messages?: CloudWebhookMessage[];
+  statuses?: CloudWebhookStatus[];
+}
+
+export interface CloudWebhookPayload {
+  object: string;
+  entry: {
+    id: string;
+    changes: { field: string; value: CloudWebhookValue }[];
+  }[];
+}
+
+const MEDIA_TYPES = ['image', 'video', 'audio', 'document', 'sticker'];
+
+// Cloud API status -> whatsapp-web.js ack level
+const STATUS_ACK: Record<CloudWebhookStatus['status'], number> = {
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  failed: -1,
+};
+
+/**
+ * Transport backed by the official WhatsApp Business Cloud API.
+ *
+ * Outbound messages go through the Graph API. Inbound messages and delivery
+ * statuses arrive through the webhook and are replayed into this transport
+ * with handleWebhookValue() so they follow the same pipeline as the web client.
+ */
+export class CloudApiTransport extends EventEmitter implements WhatsAppTransport {
+  readonly driver = WhatsAppTransportDriver.CLOUD;
+  private info: WhatsAppTransportInfo | null = null;
+
+  constructor(
+    readonly sessionId: string,
+    private readonly options: CloudApiTransportOptions,
+  ) {
+    super();
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.options.accessToken || !this.options.phoneNumberId) {
+      throw new Error('WhatsApp Cloud API access token and phone number ID are required');
+    }
+
+    // Official numbers need no QR scan - validate the number and go straight to ready
+    const phone = await this.request<{ display_phone_number: string; verified_name: string }>(
+      `${this.options.phoneNumberId}?fields=display_phone_number,verified_name`,
+    );
+    const phoneNumber = phone.display_phone_number.replace(/\D/g, '');
+
+    this.info = {
+      phoneNumber,
+      pushname: phone.verified_name,
+      whatsappId: `${phoneNumber}@c.us`,
+    };
+
+    this.emit('authenticated');
+    this.emit('ready');
+  }
+
+  getInfo(): WhatsAppTransportInfo | null {
+    return this.info;
+  }
+
+  async sendMessage(
+    to: string,
+    content: string | WhatsAppTransportMedia,
+    options: WhatsAppTransportSendOptions = {},
+  ): Promise<WhatsAppTransportMessage> {
+    if (typeof content === 'string') {
+      const id = await this.postMessage(to, {
+        type: 'text',
+        text: { body: content, preview_url: false },
+      });
+      return this.toOutgoingMessage(id, to, content, 'chat');
+    }
+
+    const kind = this.getMediaKind(content.mimetype);
+    const mediaId = await this.uploadMedia(content);
+    const mediaPayload: Record<string, any> = { id: mediaId };
+    if (kind !== 'audio' && options.caption) mediaPayload.caption = options.caption;
+    if (kind === 'document' && content.filename) mediaPayload.filename = content.filename;
+
+    const id = await this.postMessage(to, { type: kind, [kind]: mediaPayload });
+    return this.toOutgoingMessage(id, to, options.caption || '', kind, content);
+  }
+
+  /**
+   * Send a pre-approved message template
+   */
+  async sendTemplate(
+    to: string,
+    templateName: string,
+    languageCode: string,
+    components: WhatsAppTemplateComponent[] = [],
+  ): Promise<WhatsAppTransportMessage> {
+    const id = await this.postMessage(to, {
+      type: 'template',
+      template: {
+        name: templateName,
+        language: { code: languageCode },
+        components,
+      },
+    });
+    return this.toOutgoingMessage(id, to, '', 'chat');
+  }
+
+  async logout(): Promise<void> {
+    // Official numbers stay registered with Meta; nothing to tear down remotely
+    this.info = null;
+  }
+
+  async destroy(): Promise<void> {
+    this.info = null;
+    this.removeAllListeners();
+  }
+
+  /**
+   * Replay a webhook change value (messages and statuses) into the transport
+   */
+  handleWebhookValue(value: CloudWebhookValue): void {
+    for (const message of value.messages || []) {
+      const contact = value.contacts?.find(c => c.wa_id === message.from);
+      this.emit('message', this.toIncomingMessage(message, contact?.profile?.name));
+    }
+
+    for (const status of value.statuses || []) {
+      const ack = STATUS_ACK[status.status];
+      if (ack === undefined) continue;
+
+      const error = status.errors?.[0];
+      const failureReason = error ? `${error.code}: ${error.message || error.title}` : undefined;
+      this.emit('message_ack', this.toOutgoingMessage(status.id, status.recipient_id, '', 'chat'), ack, failureReason);
+    }
+  }
+
+  private toIncomingMessage(message: CloudWebhookMessage, contactName?: string): WhatsAppTransportMessage {
+    const media: CloudWebhookMedia = MEDIA_TYPES.includes(message.type) ? message[message.type] : null;
+    const context = message.context;
+
+    return {
+      id: { _serialized: message.id },
+      from: `${message.from}@c.us`,
+      to: this.info?.whatsappId || this.options.phoneNumberId,
+      body: this.extractBody(message),
+      type: this.toWebType(message.type),
+      timestamp: parseInt(message.timestamp, 10),
+      fromMe: false,
+      hasMedia: !!media,
+      hasQuotedMsg: !!context?.id,
+      isForwarded: !!(context?.forwarded || context?.frequently_forwarded),
+      isStarred: false,
+      caption: media?.caption,
+      downloadMedia: async () => (media ? this.downloadMedia(media) : null),
+      getQuotedMessage: async () => ({
+        ...this.toOutgoingMessage(context.id, '', '', 'chat'),
+        from: `${context.from}@c.us`,
+        fromMe: false,
+      }),
+      getContact: async () => ({
+        pushname: contactName,
+        number: message.from,
+      }),
+    };
+  }
+
+  private toOutgoingMessage(
+    id: string,
+    to: string,
+    body: string,
+    type: string,
+    media?: WhatsAppTransportMedia,
+  ): WhatsAppTransportMessage {
+    return {
+      id: { _serialized: id },
+      from: this.info?.whatsappId || this.options.phoneNumberId,
+      to,
+      body,
+      type,
+      timestamp: Math.floor(Date.now() / 1000),
+      fromMe: true,
+      hasMedia: !!media,
+      downloadMedia: async () => media || null,
+    };
+  }
+
+  private extractBody(message: CloudWebhookMessage): string {
+    if (message.text) return message.text.body;
+    if (message.button) return message.button.text;
+    if (message.location) {
+      return [message.location.name, message.location.address, `${message.location.latitude},${message.location.longitude}`]
+        .filter(Boolean)
+        .join(' - ');
+    }
+    return message[message.type]?.caption || '';
+  }
+
+  private toWebType(type: string): string {
+    if (type === 'text' || type === 'button' || type === 'interactive') return 'chat';
+    if (type === 'contacts') return 'vcard';
+    return type;
+  }
+
+  private getMediaKind(mimetype: string): 'image' | 'video' | 'audio' | 'document' {
+    const [kind] = mimetype.split('/');
+    return kind === 'image' || kind === 'video' || kind === 'audio' ? kind : 'document';
+  }
+
+  private async postMessage(to: string, payload: Record<string, any>): Promise<string> {
+    const response = await this.request<{ messages: { id: string }[] }>(`${this.options.phoneNumberId}/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to: to.replace(/@.*$/, '').replace(/\D/g, ''),
+        ...payload,
+      }),
+    });
+
+    return response.messages[0].id;
+  }
+
+  private async uploadMedia(media: WhatsAppTransportMedia): Promise<string> {
+    const form = new FormData();
+    form.append('messaging_product', 'whatsapp');
+    form.append('type', media.mimetype);
+    form.append(
+      'file',
+      new Blob([Buffer.from(media.data, 'base64')], { type: media.mimetype }),
+      media.filename || `upload.${media.mimetype.split('/')[1]}`,
+    );
+
+    const response = await this.request<{ id: string }>(`${this.options.phoneNumberId}/media`, {
+      method: 'POST',
+      body: form,
+    });
+
+    return response.id;
+  }
+
+  private async downloadMedia(media: CloudWebhookMedia): Promise<WhatsAppTransportMedia> {
+    const meta = await this.request<{ url: string; mime_type: string }>(media.id);
+    const response = await fetch(meta.url, {
+      headers: { Authorization: `Bearer ${this.options.accessToken}` },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to download media ${media.id}: ${response.status}`);
+    }
+
+    return {
+      mimetype: (meta.mime_type || media.mime_type).split(';')[0],
+      data: Buffer.from(await response.arrayBuffer()).toString('base64'),
+      filename: media.filename,
+    };
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${this.options.apiUrl}/${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${this.options.accessToken}`,
+        ...(init.headers as Record<string, string>),
+      },
+    });
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`WhatsApp Cloud API error (${response.status}): ${body?.error?.message || response.statusText}`);
+    }
+
+    return body as T;
+  }
+}
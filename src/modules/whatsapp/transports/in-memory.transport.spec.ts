@@ -0,0 +1,222 @@
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { Message, MessageDirection, MessageStatus } from '../../../common/schemas/message.schema';
+import { User } from '../../../common/schemas/user.schema';
+import { SessionStatus, WhatsAppSession, WhatsAppTransportDriver } from '../../../common/schemas/whatsapp-session.schema';
+import { TenantLimitsService } from '../../../common/services/tenant-limits.service';
+import { ComplianceService } from '../../compliance/compliance.service';
+import { EntitiesService } from '../../entities/entities.service';
+import { RealtimeService } from '../../realtime/realtime.service';
+import { WebhooksService } from '../../webhooks/webhooks.service';
+import { OutboundQueueService } from '../outbound-queue.service';
+import { WhatsAppService } from '../whatsapp.service';
+import { InMemoryTransport } from './in-memory.transport';
+import { WhatsAppTransportFactory } from './whatsapp-transport.factory';
+
+type Doc = Record<string, any>;
+
+const isOperatorObject = (value: unknown) =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && Object.keys(value).some((key) => key.startsWith('$'));
+
+// ObjectIds and Dates compare by value, null matches a missing field
+const comparable = (value: any) => (value instanceof Date ? value.getTime() : value?.toString());
+const equals = (value: any, expected: any) =>
+  expected === null ? value === null || value === undefined : comparable(value) === comparable(expected);
+
+function matchesCondition(value: any, condition: any): boolean {
+  if (!isOperatorObject(condition)) {
+    return Array.isArray(value) ? value.some((item) => equals(item, condition)) : equals(value, condition);
+  }
+
+  return Object.entries(condition).every(([operator, operand]: [string, any]) => {
+    switch (operator) {
+      case '$in':
+        return operand.some((expected: any) => matchesCondition(value, expected));
+      case '$all':
+        return operand.every((expected: any) => matchesCondition(value, expected));
+      case '$ne':
+        return !matchesCondition(value, operand);
+      case '$lt':
+        return value != null && comparable(value) < comparable(operand);
+      case '$lte':
+        return value != null && comparable(value) <= comparable(operand);
+      case '$gte':
+        return value != null && comparable(value) >= comparable(operand);
+      default:
+        throw new Error(`Unsupported operator in fake model: ${operator}`);
+    }
+  });
+}
+
+function matches(doc: Doc, filter: Doc): boolean {
+  return Object.entries(filter).every(([field, condition]) =>
+    field === '$or' ? condition.some((branch: Doc) => matches(doc, branch)) : matchesCondition(doc[field], condition),
+  );
+}
+
+function applyUpdate(doc: Doc, update: Doc): void {
+  for (const [field, value] of Object.entries(update)) {
+    if (field === '$inc') {
+      for (const [counter, by] of Object.entries(value as Record<string, number>)) doc[counter] = (doc[counter] || 0) + by;
+    } else if (field === '$unset') {
+      for (const unset of Object.keys(value)) delete doc[unset];
+    } else if (field === '$set') {
+      Object.assign(doc, value);
+    } else {
+      doc[field] = value;
+    }
+  }
+}
+
+// Thenable stand-in for a mongoose query, chainable like findOne(...).select(...)
+function fakeQuery<T>(result: T) {
+  const query: any = {
+    then: (resolve: (value: T) => unknown, reject: (reason: unknown) => unknown) =>
+      Promise.resolve(result).then(resolve, reject),
+  };
+  for (const method of ['select', 'sort', 'lean', 'populate']) {
+    query[method] = jest.fn(() => query);
+  }
+  return query;
+}
+
+/**
+ * In-process collection covering the model calls the session flow makes.
+ * Returned documents are snapshots, like the ones mongoose hands out.
+ */
+function fakeModel(defaults: Doc = {}) {
+  const docs: Doc[] = [];
+  const snapshot = (doc: Doc | undefined) => (doc ? { ...doc, toObject: () => ({ ...doc }) } : null);
+
+  return {
+    docs,
+    create: jest.fn(async (data: Doc) => {
+      const doc = { _id: new Types.ObjectId(), createdAt: new Date(), ...defaults, ...data };
+      docs.push(doc);
+      return snapshot(doc);
+    }),
+    findOne: jest.fn((filter: Doc) => fakeQuery(snapshot(docs.find((doc) => matches(doc, filter))))),
+    findOneAndUpdate: jest.fn(async (filter: Doc, update: Doc, options: { new?: boolean } = {}) => {
+      const doc = docs.find((candidate) => matches(candidate, filter));
+      if (!doc) return null;
+
+      const previous = snapshot(doc);
+      applyUpdate(doc, update);
+      return options.new ? snapshot(doc) : previous;
+    }),
+    countDocuments: jest.fn(async (filter: Doc) => docs.filter((doc) => matches(doc, filter)).length),
+    distinct: jest.fn(async (field: string, filter: Doc) => [
+      ...new Set(docs.filter((doc) => matches(doc, filter)).map((doc) => doc[field])),
+    ]),
+  };
+}
+
+// Transport events such as messages and acks are not awaited by the transport
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  expect(condition()).toBe(true);
+}
+
+describe('InMemoryTransport session flow', () => {
+  const tenantId = new Types.ObjectId().toString();
+  const deptA = new Types.ObjectId().toString();
+  const userId = new Types.ObjectId().toString();
+  const entity = { _id: new Types.ObjectId(deptA), entityIdPath: [new Types.ObjectId(tenantId), new Types.ObjectId(deptA)] };
+  const config: Record<string, unknown> = {
+    'app.nodeEnv': 'test',
+    'whatsapp.transport': WhatsAppTransportDriver.WEB,
+    'whatsapp.memory.autoReady': false,
+    'whatsapp.queue.sessionRatePerMinute': 20,
+    'whatsapp.queue.lockTimeoutMs': 60000,
+  };
+
+  let service: WhatsAppService;
+  let queue: OutboundQueueService;
+  let sessionModel: ReturnType<typeof fakeModel>;
+  let messageModel: ReturnType<typeof fakeModel>;
+
+  const session = () => sessionModel.docs.find((doc) => doc.sessionId === 'memory-1');
+
+  beforeEach(async () => {
+    sessionModel = fakeModel({ isActive: true });
+    messageModel = fakeModel({ isActive: true });
+
+    const module = await Test.createTestingModule({
+      providers: [
+        WhatsAppService,
+        OutboundQueueService,
+        WhatsAppTransportFactory,
+        { provide: getModelToken(WhatsAppSession.name), useValue: sessionModel },
+        { provide: getModelToken(Message.name), useValue: messageModel },
+        { provide: getModelToken(User.name), useValue: { findOne: jest.fn(() => fakeQuery(null)) } },
+        { provide: ConfigService, useValue: { get: (key: string) => config[key] } },
+        { provide: EntitiesService, useValue: { findOne: jest.fn().mockResolvedValue(entity) } },
+        { provide: TenantLimitsService, useValue: { assertCanAddSession: jest.fn() } },
+        { provide: ComplianceService, useValue: { evaluateMessage: jest.fn() } },
+        { provide: WebhooksService, useValue: { emit: jest.fn() } },
+        { provide: RealtimeService, useValue: { publish: jest.fn() } },
+      ],
+    })
+      .useMocker(() => ({}))
+      .compile();
+
+    service = module.get(WhatsAppService);
+    queue = module.get(OutboundQueueService);
+  });
+
+  it('drives qr, ready, inbound, outbound and ack through the service', async () => {
+    // qr
+    await service.createSession('memory-1', new Types.ObjectId(userId), userId, deptA, tenantId, {
+      transport: WhatsAppTransportDriver.MEMORY,
+    });
+
+    const transport = service.getTransport('memory-1') as InMemoryTransport;
+    expect(transport).toBeInstanceOf(InMemoryTransport);
+    expect(session()).toMatchObject({ status: SessionStatus.QR_REQUIRED, transport: WhatsAppTransportDriver.MEMORY });
+    expect(session().qrCode).toEqual(expect.any(String));
+
+    // ready
+    await transport.emitReady({ phoneNumber: '15550000000', pushname: 'Support' });
+
+    expect(session()).toMatchObject({ status: SessionStatus.READY, phoneNumber: '15550000000', qrCode: null });
+
+    // inbound message
+    transport.emitMessage({ from: '15551112222@c.us', body: 'Hello', contactName: 'Ada' });
+    await waitFor(() => session().messagesReceived === 1);
+
+    expect(messageModel.docs).toHaveLength(1);
+    expect(messageModel.docs[0]).toMatchObject({
+      direction: MessageDirection.INBOUND,
+      content: 'Hello',
+      status: MessageStatus.DELIVERED,
+      isExternalNumber: true,
+      externalSenderName: 'Ada',
+      tenantId: new Types.ObjectId(tenantId),
+      entityIdPath: entity.entityIdPath,
+    });
+
+    // outbound send, queued and then delivered by the worker
+    const queued = await service.sendMessage('memory-1', '15551112222@c.us', 'Hi Ada', userId);
+    expect(queued.status).toBe(MessageStatus.PENDING);
+    expect(transport.sentMessages).toHaveLength(0);
+
+    await queue.processQueue();
+
+    expect(transport.sentMessages).toHaveLength(1);
+    const [sent] = transport.sentMessages;
+    expect(sent).toMatchObject({ to: '15551112222@c.us', body: 'Hi Ada', fromMe: true });
+    const outbound = messageModel.docs.find((doc) => doc._id.equals(queued._id));
+    expect(outbound).toMatchObject({ status: MessageStatus.SENT, whatsappMessageId: sent.id._serialized, attempts: 1 });
+    expect(session().messagesSent).toBe(1);
+
+    // ack
+    transport.emitAck(sent.id._serialized, 2);
+    await waitFor(() => session().messagesDelivered === 1);
+
+    expect(outbound).toMatchObject({ status: MessageStatus.DELIVERED, deliveredAt: expect.any(Date) });
+  });
+});
@@ -0,0 +1,199 @@
+import { EventEmitter } from 'events';
+import {
+  WhatsAppTransport,
+  WhatsAppTransportDriver,
+  WhatsAppTransportInfo,
+  WhatsAppTransportMedia,
+  WhatsAppTransportMessage,
+  WhatsAppTransportSendOptions,
+} from './whatsapp-transport.interface';
+
+export interface InMemoryMessageInput {
+  id?: string;
+  from: string;
+  to?: string;
+  body?: string;
+  type?: string;
+  timestamp?: number;
+  media?: WhatsAppTransportMedia;
+  caption?: string;
+  isForwarded?: boolean;
+  contactName?: string;
+  quotedMessage?: WhatsAppTransportMessage;
+}
+
+export interface InMemoryTransportOptions {
+  autoReady?: boolean;
+  info?: Partial<WhatsAppTransportInfo>;
+}
+
+/**
+ * Scriptable transport that never leaves the process.
+ *
+ * Used in CI and local development to drive the full session lifecycle
+ * (qr -> ready -> messages/acks -> disconnected) without Chrome or a phone.
+ * Grab the instance with WhatsAppService.getTransport() and call the emit*
+ * helpers to simulate what the WhatsApp network would do.
+ */
+export class InMemoryTransport extends EventEmitter implements WhatsAppTransport {
+  readonly driver = WhatsAppTransportDriver.MEMORY;
+  readonly sentMessages: WhatsAppTransportMessage[] = [];
+  private info: WhatsAppTransportInfo | null = null;
+  private sequence = 0;
+
+  constructor(
+    readonly sessionId: string,
+    private readonly options: InMemoryTransportOptions = {},
+  ) {
+    super();
+  }
+
+  async initialize(): Promise<void> {
+    await this.emitQr();
+
+    if (this.options.autoReady) {
+      await this.emitReady(this.options.info);
+    }
+  }
+
+  getInfo(): WhatsAppTransportInfo | null {
+    return this.info;
+  }
+
+  /**
+   * Record an outbound message. Unlike the web client this does not echo a
+   * message_create event; use emitOutgoingMessage() to simulate a message
+   * typed on the phone itself.
+   */
+  async sendMessage(
+    to: string,
+    content: string | WhatsAppTransportMedia,
+    options: WhatsAppTransportSendOptions = {},
+  ): Promise<WhatsAppTransportMessage> {
+    if (!this.info) {
+      throw new Error(`In-memory transport for session ${this.sessionId} is not ready`);
+    }
+
+    const isText = typeof content === 'string';
+    const message = this.createMessage(
+      {
+        from: this.info.whatsappId,
+        to,
+        body: isText ? content : options.caption || '',
+        type: isText ? 'chat' : content.mimetype.split('/')[0],
+        media: isText ? undefined : content,
+        caption: options.caption,
+      },
+      true,
+    );
+
+    this.sentMessages.push(message);
+    return message;
+  }
+
+  async logout(): Promise<void> {
+    this.info = null;
+  }
+
+  async destroy(): Promise<void> {
+    this.info = null;
+    this.removeAllListeners();
+  }
+
+  async emitQr(qr?: string): Promise<void> {
+    await this.emitAndWait('qr', qr || `memory-qr:${this.sessionId}:${Date.now()}`);
+  }
+
+  /**
+   * Simulate a successful login. The ready handlers only run once the
+   * authenticated ones have finished, so status updates land in order.
+   */
+  async emitReady(info: Partial<WhatsAppTransportInfo> = {}): Promise<void> {
+    const phoneNumber = info.phoneNumber || this.options.info?.phoneNumber || '10000000000';
+    this.info = {
+      phoneNumber,
+      pushname: info.pushname || this.options.info?.pushname || 'In-Memory Session',
+      whatsappId: info.whatsappId || `${phoneNumber}@c.us`,
+    };
+
+    await this.emitAndWait('authenticated');
+    await this.emitAndWait('ready');
+  }
+
+  emitAuthFailure(reason: string = 'Simulated authentication failure'): void {
+    this.emit('auth_failure', reason);
+  }
+
+  emitDisconnected(reason: string = 'LOGOUT'): void {
+    this.info = null;
+    this.emit('disconnected', reason);
+  }
+
+  /**
+   * Simulate a message received from a contact
+   */
+  emitMessage(input: InMemoryMessageInput): WhatsAppTransportMessage {
+    const message = this.createMessage(
+      { to: this.info?.whatsappId || `${this.sessionId}@c.us`, ...input },
+      false,
+    );
+    this.emit('message', message);
+    this.emit('message_create', message);
+    return message;
+  }
+
+  /**
+   * Simulate a message sent from the linked phone
+   */
+  emitOutgoingMessage(input: Omit<InMemoryMessageInput, 'from'> & { to: string }): WhatsAppTransportMessage {
+    const message = this.createMessage(
+      { from: this.info?.whatsappId || `${this.sessionId}@c.us`, ...input },
+      true,
+    );
+    this.emit('message_create', message);
+    return message;
+  }
+
+  /**
+   * Simulate a delivery receipt (-1 failed, 0 pending, 1 sent, 2 delivered, 3 read)
+   */
+  emitAck(messageId: string, ack: number): void {
+    const message = this.sentMessages.find(m => m.id._serialized === messageId)
+      || this.createMessage({ id: messageId, from: this.info?.whatsappId || '', to: '' }, true);
+    this.emit('message_ack', message, ack);
+  }
+
+  // Listeners are async on the service side; emit() alone would not wait for them
+  private async emitAndWait(event: string, ...args: any[]): Promise<void> {
+    await Promise.all(this.listeners(event).map((listener) => listener(...args)));
+  }
+
+  private createMessage(input: InMemoryMessageInput, fromMe: boolean): WhatsAppTransportMessage {
+    this.sequence += 1;
+    const chatId = fromMe ? input.to : input.from;
+    const id = input.id || `${fromMe}_${chatId}_MEM${Date.now()}${this.sequence}`;
+    const media = input.media || null;
+    const quoted = input.quotedMessage;
+
+    return {
+      id: { _serialized: id },
+      from: input.from,
+      to: input.to,
+      body: input.body || '',
+      type: input.type || (media ? media.mimetype.split('/')[0] : 'chat'),
+      timestamp: input.timestamp || Math.floor(Date.now() / 1000),
+      fromMe,
+      hasMedia: !!media,
+      hasQuotedMsg: !!quoted,
+      isForwarded: input.isForwarded || false,
+      isStarred: false,
+      caption: input.caption,
+      downloadMedia: async () => media,
+      getQuotedMessage: async () => quoted,
+      getContact: async () => ({
+        pushname: input.contactName,
+        number: input.from.split('@')[0],
+      }),
+    };
+  }
+}
@@ -0,0 +1,185 @@
+import { Logger } from '@nestjs/common';
+import { Client, LocalAuth, MessageMedia } from 'whatsapp-web.js';
+import * as os from 'os';
+import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
+import {
+  WhatsAppTransport,
+  WhatsAppTransportDriver,
+  WhatsAppTransportEvent,
+  WhatsAppTransportInfo,
+  WhatsAppTransportMedia,
+  WhatsAppTransportMessage,
+  WhatsAppTransportSendOptions,
+} from './whatsapp-transport.interface';
+
+/**
+ * Transport backed by whatsapp-web.js running a headless Chrome via puppeteer
+ */
+export class WebClientTransport implements WhatsAppTransport {
+  readonly driver = WhatsAppTransportDriver.WEB;
+  private readonly logger = new Logger(WebClientTransport.name);
+  private client: Client;
+
+  constructor(readonly sessionId: string) {}
+
+  on(event: WhatsAppTransportEvent, listener: (...args: any[]) => void): void {
+    this.getClient().on(event, listener);
+  }
+
+  async initialize(): Promise<void> {
+    const client = this.getClient();
+    await this.cleanupStaleSession();
+    await client.initialize();
+  }
+
+  getInfo(): WhatsAppTransportInfo | null {
+    const info = this.client?.info;
+    if (!info) {
+      return null;
+    }
+
+    return {
+      phoneNumber: info.wid.user,
+      pushname: info.pushname,
+      whatsappId: info.wid._serialized,
+    };
+  }
+
+  async sendMessage(
+    to: string,
+    content: string | WhatsAppTransportMedia,
+    options: WhatsAppTransportSendOptions = {},
+  ): Promise<WhatsAppTransportMessage> {
+    if (typeof content === 'string') {
+      return (await this.getClient().sendMessage(to, content)) as unknown as WhatsAppTransportMessage;
+    }
+
+    const media = content instanceof MessageMedia
+      ? content
+      : new MessageMedia(content.mimetype, content.data, content.filename);
+
+    return (await this.getClient().sendMessage(to, media, { caption: options.caption })) as unknown as WhatsAppTransportMessage;
+  }
+
+  async logout(): Promise<void> {
+    await this.client?.logout();
+  }
+
+  async destroy(): Promise<void> {
+    if (this.client) {
+      await this.client.destroy();
+      this.client = null;
+    }
+
+    // Wait before trying to clean up files so Chrome releases its locks
+    await new Promise(resolve => setTimeout(resolve, 2000));
+    await this.removeSessionFiles();
+  }
+
+  /**
+   * Lazily create the underlying client so event handlers can be attached
+   * before initialize() is called.
+   */
+  private getClient(): Client {
+    if (!this.client) {
+      this.client = new Client({
+        authStrategy: new LocalAuth({
+          clientId: this.sessionId,
+          dataPath: `${process.cwd()}/.wwebjs_auth`,
+        }),
+        puppeteer: {
+          executablePath: this.detectChromePath(),
+          headless: true,
+          args: [
+            "--no-sandbox",
+            "--disable-setuid-sandbox",
+            "--disable-dev-shm-usage",
+            "--disable-accelerated-2d-canvas",
+            "--no-first-run",
+            "--no-zygote",
+            "--disable-gpu"
+          ],
+        },
+      });
+    }
+
+    return this.client;
+  }
+
+  /**
+   * Remove stale LocalAuth data left over from a previous run of this session
+   */
+  private async cleanupStaleSession(): Promise<void> {
+    try {
+      const sessionPath = this.getSessionPath();
+      if (fsSync.existsSync(sessionPath)) {
+        this.logger.log(`Cleaning up existing session files at: ${sessionPath}`);
+        await fs.rm(sessionPath, { recursive: true, force: true });
+        // Wait a bit to ensure files are released
+        await new Promise(resolve => setTimeout(resolve, 2000));
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to clean up existing session files: ${error.message}`);
+      // Continue anyway - the files might be locked but WhatsApp-web.js can handle it
+    }
+  }
+
+  private async removeSessionFiles(): Promise<void> {
+    try {
+      const sessionPath = this.getSessionPath();
+      if (fsSync.existsSync(sessionPath)) {
+        await fs.rm(sessionPath, { recursive: true, force: true });
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to clean up session files for ${this.sessionId}: ${error.message}`);
+    }
+  }
+
+  private getSessionPath(): string {
+    return `${process.cwd()}/.wwebjs_auth/session-${this.sessionId}`;
+  }
+
+  private detectChromePath(): string {
+    const platform = os.platform();
+    this.logger.log(`Detecting Chrome path for platform: ${platform}`);
+
+    const windowsPaths = [
+      "C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe",
+      "C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe",
+      process.env.CHROME_PATH, // Allow override via env var
+    ];
+
+    const linuxPaths = [
+      "/usr/bin/google-chrome",
+      "/usr/bin/chromium-browser",
+      "/usr/bin/chromium",
+      process.env.CHROME_PATH,
+    ];
+
+    const macPaths = [
+      "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
+      "/Applications/Chromium.app/Contents/MacOS/Chromium",
+      process.env.CHROME_PATH,
+    ];
+
+    const paths = platform === "win32" ? windowsPaths
+                : platform === "linux" ? linuxPaths
+                : platform === "darwin" ? macPaths
+                : [];
+
+    // Find first existing Chrome path
+    for (const path of paths) {
+      try {
+        if (path && fsSync.existsSync(path)) {
+          this.logger.log(`Found Chrome at: ${path}`);
+          return path;
+        }
+      } catch (error) {
+        this.logger.warn(`Error checking Chrome path ${path}: ${error.message}`);
+      }
+    }
+
+    throw new Error("Chrome not found. Please install Chrome or set CHROME_PATH environment variable.");
+  }
+}
@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { WhatsAppTransport, WhatsAppTransportDriver } from './whatsapp-transport.interface';
+import { WebClientTransport } from './web-client.transport';
+import { InMemoryTransport } from './in-memory.transport';
+import { CloudApiTransport } from './cloud-api.transport';
+
+export interface WhatsAppTransportCreateOptions {
+  cloudPhoneNumberId?: string;
+}
+
+@Injectable()
+export class WhatsAppTransportFactory {
+  constructor(private configService: ConfigService) {}
+
+  /**
+   * Driver used when a session does not ask for a specific one
+   */
+  getDefaultDriver(): WhatsAppTransportDriver {
+    return (this.configService.get<string>('whatsapp.transport') as WhatsAppTransportDriver) || WhatsAppTransportDriver.WEB;
+  }
+
+  create(
+    sessionId: string,
+    driver: WhatsAppTransportDriver = this.getDefaultDriver(),
+    options: WhatsAppTransportCreateOptions = {},
+  ): WhatsAppTransport {
+    switch (driver) {
+      case WhatsAppTransportDriver.WEB:
+        return new WebClientTransport(sessionId);
+      case WhatsAppTransportDriver.MEMORY:
+        return new InMemoryTransport(sessionId, {
+          autoReady: this.configService.get<boolean>('whatsapp.memory.autoReady'),
+        });
+      case WhatsAppTransportDriver.CLOUD:
+        if (!options.cloudPhoneNumberId) {
+          throw new Error(`Cloud API session ${sessionId} has no phone number ID`);
+        }
+        return new CloudApiTransport(sessionId, {
+          apiUrl: this.configService.get<string>('whatsapp.apiUrl'),
+          accessToken: this.configService.get<string>('whatsapp.accessToken'),
+          phoneNumberId: options.cloudPhoneNumberId,
+        });
+      default:
+        throw new Error(`Unsupported WhatsApp transport driver: ${driver}`);
+    }
+  }
+}
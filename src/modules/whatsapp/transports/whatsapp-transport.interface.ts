@@ -0,0 +1,95 @@
+import { WhatsAppTransportDriver } from '../../../common/schemas/whatsapp-session.schema';
+
+export { WhatsAppTransportDriver };
+
+/**
+ * Events emitted by every transport. Names match whatsapp-web.js so the
+ * puppeteer driver can forward them without translation.
+ */
+export type WhatsAppTransportEvent =
+  | 'qr'
+  | 'ready'
+  | 'authenticated'
+  | 'auth_failure'
+  | 'disconnected'
+  | 'message'
+  | 'message_create'
+  | 'message_ack';
+
+/**
+ * Account information available once a transport is ready
+ */
+export interface WhatsAppTransportInfo {
+  phoneNumber: string;
+  pushname: string;
+  whatsappId: string;
+}
+
+/**
+ * Media payload accepted by transports (base64 encoded).
+ * whatsapp-web.js MessageMedia satisfies this shape.
+ */
+export interface WhatsAppTransportMedia {
+  mimetype: string;
+  data: string;
+  filename?: string | null;
+}
+
+/**
+ * Message shape consumed by the ingestion pipeline.
+ * whatsapp-web.js Message satisfies this shape.
+ */
+export interface WhatsAppTransportMessage {
+  id: { _serialized: string };
+  from: string;
+  to: string;
+  body: string;
+  type: string;
+  timestamp: number;
+  fromMe: boolean;
+  hasMedia: boolean;
+  hasQuotedMsg?: boolean;
+  isForwarded?: boolean;
+  isStarred?: boolean;
+  caption?: string;
+  downloadMedia(): Promise<WhatsAppTransportMedia | null | undefined>;
+  getQuotedMessage?(): Promise<WhatsAppTransportMessage>;
+  getContact?(): Promise<{ pushname?: string; name?: string; shortName?: string; number?: string }>;
+}
+
+/**
+ * Parameters for one part (header, body, button) of a pre-approved
+ * template, in the Cloud API format
+ */
+export interface WhatsAppTemplateComponent {
+  type: string;
+  sub_type?: string;
+  index?: string;
+  parameters?: Record<string, any>[];
+}
+
+export interface WhatsAppTransportSendOptions {
+  caption?: string;
+}
+
+/**
+ * A connection to a single WhatsApp account.
+ *
+ * WhatsAppService owns one transport per session and only talks to the
+ * account through this interface.
+ */
+export interface WhatsAppTransport {
+  readonly sessionId: string;
+  readonly driver: WhatsAppTransportDriver;
+
+  on(event: WhatsAppTransportEvent, listener: (...args: any[]) => void): void;
+  initialize(): Promise<void>;
+  getInfo(): WhatsAppTransportInfo | null;
+  sendMessage(
+    to: string,
+    content: string | WhatsAppTransportMedia,
+    options?: WhatsAppTransportSendOptions,
+  ): Promise<WhatsAppTransportMessage>;
+  logout(): Promise<void>;
+  destroy(): Promise<void>;
+}
@@ -6,6 +6,10 @@ import { WhatsAppHealthCheck, HealthCheckStatus, HealthCheckType } from '../../c
 import { Alert, AlertType, AlertSeverity, AlertStatus } from '../../common/schemas/alert.schema';
 import { WhatsAppSession, SessionStatus } from '../../common/schemas/whatsapp-session.schema';
 import { User } from '../../common/schemas/user.schema';
+import { WebhookEvent } from '../../common/schemas/webhook-subscription.schema';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { alertWebhookPayload } from '../webhooks/webhook-payloads';
+import { EntityScope, entityScopeFilter } from '../auth/entity-scope';
 
 @Injectable()
 export class WhatsAppHealthCheckService {
@@ -22,6 +26,7 @@ export class WhatsAppHealthCheckService {
     private sessionModel: Model<WhatsAppSession>,
     @InjectModel(User.name)
     private userModel: Model<User>,
+    private webhooksService: WebhooksService,
   ) {}
 
   /**
@@ -293,6 +298,8 @@ export class WhatsAppHealthCheckService {
         alert.resolvedBy = 'system';
         alert.resolutionNotes = 'Health check succeeded - session recovered';
         await alert.save();
+
+        await this.webhooksService.emit(WebhookEvent.ALERT_RESOLVED, alert.tenantId, alertWebhookPayload(alert));
         
         this.logger.log(`Auto-resolved alert ${alert._id} - session recovered`);
       }
@@ -313,13 +320,13 @@ export class WhatsAppHealthCheckService {
   }
 
   /**
-   * Get health check statistics for a user
+   * Get health check statistics for a user, counting only checks inside the caller's scope
    */
-  async getUserHealthStats(userId: string) {
+  async getUserHealthStats(userId: string, scope: EntityScope = {}) {
     const userObjectId = new Types.ObjectId(userId);
     
     const recentChecks = await this.healthCheckModel
-      .find({ userId: userObjectId })
+      .find({ userId: userObjectId, ...entityScopeFilter(scope) })
       .sort({ checkedAt: -1 })
       .limit(10)
       .lean();
@@ -355,9 +362,9 @@ export class WhatsAppHealthCheckService {
   /**
    * Manual health check trigger by user ID
    */
-  async triggerManualHealthCheckByUserId(userId: string) {
+  async triggerManualHealthCheckByUserId(userId: string, scope: EntityScope = {}) {
     const session = await this.sessionModel
-      .findOne({ userId: new Types.ObjectId(userId), isActive: true })
+      .findOne({ userId: new Types.ObjectId(userId), isActive: true, ...entityScopeFilter(scope) })
       .populate('userId');
     
     if (!session) {
@@ -0,0 +1,87 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  Headers,
+  Req,
+  HttpCode,
+  HttpStatus,
+  ForbiddenException,
+  Logger,
+  RawBodyRequest,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiExcludeEndpoint } from '@nestjs/swagger';
+import { Request } from 'express';
+import * as crypto from 'crypto';
+import { WhatsAppService } from './whatsapp.service';
+import { CloudWebhookPayload } from './transports/cloud-api.transport';
+
+/**
+ * Public endpoints called by Meta for Cloud API sessions.
+ * Requests are authenticated by the verify token and payload signature
+ * instead of a JWT.
+ */
+@ApiTags('WhatsApp Webhook')
+@Controller('whatsapp/webhook')
+export class WhatsAppWebhookController {
+  private readonly logger = new Logger(WhatsAppWebhookController.name);
+
+  constructor(
+    private readonly whatsappService: WhatsAppService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Verify WhatsApp Cloud API webhook subscription' })
+  @ApiQuery({ name: 'hub.mode', required: true })
+  @ApiQuery({ name: 'hub.verify_token', required: true })
+  @ApiQuery({ name: 'hub.challenge', required: true })
+  @ApiResponse({ status: 200, description: 'Challenge echoed back' })
+  @ApiResponse({ status: 403, description: 'Verify token mismatch' })
+  verify(
+    @Query('hub.mode') mode: string,
+    @Query('hub.verify_token') token: string,
+    @Query('hub.challenge') challenge: string,
+  ): string {
+    const expected = this.configService.get<string>('whatsapp.webhookVerifyToken');
+
+    if (mode !== 'subscribe' || !expected || token !== expected) {
+      this.logger.warn('Rejected WhatsApp webhook verification request');
+      throw new ForbiddenException('Webhook verification failed');
+    }
+
+    return challenge;
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @ApiExcludeEndpoint()
+  async receive(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('x-hub-signature-256') signature: string,
+    @Body() payload: CloudWebhookPayload,
+  ) {
+    if (!this.isValidSignature(req.rawBody, signature)) {
+      this.logger.warn('Rejected WhatsApp webhook with invalid signature');
+      throw new ForbiddenException('Invalid webhook signature');
+    }
+
+    await this.whatsappService.handleCloudWebhook(payload);
+    return { success: true };
+  }
+
+  private isValidSignature(rawBody: Buffer | undefined, signature: string | undefined): boolean {
+    const appSecret = this.configService.get<string>('whatsapp.appSecret');
+    if (!appSecret || !rawBody || !signature?.startsWith('sha256=')) {
+      return false;
+    }
+
+    const expected = crypto.createHmac('sha256', appSecret).update(rawBody).digest();
+    const received = Buffer.from(signature.slice('sha256='.length), 'hex');
+
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  }
+}
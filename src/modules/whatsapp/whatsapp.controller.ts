@@ -1,33 +1,46 @@
-import { Controller, Get, Post, Delete, Body, Param, Query, UseGuards, Request, UseInterceptors, UploadedFile } from '@nestjs/common';
-import { FileInterceptor } from '@nestjs/platform-express';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery, ApiConsumes } from '@nestjs/swagger';
+import { Controller, Get, Post, Delete, Body, Param, Query, UseGuards, Request, UseInterceptors, UploadedFile, Headers, BadRequestException } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery, ApiConsumes, ApiHeader } from '@nestjs/swagger';
 import { WhatsAppService } from './whatsapp.service';
+import { OutboundQueueService } from './outbound-queue.service';
 import { StorageService } from '../storage/storage.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
-import { RolesGuard } from '../auth/roles.guard';
-import { Roles, RequireTenant } from '../auth/decorators';
-import { UserRole } from '../../common/schemas/user.schema';
-import { SYSTEM_ENTITY_ID } from '@/common/constants/system-entity';
+import { PermissionsGuard } from '../auth/permissions.guard';
+import { RequirePermissions, RequireTenant, EntityScopeFor, AllowApiKey } from '../auth/decorators';
+import { EntityScope } from '../auth/entity-scope';
+import { MediaAccessService } from '../storage/media-access.service';
+import { MediaUploadInterceptor } from '../storage/media-upload.interceptor';
+import { TenantLimitsService } from '../../common/services/tenant-limits.service';
+import { Permission } from '../../common/constants/permissions';
+import { QuotaName } from '../../common/constants/quotas';
+import { Quota } from '../../common/security/rate-limit.guard';
+import { MediaSource } from '../../common/schemas/media-object.schema';
+import { WhatsAppTemplateComponent } from './transports/whatsapp-transport.interface';
+import { CreateSessionDto } from './dto/create-session.dto';
 import { Audit } from '../../common/decorators/audit.decorator';
 import { AuditAction, AuditResource } from '../../common/schemas/audit-log.schema';
 
 @ApiTags('WhatsApp')
 @Controller('whatsapp')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 @ApiBearerAuth()
 export class WhatsAppController {
   constructor(
     private readonly whatsappService: WhatsAppService,
+    private readonly outboundQueueService: OutboundQueueService,
     private readonly storageService: StorageService,
+    private readonly mediaAccessService: MediaAccessService,
+    private readonly tenantLimitsService: TenantLimitsService,
   ) {}
 
   @Post('sessions')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @RequirePermissions(Permission.SESSIONS_MANAGE)
   @RequireTenant()
   @Audit({ action: AuditAction.SESSION_CREATE, resource: AuditResource.WHATSAPP_SESSION })
   @ApiOperation({ summary: 'Create new WhatsApp session and generate QR code' })
   @ApiResponse({ status: 201, description: 'Session created successfully' })
-  async createSession(@Request() req) {
+  @ApiResponse({ status: 400, description: 'Invalid transport, or Cloud API number not provisioned for the tenant' })
+  @ApiResponse({ status: 409, description: 'Cloud API number in use by another session' })
+  async createSession(@Request() req, @Body() body: CreateSessionDto) {
     const sessionId = `${req.user.tenantId}_${req.user.sub}_${Date.now()}`;
     return this.whatsappService.createSession(
       sessionId,
@@ -35,16 +48,20 @@ export class WhatsAppController {
       req.user.email,
       req.user.entityId,
       req.user.tenantId,
+      {
+        transport: body.transport,
+        cloudPhoneNumberId: body.cloudPhoneNumberId,
+      },
     );
   }
 
   @Get('sessions/:sessionId/qr')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @RequirePermissions(Permission.SESSIONS_MANAGE)
   @ApiOperation({ summary: 'Get QR code for WhatsApp session' })
   @ApiResponse({ status: 200, description: 'QR code retrieved successfully' })
   @ApiResponse({ status: 404, description: 'QR code not available' })
-  async getQRCode(@Param('sessionId') sessionId: string) {
-    const qrData = await this.whatsappService.getQRCode(sessionId);
+  async getQRCode(@Param('sessionId') sessionId: string, @EntityScopeFor(Permission.SESSIONS_MANAGE) scope: EntityScope) {
+    const qrData = await this.whatsappService.getQRCode(sessionId, scope);
     if (!qrData) {
       return {
         success: false,
@@ -58,20 +75,21 @@ export class WhatsAppController {
   }
 
   @Get('sessions/:sessionId/status')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @AllowApiKey()
+  @RequirePermissions(Permission.SESSIONS_READ)
   @ApiOperation({ summary: 'Get WhatsApp session status' })
   @ApiResponse({ status: 200, description: 'Session status retrieved successfully' })
-  async getSessionStatus(@Param('sessionId') sessionId: string) {
-    return this.whatsappService.getSessionStatus(sessionId);
+  async getSessionStatus(@Param('sessionId') sessionId: string, @EntityScopeFor(Permission.SESSIONS_READ) scope: EntityScope) {
+    return this.whatsappService.getSessionStatus(sessionId, scope);
   }
 
   @Delete('sessions/:sessionId')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @RequirePermissions(Permission.SESSIONS_MANAGE)
   @Audit({ action: AuditAction.SESSION_DELETE, resource: AuditResource.WHATSAPP_SESSION })
   @ApiOperation({ summary: 'Disconnect WhatsApp session' })
   @ApiResponse({ status: 200, description: 'Session disconnected successfully' })
-  async disconnectSession(@Param('sessionId') sessionId: string) {
-    await this.whatsappService.disconnectSession(sessionId);
+  async disconnectSession(@Param('sessionId') sessionId: string, @EntityScopeFor(Permission.SESSIONS_MANAGE) scope: EntityScope) {
+    await this.whatsappService.disconnectSession(sessionId, scope);
     return {
       success: true,
       message: 'Session disconnected successfully',
@@ -79,13 +97,18 @@ export class WhatsAppController {
   }
 
   @Post('messages/send')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @AllowApiKey()
+  @RequirePermissions(Permission.MESSAGES_SEND)
   @RequireTenant()
+  @Quota(QuotaName.MESSAGES_SEND)
   @Audit({ action: AuditAction.MESSAGE_SEND, resource: AuditResource.MESSAGE })
-  @ApiOperation({ summary: 'Send WhatsApp message' })
-  @ApiResponse({ status: 200, description: 'Message sent successfully' })
+  @ApiOperation({ summary: 'Queue WhatsApp message for sending' })
+  @ApiHeader({ name: 'Idempotency-Key', required: false, description: 'Repeat requests from the same caller with the same key return the original message' })
+  @ApiResponse({ status: 200, description: 'Message queued successfully' })
   async sendMessage(
     @Body() body: { sessionId: string; to: string; message: string },
+    @Headers('idempotency-key') idempotencyKey: string,
+    @EntityScopeFor(Permission.MESSAGES_SEND) scope: EntityScope,
     @Request() req,
   ) {
     return this.whatsappService.sendMessage(
@@ -93,10 +116,70 @@ export class WhatsAppController {
       body.to,
       body.message,
       req.user.sub,
+      { idempotencyKey: idempotencyKey || undefined, scope },
     );
   }
 
+  @Post('messages/send-template')
+  @AllowApiKey()
+  @RequirePermissions(Permission.MESSAGES_SEND)
+  @RequireTenant()
+  @Quota(QuotaName.MESSAGES_SEND)
+  @Audit({ action: AuditAction.MESSAGE_SEND, resource: AuditResource.MESSAGE })
+  @ApiOperation({ summary: 'Queue WhatsApp template message (Cloud API sessions only)' })
+  @ApiHeader({ name: 'Idempotency-Key', required: false, description: 'Repeat requests from the same caller with the same key return the original message' })
+  @ApiResponse({ status: 200, description: 'Template message queued successfully' })
+  async sendTemplateMessage(
+    @Body() body: {
+      sessionId: string;
+      to: string;
+      templateName: string;
+      languageCode?: string;
+      components?: WhatsAppTemplateComponent[];
+    },
+    @Headers('idempotency-key') idempotencyKey: string,
+    @EntityScopeFor(Permission.MESSAGES_SEND) scope: EntityScope,
+    @Request() req,
+  ) {
+    return this.whatsappService.sendTemplateMessage(
+      body.sessionId,
+      body.to,
+      body.templateName,
+      body.languageCode || 'en_US',
+      body.components || [],
+      req.user.sub,
+      { idempotencyKey: idempotencyKey || undefined, scope },
+    );
+  }
+
+  @Get('messages/dead-letter')
+  @AllowApiKey()
+  @RequirePermissions(Permission.MESSAGES_SEND)
+  @RequireTenant()
+  @ApiOperation({ summary: 'Get outbound messages that exhausted their retries' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
+  @ApiQuery({ name: 'sessionId', required: false, description: 'Filter by WhatsApp session' })
+  @ApiResponse({ status: 200, description: 'Dead-lettered messages retrieved successfully' })
+  async getDeadLetters(@Query() query: any, @EntityScopeFor(Permission.MESSAGES_SEND) scope: EntityScope) {
+    return this.outboundQueueService.getDeadLetters(scope, query);
+  }
+
+  @Post('messages/:id/retry')
+  @AllowApiKey()
+  @RequirePermissions(Permission.MESSAGES_SEND)
+  @RequireTenant()
+  @Audit({ action: AuditAction.MESSAGE_SEND, resource: AuditResource.MESSAGE })
+  @ApiOperation({ summary: 'Requeue a dead-lettered outbound message' })
+  @ApiResponse({ status: 200, description: 'Message requeued successfully' })
+  @ApiResponse({ status: 404, description: 'Dead-lettered message not found' })
+  async retryMessage(@Param('id') id: string, @EntityScopeFor(Permission.MESSAGES_SEND) scope: EntityScope) {
+    return this.outboundQueueService.requeue(id, scope);
+  }
+
   @Get('messages')
+  @AllowApiKey()
+  @RequirePermissions(Permission.MESSAGES_READ)
   @RequireTenant()
   @ApiOperation({ summary: 'Get WhatsApp messages with pagination and filters. Messages from unregistered numbers include "External" tag.' })
   @ApiQuery({ name: 'page', required: false, description: 'Page number' })
@@ -111,19 +194,13 @@ export class WhatsAppController {
   @ApiQuery({ name: 'endDate', required: false, description: 'End date filter' })
   @ApiQuery({ name: 'isExternal', required: false, description: 'Filter by external numbers (true/false)' })
   @ApiResponse({ status: 200, description: 'Messages retrieved successfully with pagination. External messages include tags: ["External"]' })
-  async getMessages(@Query() query: any, @Request() req) {
-    const filters = {
-      ...query,
-    };
-
-    if (query.entityId || req.user.entityId !== SYSTEM_ENTITY_ID.toString()) {
-      filters.entityId = query.entityId || req.user.entityId;
-    }
-
-    return this.whatsappService.getMessages(filters);
+  async getMessages(@Query() query: any, @EntityScopeFor(Permission.MESSAGES_READ) scope: EntityScope) {
+    return this.whatsappService.getMessages(query, scope);
   }
 
   @Get('messages/external')
+  @AllowApiKey()
+  @RequirePermissions(Permission.MESSAGES_READ)
   @RequireTenant()
   @ApiOperation({ summary: 'Get messages from external (unregistered) numbers only' })
   @ApiQuery({ name: 'page', required: false, description: 'Page number' })
@@ -132,72 +209,78 @@ export class WhatsAppController {
   @ApiQuery({ name: 'startDate', required: false, description: 'Start date filter' })
   @ApiQuery({ name: 'endDate', required: false, description: 'End date filter' })
   @ApiResponse({ status: 200, description: 'External messages retrieved successfully' })
-  async getExternalMessages(@Query() query: any, @Request() req) {
+  async getExternalMessages(@Query() query: any, @EntityScopeFor(Permission.MESSAGES_READ) scope: EntityScope) {
     const filters = {
       ...query,
       isExternal: 'true', // Force external filter
     };
 
-    if (query.entityId || req.user.entityId !== SYSTEM_ENTITY_ID.toString()) {
-      filters.entityId = query.entityId || req.user.entityId;
-    }
-
-    return this.whatsappService.getMessages(filters);
+    return this.whatsappService.getMessages(filters, scope);
   }
 
   @Get('conversations')
+  @AllowApiKey()
+  @RequirePermissions(Permission.MESSAGES_READ)
   @RequireTenant()
   @ApiOperation({ summary: 'Get list of conversations. Conversations with unregistered numbers include "External" tag.' })
   @ApiResponse({ status: 200, description: 'Conversations retrieved successfully. External conversations include tags: ["External"]' })
-  async getConversations(@Request() req) {
-    return this.whatsappService.getConversations(req.user.tenantId);
+  async getConversations(@EntityScopeFor(Permission.MESSAGES_READ) scope: EntityScope) {
+    return this.whatsappService.getConversations(scope);
   }
 
   @Post('upload-media')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN, UserRole.USER)
+  @AllowApiKey()
+  @RequirePermissions(Permission.MEDIA_UPLOAD)
   @RequireTenant()
-  @UseInterceptors(FileInterceptor('file'))
+  @UseInterceptors(MediaUploadInterceptor('file', 'whatsapp-media'))
   @ApiOperation({ summary: 'Upload media file for WhatsApp' })
   @ApiConsumes('multipart/form-data')
   @ApiResponse({ status: 201, description: 'Media file uploaded successfully' })
   @ApiResponse({ status: 400, description: 'Bad request' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 413, description: 'File larger than the upload limit' })
   async uploadMedia(
     @UploadedFile() file: any,
     @Request() req,
   ) {
     if (!file) {
-      throw new Error('No file provided');
+      throw new BadRequestException('No file provided');
     }
 
-    // Upload to cloud storage
-    const uploadResult = await this.storageService.uploadFile(
-      file.buffer,
-      file.originalname,
-      file.mimetype,
-      `whatsapp-media/${req.user.tenantId}`,
-    );
+    // The interceptor has already streamed the file into cloud storage
+    await this.mediaAccessService.register({
+      key: file.key,
+      source: MediaSource.UPLOAD,
+      contentType: file.contentType,
+      size: file.size,
+      entityId: req.user.entityId,
+      tenantId: req.user.tenantId,
+      createdBy: req.user.sub,
+    });
+    await this.tenantLimitsService.recordStorage(req.user.tenantId, file.size);
 
     return {
       success: true,
       message: 'Media file uploaded successfully',
       data: {
-        url: uploadResult.proxyUrl, // Use proxy URL instead of direct cloud storage URL
-        originalUrl: uploadResult.url, // Keep original URL for reference
-        key: uploadResult.key,
-        size: uploadResult.size,
-        contentType: uploadResult.contentType,
+        url: file.proxyUrl, // Use proxy URL instead of direct cloud storage URL
+        originalUrl: file.url, // Keep original URL for reference
+        key: file.key,
+        size: file.size,
+        contentType: file.contentType,
         fileName: file.originalname,
       },
     };
   }
 
   @Post('send-media')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN)
+  @AllowApiKey()
+  @RequirePermissions(Permission.MESSAGES_SEND)
   @RequireTenant()
-  @ApiOperation({ summary: 'Send WhatsApp message with media attachment' })
-  @ApiResponse({ status: 200, description: 'Media message sent successfully' })
+  @Quota(QuotaName.MESSAGES_SEND)
+  @ApiOperation({ summary: 'Queue WhatsApp message with media attachment' })
+  @ApiResponse({ status: 200, description: 'Media message queued successfully' })
   async sendMediaMessage(
     @Body() body: { 
       sessionId: string; 
@@ -206,9 +289,12 @@ export class WhatsAppController {
       mediaKey: string; 
       mediaType: 'image' | 'video' | 'audio' | 'document';
     },
+    @EntityScopeFor(Permission.MEDIA_READ) mediaScope: EntityScope,
+    @EntityScopeFor(Permission.MESSAGES_SEND) scope: EntityScope,
     @Request() req,
   ) {
     // Get media file from storage
+    await this.mediaAccessService.assertAccess(body.mediaKey, mediaScope);
     const mediaResult = await this.storageService.downloadFile(body.mediaKey);
     
     // Send message with media
@@ -220,15 +306,18 @@ export class WhatsAppController {
       mediaResult.contentType,
       body.mediaType,
       req.user.sub,
+      scope,
     );
   }
 
   @Get('media/:key(*)')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN, UserRole.USER)
+  @AllowApiKey()
+  @RequirePermissions(Permission.MEDIA_READ)
   @ApiOperation({ summary: 'Get media file from storage' })
   @ApiResponse({ status: 200, description: 'Media file retrieved successfully' })
   @ApiResponse({ status: 404, description: 'Media file not found' })
-  async getMedia(@Param('key') key: string) {
+  async getMedia(@Param('key') key: string, @EntityScopeFor(Permission.MEDIA_READ) scope: EntityScope) {
+    await this.mediaAccessService.assertAccess(key, scope);
     const result = await this.storageService.downloadFile(key);
     
     return {
@@ -239,13 +328,16 @@ export class WhatsAppController {
   }
 
   @Get('media/:key(*)/url')
-  @Roles(UserRole.SYSTEM_ADMIN, UserRole.TENANT_ADMIN, UserRole.USER)
+  @AllowApiKey()
+  @RequirePermissions(Permission.MEDIA_READ)
   @ApiOperation({ summary: 'Get signed URL for media file' })
   @ApiResponse({ status: 200, description: 'Signed URL generated successfully' })
   async getMediaUrl(
     @Param('key') key: string,
+    @EntityScopeFor(Permission.MEDIA_READ) scope: EntityScope,
     @Query('expiresIn') expiresIn?: number,
   ) {
+    await this.mediaAccessService.assertAccess(key, scope);
     const url = await this.storageService.getSignedUrl(key, expiresIn || 3600);
     
     return {
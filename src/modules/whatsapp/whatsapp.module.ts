@@ -2,15 +2,24 @@ import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { WhatsAppService } from './whatsapp.service';
 import { WhatsAppController } from './whatsapp.controller';
+import { WhatsAppWebhookController } from './whatsapp-webhook.controller';
 import { WhatsAppHealthCheckService } from './whatsapp-health-check.service';
+import { OutboundQueueService } from './outbound-queue.service';
+import { WhatsAppTransportFactory } from './transports/whatsapp-transport.factory';
 import { WhatsAppSession, WhatsAppSessionSchema } from '../../common/schemas/whatsapp-session.schema';
 import { Message, MessageSchema } from '../../common/schemas/message.schema';
 import { User, UserSchema } from '../../common/schemas/user.schema';
 import { WhatsAppHealthCheck, WhatsAppHealthCheckSchema } from '../../common/schemas/whatsapp-health-check.schema';
 import { Alert, AlertSchema } from '../../common/schemas/alert.schema';
+import { Tenant, TenantSchema } from '../../common/schemas/tenant.schema';
+import { SecurityModule } from '../../common/security/security.module';
+import { TenantLimitsModule } from '../../common/modules/tenant-limits.module';
 import { UsersModule } from '../users/users.module';
 import { EntitiesModule } from '../entities/entities.module';
 import { StorageModule } from '../storage/storage.module';
+import { ComplianceModule } from '../compliance/compliance.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { RealtimeModule } from '../realtime/realtime.module';
 
 @Module({
   imports: [
@@ -20,14 +29,20 @@ import { StorageModule } from '../storage/storage.module';
       { name: User.name, schema: UserSchema },
       { name: WhatsAppHealthCheck.name, schema: WhatsAppHealthCheckSchema },
       { name: Alert.name, schema: AlertSchema },
+      { name: Tenant.name, schema: TenantSchema },
     ]),
     forwardRef(() => UsersModule),
     forwardRef(() => EntitiesModule),
+    SecurityModule,
+    TenantLimitsModule,
     StorageModule,
+    ComplianceModule,
+    WebhooksModule,
+    RealtimeModule,
   ],
-  controllers: [WhatsAppController],
-  providers: [WhatsAppService, WhatsAppHealthCheckService],
-  exports: [WhatsAppService, WhatsAppHealthCheckService],
+  controllers: [WhatsAppController, WhatsAppWebhookController],
+  providers: [WhatsAppService, WhatsAppHealthCheckService, WhatsAppTransportFactory, OutboundQueueService],
+  exports: [WhatsAppService, WhatsAppHealthCheckService, OutboundQueueService],
 })
 export class WhatsAppModule {}
 
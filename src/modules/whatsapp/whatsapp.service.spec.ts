@@ -0,0 +1,150 @@
+import { NotFoundException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { Message } from '../../common/schemas/message.schema';
+import { WhatsAppSession } from '../../common/schemas/whatsapp-session.schema';
+import { WhatsAppService } from './whatsapp.service';
+
+// Chainable stand-in for a mongoose query resolving to result
+function mockQuery<T>(result: T) {
+  const query: any = {
+    then: (resolve: (value: T) => unknown, reject: (reason: unknown) => unknown) =>
+      Promise.resolve(result).then(resolve, reject),
+  };
+  for (const method of ['populate', 'sort', 'skip', 'limit']) {
+    query[method] = jest.fn(() => query);
+  }
+  return query;
+}
+
+describe('WhatsAppService.getMessages', () => {
+  const tenantId = new Types.ObjectId().toString();
+  const deptA = new Types.ObjectId().toString();
+  const deptB = new Types.ObjectId().toString();
+  const scopeA = { tenantId, entityIds: [deptA] };
+
+  let service: WhatsAppService;
+  let messageModel: { countDocuments: jest.Mock; find: jest.Mock };
+
+  beforeEach(async () => {
+    messageModel = {
+      countDocuments: jest.fn().mockResolvedValue(0),
+      find: jest.fn(() => mockQuery([])),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [WhatsAppService, { provide: getModelToken(Message.name), useValue: messageModel }],
+    })
+      .useMocker(() => ({}))
+      .compile();
+
+    service = module.get(WhatsAppService);
+  });
+
+  it('returns only messages inside the caller scope', async () => {
+    await service.getMessages({}, scopeA);
+
+    const expected = {
+      isActive: true,
+      tenantId: new Types.ObjectId(tenantId),
+      entityIdPath: { $in: [new Types.ObjectId(deptA)] },
+    };
+    expect(messageModel.countDocuments).toHaveBeenCalledWith(expected);
+    expect(messageModel.find).toHaveBeenCalledWith(expected);
+  });
+
+  it('keeps the caller scope when filtering on a sibling department', async () => {
+    await service.getMessages({ entityId: deptB }, scopeA);
+
+    const [query] = messageModel.find.mock.calls[0];
+    expect(query.entityIdPath).toEqual({
+      $in: [new Types.ObjectId(deptA)],
+      $all: [new Types.ObjectId(deptB)],
+    });
+  });
+
+  it('ignores a tenant filter pointing outside the caller tenant', async () => {
+    await service.getMessages({ tenantId: new Types.ObjectId().toString() }, scopeA);
+
+    const [query] = messageModel.find.mock.calls[0];
+    expect(query.tenantId).toEqual(new Types.ObjectId(tenantId));
+  });
+
+  it('lets system-wide callers filter on any tenant and entity', async () => {
+    const otherTenantId = new Types.ObjectId().toString();
+
+    await service.getMessages({ tenantId: otherTenantId, entityId: deptB }, {});
+
+    expect(messageModel.find).toHaveBeenCalledWith({
+      isActive: true,
+      tenantId: new Types.ObjectId(otherTenantId),
+      entityIdPath: { $all: [new Types.ObjectId(deptB)] },
+    });
+  });
+});
+
+describe('WhatsAppService outbound session lookup', () => {
+  const tenantId = new Types.ObjectId().toString();
+  const deptA = new Types.ObjectId().toString();
+  const scopeA = { tenantId, entityIds: [deptA] };
+
+  let service: WhatsAppService;
+  let sessionModel: { findOne: jest.Mock };
+  let messageModel: { create: jest.Mock; findOne: jest.Mock };
+
+  beforeEach(async () => {
+    sessionModel = { findOne: jest.fn().mockResolvedValue(null) };
+    messageModel = { create: jest.fn(), findOne: jest.fn().mockResolvedValue(null) };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        WhatsAppService,
+        { provide: getModelToken(WhatsAppSession.name), useValue: sessionModel },
+        { provide: getModelToken(Message.name), useValue: messageModel },
+      ],
+    })
+      .useMocker(() => ({}))
+      .compile();
+
+    service = module.get(WhatsAppService);
+  });
+
+  it('answers 404 for sessions outside the caller scope', async () => {
+    await expect(service.sendMessage('session-b', '15551112222', 'Hi', 'user', { scope: scopeA })).rejects.toThrow(
+      NotFoundException,
+    );
+
+    expect(sessionModel.findOne).toHaveBeenCalledWith({
+      sessionId: 'session-b',
+      tenantId: new Types.ObjectId(tenantId),
+      entityIdPath: { $in: [new Types.ObjectId(deptA)] },
+    });
+    expect(messageModel.create).not.toHaveBeenCalled();
+  });
+
+  it('answers 404 for unknown sessions when queueing templates', async () => {
+    await expect(
+      service.sendTemplateMessage('missing', '15551112222', 'welcome', 'en', [], 'user', { scope: scopeA }),
+    ).rejects.toThrow(NotFoundException);
+    expect(messageModel.create).not.toHaveBeenCalled();
+  });
+
+  it('replays idempotency keys only for the caller that used them', async () => {
+    const session = { sessionId: 'session-a', tenantId: new Types.ObjectId(tenantId) };
+    const original = { _id: new Types.ObjectId(), createdBy: 'user' };
+    sessionModel.findOne.mockResolvedValue(session);
+    messageModel.findOne.mockResolvedValue(original);
+
+    await expect(
+      service.sendMessage('session-a', '15551112222', 'Hi', 'user', { idempotencyKey: 'key-1', scope: scopeA }),
+    ).resolves.toBe(original);
+
+    expect(messageModel.findOne).toHaveBeenCalledWith({
+      tenantId: session.tenantId,
+      createdBy: 'user',
+      idempotencyKey: 'key-1',
+    });
+    expect(messageModel.create).not.toHaveBeenCalled();
+  });
+});
@@ -1,34 +1,84 @@
-import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
-import { Client, LocalAuth, MessageMedia } from 'whatsapp-web.js';
+import * as crypto from 'crypto';
 import * as QRCode from 'qrcode';
 import { ConfigService } from '@nestjs/config';
-import { WhatsAppSession, SessionStatus } from '../../common/schemas/whatsapp-session.schema';
-import { Message, MessageDirection, MessageStatus, MessageType } from '../../common/schemas/message.schema';
+import { WhatsAppSession, SessionStatus, WhatsAppTransportDriver } from '../../common/schemas/whatsapp-session.schema';
+import {
+  Message,
+  MessageDocument,
+  MessageDirection,
+  MessageStatus,
+  MessageType,
+  OutboundMessagePayload,
+} from '../../common/schemas/message.schema';
 import { User } from '../../common/schemas/user.schema';
+import { Tenant, TenantDocument } from '../../common/schemas/tenant.schema';
+import { WebhookEvent } from '../../common/schemas/webhook-subscription.schema';
 import { Types } from 'mongoose';
-import * as os from 'os';
-import * as fs from 'fs/promises';
-import * as fsSync from 'fs';
+import { TenantLimitsService } from '../../common/services/tenant-limits.service';
 import { EntitiesService } from '../entities/entities.service';
 import { StorageService } from '../storage/storage.service';
+import { MediaAccessService, MediaRegistration } from '../storage/media-access.service';
+import { MediaSource, MediaUploadStatus } from '../../common/schemas/media-object.schema';
+import { ComplianceService } from '../compliance/compliance.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { messageWebhookPayload, sessionWebhookPayload } from '../webhooks/webhook-payloads';
+import { RealtimeEventType, RealtimeService } from '../realtime/realtime.service';
+import { EntityScope, entityScopeFilter } from '../auth/entity-scope';
+import { WhatsAppTransportFactory } from './transports/whatsapp-transport.factory';
+import {
+  WhatsAppTemplateComponent,
+  WhatsAppTransport,
+  WhatsAppTransportMedia,
+  WhatsAppTransportMessage,
+} from './transports/whatsapp-transport.interface';
+import { CloudApiTransport, CloudWebhookPayload } from './transports/cloud-api.transport';
+
+// A message the outbound queue is handing to a transport
+interface QueuedSend {
+  to: string;
+  payload: OutboundMessagePayload;
+}
+
+export interface CreateSessionOptions {
+  transport?: WhatsAppTransportDriver;
+  cloudPhoneNumberId?: string;
+}
 
 @Injectable()
 export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(WhatsAppService.name);
-  private clients: Map<string, Client> = new Map();
+  private transports: Map<string, WhatsAppTransport> = new Map();
+  private queuedSends: Map<string, QueuedSend[]> = new Map(); // Per session, see trackQueuedSend()
 
   constructor(
     @InjectModel(WhatsAppSession.name)
     private sessionModel: Model<WhatsAppSession>,
     @InjectModel(Message.name)
-    private messageModel: Model<Message>,
+    private messageModel: Model<MessageDocument>,
     @InjectModel(User.name)
     private userModel: Model<User>,
+    @InjectModel(Tenant.name)
+    private tenantModel: Model<TenantDocument>,
     private configService: ConfigService,
     private entityService: EntitiesService,
     private storageService: StorageService,
+    private mediaAccessService: MediaAccessService,
+    private transportFactory: WhatsAppTransportFactory,
+    private complianceService: ComplianceService,
+    private webhooksService: WebhooksService,
+    private realtimeService: RealtimeService,
+    private tenantLimitsService: TenantLimitsService,
   ) {}
 
   async onModuleInit() {
@@ -39,12 +89,19 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
 
   async onModuleDestroy() {
     this.logger.log('Destroying all WhatsApp clients');
-    for (const [sessionId, client] of this.clients.entries()) {
+    for (const sessionId of Array.from(this.transports.keys())) {
       await this.disconnectSession(sessionId);
     }
   }
 
-  async createSession(sessionId: string, userId: Types.ObjectId, invitedBy: string, entityId: string, tenantId: string): Promise<WhatsAppSession> {
+  async createSession(
+    sessionId: string,
+    userId: Types.ObjectId,
+    invitedBy: string,
+    entityId: string,
+    tenantId: string,
+    options: CreateSessionOptions = {},
+  ): Promise<WhatsAppSession> {
     this.logger.log(`Creating new WhatsApp session: ${sessionId}`);
     // Get entity path before creating session
     const entityObjectId = new Types.ObjectId(entityId);
@@ -75,10 +132,20 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
       }
     }
 
+    const transportDriver = options.transport || this.transportFactory.getDefaultDriver();
+    this.assertTransportAvailable(transportDriver);
+    const cloudPhoneNumberId = transportDriver === WhatsAppTransportDriver.CLOUD
+      ? await this.claimCloudPhoneNumber(sessionId, tenantId, options.cloudPhoneNumberId, isSystemAdmin)
+      : undefined;
+
     // Check if session already exists
     let session = await this.sessionModel.findOne({ sessionId });
     
     if (!session) {
+      if (!isSystemAdmin) {
+        await this.tenantLimitsService.assertCanAddSession(tenantId);
+      }
+
       session = await this.sessionModel.create({
         _id: new Types.ObjectId(),
         sessionId,
@@ -87,8 +154,14 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
         entityIdPath: entityIdPath,
         tenantId: isSystemAdmin ? entityObjectId : new Types.ObjectId(tenantId),
         status: SessionStatus.CONNECTING,
+        transport: transportDriver,
+        cloudPhoneNumberId,
         createdBy: invitedBy,
       });
+
+      const statusEvent = { ...sessionWebhookPayload(session), previousStatus: null };
+      await this.webhooksService.emit(WebhookEvent.SESSION_STATUS_CHANGED, session.tenantId, statusEvent);
+      this.realtimeService.publish(RealtimeEventType.SESSION_STATUS, session, statusEvent);
     } else {
       // Update existing session with entity path
       session = await this.sessionModel.findOneAndUpdate(
@@ -96,6 +169,8 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
         { 
           entityIdPath: entityIdPath,
           tenantId: isSystemAdmin ? entityObjectId : new Types.ObjectId(tenantId),
+          transport: transportDriver,
+          cloudPhoneNumberId,
           lastActivityAt: new Date()
         },
         { new: true }
@@ -108,97 +183,76 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     return session;
   }
 
-  private async initializeClient(sessionId: string): Promise<void> {
-    try {
-      if (this.clients.has(sessionId)) {
-        this.logger.warn(`Client already exists for session: ${sessionId}`);
-        return;
-      }
+  // The in-memory driver fakes WhatsApp, so production only allows it when it is the configured transport
+  private assertTransportAvailable(driver: WhatsAppTransportDriver): void {
+    if (
+      driver === WhatsAppTransportDriver.MEMORY &&
+      driver !== this.transportFactory.getDefaultDriver() &&
+      this.configService.get<string>('app.nodeEnv') === 'production'
+    ) {
+      throw new BadRequestException('The memory transport is not available in production');
+    }
+  }
 
-      // Step 1: Detect Chrome path
-      const platform = os.platform();
-      this.logger.log(`Detecting Chrome path for platform: ${platform}`);
-
-      const windowsPaths = [
-        "C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe",
-        "C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe",
-        process.env.CHROME_PATH, // Allow override via env var
-      ];
-
-      const linuxPaths = [
-        "/usr/bin/google-chrome",
-        "/usr/bin/chromium-browser",
-        "/usr/bin/chromium",
-        process.env.CHROME_PATH,
-      ];
-
-      const macPaths = [
-        "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
-        "/Applications/Chromium.app/Contents/MacOS/Chromium",
-        process.env.CHROME_PATH,
-      ];
-
-      const paths = platform === "win32" ? windowsPaths
-                  : platform === "linux" ? linuxPaths
-                  : platform === "darwin" ? macPaths
-                  : [];
-
-      // Find first existing Chrome path
-      let chromePath;
-      for (const path of paths) {
-        try {
-          if (path && fsSync.existsSync(path)) {
-            chromePath = path;
-            this.logger.log(`Found Chrome at: ${path}`);
-            break;
-          }
-        } catch (error) {
-          this.logger.warn(`Error checking Chrome path ${path}: ${error.message}`);
-        }
+  /**
+   * Pick the Cloud API number for a session. Tenants can only use numbers a
+   * SystemAdmin provisioned for them, and a number serves one active session
+   * at a time since inbound webhooks are routed by it. A number held by a
+   * disconnected session of the same tenant moves to the new session.
+   */
+  private async claimCloudPhoneNumber(
+    sessionId: string,
+    tenantId: string,
+    requested: string | undefined,
+    isSystemAdmin: boolean,
+  ): Promise<string> {
+    let phoneNumberId = requested;
+
+    if (!isSystemAdmin) {
+      const tenant = await this.tenantModel.findById(tenantId).select('cloudPhoneNumberIds').lean();
+      const provisioned = tenant?.cloudPhoneNumberIds || [];
+      if (!phoneNumberId && provisioned.length === 1) {
+        phoneNumberId = provisioned[0];
       }
+      if (phoneNumberId && !provisioned.includes(phoneNumberId)) {
+        throw new BadRequestException('Cloud API phone number is not provisioned for this tenant');
+      }
+    }
+    if (!phoneNumberId) {
+      throw new BadRequestException('A provisioned Cloud API phone number is required for Cloud sessions');
+    }
 
-      if (!chromePath) {
-        throw new Error("Chrome not found. Please install Chrome or set CHROME_PATH environment variable.");
+    const holder = await this.sessionModel
+      .findOne({ cloudPhoneNumberId: phoneNumberId, isActive: true, sessionId: { $ne: sessionId } })
+      .select('sessionId tenantId status')
+      .lean();
+    if (holder) {
+      const idle = [SessionStatus.DISCONNECTED, SessionStatus.FAILED].includes(holder.status);
+      if (!idle || holder.tenantId?.toString() !== tenantId?.toString()) {
+        throw new ConflictException('Cloud API phone number is in use by another session');
       }
+      await this.sessionModel.updateOne({ _id: holder._id }, { $unset: { cloudPhoneNumberId: '' } });
+    }
 
-      // Step 2: Clean up any existing session files
-      try {
-        const sessionPath = `${process.cwd()}/.wwebjs_auth/session-${sessionId}`;
-        if (fsSync.existsSync(sessionPath)) {
-          this.logger.log(`Cleaning up existing session files at: ${sessionPath}`);
-          await fs.rm(sessionPath, { recursive: true, force: true });
-          // Wait a bit to ensure files are released
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        }
-      } catch (error) {
-        this.logger.warn(`Failed to clean up existing session files: ${error.message}`);
-        // Continue anyway - the files might be locked but WhatsApp-web.js can handle it
+    return phoneNumberId;
+  }
+
+  private async initializeClient(sessionId: string): Promise<void> {
+    try {
+      if (this.transports.has(sessionId)) {
+        this.logger.warn(`Client already exists for session: ${sessionId}`);
+        return;
       }
 
-      // Step 3: Initialize WhatsApp client
+      // Step 1: Create the transport for this session
       this.logger.log(`Initializing WhatsApp client for session: ${sessionId}`);
-      const client = new Client({
-        authStrategy: new LocalAuth({ 
-          clientId: sessionId,
-          dataPath: `${process.cwd()}/.wwebjs_auth` 
-        }),
-        puppeteer: {
-          executablePath: chromePath,
-          headless: true,
-          args: [
-            "--no-sandbox",
-            "--disable-setuid-sandbox",
-            "--disable-dev-shm-usage",
-            "--disable-accelerated-2d-canvas",
-            "--no-first-run",
-            "--no-zygote",
-            "--disable-gpu"
-          ],
-        },
+      const session = await this.sessionModel.findOne({ sessionId });
+      const transport = this.transportFactory.create(sessionId, session?.transport || undefined, {
+        cloudPhoneNumberId: session?.cloudPhoneNumberId,
       });
 
-      // Step 4: Set up event handlers with error handling
-      client.on('qr', async (qr) => {
+      // Step 2: Set up event handlers with error handling
+      transport.on('qr', async (qr) => {
         try {
           this.logger.log(`QR Code received for session: ${sessionId} (length: ${qr.length})`);
           this.logger.debug(`QR Data: ${qr.substring(0, 20)}...`);
@@ -209,17 +263,17 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
         }
       });
 
-      client.on('ready', async () => {
+      transport.on('ready', async () => {
         try {
           this.logger.log(`WhatsApp client ready for session: ${sessionId}`);
-          await this.handleReady(sessionId, client);
+          await this.handleReady(sessionId, transport);
         } catch (error) {
           this.logger.error(`Error handling ready event for session ${sessionId}:`, error);
           await this.updateSessionStatus(sessionId, SessionStatus.FAILED);
         }
       });
 
-      client.on('authenticated', async () => {
+      transport.on('authenticated', async () => {
         try {
           this.logger.log(`WhatsApp client authenticated for session: ${sessionId}`);
           await this.updateSessionStatus(sessionId, SessionStatus.AUTHENTICATED);
@@ -229,7 +283,7 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
         }
       });
 
-      client.on('disconnected', async (reason) => {
+      transport.on('disconnected', async (reason) => {
         try {
           this.logger.warn(`WhatsApp client disconnected for session: ${sessionId}. Reason: ${reason}`);
           await this.handleDisconnected(sessionId, reason);
@@ -239,7 +293,7 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
         }
       });
 
-      client.on('auth_failure', async (msg) => {
+      transport.on('auth_failure', async (msg) => {
         try {
           this.logger.error(`Authentication failed for session ${sessionId}: ${msg}`);
           await this.updateSessionStatus(sessionId, SessionStatus.FAILED);
@@ -249,7 +303,7 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
         }
       });
 
-      client.on('message', async (message) => {
+      transport.on('message', async (message) => {
         try {
           await this.handleIncomingMessage(sessionId, message);
         } catch (error) {
@@ -257,7 +311,7 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
         }
       });
 
-      client.on('message_create', async (message) => {
+      transport.on('message_create', async (message) => {
         try {
           if (message.fromMe) {
             await this.handleOutgoingMessage(sessionId, message);
@@ -267,24 +321,24 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
         }
       });
 
-      client.on('message_ack', async (message, ack) => {
+      transport.on('message_ack', async (message, ack, failureReason) => {
         try {
-          await this.handleMessageAck(sessionId, message, ack);
+          await this.handleMessageAck(sessionId, message, ack, failureReason);
         } catch (error) {
           this.logger.error(`Error handling message ack for session ${sessionId}:`, error);
         }
       });
 
-      // Step 5: Initialize the client
-      this.logger.log(`Starting WhatsApp client initialization for session: ${sessionId}`);
-      this.clients.set(sessionId, client);
+      // Step 3: Initialize the transport
+      this.logger.log(`Starting WhatsApp client initialization for session: ${sessionId} (driver: ${transport.driver})`);
+      this.transports.set(sessionId, transport);
       
       try {
-        await client.initialize();
+        await transport.initialize();
         this.logger.log(`WhatsApp client initialization completed for session: ${sessionId}`);
       } catch (error) {
         this.logger.error(`Failed to initialize WhatsApp client for session ${sessionId}:`, error);
-        this.clients.delete(sessionId);
+        this.transports.delete(sessionId);
         await this.updateSessionStatus(sessionId, SessionStatus.FAILED);
         throw error;
       }
@@ -301,15 +355,21 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
       const qrCodeDataUrl = await QRCode.toDataURL(qrData);
       const qrCodeBase64 = qrCodeDataUrl.split(',')[1]; // Remove data:image/png;base64, prefix
 
-      await this.sessionModel.findOneAndUpdate(
-        { sessionId },
-        {
-          status: SessionStatus.QR_REQUIRED,
+      const qrCodeExpiresAt = new Date(Date.now() + 300000); // 5 minutes expiry
+      const session = await this.applySessionUpdate(sessionId, {
+        status: SessionStatus.QR_REQUIRED,
+        qrCode: qrCodeBase64,
+        qrCodeGeneratedAt: new Date(),
+        qrCodeExpiresAt,
+      });
+
+      if (session) {
+        this.realtimeService.publish(RealtimeEventType.SESSION_QR, session, {
+          sessionId,
           qrCode: qrCodeBase64,
-          qrCodeGeneratedAt: new Date(),
-          qrCodeExpiresAt: new Date(Date.now() + 300000), // 5 minutes expiry
-        },
-      );
+          expiresAt: qrCodeExpiresAt,
+        });
+      }
 
       this.logger.log(`QR Code generated and saved for session: ${sessionId}`);
     } catch (error) {
@@ -317,44 +377,42 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  private async handleReady(sessionId: string, client: Client): Promise<void> {
+  private async handleReady(sessionId: string, transport: WhatsAppTransport): Promise<void> {
     try {
-      const info = client.info;
+      const info = transport.getInfo();
       
-      await this.sessionModel.findOneAndUpdate(
-        { sessionId },
-        {
-          status: SessionStatus.READY,
-          phoneNumber: info.wid.user,
-          whatsappName: info.pushname,
-          whatsappId: info.wid._serialized,
-          connectedAt: new Date(),
-          lastActivityAt: new Date(),
-          qrCode: null, // Clear QR code
-        },
-      );
+      await this.applySessionUpdate(sessionId, {
+        status: SessionStatus.READY,
+        phoneNumber: info.phoneNumber,
+        whatsappName: info.pushname,
+        whatsappId: info.whatsappId,
+        connectedAt: new Date(),
+        lastActivityAt: new Date(),
+        qrCode: null, // Clear QR code
+      });
 
-      this.logger.log(`Session ready: ${sessionId} - ${info.pushname} (${info.wid.user})`);
+      this.logger.log(`Session ready: ${sessionId} - ${info.pushname} (${info.phoneNumber})`);
     } catch (error) {
       this.logger.error(`Failed to handle ready event for session: ${sessionId}`, error);
     }
   }
 
   private async handleDisconnected(sessionId: string, reason: string): Promise<void> {
-    await this.sessionModel.findOneAndUpdate(
-      { sessionId },
+    await this.applySessionUpdate(
+      sessionId,
       {
         status: SessionStatus.DISCONNECTED,
         disconnectedAt: new Date(),
         lastError: reason,
         lastErrorAt: new Date(),
       },
+      reason,
     );
 
-    this.clients.delete(sessionId);
+    this.transports.delete(sessionId);
   }
 
-  private async handleIncomingMessage(sessionId: string, message: any): Promise<void> {
+  private async handleIncomingMessage(sessionId: string, message: WhatsAppTransportMessage): Promise<void> {
     try {
       const session = await this.sessionModel.findOne({ sessionId });
       if (!session) return;
@@ -387,9 +445,10 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
         }
       }
 
+      const messageId = new Types.ObjectId();
       let mediaUrl = null;
       if (message.hasMedia) {
-        mediaUrl = await this.handleMediaUpload(message);
+        mediaUrl = await this.handleMediaUpload(message, session, entity.entityIdPath, messageId, MediaSource.INBOUND);
       }
 
       // Check if sender is a registered user (external number detection)
@@ -404,7 +463,7 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
       this.logger.log(`Message from ${cleanedPhoneNumber}: ${isExternalNumber ? 'EXTERNAL' : 'REGISTERED'} - ${contactInfo.name}`);
 
       const messageData = {
-        _id: new Types.ObjectId(),
+        _id: messageId,
         whatsappMessageId: message.id._serialized,
         from: message.from,
         to: message.to,
@@ -448,7 +507,11 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
         },
       };
 
-      await this.messageModel.create(messageData);
+      const savedMessage = await this.messageModel.create(messageData);
+      await this.complianceService.evaluateMessage(savedMessage);
+      const messageEvent = { ...messageWebhookPayload(savedMessage), sessionId };
+      await this.webhooksService.emit(WebhookEvent.MESSAGE_RECEIVED, session.tenantId, messageEvent);
+      this.realtimeService.publish(RealtimeEventType.MESSAGE_CREATED, savedMessage, messageEvent);
       
       // Update session statistics
       await this.sessionModel.findOneAndUpdate(
@@ -465,7 +528,13 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  private async handleOutgoingMessage(sessionId: string, message: any): Promise<void> {
+  private async handleOutgoingMessage(sessionId: string, message: WhatsAppTransportMessage): Promise<void> {
+    // Checked before anything is awaited, while the queue worker is still inside the send
+    if (this.takeQueuedEcho(sessionId, message)) {
+      this.logger.debug(`Skipping echo of queued message: ${message.id._serialized}`);
+      return;
+    }
+
     try {
       const session = await this.sessionModel.findOne({ sessionId });
       if (!session) return;
@@ -486,13 +555,14 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
         this.logger.warn(`Failed to get entity path for entity: ${session.entityId}`);
       }
 
+      const messageId = new Types.ObjectId();
       let mediaUrl = null;
       if (message.hasMedia) {
-        mediaUrl = await this.handleMediaUpload(message);
+        mediaUrl = await this.handleMediaUpload(message, session, entity.entityIdPath, messageId, MediaSource.OUTBOUND);
       }
 
       const messageData = {
-        _id: new Types.ObjectId(),
+        _id: messageId,
         whatsappMessageId: message.id._serialized,
         from: message.from,
         to: message.to,
@@ -515,7 +585,11 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
         },
       };
 
-      await this.messageModel.create(messageData);
+      const savedMessage = await this.messageModel.create(messageData);
+      await this.complianceService.evaluateMessage(savedMessage);
+      const messageEvent = { ...messageWebhookPayload(savedMessage), sessionId };
+      await this.webhooksService.emit(WebhookEvent.MESSAGE_SENT, session.tenantId, messageEvent);
+      this.realtimeService.publish(RealtimeEventType.MESSAGE_CREATED, savedMessage, messageEvent);
       
       // Update session statistics
       await this.sessionModel.findOneAndUpdate(
@@ -532,36 +606,99 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  private async handleMediaUpload(message: any): Promise<string | null> {
+  /**
+   * Received media is always archived; it counts towards the tenant's
+   * storage but is never refused for being over the plan. The file is
+   * indexed against the message that will carry it.
+   */
+  private async handleMediaUpload(
+    message: WhatsAppTransportMessage,
+    session: WhatsAppSession,
+    entityIdPath: Types.ObjectId[],
+    messageId: Types.ObjectId,
+    source: MediaSource,
+  ): Promise<string | null> {
     try {
       const media = await message.downloadMedia();
       if (!media) return null;
 
-      const { data, mimetype, filename } = media;
-      const extension = mimetype.split('/')[1];
-      const fileName = `${message.id._serialized}.${extension}`;
-
-      // Convert base64 to buffer
-      const buffer = Buffer.from(data, 'base64');
-
-      // Upload to cloud storage using StorageService
-      const uploadResult = await this.storageService.uploadFile(
-        buffer,
-        fileName,
-        mimetype,
-        'whatsapp-media',
-      );
+      const key = await this.storeMedia(Buffer.from(media.data, 'base64'), media.mimetype, {
+        source,
+        messageId,
+        entityId: session.entityId,
+        entityIdPath,
+        tenantId: session.tenantId,
+        createdBy: 'system',
+      });
 
-      this.logger.log(`Media uploaded to cloud storage: ${uploadResult.url}`);
+      this.logger.log(`Media stored: ${key}`);
       // Return proxy URL instead of direct cloud storage URL
-      return uploadResult.proxyUrl;
+      return this.storageService.getProxyUrl(key);
     } catch (error) {
       this.logger.error(`Failed to upload media: ${error.message}`, error);
       return null;
     }
   }
 
-  private async handleMessageAck(sessionId: string, message: any, ack: number): Promise<void> {
+  /**
+   * Store WhatsApp media once per tenant under the SHA-256 of its content, so
+   * a forwarded image or sticker adds a reference to the stored blob instead
+   * of another upload. Only a new blob counts towards the tenant's storage,
+   * and with enforceLimit it is refused when the plan has no room left.
+   * A blob still being uploaded by someone else is waited for, and taken
+   * over when that upload fails or stalls.
+   */
+  private async storeMedia(
+    buffer: Buffer,
+    mimetype: string,
+    registration: Omit<MediaRegistration, 'key' | 'contentType' | 'size' | 'sha256'>,
+    enforceLimit = false,
+  ): Promise<string> {
+    const sha256 = crypto.createHash('sha256').update(buffer).digest('hex');
+    const extension = mimetype.split(';')[0].split('/')[1]?.trim() || 'bin';
+    const folder = this.storageService.contentFolder('whatsapp-media', registration.tenantId);
+    const fileName = `${sha256}.${extension}`;
+    const key = `${folder}/${fileName}`;
+
+    // Taking the reference first keeps retention from deleting a blob that is being reused
+    const startedAt = new Date();
+    const created = await this.mediaAccessService.register({
+      ...registration,
+      key,
+      contentType: mimetype,
+      size: buffer.length,
+      sha256,
+      uploadStatus: MediaUploadStatus.PENDING,
+      uploadStartedAt: startedAt,
+    });
+    const claimedAt = created ? startedAt : await this.mediaAccessService.awaitUpload(key);
+    if (!claimedAt) return key;
+
+    try {
+      if (enforceLimit) {
+        await this.tenantLimitsService.assertStorageAvailable(registration.tenantId, buffer.length);
+      }
+      await this.storageService.uploadFile(buffer, fileName, mimetype, folder);
+    } catch (error) {
+      // Anyone else waiting for the blob takes the upload over
+      await this.mediaAccessService.abandonUpload(key, claimedAt);
+      await this.mediaAccessService.release(registration.messageId || null, [key]);
+      throw error;
+    }
+
+    if (await this.mediaAccessService.markStored(key)) {
+      await this.tenantLimitsService.recordStorage(registration.tenantId, buffer.length);
+    }
+
+    return key;
+  }
+
+  private async handleMessageAck(
+    sessionId: string,
+    message: WhatsAppTransportMessage,
+    ack: number,
+    failureReason?: string,
+  ): Promise<void> {
     try {
       const statusMap = new Map<number, MessageStatus>([
         [0, MessageStatus.PENDING],
@@ -577,13 +714,23 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
       if (status === MessageStatus.SENT) updateData.sentAt = new Date();
       if (status === MessageStatus.DELIVERED) updateData.deliveredAt = new Date();
       if (status === MessageStatus.READ) updateData.readAt = new Date();
-      if (status === MessageStatus.FAILED) updateData.failedAt = new Date();
+      if (status === MessageStatus.FAILED) {
+        updateData.failedAt = new Date();
+        if (failureReason) updateData.failureReason = failureReason;
+      }
 
-      await this.messageModel.findOneAndUpdate(
+      const updated = await this.messageModel.findOneAndUpdate(
         { whatsappMessageId: message.id._serialized },
         updateData,
+        { new: true },
       );
 
+      if (updated) {
+        const statusEvent = { ...messageWebhookPayload(updated), sessionId };
+        await this.webhooksService.emit(WebhookEvent.MESSAGE_STATUS_CHANGED, updated.tenantId, statusEvent);
+        this.realtimeService.publish(RealtimeEventType.MESSAGE_STATUS, updated, statusEvent);
+      }
+
       // Update session statistics
       if (status === MessageStatus.DELIVERED) {
         await this.sessionModel.findOneAndUpdate(
@@ -624,153 +771,236 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     contentType: string,
     mediaType: 'image' | 'video' | 'audio' | 'document',
     userId: string,
+    scope: EntityScope = {},
   ): Promise<Message> {
-    const client = this.clients.get(sessionId);
-    if (!client) {
-      throw new Error(`No active client for session: ${sessionId}`);
-    }
+    const media: WhatsAppTransportMedia = { mimetype: contentType, data: mediaBuffer.toString('base64') };
+    return this.sendMessage(sessionId, to, media, userId, { caption: message, scope });
+  }
 
-    const session = await this.sessionModel.findOne({ sessionId });
+  /**
+   * Queue an outbound text or media message.
+   * The message is stored as PENDING and delivered by OutboundQueueService,
+   * so it survives restarts and sessions that are temporarily offline.
+   * With a scope, only sessions inside it can be used.
+   */
+  async sendMessage(
+    sessionId: string, 
+    to: string, 
+    content: string | WhatsAppTransportMedia, 
+    userId: string,
+    options: { caption?: string; campaignId?: string; idempotencyKey?: string; scope?: EntityScope } = {}
+  ): Promise<Message> {
+    const session = await this.sessionModel.findOne({ sessionId, ...entityScopeFilter(options.scope || {}) });
     if (!session) {
-      throw new Error(`Session not found: ${sessionId}`);
+      throw new NotFoundException('Session not found');
+    }
+
+    if (options.idempotencyKey) {
+      const existing = await this.findByIdempotencyKey(session.tenantId, userId, options.idempotencyKey);
+      if (existing) return existing;
     }
 
     try {
-      // Create MessageMedia from buffer
-      const media = new MessageMedia(contentType, mediaBuffer.toString('base64'));
-      
-      // Send message with media
-      const sentMessage = await client.sendMessage(to, media, { caption: message });
-      
-      // Get entity with path
-      const entity = await this.entityService.findOne(session.entityId.toString(), null);
-      if (!entity.entityIdPath || entity.entityIdPath.length === 0) {
-        this.logger.warn(`Failed to get entity path for entity: ${session.entityId}`);
+      if (typeof content === 'string') {
+        return await this.enqueueOutboundMessage(session, to, userId, {
+          type: MessageType.TEXT,
+          content,
+          outbound: { kind: 'text', text: content },
+          campaignId: options.campaignId,
+          idempotencyKey: options.idempotencyKey,
+        });
       }
 
-      // Create message record
-      const messageData = await this.messageModel.create({
-        whatsappMessageId: sentMessage.id._serialized,
-        sessionId: session._id,
-        entityId: session.entityId,
-        entityIdPath: entity.entityIdPath || [],
-        direction: MessageDirection.OUTBOUND,
-        from: session.phoneNumber,
-        to: to,
-        content: message,
-        messageType: this.getMessageType(mediaType),
-        status: MessageStatus.SENT,
-        mediaUrl: null, // Will be set by storage service
+      // Store media up front so retries do not carry the payload
+      const buffer = Buffer.from(content.data, 'base64');
+      const mediaKey = await this.storeMedia(
+        buffer,
+        content.mimetype,
+        {
+          source: MediaSource.OUTBOUND,
+          entityId: session.entityId,
+          entityIdPath: session.entityIdPath,
+          tenantId: session.tenantId,
+          createdBy: userId,
+        },
+        true,
+      );
+
+      const queued = await this.enqueueOutboundMessage(session, to, userId, {
+        type: this.getMessageType(content.mimetype.split('/')[0]),
+        content: options.caption || '',
+        mediaUrl: this.storageService.getProxyUrl(mediaKey),
+        outbound: {
+          kind: 'media',
+          mediaKey,
+          mimetype: content.mimetype,
+          filename: content.filename || undefined,
+          caption: options.caption,
+        },
+        campaignId: options.campaignId,
+        idempotencyKey: options.idempotencyKey,
         metadata: {
-          mediaType,
-          contentType,
-          size: mediaBuffer.length,
+          mediaType: content.mimetype,
+          size: buffer.length,
+          caption: options.caption,
         },
-        timestamp: new Date(),
-        userId: new Types.ObjectId(userId),
-        tenantId: session.tenantId,
       });
-
-      this.logger.log(`Media message sent successfully: ${sentMessage.id._serialized}`);
-      return messageData;
+      await this.mediaAccessService.attachToMessage(mediaKey, queued._id);
+      return queued;
     } catch (error) {
-      this.logger.error(`Failed to send media message: ${error.message}`);
+      this.logger.error(`Failed to queue message: ${error.message}`, error);
       throw error;
     }
   }
 
-  async sendMessage(
-    sessionId: string, 
-    to: string, 
-    content: string | MessageMedia, 
+  /**
+   * Queue a pre-approved template for a Cloud API session
+   */
+  async sendTemplateMessage(
+    sessionId: string,
+    to: string,
+    templateName: string,
+    languageCode: string,
+    components: WhatsAppTemplateComponent[],
     userId: string,
-    options: { caption?: string } = {}
+    options: { campaignId?: string; idempotencyKey?: string; scope?: EntityScope } = {},
   ): Promise<Message> {
-    const client = this.clients.get(sessionId);
-    if (!client) {
-      throw new Error(`No active client for session: ${sessionId}`);
+    const session = await this.sessionModel.findOne({ sessionId, ...entityScopeFilter(options.scope || {}) });
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+    if (session.transport !== WhatsAppTransportDriver.CLOUD) {
+      throw new BadRequestException(`Session ${sessionId} does not use the Cloud API transport; templates are not supported`);
     }
 
-    const session = await this.sessionModel.findOne({ sessionId });
-    if (!session) {
-      throw new Error(`Session not found: ${sessionId}`);
+    if (options.idempotencyKey) {
+      const existing = await this.findByIdempotencyKey(session.tenantId, userId, options.idempotencyKey);
+      if (existing) return existing;
     }
 
     try {
-      let sentMessage;
-      let messageType = MessageType.TEXT;
-      let mediaUrl = null;
-
-      if (typeof content === 'string') {
-        // Text message
-        sentMessage = await client.sendMessage(to, content);
-      } else {
-        // Media message
-        sentMessage = await client.sendMessage(to, content, { caption: options.caption });
-        messageType = this.getMessageType(content.mimetype.split('/')[0]);
-        
-        // Upload media to cloud storage using StorageService
-        const extension = content.mimetype.split('/')[1];
-        const fileName = `${sentMessage.id._serialized}.${extension}`;
-        
-        const buffer = Buffer.from(content.data, 'base64');
-        const uploadResult = await this.storageService.uploadFile(
-          buffer,
-          fileName,
-          content.mimetype,
-          'whatsapp-media',
-        );
-        
-        mediaUrl = uploadResult.proxyUrl;
-      }
+      return await this.enqueueOutboundMessage(session, to, userId, {
+        type: MessageType.TEXT,
+        content: '',
+        templateName,
+        outbound: { kind: 'template', templateName, languageCode, components },
+        campaignId: options.campaignId,
+        idempotencyKey: options.idempotencyKey,
+        metadata: { languageCode, components },
+      });
+    } catch (error) {
+      this.logger.error(`Failed to queue template message: ${error.message}`, error);
+      throw error;
+    }
+  }
 
-      // Get entity with path
-      const entity = await this.entityService.findOne(session.entityId.toString(), null);
-      if (!entity.entityIdPath || entity.entityIdPath.length === 0) {
-        this.logger.warn(`Failed to get entity path for entity: ${session.entityId}`);
-      }
+  private async enqueueOutboundMessage(
+    session: WhatsAppSession,
+    to: string,
+    userId: string,
+    data: {
+      type: MessageType;
+      content: string;
+      outbound: OutboundMessagePayload;
+      mediaUrl?: string;
+      templateName?: string;
+      campaignId?: string;
+      idempotencyKey?: string;
+      metadata?: Record<string, any>;
+    },
+  ): Promise<MessageDocument> {
+    const entity = await this.entityService.findOne(session.entityId.toString(), null);
+    if (!entity.entityIdPath || entity.entityIdPath.length === 0) {
+      this.logger.warn(`Failed to get entity path for entity: ${session.entityId}`);
+    }
 
-      const messageData = await this.messageModel.create({
-        whatsappMessageId: sentMessage.id._serialized,
+    try {
+      const message = await this.messageModel.create({
         from: session.phoneNumber,
         to,
-        type: messageType,
+        type: data.type,
         direction: MessageDirection.OUTBOUND,
-        content: typeof content === 'string' ? content : options.caption || '',
-        mediaUrl,
-        status: MessageStatus.SENT,
-        sentAt: new Date(),
+        content: data.content,
+        mediaUrl: data.mediaUrl || null,
+        status: MessageStatus.PENDING,
         conversationId: to,
+        templateName: data.templateName,
+        campaignId: data.campaignId ? new Types.ObjectId(data.campaignId) : undefined,
+        sessionId: session.sessionId,
+        outbound: data.outbound,
+        idempotencyKey: data.idempotencyKey,
+        attempts: 0,
+        nextAttemptAt: new Date(),
         entityId: session.entityId,
         entityIdPath: entity.entityIdPath,
         tenantId: session.tenantId,
         createdBy: userId,
         metadata: {
-          hasMedia: mediaUrl !== null,
-          mediaType: typeof content === 'string' ? null : content.mimetype,
-          caption: options.caption,
+          hasMedia: !!data.mediaUrl,
+          ...data.metadata,
         },
       });
 
-      // Update session statistics
-      await this.sessionModel.findOneAndUpdate(
-        { sessionId },
-        {
-          $inc: { messagesSent: 1 },
-          lastActivityAt: new Date(),
-        },
-      );
+      await this.complianceService.evaluateMessage(message);
+      this.realtimeService.publish(RealtimeEventType.MESSAGE_CREATED, message, messageWebhookPayload(message));
 
-      this.logger.log(`Message sent successfully: ${sentMessage.id._serialized}`);
-      return messageData;
+      this.logger.log(`Message queued for session ${session.sessionId}: ${message._id}`);
+      return message;
     } catch (error) {
-      this.logger.error(`Failed to send message: ${error.message}`, error);
+      // Lost a race with a concurrent request using the same idempotency key
+      if (error.code === 11000 && data.idempotencyKey) {
+        const existing = await this.findByIdempotencyKey(session.tenantId, userId, data.idempotencyKey);
+        if (existing) return existing;
+      }
       throw error;
     }
   }
 
-  async getQRCode(sessionId: string): Promise<{ qrCode: string; expiresAt: Date } | null> {
-    const session = await this.sessionModel.findOne({ sessionId });
+  // Keys are per sender, so one caller can never replay another's message
+  private async findByIdempotencyKey(
+    tenantId: Types.ObjectId,
+    createdBy: string,
+    idempotencyKey: string,
+  ): Promise<MessageDocument | null> {
+    return this.messageModel.findOne({ tenantId, createdBy, idempotencyKey });
+  }
+
+  /**
+   * Route a verified Cloud API webhook payload to the sessions it belongs to
+   */
+  async handleCloudWebhook(payload: CloudWebhookPayload): Promise<void> {
+    for (const entry of payload?.entry || []) {
+      for (const change of entry.changes || []) {
+        if (change.field !== 'messages' || !change.value?.metadata) {
+          continue;
+        }
+
+        const phoneNumberId = change.value.metadata.phone_number_id;
+        const session = await this.sessionModel.findOne({
+          cloudPhoneNumberId: phoneNumberId,
+          transport: WhatsAppTransportDriver.CLOUD,
+          isActive: true,
+        });
+
+        if (!session) {
+          this.logger.warn(`Received Cloud API webhook for unknown phone number ID: ${phoneNumberId}`);
+          continue;
+        }
+
+        if (!this.transports.has(session.sessionId)) {
+          await this.initializeClient(session.sessionId);
+        }
+
+        const transport = this.transports.get(session.sessionId);
+        if (transport instanceof CloudApiTransport) {
+          transport.handleWebhookValue(change.value);
+        }
+      }
+    }
+  }
+
+  async getQRCode(sessionId: string, scope: EntityScope = {}): Promise<{ qrCode: string; expiresAt: Date } | null> {
+    const session = await this.sessionModel.findOne({ sessionId, ...entityScopeFilter(scope) });
     if (!session || !session.qrCode) {
       return null;
     }
@@ -782,59 +1012,93 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
       };
   }
 
-  async getSessionStatus(sessionId: string): Promise<WhatsAppSession | null> {
-    return this.sessionModel.findOne({ sessionId });
+  /**
+   * Get the live transport backing a session, if any.
+   * Lets tooling script the in-memory driver in CI and local development.
+   */
+  getTransport(sessionId: string): WhatsAppTransport | undefined {
+    return this.transports.get(sessionId);
+  }
+
+  /**
+   * Note that the outbound queue is sending a message. The web client echoes
+   * sends as message_create, possibly before the worker has recorded the
+   * WhatsApp ID, and the echo must not be stored as a second message. Call
+   * the returned function once the send has been recorded or has failed.
+   */
+  trackQueuedSend(sessionId: string, to: string, payload: OutboundMessagePayload): () => void {
+    const send: QueuedSend = { to, payload };
+    this.queuedSends.set(sessionId, [...(this.queuedSends.get(sessionId) || []), send]);
+
+    return () => {
+      const remaining = (this.queuedSends.get(sessionId) || []).filter((entry) => entry !== send);
+      if (remaining.length) this.queuedSends.set(sessionId, remaining);
+      else this.queuedSends.delete(sessionId);
+    };
+  }
+
+  // Each queued send accounts for one echo
+  private takeQueuedEcho(sessionId: string, message: WhatsAppTransportMessage): boolean {
+    const sends = this.queuedSends.get(sessionId) || [];
+    const index = sends.findIndex(({ to, payload }) => {
+      if (to !== message.to) return false;
+      if (payload?.kind === 'media') return message.hasMedia;
+      if (payload?.kind === 'text') return !message.hasMedia && (message.body || '') === (payload.text || '');
+      return !message.hasMedia;
+    });
+    if (index < 0) return false;
+
+    this.queuedSends.set(sessionId, sends.filter((_, i) => i !== index));
+    return true;
+  }
+
+  async getSessionStatus(sessionId: string, scope: EntityScope): Promise<WhatsAppSession | null> {
+    return this.sessionModel.findOne({ sessionId, ...entityScopeFilter(scope) });
   }
 
-  async disconnectSession(sessionId: string): Promise<void> {
+  /**
+   * Disconnect a session. Requests pass the caller's scope; internal callers
+   * (reconnects, QR regeneration) act on any session.
+   */
+  async disconnectSession(sessionId: string, scope?: EntityScope): Promise<void> {
+    if (scope && !(await this.sessionModel.exists({ sessionId, ...entityScopeFilter(scope) }))) {
+      throw new NotFoundException('Session not found');
+    }
+
     try {
-      const client = this.clients.get(sessionId);
-      if (client) {
+      const transport = this.transports.get(sessionId);
+      if (transport) {
         // First try to close the session gracefully
         try {
-          await client.logout();
+          await transport.logout();
         } catch (error) {
           this.logger.warn(`Failed to logout client for session ${sessionId}: ${error.message}`);
         }
 
         // Wait a bit to allow resources to be released
-        await new Promise(resolve => setTimeout(resolve, 2000));
+        if (transport.driver === WhatsAppTransportDriver.WEB) {
+          await new Promise(resolve => setTimeout(resolve, 2000));
+        }
 
-        // Then destroy the client
+        // Then destroy the transport (also cleans up any local session files)
         try {
-          await client.destroy();
+          await transport.destroy();
         } catch (error) {
           this.logger.warn(`Failed to destroy client for session ${sessionId}: ${error.message}`);
         }
 
-        // Remove from clients map
-        this.clients.delete(sessionId);
-
-        // Wait again before trying to clean up files
-        await new Promise(resolve => setTimeout(resolve, 2000));
-
-        // Try to clean up session files
-        try {
-          const sessionPath = `${process.cwd()}/.wwebjs_auth/session-${sessionId}`;
-          if (fsSync.existsSync(sessionPath)) {
-            await fs.rm(sessionPath, { recursive: true, force: true });
-          }
-        } catch (error) {
-          this.logger.warn(`Failed to clean up session files for ${sessionId}: ${error.message}`);
-        }
+        // Remove from transports map
+        this.transports.delete(sessionId);
       }
 
       // Update session status in database
-      await this.sessionModel.findOneAndUpdate(
-        { sessionId },
-        { 
-          status: SessionStatus.DISCONNECTED,
-          disconnectedAt: new Date(),
-          qrCode: null,
-          qrCodeGeneratedAt: null,
-          qrCodeExpiresAt: null
-        }
-      );
+      await this.applySessionUpdate(sessionId, {
+        status: SessionStatus.DISCONNECTED,
+        disconnectedAt: new Date(),
+        qrCode: null,
+        qrCodeGeneratedAt: null,
+        qrCodeExpiresAt: null
+      });
     } catch (error) {
       this.logger.error(`Error during session disconnect for ${sessionId}:`, error);
       throw error;
@@ -845,10 +1109,26 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
   }
 
   private async updateSessionStatus(sessionId: string, status: SessionStatus): Promise<void> {
-    await this.sessionModel.findOneAndUpdate(
-      { sessionId },
-      { status, lastActivityAt: new Date() },
-    );
+    await this.applySessionUpdate(sessionId, { status, lastActivityAt: new Date() });
+  }
+
+  /**
+   * Apply a session update and publish the status change when the status moves.
+   * Returns the session as it was before the update.
+   */
+  private async applySessionUpdate(sessionId: string, update: Record<string, any>, reason?: string): Promise<WhatsAppSession | null> {
+    const previous = await this.sessionModel.findOneAndUpdate({ sessionId }, update);
+    if (!previous || !update.status || previous.status === update.status) return previous;
+
+    const statusEvent = {
+      ...sessionWebhookPayload({ ...previous.toObject(), ...update }),
+      previousStatus: previous.status,
+      reason,
+    };
+    await this.webhooksService.emit(WebhookEvent.SESSION_STATUS_CHANGED, previous.tenantId, statusEvent);
+    this.realtimeService.publish(RealtimeEventType.SESSION_STATUS, previous, statusEvent);
+
+    return previous;
   }
 
   private async reconnectActiveSessions(): Promise<void> {
@@ -867,33 +1147,9 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  async getMessages(filters: any): Promise<{ messages: Message[], total: number, page: number, limit: number, totalPages: number }> {
-    const query: any = { isActive: true };
-
-    if (filters?.tenantId) query.tenantId = new Types.ObjectId(filters.tenantId);
-    if (filters?.entityId) {
-      const entityId = new Types.ObjectId(filters.entityId);
-      // Check if the entity ID is in the entityIdPath array
-      query.entityIdPath = entityId;
-    }
-    if (filters?.userId) query.userId = new Types.ObjectId(filters.userId);
-    if (filters?.direction) query.direction = filters.direction;
-    if (filters?.status) query.status = filters.status;
-    if (filters?.type) query.type = filters.type;
-    if (filters?.from) query.from = { $regex: filters.from, $options: 'i' };
-    if (filters?.to) query.to = { $regex: filters.to, $options: 'i' };
-    if (filters?.conversationId) query.conversationId = filters.conversationId;
-    if (filters?.isExternal !== undefined) query.isExternalNumber = filters.isExternal === 'true';
-
-    if (filters?.search) {
-      query.content = { $regex: filters.search, $options: 'i' };
-    }
-
-    if (filters?.startDate || filters?.endDate) {
-      query.createdAt = {};
-      if (filters.startDate) query.createdAt.$gte = new Date(filters.startDate);
-      if (filters.endDate) query.createdAt.$lte = new Date(filters.endDate);
-    }
+  async getMessages(filters: any, scope: EntityScope): Promise<{ messages: Message[], total: number, page: number, limit: number, totalPages: number }> {
+    // entityId narrows the results without leaving the caller's subtree
+    const query = { ...this.buildMessageQuery(filters), ...entityScopeFilter(scope, filters?.entityId) };
 
     // Pagination
     const page = parseInt(filters?.page) || 1;
@@ -930,12 +1186,43 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     };
   }
 
-  async getConversations(tenantId: string): Promise<any[]> {
-    // Build match query - only include tenantId if provided (SystemAdmin has no tenantId)
-    const matchQuery: any = { isActive: true };
-    if (tenantId && tenantId !== '') {
-      matchQuery.tenantId = new Types.ObjectId(tenantId);
+  /**
+   * Build the message query for the filters accepted by getMessages
+   * (also used by the eDiscovery export so both select the same messages)
+   */
+  buildMessageQuery(filters: any): Record<string, any> {
+    const query: any = { isActive: true };
+
+    if (filters?.tenantId) query.tenantId = new Types.ObjectId(filters.tenantId);
+    if (filters?.entityId) {
+      const entityId = new Types.ObjectId(filters.entityId);
+      // Check if the entity ID is in the entityIdPath array
+      query.entityIdPath = entityId;
     }
+    if (filters?.userId) query.userId = new Types.ObjectId(filters.userId);
+    if (filters?.direction) query.direction = filters.direction;
+    if (filters?.status) query.status = filters.status;
+    if (filters?.type) query.type = filters.type;
+    if (filters?.from) query.from = { $regex: filters.from, $options: 'i' };
+    if (filters?.to) query.to = { $regex: filters.to, $options: 'i' };
+    if (filters?.conversationId) query.conversationId = filters.conversationId;
+    if (filters?.isExternal !== undefined) query.isExternalNumber = filters.isExternal === 'true';
+
+    if (filters?.search) {
+      query.content = { $regex: filters.search, $options: 'i' };
+    }
+
+    if (filters?.startDate || filters?.endDate) {
+      query.createdAt = {};
+      if (filters.startDate) query.createdAt.$gte = new Date(filters.startDate);
+      if (filters.endDate) query.createdAt.$lte = new Date(filters.endDate);
+    }
+
+    return query;
+  }
+
+  async getConversations(scope: EntityScope): Promise<any[]> {
+    const matchQuery: any = { isActive: true, ...entityScopeFilter(scope) };
 
     const conversations = await this.messageModel.aggregate([
       { $match: matchQuery },